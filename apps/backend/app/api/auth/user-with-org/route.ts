@@ -4,6 +4,7 @@ import { getUserWithOrg } from "@/app/auth/actions";
 /**
  * GET /api/auth/user-with-org
  * Get current user with organization info
+ * Includes every organization the user belongs to, with their role in each
  */
 export async function GET(request: NextRequest) {
   try {
@@ -17,6 +18,7 @@ export async function GET(request: NextRequest) {
       user: result.user,
       profile: result.profile,
       organization: result.organization,
+      organizations: result.organizations,
     });
   } catch (error) {
     console.error("Error getting user with org:", error);
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/api/auth';
 import { prisma } from '@repo/database';
+import { getMemberPermissions } from '@/lib/context/org-context';
 import { profileService } from '@/lib/services/profile.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 /**
  * POST /api/join-requests/[requestId]/approve
- * Approve a join request (Admin+ only)
+ * Approve a join request (members.manage)
  */
 export async function POST(
   request: NextRequest,
@@ -39,29 +41,23 @@ export async function POST(
       );
     }
 
-    // Check if user is admin or owner of the organization
-    const userRole = await prisma.organizationMember.findUnique({
-      where: { profileId: user.id },
-      select: { role: true, organizationId: true },
-    });
-
-    if (!userRole || userRole.organizationId !== joinRequest.organizationId) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 403 }
-      );
-    }
-
-    if (userRole.role === 'MEMBER') {
+    // Check if user can manage members of the organization (no permissions when not a member)
+    const permissions = await getMemberPermissions(user.id, joinRequest.organizationId);
+    if (!permissions.includes('members.manage')) {
       return NextResponse.json(
-        { success: false, error: 'Only admins and owners can approve join requests' },
+        { success: false, error: 'You do not have permission to approve join requests' },
         { status: 403 }
       );
     }
 
-    // Check if requester is already a member
+    // Check if requester is already a member (of this organization - they may belong to others)
     const existingMember = await prisma.organizationMember.findUnique({
-      where: { profileId: joinRequest.profileId },
+      where: {
+        organizationId_profileId: {
+          organizationId: joinRequest.organizationId,
+          profileId: joinRequest.profileId,
+        },
+      },
     });
 
     if (existingMember) {
@@ -102,6 +98,13 @@ export async function POST(
       }),
     ]);
 
+    await auditService.record(getAuditContext(request, joinRequest.organizationId, user), {
+      action: 'join-request.approve',
+      targetType: 'join-request',
+      targetId: requestId,
+      metadata: { profileId: joinRequest.profileId },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Join request approved successfully',
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/api/auth';
 import { prisma } from '@repo/database';
+import { getMemberPermissions } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 /**
  * POST /api/join-requests/[requestId]/deny
- * Deny a join request (Admin+ only)
+ * Deny a join request (members.manage)
  */
 export async function POST(
   request: NextRequest,
@@ -37,22 +39,11 @@ export async function POST(
       );
     }
 
-    // Check if user is admin or owner of the organization
-    const userRole = await prisma.organizationMember.findUnique({
-      where: { profileId: user.id },
-      select: { role: true, organizationId: true },
-    });
-
-    if (!userRole || userRole.organizationId !== joinRequest.organizationId) {
+    // Check if user can manage members of the organization (no permissions when not a member)
+    const permissions = await getMemberPermissions(user.id, joinRequest.organizationId);
+    if (!permissions.includes('members.manage')) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 403 }
-      );
-    }
-
-    if (userRole.role === 'MEMBER') {
-      return NextResponse.json(
-        { success: false, error: 'Only admins and owners can deny join requests' },
+        { success: false, error: 'You do not have permission to deny join requests' },
         { status: 403 }
       );
     }
@@ -67,6 +58,13 @@ export async function POST(
       },
     });
 
+    await auditService.record(getAuditContext(request, joinRequest.organizationId, user), {
+      action: 'join-request.deny',
+      targetType: 'join-request',
+      targetId: requestId,
+      metadata: { profileId: joinRequest.profileId },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Join request denied successfully',
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getUser } from "@/app/auth/actions";
 import { prisma } from "@repo/database";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
 
 /**
  * POST /api/join/token
@@ -21,18 +22,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invalid token" }, { status: 400 });
     }
 
-    // Check if user already belongs to an organization
-    const existingMembership = await prisma.organizationMember.findUnique({
-      where: { profileId: user.id },
-    });
-
-    if (existingMembership) {
-      return NextResponse.json(
-        { error: "You already belong to an organization" },
-        { status: 409 }
-      );
-    }
-
     // Find invite
     const invite = await prisma.organizationInvite.findUnique({
       where: { token },
@@ -66,6 +55,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Users can belong to several organizations, just not join the same one twice
+    const existingMembership = await prisma.organizationMember.findUnique({
+      where: {
+        organizationId_profileId: {
+          organizationId: invite.organizationId,
+          profileId: user.id,
+        },
+      },
+    });
+
+    if (existingMembership) {
+      return NextResponse.json(
+        { error: "You are already a member of this organization" },
+        { status: 409 }
+      );
+    }
+
     // Check if user already has a pending request
     const existingRequest = await prisma.joinRequest.findUnique({
       where: {
@@ -94,12 +100,25 @@ export async function POST(request: NextRequest) {
     }
 
     // Create join request (even with valid token, requires approval)
-    const joinRequest = await prisma.joinRequest.create({
-      data: {
+    // An approved one from an earlier membership (the user has since left) is reopened
+    const joinRequest = await prisma.joinRequest.upsert({
+      where: {
+        organizationId_profileId: {
+          organizationId: invite.organizationId,
+          profileId: user.id,
+        },
+      },
+      create: {
         organizationId: invite.organizationId,
         profileId: user.id,
         status: "PENDING",
       },
+      update: {
+        status: "PENDING",
+        requestedAt: new Date(),
+        reviewedAt: null,
+        reviewedBy: null,
+      },
       include: {
         organization: {
           select: {
@@ -111,6 +130,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await auditService.record(getAuditContext(request, invite.organizationId, user), {
+      action: "join-request.create",
+      targetType: "join-request",
+      targetId: joinRequest.id,
+      metadata: { inviteId: invite.id },
+    });
+
     return NextResponse.json(
       {
         message: "Join request created successfully. Waiting for admin approval.",
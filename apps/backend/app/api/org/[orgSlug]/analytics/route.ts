@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { contentAnalyticsService } from '@/lib/services/analytics/content-analytics.service';
+
+const MAX_DAYS = 365;
 
 /**
- * PATCH /api/org/[orgSlug]/submissions/[submissionId]/video/[videoId]/approve
- * Approve a video output
+ * GET /api/org/[orgSlug]/analytics - Get widget consumption analytics for organization
+ * Query: ?days= (default 30) - rolled up nightly, so today is not included
  */
-export async function PATCH(
+export async function GET(
   request: NextRequest,
-  props: { params: Promise<{ orgSlug: string; submissionId: string; videoId: string }> }
+  props: { params: Promise<{ orgSlug: string }> }
 ) {
   const params = await props.params;
   try {
@@ -42,30 +44,23 @@ export async function PATCH(
       );
     }
 
-    // Verify submission belongs to this organization
-    const belongsToOrg = await validateResourceOrg('submission', params.submissionId, org.id);
-    if (!belongsToOrg) {
-      return NextResponse.json(
-        { success: false, error: 'Submission not found in this organization' },
-        { status: 404 }
-      );
-    }
+    const searchParams = request.nextUrl.searchParams;
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30') || 30, 1), MAX_DAYS);
 
-    // Approve video output
-    const result = await SubmissionsController.approveVideoOutput(params.submissionId, params.videoId);
+    const analytics = await contentAnalyticsService.getOrganizationAnalytics(org.id, days);
 
     return NextResponse.json({
       success: true,
-      data: result,
+      data: analytics,
     });
   } catch (error) {
-    console.error('Approve Video Error:', error);
+    console.error('Get Analytics Error:', error);
     return NextResponse.json(
       {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to approve video',
+        error: 'Failed to fetch analytics',
       },
-      { status: 500 }
+      { status: 500 },
     );
   }
 }
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/config/database';
+import { createClient } from '@/lib/supabase/server';
+import { queueService } from '@/lib/services/core/queue.service';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+
+/**
+ * POST /api/org/[orgSlug]/article-feeds/:id/check - Check a feed for new entries now
+ * Runs in the worker; results show up as lastCheckedAt / lastError and new articles.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const feed = await prisma.articleFeed.findFirst({
+      where: { id: params.id, organizationId: org.id },
+      select: { id: true },
+    });
+    if (!feed) {
+      return NextResponse.json(
+        { success: false, error: 'Feed not found' },
+        { status: 404 }
+      );
+    }
+
+    const job = await queueService.addArticleFeedCheckJob({ feedId: feed.id });
+
+    return NextResponse.json(
+      { success: true, data: { jobId: job.id } },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Check Article Feed Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to queue feed check' },
+      { status: 500 }
+    );
+  }
+}
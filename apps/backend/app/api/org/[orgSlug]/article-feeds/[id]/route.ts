@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/config/database';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+const UpdateArticleFeedSchema = z.object({
+  isActive: z.boolean().optional(),
+  category: z.enum(['EVERGREEN', 'PERIODIC_UPDATES', 'MARKET_UPDATES']).optional(),
+});
+
+/**
+ * PATCH /api/org/[orgSlug]/article-feeds/:id - Pause / resume a feed or change its category
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await prisma.articleFeed.findFirst({
+      where: { id: params.id, organizationId: org.id },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Feed not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = UpdateArticleFeedSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const feed = await prisma.articleFeed.update({
+      where: { id: existing.id },
+      data: validationResult.data,
+    });
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'article-feed.update',
+      targetType: 'article-feed',
+      targetId: feed.id,
+      metadata: { title: feed.title, changes: validationResult.data },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: feed,
+    });
+  } catch (error) {
+    console.error('Update Article Feed Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update article feed' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/org/[orgSlug]/article-feeds/:id - Unsubscribe (imported articles are kept)
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const feed = await prisma.articleFeed.findFirst({
+      where: { id: params.id, organizationId: org.id },
+    });
+    if (!feed) {
+      return NextResponse.json(
+        { success: false, error: 'Feed not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.articleFeed.delete({ where: { id: feed.id } });
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'article-feed.delete',
+      targetType: 'article-feed',
+      targetId: feed.id,
+      metadata: { title: feed.title, url: feed.url },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { id: feed.id },
+    });
+  } catch (error) {
+    console.error('Delete Article Feed Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete article feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/config/database';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { profileService } from '@/lib/services/profile.service';
+import { queueService } from '@/lib/services/core/queue.service';
+import { articleFeedService } from '@/lib/services/core/article-feed.service';
+import { WebContentError } from '@/lib/services/core/web-content.service';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+const CreateArticleFeedSchema = z.object({
+  url: z.string().url('Enter a valid feed URL'),
+  category: z.enum(['EVERGREEN', 'PERIODIC_UPDATES', 'MARKET_UPDATES']).optional(),
+});
+
+/**
+ * GET /api/org/[orgSlug]/article-feeds - Feed subscriptions with their latest imported articles
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const feeds = await prisma.articleFeed.findMany({
+      where: { organizationId: org.id },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        _count: { select: { articles: true } },
+        articles: {
+          orderBy: { createdAt: 'desc' },
+          take: 5,
+          select: {
+            id: true,
+            title: true,
+            createdAt: true,
+            _count: { select: { submissions: true } },
+          },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: feeds,
+    });
+  } catch (error) {
+    console.error('Get Article Feeds Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch article feeds' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/org/[orgSlug]/article-feeds - Subscribe to an RSS / Atom feed
+ * The URL is fetched once to make sure it is a feed; the first check is queued right away.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    await profileService.upsertProfile(user);
+
+    const body = await request.json();
+    const validationResult = CreateArticleFeedSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { url, category } = validationResult.data;
+    const parsed = await articleFeedService.fetchFeed(url);
+
+    const feed = await prisma.articleFeed.create({
+      data: {
+        url,
+        title: parsed.title || url,
+        category: category || 'EVERGREEN',
+        createdById: user.id,
+        organizationId: org.id,
+      },
+    });
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'article-feed.create',
+      targetType: 'article-feed',
+      targetId: feed.id,
+      metadata: { title: feed.title, url: feed.url },
+    });
+
+    try {
+      await queueService.addArticleFeedCheckJob({ feedId: feed.id });
+    } catch (error) {
+      console.error('Failed to enqueue first feed check:', error);
+      // The scheduled check picks it up
+    }
+
+    return NextResponse.json(
+      { success: true, data: feed },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof WebContentError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 422 }
+      );
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { success: false, error: 'This feed is already subscribed' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Create Article Feed Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to add article feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ArticlesController } from '@/lib/controllers/articles.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
 
 export async function PATCH(
   request: NextRequest,
@@ -32,6 +33,14 @@ export async function PATCH(
       );
     }
 
+    const canApprove = await hasOrgPermission(user.id, params.orgSlug, 'content.approve');
+    if (!canApprove) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to approve content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -50,7 +59,7 @@ export async function PATCH(
       );
     }
 
-    const result = await ArticlesController.approveArticle(params.id, user.id);
+    const result = await ArticlesController.approveArticle(params.id, user.id, getAuditContext(request, org.id, user));
     return NextResponse.json({ success: true, data: result, message: 'Article approved successfully' });
   } catch (error) {
     console.error('Approve Article Error:', error);
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { REVIEW_OUTPUT_TYPES, type ReviewableOutputType } from '@/lib/services/core/review.service';
+import { contentFamilyService } from '@/lib/services/core/content-family.service';
+
+const BackTranslateSchema = z.object({
+  outputId: z.string().uuid('Invalid output id'),
+});
+
+/**
+ * POST /api/org/[orgSlug]/articles/[id]/family/[outputType]/back-translate
+ * Translate one language's paragraphs back to English for the reviewer
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string; outputType: string }> }
+) {
+  const params = await props.params;
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Validate user has access to this organization
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    // Get organization
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!Object.hasOwn(REVIEW_OUTPUT_TYPES, params.outputType)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown output type' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = BackTranslateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await contentFamilyService.backTranslate(
+      org.id,
+      params.id,
+      params.outputType as ReviewableOutputType,
+      validationResult.data.outputId,
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Output not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Back-translate Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to back-translate' },
+      { status: 500 }
+    );
+  }
+}
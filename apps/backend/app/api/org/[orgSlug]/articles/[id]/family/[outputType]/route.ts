@@ -1,15 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { REVIEW_OUTPUT_TYPES, type ReviewableOutputType } from '@/lib/services/core/review.service';
+import { contentFamilyService } from '@/lib/services/core/content-family.service';
 
 /**
- * PATCH /api/org/[orgSlug]/submissions/[submissionId]/interactive-podcast/[ipId]/approve
- * Approve an interactive podcast output
+ * GET /api/org/[orgSlug]/articles/[id]/family/[outputType]
+ * The article's output of this type in every language, split into paragraphs for side-by-side review
  */
-export async function PATCH(
+export async function GET(
   request: NextRequest,
-  props: { params: Promise<{ orgSlug: string; submissionId: string; ipId: string }> }
+  props: { params: Promise<{ orgSlug: string; id: string; outputType: string }> }
 ) {
   const params = await props.params;
   try {
@@ -42,29 +43,30 @@ export async function PATCH(
       );
     }
 
-    // Verify submission belongs to this organization
-    const belongsToOrg = await validateResourceOrg('submission', params.submissionId, org.id);
-    if (!belongsToOrg) {
+    if (!Object.hasOwn(REVIEW_OUTPUT_TYPES, params.outputType)) {
       return NextResponse.json(
-        { success: false, error: 'Submission not found in this organization' },
+        { success: false, error: 'Unknown output type' },
         { status: 404 }
       );
     }
 
-    // Approve interactive podcast output
-    const result = await SubmissionsController.approveInteractivePodcastOutput(params.submissionId, params.ipId);
+    const family = await contentFamilyService.getFamily(org.id, params.id, params.outputType as ReviewableOutputType);
 
     return NextResponse.json({
       success: true,
-      data: result,
+      data: family,
     });
   } catch (error) {
-    console.error('Approve Interactive Podcast Error:', error);
+    if (error instanceof Error && error.message === 'Article not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Get Content Family Error:', error);
     return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to approve interactive podcast',
-      },
+      { success: false, error: 'Failed to fetch content family' },
       { status: 500 }
     );
   }
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { REVIEW_OUTPUT_TYPES, type ReviewableOutputType } from '@/lib/services/core/review.service';
+import { contentFamilyService } from '@/lib/services/core/content-family.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+const FamilyTransitionSchema = z.object({
+  action: z.enum(['approve', 'request_changes']),
+  note: z.string().trim().max(2000).optional(),
+  acknowledgeGlossary: z.boolean().optional(), // Approve despite glossary issues
+  outputIds: z.array(z.string().uuid()).min(1).optional(), // Defaults to every language
+});
+
+/**
+ * POST /api/org/[orgSlug]/articles/[id]/family/[outputType]/transition
+ * Approve or request changes on all languages of the article's output at once
+ * Requires content.approve permission. Returns a result per language - one failing doesn't stop the rest.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string; outputType: string }> }
+) {
+  const params = await props.params;
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Validate user has access to this organization
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canApprove = await hasOrgPermission(user.id, params.orgSlug, 'content.approve');
+    if (!canApprove) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to review content' },
+        { status: 403 }
+      );
+    }
+
+    // Get organization
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!Object.hasOwn(REVIEW_OUTPUT_TYPES, params.outputType)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown output type' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = FamilyTransitionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { action, note, acknowledgeGlossary, outputIds } = validationResult.data;
+    const outputType = params.outputType as ReviewableOutputType;
+    const results = await contentFamilyService.transitionFamily(org.id, params.id, outputType, action, user.id, {
+      note: note || undefined,
+      acknowledgeGlossary,
+      outputIds,
+    });
+
+    const auditContext = getAuditContext(request, org.id, user);
+    for (const result of results.filter((r) => r.status)) {
+      await auditService.record(auditContext, {
+        action: `${outputType}.${action}`,
+        targetType: outputType,
+        targetId: result.outputId,
+        metadata: {
+          toStatus: result.status,
+          note: note || null,
+          articleId: params.id,
+          language: result.language,
+          family: true,
+          ...(acknowledgeGlossary && { acknowledgeGlossary: true }),
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { results },
+    });
+  } catch (error) {
+    console.error('Content Family Transition Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update review status' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/config/database';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { documentToText } from '@repo/article-content';
+import { sanitizeArticleDocument, ArticleDocumentError } from '@repo/article-content/sanitize';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
-const CreateArticleSchema = z.object({
-  title: z.string().min(1, 'Title is required').max(500),
-  content: z.string().min(1, 'Content is required'),
+const UpdateArticleSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(500).optional(),
+  content: z.string().min(1, 'Content is required').optional(),
+  document: z.unknown().optional(), // Structured document from the editor
   category: z.enum(['EVERGREEN', 'PERIODIC_UPDATES', 'MARKET_UPDATES']).optional(),
 });
 
@@ -127,6 +132,14 @@ export async function PATCH(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -146,11 +159,29 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const updateData = CreateArticleSchema.partial().parse(body);
+    const updateData = UpdateArticleSchema.parse(body);
+    const { document, ...fields } = updateData;
+
+    // A new document also replaces the text version; free-form content drops the old document
+    const contentData: Prisma.ArticleUpdateInput = {};
+    if (document !== undefined) {
+      const contentDocument = sanitizeArticleDocument(document);
+      contentData.contentDocument = contentDocument as unknown as Prisma.InputJsonValue;
+      contentData.content = documentToText(contentDocument);
+    } else if (fields.content !== undefined) {
+      contentData.contentDocument = Prisma.DbNull;
+    }
 
     const article = await prisma.article.update({
       where: { id: params.id },
-      data: updateData,
+      data: { ...fields, ...contentData },
+    });
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'article.update',
+      targetType: 'article',
+      targetId: article.id,
+      metadata: { fields: Object.keys(updateData) },
     });
 
     return NextResponse.json({
@@ -169,6 +200,16 @@ export async function PATCH(
       );
     }
 
+    if (error instanceof ArticleDocumentError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
     console.error('Update Article Error:', error);
     return NextResponse.json(
       {
@@ -209,6 +250,14 @@ export async function DELETE(
       );
     }
 
+    const canDelete = await hasOrgPermission(user.id, params.orgSlug, 'content.delete');
+    if (!canDelete) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to delete content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -227,10 +276,17 @@ export async function DELETE(
       );
     }
 
-    await prisma.article.delete({
+    const deleted = await prisma.article.delete({
       where: { id: params.id },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'article.delete',
+      targetType: 'article',
+      targetId: deleted.id,
+      metadata: { title: deleted.title },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Article deleted successfully',
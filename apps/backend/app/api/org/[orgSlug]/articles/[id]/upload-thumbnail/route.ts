@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { prisma } from '@/lib/config/database';
 import { storageService } from '@/lib/services/core/storage.service';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 // Configure route to handle file uploads
 export const runtime = 'nodejs';
@@ -41,6 +42,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -117,6 +126,12 @@ export async function POST(
       data: { thumbnailUrl },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'article.thumbnail_upload',
+      targetType: 'article',
+      targetId: params.id,
+    });
+
     return NextResponse.json({
       success: true,
       data: { thumbnailUrl: updatedArticle.thumbnailUrl },
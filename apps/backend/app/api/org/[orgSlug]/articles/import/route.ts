@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/config/database';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { profileService } from '@/lib/services/profile.service';
+import { queueService } from '@/lib/services/core/queue.service';
+import { webContentService, WebContentError } from '@/lib/services/core/web-content.service';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60; // Fetch + AI cleaning
+
+const ImportArticleSchema = z.object({
+  url: z.string().url('Enter a valid URL'),
+  category: z.enum(['EVERGREEN', 'PERIODIC_UPDATES', 'MARKET_UPDATES']).optional(),
+});
+
+/**
+ * POST /api/org/[orgSlug]/articles/import - Create article from a web page
+ * Fetches the page, extracts the readable text and cleans it like an uploaded file.
+ * Each page can only be imported once per organization.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    await profileService.upsertProfile(user);
+
+    const body = await request.json();
+    const validationResult = ImportArticleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { url, category } = validationResult.data;
+    const sourceUrl = webContentService.normalizeUrl(url);
+
+    const existing = await prisma.article.findUnique({
+      where: { organizationId_sourceUrl: { organizationId: org.id, sourceUrl } },
+      select: { id: true, title: true },
+    });
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `This page was already imported as "${existing.title}"`,
+          data: { articleId: existing.id },
+        },
+        { status: 409 }
+      );
+    }
+
+    const { title, content } = await webContentService.extractArticle(url);
+
+    const article = await prisma.article.create({
+      data: {
+        title,
+        content,
+        category: category || 'EVERGREEN',
+        sourceUrl,
+        profileId: user.id,
+        organizationId: org.id,
+      },
+    });
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'article.create',
+      targetType: 'article',
+      targetId: article.id,
+      metadata: { title: article.title, sourceUrl },
+    });
+
+    try {
+      await queueService.addArticleThumbnailGenerationJob({
+        articleId: article.id,
+        title: article.title,
+        organizationId: org.id,
+      });
+    } catch (error) {
+      console.error('Failed to enqueue thumbnail for imported article:', error);
+      // Continue without thumbnail job - not critical
+    }
+
+    return NextResponse.json(
+      { success: true, data: article },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof WebContentError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 422 }
+      );
+    }
+
+    console.error('Import Article Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import article' },
+      { status: 500 }
+    );
+  }
+}
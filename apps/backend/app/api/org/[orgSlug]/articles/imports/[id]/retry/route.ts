@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { ArticleImportsController } from '@/lib/controllers/article-imports.controller';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
+
+/**
+ * POST /api/org/[orgSlug]/articles/imports/:id/retry - Retry the failures of a bulk upload
+ * Body: { itemIds?: string[] } - all failed items when omitted.
+ * Failed extractions are queued again; for submitted items, outputs that failed before their script was ready are restarted.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await ArticleImportsController.retry(org.id, params.id, body, getAuditContext(request, org.id, user));
+
+    return NextResponse.json(
+      { success: true, data: result },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Import not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Retry Article Import Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retry import' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { ArticleImportsController } from '@/lib/controllers/article-imports.controller';
+import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
 
 /**
- * PATCH /api/org/[orgSlug]/submissions/[submissionId]/quiz/[quizId]/unapprove
- * Unapprove a quiz output
+ * GET /api/org/[orgSlug]/articles/imports/:id - Bulk upload with per-item extraction and generation status
  */
-export async function PATCH(
+export async function GET(
   request: NextRequest,
-  props: { params: Promise<{ orgSlug: string; submissionId: string; quizId: string }> }
+  props: { params: Promise<{ orgSlug: string; id: string }> }
 ) {
   const params = await props.params;
   try {
-    // Get authenticated user
     const supabase = await createClient();
     const { data: { user }, error: authError } = await supabase.auth.getUser();
 
@@ -24,7 +22,6 @@ export async function PATCH(
       );
     }
 
-    // Validate user has access to this organization
     const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
     if (!hasAccess) {
       return NextResponse.json(
@@ -33,7 +30,6 @@ export async function PATCH(
       );
     }
 
-    // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
       return NextResponse.json(
@@ -42,29 +38,22 @@ export async function PATCH(
       );
     }
 
-    // Verify submission belongs to this organization
-    const belongsToOrg = await validateResourceOrg('submission', params.submissionId, org.id);
-    if (!belongsToOrg) {
+    const batch = await ArticleImportsController.getById(org.id, params.id);
+    if (!batch) {
       return NextResponse.json(
-        { success: false, error: 'Submission not found in this organization' },
+        { success: false, error: 'Import not found' },
         { status: 404 }
       );
     }
 
-    // Unapprove quiz output
-    const result = await SubmissionsController.unapproveQuizOutput(params.submissionId, params.quizId);
-
     return NextResponse.json({
       success: true,
-      data: result,
+      data: batch,
     });
   } catch (error) {
-    console.error('Unapprove Quiz Error:', error);
+    console.error('Get Article Import Error:', error);
     return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to unapprove quiz',
-      },
+      { success: false, error: 'Failed to fetch import' },
       { status: 500 }
     );
   }
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { profileService } from '@/lib/services/profile.service';
+import { ArticleImportsController, ArticleImportValidationError } from '@/lib/controllers/article-imports.controller';
+import { LanguageValidationError } from '@/lib/services/core/language.service';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60; // Unpacking archives + storing the files
+
+/**
+ * GET /api/org/[orgSlug]/articles/imports - Recent bulk uploads with their item statuses
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const batches = await ArticleImportsController.getAll(org.id);
+
+    return NextResponse.json({
+      success: true,
+      data: batches,
+    });
+  } catch (error) {
+    console.error('Get Article Imports Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch imports' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/org/[orgSlug]/articles/imports - Bulk upload articles
+ * Multipart form: `files` (documents and/or ZIP archives), optional `manifest` CSV
+ * (columns url / file / title / category) and `settings` JSON with the submission settings.
+ * Files are stored and extracted by the worker - the response only carries the new batch.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    await profileService.upsertProfile(user);
+
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((value): value is File => value instanceof File);
+    const manifest = formData.get('manifest');
+    const settings = formData.get('settings');
+
+    let parsedSettings: unknown;
+    try {
+      parsedSettings = typeof settings === 'string' ? JSON.parse(settings) : {};
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid settings' },
+        { status: 400 }
+      );
+    }
+
+    const batch = await ArticleImportsController.create(
+      org.id,
+      user.id,
+      { files, manifest: manifest instanceof File ? manifest : null, settings: parsedSettings },
+      getAuditContext(request, org.id, user)
+    );
+
+    return NextResponse.json(
+      { success: true, data: batch },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ArticleImportValidationError || error instanceof LanguageValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create Article Import Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start import' },
+      { status: 500 }
+    );
+  }
+}
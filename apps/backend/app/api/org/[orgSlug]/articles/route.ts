@@ -1,17 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/config/database';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { documentToText } from '@repo/article-content';
+import { sanitizeArticleDocument, ArticleDocumentError } from '@repo/article-content/sanitize';
 import { createClient } from '@/lib/supabase/server';
 import { profileService } from '@/lib/services/profile.service';
 import { queueService } from '@/lib/services/core/queue.service';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
-// Validation schema
-const CreateArticleSchema = z.object({
-  title: z.string().min(1, 'Title is required').max(500),
-  content: z.string().min(1, 'Content is required'),
-  category: z.enum(['EVERGREEN', 'PERIODIC_UPDATES', 'MARKET_UPDATES']).optional(),
-});
+// Validation schema - either free-form content or a structured document from the editor
+const CreateArticleSchema = z
+  .object({
+    title: z.string().min(1, 'Title is required').max(500),
+    content: z.string().min(1, 'Content is required').optional(),
+    document: z.unknown().optional(),
+    category: z.enum(['EVERGREEN', 'PERIODIC_UPDATES', 'MARKET_UPDATES']).optional(),
+  })
+  .refine((data) => data.content !== undefined || data.document !== undefined, {
+    message: 'Content is required',
+    path: ['content'],
+  });
 
 /**
  * GET /api/org/[orgSlug]/articles - Get all articles for organization
@@ -138,6 +148,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -153,16 +171,29 @@ export async function POST(
     const body = await request.json();
     const validatedData = CreateArticleSchema.parse(body);
 
+    // Structured articles keep the sanitized document, with its text version as content
+    const contentDocument = validatedData.document !== undefined
+      ? sanitizeArticleDocument(validatedData.document)
+      : undefined;
+
     const article = await prisma.article.create({
       data: {
         title: validatedData.title,
-        content: validatedData.content,
+        content: contentDocument ? documentToText(contentDocument) : validatedData.content!,
+        contentDocument: contentDocument as unknown as Prisma.InputJsonValue | undefined,
         category: validatedData.category as any || 'EVERGREEN',
-        userId: user.id,
+        profileId: user.id,
         organizationId: org.id, // Always set organizationId
       },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'article.create',
+      targetType: 'article',
+      targetId: article.id,
+      metadata: { title: article.title },
+    });
+
     // Enqueue thumbnail generation job (background processing)
     console.log('==========================================');
     console.log('🚀 ARTICLE THUMBNAIL JOB - STARTING ENQUEUE');
@@ -208,6 +239,16 @@ export async function POST(
       );
     }
 
+    if (error instanceof ArticleDocumentError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
     console.error('Create Article Error:', error);
     return NextResponse.json(
       {
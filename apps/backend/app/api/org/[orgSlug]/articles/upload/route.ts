@@ -10,7 +10,9 @@ import { createClient } from '@/lib/supabase/server';
 import { writeFile, unlink, mkdir } from 'fs/promises';
 import path from 'path';
 import { existsSync } from 'fs';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+import { languageService, LanguageValidationError } from '@/lib/services/core/language.service';
 
 // Configure route to handle larger payloads
 export const runtime = 'nodejs';
@@ -155,6 +157,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -239,6 +249,10 @@ export async function POST(
     const mediaConfig = CreateArticleWithUploadSchema.parse(configData);
     console.log('✅ [API] Media config parsed:', mediaConfig);
 
+    if (mediaConfig.languages) {
+      await languageService.assertOrgLanguages(org.id, mediaConfig.languages);
+    }
+
     // Ensure uploads directory exists
     const uploadsDir = path.join(process.cwd(), 'uploads');
     console.log('📂 [API] Uploads directory:', uploadsDir);
@@ -275,6 +289,14 @@ export async function POST(
 
     console.log(`📄 Created article ${article.id} from uploaded file: ${file.name} for org ${org.id}`);
 
+    const audit = getAuditContext(request, org.id, user);
+    await auditService.record(audit, {
+      action: 'article.create',
+      targetType: 'article',
+      targetId: article.id,
+      metadata: { title: article.title, fileName: file.name },
+    });
+
     // Handle custom thumbnail if provided
     const customThumbnailFile = formData.get('customThumbnail') as File | null;
 
@@ -424,6 +446,15 @@ export async function POST(
 
     console.log(`🚀 Auto-created ${submissions.length} submission(s) for article ${article.id}`);
 
+    for (const submission of submissions) {
+      await auditService.record(audit, {
+        action: 'submission.create',
+        targetType: 'submission',
+        targetId: submission.id,
+        metadata: { articleId: article.id, language: submission.language },
+      });
+    }
+
     // Clean up uploaded file
     console.log('🗑️ [API] Cleaning up uploaded file...');
     await unlink(filePath);
@@ -462,6 +493,13 @@ export async function POST(
       );
     }
 
+    if (error instanceof LanguageValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error('Create Article with Upload Error:', error);
     return NextResponse.json(
       {
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, hasOrgPermission, validateOrgAccess } from '@/lib/context/org-context';
+import { auditService, getAuditFilters } from '@/lib/services/core/audit.service';
+
+/**
+ * GET /api/org/[orgSlug]/audit/export - Download the filtered audit log as CSV (settings.manage)
+ * Query: same filters as GET /api/org/[orgSlug]/audit
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const canManageSettings = await hasOrgPermission(user.id, params.orgSlug, 'settings.manage');
+    if (!canManageSettings) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to export the audit log' },
+        { status: 403 }
+      );
+    }
+
+    const csv = await auditService.exportCsv(org.id, getAuditFilters(request.nextUrl.searchParams));
+    const filename = `audit-log-${params.orgSlug}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export Audit Events Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, hasOrgPermission, validateOrgAccess } from '@/lib/context/org-context';
+import { auditService, getAuditFilters } from '@/lib/services/core/audit.service';
+
+/**
+ * GET /api/org/[orgSlug]/audit - Audit log of the organization (settings.manage)
+ * Query: actorId, targetType, targetId, action, from, to, page, limit
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const canManageSettings = await hasOrgPermission(user.id, params.orgSlug, 'settings.manage');
+    if (!canManageSettings) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to view the audit log' },
+        { status: 403 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200);
+
+    const result = await auditService.list(org.id, getAuditFilters(searchParams), page, limit);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Get Audit Events Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
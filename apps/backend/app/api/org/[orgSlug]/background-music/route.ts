@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/config/database';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
 import { z } from 'zod';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 const CreateBackgroundMusicSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -96,6 +97,14 @@ export async function POST(
       );
     }
 
+    const canManageBrand = await hasOrgPermission(user.id, params.orgSlug, 'brand.manage');
+    if (!canManageBrand) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage brand resources' },
+        { status: 403 }
+      );
+    }
+
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
       return NextResponse.json(
@@ -121,6 +130,13 @@ export async function POST(
       },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'background-music.create',
+      targetType: 'background-music',
+      targetId: backgroundMusic.id,
+      metadata: { name: backgroundMusic.name },
+    });
+
     return NextResponse.json({
       success: true,
       data: backgroundMusic,
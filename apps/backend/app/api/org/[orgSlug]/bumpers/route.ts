@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/config/database';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
 import { z } from 'zod';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 const CreateBumperSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -11,6 +12,7 @@ const CreateBumperSchema = z.object({
   mediaUrl: z.string().url('Media URL must be valid'),
   thumbnailUrl: z.string().url('Thumbnail URL must be valid').optional(),
   duration: z.number().int().positive().optional(),
+  skipWatermark: z.boolean().optional(), // Leave the caption style's logo off this bumper
 });
 
 /**
@@ -108,6 +110,14 @@ export async function POST(
       );
     }
 
+    const canManageBrand = await hasOrgPermission(user.id, params.orgSlug, 'brand.manage');
+    if (!canManageBrand) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage brand resources' },
+        { status: 403 }
+      );
+    }
+
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
       return NextResponse.json(
@@ -133,6 +143,13 @@ export async function POST(
       },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'bumper.create',
+      targetType: 'bumper',
+      targetId: bumper.id,
+      metadata: { name: bumper.name },
+    });
+
     return NextResponse.json({
       success: true,
       data: bumper,
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/config/database';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { z } from 'zod';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+// Same fields as creation; logo settings can be cleared with null
+const UpdateCaptionStyleSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  submagicTemplate: z.string().min(1, 'Submagic template is required').optional(),
+  previewImageUrl: z.string().url('Preview image URL must be valid').nullable().optional(),
+  logoUrl: z.string().url('Logo URL must be valid').nullable().optional(),
+  logoPosition: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']).nullable().optional(),
+  logoOpacity: z.number().min(0, 'Logo opacity must be between 0 and 1').max(1, 'Logo opacity must be between 0 and 1').optional(),
+  logoMargin: z.number().int().min(0).max(200, 'Logo margin must be at most 200 pixels').optional(),
+  logoScale: z.number().min(0.02, 'Logo scale must be between 0.02 and 0.5').max(0.5, 'Logo scale must be between 0.02 and 0.5').optional(),
+  renderer: z.enum(['submagic', 'local']).optional(),
+  fontName: z.string().min(1, 'Font name is required').max(100).optional(),
+  textColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Text color must be a hex color like #FFFFFF').optional(),
+  highlightColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Highlight color must be a hex color like #FFD400').optional(),
+});
+
+/**
+ * PATCH /api/org/[orgSlug]/caption-styles/[id] - Update a caption style
+ * Requires brand.manage permission
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canManageBrand = await hasOrgPermission(user.id, params.orgSlug, 'brand.manage');
+    if (!canManageBrand) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage brand resources' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = UpdateCaptionStyleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.captionStyle.findFirst({
+      where: { id: params.id, organizationId: org.id },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Caption style not found' },
+        { status: 404 }
+      );
+    }
+
+    const captionStyle = await prisma.captionStyle.update({
+      where: { id: existing.id },
+      data: validationResult.data,
+    });
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'caption-style.update',
+      targetType: 'caption-style',
+      targetId: captionStyle.id,
+      metadata: { name: captionStyle.name, fields: Object.keys(validationResult.data) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: captionStyle,
+    });
+  } catch (error) {
+    console.error('Update Caption Style Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update caption style' },
+      { status: 500 }
+    );
+  }
+}
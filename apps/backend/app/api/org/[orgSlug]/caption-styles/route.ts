@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/config/database';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
 import { z } from 'zod';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 const CreateCaptionStyleSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -10,6 +11,13 @@ const CreateCaptionStyleSchema = z.object({
   previewImageUrl: z.string().url('Preview image URL must be valid').optional(),
   logoUrl: z.string().url('Logo URL must be valid').optional(),
   logoPosition: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']).optional(),
+  logoOpacity: z.number().min(0, 'Logo opacity must be between 0 and 1').max(1, 'Logo opacity must be between 0 and 1').optional(),
+  logoMargin: z.number().int().min(0).max(200, 'Logo margin must be at most 200 pixels').optional(),
+  logoScale: z.number().min(0.02, 'Logo scale must be between 0.02 and 0.5').max(0.5, 'Logo scale must be between 0.02 and 0.5').optional(),
+  renderer: z.enum(['submagic', 'local']).optional(),
+  fontName: z.string().min(1, 'Font name is required').max(100).optional(),
+  textColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Text color must be a hex color like #FFFFFF').optional(),
+  highlightColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Highlight color must be a hex color like #FFD400').optional(),
 });
 
 /**
@@ -97,6 +105,14 @@ export async function POST(
       );
     }
 
+    const canManageBrand = await hasOrgPermission(user.id, params.orgSlug, 'brand.manage');
+    if (!canManageBrand) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage brand resources' },
+        { status: 403 }
+      );
+    }
+
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
       return NextResponse.json(
@@ -122,6 +138,13 @@ export async function POST(
       },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'caption-style.create',
+      targetType: 'caption-style',
+      targetId: captionStyle.id,
+      metadata: { name: captionStyle.name },
+    });
+
     return NextResponse.json({
       success: true,
       data: captionStyle,
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { captionSettingsService, CaptionSettingsSchema } from '@/lib/services/core/caption-settings.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+/**
+ * GET /api/org/[orgSlug]/caption-styles/settings - Organization Submagic theme and dictionary
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const settings = await captionSettingsService.getSettings(org.id);
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error('Get Caption Settings Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch caption settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/org/[orgSlug]/caption-styles/settings - Update the Submagic theme and dictionary
+ * Requires brand.manage permission
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canManageBrand = await hasOrgPermission(user.id, params.orgSlug, 'brand.manage');
+    if (!canManageBrand) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage brand resources' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = CaptionSettingsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const settings = await captionSettingsService.updateSettings(org.id, validationResult.data);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'organization.caption_settings_update',
+      targetType: 'organization',
+      targetId: org.id,
+      metadata: {
+        submagicThemeId: settings.submagicThemeId,
+        dictionarySize: settings.submagicDictionary.length,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error('Update Caption Settings Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update caption settings' },
+      { status: 500 }
+    );
+  }
+}
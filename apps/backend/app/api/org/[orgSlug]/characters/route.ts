@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/config/database';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
 import { storageService } from '@/lib/services/core/storage.service';
 import { heygenService } from '@/lib/services/external/heygen.service';
 import { z } from 'zod';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 // Validation schema for character creation
 const CreateCharacterSchema = z.object({
@@ -134,6 +135,14 @@ export async function POST(
       );
     }
 
+    const canManageBrand = await hasOrgPermission(user.id, params.orgSlug, 'brand.manage');
+    if (!canManageBrand) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage brand resources' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -274,6 +283,13 @@ export async function POST(
       },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'character.create',
+      targetType: 'character',
+      targetId: character.id,
+      metadata: { name: character.name },
+    });
+
     return NextResponse.json(
       {
         success: true,
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { glossaryService, GlossaryValidationError, UpdateGlossaryTermSchema } from '@/lib/services/core/glossary.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+/**
+ * PATCH /api/org/[orgSlug]/glossary/:id - Update a glossary term
+ * Requires settings.manage permission
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canManage = await hasOrgPermission(user.id, params.orgSlug, 'settings.manage');
+    if (!canManage) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage organization settings' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = UpdateGlossaryTermSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const term = await glossaryService.updateTerm(org.id, params.id, validationResult.data);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'glossary-term.update',
+      targetType: 'glossary-term',
+      targetId: term.id,
+      metadata: { term: term.term, fields: Object.keys(validationResult.data) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: term,
+    });
+  } catch (error) {
+    if (error instanceof GlossaryValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Glossary term not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Update Glossary Term Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update glossary term' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/org/[orgSlug]/glossary/:id - Remove a glossary term
+ * Requires settings.manage permission
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canManage = await hasOrgPermission(user.id, params.orgSlug, 'settings.manage');
+    if (!canManage) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage organization settings' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const term = await glossaryService.deleteTerm(org.id, params.id);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'glossary-term.delete',
+      targetType: 'glossary-term',
+      targetId: term.id,
+      metadata: { term: term.term },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { id: term.id },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Glossary term not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Delete Glossary Term Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete glossary term' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { glossaryService, GlossaryTermSchema, GlossaryValidationError } from '@/lib/services/core/glossary.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+/**
+ * GET /api/org/[orgSlug]/glossary - The organization's glossary terms
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const terms = await glossaryService.listTerms(org.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { terms },
+    });
+  } catch (error) {
+    console.error('Get Glossary Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch glossary' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/org/[orgSlug]/glossary - Add a glossary term
+ * Requires settings.manage permission
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canManage = await hasOrgPermission(user.id, params.orgSlug, 'settings.manage');
+    if (!canManage) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage organization settings' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = GlossaryTermSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const term = await glossaryService.createTerm(org.id, validationResult.data, user.id);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'glossary-term.create',
+      targetType: 'glossary-term',
+      targetId: term.id,
+      metadata: { term: term.term, doNotTranslate: term.doNotTranslate },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: term,
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof GlossaryValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create Glossary Term Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create glossary term' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { z } from 'zod';
+import type { Language } from '@prisma/client';
+import { languageService, LanguageValidationError } from '@/lib/services/core/language.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+const UpdateLanguagesSchema = z.object({
+  languages: z.array(z.string().min(1)).min(1, 'Enable at least one language'),
+});
+
+/**
+ * Registry fields the UI needs - voice ids and service locales stay server-side
+ */
+function toLanguageInfo(language: Language, enabled: Set<string>) {
+  return {
+    code: language.code,
+    name: language.name,
+    nativeName: language.nativeName,
+    isoCode: language.isoCode,
+    direction: language.direction,
+    enabled: enabled.has(language.code),
+  };
+}
+
+async function listWithEnablement(organizationId: string) {
+  const [languages, orgLanguages] = await Promise.all([
+    languageService.listLanguages(),
+    languageService.getOrgLanguages(organizationId),
+  ]);
+  const enabled = new Set(orgLanguages.map((language) => language.code));
+  return languages.map((language) => toLanguageInfo(language, enabled));
+}
+
+/**
+ * GET /api/org/[orgSlug]/languages - All active languages, flagged with whether the organization offers them
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { languages: await listWithEnablement(org.id) },
+    });
+  } catch (error) {
+    console.error('Get Languages Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch languages' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/org/[orgSlug]/languages - Choose which languages appear in the create forms
+ * Requires settings.manage permission
+ */
+export async function PUT(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canManage = await hasOrgPermission(user.id, params.orgSlug, 'settings.manage');
+    if (!canManage) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage organization settings' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { languages } = UpdateLanguagesSchema.parse(body);
+
+    const previous = (await languageService.getOrgLanguages(org.id)).map((language) => language.code);
+    const enabled = (await languageService.setOrgLanguages(org.id, languages)).map((language) => language.code);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'organization.update-languages',
+      targetType: 'organization',
+      targetId: org.id,
+      metadata: {
+        added: enabled.filter((code) => !previous.includes(code)),
+        removed: previous.filter((code) => !enabled.includes(code)),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { languages: await listWithEnablement(org.id) },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof LanguageValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update Languages Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update languages' },
+      { status: 500 }
+    );
+  }
+}
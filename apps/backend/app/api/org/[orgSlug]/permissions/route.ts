@@ -1,15 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SubmissionsController } from '@/lib/controllers/submissions.controller';
+import { prisma } from '@/lib/config/database';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { resolvePermissions } from '@/lib/context/permissions';
 
 /**
- * PATCH /api/org/[orgSlug]/submissions/[submissionId]/interactive-podcast/[ipId]/unapprove
- * Unapprove an interactive podcast output
+ * GET /api/org/[orgSlug]/permissions - Current user's role and effective permissions
  */
-export async function PATCH(
+export async function GET(
   request: NextRequest,
-  props: { params: Promise<{ orgSlug: string; submissionId: string; ipId: string }> }
+  props: { params: Promise<{ orgSlug: string }> }
 ) {
   const params = await props.params;
   try {
@@ -42,29 +42,32 @@ export async function PATCH(
       );
     }
 
-    // Verify submission belongs to this organization
-    const belongsToOrg = await validateResourceOrg('submission', params.submissionId, org.id);
-    if (!belongsToOrg) {
+    const membership = await prisma.organizationMember.findFirst({
+      where: { organizationId: org.id, profileId: user.id },
+      include: { customRole: { select: { id: true, name: true, permissions: true } } },
+    });
+
+    if (!membership) {
       return NextResponse.json(
-        { success: false, error: 'Submission not found in this organization' },
-        { status: 404 }
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
       );
     }
 
-    // Unapprove interactive podcast output
-    const result = await SubmissionsController.unapproveInteractivePodcastOutput(params.submissionId, params.ipId);
-
     return NextResponse.json({
       success: true,
-      data: result,
+      data: {
+        role: membership.role,
+        customRole: membership.customRole && membership.role !== 'OWNER'
+          ? { id: membership.customRole.id, name: membership.customRole.name }
+          : null,
+        permissions: resolvePermissions(membership.role, membership.customRole?.permissions),
+      },
     });
   } catch (error) {
-    console.error('Unapprove Interactive Podcast Error:', error);
+    console.error('Get Permissions Error:', error);
     return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to unapprove interactive podcast',
-      },
+      { success: false, error: 'Failed to fetch permissions' },
       { status: 500 }
     );
   }
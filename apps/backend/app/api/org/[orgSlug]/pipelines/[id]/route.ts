@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { PipelinesController, PipelineValidationError } from '@/lib/controllers/pipelines.controller';
+import { LanguageValidationError } from '@/lib/services/core/language.service';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
+
+/**
+ * GET /api/org/[orgSlug]/pipelines/:id - Pipeline with its recent runs
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const pipeline = await PipelinesController.getById(org.id, params.id);
+    if (!pipeline) {
+      return NextResponse.json(
+        { success: false, error: 'Pipeline not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: pipeline,
+    });
+  } catch (error) {
+    console.error('Get Pipeline Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch pipeline' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/org/[orgSlug]/pipelines/:id - Update settings, pause or resume
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await PipelinesController.getById(org.id, params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Pipeline not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+
+    // Any change to a pipeline that publishes on its own needs the same permission as setting it up
+    const approvalPolicy = body?.approvalPolicy ?? existing.approvalPolicy;
+    if (approvalPolicy === 'PUBLISH' && !(await hasOrgPermission(user.id, params.orgSlug, 'content.approve'))) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to publish content without review' },
+        { status: 403 }
+      );
+    }
+
+    const pipeline = await PipelinesController.update(org.id, params.id, body, getAuditContext(request, org.id, user));
+
+    return NextResponse.json({
+      success: true,
+      data: pipeline,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PipelineValidationError || error instanceof LanguageValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update Pipeline Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update pipeline' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/org/[orgSlug]/pipelines/:id - Delete a pipeline and its run history
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    await PipelinesController.delete(org.id, params.id, getAuditContext(request, org.id, user));
+
+    return NextResponse.json({
+      success: true,
+      data: { id: params.id },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Pipeline not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Delete Pipeline Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete pipeline' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { PipelinesController } from '@/lib/controllers/pipelines.controller';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
+
+/**
+ * POST /api/org/[orgSlug]/pipelines/:id/run - Run a pipeline now, outside its schedule
+ * The run is started by the worker and shows up in the pipeline's run history.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await PipelinesController.run(org.id, params.id, user.id, getAuditContext(request, org.id, user));
+
+    return NextResponse.json(
+      { success: true, data: result },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Pipeline not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Run Pipeline Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to queue pipeline run' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { profileService } from '@/lib/services/profile.service';
+import { PipelinesController, PipelineValidationError } from '@/lib/controllers/pipelines.controller';
+import { LanguageValidationError } from '@/lib/services/core/language.service';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
+
+/**
+ * GET /api/org/[orgSlug]/pipelines - Content pipelines with their latest run
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const pipelines = await PipelinesController.getAll(org.id);
+
+    return NextResponse.json({
+      success: true,
+      data: pipelines,
+    });
+  } catch (error) {
+    console.error('Get Pipelines Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch pipelines' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/org/[orgSlug]/pipelines - Create a content pipeline
+ * Pipelines that publish without review can only be set up by members who may approve content.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (body?.approvalPolicy === 'PUBLISH' && !(await hasOrgPermission(user.id, params.orgSlug, 'content.approve'))) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to publish content without review' },
+        { status: 403 }
+      );
+    }
+
+    await profileService.upsertProfile(user);
+
+    const pipeline = await PipelinesController.create(org.id, user.id, body, getAuditContext(request, org.id, user));
+
+    return NextResponse.json(
+      { success: true, data: pipeline },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PipelineValidationError || error instanceof LanguageValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create Pipeline Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create pipeline' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { pronunciationService, PronunciationValidationError, UpdatePronunciationEntrySchema } from '@/lib/services/core/pronunciation.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+/**
+ * PATCH /api/org/[orgSlug]/pronunciations/:id - Update a lexicon entry
+ * Requires settings.manage permission
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canManage = await hasOrgPermission(user.id, params.orgSlug, 'settings.manage');
+    if (!canManage) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage organization settings' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = UpdatePronunciationEntrySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const entry = await pronunciationService.updateEntry(org.id, params.id, validationResult.data);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'pronunciation-entry.update',
+      targetType: 'pronunciation-entry',
+      targetId: entry.id,
+      metadata: { term: entry.term, fields: Object.keys(validationResult.data) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    if (error instanceof PronunciationValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Pronunciation entry not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Update Pronunciation Entry Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update pronunciation entry' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/org/[orgSlug]/pronunciations/:id - Remove a lexicon entry
+ * Requires settings.manage permission
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canManage = await hasOrgPermission(user.id, params.orgSlug, 'settings.manage');
+    if (!canManage) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage organization settings' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const entry = await pronunciationService.deleteEntry(org.id, params.id);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'pronunciation-entry.delete',
+      targetType: 'pronunciation-entry',
+      targetId: entry.id,
+      metadata: { term: entry.term },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { id: entry.id },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Pronunciation entry not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Delete Pronunciation Entry Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete pronunciation entry' },
+      { status: 500 }
+    );
+  }
+}
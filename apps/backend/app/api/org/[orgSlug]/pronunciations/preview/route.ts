@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { pronunciationService, PronunciationPreviewSchema } from '@/lib/services/core/pronunciation.service';
+import { elevenlabsService } from '@/lib/services/external/elevenlabs.service';
+
+/**
+ * POST /api/org/[orgSlug]/pronunciations/preview - Speak a sample sentence with the lexicon applied
+ * Requires settings.manage permission (each preview is an ElevenLabs call)
+ * Returns the text that was sent to TTS and the audio as base64 MP3
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canManage = await hasOrgPermission(user.id, params.orgSlug, 'settings.manage');
+    if (!canManage) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage organization settings' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = PronunciationPreviewSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { text, language } = validationResult.data;
+    const voiceId = validationResult.data.voiceId || (await elevenlabsService.getNarrationVoiceId(language));
+
+    const [spokenText, audioBuffer] = await Promise.all([
+      pronunciationService.applyLexicon(org.id, language, text, elevenlabsService.getDefaultModel()),
+      elevenlabsService.textToSpeech({ text, voiceId, organizationId: org.id, language }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        spokenText,
+        audio: audioBuffer.toString('base64'),
+      },
+    });
+  } catch (error) {
+    console.error('Pronunciation Preview Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate preview' },
+      { status: 500 }
+    );
+  }
+}
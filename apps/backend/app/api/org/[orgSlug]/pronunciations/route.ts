@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import {
+  pronunciationService,
+  supportsPhonemes,
+  PronunciationEntrySchema,
+  PronunciationValidationError,
+} from '@/lib/services/core/pronunciation.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+import { elevenlabsService } from '@/lib/services/external/elevenlabs.service';
+
+/**
+ * GET /api/org/[orgSlug]/pronunciations - The organization's pronunciation lexicon
+ * phonemesSupported tells whether the configured voice model uses the IPA phonemes
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const entries = await pronunciationService.listEntries(org.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { entries, phonemesSupported: supportsPhonemes(elevenlabsService.getDefaultModel()) },
+    });
+  } catch (error) {
+    console.error('Get Pronunciations Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch pronunciation lexicon' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/org/[orgSlug]/pronunciations - Add a lexicon entry
+ * Requires settings.manage permission
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canManage = await hasOrgPermission(user.id, params.orgSlug, 'settings.manage');
+    if (!canManage) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to manage organization settings' },
+        { status: 403 }
+      );
+    }
+
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = PronunciationEntrySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const entry = await pronunciationService.createEntry(org.id, validationResult.data, user.id);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'pronunciation-entry.create',
+      targetType: 'pronunciation-entry',
+      targetId: entry.id,
+      metadata: { term: entry.term, language: entry.language },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: entry,
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PronunciationValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create Pronunciation Entry Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create pronunciation entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { reviewService, REVIEW_OUTPUT_TYPES, type ReviewableOutputType } from '@/lib/services/core/review.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+const UpdateCommentSchema = z.object({
+  resolved: z.boolean(),
+});
+
+/**
+ * PATCH /api/org/[orgSlug]/review/[outputType]/[outputId]/comments/[commentId]
+ * Resolve or reopen a comment thread
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; outputType: string; outputId: string; commentId: string }> }
+) {
+  const params = await props.params;
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Validate user has access to this organization
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    // Get organization
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!Object.hasOwn(REVIEW_OUTPUT_TYPES, params.outputType)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown output type' },
+        { status: 404 }
+      );
+    }
+
+    const body = UpdateCommentSchema.parse(await request.json());
+    await reviewService.setCommentResolved(
+      org.id,
+      params.outputType as ReviewableOutputType,
+      params.outputId,
+      params.commentId,
+      user.id,
+      body.resolved,
+    );
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: `${params.outputType}.${body.resolved ? 'comment_resolve' : 'comment_reopen'}`,
+      targetType: params.outputType as ReviewableOutputType,
+      targetId: params.outputId,
+      metadata: { commentId: params.commentId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: body.resolved ? 'Comment resolved' : 'Comment reopened',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Comment not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Update Review Comment Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update comment',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { reviewService, REVIEW_OUTPUT_TYPES, type ReviewableOutputType } from '@/lib/services/core/review.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+const AnchorSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('SCRIPT_LINE'), line: z.number().int().min(1) }),
+  z.object({ type: z.literal('VIDEO_TIMESTAMP'), timestamp: z.number().min(0) }),
+  z.object({ type: z.literal('QUIZ_QUESTION'), questionId: z.string().uuid('Invalid question ID') }),
+]);
+
+const CreateCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(5000),
+  parentId: z.string().uuid('Invalid comment ID').optional(),
+  anchor: AnchorSchema.optional(),
+});
+
+/**
+ * POST /api/org/[orgSlug]/review/[outputType]/[outputId]/comments
+ * Add a review comment (optionally anchored) or reply to a thread
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; outputType: string; outputId: string }> }
+) {
+  const params = await props.params;
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Validate user has access to this organization
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    // Get organization
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!Object.hasOwn(REVIEW_OUTPUT_TYPES, params.outputType)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown output type' },
+        { status: 404 }
+      );
+    }
+
+    const body = CreateCommentSchema.parse(await request.json());
+    const comment = await reviewService.addComment(
+      org.id,
+      params.outputType as ReviewableOutputType,
+      params.outputId,
+      user.id,
+      body,
+    );
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: `${params.outputType}.comment_add`,
+      targetType: params.outputType as ReviewableOutputType,
+      targetId: params.outputId,
+      metadata: { commentId: comment.id, parentId: body.parentId ?? null },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: comment,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (
+      error instanceof Error &&
+      ['Output not found', 'Comment not found', 'Quiz question not found'].includes(error.message)
+    ) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Create Review Comment Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add comment',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { reviewService, REVIEW_OUTPUT_TYPES, type ReviewableOutputType } from '@/lib/services/core/review.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+/**
+ * DELETE /api/org/[orgSlug]/review/[outputType]/[outputId]/reviewers/[reviewerId]
+ * Remove a reviewer from an output
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; outputType: string; outputId: string; reviewerId: string }> }
+) {
+  const params = await props.params;
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Validate user has access to this organization
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canApprove = await hasOrgPermission(user.id, params.orgSlug, 'content.approve');
+    if (!canApprove) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to approve content' },
+        { status: 403 }
+      );
+    }
+
+    // Get organization
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!Object.hasOwn(REVIEW_OUTPUT_TYPES, params.outputType)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown output type' },
+        { status: 404 }
+      );
+    }
+
+    await reviewService.unassignReviewer(
+      org.id,
+      params.outputType as ReviewableOutputType,
+      params.outputId,
+      params.reviewerId,
+      user.id,
+    );
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: `${params.outputType}.reviewer_unassign`,
+      targetType: params.outputType as ReviewableOutputType,
+      targetId: params.outputId,
+      metadata: { reviewerId: params.reviewerId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reviewer removed',
+    });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === 'Output not found' || error.message === 'Reviewer is not assigned to this output')
+    ) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Unassign Reviewer Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove reviewer',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { reviewService, REVIEW_OUTPUT_TYPES, type ReviewableOutputType } from '@/lib/services/core/review.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+const AssignReviewerSchema = z.object({
+  reviewerId: z.string().min(1, 'Reviewer is required'),
+});
+
+/**
+ * POST /api/org/[orgSlug]/review/[outputType]/[outputId]/reviewers
+ * Assign an organization member as reviewer of an output
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; outputType: string; outputId: string }> }
+) {
+  const params = await props.params;
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Validate user has access to this organization
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canApprove = await hasOrgPermission(user.id, params.orgSlug, 'content.approve');
+    if (!canApprove) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to approve content' },
+        { status: 403 }
+      );
+    }
+
+    // Get organization
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!Object.hasOwn(REVIEW_OUTPUT_TYPES, params.outputType)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown output type' },
+        { status: 404 }
+      );
+    }
+
+    const body = AssignReviewerSchema.parse(await request.json());
+    const assignment = await reviewService.assignReviewer(
+      org.id,
+      params.outputType as ReviewableOutputType,
+      params.outputId,
+      body.reviewerId,
+      user.id,
+    );
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: `${params.outputType}.reviewer_assign`,
+      targetType: params.outputType as ReviewableOutputType,
+      targetId: params.outputId,
+      metadata: { reviewerId: body.reviewerId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: assignment,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Output not found') {
+        return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+      }
+      if (
+        error.message === 'Reviewer is not a member of this organization' ||
+        error.message === 'Reviewer is not allowed to approve content'
+      ) {
+        return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+      }
+    }
+
+    console.error('Assign Reviewer Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to assign reviewer',
+      },
+      { status: 500 },
+    );
+  }
+}
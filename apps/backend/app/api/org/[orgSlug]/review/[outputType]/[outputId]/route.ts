@@ -1,15 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { reviewService, REVIEW_OUTPUT_TYPES, type ReviewableOutputType } from '@/lib/services/core/review.service';
 
 /**
- * PATCH /api/org/[orgSlug]/submissions/[submissionId]/audio/[audioId]/approve
- * Approve an audio output
+ * GET /api/org/[orgSlug]/review/[outputType]/[outputId]
+ * Review status, reviewers, comment threads and activity history of an output
  */
-export async function PATCH(
+export async function GET(
   request: NextRequest,
-  props: { params: Promise<{ orgSlug: string; submissionId: string; audioId: string }> }
+  props: { params: Promise<{ orgSlug: string; outputType: string; outputId: string }> }
 ) {
   const params = await props.params;
   try {
@@ -42,28 +42,32 @@ export async function PATCH(
       );
     }
 
-    // Verify submission belongs to this organization
-    const belongsToOrg = await validateResourceOrg('submission', params.submissionId, org.id);
-    if (!belongsToOrg) {
+    if (!Object.hasOwn(REVIEW_OUTPUT_TYPES, params.outputType)) {
       return NextResponse.json(
-        { success: false, error: 'Submission not found in this organization' },
+        { success: false, error: 'Unknown output type' },
         { status: 404 }
       );
     }
 
-    // Approve audio output
-    const result = await SubmissionsController.approveAudioOutput(params.submissionId, params.audioId);
+    const review = await reviewService.getReview(org.id, params.outputType as ReviewableOutputType, params.outputId);
 
     return NextResponse.json({
       success: true,
-      data: result,
+      data: review,
     });
   } catch (error) {
-    console.error('Approve Audio Error:', error);
+    if (error instanceof Error && error.message === 'Output not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Get Review Error:', error);
     return NextResponse.json(
       {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to approve audio',
+        error: error instanceof Error ? error.message : 'Failed to fetch review',
       },
       { status: 500 }
     );
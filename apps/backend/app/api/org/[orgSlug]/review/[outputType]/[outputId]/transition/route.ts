@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { reviewService, REVIEW_OUTPUT_TYPES, REVIEW_TRANSITIONS, type ReviewableOutputType } from '@/lib/services/core/review.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+import { GlossaryCheckError } from '@/lib/services/core/glossary.service';
+
+const TransitionSchema = z.object({
+  action: z.enum(['submit', 'withdraw', 'request_changes', 'approve', 'publish', 'unpublish']),
+  note: z.string().trim().max(2000).optional(),
+  acknowledgeGlossary: z.boolean().optional(), // Approve despite glossary issues
+});
+
+/**
+ * POST /api/org/[orgSlug]/review/[outputType]/[outputId]/transition
+ * Move an output through the review workflow (submit, approve, publish, ...)
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; outputType: string; outputId: string }> }
+) {
+  const params = await props.params;
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Validate user has access to this organization
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    // Get organization
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!Object.hasOwn(REVIEW_OUTPUT_TYPES, params.outputType)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown output type' },
+        { status: 404 }
+      );
+    }
+
+    const body = TransitionSchema.parse(await request.json());
+
+    // Writers can submit and withdraw; approving and publishing need content.approve
+    const permission = REVIEW_TRANSITIONS[body.action].reviewerOnly ? 'content.approve' : 'content.create';
+    const allowed = await hasOrgPermission(user.id, params.orgSlug, permission);
+    if (!allowed) {
+      return NextResponse.json(
+        { success: false, error: `You do not have permission to ${body.action.replace('_', ' ')}` },
+        { status: 403 }
+      );
+    }
+    const result = await reviewService.transition(
+      org.id,
+      params.outputType as ReviewableOutputType,
+      params.outputId,
+      body.action,
+      user.id,
+      body.note || undefined,
+      body.acknowledgeGlossary,
+    );
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: `${params.outputType}.${body.action}`,
+      targetType: params.outputType as ReviewableOutputType,
+      targetId: params.outputId,
+      metadata: { toStatus: result.status, note: body.note || null, ...(body.acknowledgeGlossary && { acknowledgeGlossary: true }) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        },
+        { status: 400 },
+      );
+    }
+
+    // The client shows the issues and can retry with acknowledgeGlossary
+    if (error instanceof GlossaryCheckError) {
+      return NextResponse.json(
+        { success: false, error: error.message, glossaryIssues: error.issues },
+        { status: 409 },
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Output not found') {
+        return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+      }
+      if (error.message === 'Only assigned reviewers or organization admins can do this') {
+        return NextResponse.json({ success: false, error: error.message }, { status: 403 });
+      }
+      if (error.message.startsWith('Cannot ') || error.message.startsWith('Review status changed')) {
+        return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+      }
+    }
+
+    console.error('Review Transition Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update review status',
+      },
+      { status: 500 },
+    );
+  }
+}
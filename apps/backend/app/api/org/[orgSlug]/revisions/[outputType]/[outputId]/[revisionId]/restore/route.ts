@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { SubmissionsController } from '@/lib/controllers/submissions.controller';
+import {
+  scriptRevisionService,
+  REVISION_OUTPUT_TYPES,
+  type RevisionOutputType,
+} from '@/lib/services/core/script-revision.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+const RestoreSchema = z.object({
+  regenerateMedia: z.boolean().optional(),
+});
+
+/**
+ * POST /api/org/[orgSlug]/revisions/[outputType]/[outputId]/[revisionId]/restore
+ * Restore an earlier script / transcript revision, optionally re-queueing media generation
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string; outputType: string; outputId: string; revisionId: string }> }
+) {
+  const params = await props.params;
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Validate user has access to this organization
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
+    // Get organization
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!REVISION_OUTPUT_TYPES.includes(params.outputType as RevisionOutputType)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown output type' },
+        { status: 404 }
+      );
+    }
+
+    const outputType = params.outputType as RevisionOutputType;
+    const audit = getAuditContext(request, org.id, user);
+    const body = RestoreSchema.parse(await request.json().catch(() => ({})));
+    const result = await scriptRevisionService.restore(
+      org.id,
+      outputType,
+      params.outputId,
+      params.revisionId,
+      user.id,
+    );
+
+    await auditService.record(audit, {
+      action: `${outputType}.revision_restore`,
+      targetType: outputType,
+      targetId: params.outputId,
+      metadata: { revisionId: params.revisionId },
+    });
+
+    // Re-queue media with the restored script
+    if (body.regenerateMedia) {
+      switch (outputType) {
+        case 'video':
+          await SubmissionsController.regenerateVideoMedia(result.submissionId, params.outputId, org.id, undefined, audit);
+          break;
+        case 'podcast':
+          await SubmissionsController.regeneratePodcastMedia(result.submissionId, params.outputId, audit);
+          break;
+        case 'interactive-podcast':
+          await SubmissionsController.regenerateInteractivePodcastMedia(result.submissionId, params.outputId, audit);
+          break;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, regeneratingMedia: !!body.regenerateMedia },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Output not found' || error.message === 'Revision not found') {
+        return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+      }
+      if (error.message.startsWith('Cannot restore')) {
+        return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+      }
+    }
+
+    console.error('Restore Revision Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore revision',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import {
+  scriptRevisionService,
+  REVISION_OUTPUT_TYPES,
+  type RevisionOutputType,
+} from '@/lib/services/core/script-revision.service';
 
 /**
- * PATCH /api/org/[orgSlug]/submissions/[submissionId]/audio/[audioId]/unapprove
- * Unapprove an audio output
+ * GET /api/org/[orgSlug]/revisions/[outputType]/[outputId]
+ * Script / transcript revisions of a video, podcast or interactive podcast (newest first)
  */
-export async function PATCH(
+export async function GET(
   request: NextRequest,
-  props: { params: Promise<{ orgSlug: string; submissionId: string; audioId: string }> }
+  props: { params: Promise<{ orgSlug: string; outputType: string; outputId: string }> }
 ) {
   const params = await props.params;
   try {
@@ -42,28 +46,32 @@ export async function PATCH(
       );
     }
 
-    // Verify submission belongs to this organization
-    const belongsToOrg = await validateResourceOrg('submission', params.submissionId, org.id);
-    if (!belongsToOrg) {
+    if (!REVISION_OUTPUT_TYPES.includes(params.outputType as RevisionOutputType)) {
       return NextResponse.json(
-        { success: false, error: 'Submission not found in this organization' },
+        { success: false, error: 'Unknown output type' },
         { status: 404 }
       );
     }
 
-    // Unapprove audio output
-    const result = await SubmissionsController.unapproveAudioOutput(params.submissionId, params.audioId);
+    const revisions = await scriptRevisionService.list(org.id, params.outputType as RevisionOutputType, params.outputId);
 
     return NextResponse.json({
       success: true,
-      data: result,
+      data: revisions,
     });
   } catch (error) {
-    console.error('Unapprove Audio Error:', error);
+    if (error instanceof Error && error.message === 'Output not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Get Revisions Error:', error);
     return NextResponse.json(
       {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to unapprove audio',
+        error: error instanceof Error ? error.message : 'Failed to fetch revisions',
       },
       { status: 500 }
     );
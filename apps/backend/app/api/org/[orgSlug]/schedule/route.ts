@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { publishingScheduleService } from '@/lib/services/core/publishing-schedule.service';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+
+const UpdateScheduleSchema = z.object({
+  contentType: z.enum(['article', 'audio', 'podcast', 'video', 'quiz', 'interactive-podcast']),
+  id: z.string().uuid('Invalid content ID'),
+  publishAt: z.string().datetime().nullable(),
+  expiresAt: z.string().datetime().nullable(),
+});
+
+/**
+ * PATCH /api/org/[orgSlug]/schedule - Set when an article or output is published / expires
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ orgSlug: string }> }
+) {
+  const params = await props.params;
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Validate user has access to this organization
+    const hasAccess = await validateOrgAccess(user.id, params.orgSlug);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const canApprove = await hasOrgPermission(user.id, params.orgSlug, 'content.approve');
+    if (!canApprove) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to approve content' },
+        { status: 403 }
+      );
+    }
+
+    // Get organization
+    const org = await getOrgFromSlug(params.orgSlug);
+    if (!org) {
+      return NextResponse.json(
+        { success: false, error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = UpdateScheduleSchema.parse(await request.json());
+    const schedule = await publishingScheduleService.updateSchedule(org.id, body.contentType, body.id, {
+      publishAt: body.publishAt ? new Date(body.publishAt) : null,
+      expiresAt: body.expiresAt ? new Date(body.expiresAt) : null,
+    });
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: `${body.contentType}.schedule_update`,
+      targetType: body.contentType,
+      targetId: body.id,
+      metadata: { publishAt: body.publishAt ?? null, expiresAt: body.expiresAt ?? null },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('Update Schedule Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update schedule',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
 
 /**
  * DELETE /api/org/[orgSlug]/submissions/[submissionId]/audio/[audioId]/tags/[tagId]
@@ -33,6 +34,14 @@ export async function DELETE(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -52,7 +61,7 @@ export async function DELETE(
     }
 
     // Remove tag from audio output
-    await SubmissionsController.removeAudioTag(params.audioId, params.tagId);
+    await SubmissionsController.removeAudioTag(params.audioId, params.tagId, getAuditContext(request, org.id, user));
 
     return NextResponse.json({
       success: true,
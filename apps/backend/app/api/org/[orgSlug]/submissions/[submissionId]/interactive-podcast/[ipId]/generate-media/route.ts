@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
 import { queueService } from '@/lib/services/core/queue.service';
 import { prisma } from '@/lib/config/database';
 import { z } from 'zod';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 const VoiceSelectionSchema = z
   .object({
@@ -43,6 +44,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -150,6 +159,13 @@ export async function POST(
       voiceSelection,
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'interactive-podcast.media_generate',
+      targetType: 'interactive-podcast',
+      targetId: params.ipId,
+      metadata: { voiceSelection },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Interactive podcast generation started',
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
 
 /**
  * POST /api/org/[orgSlug]/submissions/[submissionId]/interactive-podcast/[ipId]/regenerate-script
@@ -33,6 +34,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -59,7 +68,8 @@ export async function POST(
     const result = await SubmissionsController.regenerateInteractivePodcastScript(
       params.submissionId,
       params.ipId,
-      customPrompt
+      customPrompt,
+      getAuditContext(request, org.id, user)
     );
 
     return NextResponse.json({
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 /**
  * POST /api/org/[orgSlug]/submissions/[submissionId]/interactive-podcast/[ipId]/regenerate-thumbnail
@@ -33,6 +34,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -69,6 +78,12 @@ export async function POST(
       customPrompt
     );
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'interactive-podcast.thumbnail_regenerate',
+      targetType: 'interactive-podcast',
+      targetId: params.ipId,
+    });
+
     return NextResponse.json({
       success: true,
       data: result,
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
 
 /**
  * GET /api/org/[orgSlug]/submissions/[submissionId]/interactive-podcast/[ipId]/script
@@ -100,6 +101,14 @@ export async function PATCH(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -133,7 +142,8 @@ export async function PATCH(
     const result = await SubmissionsController.updateInteractivePodcastScript(
       params.submissionId,
       params.ipId,
-      script
+      script,
+      getAuditContext(request, org.id, user)
     );
 
     return NextResponse.json({
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
 
 /**
  * GET /api/org/[orgSlug]/submissions/[submissionId]/podcast/[podcastId]/tags
@@ -100,6 +101,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -139,7 +148,7 @@ export async function POST(
     }
 
     // Add tag to podcast output
-    const result = await SubmissionsController.addPodcastTag(params.submissionId, params.podcastId, tagId);
+    const result = await SubmissionsController.addPodcastTag(params.submissionId, params.podcastId, tagId, getAuditContext(request, org.id, user));
 
     return NextResponse.json({
       success: true,
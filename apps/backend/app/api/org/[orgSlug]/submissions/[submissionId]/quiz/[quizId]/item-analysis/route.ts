@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { createClient } from '@/lib/supabase/server';
 import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { itemAnalysisService } from '@/lib/services/analytics/item-analysis.service';
 
 /**
- * PATCH /api/org/[orgSlug]/submissions/[submissionId]/quiz/[quizId]/approve
- * Approve a quiz output
+ * GET /api/org/[orgSlug]/submissions/[submissionId]/quiz/[quizId]/item-analysis
+ * Get per-question item analysis for the quiz and the submission's video bubbles
  */
-export async function PATCH(
+export async function GET(
   request: NextRequest,
   props: { params: Promise<{ orgSlug: string; submissionId: string; quizId: string }> }
 ) {
@@ -51,19 +51,18 @@ export async function PATCH(
       );
     }
 
-    // Approve quiz output
-    const result = await SubmissionsController.approveQuizOutput(params.submissionId, params.quizId);
+    const analysis = await itemAnalysisService.getQuizItemAnalysis(org.id, params.submissionId, params.quizId);
 
     return NextResponse.json({
       success: true,
-      data: result,
+      data: analysis,
     });
   } catch (error) {
-    console.error('Approve Quiz Error:', error);
+    console.error('Get Item Analysis Error:', error);
     return NextResponse.json(
       {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to approve quiz',
+        error: error instanceof Error ? error.message : 'Failed to get item analysis',
       },
       { status: 500 }
     );
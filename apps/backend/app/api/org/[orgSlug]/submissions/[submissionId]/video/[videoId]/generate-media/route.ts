@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
 import { queueService } from '@/lib/services/core/queue.service';
 import { prisma } from '@/lib/config/database';
 import { z } from 'zod';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 const VideoCustomizationSchema = z.object({
   characterId: z.string(), // Our DB Character ID - heygenImageKey and voiceId are looked up from Character
@@ -20,6 +21,9 @@ const VideoCustomizationSchema = z.object({
   startBumperDuration: z.number().min(1).max(10).nullable().optional(),
   endBumperId: z.string().nullable().optional(),
   endBumperDuration: z.number().min(1).max(10).nullable().optional(),
+  // Extra formats rendered alongside the portrait original
+  aspectRatios: z.array(z.enum(['SQUARE', 'LANDSCAPE'])).optional().default([]),
+  renditionFit: z.enum(['pad', 'crop']).optional().default('pad'),
 });
 
 /**
@@ -54,6 +58,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -197,6 +209,7 @@ export async function POST(
         characterId: videoCustomization.characterId, // Store internal Character ID
         enableCaptions: true, // Always enabled
         submagicTemplate: captionStyle.submagicTemplate, // Use caption style's template
+        captionStyleId: captionStyle.id, // Logo watermark is applied in post-processing
         enableMagicZooms: videoCustomization.enableMagicZooms,
         enableMagicBrolls: videoCustomization.enableMagicBrolls,
         magicBrollsPercentage: videoCustomization.magicBrollsPercentage,
@@ -208,6 +221,14 @@ export async function POST(
         startBumperDuration: videoCustomization.startBumperDuration || null,
         endBumperId: videoCustomization.endBumperId || null,
         endBumperDuration: videoCustomization.endBumperDuration || null,
+        // Renditions from a previous generation are replaced
+        renditions: {
+          deleteMany: {},
+          create: [...new Set(videoCustomization.aspectRatios)].map((aspectRatio) => ({
+            aspectRatio,
+            fit: videoCustomization.renditionFit,
+          })),
+        },
         error: null,
       },
     });
@@ -219,6 +240,12 @@ export async function POST(
       organizationId: org.id,
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'video.media_generate',
+      targetType: 'video',
+      targetId: params.videoId,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Video generation started',
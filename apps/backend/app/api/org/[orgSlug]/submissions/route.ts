@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { SubmissionsController } from '@/lib/controllers/submissions.controller';
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { getAuditContext } from '@/lib/services/core/audit.service';
 
 /**
  * GET /api/org/[orgSlug]/submissions - Get all submissions for organization
@@ -94,6 +95,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -107,7 +116,7 @@ export async function POST(
     const submission = await SubmissionsController.create({
       ...body,
       organizationId: org.id,
-    });
+    }, getAuditContext(request, org.id, user));
 
     return NextResponse.json(
       {
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { tagService } from '@/lib/services/tag.service';
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess, validateResourceOrg } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission, validateResourceOrg } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 const UpdateTagSchema = z.object({
   name: z.string().min(1).max(200).optional(),
@@ -120,6 +121,14 @@ export async function PATCH(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -143,6 +152,13 @@ export async function PATCH(
 
     const tag = await tagService.updateTag(params.id, org.id, validatedData);
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'tag.update',
+      targetType: 'tag',
+      targetId: params.id,
+      metadata: { fields: Object.keys(validatedData) },
+    });
+
     return NextResponse.json({
       success: true,
       data: tag,
@@ -200,6 +216,14 @@ export async function DELETE(
       );
     }
 
+    const canDelete = await hasOrgPermission(user.id, params.orgSlug, 'content.delete');
+    if (!canDelete) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to delete content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -220,6 +244,12 @@ export async function DELETE(
 
     await tagService.deleteTag(params.id);
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'tag.delete',
+      targetType: 'tag',
+      targetId: params.id,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Tag deleted successfully',
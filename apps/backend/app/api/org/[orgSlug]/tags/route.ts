@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { tagService } from '@/lib/services/tag.service';
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
 
 const CreateTagSchema = z.object({
   name: z.string().min(1, 'Name is required').max(200),
@@ -108,6 +109,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     // Get organization
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
@@ -125,6 +134,13 @@ export async function POST(
       organizationId: org.id,
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: 'tag.create',
+      targetType: 'tag',
+      targetId: tag.id,
+      metadata: { name: tag.name },
+    });
+
     return NextResponse.json(
       {
         success: true,
@@ -1,15 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/config/database';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
 import { queueService } from '@/lib/services/core/queue.service';
 import { translationService } from '@/lib/services/media/translation.service';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@repo/logging';
-
-const LanguageEnum = z.enum(['ENGLISH', 'MARATHI', 'HINDI', 'BENGALI', 'GUJARATI']);
-type Language = z.infer<typeof LanguageEnum>;
+import { auditService, getAuditContext } from '@/lib/services/core/audit.service';
+import { languageService, LanguageValidationError } from '@/lib/services/core/language.service';
 
 const TranslationOverrideSchema = z.object({
   script: z.string(),
@@ -19,7 +18,7 @@ const TranslationOverrideSchema = z.object({
 const CreateVideoSchema = z.object({
   // Multi-language support
   title: z.string().min(1, 'Title is required'),
-  languages: z.array(LanguageEnum).min(1, 'At least one language is required'),
+  languages: z.array(z.string().min(1)).min(1, 'At least one language is required'), // Language.code
   translations: z.record(z.string(), TranslationOverrideSchema).optional(), // Per-language overrides
   // Content
   script: z.string().min(1, 'Script is required'),
@@ -39,6 +38,9 @@ const CreateVideoSchema = z.object({
   startBumperDuration: z.number().int().positive().nullable().optional(),
   endBumperId: z.string().uuid().nullable().optional(),
   endBumperDuration: z.number().int().positive().nullable().optional(),
+  // Extra formats rendered alongside the portrait original
+  aspectRatios: z.array(z.enum(['SQUARE', 'LANDSCAPE'])).default([]),
+  renditionFit: z.enum(['pad', 'crop']).default('pad'),
 });
 
 /**
@@ -76,6 +78,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
       logger.warn('Video create org not found', {
@@ -141,6 +151,8 @@ export async function POST(
 
     const data = validationResult.data;
 
+    await languageService.assertOrgLanguages(org.id, data.languages);
+
     // Validate that character belongs to this organization
     const character = await prisma.character.findFirst({
       where: {
@@ -235,7 +247,7 @@ export async function POST(
     // Create videos for each language
     const createdVideos: Array<{
       id: string;
-      language: Language;
+      language: string;
       status: string;
       jobId: string;
     }> = [];
@@ -258,7 +270,8 @@ export async function POST(
           const translated = await translationService.translateScriptAndTitle(
             data.script,
             data.title,
-            language
+            language,
+            org.id
           );
           videoScript = translated.translatedScript;
           videoTitle = translated.translatedTitle;
@@ -290,6 +303,12 @@ export async function POST(
           startBumperDuration: data.startBumperDuration || null,
           endBumperId: data.endBumperId || null,
           endBumperDuration: data.endBumperDuration || null,
+          renditions: {
+            create: [...new Set(data.aspectRatios)].map((aspectRatio) => ({
+              aspectRatio,
+              fit: data.renditionFit,
+            })),
+          },
         },
       });
 
@@ -299,6 +318,13 @@ export async function POST(
         organizationId: org.id,
       });
 
+      await auditService.record(getAuditContext(request, org.id, user), {
+        action: 'standalone-video.create',
+        targetType: 'standalone-video',
+        targetId: standaloneVideo.id,
+        metadata: { title: videoTitle, language, batchId },
+      });
+
       createdVideos.push({
         id: standaloneVideo.id,
         language,
@@ -321,6 +347,13 @@ export async function POST(
       },
     }, { status: 201 });
   } catch (error) {
+    if (error instanceof LanguageValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error('Create Standalone Video Error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to create video' },
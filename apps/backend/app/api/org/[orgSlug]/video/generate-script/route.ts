@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
 import { agentaOpenAIService } from '@/lib/services/external/agenta-openai.service';
 import { z } from 'zod';
 import { logger } from '@repo/logging';
+import { languageService } from '@/lib/services/core/language.service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -12,27 +13,27 @@ export const maxDuration = 120; // AI generation can take time
 const GenerateFromPromptSchema = z.object({
   mode: z.literal('prompt'),
   prompt: z.string().min(10, 'Prompt must be at least 10 characters'),
-  language: z.enum(['ENGLISH', 'MARATHI', 'HINDI', 'BENGALI', 'GUJARATI']).optional().default('ENGLISH'),
+  language: z.string().min(1).optional().default('ENGLISH'), // Language.code
 });
 
 const GenerateFromContentSchema = z.object({
   mode: z.literal('content'),
   content: z.string().min(50, 'Content must be at least 50 characters'),
-  language: z.enum(['ENGLISH', 'MARATHI', 'HINDI', 'BENGALI', 'GUJARATI']).optional().default('ENGLISH'),
+  language: z.string().min(1).optional().default('ENGLISH'), // Language.code
 });
 
 const GenerateFromScriptWithPromptSchema = z.object({
   mode: z.literal('script_with_prompt'),
   script: z.string().min(10, 'Script must be at least 10 characters'),
   prompt: z.string().min(5, 'Guidance must be at least 5 characters'),
-  language: z.enum(['ENGLISH', 'MARATHI', 'HINDI', 'BENGALI', 'GUJARATI']).optional().default('ENGLISH'),
+  language: z.string().min(1).optional().default('ENGLISH'), // Language.code
 });
 
 const GenerateFromContentWithPromptSchema = z.object({
   mode: z.literal('content_with_prompt'),
   content: z.string().min(50, 'Content must be at least 50 characters'),
   prompt: z.string().min(5, 'Guidance must be at least 5 characters'),
-  language: z.enum(['ENGLISH', 'MARATHI', 'HINDI', 'BENGALI', 'GUJARATI']).optional().default('ENGLISH'),
+  language: z.string().min(1).optional().default('ENGLISH'), // Language.code
 });
 
 const GenerateScriptSchema = z.discriminatedUnion('mode', [
@@ -42,14 +43,6 @@ const GenerateScriptSchema = z.discriminatedUnion('mode', [
   GenerateFromContentWithPromptSchema,
 ]);
 
-const languageMap: Record<string, string> = {
-  ENGLISH: 'English',
-  MARATHI: 'Marathi',
-  HINDI: 'Hindi',
-  BENGALI: 'Bengali',
-  GUJARATI: 'Gujarati',
-};
-
 /**
  * POST /api/org/[orgSlug]/video/generate-script
  *
@@ -104,6 +97,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
       return NextResponse.json(
@@ -124,7 +125,7 @@ export async function POST(
     }
 
     const data = validationResult.data;
-    const languageName = languageMap[data.language] || 'English';
+    const languageName = await languageService.getLanguageName(data.language);
 
     logger.info('Generating video script', {
       mode: data.mode,
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
 import { agentaOpenAIService } from '@/lib/services/external/agenta-openai.service';
 import { z } from 'zod';
 import { logger } from '@repo/logging';
+import { languageService } from '@/lib/services/core/language.service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -12,19 +13,11 @@ export const maxDuration = 120;
 const ImproveScriptSchema = z.object({
   script: z.string().min(10, 'Script must be at least 10 characters'),
   guidance: z.string().min(5, 'Guidance must be at least 5 characters'),
-  language: z.enum(['ENGLISH', 'MARATHI', 'HINDI', 'BENGALI', 'GUJARATI']).optional().default('ENGLISH'),
+  language: z.string().min(1).optional().default('ENGLISH'), // Language.code
   // Optional context for better improvements
   context: z.string().optional(),
 });
 
-const languageMap: Record<string, string> = {
-  ENGLISH: 'English',
-  MARATHI: 'Marathi',
-  HINDI: 'Hindi',
-  BENGALI: 'Bengali',
-  GUJARATI: 'Gujarati',
-};
-
 /**
  * POST /api/org/[orgSlug]/video/improve-script
  *
@@ -67,6 +60,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
       return NextResponse.json(
@@ -87,7 +88,7 @@ export async function POST(
     }
 
     const data = validationResult.data;
-    const languageName = languageMap[data.language] || 'English';
+    const languageName = await languageService.getLanguageName(data.language);
 
     logger.info('Improving video script', {
       language: data.language,
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { getOrgFromSlug, validateOrgAccess, hasOrgPermission } from '@/lib/context/org-context';
 import { translationService } from '@/lib/services/media/translation.service';
 import { z } from 'zod';
 import { logger } from '@repo/logging';
+import { languageService, LanguageValidationError } from '@/lib/services/core/language.service';
+import { glossaryService } from '@/lib/services/core/glossary.service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -12,7 +14,7 @@ export const maxDuration = 60; // Translation should be faster than generation
 const TranslateScriptSchema = z.object({
   script: z.string().min(1, 'Script is required'),
   title: z.string().min(1, 'Title is required'),
-  targetLanguage: z.enum(['ENGLISH', 'MARATHI', 'HINDI', 'BENGALI', 'GUJARATI']),
+  targetLanguage: z.string().min(1, 'Target language is required'),
 });
 
 /**
@@ -24,7 +26,7 @@ const TranslateScriptSchema = z.object({
  * {
  *   script: string,      // The English script to translate
  *   title: string,       // The English title to translate
- *   targetLanguage: 'ENGLISH' | 'MARATHI' | 'HINDI' | 'BENGALI' | 'GUJARATI'
+ *   targetLanguage: string  // Language.code enabled for the organization, e.g. 'HINDI'
  * }
  *
  * Response:
@@ -32,7 +34,8 @@ const TranslateScriptSchema = z.object({
  *   success: true,
  *   data: {
  *     translatedScript: string,
- *     translatedTitle: string
+ *     translatedTitle: string,
+ *     glossaryIssues: GlossaryIssue[]  // Glossary terms the translation doesn't follow
  *   }
  * }
  */
@@ -63,6 +66,14 @@ export async function POST(
       );
     }
 
+    const canCreate = await hasOrgPermission(user.id, params.orgSlug, 'content.create');
+    if (!canCreate) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to create content' },
+        { status: 403 }
+      );
+    }
+
     const org = await getOrgFromSlug(params.orgSlug);
     if (!org) {
       return NextResponse.json(
@@ -83,6 +94,7 @@ export async function POST(
     }
 
     const { script, title, targetLanguage } = validationResult.data;
+    await languageService.assertOrgLanguages(org.id, [targetLanguage]);
 
     logger.info('Translating script and title', {
       targetLanguage,
@@ -98,6 +110,7 @@ export async function POST(
         data: {
           translatedScript: script,
           translatedTitle: title,
+          glossaryIssues: [],
         },
       });
     }
@@ -106,13 +119,22 @@ export async function POST(
     const { translatedScript, translatedTitle } = await translationService.translateScriptAndTitle(
       script,
       title,
-      targetLanguage
+      targetLanguage,
+      org.id
+    );
+
+    const glossaryIssues = await glossaryService.checkText(
+      org.id,
+      targetLanguage,
+      `${title}\n${script}`,
+      `${translatedTitle}\n${translatedScript}`
     );
 
     logger.info('Translation completed', {
       targetLanguage,
       originalScriptLength: script.length,
       translatedScriptLength: translatedScript.length,
+      glossaryIssues: glossaryIssues.length,
       organizationId: org.id,
     });
 
@@ -121,9 +143,17 @@ export async function POST(
       data: {
         translatedScript,
         translatedTitle,
+        glossaryIssues,
       },
     });
   } catch (error) {
+    if (error instanceof LanguageValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
     logger.error('Translate script error', {
       error: error instanceof Error ? error.message : 'Unknown error',
       orgSlug: params.orgSlug,
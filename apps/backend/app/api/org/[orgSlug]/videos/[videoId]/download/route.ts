@@ -2,10 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/config/database';
 import { createClient } from '@/lib/supabase/server';
 import { getOrgFromSlug, validateOrgAccess } from '@/lib/context/org-context';
+import { z } from 'zod';
+
+const AspectRatioSchema = z.enum(['PORTRAIT', 'SQUARE', 'LANDSCAPE']);
+
+const ASPECT_RATIO_SUFFIXES: Record<z.infer<typeof AspectRatioSchema>, string> = {
+  PORTRAIT: '',
+  SQUARE: '-1x1',
+  LANDSCAPE: '-16x9',
+};
 
 /**
  * GET /api/org/[orgSlug]/videos/[videoId]/download - Download a video file
  * Proxies the CloudFront URL with proper Content-Disposition header
+ *
+ * videoId is a standalone video or an edu video (VideoOutput).
+ * Query: ?aspectRatio=SQUARE|LANDSCAPE for a rendition (default: the original portrait video)
  */
 export async function GET(
   request: NextRequest,
@@ -39,12 +51,35 @@ export async function GET(
       );
     }
 
-    const video = await prisma.standaloneVideo.findFirst({
-      where: {
-        id: params.videoId,
-        organizationId: org.id,
-      },
-    });
+    const aspectRatioResult = AspectRatioSchema.safeParse(
+      request.nextUrl.searchParams.get('aspectRatio') ?? 'PORTRAIT'
+    );
+    if (!aspectRatioResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'aspectRatio must be PORTRAIT, SQUARE or LANDSCAPE' },
+        { status: 400 }
+      );
+    }
+    const aspectRatio = aspectRatioResult.data;
+
+    const renditionsInclude = {
+      renditions: { where: { aspectRatio } },
+    };
+    const video =
+      (await prisma.standaloneVideo.findFirst({
+        where: {
+          id: params.videoId,
+          organizationId: org.id,
+        },
+        include: renditionsInclude,
+      })) ??
+      (await prisma.videoOutput.findFirst({
+        where: {
+          id: params.videoId,
+          submission: { article: { organizationId: org.id } },
+        },
+        include: renditionsInclude,
+      }));
 
     if (!video) {
       return NextResponse.json(
@@ -53,15 +88,19 @@ export async function GET(
       );
     }
 
-    if (!video.videoUrl) {
+    const videoUrl = aspectRatio === 'PORTRAIT' ? video.videoUrl : video.renditions[0]?.videoUrl;
+    if (!videoUrl) {
       return NextResponse.json(
-        { success: false, error: 'Video file not available' },
+        {
+          success: false,
+          error: aspectRatio === 'PORTRAIT' ? 'Video file not available' : 'This format is not available for this video',
+        },
         { status: 404 }
       );
     }
 
     // Fetch the video from CloudFront
-    const videoResponse = await fetch(video.videoUrl);
+    const videoResponse = await fetch(videoUrl);
     if (!videoResponse.ok) {
       return NextResponse.json(
         { success: false, error: 'Failed to fetch video file' },
@@ -70,7 +109,7 @@ export async function GET(
     }
 
     const videoBlob = await videoResponse.blob();
-    const filename = `${video.title || 'video'}.mp4`.replace(/[^a-zA-Z0-9.-]/g, '_');
+    const filename = `${video.title || 'video'}${ASPECT_RATIO_SUFFIXES[aspectRatio]}.mp4`.replace(/[^a-zA-Z0-9.-]/g, '_');
 
     return new NextResponse(videoBlob, {
       headers: {
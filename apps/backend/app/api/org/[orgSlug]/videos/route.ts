@@ -45,7 +45,8 @@ export async function GET(
       include: {
         createdByProfile: {
           select: { id: true, fullName: true, email: true }
-        }
+        },
+        renditions: true,
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getUser } from "@/app/auth/actions";
-import { validateOrgAccess, isOrgAdmin } from "@/lib/context/org-context";
+import { validateOrgAccess, hasOrgPermission } from "@/lib/context/org-context";
 import { prisma } from "@repo/database";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
 
 type RouteContext = {
   params: Promise<{ slug: string; inviteId: string }>;
@@ -10,7 +11,7 @@ type RouteContext = {
 /**
  * DELETE /api/organizations/[slug]/invites/[inviteId]
  * Revoke an invite
- * Requires ADMIN role
+ * Requires members.manage permission
  */
 export async function DELETE(
   request: NextRequest,
@@ -39,11 +40,11 @@ export async function DELETE(
       );
     }
 
-    // Check if user is admin
-    const isAdmin = await isOrgAdmin(user.id, org.id);
-    if (!isAdmin) {
+    // Check if user can manage members
+    const canManageMembers = await hasOrgPermission(user.id, slug, "members.manage");
+    if (!canManageMembers) {
       return NextResponse.json(
-        { error: "Only admins can revoke invites" },
+        { error: "You do not have permission to revoke invites" },
         { status: 403 }
       );
     }
@@ -62,6 +63,13 @@ export async function DELETE(
       where: { id: inviteId },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "invite.revoke",
+      targetType: "invite",
+      targetId: inviteId,
+      metadata: { email: invite.email },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error revoking invite:", error);
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getUser } from "@/app/auth/actions";
-import { validateOrgAccess, isOrgAdmin } from "@/lib/context/org-context";
+import { validateOrgAccess, hasOrgPermission } from "@/lib/context/org-context";
 import { prisma } from "@repo/database";
 import { randomUUID } from "crypto";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
 
 type RouteContext = {
   params: Promise<{ slug: string }>;
@@ -16,7 +17,7 @@ const INVITE_EXPIRY_DAYS = parseInt(
 /**
  * GET /api/organizations/[slug]/invites
  * List all active invites
- * Requires ADMIN role
+ * Requires members.manage permission
  */
 export async function GET(
   request: NextRequest,
@@ -45,11 +46,11 @@ export async function GET(
       );
     }
 
-    // Check if user is admin
-    const isAdmin = await isOrgAdmin(user.id, org.id);
-    if (!isAdmin) {
+    // Check if user can manage members
+    const canManageMembers = await hasOrgPermission(user.id, slug, "members.manage");
+    if (!canManageMembers) {
       return NextResponse.json(
-        { error: "Only admins can view invites" },
+        { error: "You do not have permission to view invites" },
         { status: 403 }
       );
     }
@@ -80,7 +81,7 @@ export async function GET(
 /**
  * POST /api/organizations/[slug]/invites
  * Create a new invite
- * Requires ADMIN role
+ * Requires members.manage permission
  */
 export async function POST(
   request: NextRequest,
@@ -109,11 +110,11 @@ export async function POST(
       );
     }
 
-    // Check if user is admin
-    const isAdmin = await isOrgAdmin(user.id, org.id);
-    if (!isAdmin) {
+    // Check if user can manage members
+    const canManageMembers = await hasOrgPermission(user.id, slug, "members.manage");
+    if (!canManageMembers) {
       return NextResponse.json(
-        { error: "Only admins can create invites" },
+        { error: "You do not have permission to create invites" },
         { status: 403 }
       );
     }
@@ -147,6 +148,13 @@ export async function POST(
       },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "invite.create",
+      targetType: "invite",
+      targetId: invite.id,
+      metadata: { email: invite.email, expiresAt: invite.expiresAt.toISOString() },
+    });
+
     // Build invite URL
     const protocol = process.env.NODE_ENV === "development" ? "http" : "https";
     const host =
@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getUser } from "@/app/auth/actions";
 import { profileService } from "@/lib/services/profile.service";
-import { validateOrgAccess, isOrgAdmin } from "@/lib/context/org-context";
+import {
+  validateOrgAccess,
+  hasOrgPermission,
+  getMemberPermissions,
+  isOrgOwner,
+} from "@/lib/context/org-context";
+import { resolvePermissions } from "@/lib/context/permissions";
 import { prisma } from "@repo/database";
 import { MemberRole } from "@prisma/client";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
 
 type RouteContext = {
   params: Promise<{ slug: string; memberId: string }>;
@@ -11,8 +18,8 @@ type RouteContext = {
 
 /**
  * PATCH /api/organizations/[slug]/members/[memberId]
- * Update member role
- * Requires ADMIN role
+ * Update member role and/or custom role ({ role?, customRoleId? }, customRoleId null clears it)
+ * Requires members.manage permission
  */
 export async function PATCH(
   request: NextRequest,
@@ -41,40 +48,101 @@ export async function PATCH(
       );
     }
 
-    // Check if user is admin
-    const isAdmin = await isOrgAdmin(user.id, org.id);
-    if (!isAdmin) {
+    // Check if user can manage members
+    const canManageMembers = await hasOrgPermission(user.id, slug, "members.manage");
+    if (!canManageMembers) {
       return NextResponse.json(
-        { error: "Only admins can update member roles" },
+        { error: "You do not have permission to update member roles" },
         { status: 403 }
       );
     }
 
     const body = await request.json();
-    const { role } = body;
+    const { role, customRoleId } = body;
 
-    if (!role || !["OWNER", "ADMIN", "MEMBER"].includes(role)) {
+    if (role === undefined && customRoleId === undefined) {
+      return NextResponse.json(
+        { error: "Nothing to update. Provide role or customRoleId" },
+        { status: 400 }
+      );
+    }
+
+    if (role !== undefined && !["OWNER", "ADMIN", "MEMBER"].includes(role)) {
       return NextResponse.json(
         { error: "Invalid role. Must be OWNER, ADMIN, or MEMBER" },
         { status: 400 }
       );
     }
 
+    if (customRoleId !== undefined && customRoleId !== null && typeof customRoleId !== "string") {
+      return NextResponse.json({ error: "Invalid custom role" }, { status: 400 });
+    }
+
     // Get member to update
     const member = await prisma.organizationMember.findUnique({
       where: { id: memberId },
+      include: { customRole: { select: { permissions: true } } },
     });
 
     if (!member || member.organizationId !== org.id) {
       return NextResponse.json({ error: "Member not found" }, { status: 404 });
     }
 
-    // Update role
-    const updated = await profileService.updateMemberRole(
-      org.id,
-      member.profileId,
-      role as MemberRole
+    const customRole = customRoleId
+      ? await prisma.organizationRole.findUnique({ where: { id: customRoleId } })
+      : null;
+
+    if (customRoleId && (!customRole || customRole.organizationId !== org.id)) {
+      return NextResponse.json({ error: "Role not found" }, { status: 404 });
+    }
+
+    // Nobody can grant permissions they don't hold themselves, and only owners create owners
+    const nextRole: MemberRole = role ?? member.role;
+    const nextPermissions = resolvePermissions(
+      nextRole,
+      customRoleId === undefined ? member.customRole?.permissions : customRole?.permissions
     );
+    const actorPermissions = await getMemberPermissions(user.id, org.id);
+    const isOwner = await isOrgOwner(user.id, org.id);
+
+    if (
+      ((nextRole === "OWNER" || member.role === "OWNER") && !isOwner) ||
+      nextPermissions.some((permission) => !actorPermissions.includes(permission))
+    ) {
+      return NextResponse.json(
+        { error: "You cannot grant permissions you do not have" },
+        { status: 403 }
+      );
+    }
+
+    // Update role
+    if (role !== undefined && role !== member.role) {
+      await profileService.updateMemberRole(org.id, member.profileId, role as MemberRole);
+
+      await auditService.record(getAuditContext(request, org.id, user), {
+        action: "member.role_change",
+        targetType: "member",
+        targetId: memberId,
+        metadata: { profileId: member.profileId, from: member.role, to: role },
+      });
+    }
+
+    // Update custom role
+    if (customRoleId !== undefined && customRoleId !== member.customRoleId) {
+      await profileService.assignCustomRole(org.id, member.profileId, customRoleId);
+
+      await auditService.record(getAuditContext(request, org.id, user), {
+        action: "member.custom_role_change",
+        targetType: "member",
+        targetId: memberId,
+        metadata: { profileId: member.profileId, from: member.customRoleId, to: customRoleId, roleName: customRole?.name ?? null },
+      });
+    }
+
+    const updated = await prisma.organizationMember.findUnique({
+      where: { id: memberId },
+      include: { customRole: true },
+    });
 
     return NextResponse.json({ member: updated });
   } catch (error: any) {
@@ -94,7 +162,7 @@ export async function PATCH(
 /**
  * DELETE /api/organizations/[slug]/members/[memberId]
  * Remove member from organization
- * Requires ADMIN role
+ * Requires members.manage permission
  */
 export async function DELETE(
   request: NextRequest,
@@ -123,11 +191,11 @@ export async function DELETE(
       );
     }
 
-    // Check if user is admin
-    const isAdmin = await isOrgAdmin(user.id, org.id);
-    if (!isAdmin) {
+    // Check if user can manage members
+    const canManageMembers = await hasOrgPermission(user.id, slug, "members.manage");
+    if (!canManageMembers) {
       return NextResponse.json(
-        { error: "Only admins can remove members" },
+        { error: "You do not have permission to remove members" },
         { status: 403 }
       );
     }
@@ -141,9 +209,28 @@ export async function DELETE(
       return NextResponse.json({ error: "Member not found" }, { status: 404 });
     }
 
+    // Members with permissions the actor lacks can only be removed by someone holding them
+    const [memberPermissions, actorPermissions] = await Promise.all([
+      getMemberPermissions(member.profileId, org.id),
+      getMemberPermissions(user.id, org.id),
+    ]);
+    if (memberPermissions.some((permission) => !actorPermissions.includes(permission))) {
+      return NextResponse.json(
+        { error: "You cannot remove a member with more permissions than you" },
+        { status: 403 }
+      );
+    }
+
     // Remove member
     await profileService.removeMemberFromOrg(org.id, member.profileId);
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "member.remove",
+      targetType: "member",
+      targetId: memberId,
+      metadata: { profileId: member.profileId, role: member.role },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error: any) {
     console.error("Error removing member:", error);
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getUser } from "@/app/auth/actions";
 import { profileService } from "@/lib/services/profile.service";
-import { validateOrgAccess, isOrgAdmin } from "@/lib/context/org-context";
+import { validateOrgAccess, hasOrgPermission } from "@/lib/context/org-context";
 import { prisma } from "@repo/database";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
 
 type RouteContext = {
   params: Promise<{ slug: string; requestId: string }>;
@@ -11,7 +12,7 @@ type RouteContext = {
 /**
  * POST /api/organizations/[slug]/requests/[requestId]/approve
  * Approve a join request
- * Requires ADMIN role
+ * Requires members.manage permission
  */
 export async function POST(
   request: NextRequest,
@@ -40,11 +41,11 @@ export async function POST(
       );
     }
 
-    // Check if user is admin
-    const isAdmin = await isOrgAdmin(user.id, org.id);
-    if (!isAdmin) {
+    // Check if user can manage members
+    const canManageMembers = await hasOrgPermission(user.id, slug, "members.manage");
+    if (!canManageMembers) {
       return NextResponse.json(
-        { error: "Only admins can approve join requests" },
+        { error: "You do not have permission to approve join requests" },
         { status: 403 }
       );
     }
@@ -90,13 +91,20 @@ export async function POST(
       return { membership, joinRequest: updatedRequest };
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "join-request.approve",
+      targetType: "join-request",
+      targetId: requestId,
+      metadata: { profileId: joinRequest.profileId },
+    });
+
     return NextResponse.json(result);
   } catch (error: any) {
     console.error("Error approving join request:", error);
 
-    if (error.message?.includes("already belongs to an organization")) {
+    if (error.message?.includes("already a member of this organization")) {
       return NextResponse.json(
-        { error: "User already belongs to an organization" },
+        { error: "User is already a member of this organization" },
         { status: 409 }
       );
     }
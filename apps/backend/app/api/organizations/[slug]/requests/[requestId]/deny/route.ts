@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getUser } from "@/app/auth/actions";
-import { validateOrgAccess, isOrgAdmin } from "@/lib/context/org-context";
+import { validateOrgAccess, hasOrgPermission } from "@/lib/context/org-context";
 import { prisma } from "@repo/database";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
 
 type RouteContext = {
   params: Promise<{ slug: string; requestId: string }>;
@@ -10,7 +11,7 @@ type RouteContext = {
 /**
  * POST /api/organizations/[slug]/requests/[requestId]/deny
  * Deny a join request
- * Requires ADMIN role
+ * Requires members.manage permission
  */
 export async function POST(
   request: NextRequest,
@@ -39,11 +40,11 @@ export async function POST(
       );
     }
 
-    // Check if user is admin
-    const isAdmin = await isOrgAdmin(user.id, org.id);
-    if (!isAdmin) {
+    // Check if user can manage members
+    const canManageMembers = await hasOrgPermission(user.id, slug, "members.manage");
+    if (!canManageMembers) {
       return NextResponse.json(
-        { error: "Only admins can deny join requests" },
+        { error: "You do not have permission to deny join requests" },
         { status: 403 }
       );
     }
@@ -77,6 +78,13 @@ export async function POST(
       },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "join-request.deny",
+      targetType: "join-request",
+      targetId: requestId,
+      metadata: { profileId: joinRequest.profileId },
+    });
+
     return NextResponse.json({ joinRequest: updated });
   } catch (error) {
     console.error("Error denying join request:", error);
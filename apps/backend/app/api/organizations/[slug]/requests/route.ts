@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getUser } from "@/app/auth/actions";
-import { validateOrgAccess, isOrgAdmin } from "@/lib/context/org-context";
+import { validateOrgAccess, hasOrgPermission } from "@/lib/context/org-context";
 import { prisma } from "@repo/database";
 
 type RouteContext = {
@@ -10,7 +10,7 @@ type RouteContext = {
 /**
  * GET /api/organizations/[slug]/requests
  * List all pending join requests
- * Requires ADMIN role
+ * Requires members.manage permission
  */
 export async function GET(
   request: NextRequest,
@@ -39,11 +39,11 @@ export async function GET(
       );
     }
 
-    // Check if user is admin
-    const isAdmin = await isOrgAdmin(user.id, org.id);
-    if (!isAdmin) {
+    // Check if user can manage members
+    const canManageMembers = await hasOrgPermission(user.id, slug, "members.manage");
+    if (!canManageMembers) {
       return NextResponse.json(
-        { error: "Only admins can view join requests" },
+        { error: "You do not have permission to view join requests" },
         { status: 403 }
       );
     }
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/app/auth/actions";
+import { isOrgOwner } from "@/lib/context/org-context";
+import { profileService, validateCustomRoleInput } from "@/lib/services/profile.service";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
+import { prisma } from "@repo/database";
+
+type RouteContext = {
+  params: Promise<{ slug: string; roleId: string }>;
+};
+
+/**
+ * PATCH /api/organizations/[slug]/roles/[roleId]
+ * Update a custom role's name, description and permissions
+ * Requires OWNER role
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug, roleId } = await context.params;
+
+    // Get org
+    const org = await prisma.organization.findUnique({ where: { slug } });
+    if (!org) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user is owner
+    const isOwner = await isOrgOwner(user.id, org.id);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Only the owner can define roles" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateCustomRoleInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const role = await profileService.saveCustomRole(org.id, body, roleId);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "role.update",
+      targetType: "role",
+      targetId: role.id,
+      metadata: { name: role.name, permissions: role.permissions },
+    });
+
+    return NextResponse.json({ role });
+  } catch (error: any) {
+    console.error("Error updating role:", error);
+
+    if (error.message === "Role not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error.message?.includes("already exists")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update role" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/organizations/[slug]/roles/[roleId]
+ * Delete a custom role - its members fall back to their built-in role
+ * Requires OWNER role
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug, roleId } = await context.params;
+
+    // Get org
+    const org = await prisma.organization.findUnique({ where: { slug } });
+    if (!org) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user is owner
+    const isOwner = await isOrgOwner(user.id, org.id);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Only the owner can define roles" },
+        { status: 403 }
+      );
+    }
+
+    const role = await profileService.deleteCustomRole(org.id, roleId);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "role.delete",
+      targetType: "role",
+      targetId: roleId,
+      metadata: { name: role.name },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Error deleting role:", error);
+
+    if (error.message === "Role not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete role" },
+      { status: 500 }
+    );
+  }
+}
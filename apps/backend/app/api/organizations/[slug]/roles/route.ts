@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/app/auth/actions";
+import { validateOrgAccess, isOrgOwner } from "@/lib/context/org-context";
+import { profileService, validateCustomRoleInput } from "@/lib/services/profile.service";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
+import { prisma } from "@repo/database";
+
+type RouteContext = {
+  params: Promise<{ slug: string }>;
+};
+
+/**
+ * GET /api/organizations/[slug]/roles
+ * List custom roles
+ * Requires MEMBER role (any member can view)
+ */
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug } = await context.params;
+
+    // Validate user has access
+    const hasAccess = await validateOrgAccess(user.id, slug);
+    if (!hasAccess) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Get org
+    const org = await prisma.organization.findUnique({ where: { slug } });
+    if (!org) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const roles = await profileService.getCustomRoles(org.id);
+
+    return NextResponse.json({ roles });
+  } catch (error) {
+    console.error("Error fetching roles:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch roles" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/organizations/[slug]/roles
+ * Create a custom role
+ * Requires OWNER role
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug } = await context.params;
+
+    // Get org
+    const org = await prisma.organization.findUnique({ where: { slug } });
+    if (!org) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user is owner
+    const isOwner = await isOrgOwner(user.id, org.id);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Only the owner can define roles" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateCustomRoleInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const role = await profileService.saveCustomRole(org.id, body);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "role.create",
+      targetType: "role",
+      targetId: role.id,
+      metadata: { name: role.name, permissions: role.permissions },
+    });
+
+    return NextResponse.json({ role }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating role:", error);
+
+    if (error.message?.includes("already exists")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create role" },
+      { status: 500 }
+    );
+  }
+}
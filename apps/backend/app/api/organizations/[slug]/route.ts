@@ -4,10 +4,11 @@ import { profileService } from "@/lib/services/profile.service";
 import {
   getOrgWithMembers,
   validateOrgAccess,
-  isOrgAdmin,
+  hasOrgPermission,
   isOrgOwner,
 } from "@/lib/context/org-context";
 import { prisma } from "@repo/database";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
 
 type RouteContext = {
   params: Promise<{ slug: string }>;
@@ -61,7 +62,7 @@ export async function GET(
 /**
  * PATCH /api/organizations/[slug]
  * Update organization details (name, slug)
- * Requires ADMIN or OWNER role
+ * Requires settings.manage permission
  */
 export async function PATCH(
   request: NextRequest,
@@ -90,11 +91,11 @@ export async function PATCH(
       );
     }
 
-    // Check if user is admin
-    const isAdmin = await isOrgAdmin(user.id, org.id);
-    if (!isAdmin) {
+    // Check if user can manage settings
+    const canManageSettings = await hasOrgPermission(user.id, slug, "settings.manage");
+    if (!canManageSettings) {
       return NextResponse.json(
-        { error: "Only admins can update organization" },
+        { error: "You do not have permission to update organization" },
         { status: 403 }
       );
     }
@@ -158,6 +159,13 @@ export async function PATCH(
       data: updateData,
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "organization.update",
+      targetType: "organization",
+      targetId: org.id,
+      metadata: { from: { name: org.name, slug: org.slug }, to: updateData },
+    });
+
     return NextResponse.json({ organization: updated });
   } catch (error) {
     console.error("Error updating organization:", error);
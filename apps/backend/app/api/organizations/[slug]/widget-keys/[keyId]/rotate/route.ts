@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/app/auth/actions";
+import { validateOrgAccess, hasOrgPermission } from "@/lib/context/org-context";
+import { prisma } from "@repo/database";
+import { generateWidgetApiKey } from "@repo/widget-api";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
+
+type RouteContext = {
+  params: Promise<{ slug: string; keyId: string }>;
+};
+
+/**
+ * POST /api/organizations/[slug]/widget-keys/[keyId]/rotate
+ * Revoke a widget API key and issue a replacement with the same name
+ * The new raw key is only returned in this response
+ * Requires settings.manage permission
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug, keyId } = await context.params;
+
+    // Validate user has access
+    const hasAccess = await validateOrgAccess(user.id, slug);
+    if (!hasAccess) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Get org
+    const org = await prisma.organization.findUnique({ where: { slug } });
+    if (!org) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user can manage settings
+    const canManageSettings = await hasOrgPermission(user.id, slug, "settings.manage");
+    if (!canManageSettings) {
+      return NextResponse.json(
+        { error: "You do not have permission to rotate widget API keys" },
+        { status: 403 }
+      );
+    }
+
+    // Get key
+    const existingKey = await prisma.widgetApiKey.findUnique({
+      where: { id: keyId },
+    });
+
+    if (!existingKey || existingKey.organizationId !== org.id) {
+      return NextResponse.json({ error: "Widget API key not found" }, { status: 404 });
+    }
+
+    if (existingKey.revokedAt) {
+      return NextResponse.json(
+        { error: "Revoked keys cannot be rotated" },
+        { status: 400 }
+      );
+    }
+
+    const { apiKey, keyPrefix, keyHash } = generateWidgetApiKey();
+
+    // Revoke old key and create replacement atomically
+    const [, key] = await prisma.$transaction([
+      prisma.widgetApiKey.update({
+        where: { id: existingKey.id },
+        data: { revokedAt: new Date() },
+      }),
+      prisma.widgetApiKey.create({
+        data: {
+          organizationId: org.id,
+          name: existingKey.name,
+          keyPrefix,
+          keyHash,
+          createdBy: user.id,
+        },
+        select: {
+          id: true,
+          name: true,
+          keyPrefix: true,
+          createdBy: true,
+          lastUsedAt: true,
+          revokedAt: true,
+          createdAt: true,
+        },
+      }),
+    ]);
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "widget-key.rotate",
+      targetType: "widget-key",
+      targetId: key.id,
+      metadata: { name: key.name, previousKeyId: existingKey.id, keyPrefix: key.keyPrefix },
+    });
+
+    return NextResponse.json({ key, apiKey }, { status: 201 });
+  } catch (error) {
+    console.error("Error rotating widget API key:", error);
+    return NextResponse.json(
+      { error: "Failed to rotate widget API key" },
+      { status: 500 }
+    );
+  }
+}
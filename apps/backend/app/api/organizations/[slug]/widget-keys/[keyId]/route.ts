@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/app/auth/actions";
+import { validateOrgAccess, hasOrgPermission } from "@/lib/context/org-context";
+import { prisma } from "@repo/database";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
+
+type RouteContext = {
+  params: Promise<{ slug: string; keyId: string }>;
+};
+
+/**
+ * DELETE /api/organizations/[slug]/widget-keys/[keyId]
+ * Revoke a widget API key (kept for reference, no longer resolves)
+ * Requires settings.manage permission
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug, keyId } = await context.params;
+
+    // Validate user has access
+    const hasAccess = await validateOrgAccess(user.id, slug);
+    if (!hasAccess) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Get org
+    const org = await prisma.organization.findUnique({ where: { slug } });
+    if (!org) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user can manage settings
+    const canManageSettings = await hasOrgPermission(user.id, slug, "settings.manage");
+    if (!canManageSettings) {
+      return NextResponse.json(
+        { error: "You do not have permission to revoke widget API keys" },
+        { status: 403 }
+      );
+    }
+
+    // Get key
+    const key = await prisma.widgetApiKey.findUnique({
+      where: { id: keyId },
+    });
+
+    if (!key || key.organizationId !== org.id) {
+      return NextResponse.json({ error: "Widget API key not found" }, { status: 404 });
+    }
+
+    if (!key.revokedAt) {
+      await prisma.widgetApiKey.update({
+        where: { id: keyId },
+        data: { revokedAt: new Date() },
+      });
+
+      await auditService.record(getAuditContext(request, org.id, user), {
+        action: "widget-key.revoke",
+        targetType: "widget-key",
+        targetId: keyId,
+        metadata: { name: key.name, keyPrefix: key.keyPrefix },
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking widget API key:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke widget API key" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/app/auth/actions";
+import { validateOrgAccess, hasOrgPermission } from "@/lib/context/org-context";
+import { prisma } from "@repo/database";
+import { generateWidgetApiKey } from "@repo/widget-api";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
+
+type RouteContext = {
+  params: Promise<{ slug: string }>;
+};
+
+// Never return the key hash to the client
+const widgetApiKeySelect = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  createdBy: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * GET /api/organizations/[slug]/widget-keys
+ * List widget API keys (active and revoked)
+ * Requires settings.manage permission
+ */
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug } = await context.params;
+
+    // Validate user has access
+    const hasAccess = await validateOrgAccess(user.id, slug);
+    if (!hasAccess) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Get org
+    const org = await prisma.organization.findUnique({ where: { slug } });
+    if (!org) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user can manage settings
+    const canManageSettings = await hasOrgPermission(user.id, slug, "settings.manage");
+    if (!canManageSettings) {
+      return NextResponse.json(
+        { error: "You do not have permission to view widget API keys" },
+        { status: 403 }
+      );
+    }
+
+    const keys = await prisma.widgetApiKey.findMany({
+      where: { organizationId: org.id },
+      select: widgetApiKeySelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ keys });
+  } catch (error) {
+    console.error("Error fetching widget API keys:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch widget API keys" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/organizations/[slug]/widget-keys
+ * Create a new widget API key
+ * The raw key is only returned in this response
+ * Requires settings.manage permission
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug } = await context.params;
+
+    // Validate user has access
+    const hasAccess = await validateOrgAccess(user.id, slug);
+    if (!hasAccess) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Get org
+    const org = await prisma.organization.findUnique({ where: { slug } });
+    if (!org) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user can manage settings
+    const canManageSettings = await hasOrgPermission(user.id, slug, "settings.manage");
+    if (!canManageSettings) {
+      return NextResponse.json(
+        { error: "You do not have permission to create widget API keys" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+
+    if (!name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+
+    const { apiKey, keyPrefix, keyHash } = generateWidgetApiKey();
+
+    const key = await prisma.widgetApiKey.create({
+      data: {
+        organizationId: org.id,
+        name,
+        keyPrefix,
+        keyHash,
+        createdBy: user.id,
+      },
+      select: widgetApiKeySelect,
+    });
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "widget-key.create",
+      targetType: "widget-key",
+      targetId: key.id,
+      metadata: { name: key.name, keyPrefix: key.keyPrefix },
+    });
+
+    return NextResponse.json({ key, apiKey }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating widget API key:", error);
+    return NextResponse.json(
+      { error: "Failed to create widget API key" },
+      { status: 500 }
+    );
+  }
+}
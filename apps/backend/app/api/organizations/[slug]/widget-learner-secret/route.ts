@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/app/auth/actions";
+import { validateOrgAccess, hasOrgPermission } from "@/lib/context/org-context";
+import { prisma } from "@repo/database";
+import { generateLearnerTokenSecret } from "@repo/widget-api";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
+
+type RouteContext = {
+  params: Promise<{ slug: string }>;
+};
+
+/**
+ * Load the org and check the user can manage its settings
+ * Returns an error response when the user can't manage the learner token secret
+ */
+async function getAdminOrg(slug: string) {
+  const user = await getUser();
+  if (!user) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  // Validate user has access
+  const hasAccess = await validateOrgAccess(user.id, slug);
+  if (!hasAccess) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  // Get org
+  const org = await prisma.organization.findUnique({ where: { slug } });
+  if (!org) {
+    return {
+      error: NextResponse.json({ error: "Organization not found" }, { status: 404 }),
+    };
+  }
+
+  // Check if user can manage settings
+  const canManageSettings = await hasOrgPermission(user.id, slug, "settings.manage");
+  if (!canManageSettings) {
+    return {
+      error: NextResponse.json(
+        { error: "You do not have permission to manage the learner token secret" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user, org };
+}
+
+/**
+ * POST /api/organizations/[slug]/widget-learner-secret
+ * Generate (or rotate) the secret host apps sign learner tokens with
+ * The raw secret is only returned in this response; tokens signed with the old secret stop working
+ * Requires settings.manage permission
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { slug } = await context.params;
+    const result = await getAdminOrg(slug);
+    if ("error" in result) {
+      return result.error;
+    }
+
+    const { user, org } = result;
+    const secret = generateLearnerTokenSecret();
+
+    const learnerSecret = await prisma.widgetLearnerSecret.upsert({
+      where: { organizationId: org.id },
+      create: {
+        organizationId: org.id,
+        secret,
+        createdBy: user.id,
+      },
+      update: {
+        secret,
+        createdBy: user.id,
+        createdAt: new Date(),
+      },
+    });
+
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "widget-learner-secret.generate",
+      targetType: "widget-learner-secret",
+      targetId: learnerSecret.id,
+    });
+
+    return NextResponse.json(
+      { secret, createdAt: learnerSecret.createdAt },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error generating learner token secret:", error);
+    return NextResponse.json(
+      { error: "Failed to generate learner token secret" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/organizations/[slug]/widget-learner-secret
+ * Remove the secret - widgets fall back to anonymous sessions
+ * Requires settings.manage permission
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { slug } = await context.params;
+    const result = await getAdminOrg(slug);
+    if ("error" in result) {
+      return result.error;
+    }
+
+    await prisma.widgetLearnerSecret.deleteMany({
+      where: { organizationId: result.org.id },
+    });
+
+    await auditService.record(getAuditContext(request, result.org.id, result.user), {
+      action: "widget-learner-secret.remove",
+      targetType: "widget-learner-secret",
+      targetId: null,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing learner token secret:", error);
+    return NextResponse.json(
+      { error: "Failed to remove learner token secret" },
+      { status: 500 }
+    );
+  }
+}
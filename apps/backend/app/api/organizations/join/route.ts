@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getUser } from "@/app/auth/actions";
 import { prisma } from "@repo/database";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
 
 /**
  * POST /api/organizations/join
@@ -24,18 +25,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if user already belongs to an organization
-    const existingMembership = await prisma.organizationMember.findUnique({
-      where: { profileId: user.id },
-    });
-
-    if (existingMembership) {
-      return NextResponse.json(
-        { error: "You already belong to an organization" },
-        { status: 409 }
-      );
-    }
-
     // Find organization by slug or join code
     const org = await prisma.organization.findFirst({
       where: slug
@@ -50,6 +39,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Users can belong to several organizations, just not join the same one twice
+    const existingMembership = await prisma.organizationMember.findUnique({
+      where: {
+        organizationId_profileId: {
+          organizationId: org.id,
+          profileId: user.id,
+        },
+      },
+    });
+
+    if (existingMembership) {
+      return NextResponse.json(
+        { error: "You are already a member of this organization" },
+        { status: 409 }
+      );
+    }
+
     // Check if user already has a pending request
     const existingRequest = await prisma.joinRequest.findUnique({
       where: {
@@ -77,13 +83,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Create join request
-    const joinRequest = await prisma.joinRequest.create({
-      data: {
+    // Create join request - an approved one from an earlier membership (the user has since left) is reopened
+    const joinRequest = await prisma.joinRequest.upsert({
+      where: {
+        organizationId_profileId: {
+          organizationId: org.id,
+          profileId: user.id,
+        },
+      },
+      create: {
         organizationId: org.id,
         profileId: user.id,
         status: "PENDING",
       },
+      update: {
+        status: "PENDING",
+        requestedAt: new Date(),
+        reviewedAt: null,
+        reviewedBy: null,
+      },
       include: {
         organization: {
           select: {
@@ -95,6 +113,12 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await auditService.record(getAuditContext(request, org.id, user), {
+      action: "join-request.create",
+      targetType: "join-request",
+      targetId: joinRequest.id,
+    });
+
     return NextResponse.json(
       {
         message: "Join request created successfully. Waiting for admin approval.",
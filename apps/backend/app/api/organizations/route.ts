@@ -2,11 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { profileService } from "@/lib/services/profile.service";
 import { prisma } from "@repo/database";
+import { auditService, getAuditContext } from "@/lib/services/core/audit.service";
 
 /**
  * POST /api/organizations
  * Create a new organization
- * User must not already belong to an organization
+ * The creator becomes its owner - users can belong to several organizations
  */
 export async function POST(request: NextRequest) {
   try {
@@ -42,10 +43,17 @@ export async function POST(request: NextRequest) {
     }
 
     console.log('[API] Creating organization for user:', user.id);
-    // Create organization (will throw if user already has one)
+    // Create organization with the user as owner
     const result = await profileService.createOrganization(user.id, name.trim());
     console.log('[API] Organization created:', result.organization.id);
 
+    await auditService.record(getAuditContext(request, result.organization.id, user), {
+      action: "organization.create",
+      targetType: "organization",
+      targetId: result.organization.id,
+      metadata: { name: result.organization.name },
+    });
+
     return NextResponse.json(
       {
         organization: result.organization,
@@ -57,10 +65,6 @@ export async function POST(request: NextRequest) {
     console.error("[API] Error creating organization:", error);
     console.error("[API] Error stack:", error.stack);
 
-    if (error.message === "User already belongs to an organization") {
-      return NextResponse.json({ error: error.message }, { status: 409 });
-    }
-
     return NextResponse.json(
       { error: "Failed to create organization", details: error.message },
       { status: 500 }
@@ -3,6 +3,7 @@ import { createClient } from '@/lib/supabase/server';
 import { feedbackService } from '@/lib/services/support/feedback.service';
 import { z } from 'zod';
 import { prisma } from '@repo/database';
+import { extractOrgSlugFromPath } from '@/lib/context/org-context';
 
 // Validation schema
 const feedbackSchema = z.object({
@@ -43,10 +44,15 @@ export async function POST(request: NextRequest) {
       if (user) {
         profileId = user.id;
 
-        // Get user's organization
-        const membership = await prisma.organizationMember.findUnique({
-          where: { profileId: user.id },
+        // Users can be in several orgs - prefer the org of the page the feedback was sent from
+        const pageOrgSlug = pageUrl ? extractOrgSlugFromPath(new URL(pageUrl, request.url).pathname) : null;
+        const membership = await prisma.organizationMember.findFirst({
+          where: {
+            profileId: user.id,
+            ...(pageOrgSlug ? { organization: { slug: pageOrgSlug } } : {}),
+          },
           select: { organizationId: true },
+          orderBy: { joinedAt: 'asc' },
         });
 
         if (membership) {
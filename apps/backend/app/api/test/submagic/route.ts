@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/config/database';
 import { submagicService } from '@/lib/services/external/submagic.service';
+import { captionSettingsService } from '@/lib/services/core/caption-settings.service';
 import { z } from 'zod';
 
 /**
@@ -15,7 +16,7 @@ const TestSubmagicSchema = z.object({
   videoUrl: z.string().url(),
   organizationId: z.string().uuid(),
   title: z.string().optional().default('Test Video'),
-  userThemeId: z.string().optional().default('9a3c5f9f-a496-41d0-a104-b1e6dad84d89'),
+  userThemeId: z.string().optional(), // Defaults to the caption style / organization theme
   language: z.string().optional().default('ENGLISH'),
   enableMagicZooms: z.boolean().optional().default(true),
   enableMagicBrolls: z.boolean().optional().default(true),
@@ -103,11 +104,17 @@ export async function POST(request: NextRequest) {
 
     console.log(`✅ StandaloneVideo created: ${standaloneVideo.id}`);
 
+    const submagicOptions = await captionSettingsService.getSubmagicOptions(
+      organizationId,
+      userThemeId || standaloneVideo.captionStyle?.submagicTemplate
+    );
+
     // Log the caption template configuration
     console.log(`\n📝 CAPTION TEMPLATE CONFIG (Test):`);
     console.log(`   - Caption Style ID: ${captionStyleId || 'none'}`);
     console.log(`   - Caption Style Name: ${standaloneVideo.captionStyle?.name || 'none'}`);
-    console.log(`   - User Theme ID: ${userThemeId}`);
+    console.log(`   - User Theme ID: ${submagicOptions.userThemeId}`);
+    console.log(`   - Dictionary: ${submagicOptions.dictionary.length} words`);
     console.log(`   - Language: ${language}`);
     console.log(`   - Enable Captions: true`);
     console.log(`   - Magic Zooms: ${enableMagicZooms}`);
@@ -127,7 +134,7 @@ export async function POST(request: NextRequest) {
       title,
       language,
       {
-        userThemeId,
+        ...submagicOptions,
         enableCaptions: true,
         magicZooms: enableMagicZooms,
         magicBrolls: enableMagicBrolls,
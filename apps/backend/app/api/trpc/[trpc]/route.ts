@@ -1,12 +1,13 @@
 import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
-import { widgetRouter } from '@repo/widget-api';
+import { widgetRouter, createWidgetContextFromRequest } from '@repo/widget-api';
 
 const handler = (req: Request) =>
   fetchRequestHandler({
     endpoint: '/api/trpc',
     req,
     router: widgetRouter,
-    createContext: () => ({}),
+    // Resolve the widget API key (header, query param or cookie) to its organization
+    createContext: () => createWidgetContextFromRequest(req),
   });
 
 export { handler as GET, handler as POST };
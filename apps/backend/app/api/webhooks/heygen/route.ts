@@ -4,11 +4,14 @@ import { config } from '@/lib/config/constants';
 import { videoWebhookService as videoService } from '@/lib/services/media/video-webhook.service';
 import { queueService } from '@/lib/services/core/queue.service';
 import { submagicService } from '@/lib/services/external/submagic.service';
+import { captionSettingsService } from '@/lib/services/core/caption-settings.service';
 import { prisma } from '@/lib/config/database';
 
 /**
  * Handle successful video generation for VideoOutput (submission-based)
- * Uploads video to Submagic for AI editing (captions, zooms, B-rolls)
+ * Uploads video to Submagic for AI editing (captions, zooms, B-rolls).
+ * Caption styles using the local renderer, and videos Submagic rejects,
+ * go straight to post-processing to have captions burned in with ffmpeg.
  */
 async function handleVideoOutputSuccess(video_id: string, url: string): Promise<boolean> {
   // Find the VideoOutput record with this HeyGen video ID
@@ -19,7 +22,9 @@ async function handleVideoOutputSuccess(video_id: string, url: string): Promise<
       status: 'PROCESSING',
     },
     include: {
-      submission: true, // Include submission to get language
+      // Include submission to get language, and the article for the organization's caption settings
+      submission: { include: { article: { select: { organizationId: true } } } },
+      captionStyle: { select: { renderer: true } },
     },
   });
 
@@ -32,33 +37,71 @@ async function handleVideoOutputSuccess(video_id: string, url: string): Promise<
   console.log(`   - Submission ID: ${videoOutput.submissionId}`);
   console.log(`   - Language: ${videoOutput.submission.language}`);
 
+  // Keep the HeyGen render so captions can still be burned in if Submagic fails later
+  await prisma.videoOutput.update({
+    where: { id: videoOutput.id },
+    data: { sourceVideoUrl: url },
+  });
+
+  if (videoOutput.captionStyle?.renderer === 'local') {
+    console.log(`\n🔤 Caption style uses local captions - skipping Submagic`);
+    await queueService.addVideoOutputPostProcessingJob({
+      videoOutputId: videoOutput.id,
+      editedVideoUrl: url,
+      burnCaptions: true,
+    });
+    console.log(`✅ Post-processing job enqueued for local captions`);
+    return true;
+  }
+
   console.log(`\n📤 Uploading video to Submagic for AI editing...`);
 
   // Construct webhook URL for Submagic to call when editing completes
   const webhookUrl = `${process.env.SUBMAGIC_WEBHOOK_URL}/api/webhooks/submagic`;
   console.log(`🔔 Submagic webhook URL: ${webhookUrl}`);
 
+  // Caption style's template, falling back to the organization theme
+  const { userThemeId, dictionary } = await captionSettingsService.getSubmagicOptions(
+    videoOutput.submission.article.organizationId,
+    videoOutput.submagicTemplate
+  );
+
   // Log caption template configuration
   console.log(`📝 CAPTION TEMPLATE CONFIG (VideoOutput):`);
-  console.log(`   - User Theme ID: '9a3c5f9f-a496-41d0-a104-b1e6dad84d89' (default)`);
+  console.log(`   - Raw submagicTemplate value: ${videoOutput.submagicTemplate || 'null'}`);
+  console.log(`   - Resolved User Theme ID: ${userThemeId}`);
+  console.log(`   - Dictionary: ${dictionary.length} words`);
   console.log(`   - Enable Captions: true`);
   console.log(`   - Magic Zooms: ${videoOutput.enableMagicZooms}`);
   console.log(`   - Magic B-Rolls: ${videoOutput.enableMagicBrolls} (${videoOutput.magicBrollsPercentage ?? 40}%)`);
 
   // Upload to Submagic for AI editing (captions, zooms, B-rolls)
-  const { projectId } = await submagicService.uploadVideoForEditing(
-    url,
-    webhookUrl,
-    videoOutput.title || `Video ${video_id}`,
-    videoOutput.submission.language,
-    {
-      userThemeId: '9a3c5f9f-a496-41d0-a104-b1e6dad84d89', // Default theme
-      enableCaptions: true, // Always enabled
-      magicZooms: videoOutput.enableMagicZooms,
-      magicBrolls: videoOutput.enableMagicBrolls,
-      magicBrollsPercentage: videoOutput.magicBrollsPercentage ?? 40,
-    }
-  );
+  let projectId: string;
+  try {
+    ({ projectId } = await submagicService.uploadVideoForEditing(
+      url,
+      webhookUrl,
+      videoOutput.title || `Video ${video_id}`,
+      videoOutput.submission.language,
+      {
+        userThemeId,
+        dictionary,
+        enableCaptions: true, // Always enabled
+        magicZooms: videoOutput.enableMagicZooms,
+        magicBrolls: videoOutput.enableMagicBrolls,
+        magicBrollsPercentage: videoOutput.magicBrollsPercentage ?? 40,
+      }
+    ));
+  } catch (error) {
+    console.error(`❌ Submagic upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.log(`⚠️  FALLBACK: Burning captions in locally instead`);
+    await queueService.addVideoOutputPostProcessingJob({
+      videoOutputId: videoOutput.id,
+      editedVideoUrl: url,
+      burnCaptions: true,
+    });
+    return true;
+  }
 
   console.log(`✅ Submagic project created: ${projectId}`);
 
@@ -76,7 +119,9 @@ async function handleVideoOutputSuccess(video_id: string, url: string): Promise<
 
 /**
  * Handle successful video generation for StandaloneVideo
- * Uploads video to Submagic for AI editing, then post-processing adds bumpers/music
+ * Uploads video to Submagic for AI editing, then post-processing adds bumpers/music.
+ * Local-renderer caption styles and Submagic upload failures skip straight to
+ * post-processing with local caption burn-in.
  */
 async function handleStandaloneVideoSuccess(video_id: string, url: string): Promise<boolean> {
   // Find the StandaloneVideo record with this HeyGen video ID
@@ -101,39 +146,75 @@ async function handleStandaloneVideoSuccess(video_id: string, url: string): Prom
   console.log(`   - Magic Zooms: ${standaloneVideo.enableMagicZooms}`);
   console.log(`   - Magic B-Rolls: ${standaloneVideo.enableMagicBrolls} (${standaloneVideo.magicBrollsPercentage}%)`);
 
+  // Keep the HeyGen render so captions can still be burned in if Submagic fails later
+  await prisma.standaloneVideo.update({
+    where: { id: standaloneVideo.id },
+    data: { sourceVideoUrl: url },
+  });
+
+  if (standaloneVideo.captionStyle?.renderer === 'local') {
+    console.log(`\n🔤 Caption style uses local captions - skipping Submagic`);
+    await queueService.addStandaloneVideoPostProcessingJob({
+      standaloneVideoId: standaloneVideo.id,
+      organizationId: standaloneVideo.organizationId,
+      editedVideoUrl: url,
+      burnCaptions: true,
+    });
+    console.log(`✅ Post-processing job enqueued for local captions`);
+    return true;
+  }
+
   console.log(`\n📤 Uploading video to Submagic for AI editing...`);
 
   // Construct webhook URL for Submagic to call when editing completes
   const webhookUrl = `${process.env.SUBMAGIC_WEBHOOK_URL}/api/webhooks/submagic`;
   console.log(`🔔 Submagic webhook URL: ${webhookUrl}`);
 
-  // Get the userThemeId from caption style, or use default
-  const userThemeId = standaloneVideo.captionStyle?.submagicTemplate || '9a3c5f9f-a496-41d0-a104-b1e6dad84d89';
+  // Get the userThemeId from caption style, falling back to the organization theme
+  const { userThemeId, dictionary } = await captionSettingsService.getSubmagicOptions(
+    standaloneVideo.organizationId,
+    standaloneVideo.captionStyle?.submagicTemplate
+  );
 
   // Log caption template configuration
   console.log(`📝 CAPTION TEMPLATE CONFIG (StandaloneVideo):`);
   console.log(`   - Caption Style ID: ${standaloneVideo.captionStyleId || 'none'}`);
   console.log(`   - Caption Style Name: ${standaloneVideo.captionStyle?.name || 'none'}`);
   console.log(`   - Raw submagicTemplate value: ${standaloneVideo.captionStyle?.submagicTemplate || 'null'}`);
-  console.log(`   - Resolved User Theme ID: ${userThemeId} (fallback to default if null)`);
+  console.log(`   - Resolved User Theme ID: ${userThemeId} (fallback to organization theme if null)`);
+  console.log(`   - Dictionary: ${dictionary.length} words`);
   console.log(`   - Enable Captions: true`);
   console.log(`   - Magic Zooms: ${standaloneVideo.enableMagicZooms}`);
   console.log(`   - Magic B-Rolls: ${standaloneVideo.enableMagicBrolls} (${standaloneVideo.magicBrollsPercentage}%)`);
 
   // Upload to Submagic for AI editing (captions, zooms, B-rolls)
-  const { projectId } = await submagicService.uploadVideoForEditing(
-    url,
-    webhookUrl,
-    standaloneVideo.title || `Video ${video_id}`,
-    standaloneVideo.language || 'ENGLISH', // Use video's language
-    {
-      userThemeId,
-      enableCaptions: true, // Always enabled
-      magicZooms: standaloneVideo.enableMagicZooms,
-      magicBrolls: standaloneVideo.enableMagicBrolls,
-      magicBrollsPercentage: standaloneVideo.magicBrollsPercentage,
-    }
-  );
+  let projectId: string;
+  try {
+    ({ projectId } = await submagicService.uploadVideoForEditing(
+      url,
+      webhookUrl,
+      standaloneVideo.title || `Video ${video_id}`,
+      standaloneVideo.language || 'ENGLISH', // Use video's language
+      {
+        userThemeId,
+        dictionary,
+        enableCaptions: true, // Always enabled
+        magicZooms: standaloneVideo.enableMagicZooms,
+        magicBrolls: standaloneVideo.enableMagicBrolls,
+        magicBrollsPercentage: standaloneVideo.magicBrollsPercentage,
+      }
+    ));
+  } catch (error) {
+    console.error(`❌ Submagic upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.log(`⚠️  FALLBACK: Burning captions in locally instead`);
+    await queueService.addStandaloneVideoPostProcessingJob({
+      standaloneVideoId: standaloneVideo.id,
+      organizationId: standaloneVideo.organizationId,
+      editedVideoUrl: url,
+      burnCaptions: true,
+    });
+    return true;
+  }
 
   console.log(`✅ Submagic project created: ${projectId}`);
 
@@ -203,7 +284,7 @@ async function handleVideoSuccess(eventData: {
     console.log('==========================================\n');
   } catch (error) {
     console.error('==========================================');
-    console.error('❌ SUBMAGIC UPLOAD FAILED');
+    console.error('❌ HEYGEN SUCCESS HANDLING FAILED');
     console.error(`Video ID: ${video_id}`);
     console.error(`Timestamp: ${new Date().toISOString()}`);
     console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
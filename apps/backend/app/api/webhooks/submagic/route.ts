@@ -17,6 +17,8 @@ async function handleVideoOutputEditingSuccess(projectId: string, videoUrl: stri
       backgroundMusic: true,
       startBumper: true,
       endBumper: true,
+      captionStyle: true,
+      renditions: true,
     },
   });
 
@@ -44,15 +46,17 @@ async function handleVideoOutputEditingSuccess(projectId: string, videoUrl: stri
     return true; // We found it but can't process it
   }
 
-  // Check if post-processing is needed (bumpers or music)
+  // Check if post-processing is needed (bumpers, music, logo watermark or other formats) - same check as the worker
   const needsPostProcessing =
     videoOutput.backgroundMusicId ||
     videoOutput.startBumperId ||
-    videoOutput.endBumperId;
+    videoOutput.endBumperId ||
+    videoOutput.captionStyle?.logoUrl ||
+    videoOutput.renditions.length > 0;
 
   if (needsPostProcessing) {
-    console.log(`\n📋 Enqueueing post-processing job (bumpers/music detected)...`);
-    console.log(`   Will add: ${videoOutput.startBumper ? 'start bumper, ' : ''}${videoOutput.endBumper ? 'end bumper, ' : ''}${videoOutput.backgroundMusic ? 'background music' : ''}`);
+    console.log(`\n📋 Enqueueing post-processing job (bumpers/music/formats detected)...`);
+    console.log(`   Will add: ${videoOutput.startBumper ? 'start bumper, ' : ''}${videoOutput.endBumper ? 'end bumper, ' : ''}${videoOutput.captionStyle?.logoUrl ? 'logo watermark, ' : ''}${videoOutput.backgroundMusic ? 'background music, ' : ''}${videoOutput.renditions.length > 0 ? 'other formats' : ''}`);
     console.log(`   - After post-processing: video completion job will be queued automatically`);
 
     // Queue post-processing job (bumpers + music)
@@ -122,13 +126,14 @@ async function handleStandaloneVideoEditingSuccess(projectId: string, videoUrl:
   const hasBumpersOrMusic =
     standaloneVideo.startBumper ||
     standaloneVideo.endBumper ||
-    standaloneVideo.backgroundMusic;
+    standaloneVideo.backgroundMusic ||
+    standaloneVideo.captionStyle?.logoUrl;
 
   console.log(`\n📋 Enqueueing post-processing job...`);
   if (hasBumpersOrMusic) {
-    console.log(`   Will add: ${standaloneVideo.startBumper ? 'start bumper, ' : ''}${standaloneVideo.endBumper ? 'end bumper, ' : ''}${standaloneVideo.backgroundMusic ? 'background music' : ''}`);
+    console.log(`   Will add: ${standaloneVideo.startBumper ? 'start bumper, ' : ''}${standaloneVideo.endBumper ? 'end bumper, ' : ''}${standaloneVideo.captionStyle?.logoUrl ? 'logo watermark, ' : ''}${standaloneVideo.backgroundMusic ? 'background music' : ''}`);
   } else {
-    console.log(`   No bumpers/music - will upload video directly`);
+    console.log(`   No bumpers/music/logo - will upload video directly`);
   }
 
   // Queue post-processing job (handles upload to S3 in worker context)
@@ -206,6 +211,7 @@ async function handleEditingSuccess(eventData: {
 
 /**
  * Handle failed video editing from Submagic
+ * Videos with a stored HeyGen render get local captions instead of failing
  */
 async function handleEditingFailure(eventData: {
   id: string; // Submagic project ID
@@ -235,6 +241,19 @@ async function handleEditingFailure(eventData: {
     console.log(`   - Title: "${videoOutput.title || 'Untitled'}"`);
     console.log(`   - Submission ID: ${videoOutput.submissionId}`);
 
+    // Fall back to burning captions in locally on the original HeyGen render
+    if (videoOutput.sourceVideoUrl) {
+      console.log(`\n⚠️  FALLBACK: Burning captions in locally from the HeyGen render`);
+      await queueService.addVideoOutputPostProcessingJob({
+        videoOutputId: videoOutput.id,
+        editedVideoUrl: videoOutput.sourceVideoUrl,
+        burnCaptions: true,
+      });
+      console.log(`✅ Post-processing job enqueued`);
+      console.error('==========================================\n');
+      return;
+    }
+
     console.log(`\n💾 Marking video as FAILED in database...`);
 
     // Update VideoOutput to FAILED status
@@ -270,6 +289,19 @@ async function handleEditingFailure(eventData: {
     console.log(`✅ Found StandaloneVideo ${standaloneVideo.id}`);
     console.log(`   - Title: "${standaloneVideo.title || 'Untitled'}"`);
 
+    if (standaloneVideo.sourceVideoUrl) {
+      console.log(`\n⚠️  FALLBACK: Burning captions in locally from the HeyGen render`);
+      await queueService.addStandaloneVideoPostProcessingJob({
+        standaloneVideoId: standaloneVideo.id,
+        organizationId: standaloneVideo.organizationId,
+        editedVideoUrl: standaloneVideo.sourceVideoUrl,
+        burnCaptions: true,
+      });
+      console.log(`✅ Post-processing job enqueued`);
+      console.error('==========================================\n');
+      return;
+    }
+
     console.log(`\n💾 Marking video as FAILED in database...`);
 
     // Update StandaloneVideo to FAILED status
@@ -2,7 +2,9 @@
 
 import { profileService } from "@/lib/services/profile.service";
 import { createClient } from "@/lib/supabase/server";
+import { CURRENT_ORG_COOKIE } from "@/lib/context/org-context";
 import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
 
 export async function signOut() {
@@ -36,18 +38,21 @@ export type UserAndProfile = Awaited<ReturnType<typeof getUserAndProfile>>;
 
 /**
  * Get user with profile and organization info
+ * `organization` is the one the user last worked in, `organizations` all of their memberships
  */
 export async function getUserWithOrg() {
   const user = await getUser();
 
   if (!user) {
-    return { user: null, profile: null, organization: null };
+    return { user: null, profile: null, organization: null, organizations: [] };
   }
 
   const profile = await profileService.upsertProfile(user);
-  const organization = await profileService.getUserOrganization(user.id);
+  const organizations = await profileService.getUserOrganizations(user.id);
+  const currentSlug = (await cookies()).get(CURRENT_ORG_COOKIE)?.value;
+  const organization = organizations.find((org) => org.slug === currentSlug) ?? organizations[0] ?? null;
 
-  return { user, profile, organization };
+  return { user, profile, organization, organizations };
 }
 
 export type UserWithOrg = Awaited<ReturnType<typeof getUserWithOrg>>;
@@ -1,7 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { profileService } from '@/lib/services/profile.service'
-import { buildOrgUrl } from '@/lib/context/org-context'
+import { buildOrgUrl, CURRENT_ORG_COOKIE } from '@/lib/context/org-context'
 import { cookies } from 'next/headers'
 
 // Helper to decode JWT payload (for debugging)
@@ -78,7 +78,10 @@ export async function GET(request: Request) {
       await profileService.upsertProfile(data.user)
 
       // Check if user has an organization
-      const userOrg = await profileService.getUserOrganization(data.user.id)
+      const userOrg = await profileService.getUserOrganization(
+        data.user.id,
+        cookieStore.get(CURRENT_ORG_COOKIE)?.value
+      )
 
       // Determine redirect path based on org membership
       if (!userOrg) {
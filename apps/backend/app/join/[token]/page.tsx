@@ -25,16 +25,7 @@ export default function JoinTokenPage() {
           return;
         }
 
-        const userData = await userResponse.json();
-
-        if (userData.organization) {
-          // User already belongs to an organization
-          setError("You already belong to an organization");
-          setLoading(false);
-          return;
-        }
-
-        // Auto-redeem the token
+        // Auto-redeem the token (users can join several organizations - the API rejects one they're already in)
         setRedeeming(true);
         const response = await fetch("/api/join/token", {
           method: "POST",
@@ -6,6 +6,7 @@ import { ToastProvider } from "@/components/ui/ToastContainer";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { PlatformModeProvider } from "@/lib/context/platform-mode-context";
 import { getUserAndProfile } from "@/app/auth/actions";
+import { profileService } from "@/lib/services/profile.service";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -34,13 +35,26 @@ export default async function RootLayout({
       }
     : null;
 
+  // Memberships for the org switcher, with the user's role in each
+  const organizations = result.profile
+    ? (await profileService.getUserOrganizations(result.profile.id)).map((org) => ({
+        id: org.id,
+        name: org.name,
+        slug: org.slug,
+        role: org.role,
+        customRoleName: org.customRole?.name ?? null,
+      }))
+    : [];
+
   return (
     <html lang="en">
       <body className={`${inter.variable} ${inter.className}`}>
         <QueryProvider>
           <ToastProvider>
             <PlatformModeProvider>
-              <DashboardLayout user={user}>{children}</DashboardLayout>
+              <DashboardLayout user={user} organizations={organizations}>
+                {children}
+              </DashboardLayout>
             </PlatformModeProvider>
           </ToastProvider>
         </QueryProvider>
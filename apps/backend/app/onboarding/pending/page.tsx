@@ -16,23 +16,21 @@ export default function PendingApprovalPage() {
         if (response.ok) {
           const data = await response.json();
 
-          if (data.organization) {
-            // User has been approved! Redirect to their org
-            router.push(`/org/${data.organization.slug}/dashboard`);
-          } else {
-            // Still pending, check their requests
-            const requestsResponse = await fetch("/api/user/join-requests");
-            if (requestsResponse.ok) {
-              const requestsData = await requestsResponse.json();
-              if (requestsData.requests && requestsData.requests.length > 0) {
-                const pendingRequest = requestsData.requests.find(
-                  (r: any) => r.status === "PENDING"
-                );
-                if (pendingRequest) {
-                  setOrganization(pendingRequest.organization);
-                }
-              }
-            }
+          const requestsResponse = await fetch("/api/user/join-requests");
+          const requests = requestsResponse.ok ? (await requestsResponse.json()).requests || [] : [];
+          const pendingRequest = requests.find((r: any) => r.status === "PENDING");
+
+          if (pendingRequest) {
+            // Still pending - users who already belong to other orgs wait here too
+            setOrganization(pendingRequest.organization);
+          } else if (data.organization) {
+            // User has been approved! Redirect to the org they just joined (requests are newest first)
+            const approvedRequest = requests.find(
+              (r: any) =>
+                r.status === "APPROVED" &&
+                data.organizations.some((org: any) => org.id === r.organization.id)
+            );
+            router.push(`/org/${(approvedRequest?.organization ?? data.organization).slug}/dashboard`);
           }
         }
       } catch (error) {
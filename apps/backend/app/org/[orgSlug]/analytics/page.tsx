@@ -0,0 +1,159 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Loader2, Eye, CheckCircle2, PlayCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { useContentAnalytics } from '@/lib/api/hooks';
+import { FilterDropdown } from '@/components/ui/FilterDropdown';
+import type { AnalyticsContentType, ContentAnalytics } from '@repo/api-client';
+
+const RANGE_OPTIONS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+const CONTENT_TYPE_LABELS: Record<AnalyticsContentType, string> = {
+  VIDEO: 'Video',
+  QUIZ: 'Quiz',
+  INTERACTIVE_PODCAST: 'Interactive Podcast',
+};
+
+function formatPercent(value: number | null) {
+  return value === null ? '—' : `${value}%`;
+}
+
+function StatCard({ label, value, icon: Icon }: { label: string; value: string; icon: typeof Eye }) {
+  return (
+    <div className="card p-6">
+      <div className="flex items-center gap-3 mb-2">
+        <Icon className="w-5 h-5 text-blue-accent" />
+        <p className="text-sm text-text-secondary">{label}</p>
+      </div>
+      <p className="text-3xl font-bold text-text-primary">{value}</p>
+    </div>
+  );
+}
+
+function QuestionBreakdown({ content }: { content: ContentAnalytics }) {
+  if (content.items.length === 0) {
+    return <p className="text-sm text-text-muted">No questions in this content</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {content.items.map((item, index) => (
+        <div key={item.itemId}>
+          <div className="flex items-start justify-between gap-4 mb-1">
+            <p className="text-sm text-text-primary">
+              {index + 1}. {item.label}
+            </p>
+            <p className="text-sm text-text-secondary whitespace-nowrap">
+              {formatPercent(item.correctRate)} correct · {item.answers} answer{item.answers !== 1 ? 's' : ''}
+            </p>
+          </div>
+          <div className="h-2 bg-surface-secondary rounded-full overflow-hidden">
+            <div className="h-full bg-green-500" style={{ width: `${item.correctRate ?? 0}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+
+  const [range, setRange] = useState('30');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: analytics, isLoading, error } = useContentAnalytics(orgSlug, parseInt(range));
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary mb-2">Analytics</h1>
+          <p className="text-text-secondary">How learners engage with your content in the widget · Updated nightly</p>
+        </div>
+
+        <FilterDropdown singleSelect label="Period" options={RANGE_OPTIONS} value={range} onChange={setRange} />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <Loader2 className="w-6 h-6 text-blue-accent animate-spin" />
+        </div>
+      ) : error || !analytics ? (
+        <div className="card p-12 text-center">
+          <p className="text-text-muted">Failed to load analytics</p>
+        </div>
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+            <StatCard label="Views" value={analytics.totals.views.toLocaleString()} icon={Eye} />
+            <StatCard label="Completion Rate" value={formatPercent(analytics.totals.completionRate)} icon={CheckCircle2} />
+            <StatCard label="Avg. Watch %" value={formatPercent(analytics.totals.averageWatchPercent)} icon={PlayCircle} />
+          </div>
+
+          {/* Per-content table */}
+          {analytics.content.length === 0 ? (
+            <div className="card p-12 text-center">
+              <p className="text-text-muted">No learner activity in this period yet</p>
+            </div>
+          ) : (
+            <div className="card overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-text-muted border-b border-white-10">
+                    <th className="p-4 font-medium">Content</th>
+                    <th className="p-4 font-medium">Type</th>
+                    <th className="p-4 font-medium text-right">Views</th>
+                    <th className="p-4 font-medium text-right">Completion</th>
+                    <th className="p-4 font-medium text-right">Avg. Watch</th>
+                    <th className="p-4 font-medium text-right">Questions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.content.map((content) => {
+                    const isExpanded = expandedId === content.contentId;
+                    return (
+                      <Fragment key={content.contentId}>
+                        <tr
+                          className="border-b border-white-10 cursor-pointer hover:bg-surface-secondary"
+                          onClick={() => setExpandedId(isExpanded ? null : content.contentId)}
+                        >
+                          <td className="p-4 text-text-primary">
+                            <span className="inline-flex items-center gap-2">
+                              {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                              {content.title}
+                            </span>
+                          </td>
+                          <td className="p-4 text-text-secondary">{CONTENT_TYPE_LABELS[content.contentType]}</td>
+                          <td className="p-4 text-right text-text-primary">{content.views.toLocaleString()}</td>
+                          <td className="p-4 text-right text-text-primary">{formatPercent(content.completionRate)}</td>
+                          <td className="p-4 text-right text-text-primary">{formatPercent(content.averageWatchPercent)}</td>
+                          <td className="p-4 text-right text-text-secondary">{content.items.length}</td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="border-b border-white-10">
+                            <td colSpan={6} className="p-4 bg-surface-secondary/50">
+                              <QuestionBreakdown content={content} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
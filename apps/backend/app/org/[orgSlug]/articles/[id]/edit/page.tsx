@@ -2,10 +2,12 @@
 
 import { useParams } from 'next/navigation';
 import { Loader2 } from 'lucide-react';
-import { useArticle, useApproveArticle, useUnapproveArticle, useRegenerateArticleThumbnail, useUploadArticleThumbnail } from '@/lib/api/hooks';
+import { useArticle, useApproveArticle, useUnapproveArticle, useRegenerateArticleThumbnail, useUploadArticleThumbnail, useHasPermission } from '@/lib/api/hooks';
 import { useToast } from '@/components/ui/ToastContainer';
 import { MediaEditLayout } from '@/components/layout/MediaEditLayout';
+import { PublishScheduleButton } from '@/components/ui/PublishScheduleButton';
 import { ThumbnailManager } from '@/components/media/ThumbnailManager';
+import { ArticleContentPreview } from '@/components/articles/ArticleContentPreview';
 
 export default function OrgArticleEditPage() {
   const params = useParams();
@@ -19,6 +21,7 @@ export default function OrgArticleEditPage() {
   // Mutations
   const approveArticle = useApproveArticle(orgSlug);
   const unapproveArticle = useUnapproveArticle(orgSlug);
+  const canApprove = useHasPermission(orgSlug, 'content.approve');
   const regenerateArticleThumbnail = useRegenerateArticleThumbnail(orgSlug);
   const uploadArticleThumbnail = useUploadArticleThumbnail(orgSlug);
 
@@ -66,15 +69,23 @@ export default function OrgArticleEditPage() {
       backLabel="Back to Articles"
       isApproved={article.isApproved}
       approvedAt={article.approvedAt}
+      scheduleControl={
+        <PublishScheduleButton
+          orgSlug={orgSlug}
+          contentType="article"
+          contentId={articleId}
+          publishAt={article.publishAt}
+          expiresAt={article.expiresAt}
+        />
+      }
+      showApprovalButton={canApprove}
       onApprove={handleApprove}
       onUnapprove={handleUnapprove}
       isApproving={approveArticle.isPending || unapproveArticle.isPending}
       previewContent={
         <div className="card p-6">
           <h2 className="text-2xl font-bold text-text-primary mb-4">{article.title}</h2>
-          <div className="prose prose-invert max-w-none">
-            <p className="text-text-secondary whitespace-pre-wrap">{article.content}</p>
-          </div>
+          <ArticleContentPreview article={article} />
           <div className="mt-6 pt-6 border-t border-white-10">
             <div className="flex flex-wrap gap-4 text-sm text-text-muted">
               <div>
@@ -111,9 +122,7 @@ export default function OrgArticleEditPage() {
 
             <div>
               <label className="block text-sm font-medium text-text-secondary mb-2">Content</label>
-              <div className="text-text-primary whitespace-pre-wrap max-h-96 overflow-y-auto p-4 bg-white-5 rounded-lg">
-                {article.content}
-              </div>
+              <ArticleContentPreview article={article} className="max-h-96 overflow-y-auto p-4 bg-white-5 rounded-lg" />
             </div>
 
             <div className="grid grid-cols-2 gap-4 pt-4 border-t border-white-10">
@@ -1,8 +1,9 @@
 'use client';
 
 import { useParams, useRouter } from 'next/navigation';
-import { ArrowLeft, Sparkles } from 'lucide-react';
+import { ArrowLeft, Languages, Sparkles } from 'lucide-react';
 import { useArticle } from '@/lib/api/hooks';
+import { ArticleContentPreview } from '@/components/articles/ArticleContentPreview';
 import Link from 'next/link';
 
 export default function OrgArticleDetailPage() {
@@ -54,9 +55,7 @@ export default function OrgArticleDetailPage() {
         {/* Article Content */}
         <div className="card p-6">
           <h2 className="text-xl font-semibold text-text-primary mb-4">Article Content</h2>
-          <div className="prose prose-invert max-w-none">
-            <p className="text-text-secondary whitespace-pre-wrap">{article.content}</p>
-          </div>
+          <ArticleContentPreview article={article} />
         </div>
 
         {/* Generate Media */}
@@ -72,6 +71,13 @@ export default function OrgArticleDetailPage() {
             <Sparkles className="w-5 h-5" />
             Generate Media
           </Link>
+          <Link
+            href={`/org/${orgSlug}/articles/${article.id}/review/video`}
+            className="btn btn-secondary inline-flex items-center gap-2 w-full justify-center mt-3"
+          >
+            <Languages className="w-5 h-5" />
+            Review All Languages
+          </Link>
         </div>
       </div>
     </div>
@@ -0,0 +1,369 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import axios from 'axios';
+import { ArrowLeft, BookOpen, CheckCircle2, Languages, Loader2, Pencil, RotateCcw } from 'lucide-react';
+import { useBackTranslations, useContentFamily, useFamilyTransition, useHasPermission } from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+import { REVIEW_STATUS_STYLES } from '@/components/review/ReviewStatusControl';
+import type {
+  ContentFamilyMember,
+  FamilyReviewAction,
+  FamilyTransitionResult,
+  ReviewableOutputType,
+} from '@repo/api-client';
+
+const OUTPUT_TYPES: Array<{ type: ReviewableOutputType; label: string; editPath: string }> = [
+  { type: 'video', label: 'Video', editPath: 'videos' },
+  { type: 'audio', label: 'Audio', editPath: 'audio' },
+  { type: 'podcast', label: 'Podcast', editPath: 'podcasts' },
+  { type: 'interactive-podcast', label: 'Interactive Podcast', editPath: 'interactive-podcasts' },
+  { type: 'quiz', label: 'Quiz', editPath: 'quizzes' },
+];
+
+const errorMessage = (error: unknown) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || error.message : 'Please try again';
+
+interface ColumnHeaderProps {
+  orgSlug: string;
+  editPath: string;
+  member: ContentFamilyMember;
+}
+
+function ColumnHeader({ orgSlug, editPath, member }: ColumnHeaderProps) {
+  const statusStyle = REVIEW_STATUS_STYLES[member.status];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-text-primary">{member.languageName}</span>
+        <Link
+          href={`/org/${orgSlug}/submissions/${member.submissionId}/${editPath}/${member.outputId}/edit`}
+          className="p-1 text-text-muted hover:text-text-primary"
+          aria-label={`Edit ${member.languageName}`}
+        >
+          <Pencil className="w-4 h-4" />
+        </Link>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`inline-flex items-center px-2 py-0.5 border rounded-full text-xs font-semibold ${statusStyle.className}`}>
+          {statusStyle.label}
+        </span>
+        {member.glossaryIssues.length > 0 && (
+          <span
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-gold/20 text-gold"
+            title={member.glossaryIssues.map((issue) => `${issue.term} → ${issue.expected}`).join('\n')}
+          >
+            <BookOpen className="w-3 h-3" />
+            {member.glossaryIssues.length} glossary
+          </span>
+        )}
+      </div>
+      {member.title && (
+        <p className="text-sm text-text-secondary" dir={member.direction === 'RTL' ? 'rtl' : 'ltr'}>
+          {member.title}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Side-by-side review of one article's output across languages - the English source next to each
+ * translation paragraph by paragraph, with optional back-translation and family-wide review actions
+ */
+export default function ContentFamilyReviewPage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+  const articleId = params.id as string;
+  const outputType = params.outputType as ReviewableOutputType;
+  const outputTypeInfo = OUTPUT_TYPES.find((option) => option.type === outputType);
+  const toast = useToast();
+
+  const { data: family, isLoading, error } = useContentFamily(orgSlug, outputTypeInfo ? articleId : '', outputType);
+  const transitionFamily = useFamilyTransition(orgSlug, articleId, outputType);
+  const canApprove = useHasPermission(orgSlug, 'content.approve');
+
+  const [hiddenLanguages, setHiddenLanguages] = useState<Set<string>>(new Set());
+  const [showBackTranslation, setShowBackTranslation] = useState(false);
+  const [isRequestingChanges, setIsRequestingChanges] = useState(false);
+  const [note, setNote] = useState('');
+  const [pendingAction, setPendingAction] = useState<FamilyReviewAction | null>(null);
+
+  const translations = family?.translations ?? [];
+  const visibleTranslations = translations.filter((member) => !hiddenLanguages.has(member.language));
+  const backTranslations = useBackTranslations(
+    orgSlug,
+    articleId,
+    outputType,
+    visibleTranslations.map((member) => member.outputId),
+    showBackTranslation,
+  );
+
+  // Switching output type starts from all languages again
+  useEffect(() => {
+    setHiddenLanguages(new Set());
+  }, [outputType]);
+
+  const toggleLanguage = (language: string) => {
+    setHiddenLanguages((prev) => {
+      const next = new Set(prev);
+      if (next.has(language)) {
+        next.delete(language);
+      } else {
+        next.add(language);
+      }
+      return next;
+    });
+  };
+
+  const summarize = (action: FamilyReviewAction, results: FamilyTransitionResult[]) => {
+    const done = results.filter((result) => result.status);
+    const failed = results.filter((result) => result.error && !result.glossaryIssues);
+    const label = action === 'approve' ? 'Approved' : 'Changes requested';
+
+    if (done.length > 0) {
+      toast.success(label, `${done.length} language${done.length !== 1 ? 's' : ''} updated`);
+    } else if (failed.length === 0) {
+      toast.error('Nothing to update', 'No language is in a status that allows this action');
+    }
+    failed.forEach((result) => toast.error(`${result.language}: not updated`, result.error ?? 'Please try again'));
+  };
+
+  const runAction = (action: FamilyReviewAction, options: { note?: string; acknowledgeGlossary?: boolean; outputIds?: string[] } = {}) => {
+    setPendingAction(action);
+    transitionFamily.mutate(
+      { action, ...options },
+      {
+        onSuccess: (results) => {
+          setIsRequestingChanges(false);
+          setNote('');
+          summarize(action, results);
+
+          // Approving languages the glossary check flagged needs an explicit confirmation
+          const blocked = results.filter((result) => result.glossaryIssues?.length);
+          if (blocked.length > 0) {
+            const details = blocked
+              .map((result) => `${result.language}: ${result.glossaryIssues!.map((issue) => issue.term).join(', ')}`)
+              .join('\n');
+            if (confirm(`The glossary check flagged:\n${details}\n\nApprove these languages anyway?`)) {
+              runAction(action, { ...options, acknowledgeGlossary: true, outputIds: blocked.map((result) => result.outputId) });
+            }
+          }
+        },
+        onError: (error) => toast.error('Failed to update review status', errorMessage(error)),
+        onSettled: () => setPendingAction(null),
+      },
+    );
+  };
+
+  if (!outputTypeInfo) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="card p-6">
+          <p className="text-red-400">Unknown output type</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="flex flex-col justify-center items-center py-12 gap-3">
+          <Loader2 className="w-8 h-8 text-blue-accent animate-spin" />
+          <div className="text-text-secondary">Loading languages...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !family) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="card p-6">
+          <p className="text-red-400 mb-4">Article not found</p>
+          <Link href={`/org/${orgSlug}/articles`} className="btn btn-secondary inline-flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Articles
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const columns = [...(family.source ? [family.source] : []), ...visibleTranslations];
+  const rows = Array.from({ length: family.rowCount }, (_, index) => index);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+      {/* Header */}
+      <div className="mb-6">
+        <Link
+          href={`/org/${orgSlug}/articles/${articleId}`}
+          className="text-blue-accent hover:underline mb-4 inline-flex items-center gap-1 text-sm sm:text-base"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Article
+        </Link>
+        <h1 className="text-2xl sm:text-3xl font-bold text-text-primary mb-2 break-words">{family.article.title}</h1>
+        <p className="text-text-muted">Review every language side by side</p>
+      </div>
+
+      {/* Output type tabs */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {OUTPUT_TYPES.map((option) => (
+          <Link
+            key={option.type}
+            href={`/org/${orgSlug}/articles/${articleId}/review/${option.type}`}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+              option.type === outputType
+                ? 'bg-blue-accent text-white'
+                : 'bg-white-10 text-text-secondary hover:bg-white-20'
+            }`}
+          >
+            {option.label}
+          </Link>
+        ))}
+      </div>
+
+      {columns.length === 0 ? (
+        <div className="card p-6">
+          <p className="text-text-secondary">
+            This article has no {outputTypeInfo.label.toLowerCase()} output in any language yet.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Toolbar */}
+          <div className="card p-4 mb-6 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-3">
+              {translations.map((member) => (
+                <label key={member.language} className="flex items-center gap-2 text-sm text-text-primary cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!hiddenLanguages.has(member.language)}
+                    onChange={() => toggleLanguage(member.language)}
+                    className="w-4 h-4 rounded"
+                  />
+                  {member.languageName}
+                </label>
+              ))}
+              {translations.length > 0 && (
+                <button
+                  onClick={() => setShowBackTranslation(!showBackTranslation)}
+                  className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm transition-colors ${
+                    showBackTranslation ? 'bg-blue-accent/20 text-blue-accent' : 'bg-white-10 text-text-secondary hover:bg-white-20'
+                  }`}
+                >
+                  <Languages className="w-4 h-4" />
+                  Back-translation
+                </button>
+              )}
+            </div>
+
+            {canApprove && (
+              <div className="relative flex items-center gap-2">
+                <button
+                  onClick={() => setIsRequestingChanges(!isRequestingChanges)}
+                  disabled={transitionFamily.isPending}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-white-10 hover:bg-white-20 border border-white-20 text-text-secondary disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Request changes on all
+                </button>
+                <button
+                  onClick={() => runAction('approve')}
+                  disabled={transitionFamily.isPending}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-success hover:bg-success/90 text-white disabled:opacity-50"
+                >
+                  {pendingAction === 'approve' ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+                  Approve all
+                </button>
+
+                {isRequestingChanges && (
+                  <div className="absolute right-0 top-full mt-2 w-80 bg-navy-dark border border-white-20 rounded-xl shadow-lg p-4 z-20 space-y-3">
+                    <label className="text-xs text-text-muted">What needs to change? Sent to every language.</label>
+                    <textarea
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      rows={3}
+                      placeholder="Optional note for the authors"
+                      className="w-full p-3 bg-navy-dark border border-white-20 rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-gold/50 text-sm resize-y"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setIsRequestingChanges(false)} className="btn btn-secondary text-sm">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => runAction('request_changes', { note: note.trim() || undefined })}
+                        disabled={transitionFamily.isPending}
+                        className="btn btn-primary text-sm inline-flex items-center gap-2"
+                      >
+                        {pendingAction === 'request_changes' && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Request changes
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Paragraph-aligned columns */}
+          <div className="card p-0 overflow-x-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="border-b border-white-10">
+                  <th className="w-10 p-3" />
+                  {columns.map((member) => (
+                    <th key={member.outputId} className="min-w-[280px] p-4 text-left align-top font-normal">
+                      <ColumnHeader orgSlug={orgSlug} editPath={outputTypeInfo.editPath} member={member} />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row} className="border-b border-white-10 last:border-0">
+                    <td className="p-3 align-top text-xs text-text-muted">{row + 1}</td>
+                    {columns.map((member) => {
+                      const paragraph = member.paragraphs[row];
+                      const backTranslationIndex = visibleTranslations.indexOf(member);
+                      const backTranslation = backTranslationIndex >= 0 ? backTranslations[backTranslationIndex] : undefined;
+
+                      return (
+                        <td key={member.outputId} className="p-4 align-top">
+                          {paragraph ? (
+                            <p className="text-text-primary whitespace-pre-wrap" dir={member.direction === 'RTL' ? 'rtl' : 'ltr'}>
+                              {paragraph}
+                            </p>
+                          ) : (
+                            <p className="text-text-muted italic">Missing paragraph</p>
+                          )}
+                          {showBackTranslation && backTranslation && paragraph && (
+                            <div className="mt-2 pt-2 border-t border-dashed border-white-10 text-text-secondary">
+                              {backTranslation.isLoading ? (
+                                <Loader2 className="w-4 h-4 animate-spin text-text-muted" />
+                              ) : backTranslation.error ? (
+                                <span className="text-red-400 text-xs">Back-translation failed</span>
+                              ) : (
+                                <p className="whitespace-pre-wrap italic">{backTranslation.data?.paragraphs[row]}</p>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { ArticleFeeds } from '@/components/articles/ArticleFeeds';
+
+export default function OrgArticleFeedsPage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <Link
+        href={`/org/${orgSlug}/articles`}
+        className="inline-flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Articles
+      </Link>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-text-primary mb-2">Article Feeds</h1>
+        <p className="text-text-secondary">Import new posts from your blog or newsroom automatically</p>
+      </div>
+
+      <ArticleFeeds orgSlug={orgSlug} />
+    </div>
+  );
+}
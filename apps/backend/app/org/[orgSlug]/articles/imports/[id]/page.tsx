@@ -0,0 +1,30 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { ArticleImportProgress } from '@/components/articles/ArticleImportProgress';
+
+export default function OrgArticleImportPage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+  const id = params.id as string;
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <Link
+        href={`/org/${orgSlug}/articles/imports`}
+        className="inline-flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Bulk Uploads
+      </Link>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-text-primary mb-2">Bulk Upload</h1>
+        <p className="text-text-secondary">Extraction and generation progress for each file</p>
+      </div>
+
+      <ArticleImportProgress orgSlug={orgSlug} batchId={id} />
+    </div>
+  );
+}
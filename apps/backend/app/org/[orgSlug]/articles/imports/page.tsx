@@ -0,0 +1,48 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, Upload } from 'lucide-react';
+import { useHasPermission } from '@/lib/api/hooks';
+import { ArticleImportList } from '@/components/articles/ArticleImportList';
+import { BulkArticleUpload } from '@/components/articles/BulkArticleUpload';
+
+export default function OrgArticleImportsPage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+  const canCreate = useHasPermission(orgSlug, 'content.create');
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <Link
+        href={`/org/${orgSlug}/articles`}
+        className="inline-flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Articles
+      </Link>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary mb-2">Bulk Uploads</h1>
+          <p className="text-text-secondary">Create many articles and submissions from files, ZIP archives or a CSV of URLs</p>
+        </div>
+        {canCreate && (
+          <button
+            type="button"
+            onClick={() => setIsUploadOpen(true)}
+            className="btn btn-primary inline-flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Bulk Upload
+          </button>
+        )}
+      </div>
+
+      <ArticleImportList orgSlug={orgSlug} />
+
+      <BulkArticleUpload isOpen={isUploadOpen} onClose={() => setIsUploadOpen(false)} orgSlug={orgSlug} />
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
-import { Plus } from 'lucide-react';
+import { FileArchive, Plus, Rss } from 'lucide-react';
 import { SubmissionList } from '@/components/submissions/SubmissionList';
 
 export default function OrgArticlesPage() {
@@ -17,10 +17,20 @@ export default function OrgArticlesPage() {
           <h1 className="text-3xl font-bold text-text-primary mb-2">Articles</h1>
           <p className="text-text-secondary">Manage your content projects</p>
         </div>
-        <Link href={`/org/${orgSlug}/create`} className="btn btn-primary inline-flex items-center gap-2">
-          <Plus className="w-4 h-4" />
-          New Article
-        </Link>
+        <div className="flex items-center gap-3">
+          <Link href={`/org/${orgSlug}/articles/feeds`} className="btn btn-secondary inline-flex items-center gap-2">
+            <Rss className="w-4 h-4" />
+            Feeds
+          </Link>
+          <Link href={`/org/${orgSlug}/articles/imports`} className="btn btn-secondary inline-flex items-center gap-2">
+            <FileArchive className="w-4 h-4" />
+            Bulk Upload
+          </Link>
+          <Link href={`/org/${orgSlug}/create`} className="btn btn-primary inline-flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            New Article
+          </Link>
+        </div>
       </div>
 
       <SubmissionList orgSlug={orgSlug} />
@@ -2,22 +2,15 @@
 
 import { use } from 'react';
 import Link from 'next/link';
-import { useStandaloneVideos } from '@repo/api-client';
+import { useStandaloneVideos, useLanguages } from '@repo/api-client';
 import { PortraitVideoPlayer } from '@/components/video/PortraitVideoPlayer';
+import { RenditionDownloads } from '@/components/video/RenditionDownloads';
 import { Loader2, Video, Plus, Clock, AlertCircle, CheckCircle, Sparkles, Languages } from 'lucide-react';
 
 interface PageProps {
   params: Promise<{ orgSlug: string }>;
 }
 
-const LANGUAGE_LABELS: Record<string, string> = {
-  ENGLISH: 'EN',
-  MARATHI: 'MR',
-  HINDI: 'HI',
-  BENGALI: 'BN',
-  GUJARATI: 'GU',
-};
-
 function getStatusBadge(status: string) {
   switch (status) {
     case 'COMPLETED':
@@ -70,6 +63,11 @@ function formatDate(dateString: string) {
 export default function CreativePlatformPage({ params }: PageProps) {
   const { orgSlug } = use(params);
   const { data: videos, isLoading, error } = useStandaloneVideos(orgSlug);
+  const { data: languages = [] } = useLanguages(orgSlug);
+
+  // Short ISO badge, e.g. "HI"
+  const getLanguageBadge = (code: string) =>
+    languages.find((language) => language.code === code)?.isoCode.toUpperCase() ?? code;
 
   // Calculate stats
   const totalVideos = videos?.length || 0;
@@ -202,7 +200,7 @@ export default function CreativePlatformPage({ params }: PageProps) {
                     {video.language && (
                       <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-purple-500/20 text-purple-400">
                         <Languages className="w-3 h-3" />
-                        {LANGUAGE_LABELS[video.language] || video.language}
+                        {getLanguageBadge(video.language)}
                       </span>
                     )}
                     {getStatusBadge(video.status)}
@@ -221,6 +219,11 @@ export default function CreativePlatformPage({ params }: PageProps) {
                     Duration: {Math.round(video.duration)}s
                   </p>
                 )}
+                {video.status === 'COMPLETED' && (
+                  <div className="mt-2">
+                    <RenditionDownloads orgSlug={orgSlug} videoId={video.id} renditions={video.renditions} />
+                  </div>
+                )}
               </div>
             </div>
           ))}
@@ -3,8 +3,9 @@
 import { useState, useMemo } from 'react';
 import { useParams } from 'next/navigation';
 import { useSubmissions, useArticles, useTags } from '@/lib/api/hooks';
-import { Search, Loader2, X } from 'lucide-react';
+import { Search, Loader2, X, LayoutGrid, CalendarDays } from 'lucide-react';
 import { MediaCard } from '@/components/media/MediaCard';
+import { ScheduleCalendar } from '@/components/media/ScheduleCalendar';
 import { FilterDropdown } from '@/components/ui/FilterDropdown';
 import type { Tag } from '@repo/api-client';
 
@@ -20,10 +21,14 @@ interface MediaItem {
   submissionId?: string;
   articleId?: string;
   isApproved?: boolean;
+  publishAt?: string | null;
+  expiresAt?: string | null;
   status: OutputStatus;
   createdAt: string;
   tags: Tag[];
   category?: string;
+  captionsVttUrl?: string | null;
+  captionsSrtUrl?: string | null;
 }
 
 export default function OrgLibraryPage() {
@@ -36,6 +41,7 @@ export default function OrgLibraryPage() {
   const [categoryFilter, setCategoryFilter] = useState<string[]>([]);
   const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [view, setView] = useState<'grid' | 'calendar'>('grid');
 
   // Data fetching
   const { data, isLoading } = useSubmissions(orgSlug, 1, 100, true);
@@ -83,10 +89,14 @@ export default function OrgLibraryPage() {
             articleTitle: sub.article?.title,
             submissionId: sub.id,
             isApproved: vo.isApproved,
+            publishAt: vo.publishAt,
+            expiresAt: vo.expiresAt,
             status: 'COMPLETED' as const,
             createdAt: vo.createdAt,
             tags: vo.tags?.map((t) => t.tag) || [],
             category: sub.article?.category,
+            captionsVttUrl: vo.captionsVttUrl,
+            captionsSrtUrl: vo.captionsSrtUrl,
           })) || []
       );
     }) || [];
@@ -105,10 +115,14 @@ export default function OrgLibraryPage() {
             articleTitle: sub.article?.title,
             submissionId: sub.id,
             isApproved: po.isApproved,
+            publishAt: po.publishAt,
+            expiresAt: po.expiresAt,
             status: 'COMPLETED' as const,
             createdAt: po.createdAt,
             tags: po.tags?.map((t) => t.tag) || [],
             category: sub.article?.category,
+            captionsVttUrl: po.captionsVttUrl,
+            captionsSrtUrl: po.captionsSrtUrl,
           })) || []
       );
     }) || [];
@@ -126,6 +140,8 @@ export default function OrgLibraryPage() {
             articleTitle: sub.article?.title,
             submissionId: sub.id,
             isApproved: ao.isApproved,
+            publishAt: ao.publishAt,
+            expiresAt: ao.expiresAt,
             status: 'COMPLETED' as const,
             createdAt: ao.createdAt,
             tags: ao.tags?.map((t) => t.tag) || [],
@@ -147,6 +163,8 @@ export default function OrgLibraryPage() {
             articleTitle: sub.article?.title,
             submissionId: sub.id,
             isApproved: qo.isApproved,
+            publishAt: qo.publishAt,
+            expiresAt: qo.expiresAt,
             status: 'COMPLETED' as const,
             createdAt: qo.createdAt,
             tags: qo.tags?.map((t) => t.tag) || [],
@@ -165,6 +183,8 @@ export default function OrgLibraryPage() {
     submissionId: undefined,
     articleId: article.id,
     isApproved: article.isApproved,
+    publishAt: article.publishAt,
+    expiresAt: article.expiresAt,
     status: 'COMPLETED' as const,
     createdAt: article.createdAt,
     tags: articleTagsMap.get(article.id) || [],
@@ -319,9 +339,32 @@ export default function OrgLibraryPage() {
         </div>
       ) : (
         <>
-          <p className="text-text-muted text-sm mb-4">
-            Showing {allMedia.length} item{allMedia.length !== 1 ? 's' : ''}
-          </p>
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-text-muted text-sm">
+              Showing {allMedia.length} item{allMedia.length !== 1 ? 's' : ''}
+            </p>
+
+            {/* View Toggle */}
+            <div className="inline-flex bg-white-10 rounded-lg p-1">
+              <button
+                onClick={() => setView('grid')}
+                className={`p-1.5 rounded-md transition-colors ${view === 'grid' ? 'bg-white-20 text-text-primary' : 'text-text-muted'}`}
+                aria-label="Grid view"
+              >
+                <LayoutGrid className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setView('calendar')}
+                className={`p-1.5 rounded-md transition-colors ${view === 'calendar' ? 'bg-white-20 text-text-primary' : 'text-text-muted'}`}
+                aria-label="Schedule calendar"
+              >
+                <CalendarDays className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          {view === 'calendar' ? (
+            <ScheduleCalendar items={allMedia} orgSlug={orgSlug} />
+          ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
             {allMedia.map((item) => (
               <MediaCard
@@ -335,10 +378,13 @@ export default function OrgLibraryPage() {
                 submissionId={item.submissionId}
                 articleId={item.articleId}
                 duration={item.duration}
+                captionsVttUrl={item.captionsVttUrl}
+                captionsSrtUrl={item.captionsSrtUrl}
                 orgSlug={orgSlug}
               />
             ))}
           </div>
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import axios from 'axios';
+import { ArrowLeft, Loader2, Pencil, Zap } from 'lucide-react';
+import type { ContentPipelineSettings } from '@repo/api-client';
+import { usePipeline, useUpdatePipeline, useRunPipeline, useHasPermission } from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+import { PipelineForm } from '@/components/pipelines/PipelineForm';
+import { PipelineRunList } from '@/components/pipelines/PipelineRunList';
+
+const errorMessage = (error: unknown) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || error.message : error instanceof Error ? error.message : 'Please try again';
+
+export default function OrgPipelinePage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+  const pipelineId = params.id as string;
+  const toast = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { data: pipeline, isLoading } = usePipeline(orgSlug, pipelineId);
+  const updatePipeline = useUpdatePipeline(orgSlug);
+  const runPipeline = useRunPipeline(orgSlug);
+  const canManage = useHasPermission(orgSlug, 'content.create');
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 text-blue-accent animate-spin" />
+      </div>
+    );
+  }
+
+  if (!pipeline) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="card p-6">
+          <p className="text-red-400">Pipeline not found</p>
+        </div>
+      </div>
+    );
+  }
+
+  const handleSave = (settings: ContentPipelineSettings) => {
+    updatePipeline.mutate(
+      { id: pipeline.id, ...settings },
+      {
+        onSuccess: () => {
+          toast.success('Pipeline saved', settings.name);
+          setIsEditing(false);
+        },
+        onError: (error) => toast.error('Failed to save pipeline', errorMessage(error)),
+      }
+    );
+  };
+
+  const handleRun = () => {
+    runPipeline.mutate(pipeline.id, {
+      onSuccess: () => toast.success('Run queued', 'It will show up below in a moment'),
+      onError: (error) => toast.error('Failed to start run', errorMessage(error)),
+    });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <Link
+        href={`/org/${orgSlug}/pipelines`}
+        className="inline-flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Pipelines
+      </Link>
+
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary mb-2">{pipeline.name}</h1>
+          <p className="text-text-secondary">
+            <span className="font-mono">{pipeline.schedule}</span> ({pipeline.timezone})
+            {!pipeline.isActive && ' · paused'}
+          </p>
+        </div>
+        {canManage && !isEditing && (
+          <div className="flex items-center gap-3">
+            <button type="button" onClick={() => setIsEditing(true)} className="btn btn-secondary inline-flex items-center gap-2">
+              <Pencil className="w-4 h-4" />
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={handleRun}
+              className="btn btn-primary inline-flex items-center gap-2"
+              disabled={runPipeline.isPending}
+            >
+              <Zap className="w-4 h-4" />
+              Run now
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="card p-6">
+          <PipelineForm
+            orgSlug={orgSlug}
+            pipeline={pipeline}
+            submitLabel="Save Pipeline"
+            isSubmitting={updatePipeline.isPending}
+            onSubmit={handleSave}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      ) : (
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold text-text-primary mb-2">Runs</h2>
+          <PipelineRunList orgSlug={orgSlug} runs={pipeline.runs} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useParams, useRouter } from 'next/navigation';
+import axios from 'axios';
+import type { ContentPipelineSettings } from '@repo/api-client';
+import { useCreatePipeline } from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+import { PipelineForm } from '@/components/pipelines/PipelineForm';
+
+export default function OrgNewPipelinePage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+  const router = useRouter();
+  const toast = useToast();
+  const createPipeline = useCreatePipeline(orgSlug);
+
+  const handleSubmit = (settings: ContentPipelineSettings) => {
+    createPipeline.mutate(settings, {
+      onSuccess: (pipeline) => {
+        toast.success('Pipeline created', pipeline.name);
+        router.push(`/org/${orgSlug}/pipelines/${pipeline.id}`);
+      },
+      onError: (error) =>
+        toast.error(
+          'Failed to create pipeline',
+          axios.isAxiosError(error) ? error.response?.data?.error || error.message : 'Please try again'
+        ),
+    });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-text-primary mb-2">New Pipeline</h1>
+        <p className="text-text-secondary">Pick up new articles on a schedule and generate the same media every time</p>
+      </div>
+
+      <div className="card p-6">
+        <PipelineForm
+          orgSlug={orgSlug}
+          submitLabel="Create Pipeline"
+          isSubmitting={createPipeline.isPending}
+          onSubmit={handleSubmit}
+          onCancel={() => router.push(`/org/${orgSlug}/pipelines`)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { Loader2, Pause, Play, Plus, Trash2, Workflow, Zap } from 'lucide-react';
+import type { ContentPipeline } from '@repo/api-client';
+import { usePipelines, useUpdatePipeline, useDeletePipeline, useRunPipeline, useHasPermission } from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+import { PipelineRunStatusBadge } from '@/components/pipelines/PipelineRunList';
+
+const errorMessage = (error: unknown) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || error.message : error instanceof Error ? error.message : 'Please try again';
+
+export default function OrgPipelinesPage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+  const { data: pipelines = [], isLoading } = usePipelines(orgSlug);
+  const canManage = useHasPermission(orgSlug, 'content.create');
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary mb-2">Pipelines</h1>
+          <p className="text-text-secondary">Turn new articles into media on a schedule</p>
+        </div>
+        {canManage && (
+          <Link href={`/org/${orgSlug}/pipelines/new`} className="btn btn-primary inline-flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            New Pipeline
+          </Link>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 text-blue-accent animate-spin" />
+        </div>
+      ) : pipelines.length === 0 ? (
+        <div className="card p-12 text-center">
+          <Workflow className="w-10 h-10 text-text-muted mx-auto mb-3" />
+          <p className="text-text-secondary">No pipelines yet</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {pipelines.map((pipeline) => (
+            <PipelineCard key={pipeline.id} orgSlug={orgSlug} pipeline={pipeline} canManage={canManage} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PipelineCard({ orgSlug, pipeline, canManage }: { orgSlug: string; pipeline: ContentPipeline; canManage: boolean }) {
+  const toast = useToast();
+  const updatePipeline = useUpdatePipeline(orgSlug);
+  const deletePipeline = useDeletePipeline(orgSlug);
+  const runPipeline = useRunPipeline(orgSlug);
+  const latestRun = pipeline.runs[0];
+
+  const handleToggle = () => {
+    updatePipeline.mutate(
+      { id: pipeline.id, isActive: !pipeline.isActive },
+      { onError: (error) => toast.error('Failed to update pipeline', errorMessage(error)) }
+    );
+  };
+
+  const handleRun = () => {
+    runPipeline.mutate(pipeline.id, {
+      onSuccess: () => toast.success('Run queued', `${pipeline.name} will start in a moment`),
+      onError: (error) => toast.error('Failed to start run', errorMessage(error)),
+    });
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete "${pipeline.name}" and its run history? Generated content is kept.`)) return;
+    deletePipeline.mutate(pipeline.id, {
+      onSuccess: () => toast.success('Pipeline deleted', pipeline.name),
+      onError: (error) => toast.error('Failed to delete pipeline', errorMessage(error)),
+    });
+  };
+
+  return (
+    <div className={`card p-6 ${pipeline.isActive ? '' : 'opacity-70'}`}>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <Link href={`/org/${orgSlug}/pipelines/${pipeline.id}`} className="text-text-primary font-semibold hover:text-blue-accent truncate">
+              {pipeline.name}
+            </Link>
+            {!pipeline.isActive && <span className="px-2 py-0.5 rounded-full text-xs bg-white-10 text-text-muted">Paused</span>}
+          </div>
+          <p className="text-sm text-text-muted mt-1">
+            <span className="font-mono">{pipeline.schedule}</span> ({pipeline.timezone})
+            {' · '}
+            {pipeline.feed ? `from ${pipeline.feed.title}` : 'any new draft'}
+            {' · '}
+            {pipeline.languages.length} {pipeline.languages.length === 1 ? 'language' : 'languages'}
+          </p>
+          <p className="text-xs text-text-muted mt-2">
+            {pipeline.nextRunAt ? `Next run ${format(new Date(pipeline.nextRunAt), 'MMM d, HH:mm')}` : 'Not scheduled'}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3 flex-shrink-0">
+          {latestRun && <PipelineRunStatusBadge status={latestRun.status} />}
+          {canManage && (
+            <>
+              <button
+                type="button"
+                onClick={handleRun}
+                className="btn btn-secondary inline-flex items-center gap-2"
+                disabled={runPipeline.isPending}
+              >
+                <Zap className="w-4 h-4" />
+                Run now
+              </button>
+              <button
+                type="button"
+                onClick={handleToggle}
+                className="btn btn-secondary inline-flex items-center gap-2"
+                disabled={updatePipeline.isPending}
+              >
+                {pipeline.isActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                {pipeline.isActive ? 'Pause' : 'Resume'}
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="p-2 rounded-lg text-text-muted hover:text-red-400 hover:bg-white-10 transition-colors"
+                disabled={deletePipeline.isPending}
+                title="Delete pipeline"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
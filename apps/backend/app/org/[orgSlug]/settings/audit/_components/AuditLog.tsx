@@ -0,0 +1,234 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronLeft, ChevronRight, Download, Loader2, ScrollText } from 'lucide-react';
+import { useAuditEvents } from '@/lib/api/hooks';
+import { FilterDropdown } from '@/components/ui/FilterDropdown';
+import { auditApi, type AuditEvent, type AuditEventFilters } from '@repo/api-client';
+
+interface AuditActor {
+  id: string;
+  email: string;
+  fullName: string | null;
+}
+
+interface AuditLogProps {
+  orgSlug: string;
+  actors: AuditActor[];
+}
+
+const TARGET_TYPE_OPTIONS = [
+  { value: '', label: 'All targets' },
+  { value: 'organization', label: 'Organization' },
+  { value: 'member', label: 'Members' },
+  { value: 'role', label: 'Custom roles' },
+  { value: 'invite', label: 'Invites' },
+  { value: 'join-request', label: 'Join requests' },
+  { value: 'widget-key', label: 'Widget API keys' },
+  { value: 'widget-learner-secret', label: 'Learner token secret' },
+  { value: 'article', label: 'Articles' },
+  { value: 'article-feed', label: 'Article feeds' },
+  { value: 'article-import', label: 'Bulk imports' },
+  { value: 'pipeline', label: 'Pipelines' },
+  { value: 'submission', label: 'Submissions' },
+  { value: 'audio', label: 'Audio' },
+  { value: 'podcast', label: 'Podcasts' },
+  { value: 'video', label: 'Videos' },
+  { value: 'quiz', label: 'Quizzes' },
+  { value: 'interactive-podcast', label: 'Interactive podcasts' },
+  { value: 'standalone-video', label: 'Standalone videos' },
+  { value: 'tag', label: 'Tags' },
+  { value: 'character', label: 'Characters' },
+  { value: 'background-music', label: 'Background music' },
+  { value: 'bumper', label: 'Bumpers' },
+  { value: 'caption-style', label: 'Caption styles' },
+  { value: 'glossary-term', label: 'Glossary' },
+  { value: 'pronunciation-entry', label: 'Pronunciation' },
+];
+
+const inputClassName =
+  'bg-white-10 border border-white-20 rounded-lg px-3 py-2 text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-gold/50';
+
+const actorName = (event: AuditEvent) =>
+  event.actor ? event.actor.fullName || event.actor.email : event.actorEmail || 'System';
+
+/**
+ * Filterable audit log of the organization with CSV export
+ */
+export function AuditLog({ orgSlug, actors }: AuditLogProps) {
+  const [actorId, setActorId] = useState('');
+  const [targetType, setTargetType] = useState('');
+  const [action, setAction] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Date inputs are local days - the range covers the whole "to" day
+  const filters: AuditEventFilters = {
+    actorId: actorId || undefined,
+    targetType: targetType || undefined,
+    action: action.trim() || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  };
+
+  const { data, isLoading, isFetching, error } = useAuditEvents(orgSlug, filters, page);
+  const events = data?.data ?? [];
+  const pagination = data?.pagination;
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const actorOptions = [
+    { value: '', label: 'All actors' },
+    ...actors.map((actor) => ({ value: actor.id, label: actor.fullName || actor.email })),
+  ];
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary mb-2">Audit Log</h1>
+          <p className="text-text-secondary">Who changed what in this organization, and when</p>
+        </div>
+
+        <a href={auditApi.exportUrl(orgSlug, filters)} className="btn btn-secondary inline-flex items-center gap-2">
+          <Download className="w-4 h-4" />
+          Export CSV
+        </a>
+      </div>
+
+      {/* Filters */}
+      <div className="card p-4 mb-6 flex flex-wrap items-end gap-3">
+        <FilterDropdown singleSelect label="Actor" options={actorOptions} value={actorId} onChange={updateFilter(setActorId)} />
+        <FilterDropdown
+          singleSelect
+          label="Target"
+          options={TARGET_TYPE_OPTIONS}
+          value={targetType}
+          onChange={updateFilter(setTargetType)}
+        />
+        <input
+          type="text"
+          value={action}
+          onChange={(e) => updateFilter(setAction)(e.target.value)}
+          placeholder="Action, e.g. delete"
+          className={inputClassName}
+        />
+        <label className="flex items-center gap-2 text-sm text-text-secondary">
+          From
+          <input type="date" value={fromDate} onChange={(e) => updateFilter(setFromDate)(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-text-secondary">
+          To
+          <input type="date" value={toDate} onChange={(e) => updateFilter(setToDate)(e.target.value)} className={inputClassName} />
+        </label>
+        {isFetching && !isLoading && <Loader2 className="w-4 h-4 text-text-muted animate-spin mb-3" />}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <Loader2 className="w-6 h-6 text-blue-accent animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="card p-12 text-center">
+          <p className="text-text-muted">Failed to load the audit log</p>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="card p-12 text-center">
+          <ScrollText className="w-8 h-8 text-text-muted mx-auto mb-3" />
+          <p className="text-text-muted">No audit events match these filters</p>
+        </div>
+      ) : (
+        <div className="card overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-text-muted border-b border-white-10">
+                <th className="p-4 font-medium">Time</th>
+                <th className="p-4 font-medium">Actor</th>
+                <th className="p-4 font-medium">Action</th>
+                <th className="p-4 font-medium">Target</th>
+                <th className="p-4 font-medium">IP Address</th>
+                <th className="p-4" />
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => {
+                const isExpanded = expandedId === event.id;
+                return (
+                  <Fragment key={event.id}>
+                    <tr
+                      onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                      className="border-b border-white-10 hover:bg-white-10 cursor-pointer"
+                    >
+                      <td className="p-4 text-text-secondary whitespace-nowrap">
+                        {format(new Date(event.createdAt), 'MMM d, yyyy HH:mm:ss')}
+                      </td>
+                      <td className="p-4 text-text-primary">{actorName(event)}</td>
+                      <td className="p-4">
+                        <span className="font-mono text-xs px-2 py-0.5 rounded-full bg-blue-accent/20 text-blue-accent">
+                          {event.action}
+                        </span>
+                      </td>
+                      <td className="p-4 text-text-secondary">
+                        {event.targetType}
+                        {event.targetId && <span className="block font-mono text-xs text-text-muted">{event.targetId}</span>}
+                      </td>
+                      <td className="p-4 font-mono text-xs text-text-muted">{event.ipAddress || '—'}</td>
+                      <td className="p-4 text-text-muted">
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b border-white-10 bg-navy-dark/50">
+                        <td colSpan={6} className="p-4 space-y-2">
+                          <pre className="font-mono text-xs text-text-secondary whitespace-pre-wrap break-words">
+                            {event.metadata ? JSON.stringify(event.metadata, null, 2) : 'No details'}
+                          </pre>
+                          {event.userAgent && <p className="text-xs text-text-muted break-words">{event.userAgent}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between p-4 text-sm text-text-secondary">
+              <span>
+                Page {pagination.page} of {pagination.totalPages} · {pagination.total.toLocaleString()} events
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="btn btn-secondary text-sm inline-flex items-center gap-1 disabled:opacity-50"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.totalPages}
+                  className="btn btn-secondary text-sm inline-flex items-center gap-1 disabled:opacity-50"
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { getUser } from '@/app/auth/actions';
+import { getCurrentOrg, getMemberPermissions } from '@/lib/context/org-context';
+import { prisma } from '@repo/database';
+import { AuditLog } from './_components/AuditLog';
+
+export default async function OrgAuditLogPage({ params }: { params: Promise<{ orgSlug: string }> }) {
+  const { orgSlug } = await params;
+  const user = await getUser();
+  const organization = await getCurrentOrg(orgSlug);
+
+  if (!user || !(await getMemberPermissions(user.id, organization.id)).includes('settings.manage')) {
+    return (
+      <div className="max-w-3xl mx-auto">
+        <div className="card p-6">
+          <p className="text-text-muted">You do not have permission to view the audit log</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Current members for the actor filter
+  const members = await prisma.organizationMember.findMany({
+    where: { organizationId: organization.id },
+    include: {
+      profile: {
+        select: {
+          id: true,
+          email: true,
+          fullName: true,
+        },
+      },
+    },
+    orderBy: { joinedAt: 'asc' },
+  });
+
+  return <AuditLog orgSlug={orgSlug} actors={members.map((member) => member.profile)} />;
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import { ShieldCheck, Plus, Pencil, Trash2 } from 'lucide-react';
+import { OrganizationRole } from '@prisma/client';
+import { ORG_PERMISSIONS, ORG_PERMISSION_DETAILS, type OrgPermission } from '@/lib/context/permissions';
+
+export type CustomRoleSummary = OrganizationRole & { _count?: { members: number } };
+
+interface CustomRolesProps {
+  orgSlug: string;
+  initialRoles: CustomRoleSummary[];
+  canEdit: boolean; // Only the owner defines roles
+}
+
+interface RoleDraft {
+  id: string | null; // null while creating
+  name: string;
+  description: string;
+  permissions: OrgPermission[];
+}
+
+const emptyDraft: RoleDraft = { id: null, name: '', description: '', permissions: ['content.create'] };
+
+export function CustomRoles({ orgSlug, initialRoles, canEdit }: CustomRolesProps) {
+  const [roles, setRoles] = useState(initialRoles);
+  const [draft, setDraft] = useState<RoleDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const togglePermission = (permission: OrgPermission) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      permissions: draft.permissions.includes(permission)
+        ? draft.permissions.filter(p => p !== permission)
+        : [...draft.permissions, permission],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(
+        draft.id ? `/api/organizations/${orgSlug}/roles/${draft.id}` : `/api/organizations/${orgSlug}/roles`,
+        {
+          method: draft.id ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: draft.name.trim(),
+            description: draft.description.trim() || null,
+            permissions: draft.permissions,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save role');
+      }
+
+      setRoles(prev =>
+        draft.id
+          ? prev.map(role => (role.id === draft.id ? { ...data.role, _count: role._count } : role))
+          : [...prev, { ...data.role, _count: { members: 0 } }].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setDraft(null);
+    } catch (error) {
+      console.error('Error saving role:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save role');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: CustomRoleSummary) => {
+    const memberCount = role._count?.members ?? 0;
+    const warning = memberCount > 0 ? ` ${memberCount} member(s) fall back to their built-in role.` : '';
+    if (!confirm(`Delete the "${role.name}" role?${warning}`)) return;
+    setDeletingId(role.id);
+
+    try {
+      const response = await fetch(`/api/organizations/${orgSlug}/roles/${role.id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete role');
+      }
+
+      setRoles(prev => prev.filter(r => r.id !== role.id));
+    } catch (error) {
+      console.error('Error deleting role:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete role');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-blue rounded-2xl flex items-center justify-center">
+            <ShieldCheck className="w-5 h-5 text-white" />
+          </div>
+          <h2 className="text-xl font-semibold text-text-primary">Custom Roles ({roles.length})</h2>
+        </div>
+        {canEdit && !draft && (
+          <button className="btn btn-primary inline-flex items-center gap-2" onClick={() => setDraft(emptyDraft)}>
+            <Plus className="w-4 h-4" />
+            New Role
+          </button>
+        )}
+      </div>
+
+      <p className="text-text-secondary text-sm mb-4">
+        A custom role replaces the built-in permissions of the members it is assigned to - for example a
+        &quot;Writer&quot; who can draft content but not approve or publish it. Owners always keep every permission.
+      </p>
+
+      {/* Create / edit */}
+      {draft && (
+        <div className="p-4 mb-4 bg-surface-secondary rounded-xl space-y-4">
+          <input
+            type="text"
+            className="input w-full"
+            placeholder="Role name (e.g. Writer)"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            disabled={isSaving}
+          />
+          <input
+            type="text"
+            className="input w-full"
+            placeholder="Description (optional)"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            disabled={isSaving}
+          />
+          <div className="grid sm:grid-cols-2 gap-3">
+            {ORG_PERMISSIONS.map((permission) => (
+              <label key={permission} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={draft.permissions.includes(permission)}
+                  onChange={() => togglePermission(permission)}
+                  disabled={isSaving}
+                />
+                <span>
+                  <span className="block text-text-primary font-medium">{ORG_PERMISSION_DETAILS[permission].label}</span>
+                  <span className="block text-xs text-text-muted">{ORG_PERMISSION_DETAILS[permission].description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button className="btn btn-secondary" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </button>
+            <button className="btn btn-primary" onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+              {isSaving ? 'Saving...' : draft.id ? 'Save Role' : 'Create Role'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {roles.length > 0 ? (
+          roles.map((role) => (
+            <div key={role.id} className="flex items-center justify-between p-4 bg-surface-secondary rounded-xl">
+              <div className="flex-1">
+                <div className="flex items-center gap-2 mb-1">
+                  <p className="text-text-primary font-medium">{role.name}</p>
+                  <span className="text-xs text-text-muted">
+                    {role._count?.members ?? 0} member{role._count?.members === 1 ? '' : 's'}
+                  </span>
+                </div>
+                {role.description && <p className="text-text-muted text-sm mb-2">{role.description}</p>}
+                <div className="flex flex-wrap gap-1">
+                  {role.permissions.length > 0 ? (
+                    role.permissions.map((permission) => (
+                      <span key={permission} className="px-2 py-0.5 rounded-full text-xs bg-blue-accent/20 text-blue-accent">
+                        {ORG_PERMISSION_DETAILS[permission as OrgPermission]?.label ?? permission}
+                      </span>
+                    ))
+                  ) : (
+                    <span className="text-xs text-text-muted">Read-only</span>
+                  )}
+                </div>
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <button
+                    className="btn btn-secondary inline-flex items-center gap-2"
+                    onClick={() =>
+                      setDraft({
+                        id: role.id,
+                        name: role.name,
+                        description: role.description ?? '',
+                        permissions: role.permissions as OrgPermission[],
+                      })
+                    }
+                    disabled={deletingId === role.id}
+                  >
+                    <Pencil className="w-4 h-4" />
+                    Edit
+                  </button>
+                  <button
+                    className="btn bg-red-500/20 text-red-500 hover:bg-red-500/30 inline-flex items-center gap-2"
+                    onClick={() => handleDelete(role)}
+                    disabled={deletingId === role.id}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        ) : (
+          <p className="text-text-muted text-sm">No custom roles - members use the built-in Owner, Admin and Member roles</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { Captions, ImageIcon, Loader2, Pencil, Plus, X } from 'lucide-react';
+import type { CaptionStyle, CaptionStyleRequest } from '@repo/api-client';
+import {
+  useCaptionStyles,
+  useCreateCaptionStyle,
+  useUpdateCaptionStyle,
+  useCaptionSettings,
+  useUpdateCaptionSettings,
+} from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+
+interface OrganizationCaptionsProps {
+  orgSlug: string;
+  canManage: boolean;
+}
+
+const LOGO_POSITIONS = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+] as const;
+
+const EMPTY_STYLE: CaptionStyleRequest = {
+  name: '',
+  submagicTemplate: '',
+  previewImageUrl: '',
+  logoUrl: '',
+  logoPosition: 'top-right',
+  logoOpacity: 1,
+  logoMargin: 24,
+  logoScale: 0.15,
+  renderer: 'submagic',
+  fontName: 'Arial',
+  textColor: '#FFFFFF',
+  highlightColor: '#FFD400',
+};
+
+const errorMessage = (error: unknown) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || error.message : 'Please try again';
+
+export function OrganizationCaptions({ orgSlug, canManage }: OrganizationCaptionsProps) {
+  const toast = useToast();
+  const { data: styles = [], isLoading } = useCaptionStyles(orgSlug);
+  const { data: settings } = useCaptionSettings(orgSlug);
+  const createStyle = useCreateCaptionStyle(orgSlug);
+  const updateStyle = useUpdateCaptionStyle(orgSlug);
+  const updateSettings = useUpdateCaptionSettings(orgSlug);
+
+  // Organization theme and dictionary
+  const [themeId, setThemeId] = useState('');
+  const [dictionary, setDictionary] = useState<string[]>([]);
+  const [newWord, setNewWord] = useState('');
+
+  // null = form closed, '' = new style, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CaptionStyleRequest>(EMPTY_STYLE);
+
+  useEffect(() => {
+    if (settings) {
+      setThemeId(settings.submagicThemeId ?? '');
+      setDictionary(settings.submagicDictionary);
+    }
+  }, [settings]);
+
+  const settingsChanged =
+    !!settings &&
+    (themeId.trim() !== (settings.submagicThemeId ?? '') ||
+      dictionary.join('\n') !== settings.submagicDictionary.join('\n'));
+  const isSavingStyle = createStyle.isPending || updateStyle.isPending;
+
+  const addWord = () => {
+    const word = newWord.trim();
+    if (!word) return;
+    if (!dictionary.some((existing) => existing.toLowerCase() === word.toLowerCase())) {
+      setDictionary((prev) => [...prev, word]);
+    }
+    setNewWord('');
+  };
+
+  const handleSaveSettings = () => {
+    updateSettings.mutate(
+      { submagicThemeId: themeId.trim() || null, submagicDictionary: dictionary },
+      {
+        onSuccess: () => toast.success('Caption settings saved', 'New videos will use them'),
+        onError: (error) => toast.error('Failed to save caption settings', errorMessage(error)),
+      }
+    );
+  };
+
+  const openForm = (style?: CaptionStyle) => {
+    setEditingId(style?.id ?? '');
+    setDraft(
+      style
+        ? {
+            name: style.name,
+            submagicTemplate: style.submagicTemplate,
+            previewImageUrl: style.previewImageUrl ?? '',
+            logoUrl: style.logoUrl ?? '',
+            logoPosition: style.logoPosition ?? 'top-right',
+            logoOpacity: style.logoOpacity,
+            logoMargin: style.logoMargin,
+            logoScale: style.logoScale,
+            renderer: style.renderer,
+            fontName: style.fontName,
+            textColor: style.textColor,
+            highlightColor: style.highlightColor,
+          }
+        : EMPTY_STYLE
+    );
+  };
+
+  const handleSaveStyle = () => {
+    if (!draft.name.trim() || !draft.submagicTemplate.trim()) {
+      toast.error('Name and template are required', 'Enter a name and the Submagic template or theme id');
+      return;
+    }
+
+    // Empty URLs clear the field when editing and are left out when creating
+    const payload: CaptionStyleRequest = {
+      ...draft,
+      name: draft.name.trim(),
+      submagicTemplate: draft.submagicTemplate.trim(),
+      fontName: draft.fontName?.trim() || 'Arial',
+      previewImageUrl: draft.previewImageUrl?.trim() || (editingId ? null : undefined),
+      logoUrl: draft.logoUrl?.trim() || (editingId ? null : undefined),
+    };
+    const options = {
+      onSuccess: () => {
+        toast.success(editingId ? 'Caption style updated' : 'Caption style added', payload.name);
+        setEditingId(null);
+      },
+      onError: (error: unknown) => toast.error('Failed to save caption style', errorMessage(error)),
+    };
+
+    if (editingId) {
+      updateStyle.mutate({ id: editingId, ...payload }, options);
+    } else {
+      createStyle.mutate(payload, options);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-blue rounded-2xl flex items-center justify-center">
+            <Captions className="w-5 h-5 text-white" />
+          </div>
+          <h2 className="text-xl font-semibold text-text-primary">Captions</h2>
+        </div>
+        {canManage && editingId === null && (
+          <button className="btn btn-secondary inline-flex items-center gap-2" onClick={() => openForm()}>
+            <Plus className="w-4 h-4" />
+            Add Style
+          </button>
+        )}
+      </div>
+
+      <p className="text-text-secondary text-sm mb-4">
+        Caption styles set the Submagic look and logo watermark of each video. The theme below is used for videos
+        without a style, and dictionary words are spelled exactly as written in every caption. If Submagic is
+        unavailable, captions are burned in locally using the style&apos;s font and colors.
+      </p>
+
+      {/* Organization theme and dictionary */}
+      <div className="p-4 mb-4 bg-surface-secondary rounded-xl space-y-4">
+        <div>
+          <label className="block text-sm text-text-secondary mb-1">Default Submagic theme id</label>
+          <input
+            type="text"
+            className="input w-full"
+            value={themeId}
+            onChange={(e) => setThemeId(e.target.value)}
+            placeholder="Platform default"
+            disabled={!canManage}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm text-text-secondary mb-1">Dictionary</label>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {dictionary.length === 0 && <span className="text-sm text-text-muted">No words yet</span>}
+            {dictionary.map((word) => (
+              <span
+                key={word}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-white-10 text-text-primary"
+              >
+                {word}
+                {canManage && (
+                  <button
+                    className="text-text-muted hover:text-red-400"
+                    onClick={() => setDictionary((prev) => prev.filter((existing) => existing !== word))}
+                    aria-label={`Remove ${word}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+          {canManage && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                className="input flex-1"
+                value={newWord}
+                onChange={(e) => setNewWord(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addWord();
+                  }
+                }}
+                placeholder="e.g. SEBI"
+                maxLength={100}
+              />
+              <button className="btn btn-secondary" onClick={addWord} disabled={!newWord.trim()}>
+                Add
+              </button>
+            </div>
+          )}
+        </div>
+
+        {canManage && (
+          <div className="flex justify-end">
+            <button
+              className="btn btn-primary"
+              onClick={handleSaveSettings}
+              disabled={!settingsChanged || updateSettings.isPending}
+            >
+              {updateSettings.isPending ? 'Saving...' : 'Save Settings'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Add / edit style form */}
+      {editingId !== null && (
+        <div className="p-4 mb-4 bg-surface-secondary rounded-xl space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Name</label>
+              <input
+                type="text"
+                className="input w-full"
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Submagic template or theme id</label>
+              <input
+                type="text"
+                className="input w-full"
+                value={draft.submagicTemplate}
+                onChange={(e) => setDraft((prev) => ({ ...prev, submagicTemplate: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Preview image URL</label>
+              <input
+                type="url"
+                className="input w-full"
+                value={draft.previewImageUrl ?? ''}
+                onChange={(e) => setDraft((prev) => ({ ...prev, previewImageUrl: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Logo URL</label>
+              <input
+                type="url"
+                className="input w-full"
+                value={draft.logoUrl ?? ''}
+                onChange={(e) => setDraft((prev) => ({ ...prev, logoUrl: e.target.value }))}
+                placeholder="Transparent PNG works best"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Captioned by</label>
+              <select
+                className="input w-full"
+                value={draft.renderer ?? 'submagic'}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, renderer: e.target.value as CaptionStyleRequest['renderer'] }))
+                }
+              >
+                <option value="submagic">Submagic</option>
+                <option value="local">Local (no zooms or B-rolls)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Local caption font</label>
+              <input
+                type="text"
+                className="input w-full"
+                value={draft.fontName ?? ''}
+                onChange={(e) => setDraft((prev) => ({ ...prev, fontName: e.target.value }))}
+                placeholder="Arial"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Text color</label>
+              <input
+                type="color"
+                className="w-full h-10 rounded-lg bg-transparent cursor-pointer"
+                value={draft.textColor ?? '#FFFFFF'}
+                onChange={(e) => setDraft((prev) => ({ ...prev, textColor: e.target.value.toUpperCase() }))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Highlight color</label>
+              <input
+                type="color"
+                className="w-full h-10 rounded-lg bg-transparent cursor-pointer"
+                value={draft.highlightColor ?? '#FFD400'}
+                onChange={(e) => setDraft((prev) => ({ ...prev, highlightColor: e.target.value.toUpperCase() }))}
+              />
+            </div>
+          </div>
+
+          {draft.logoUrl?.trim() && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm text-text-secondary mb-1">Logo position</label>
+                <select
+                  className="input w-full"
+                  value={draft.logoPosition ?? 'top-right'}
+                  onChange={(e) =>
+                    setDraft((prev) => ({ ...prev, logoPosition: e.target.value as CaptionStyleRequest['logoPosition'] }))
+                  }
+                >
+                  {LOGO_POSITIONS.map((position) => (
+                    <option key={position.value} value={position.value}>
+                      {position.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-text-secondary mb-1">
+                  Opacity: {Math.round((draft.logoOpacity ?? 1) * 100)}%
+                </label>
+                <input
+                  type="range"
+                  className="w-full"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={draft.logoOpacity ?? 1}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, logoOpacity: Number(e.target.value) }))}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-text-secondary mb-1">
+                  Size: {Math.round((draft.logoScale ?? 0.15) * 100)}% of width
+                </label>
+                <input
+                  type="range"
+                  className="w-full"
+                  min={0.05}
+                  max={0.5}
+                  step={0.01}
+                  value={draft.logoScale ?? 0.15}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, logoScale: Number(e.target.value) }))}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-text-secondary mb-1">Margin (px)</label>
+                <input
+                  type="number"
+                  className="input w-full"
+                  min={0}
+                  max={200}
+                  value={draft.logoMargin ?? 24}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, logoMargin: Number(e.target.value) }))}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button className="btn btn-ghost" onClick={() => setEditingId(null)} disabled={isSavingStyle}>
+              Cancel
+            </button>
+            <button className="btn btn-primary" onClick={handleSaveStyle} disabled={isSavingStyle}>
+              {isSavingStyle ? 'Saving...' : editingId ? 'Save Style' : 'Add Style'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-blue-accent animate-spin" />
+        </div>
+      ) : styles.length === 0 ? (
+        <p className="text-sm text-text-muted p-4 bg-surface-secondary rounded-xl">No caption styles yet</p>
+      ) : (
+        <div className="divide-y divide-white-10 bg-surface-secondary rounded-xl">
+          {styles.map((style) => (
+            <div key={style.id} className="flex items-center gap-4 p-4">
+              <div className="flex-1 min-w-0">
+                <p className="text-text-primary font-medium">{style.name}</p>
+                <p className="text-xs text-text-muted truncate">
+                  {style.renderer === 'local' ? `Local captions · ${style.fontName}` : style.submagicTemplate}
+                </p>
+              </div>
+              {style.logoUrl ? (
+                <div className="flex items-center gap-2 text-xs text-text-secondary">
+                  <img src={style.logoUrl} alt="" className="h-6 max-w-[64px] object-contain" />
+                  {LOGO_POSITIONS.find((position) => position.value === style.logoPosition)?.label ?? 'Top right'}
+                </div>
+              ) : (
+                <span className="flex items-center gap-1 text-xs text-text-muted">
+                  <ImageIcon className="w-3 h-3" />
+                  No logo
+                </span>
+              )}
+              {canManage && (
+                <button
+                  className="p-2 text-text-muted hover:text-text-primary"
+                  onClick={() => openForm(style)}
+                  aria-label={`Edit ${style.name}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
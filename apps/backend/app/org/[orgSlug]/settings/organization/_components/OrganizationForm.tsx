@@ -2,21 +2,52 @@
 
 import { useState } from 'react';
 import { Building2, Users, Mail, Shield, Copy, RefreshCw, Trash2, UserPlus, CheckCircle, XCircle, Clock } from 'lucide-react';
-import { Organization, OrganizationMember, JoinRequest, OrganizationInvite, Profile } from '@prisma/client';
+import { Organization, OrganizationMember, OrganizationRole, JoinRequest, OrganizationInvite, Profile } from '@prisma/client';
+import { WidgetApiKeys, type WidgetApiKeySummary } from './WidgetApiKeys';
+import { WidgetLearnerSecret } from './WidgetLearnerSecret';
+import { OrganizationLanguages } from './OrganizationLanguages';
+import { OrganizationGlossary } from './OrganizationGlossary';
+import { OrganizationPronunciations } from './OrganizationPronunciations';
+import { OrganizationCaptions } from './OrganizationCaptions';
+import { CustomRoles, type CustomRoleSummary } from './CustomRoles';
 
 interface OrganizationFormProps {
   organization: Organization;
-  members: (OrganizationMember & { profile: Pick<Profile, 'id' | 'email' | 'fullName'> })[];
+  members: (OrganizationMember & {
+    profile: Pick<Profile, 'id' | 'email' | 'fullName'>;
+    customRole: Pick<OrganizationRole, 'id' | 'name'> | null;
+  })[];
   joinRequests: (JoinRequest & { profile: Pick<Profile, 'id' | 'email' | 'fullName'> })[];
   invitations: OrganizationInvite[];
+  widgetApiKeys: WidgetApiKeySummary[];
+  learnerSecretCreatedAt: Date | null;
+  customRoles: CustomRoleSummary[];
+  canManageMembers: boolean;
+  canManageSettings: boolean;
+  canManageBrand: boolean;
+  isOwner: boolean;
 }
 
-export function OrganizationForm({ organization, members, joinRequests, invitations }: OrganizationFormProps) {
+export function OrganizationForm({
+  organization,
+  members,
+  joinRequests,
+  invitations,
+  widgetApiKeys,
+  learnerSecretCreatedAt,
+  customRoles,
+  canManageMembers,
+  canManageSettings,
+  canManageBrand,
+  isOwner,
+}: OrganizationFormProps) {
   const [orgName, setOrgName] = useState(organization.name);
   const [joinCode, setJoinCode] = useState(organization.joinCode);
   const [copiedJoinCode, setCopiedJoinCode] = useState(false);
   const [processingRequests, setProcessingRequests] = useState<Set<string>>(new Set());
   const [localJoinRequests, setLocalJoinRequests] = useState(joinRequests);
+  const [localMembers, setLocalMembers] = useState(members);
+  const [updatingMembers, setUpdatingMembers] = useState<Set<string>>(new Set());
 
   const handleCopyJoinCode = async () => {
     await navigator.clipboard.writeText(joinCode);
@@ -89,6 +120,42 @@ export function OrganizationForm({ organization, members, joinRequests, invitati
     }
   };
 
+  const handleCustomRoleChange = async (memberId: string, customRoleId: string) => {
+    setUpdatingMembers(prev => new Set(prev).add(memberId));
+
+    try {
+      const response = await fetch(`/api/organizations/${organization.slug}/members/${memberId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ customRoleId: customRoleId || null }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update member role');
+      }
+
+      const customRole = customRoles.find(role => role.id === customRoleId);
+      setLocalMembers(prev =>
+        prev.map(member =>
+          member.id === memberId
+            ? { ...member, customRoleId: customRole?.id ?? null, customRole: customRole ? { id: customRole.id, name: customRole.name } : null }
+            : member
+        )
+      );
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update member role');
+    } finally {
+      setUpdatingMembers(prev => {
+        const next = new Set(prev);
+        next.delete(memberId);
+        return next;
+      });
+    }
+  };
+
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-US', {
       month: 'short',
@@ -186,13 +253,13 @@ export function OrganizationForm({ organization, members, joinRequests, invitati
               <div className="w-10 h-10 bg-gradient-purple rounded-2xl flex items-center justify-center">
                 <Users className="w-5 h-5 text-white" />
               </div>
-              <h2 className="text-xl font-semibold text-text-primary">Members ({members.length})</h2>
+              <h2 className="text-xl font-semibold text-text-primary">Members ({localMembers.length})</h2>
             </div>
           </div>
 
           <div className="space-y-3">
-            {members.length > 0 ? (
-              members.map((member) => (
+            {localMembers.length > 0 ? (
+              localMembers.map((member) => (
                 <div key={member.id} className="flex items-center justify-between p-3 bg-surface-secondary rounded-xl">
                   <div className="flex items-center gap-3">
                     <div className="w-10 h-10 bg-gradient-blue rounded-full flex items-center justify-center">
@@ -209,6 +276,28 @@ export function OrganizationForm({ organization, members, joinRequests, invitati
                     <span className={`px-3 py-1 rounded-full text-xs font-medium ${getRoleBadgeColor(member.role)}`}>
                       {member.role}
                     </span>
+                    {/* Owners always hold every permission, so a custom role never applies to them */}
+                    {member.role !== 'OWNER' && canManageMembers && customRoles.length > 0 ? (
+                      <select
+                        className="input py-1 text-sm"
+                        value={member.customRoleId ?? ''}
+                        onChange={(e) => handleCustomRoleChange(member.id, e.target.value)}
+                        disabled={updatingMembers.has(member.id)}
+                      >
+                        <option value="">Default permissions</option>
+                        {customRoles.map((role) => (
+                          <option key={role.id} value={role.id}>
+                            {role.name}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      member.customRole && (
+                        <span className="px-3 py-1 rounded-full text-xs font-medium bg-blue-accent/20 text-blue-accent">
+                          {member.customRole.name}
+                        </span>
+                      )
+                    )}
                     <button className="text-text-muted hover:text-red-500 transition-colors" disabled>
                       <UserPlus className="w-4 h-4" />
                     </button>
@@ -221,6 +310,9 @@ export function OrganizationForm({ organization, members, joinRequests, invitati
           </div>
         </div>
 
+        {/* Custom Roles (editable by the owner) */}
+        <CustomRoles orgSlug={organization.slug} initialRoles={customRoles} canEdit={isOwner} />
+
         {/* Pending Join Requests (Admin+) */}
         <div className="card p-6">
           <div className="flex items-center gap-3 mb-4">
@@ -343,6 +435,24 @@ export function OrganizationForm({ organization, members, joinRequests, invitati
           </div> */}
         </div>
 
+        {/* Languages offered in the create forms */}
+        <OrganizationLanguages orgSlug={organization.slug} canManage={canManageSettings} />
+
+        {/* Term base for translations and scripts */}
+        <OrganizationGlossary orgSlug={organization.slug} canManage={canManageSettings} />
+
+        {/* How TTS voices speak acronyms and loanwords */}
+        <OrganizationPronunciations orgSlug={organization.slug} canManage={canManageSettings} />
+
+        {/* Caption styles, Submagic theme and dictionary */}
+        <OrganizationCaptions orgSlug={organization.slug} canManage={canManageBrand} />
+
+        {/* Widget API Keys (Admin+) */}
+        <WidgetApiKeys orgSlug={organization.slug} initialKeys={widgetApiKeys} />
+
+        {/* Widget Learner Token Secret (Admin+) */}
+        <WidgetLearnerSecret orgSlug={organization.slug} initialCreatedAt={learnerSecretCreatedAt} />
+
         {/* Danger Zone (Owner only) */}
         <div className="card p-6 border-2 border-red-500/20">
           <div className="flex items-center gap-3 mb-4">
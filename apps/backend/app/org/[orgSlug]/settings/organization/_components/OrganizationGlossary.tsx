@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import axios from 'axios';
+import { BookOpen, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { GlossaryTerm, GlossaryTermRequest } from '@repo/api-client';
+import {
+  useGlossary,
+  useCreateGlossaryTerm,
+  useUpdateGlossaryTerm,
+  useDeleteGlossaryTerm,
+  useLanguages,
+} from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+
+interface OrganizationGlossaryProps {
+  orgSlug: string;
+  canManage: boolean;
+}
+
+const EMPTY_TERM: GlossaryTermRequest = { term: '', translations: {}, doNotTranslate: false, notes: '' };
+
+const errorMessage = (error: unknown) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || error.message : 'Please try again';
+
+export function OrganizationGlossary({ orgSlug, canManage }: OrganizationGlossaryProps) {
+  const toast = useToast();
+  const { data: terms = [], isLoading } = useGlossary(orgSlug);
+  const { data: languages = [] } = useLanguages(orgSlug);
+  const createTerm = useCreateGlossaryTerm(orgSlug);
+  const updateTerm = useUpdateGlossaryTerm(orgSlug);
+  const deleteTerm = useDeleteGlossaryTerm(orgSlug);
+
+  // null = form closed, '' = new term, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<GlossaryTermRequest>(EMPTY_TERM);
+
+  // English is the source language, so it never needs a rendering
+  const targetLanguages = languages.filter((language) => language.enabled && language.code !== 'ENGLISH');
+  const languageName = (code: string) => languages.find((language) => language.code === code)?.name ?? code;
+  const isSaving = createTerm.isPending || updateTerm.isPending;
+
+  const openForm = (term?: GlossaryTerm) => {
+    setEditingId(term?.id ?? '');
+    setDraft(
+      term
+        ? { term: term.term, translations: term.translations, doNotTranslate: term.doNotTranslate, notes: term.notes ?? '' }
+        : EMPTY_TERM
+    );
+  };
+
+  const handleSave = () => {
+    if (!draft.term.trim()) {
+      toast.error('Term is required', 'Enter the English term');
+      return;
+    }
+
+    const options = {
+      onSuccess: () => {
+        toast.success(editingId ? 'Term updated' : 'Term added', draft.term.trim());
+        setEditingId(null);
+      },
+      onError: (error: unknown) => toast.error('Failed to save term', errorMessage(error)),
+    };
+
+    if (editingId) {
+      updateTerm.mutate({ id: editingId, ...draft }, options);
+    } else {
+      createTerm.mutate(draft, options);
+    }
+  };
+
+  const handleDelete = (term: GlossaryTerm) => {
+    if (!confirm(`Remove "${term.term}" from the glossary?`)) return;
+    deleteTerm.mutate(term.id, {
+      onError: (error) => toast.error('Failed to remove term', errorMessage(error)),
+    });
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-blue rounded-2xl flex items-center justify-center">
+            <BookOpen className="w-5 h-5 text-white" />
+          </div>
+          <h2 className="text-xl font-semibold text-text-primary">Glossary</h2>
+        </div>
+        {canManage && editingId === null && (
+          <button className="btn btn-secondary inline-flex items-center gap-2" onClick={() => openForm()}>
+            <Plus className="w-4 h-4" />
+            Add Term
+          </button>
+        )}
+      </div>
+
+      <p className="text-text-secondary text-sm mb-4">
+        Terms that translations and generated scripts must render consistently. Reviewers are warned before
+        approving content that doesn&apos;t follow the glossary.
+      </p>
+
+      {/* Add / edit form */}
+      {editingId !== null && (
+        <div className="p-4 mb-4 bg-surface-secondary rounded-xl space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">English term</label>
+              <input
+                type="text"
+                className="input w-full"
+                value={draft.term}
+                onChange={(e) => setDraft((prev) => ({ ...prev, term: e.target.value }))}
+                placeholder="e.g. SIP"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Notes</label>
+              <input
+                type="text"
+                className="input w-full"
+                value={draft.notes ?? ''}
+                onChange={(e) => setDraft((prev) => ({ ...prev, notes: e.target.value }))}
+                placeholder="e.g. Systematic Investment Plan"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-text-primary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.doNotTranslate}
+              onChange={(e) => setDraft((prev) => ({ ...prev, doNotTranslate: e.target.checked }))}
+              className="w-4 h-4 rounded"
+            />
+            Do not translate - keep the term as written in every language
+          </label>
+
+          {!draft.doNotTranslate && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {targetLanguages.map((language) => (
+                <div key={language.code}>
+                  <label className="block text-sm text-text-secondary mb-1">{language.name}</label>
+                  <input
+                    type="text"
+                    className="input w-full"
+                    dir={language.direction === 'RTL' ? 'rtl' : 'ltr'}
+                    value={draft.translations?.[language.code] ?? ''}
+                    onChange={(e) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        translations: { ...prev.translations, [language.code]: e.target.value },
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button className="btn btn-ghost" onClick={() => setEditingId(null)} disabled={isSaving}>
+              Cancel
+            </button>
+            <button className="btn btn-primary" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : editingId ? 'Save Term' : 'Add Term'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-blue-accent animate-spin" />
+        </div>
+      ) : terms.length === 0 ? (
+        <p className="text-sm text-text-muted p-4 bg-surface-secondary rounded-xl">No glossary terms yet</p>
+      ) : (
+        <div className="divide-y divide-white-10 bg-surface-secondary rounded-xl">
+          {terms.map((term) => (
+            <div key={term.id} className="flex items-start gap-4 p-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-text-primary font-medium">{term.term}</span>
+                  {term.doNotTranslate && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-white-10 text-text-secondary">Do not translate</span>
+                  )}
+                </div>
+                {!term.doNotTranslate && Object.keys(term.translations).length > 0 && (
+                  <p className="text-sm text-text-secondary mt-1">
+                    {Object.entries(term.translations)
+                      .map(([code, rendering]) => `${languageName(code)}: ${rendering}`)
+                      .join(' · ')}
+                  </p>
+                )}
+                {term.notes && <p className="text-xs text-text-muted mt-1">{term.notes}</p>}
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  <button
+                    className="p-2 text-text-muted hover:text-text-primary"
+                    onClick={() => openForm(term)}
+                    aria-label={`Edit ${term.term}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    className="p-2 text-text-muted hover:text-red-400"
+                    onClick={() => handleDelete(term)}
+                    disabled={deleteTerm.isPending}
+                    aria-label={`Remove ${term.term}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { Languages, Loader2 } from 'lucide-react';
+import { useLanguages, useUpdateEnabledLanguages } from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+
+interface OrganizationLanguagesProps {
+  orgSlug: string;
+  canManage: boolean;
+}
+
+export function OrganizationLanguages({ orgSlug, canManage }: OrganizationLanguagesProps) {
+  const toast = useToast();
+  const { data, isLoading } = useLanguages(orgSlug);
+  const languages = data ?? [];
+  const updateLanguages = useUpdateEnabledLanguages(orgSlug);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Reset the draft whenever the saved selection changes
+  useEffect(() => {
+    if (!data) return;
+    setSelected(new Set(data.filter((language) => language.enabled).map((language) => language.code)));
+  }, [data]);
+
+  const isDirty = languages.some((language) => language.enabled !== selected.has(language.code));
+
+  const handleToggle = (code: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(code)) {
+        next.delete(code);
+      } else {
+        next.add(code);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (selected.size === 0) {
+      toast.error('No language', 'Enable at least one language');
+      return;
+    }
+
+    updateLanguages.mutate([...selected], {
+      onSuccess: () => toast.success('Languages updated', 'The create forms now offer the selected languages'),
+      onError: (error) =>
+        toast.error(
+          'Failed to update languages',
+          axios.isAxiosError(error) ? error.response?.data?.error || error.message : 'Please try again'
+        ),
+    });
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 bg-gradient-blue rounded-2xl flex items-center justify-center">
+          <Languages className="w-5 h-5 text-white" />
+        </div>
+        <h2 className="text-xl font-semibold text-text-primary">Languages</h2>
+      </div>
+
+      <p className="text-text-secondary text-sm mb-4">
+        Languages offered when creating articles, pipelines and videos. Content already generated in a
+        language you turn off stays available.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-blue-accent animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {languages.map((language) => (
+            <label
+              key={language.code}
+              className={`flex items-center gap-3 p-3 rounded-xl border-2 transition-all ${
+                selected.has(language.code) ? 'border-blue-accent bg-blue-accent/10' : 'border-white-20 bg-white-5'
+              } ${canManage ? 'cursor-pointer hover:border-blue-accent/50' : 'opacity-75'}`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(language.code)}
+                onChange={() => handleToggle(language.code)}
+                disabled={!canManage || updateLanguages.isPending}
+                className="w-4 h-4 rounded accent-blue-accent"
+              />
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm text-text-primary font-medium">{language.name}</span>
+                {language.nativeName && (
+                  <span className="block text-xs text-text-muted truncate" dir={language.direction === 'RTL' ? 'rtl' : 'ltr'}>
+                    {language.nativeName}
+                  </span>
+                )}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <div className="flex justify-end mt-4">
+          <button
+            className="btn btn-primary"
+            onClick={handleSave}
+            disabled={!isDirty || updateLanguages.isPending}
+          >
+            {updateLanguages.isPending ? 'Saving...' : 'Save Languages'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { Loader2, Pencil, Play, Plus, Trash2, Volume2 } from 'lucide-react';
+import type { Language, PronunciationEntry, PronunciationEntryRequest } from '@repo/api-client';
+import {
+  usePronunciations,
+  useCreatePronunciation,
+  useUpdatePronunciation,
+  useDeletePronunciation,
+  usePronunciationPreview,
+  useLanguages,
+  useVoices,
+} from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+
+interface OrganizationPronunciationsProps {
+  orgSlug: string;
+  canManage: boolean;
+}
+
+const EMPTY_ENTRY: PronunciationEntryRequest = {
+  term: '',
+  language: null,
+  respelling: '',
+  phoneme: '',
+  caseSensitive: true,
+  notes: '',
+};
+
+const errorMessage = (error: unknown) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || error.message : 'Please try again';
+
+export function OrganizationPronunciations({ orgSlug, canManage }: OrganizationPronunciationsProps) {
+  const toast = useToast();
+  const { data: lexicon, isLoading } = usePronunciations(orgSlug);
+  const { data: languages = [] } = useLanguages(orgSlug);
+  const { data: voices = [] } = useVoices(orgSlug);
+  const createEntry = useCreatePronunciation(orgSlug);
+  const updateEntry = useUpdatePronunciation(orgSlug);
+  const deleteEntry = useDeletePronunciation(orgSlug);
+  const preview = usePronunciationPreview(orgSlug);
+
+  // null = form closed, '' = new entry, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PronunciationEntryRequest>(EMPTY_ENTRY);
+
+  // Preview tester
+  const [previewText, setPreviewText] = useState('');
+  const [previewLanguage, setPreviewLanguage] = useState<Language>('ENGLISH');
+  const [previewVoiceId, setPreviewVoiceId] = useState('');
+  const [spokenText, setSpokenText] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  // Stop playback when leaving the page
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const entries = lexicon?.entries ?? [];
+  const phonemesSupported = lexicon?.phonemesSupported ?? false;
+  const enabledLanguages = languages.filter((language) => language.enabled);
+  const languageName = (code: string | null) =>
+    code ? languages.find((language) => language.code === code)?.name ?? code : 'All languages';
+  const isSaving = createEntry.isPending || updateEntry.isPending;
+
+  const openForm = (entry?: PronunciationEntry) => {
+    setEditingId(entry?.id ?? '');
+    setDraft(
+      entry
+        ? {
+            term: entry.term,
+            language: entry.language,
+            respelling: entry.respelling,
+            phoneme: entry.phoneme ?? '',
+            caseSensitive: entry.caseSensitive,
+            notes: entry.notes ?? '',
+          }
+        : EMPTY_ENTRY
+    );
+  };
+
+  const handleSave = () => {
+    if (!draft.term.trim() || !draft.respelling.trim()) {
+      toast.error('Term and respelling are required', 'Enter the word and how it should be spoken');
+      return;
+    }
+
+    const options = {
+      onSuccess: () => {
+        toast.success(editingId ? 'Pronunciation updated' : 'Pronunciation added', draft.term.trim());
+        setEditingId(null);
+      },
+      onError: (error: unknown) => toast.error('Failed to save pronunciation', errorMessage(error)),
+    };
+
+    if (editingId) {
+      updateEntry.mutate({ id: editingId, ...draft }, options);
+    } else {
+      createEntry.mutate(draft, options);
+    }
+  };
+
+  const handleDelete = (entry: PronunciationEntry) => {
+    if (!confirm(`Remove the pronunciation for "${entry.term}"?`)) return;
+    deleteEntry.mutate(entry.id, {
+      onError: (error) => toast.error('Failed to remove pronunciation', errorMessage(error)),
+    });
+  };
+
+  const handlePreview = () => {
+    if (!previewText.trim()) return;
+    preview.mutate(
+      { text: previewText.trim(), language: previewLanguage, voiceId: previewVoiceId || undefined },
+      {
+        onSuccess: (result) => {
+          setSpokenText(result.spokenText);
+          audioRef.current?.pause();
+          audioRef.current = new Audio(`data:audio/mpeg;base64,${result.audio}`);
+          audioRef.current.play().catch(() => toast.error('Playback failed', 'Your browser blocked audio playback'));
+        },
+        onError: (error) => toast.error('Failed to generate preview', errorMessage(error)),
+      }
+    );
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-blue rounded-2xl flex items-center justify-center">
+            <Volume2 className="w-5 h-5 text-white" />
+          </div>
+          <h2 className="text-xl font-semibold text-text-primary">Pronunciation</h2>
+        </div>
+        {canManage && editingId === null && (
+          <button className="btn btn-secondary inline-flex items-center gap-2" onClick={() => openForm()}>
+            <Plus className="w-4 h-4" />
+            Add Word
+          </button>
+        )}
+      </div>
+
+      <p className="text-text-secondary text-sm mb-4">
+        How acronyms, tickers and loanwords are spoken in audio, podcasts and video voiceovers. The respelling replaces
+        the word before it&apos;s sent to the voice; the on-screen script is unchanged.
+      </p>
+
+      {/* Add / edit form */}
+      {editingId !== null && (
+        <div className="p-4 mb-4 bg-surface-secondary rounded-xl space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Word as written</label>
+              <input
+                type="text"
+                className="input w-full"
+                value={draft.term}
+                onChange={(e) => setDraft((prev) => ({ ...prev, term: e.target.value }))}
+                placeholder="e.g. HDFC"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Spoken as</label>
+              <input
+                type="text"
+                className="input w-full"
+                value={draft.respelling}
+                onChange={(e) => setDraft((prev) => ({ ...prev, respelling: e.target.value }))}
+                placeholder="e.g. H D F C"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Language</label>
+              <select
+                className="input w-full"
+                value={draft.language ?? ''}
+                onChange={(e) => setDraft((prev) => ({ ...prev, language: (e.target.value || null) as Language | null }))}
+              >
+                <option value="">All languages</option>
+                {enabledLanguages.map((language) => (
+                  <option key={language.code} value={language.code}>
+                    {language.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Phonemes only matter when the configured voice model supports phoneme tags */}
+            {phonemesSupported && (
+              <div>
+                <label className="block text-sm text-text-secondary mb-1">IPA phoneme (optional)</label>
+                <input
+                  type="text"
+                  className="input w-full"
+                  value={draft.phoneme ?? ''}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, phoneme: e.target.value }))}
+                  placeholder="e.g. ˈnɪfti"
+                />
+                <p className="text-xs text-text-muted mt-1">Used instead of the respelling by the current voice model</p>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm text-text-secondary mb-1">Notes</label>
+              <input
+                type="text"
+                className="input w-full"
+                value={draft.notes ?? ''}
+                onChange={(e) => setDraft((prev) => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-text-primary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.caseSensitive ?? true}
+              onChange={(e) => setDraft((prev) => ({ ...prev, caseSensitive: e.target.checked }))}
+              className="w-4 h-4 rounded"
+            />
+            Match case - &quot;IT&quot; won&apos;t match &quot;it&quot;
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button className="btn btn-ghost" onClick={() => setEditingId(null)} disabled={isSaving}>
+              Cancel
+            </button>
+            <button className="btn btn-primary" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : editingId ? 'Save Word' : 'Add Word'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-blue-accent animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-text-muted p-4 bg-surface-secondary rounded-xl">No pronunciations yet</p>
+      ) : (
+        <div className="divide-y divide-white-10 bg-surface-secondary rounded-xl">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-start gap-4 p-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-text-primary font-medium">{entry.term}</span>
+                  <span className="text-text-muted">→</span>
+                  <span className="text-text-primary">{entry.respelling}</span>
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-white-10 text-text-secondary">
+                    {languageName(entry.language)}
+                  </span>
+                </div>
+                {phonemesSupported && entry.phoneme && <p className="text-sm text-text-secondary mt-1">/{entry.phoneme}/</p>}
+                {entry.notes && <p className="text-xs text-text-muted mt-1">{entry.notes}</p>}
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  <button
+                    className="p-2 text-text-muted hover:text-text-primary"
+                    onClick={() => openForm(entry)}
+                    aria-label={`Edit ${entry.term}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    className="p-2 text-text-muted hover:text-red-400"
+                    onClick={() => handleDelete(entry)}
+                    disabled={deleteEntry.isPending}
+                    aria-label={`Remove ${entry.term}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Preview tester */}
+      {canManage && (
+        <div className="mt-6 pt-6 border-t border-white-10 space-y-3">
+          <h3 className="text-sm font-semibold text-text-primary">Test pronunciation</h3>
+          <textarea
+            className="input w-full resize-y"
+            rows={2}
+            maxLength={500}
+            value={previewText}
+            onChange={(e) => setPreviewText(e.target.value)}
+            placeholder="e.g. HDFC and NIFTY closed higher today"
+          />
+          <div className="flex flex-col sm:flex-row gap-3">
+            <select
+              className="input flex-1"
+              value={previewLanguage}
+              onChange={(e) => setPreviewLanguage(e.target.value as Language)}
+            >
+              {enabledLanguages.map((language) => (
+                <option key={language.code} value={language.code}>
+                  {language.name}
+                </option>
+              ))}
+            </select>
+            <select className="input flex-1" value={previewVoiceId} onChange={(e) => setPreviewVoiceId(e.target.value)}>
+              <option value="">Default narration voice</option>
+              {voices.map((voice) => (
+                <option key={voice.id} value={voice.elevenlabsVoiceId}>
+                  {voice.name}
+                </option>
+              ))}
+            </select>
+            <button
+              className="btn btn-primary inline-flex items-center justify-center gap-2"
+              onClick={handlePreview}
+              disabled={preview.isPending || !previewText.trim()}
+            >
+              {preview.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Play
+            </button>
+          </div>
+          {spokenText !== null && (
+            <p className="text-xs text-text-muted">
+              Sent to the voice: <span className="text-text-secondary">{spokenText}</span>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import { KeyRound, Plus, Copy, RefreshCw, Trash2, AlertTriangle } from 'lucide-react';
+import { WidgetApiKey } from '@prisma/client';
+
+export type WidgetApiKeySummary = Omit<WidgetApiKey, 'keyHash' | 'organizationId' | 'updatedAt'>;
+
+interface WidgetApiKeysProps {
+  orgSlug: string;
+  initialKeys: WidgetApiKeySummary[];
+}
+
+export function WidgetApiKeys({ orgSlug, initialKeys }: WidgetApiKeysProps) {
+  const [keys, setKeys] = useState(initialKeys);
+  const [newKeyName, setNewKeyName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [processingKeys, setProcessingKeys] = useState<Set<string>>(new Set());
+  // Raw key is only available right after create/rotate
+  const [revealedKey, setRevealedKey] = useState<{ name: string; apiKey: string } | null>(null);
+  const [copiedKey, setCopiedKey] = useState(false);
+
+  const setProcessing = (keyId: string, processing: boolean) => {
+    setProcessingKeys(prev => {
+      const next = new Set(prev);
+      if (processing) {
+        next.add(keyId);
+      } else {
+        next.delete(keyId);
+      }
+      return next;
+    });
+  };
+
+  const handleCreateKey = async () => {
+    if (!newKeyName.trim()) return;
+    setIsCreating(true);
+
+    try {
+      const response = await fetch(`/api/organizations/${orgSlug}/widget-keys`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newKeyName.trim() }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create widget API key');
+      }
+
+      setKeys(prev => [data.key, ...prev]);
+      setRevealedKey({ name: data.key.name, apiKey: data.apiKey });
+      setNewKeyName('');
+    } catch (error) {
+      console.error('Error creating widget API key:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create widget API key');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRotateKey = async (keyId: string) => {
+    if (!confirm('Rotate this key? The current key stops working immediately.')) return;
+    setProcessing(keyId, true);
+
+    try {
+      const response = await fetch(`/api/organizations/${orgSlug}/widget-keys/${keyId}/rotate`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to rotate widget API key');
+      }
+
+      setKeys(prev => [
+        data.key,
+        ...prev.map(key => (key.id === keyId ? { ...key, revokedAt: new Date() } : key)),
+      ]);
+      setRevealedKey({ name: data.key.name, apiKey: data.apiKey });
+    } catch (error) {
+      console.error('Error rotating widget API key:', error);
+      alert(error instanceof Error ? error.message : 'Failed to rotate widget API key');
+    } finally {
+      setProcessing(keyId, false);
+    }
+  };
+
+  const handleRevokeKey = async (keyId: string) => {
+    if (!confirm('Revoke this key? Widgets using it will stop loading content.')) return;
+    setProcessing(keyId, true);
+
+    try {
+      const response = await fetch(`/api/organizations/${orgSlug}/widget-keys/${keyId}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke widget API key');
+      }
+
+      setKeys(prev => prev.map(key => (key.id === keyId ? { ...key, revokedAt: new Date() } : key)));
+    } catch (error) {
+      console.error('Error revoking widget API key:', error);
+      alert(error instanceof Error ? error.message : 'Failed to revoke widget API key');
+    } finally {
+      setProcessing(keyId, false);
+    }
+  };
+
+  const handleCopyRevealedKey = async () => {
+    if (!revealedKey) return;
+    await navigator.clipboard.writeText(revealedKey.apiKey);
+    setCopiedKey(true);
+    setTimeout(() => setCopiedKey(false), 2000);
+  };
+
+  const formatDate = (date: Date | string | null) => {
+    if (!date) return 'Never';
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 bg-gradient-purple rounded-2xl flex items-center justify-center">
+          <KeyRound className="w-5 h-5 text-white" />
+        </div>
+        <h2 className="text-xl font-semibold text-text-primary">Widget API Keys</h2>
+      </div>
+
+      <p className="text-text-secondary text-sm mb-4">
+        Embedded widgets use an API key to load this organization&apos;s approved content.
+        Pass it to the widget as <code className="text-text-primary">?apiKey=</code> or the{' '}
+        <code className="text-text-primary">x-widget-api-key</code> header.
+      </p>
+
+      {/* Newly created / rotated key */}
+      {revealedKey && (
+        <div className="p-4 mb-4 bg-gold/10 border border-gold/30 rounded-xl">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="w-4 h-4 text-gold" />
+            <p className="text-sm text-text-primary font-medium">
+              Copy the key for &quot;{revealedKey.name}&quot; now - it won&apos;t be shown again
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input type="text" className="input flex-1 font-mono text-sm" value={revealedKey.apiKey} readOnly />
+            <button className="btn btn-secondary inline-flex items-center gap-2" onClick={handleCopyRevealedKey}>
+              <Copy className="w-4 h-4" />
+              {copiedKey ? 'Copied!' : 'Copy'}
+            </button>
+            <button className="btn btn-secondary" onClick={() => setRevealedKey(null)}>
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Create key */}
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          className="input flex-1"
+          placeholder="Key name (e.g. Production app)"
+          value={newKeyName}
+          onChange={(e) => setNewKeyName(e.target.value)}
+          disabled={isCreating}
+        />
+        <button
+          className="btn btn-primary inline-flex items-center gap-2"
+          onClick={handleCreateKey}
+          disabled={isCreating || !newKeyName.trim()}
+        >
+          <Plus className="w-4 h-4" />
+          {isCreating ? 'Creating...' : 'Create Key'}
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {keys.length > 0 ? (
+          keys.map((key) => {
+            const isProcessing = processingKeys.has(key.id);
+            const isRevoked = !!key.revokedAt;
+
+            return (
+              <div
+                key={key.id}
+                className={`flex items-center justify-between p-4 bg-surface-secondary rounded-xl ${isRevoked ? 'opacity-50' : ''}`}
+              >
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <p className="text-text-primary font-medium">{key.name}</p>
+                    {isRevoked && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-500/20 text-red-500">
+                        Revoked
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4 text-xs text-text-muted">
+                    <span className="font-mono">{key.keyPrefix}...</span>
+                    <span>Created: {formatDate(key.createdAt)}</span>
+                    <span>Last used: {formatDate(key.lastUsedAt)}</span>
+                  </div>
+                </div>
+                {!isRevoked && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      className="btn btn-secondary inline-flex items-center gap-2"
+                      onClick={() => handleRotateKey(key.id)}
+                      disabled={isProcessing}
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      Rotate
+                    </button>
+                    <button
+                      className="btn bg-red-500/20 text-red-500 hover:bg-red-500/30 inline-flex items-center gap-2"
+                      onClick={() => handleRevokeKey(key.id)}
+                      disabled={isProcessing}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Revoke
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        ) : (
+          <p className="text-text-muted text-sm">No widget API keys yet</p>
+        )}
+      </div>
+    </div>
+  );
+}
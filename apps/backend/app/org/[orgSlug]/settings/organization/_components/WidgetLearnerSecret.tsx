@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { UserCheck, Copy, RefreshCw, Trash2, AlertTriangle } from 'lucide-react';
+
+interface WidgetLearnerSecretProps {
+  orgSlug: string;
+  // When the current secret was generated (null if learner tokens aren't set up)
+  initialCreatedAt: Date | null;
+}
+
+export function WidgetLearnerSecret({ orgSlug, initialCreatedAt }: WidgetLearnerSecretProps) {
+  const [createdAt, setCreatedAt] = useState<Date | string | null>(initialCreatedAt);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // Raw secret is only available right after it is generated
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [copiedSecret, setCopiedSecret] = useState(false);
+
+  const handleGenerateSecret = async () => {
+    if (createdAt && !confirm('Rotate the secret? Learner tokens signed with the current secret stop working immediately.')) {
+      return;
+    }
+    setIsProcessing(true);
+
+    try {
+      const response = await fetch(`/api/organizations/${orgSlug}/widget-learner-secret`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate learner token secret');
+      }
+
+      setCreatedAt(data.createdAt);
+      setRevealedSecret(data.secret);
+    } catch (error) {
+      console.error('Error generating learner token secret:', error);
+      alert(error instanceof Error ? error.message : 'Failed to generate learner token secret');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRemoveSecret = async () => {
+    if (!confirm('Remove the secret? Learners will no longer be signed in and their progress won\'t be saved.')) return;
+    setIsProcessing(true);
+
+    try {
+      const response = await fetch(`/api/organizations/${orgSlug}/widget-learner-secret`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove learner token secret');
+      }
+
+      setCreatedAt(null);
+      setRevealedSecret(null);
+    } catch (error) {
+      console.error('Error removing learner token secret:', error);
+      alert(error instanceof Error ? error.message : 'Failed to remove learner token secret');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret);
+    setCopiedSecret(true);
+    setTimeout(() => setCopiedSecret(false), 2000);
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 bg-gradient-blue rounded-2xl flex items-center justify-center">
+          <UserCheck className="w-5 h-5 text-white" />
+        </div>
+        <h2 className="text-xl font-semibold text-text-primary">Learner Token Secret</h2>
+      </div>
+
+      <p className="text-text-secondary text-sm mb-4">
+        Your app signs a short-lived HS256 JWT with this secret to tell the widget who the learner is
+        (<code className="text-text-primary">sub</code> = your user ID, <code className="text-text-primary">name</code> = display
+        name, <code className="text-text-primary">exp</code> = expiry). Pass it as{' '}
+        <code className="text-text-primary">?learnerToken=</code> or the{' '}
+        <code className="text-text-primary">x-widget-learner-token</code> header. Progress, XP and streaks are saved per learner.
+      </p>
+
+      {/* Newly generated secret */}
+      {revealedSecret && (
+        <div className="p-4 mb-4 bg-gold/10 border border-gold/30 rounded-xl">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="w-4 h-4 text-gold" />
+            <p className="text-sm text-text-primary font-medium">
+              Copy the secret now - it won&apos;t be shown again. Keep it on your servers only.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input type="text" className="input flex-1 font-mono text-sm" value={revealedSecret} readOnly />
+            <button className="btn btn-secondary inline-flex items-center gap-2" onClick={handleCopySecret}>
+              <Copy className="w-4 h-4" />
+              {copiedSecret ? 'Copied!' : 'Copy'}
+            </button>
+            <button className="btn btn-secondary" onClick={() => setRevealedSecret(null)}>
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between p-4 bg-surface-secondary rounded-xl">
+        <p className="text-sm text-text-muted">
+          {createdAt
+            ? `Secret generated ${new Date(createdAt).toLocaleDateString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric',
+              })}`
+            : 'No secret yet - learners are anonymous'}
+        </p>
+        <div className="flex items-center gap-2">
+          <button
+            className="btn btn-secondary inline-flex items-center gap-2"
+            onClick={handleGenerateSecret}
+            disabled={isProcessing}
+          >
+            <RefreshCw className="w-4 h-4" />
+            {createdAt ? 'Rotate' : 'Generate Secret'}
+          </button>
+          {createdAt && (
+            <button
+              className="btn bg-red-500/20 text-red-500 hover:bg-red-500/30 inline-flex items-center gap-2"
+              onClick={handleRemoveSecret}
+              disabled={isProcessing}
+            >
+              <Trash2 className="w-4 h-4" />
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
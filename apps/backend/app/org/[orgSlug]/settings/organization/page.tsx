@@ -1,4 +1,6 @@
-import { getCurrentOrg } from '@/lib/context/org-context';
+import { getUser } from '@/app/auth/actions';
+import { getCurrentOrg, getMemberPermissions, isOrgOwner } from '@/lib/context/org-context';
+import { profileService } from '@/lib/services/profile.service';
 import { OrganizationForm } from './_components/OrganizationForm';
 import { prisma } from '@repo/database';
 
@@ -7,6 +9,12 @@ export default async function OrgOrganizationSettingsPage({ params }: { params:
 
   // Fetch organization data
   const organization = await getCurrentOrg(orgSlug);
+  const user = await getUser();
+
+  // What the viewer may change - the API enforces the same checks
+  const [viewerPermissions, viewerIsOwner] = user
+    ? await Promise.all([getMemberPermissions(user.id, organization.id), isOrgOwner(user.id, organization.id)])
+    : [[], false];
 
   // Fetch members with profile data
   const members = await prisma.organizationMember.findMany({
@@ -19,6 +27,12 @@ export default async function OrgOrganizationSettingsPage({ params }: { params:
           fullName: true,
         },
       },
+      customRole: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
     },
     orderBy: [{ role: 'asc' }, { joinedAt: 'asc' }],
   });
@@ -52,12 +66,42 @@ export default async function OrgOrganizationSettingsPage({ params }: { params:
     orderBy: { createdAt: 'desc' },
   });
 
+  // Fetch widget API keys (hash is never sent to the client)
+  const widgetApiKeys = await prisma.widgetApiKey.findMany({
+    where: { organizationId: organization.id },
+    select: {
+      id: true,
+      name: true,
+      keyPrefix: true,
+      createdBy: true,
+      lastUsedAt: true,
+      revokedAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  // Only whether a learner token secret exists - the secret itself stays server-side
+  const widgetLearnerSecret = await prisma.widgetLearnerSecret.findUnique({
+    where: { organizationId: organization.id },
+    select: { createdAt: true },
+  });
+
+  const customRoles = await profileService.getCustomRoles(organization.id);
+
   return (
     <OrganizationForm
       organization={organization}
       members={members}
       joinRequests={joinRequests}
       invitations={invitations}
+      widgetApiKeys={widgetApiKeys}
+      learnerSecretCreatedAt={widgetLearnerSecret?.createdAt ?? null}
+      customRoles={customRoles}
+      canManageMembers={viewerPermissions.includes('members.manage')}
+      canManageSettings={viewerPermissions.includes('settings.manage')}
+      canManageBrand={viewerPermissions.includes('brand.manage')}
+      isOwner={viewerIsOwner}
     />
   );
 }
@@ -1,5 +1,5 @@
 import { getUserAndProfile } from '@/app/auth/actions';
-import { User, Mail, Shield, LogOut } from 'lucide-react';
+import { User, Mail, Shield, LogOut, ScrollText } from 'lucide-react';
 import Link from 'next/link';
 
 export default async function OrgSettingsPage({ params }: { params: Promise<{ orgSlug: string }> }) {
@@ -77,6 +77,21 @@ export default async function OrgSettingsPage({ params }: { params: Promise<{ or
         </Link>
       </div>
 
+      {/* Audit Log Link */}
+      <div className="card p-6 mb-6">
+        <h2 className="text-xl font-semibold text-text-primary mb-4">Audit Log</h2>
+        <p className="text-text-secondary mb-4">
+          Review who changed content, members and keys, and export the log as CSV (admins only)
+        </p>
+        <Link
+          href={`/org/${orgSlug}/settings/audit`}
+          className="btn btn-secondary inline-flex items-center gap-2"
+        >
+          <ScrollText className="w-4 h-4" />
+          Audit Log
+        </Link>
+      </div>
+
       {/* Leave Organization */}
       <div className="card p-6 border-2 border-red-500/20">
         <div className="flex items-center gap-3 mb-4">
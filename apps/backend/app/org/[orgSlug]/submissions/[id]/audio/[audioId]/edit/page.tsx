@@ -8,13 +8,14 @@ import {
   useTags,
   useAddAudioTag,
   useRemoveAudioTag,
-  useApproveAudio,
-  useUnapproveAudio,
 } from '@/lib/api/hooks';
 import type { Tag } from '@/lib/api/types';
 import { useToast } from '@/components/ui/ToastContainer';
 import { MediaEditLayout } from '@/components/layout/MediaEditLayout';
+import { PublishScheduleButton } from '@/components/ui/PublishScheduleButton';
 import { AudioPlayer } from '@/components/media/AudioPlayer';
+import { ReviewStatusControl } from '@/components/review/ReviewStatusControl';
+import { ReviewPanel } from '@/components/review/ReviewPanel';
 
 interface TagManagerProps {
   tags: Tag[];
@@ -116,8 +117,6 @@ export default function OrgAudioEditPage() {
   // Mutations
   const addAudioTag = useAddAudioTag(orgSlug);
   const removeAudioTag = useRemoveAudioTag(orgSlug);
-  const approveAudio = useApproveAudio(orgSlug);
-  const unapproveAudio = useUnapproveAudio(orgSlug);
 
   // Loading state
   if (submissionLoading || tagsLoading) {
@@ -186,36 +185,28 @@ export default function OrgAudioEditPage() {
     );
   };
 
-  // Approval handlers
-  const handleApprove = () => {
-    approveAudio.mutate(
-      { submissionId, audioId },
-      {
-        onSuccess: () => toast.success('Audio approved', 'Audio output has been approved'),
-        onError: (error: any) => toast.error('Failed to approve audio', error?.message || 'Please try again'),
-      }
-    );
-  };
-
-  const handleUnapprove = () => {
-    unapproveAudio.mutate(
-      { submissionId, audioId },
-      {
-        onSuccess: () => toast.success('Approval withdrawn', 'Audio approval has been withdrawn'),
-        onError: (error: any) => toast.error('Failed to withdraw approval', error?.message || 'Please try again'),
-      }
-    );
-  };
-
   return (
     <MediaEditLayout
       title={submission.article?.title ? `${submission.article.title} - Audio` : 'Audio Narration'}
       backUrl={`/org/${orgSlug}/submissions/${submissionId}`}
-      isApproved={audio.isApproved}
-      approvedAt={audio.approvedAt}
-      onApprove={handleApprove}
-      onUnapprove={handleUnapprove}
-      isApproving={approveAudio.isPending || unapproveAudio.isPending}
+      scheduleControl={
+        <PublishScheduleButton
+          orgSlug={orgSlug}
+          contentType="audio"
+          contentId={audioId}
+          publishAt={audio.publishAt}
+          expiresAt={audio.expiresAt}
+        />
+      }
+      reviewControl={
+        <ReviewStatusControl
+          orgSlug={orgSlug}
+          submissionId={submissionId}
+          outputType="audio"
+          outputId={audioId}
+          status={audio.reviewStatus || 'DRAFT'}
+        />
+      }
       showPreviewButton={false}
     >
       <div className="space-y-6">
@@ -236,6 +227,8 @@ export default function OrgAudioEditPage() {
           <h2 className="text-lg font-semibold text-text-primary mb-4">Audio</h2>
           <AudioPlayer output={audio} />
         </div>
+
+        <ReviewPanel orgSlug={orgSlug} outputType="audio" outputId={audioId} anchorTypes={['SCRIPT_LINE']} />
       </div>
     </MediaEditLayout>
   );
@@ -13,19 +13,21 @@ import {
   useRegenerateInteractivePodcastScript,
   useRegenerateInteractivePodcastMedia,
   useGenerateInteractivePodcastMedia,
-  useApproveInteractivePodcast,
-  useUnapproveInteractivePodcast,
   useRegenerateInteractivePodcastThumbnail,
   useUploadInteractivePodcastThumbnail,
 } from '@/lib/api/hooks';
 import type { Tag } from '@/lib/api/types';
 import { useToast } from '@/components/ui/ToastContainer';
 import { MediaEditLayout } from '@/components/layout/MediaEditLayout';
+import { ReviewStatusControl } from '@/components/review/ReviewStatusControl';
+import { ReviewPanel } from '@/components/review/ReviewPanel';
+import { PublishScheduleButton } from '@/components/ui/PublishScheduleButton';
 import { MediaPreviewModal } from '@/components/preview/MediaPreviewModal';
 import { InteractivePodcastPlayer, type PodcastData } from '@repo/interactive-podcast-player';
 import { ScriptEditor } from '@/components/script-editor/ScriptEditor';
 import { AIPromptBox } from '@/components/script-editor/AIPromptBox';
 import { RegenerateMediaButton } from '@/components/script-editor/RegenerateMediaButton';
+import { RevisionHistory } from '@/components/script-editor/RevisionHistory';
 import { ThumbnailManager } from '@/components/media/ThumbnailManager';
 import { InteractivePodcastAudioPlayer } from '@/components/media/InteractivePodcastAudioPlayer';
 import { VoiceSelector, getDefaultInteractivePodcastVoiceFromList, type SingleVoiceSelection } from '@/components/audio/VoiceSelector';
@@ -148,8 +150,6 @@ export default function OrgInteractivePodcastEditPage() {
   const regenerateInteractivePodcastScript = useRegenerateInteractivePodcastScript(orgSlug);
   const regenerateInteractivePodcastMedia = useRegenerateInteractivePodcastMedia(orgSlug);
   const generateInteractivePodcastMedia = useGenerateInteractivePodcastMedia(orgSlug);
-  const approveInteractivePodcast = useApproveInteractivePodcast(orgSlug);
-  const unapproveInteractivePodcast = useUnapproveInteractivePodcast(orgSlug);
   const regenerateInteractivePodcastThumbnail = useRegenerateInteractivePodcastThumbnail(orgSlug);
   const uploadInteractivePodcastThumbnail = useUploadInteractivePodcastThumbnail(orgSlug);
 
@@ -220,27 +220,6 @@ export default function OrgInteractivePodcastEditPage() {
     );
   };
 
-  // Approval handlers
-  const handleApprove = () => {
-    approveInteractivePodcast.mutate(
-      { submissionId, ipId },
-      {
-        onSuccess: () => toast.success('Interactive podcast approved', 'Interactive podcast output has been approved'),
-        onError: (error: any) => toast.error('Failed to approve interactive podcast', error?.message || 'Please try again'),
-      }
-    );
-  };
-
-  const handleUnapprove = () => {
-    unapproveInteractivePodcast.mutate(
-      { submissionId, ipId },
-      {
-        onSuccess: () => toast.success('Approval withdrawn', 'Interactive podcast approval has been withdrawn'),
-        onError: (error: any) => toast.error('Failed to withdraw approval', error?.message || 'Please try again'),
-      }
-    );
-  };
-
   // Script handlers
   // Extract the full script from segments
   const extractScript = (segments: any): string => {
@@ -344,11 +323,26 @@ export default function OrgInteractivePodcastEditPage() {
       <MediaEditLayout
         title={interactivePodcast.title || submission.article?.title || 'Interactive Podcast'}
         backUrl={`/org/${orgSlug}/submissions/${submissionId}`}
-        isApproved={interactivePodcast.isApproved}
-        approvedAt={interactivePodcast.approvedAt}
-        onApprove={isCompleted ? handleApprove : undefined}
-        onUnapprove={isCompleted ? handleUnapprove : undefined}
-        isApproving={approveInteractivePodcast.isPending || unapproveInteractivePodcast.isPending}
+        scheduleControl={
+          <PublishScheduleButton
+            orgSlug={orgSlug}
+            contentType="interactive-podcast"
+            contentId={ipId}
+            publishAt={interactivePodcast.publishAt}
+            expiresAt={interactivePodcast.expiresAt}
+          />
+        }
+        reviewControl={
+          isCompleted && (
+            <ReviewStatusControl
+              orgSlug={orgSlug}
+              submissionId={submissionId}
+              outputType="interactive-podcast"
+              outputId={ipId}
+              status={interactivePodcast.reviewStatus || 'DRAFT'}
+            />
+          )
+        }
       >
       <div className="space-y-6">
         {/* Status Banner for SCRIPT_READY */}
@@ -503,6 +497,22 @@ export default function OrgInteractivePodcastEditPage() {
             }}
           />
         )}
+
+        <RevisionHistory
+          orgSlug={orgSlug}
+          outputType="interactive-podcast"
+          outputId={ipId}
+          submissionId={submissionId}
+          canRegenerateMedia={isCompleted}
+          disabled={isProcessing}
+        />
+
+        <ReviewPanel
+          orgSlug={orgSlug}
+          outputType="interactive-podcast"
+          outputId={ipId}
+          anchorTypes={['SCRIPT_LINE']}
+        />
       </div>
     </MediaEditLayout>
 
@@ -2,7 +2,7 @@
 
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Loader2, Clock, CheckCircle2, XCircle } from 'lucide-react';
+import { ArrowLeft, Loader2, Clock, CheckCircle2, XCircle, Languages } from 'lucide-react';
 import { useSubmission } from '@/lib/api/hooks';
 import { MediaCard } from '@/components/media/MediaCard';
 
@@ -91,6 +91,8 @@ export default function OrgSubmissionDetailPage() {
     isApproved?: boolean;
     duration: string | null;
     articleId?: string;
+    captionsVttUrl?: string | null;
+    captionsSrtUrl?: string | null;
   }> = [];
 
   // Article (if available)
@@ -117,6 +119,8 @@ export default function OrgSubmissionDetailPage() {
       status: video.status,
       isApproved: video.isApproved,
       duration: video.duration ? `${Math.floor(video.duration / 60)}:${(video.duration % 60).toString().padStart(2, '0')}` : null,
+      captionsVttUrl: video.captionsVttUrl,
+      captionsSrtUrl: video.captionsSrtUrl,
     });
   });
 
@@ -142,6 +146,8 @@ export default function OrgSubmissionDetailPage() {
       status: podcast.status,
       isApproved: podcast.isApproved,
       duration: podcast.duration ? `${Math.floor(podcast.duration / 60)} min` : null,
+      captionsVttUrl: podcast.captionsVttUrl,
+      captionsSrtUrl: podcast.captionsSrtUrl,
     });
   });
 
@@ -167,10 +173,14 @@ export default function OrgSubmissionDetailPage() {
       isApproved: ip.isApproved,
       duration: ip.duration ? `${Math.floor(ip.duration / 60)} min` : null,
       thumbnailUrl: ip.thumbnailUrl,
+      captionsVttUrl: ip.captionsVttUrl,
+      captionsSrtUrl: ip.captionsSrtUrl,
     });
   });
 
   const hasMediaOutputs = mediaCards.length > 0;
+  // Side-by-side language review opens on the first output type this submission has
+  const familyReviewType = mediaCards.find((card) => card.type !== 'article')?.type ?? 'video';
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
@@ -194,6 +204,15 @@ export default function OrgSubmissionDetailPage() {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            {submission.article && (
+              <Link
+                href={`/org/${orgSlug}/articles/${submission.article.id}/review/${familyReviewType}`}
+                className="btn btn-secondary inline-flex items-center gap-2 text-sm"
+              >
+                <Languages className="w-4 h-4" />
+                Review all languages
+              </Link>
+            )}
             <StatusBadge status={submission.status} />
           </div>
         </div>
@@ -218,6 +237,8 @@ export default function OrgSubmissionDetailPage() {
                 submissionId={submissionId}
                 articleId={card.articleId}
                 duration={card.duration}
+                captionsVttUrl={card.captionsVttUrl}
+                captionsSrtUrl={card.captionsSrtUrl}
                 orgSlug={orgSlug}
               />
             ))}
@@ -13,18 +13,20 @@ import {
   useRegeneratePodcastScript,
   useRegeneratePodcastMedia,
   useGeneratePodcastMedia,
-  useApprovePodcast,
-  useUnapprovePodcast,
   useRegeneratePodcastThumbnail,
   useUploadPodcastThumbnail,
 } from '@/lib/api/hooks';
 import type { Tag } from '@/lib/api/types';
 import { useToast } from '@/components/ui/ToastContainer';
 import { MediaEditLayout } from '@/components/layout/MediaEditLayout';
+import { ReviewStatusControl } from '@/components/review/ReviewStatusControl';
+import { ReviewPanel } from '@/components/review/ReviewPanel';
+import { PublishScheduleButton } from '@/components/ui/PublishScheduleButton';
 import { PodcastPlayer } from '@/components/media/PodcastPlayer';
 import { TranscriptEditor } from '@/components/script-editor/TranscriptEditor';
 import { AIPromptBox } from '@/components/script-editor/AIPromptBox';
 import { RegenerateMediaButton } from '@/components/script-editor/RegenerateMediaButton';
+import { RevisionHistory } from '@/components/script-editor/RevisionHistory';
 import { ThumbnailManager } from '@/components/media/ThumbnailManager';
 import { VoiceSelector, getDefaultPodcastVoicesFromList, type PodcastVoiceSelection } from '@/components/audio/VoiceSelector';
 
@@ -146,8 +148,6 @@ export default function OrgPodcastEditPage() {
   const regeneratePodcastScript = useRegeneratePodcastScript(orgSlug);
   const regeneratePodcastMedia = useRegeneratePodcastMedia(orgSlug);
   const generatePodcastMedia = useGeneratePodcastMedia(orgSlug);
-  const approvePodcast = useApprovePodcast(orgSlug);
-  const unapprovePodcast = useUnapprovePodcast(orgSlug);
   const regeneratePodcastThumbnail = useRegeneratePodcastThumbnail(orgSlug);
   const uploadPodcastThumbnail = useUploadPodcastThumbnail(orgSlug);
 
@@ -218,27 +218,6 @@ export default function OrgPodcastEditPage() {
     );
   };
 
-  // Approval handlers
-  const handleApprove = () => {
-    approvePodcast.mutate(
-      { submissionId, podcastId },
-      {
-        onSuccess: () => toast.success('Podcast approved', 'Podcast output has been approved'),
-        onError: (error: any) => toast.error('Failed to approve podcast', error?.message || 'Please try again'),
-      }
-    );
-  };
-
-  const handleUnapprove = () => {
-    unapprovePodcast.mutate(
-      { submissionId, podcastId },
-      {
-        onSuccess: () => toast.success('Approval withdrawn', 'Podcast approval has been withdrawn'),
-        onError: (error: any) => toast.error('Failed to withdraw approval', error?.message || 'Please try again'),
-      }
-    );
-  };
-
   // Transcript handlers
   const handleSaveTranscript = (newTranscript: string) => {
     updatePodcastScript.mutate(
@@ -313,11 +292,26 @@ export default function OrgPodcastEditPage() {
     <MediaEditLayout
       title={podcast.title || submission.article?.title || 'Podcast'}
       backUrl={`/org/${orgSlug}/submissions/${submissionId}`}
-      isApproved={podcast.isApproved}
-      approvedAt={podcast.approvedAt}
-      onApprove={isCompleted ? handleApprove : undefined}
-      onUnapprove={isCompleted ? handleUnapprove : undefined}
-      isApproving={approvePodcast.isPending || unapprovePodcast.isPending}
+      scheduleControl={
+        <PublishScheduleButton
+          orgSlug={orgSlug}
+          contentType="podcast"
+          contentId={podcastId}
+          publishAt={podcast.publishAt}
+          expiresAt={podcast.expiresAt}
+        />
+      }
+      reviewControl={
+        isCompleted && (
+          <ReviewStatusControl
+            orgSlug={orgSlug}
+            submissionId={submissionId}
+            outputType="podcast"
+            outputId={podcastId}
+            status={podcast.reviewStatus || 'DRAFT'}
+          />
+        )
+      }
       showPreviewButton={false}
     >
       <div className="space-y-6">
@@ -467,6 +461,22 @@ export default function OrgPodcastEditPage() {
             }}
           />
         )}
+
+        <RevisionHistory
+          orgSlug={orgSlug}
+          outputType="podcast"
+          outputId={podcastId}
+          submissionId={submissionId}
+          canRegenerateMedia={isCompleted}
+          disabled={isProcessing}
+        />
+
+        <ReviewPanel
+          orgSlug={orgSlug}
+          outputType="podcast"
+          outputId={podcastId}
+          anchorTypes={['SCRIPT_LINE']}
+        />
       </div>
     </MediaEditLayout>
   );
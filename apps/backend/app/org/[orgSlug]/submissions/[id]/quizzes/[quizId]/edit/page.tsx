@@ -9,13 +9,16 @@ import {
   useAddQuizTag,
   useRemoveQuizTag,
   useUpdateQuiz,
-  useApproveQuiz,
-  useUnapproveQuiz,
+  useQuizItemAnalysis,
 } from '@/lib/api/hooks';
 import type { Tag, QuizQuestion } from '@/lib/api/types';
 import { useToast } from '@/components/ui/ToastContainer';
 import { MediaEditLayout } from '@/components/layout/MediaEditLayout';
+import { ReviewStatusControl } from '@/components/review/ReviewStatusControl';
+import { ReviewPanel } from '@/components/review/ReviewPanel';
+import { PublishScheduleButton } from '@/components/ui/PublishScheduleButton';
 import { MediaPreviewModal } from '@/components/preview/MediaPreviewModal';
+import { ItemAnalysisPanel } from '@/components/media/ItemAnalysisPanel';
 import { QuizPlayer, type Question } from '@repo/quiz-player';
 
 interface TagManagerProps {
@@ -119,13 +122,12 @@ export default function OrgQuizEditPage() {
   // Data fetching
   const { data: submission, isLoading: submissionLoading } = useSubmission(orgSlug, submissionId);
   const { data: allTags = [], isLoading: tagsLoading } = useTags(orgSlug);
+  const { data: itemAnalysis } = useQuizItemAnalysis(orgSlug, submissionId, quizId);
 
   // Mutations
   const addQuizTag = useAddQuizTag(orgSlug);
   const removeQuizTag = useRemoveQuizTag(orgSlug);
   const updateQuiz = useUpdateQuiz(orgSlug);
-  const approveQuiz = useApproveQuiz(orgSlug);
-  const unapproveQuiz = useUnapproveQuiz(orgSlug);
 
   // Loading state
   if (submissionLoading || tagsLoading) {
@@ -163,6 +165,8 @@ export default function OrgQuizEditPage() {
 
   const quizTags = quiz.tags?.map((t) => t.tag) || [];
   const questions = quiz.questions || [];
+  const questionAnalysis = new Map(itemAnalysis?.questions.map((analysis) => [analysis.itemId, analysis]));
+  const videosWithBubbles = itemAnalysis?.videos || [];
 
   // Tag handlers
   const handleAddTag = (tagId: string) => {
@@ -243,27 +247,6 @@ export default function OrgQuizEditPage() {
     }
   };
 
-  // Approval handlers
-  const handleApprove = () => {
-    approveQuiz.mutate(
-      { submissionId, quizId },
-      {
-        onSuccess: () => toast.success('Quiz approved', 'Quiz output has been approved'),
-        onError: (error: any) => toast.error('Failed to approve quiz', error?.message || 'Please try again'),
-      }
-    );
-  };
-
-  const handleUnapprove = () => {
-    unapproveQuiz.mutate(
-      { submissionId, quizId },
-      {
-        onSuccess: () => toast.success('Approval withdrawn', 'Quiz approval has been withdrawn'),
-        onError: (error: any) => toast.error('Failed to withdraw approval', error?.message || 'Please try again'),
-      }
-    );
-  };
-
   // Transform data for preview
   const quizQuestions: Question[] = (quiz.questions as any[]).map((q: any) => ({
     type: q.type,
@@ -279,11 +262,24 @@ export default function OrgQuizEditPage() {
       <MediaEditLayout
         title={submission.article?.title ? `${submission.article.title} - Quiz` : 'Quiz'}
         backUrl={`/org/${orgSlug}/submissions/${submissionId}`}
-        isApproved={quiz.isApproved}
-        approvedAt={quiz.approvedAt}
-        onApprove={handleApprove}
-        onUnapprove={handleUnapprove}
-        isApproving={approveQuiz.isPending || unapproveQuiz.isPending}
+        scheduleControl={
+          <PublishScheduleButton
+            orgSlug={orgSlug}
+            contentType="quiz"
+            contentId={quizId}
+            publishAt={quiz.publishAt}
+            expiresAt={quiz.expiresAt}
+          />
+        }
+        reviewControl={
+          <ReviewStatusControl
+            orgSlug={orgSlug}
+            submissionId={submissionId}
+            outputType="quiz"
+            outputId={quizId}
+            status={quiz.reviewStatus || 'DRAFT'}
+          />
+        }
       >
       <div className="space-y-6">
         {/* Tags Section */}
@@ -494,6 +490,11 @@ export default function OrgQuizEditPage() {
                                 </div>
                               </div>
                             )}
+
+                            {/* Learner answer stats */}
+                            <div className="mt-4">
+                              <ItemAnalysisPanel analysis={questionAnalysis.get(question.id)} />
+                            </div>
                           </>
                         )}
                       </div>
@@ -504,6 +505,34 @@ export default function OrgQuizEditPage() {
             </div>
           </div>
         )}
+
+        {/* Video bubble stats for the same article */}
+        {videosWithBubbles.map((video) => (
+          <div key={video.videoOutputId} className="card p-6">
+            <h2 className="text-lg font-semibold text-text-primary mb-4">
+              Video Bubbles{video.title ? ` - ${video.title}` : ''} ({video.bubbles.length})
+            </h2>
+            <div className="space-y-4">
+              {video.bubbles.map((bubble, index) => (
+                <div key={bubble.itemId} className="bg-white-10 rounded-xl p-4 sm:p-6">
+                  <p className="text-text-primary font-medium mb-4">
+                    <span className="text-blue-accent font-bold mr-2">{index + 1}.</span>
+                    {bubble.label}
+                  </p>
+                  <ItemAnalysisPanel analysis={bubble} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <ReviewPanel
+          orgSlug={orgSlug}
+          outputType="quiz"
+          outputId={quizId}
+          anchorTypes={['QUIZ_QUESTION']}
+          questions={questions.map((question, index) => ({ id: question.id, label: `Q${index + 1}: ${question.prompt}` }))}
+        />
       </div>
     </MediaEditLayout>
 
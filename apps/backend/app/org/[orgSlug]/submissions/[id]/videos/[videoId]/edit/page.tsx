@@ -13,20 +13,23 @@ import {
   useRegenerateVideoScript,
   useRegenerateVideoMedia,
   useGenerateVideoMedia,
-  useApproveVideo,
-  useUnapproveVideo,
   useRegenerateVideoThumbnail,
   useUploadVideoThumbnail,
 } from '@/lib/api/hooks';
 import type { Tag, VideoBubble } from '@/lib/api/types';
 import { useToast } from '@/components/ui/ToastContainer';
 import { MediaEditLayout } from '@/components/layout/MediaEditLayout';
+import { ReviewStatusControl } from '@/components/review/ReviewStatusControl';
+import { ReviewPanel } from '@/components/review/ReviewPanel';
+import { PublishScheduleButton } from '@/components/ui/PublishScheduleButton';
 import { MediaPreviewModal } from '@/components/preview/MediaPreviewModal';
 import { VideoPlayer, type Video as VideoPlayerType, type Bubble } from '@repo/video-player';
 import { ScriptEditor } from '@/components/script-editor/ScriptEditor';
 import { AIPromptBox } from '@/components/script-editor/AIPromptBox';
 import { RegenerateMediaButton } from '@/components/script-editor/RegenerateMediaButton';
+import { RevisionHistory } from '@/components/script-editor/RevisionHistory';
 import { VideoCustomization, VideoCustomizationConfig } from '@/components/video/VideoCustomization';
+import { RenditionDownloads } from '@/components/video/RenditionDownloads';
 import { ThumbnailManager } from '@/components/media/ThumbnailManager';
 
 interface TagManagerProps {
@@ -153,8 +156,6 @@ export default function OrgVideoEditPage() {
   const regenerateVideoScript = useRegenerateVideoScript(orgSlug);
   const regenerateVideoMedia = useRegenerateVideoMedia(orgSlug);
   const generateVideoMedia = useGenerateVideoMedia(orgSlug);
-  const approveVideo = useApproveVideo(orgSlug);
-  const unapproveVideo = useUnapproveVideo(orgSlug);
   const regenerateVideoThumbnail = useRegenerateVideoThumbnail(orgSlug);
   const uploadVideoThumbnail = useUploadVideoThumbnail(orgSlug);
 
@@ -164,7 +165,7 @@ export default function OrgVideoEditPage() {
     if (video) {
       setVideoCustomization({
         characterId: (video as any).characterId || '',
-        captionStyleId: '', // CaptionStyleId is not stored on VideoOutput, user must select
+        captionStyleId: (video as any).captionStyleId || '',
         enableMagicZooms: (video as any).enableMagicZooms ?? true,
         enableMagicBrolls: (video as any).enableMagicBrolls ?? true,
         magicBrollsPercentage: (video as any).magicBrollsPercentage ?? 40,
@@ -175,6 +176,10 @@ export default function OrgVideoEditPage() {
         startBumperDuration: (video as any).startBumperDuration || null,
         endBumperId: (video as any).endBumperId || null,
         endBumperDuration: (video as any).endBumperDuration || null,
+        aspectRatios: (video.renditions ?? [])
+          .map((rendition) => rendition.aspectRatio)
+          .filter((aspectRatio): aspectRatio is 'SQUARE' | 'LANDSCAPE' => aspectRatio !== 'PORTRAIT'),
+        renditionFit: video.renditions?.[0]?.fit ?? 'pad',
       });
     }
   }, [submission, videoId]);
@@ -295,27 +300,6 @@ export default function OrgVideoEditPage() {
     }
   };
 
-  // Approval handlers
-  const handleApprove = () => {
-    approveVideo.mutate(
-      { submissionId, videoId },
-      {
-        onSuccess: () => toast.success('Video approved', 'Video output has been approved'),
-        onError: (error: any) => toast.error('Failed to approve video', error?.message || 'Please try again'),
-      }
-    );
-  };
-
-  const handleUnapprove = () => {
-    unapproveVideo.mutate(
-      { submissionId, videoId },
-      {
-        onSuccess: () => toast.success('Approval withdrawn', 'Video approval has been withdrawn'),
-        onError: (error: any) => toast.error('Failed to withdraw approval', error?.message || 'Please try again'),
-      }
-    );
-  };
-
   // Script handlers
   const handleSaveScript = (newScript: string) => {
     updateVideoScript.mutate(
@@ -388,6 +372,8 @@ export default function OrgVideoEditPage() {
           startBumperDuration: videoCustomization.startBumperDuration,
           endBumperId: videoCustomization.endBumperId,
           endBumperDuration: videoCustomization.endBumperDuration,
+          aspectRatios: videoCustomization.aspectRatios,
+          renditionFit: videoCustomization.renditionFit,
         },
       },
       {
@@ -421,11 +407,26 @@ export default function OrgVideoEditPage() {
       <MediaEditLayout
         title={video.title || submission.article?.title || 'Video'}
         backUrl={`/org/${orgSlug}/submissions/${submissionId}`}
-        isApproved={video.isApproved}
-        approvedAt={video.approvedAt}
-        onApprove={isCompleted ? handleApprove : undefined}
-        onUnapprove={isCompleted ? handleUnapprove : undefined}
-        isApproving={approveVideo.isPending || unapproveVideo.isPending}
+        scheduleControl={
+          <PublishScheduleButton
+            orgSlug={orgSlug}
+            contentType="video"
+            contentId={videoId}
+            publishAt={video.publishAt}
+            expiresAt={video.expiresAt}
+          />
+        }
+        reviewControl={
+          isCompleted && (
+            <ReviewStatusControl
+              orgSlug={orgSlug}
+              submissionId={submissionId}
+              outputType="video"
+              outputId={videoId}
+              status={video.reviewStatus || 'DRAFT'}
+            />
+          )
+        }
         showPreviewButton={false}
       >
       <div className="space-y-6">
@@ -561,6 +562,9 @@ export default function OrgVideoEditPage() {
             <div className="relative max-w-3xl mx-auto">
               <video className="w-full rounded-lg sm:rounded-2xl" style={{ maxHeight: '50vh' }} controls src={video.videoUrl} />
             </div>
+            <div className="mt-4 flex justify-center">
+              <RenditionDownloads orgSlug={orgSlug} videoId={video.id} renditions={video.renditions} />
+            </div>
           </div>
         )}
 
@@ -701,6 +705,22 @@ export default function OrgVideoEditPage() {
             }}
           />
         )}
+
+        <RevisionHistory
+          orgSlug={orgSlug}
+          outputType="video"
+          outputId={videoId}
+          submissionId={submissionId}
+          canRegenerateMedia={isCompleted}
+          disabled={isProcessing}
+        />
+
+        <ReviewPanel
+          orgSlug={orgSlug}
+          outputType="video"
+          outputId={videoId}
+          anchorTypes={['SCRIPT_LINE', 'VIDEO_TIMESTAMP']}
+        />
       </div>
     </MediaEditLayout>
 
@@ -13,22 +13,15 @@ import { CaptionsStep } from '@/components/video-create/CaptionsStep';
 import { SpecialEffectsStep } from '@/components/video-create/SpecialEffectsStep';
 import { MusicStep } from '@/components/video-create/MusicStep';
 import { BumpersStep } from '@/components/video-create/BumpersStep';
+import { FormatsStep } from '@/components/video-create/FormatsStep';
 import { PreviewPanel } from '@/components/video-create/PreviewPanel';
 import { SuccessModal } from '@/components/video-create/SuccessModal';
-import { useCreateStandaloneVideo } from '@repo/api-client/hooks';
+import { useCreateStandaloneVideo, useLanguages } from '@repo/api-client/hooks';
+import type { Language, RenditionFit, VideoAspectRatio } from '@repo/api-client';
 import { useToast } from '@/components/ui/ToastContainer';
 import { usePlatformMode } from '@/lib/context/platform-mode-context';
 
 type ScriptSource = 'prompt' | 'script_file' | 'content_file' | null;
-type Language = 'ENGLISH' | 'MARATHI' | 'HINDI' | 'BENGALI' | 'GUJARATI';
-
-const LANGUAGES: { code: Language; label: string }[] = [
-  { code: 'ENGLISH', label: 'English' },
-  { code: 'HINDI', label: 'Hindi' },
-  { code: 'MARATHI', label: 'Marathi' },
-  { code: 'BENGALI', label: 'Bengali' },
-  { code: 'GUJARATI', label: 'Gujarati' },
-];
 
 interface TranslationData {
   script: string;
@@ -69,6 +62,9 @@ interface VideoCreateDraft {
   endBumperThumbnailUrl: string | null;
   endBumperMediaUrl: string | null;
   endBumperType: 'image' | 'video' | null;
+  // Formats rendered besides portrait
+  aspectRatios: Exclude<VideoAspectRatio, 'PORTRAIT'>[];
+  renditionFit: RenditionFit;
   lastUpdated: string;
 }
 
@@ -104,6 +100,8 @@ const DEFAULT_DRAFT: VideoCreateDraft = {
   endBumperThumbnailUrl: null,
   endBumperMediaUrl: null,
   endBumperType: null,
+  aspectRatios: [],
+  renditionFit: 'pad',
   lastUpdated: new Date().toISOString(),
 };
 
@@ -128,6 +126,12 @@ export default function VideoCreatePage() {
   // API mutation
   const createVideoMutation = useCreateStandaloneVideo(orgSlug);
 
+  // Languages enabled for the org, plus ones a saved draft still selects
+  const { data: languages = [] } = useLanguages(orgSlug);
+  const languageOptions = languages.filter(
+    (lang) => lang.enabled || draft.selectedLanguages.includes(lang.code)
+  );
+
   // Determine back link based on platform mode
   const backLink = mode === 'creative' ? `/org/${orgSlug}/creative` : `/org/${orgSlug}/dashboard`;
 
@@ -169,6 +173,7 @@ export default function VideoCreatePage() {
   const isSpecialEffectsComplete = true; // Always has defaults
   const isMusicComplete = true; // Optional, so always "complete"
   const isBumpersComplete = true; // Optional, so always "complete"
+  const isFormatsComplete = true; // Portrait is always rendered
 
   // Handle script change
   const handleScriptChange = useCallback(
@@ -257,6 +262,15 @@ export default function VideoCreatePage() {
     setDraft((prev) => ({ ...prev, backgroundMusicVolume: volume }));
   }, []);
 
+  // Handle format selection
+  const handleAspectRatiosChange = useCallback((aspectRatios: Exclude<VideoAspectRatio, 'PORTRAIT'>[]) => {
+    setDraft((prev) => ({ ...prev, aspectRatios }));
+  }, []);
+
+  const handleRenditionFitChange = useCallback((renditionFit: RenditionFit) => {
+    setDraft((prev) => ({ ...prev, renditionFit }));
+  }, []);
+
   // Handle bumper selection
   const handleStartBumperSelect = useCallback(
     (
@@ -379,6 +393,8 @@ export default function VideoCreatePage() {
         startBumperDuration: draft.startBumperDuration,
         endBumperId: draft.endBumperId,
         endBumperDuration: draft.endBumperDuration,
+        aspectRatios: draft.aspectRatios,
+        renditionFit: draft.renditionFit,
       });
 
       // Clear localStorage on success
@@ -456,7 +472,7 @@ export default function VideoCreatePage() {
                   Select the languages for your video. A separate video will be created for each language.
                 </p>
                 <div className="flex flex-wrap gap-2">
-                  {LANGUAGES.map((lang) => {
+                  {languageOptions.map((lang) => {
                     const isSelected = draft.selectedLanguages.includes(lang.code);
                     const isOnlySelected = isSelected && draft.selectedLanguages.length === 1;
                     return (
@@ -471,7 +487,7 @@ export default function VideoCreatePage() {
                             : 'bg-white-10 text-text-primary hover:bg-white-20'
                         } ${isOnlySelected ? 'opacity-75 cursor-not-allowed' : ''}`}
                       >
-                        {lang.label}
+                        {lang.name}
                       </button>
                     );
                   })}
@@ -608,6 +624,22 @@ export default function VideoCreatePage() {
                 onEndBumperSelect={handleEndBumperSelect}
               />
             </CollapsibleStep>
+
+            {/* Step 8: Formats */}
+            <CollapsibleStep
+              stepNumber={8}
+              title="Formats"
+              isExpanded={expandedStep === 8}
+              onToggle={() => setExpandedStep(expandedStep === 8 ? 0 : 8)}
+              isComplete={isFormatsComplete}
+            >
+              <FormatsStep
+                aspectRatios={draft.aspectRatios}
+                renditionFit={draft.renditionFit}
+                onAspectRatiosChange={handleAspectRatiosChange}
+                onRenditionFitChange={handleRenditionFitChange}
+              />
+            </CollapsibleStep>
           </div>
 
           {/* Right Column - Preview (30%) */}
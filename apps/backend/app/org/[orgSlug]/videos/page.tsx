@@ -4,7 +4,8 @@ import { use } from 'react';
 import Link from 'next/link';
 import { useStandaloneVideos } from '@repo/api-client';
 import { PortraitVideoPlayer } from '@/components/video/PortraitVideoPlayer';
-import { Loader2, Video, Plus, Clock, AlertCircle, CheckCircle } from 'lucide-react';
+import { RenditionDownloads } from '@/components/video/RenditionDownloads';
+import { Loader2, Video, Plus, Clock, AlertCircle, CheckCircle, Download } from 'lucide-react';
 
 interface PageProps {
   params: Promise<{ orgSlug: string }>;
@@ -176,6 +177,38 @@ export default function VideosPage({ params }: PageProps) {
                     Duration: {Math.round(video.duration)}s
                   </p>
                 )}
+                {video.status === 'COMPLETED' && (
+                  <div className="mt-2">
+                    <RenditionDownloads orgSlug={orgSlug} videoId={video.id} renditions={video.renditions} />
+                  </div>
+                )}
+                {video.status === 'COMPLETED' && (video.captionsVttUrl || video.captionsSrtUrl) && (
+                  <div className="flex items-center gap-2 mt-2 text-xs">
+                    <Download className="w-3 h-3 text-text-muted" />
+                    {video.captionsVttUrl && (
+                      <a
+                        href={video.captionsVttUrl}
+                        download
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-accent hover:underline"
+                      >
+                        WebVTT
+                      </a>
+                    )}
+                    {video.captionsSrtUrl && (
+                      <a
+                        href={video.captionsSrtUrl}
+                        download
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-accent hover:underline"
+                      >
+                        SRT
+                      </a>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           ))}
@@ -0,0 +1,20 @@
+'use client';
+
+import { useMemo } from 'react';
+import { renderArticleHtml, resolveArticleDocument } from '@repo/article-content';
+import type { Article } from '@repo/api-client';
+
+interface ArticleContentPreviewProps {
+  article: Pick<Article, 'content' | 'contentDocument'>;
+  className?: string;
+}
+
+/**
+ * Article body as readers see it - rendered from the structured document
+ * (or the converted free-form content for uploaded articles)
+ */
+export function ArticleContentPreview({ article, className = '' }: ArticleContentPreviewProps) {
+  const html = useMemo(() => renderArticleHtml(resolveArticleDocument(article)), [article]);
+
+  return <div className={`article-rendered ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+}
@@ -0,0 +1,449 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  Eye,
+  Heading,
+  Image as ImageIcon,
+  List,
+  Lightbulb,
+  PenLine,
+  Pilcrow,
+  PlayCircle,
+  Quote,
+  Table,
+  Trash2,
+} from 'lucide-react';
+import {
+  ARTICLE_DOCUMENT_VERSION,
+  ARTICLE_MEDIA_LABELS,
+  ARTICLE_MEDIA_TYPES,
+  CALLOUT_TONES,
+  HEADING_LEVELS,
+  parseInlineMarkdown,
+  renderArticleHtml,
+  type ArticleBlock,
+  type ArticleBlockType,
+  type ArticleDocument,
+  type ArticleMediaType,
+  type CalloutTone,
+  type HeadingLevel,
+} from '@repo/article-content';
+import { useSubmissions } from '@/lib/api/hooks';
+
+/**
+ * Editable form of a block. Text fields hold the inline markdown subset
+ * (**bold**, *italic*, [link](https://...)); list items and table rows are one per line.
+ */
+export interface BlockDraft {
+  id: string;
+  type: ArticleBlockType;
+  text: string;
+  level: HeadingLevel;
+  ordered: boolean;
+  tone: CalloutTone;
+  attribution: string;
+  hasHeaderRow: boolean;
+  src: string;
+  alt: string;
+  caption: string;
+  mediaType: ArticleMediaType;
+  mediaId: string;
+  title: string;
+}
+
+const BLOCK_TYPES: { type: ArticleBlockType; label: string; icon: typeof Pilcrow }[] = [
+  { type: 'paragraph', label: 'Paragraph', icon: Pilcrow },
+  { type: 'heading', label: 'Heading', icon: Heading },
+  { type: 'list', label: 'List', icon: List },
+  { type: 'callout', label: 'Callout', icon: Lightbulb },
+  { type: 'quote', label: 'Quote', icon: Quote },
+  { type: 'table', label: 'Table', icon: Table },
+  { type: 'image', label: 'Image', icon: ImageIcon },
+  { type: 'media', label: 'Media', icon: PlayCircle },
+];
+
+const TEXT_PLACEHOLDERS: Partial<Record<ArticleBlockType, string>> = {
+  paragraph: 'Write a paragraph...',
+  heading: 'Section heading',
+  list: 'One item per line',
+  callout: 'Something the reader should not miss',
+  quote: 'Quoted text',
+  table: 'One row per line, cells separated by |',
+};
+
+export function createBlockDraft(type: ArticleBlockType = 'paragraph'): BlockDraft {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    text: '',
+    level: 2,
+    ordered: false,
+    tone: 'info',
+    attribution: '',
+    hasHeaderRow: true,
+    src: '',
+    alt: '',
+    caption: '',
+    mediaType: 'video',
+    mediaId: '',
+    title: '',
+  };
+}
+
+const lines = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+function draftToBlock(draft: BlockDraft): ArticleBlock | null {
+  const text = draft.text.trim();
+
+  switch (draft.type) {
+    case 'heading':
+      return text ? { type: 'heading', level: draft.level, content: parseInlineMarkdown(text) } : null;
+    case 'paragraph':
+      return text ? { type: 'paragraph', content: parseInlineMarkdown(text) } : null;
+    case 'list': {
+      const items = lines(draft.text).map((item) => parseInlineMarkdown(item.replace(/^([-*]|\d+\.)\s+/, '')));
+      return items.length > 0 ? { type: 'list', ordered: draft.ordered, items } : null;
+    }
+    case 'callout':
+      return text ? { type: 'callout', tone: draft.tone, content: parseInlineMarkdown(text) } : null;
+    case 'quote':
+      return text
+        ? {
+            type: 'quote',
+            content: parseInlineMarkdown(text),
+            ...(draft.attribution.trim() ? { attribution: draft.attribution.trim() } : {}),
+          }
+        : null;
+    case 'table': {
+      const rows = lines(draft.text).map((row) =>
+        row.replace(/^\||\|$/g, '').split('|').map((cell) => parseInlineMarkdown(cell.trim()))
+      );
+      return rows.length > 0 ? { type: 'table', hasHeaderRow: draft.hasHeaderRow, rows } : null;
+    }
+    case 'image':
+      return draft.src.trim()
+        ? {
+            type: 'image',
+            src: draft.src.trim(),
+            alt: draft.alt.trim(),
+            ...(draft.caption.trim() ? { caption: draft.caption.trim() } : {}),
+          }
+        : null;
+    case 'media':
+      return draft.mediaId
+        ? {
+            type: 'media',
+            mediaType: draft.mediaType,
+            mediaId: draft.mediaId,
+            ...(draft.title ? { title: draft.title } : {}),
+          }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the document sent to the API - empty blocks are left out.
+ * The server sanitizes it again before storing.
+ */
+export function draftsToDocument(drafts: BlockDraft[]): ArticleDocument {
+  return {
+    version: ARTICLE_DOCUMENT_VERSION,
+    blocks: drafts.map(draftToBlock).filter((block): block is ArticleBlock => block !== null),
+  };
+}
+
+interface MediaOption {
+  id: string;
+  mediaType: ArticleMediaType;
+  title: string;
+}
+
+/**
+ * Completed outputs of the org that can be embedded
+ */
+function useMediaOptions(orgSlug: string): MediaOption[] {
+  const { data } = useSubmissions(orgSlug, 1, 100, true);
+
+  return useMemo(
+    () =>
+      data?.submissions?.flatMap((sub) => {
+        const fallback = sub.article?.title || 'Untitled';
+        return [
+          ...(sub.videoOutputs ?? [])
+            .filter((o) => o.status === 'COMPLETED')
+            .map((o) => ({ id: o.id, mediaType: 'video' as const, title: o.title || fallback })),
+          ...(sub.podcastOutputs ?? [])
+            .filter((o) => o.status === 'COMPLETED')
+            .map((o) => ({ id: o.id, mediaType: 'podcast' as const, title: o.title || fallback })),
+          ...(sub.interactivePodcastOutputs ?? [])
+            .filter((o) => o.status === 'COMPLETED')
+            .map((o) => ({ id: o.id, mediaType: 'interactive_podcast' as const, title: o.title || fallback })),
+        ];
+      }) ?? [],
+    [data?.submissions]
+  );
+}
+
+interface ArticleEditorProps {
+  orgSlug: string;
+  title: string;
+  blocks: BlockDraft[];
+  onTitleChange: (title: string) => void;
+  onBlocksChange: (blocks: BlockDraft[]) => void;
+  isDisabled: boolean;
+}
+
+export function ArticleEditor({ orgSlug, title, blocks, onTitleChange, onBlocksChange, isDisabled }: ArticleEditorProps) {
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const mediaOptions = useMediaOptions(orgSlug);
+
+  const previewHtml = useMemo(
+    () => (isPreviewing ? renderArticleHtml(draftsToDocument(blocks)) : ''),
+    [isPreviewing, blocks]
+  );
+
+  const updateBlock = (id: string, changes: Partial<BlockDraft>) => {
+    onBlocksChange(blocks.map((block) => (block.id === id ? { ...block, ...changes } : block)));
+  };
+
+  const moveBlock = (index: number, offset: -1 | 1) => {
+    const next = [...blocks];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onBlocksChange(next);
+  };
+
+  const removeBlock = (id: string) => {
+    onBlocksChange(blocks.filter((block) => block.id !== id));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="block text-text-secondary text-sm font-medium">Article</label>
+        <button
+          type="button"
+          onClick={() => setIsPreviewing(!isPreviewing)}
+          className="btn btn-ghost inline-flex items-center gap-2 text-sm"
+          disabled={isDisabled}
+        >
+          {isPreviewing ? <PenLine className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          {isPreviewing ? 'Edit' : 'Preview'}
+        </button>
+      </div>
+
+      <input
+        type="text"
+        className="input w-full mb-4 text-lg font-semibold"
+        placeholder="Article title"
+        value={title}
+        onChange={(e) => onTitleChange(e.target.value)}
+        disabled={isDisabled}
+        maxLength={500}
+      />
+
+      {isPreviewing ? (
+        <div className="card p-6">
+          {previewHtml ? (
+            <div className="article-rendered" dangerouslySetInnerHTML={{ __html: previewHtml }} />
+          ) : (
+            <p className="text-text-muted text-sm">Nothing to preview yet</p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {blocks.map((block, index) => (
+            <div key={block.id} className="p-4 bg-white-5 rounded-xl space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={block.type}
+                  onChange={(e) => updateBlock(block.id, { type: e.target.value as ArticleBlockType })}
+                  className="px-3 py-1.5 rounded-lg bg-white-10 text-text-primary text-sm focus:outline-none"
+                  disabled={isDisabled}
+                >
+                  {BLOCK_TYPES.map(({ type, label }) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+
+                {block.type === 'heading' && (
+                  <select
+                    value={block.level}
+                    onChange={(e) => updateBlock(block.id, { level: Number(e.target.value) as HeadingLevel })}
+                    className="px-3 py-1.5 rounded-lg bg-white-10 text-text-primary text-sm focus:outline-none"
+                    disabled={isDisabled}
+                  >
+                    {HEADING_LEVELS.map((level) => (
+                      <option key={level} value={level}>{level === 2 ? 'Section' : level === 3 ? 'Subsection' : 'Minor heading'}</option>
+                    ))}
+                  </select>
+                )}
+
+                {block.type === 'list' && (
+                  <label className="flex items-center gap-2 text-sm text-text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={block.ordered}
+                      onChange={(e) => updateBlock(block.id, { ordered: e.target.checked })}
+                      disabled={isDisabled}
+                    />
+                    Numbered
+                  </label>
+                )}
+
+                {block.type === 'callout' && (
+                  <select
+                    value={block.tone}
+                    onChange={(e) => updateBlock(block.id, { tone: e.target.value as CalloutTone })}
+                    className="px-3 py-1.5 rounded-lg bg-white-10 text-text-primary text-sm capitalize focus:outline-none"
+                    disabled={isDisabled}
+                  >
+                    {CALLOUT_TONES.map((tone) => (
+                      <option key={tone} value={tone}>{tone}</option>
+                    ))}
+                  </select>
+                )}
+
+                {block.type === 'table' && (
+                  <label className="flex items-center gap-2 text-sm text-text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={block.hasHeaderRow}
+                      onChange={(e) => updateBlock(block.id, { hasHeaderRow: e.target.checked })}
+                      disabled={isDisabled}
+                    />
+                    First row is a header
+                  </label>
+                )}
+
+                <div className="ml-auto flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveBlock(index, -1)}
+                    className="p-1.5 rounded-lg text-text-muted hover:bg-white-10 hover:text-text-primary disabled:opacity-30"
+                    disabled={isDisabled || index === 0}
+                    aria-label="Move block up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveBlock(index, 1)}
+                    className="p-1.5 rounded-lg text-text-muted hover:bg-white-10 hover:text-text-primary disabled:opacity-30"
+                    disabled={isDisabled || index === blocks.length - 1}
+                    aria-label="Move block down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeBlock(block.id)}
+                    className="p-1.5 rounded-lg text-text-muted hover:bg-red-500/20 hover:text-red-500"
+                    disabled={isDisabled}
+                    aria-label="Remove block"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {block.type === 'image' ? (
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <input
+                    type="url"
+                    className="input sm:col-span-2"
+                    placeholder="Image URL (https://...)"
+                    value={block.src}
+                    onChange={(e) => updateBlock(block.id, { src: e.target.value })}
+                    disabled={isDisabled}
+                  />
+                  <input
+                    type="text"
+                    className="input"
+                    placeholder="Alt text"
+                    value={block.alt}
+                    onChange={(e) => updateBlock(block.id, { alt: e.target.value })}
+                    disabled={isDisabled}
+                  />
+                  <input
+                    type="text"
+                    className="input"
+                    placeholder="Caption (optional)"
+                    value={block.caption}
+                    onChange={(e) => updateBlock(block.id, { caption: e.target.value })}
+                    disabled={isDisabled}
+                  />
+                </div>
+              ) : block.type === 'media' ? (
+                <select
+                  value={block.mediaId}
+                  onChange={(e) => {
+                    const option = mediaOptions.find((o) => o.id === e.target.value);
+                    updateBlock(block.id, {
+                      mediaId: option?.id ?? '',
+                      mediaType: option?.mediaType ?? 'video',
+                      title: option?.title ?? '',
+                    });
+                  }}
+                  className="w-full px-4 py-3 rounded-xl bg-white-10 text-text-primary focus:outline-none"
+                  disabled={isDisabled}
+                >
+                  <option value="">Select generated media to embed</option>
+                  {mediaOptions.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {ARTICLE_MEDIA_LABELS[option.mediaType]}: {option.title}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <>
+                  <textarea
+                    className="input w-full min-h-[80px]"
+                    rows={block.type === 'heading' ? 1 : 3}
+                    placeholder={TEXT_PLACEHOLDERS[block.type]}
+                    value={block.text}
+                    onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+                    disabled={isDisabled}
+                  />
+                  {block.type === 'quote' && (
+                    <input
+                      type="text"
+                      className="input w-full"
+                      placeholder="Attribution (optional)"
+                      value={block.attribution}
+                      onChange={(e) => updateBlock(block.id, { attribution: e.target.value })}
+                      disabled={isDisabled}
+                    />
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            {BLOCK_TYPES.map(({ type, label, icon: Icon }) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => onBlocksChange([...blocks, createBlockDraft(type)])}
+                className="btn btn-secondary inline-flex items-center gap-2 text-sm"
+                disabled={isDisabled}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-text-muted text-xs">
+            Format text with **bold**, *italic* and [link text](https://example.com)
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, Loader2, Pause, Play, Plus, RefreshCw, Rss, Sparkles, Trash2 } from 'lucide-react';
+import type { ArticleFeed, ContentCategory } from '@repo/api-client';
+import {
+  useArticleFeeds,
+  useCreateArticleFeed,
+  useUpdateArticleFeed,
+  useDeleteArticleFeed,
+  useCheckArticleFeed,
+  useHasPermission,
+} from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+import { CATEGORIES } from './CategorySelector';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error)
+    ? error.response?.data?.error || error.message
+    : error instanceof Error
+      ? error.message
+      : fallback;
+
+interface ArticleFeedsProps {
+  orgSlug: string;
+}
+
+export function ArticleFeeds({ orgSlug }: ArticleFeedsProps) {
+  const toast = useToast();
+  const { data: feeds = [], isLoading } = useArticleFeeds(orgSlug);
+  const canManage = useHasPermission(orgSlug, 'content.create');
+
+  const createFeed = useCreateArticleFeed(orgSlug);
+  const [url, setUrl] = useState('');
+  const [category, setCategory] = useState<ContentCategory>('EVERGREEN');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+
+    try {
+      const feed = await createFeed.mutateAsync({ url: url.trim(), category });
+      toast.success('Feed added', `New posts from "${feed.title}" will be imported as drafts`);
+      setUrl('');
+    } catch (error) {
+      toast.error('Could not add feed', errorMessage(error, 'Please try again'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {canManage && (
+        <form onSubmit={handleSubmit} className="card p-6">
+          <label htmlFor="feed-url" className="block text-text-secondary text-sm font-medium mb-3">
+            Subscribe to an RSS or Atom feed
+          </label>
+          <div className="flex flex-col md:flex-row gap-3">
+            <input
+              id="feed-url"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/feed.xml"
+              className="flex-1 px-4 py-3 rounded-xl bg-white-10 border-2 border-white-20 text-text-primary placeholder:text-text-muted focus:border-blue-accent focus:outline-none"
+              disabled={createFeed.isPending}
+            />
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as ContentCategory)}
+              className="px-4 py-3 rounded-xl bg-white-10 border-2 border-white-20 text-text-primary focus:border-blue-accent focus:outline-none"
+              disabled={createFeed.isPending}
+            >
+              {CATEGORIES.map((cat) => (
+                <option key={cat.value} value={cat.value}>
+                  {cat.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="btn btn-primary inline-flex items-center justify-center gap-2"
+              disabled={createFeed.isPending || !url.trim()}
+            >
+              {createFeed.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Add Feed
+            </button>
+          </div>
+          <p className="text-text-muted text-sm mt-2">
+            Feeds are checked every hour. New posts are imported as draft articles - nothing is generated until you choose to.
+          </p>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 text-blue-accent animate-spin" />
+        </div>
+      ) : feeds.length === 0 ? (
+        <div className="card p-12 text-center">
+          <Rss className="w-10 h-10 text-text-muted mx-auto mb-3" />
+          <p className="text-text-secondary">No feeds yet</p>
+        </div>
+      ) : (
+        feeds.map((feed) => (
+          <FeedCard key={feed.id} orgSlug={orgSlug} feed={feed} canManage={canManage} />
+        ))
+      )}
+    </div>
+  );
+}
+
+interface FeedCardProps {
+  orgSlug: string;
+  feed: ArticleFeed;
+  canManage: boolean;
+}
+
+function FeedCard({ orgSlug, feed, canManage }: FeedCardProps) {
+  const toast = useToast();
+  const updateFeed = useUpdateArticleFeed(orgSlug);
+  const deleteFeed = useDeleteArticleFeed(orgSlug);
+  const checkFeed = useCheckArticleFeed(orgSlug);
+  const isBusy = updateFeed.isPending || deleteFeed.isPending;
+
+  const handleUpdate = (data: { isActive?: boolean; category?: ContentCategory }) => {
+    updateFeed.mutate(
+      { id: feed.id, ...data },
+      { onError: (error) => toast.error('Failed to update feed', errorMessage(error, 'Please try again')) }
+    );
+  };
+
+  const handleCheck = () => {
+    checkFeed.mutate(feed.id, {
+      onSuccess: () => toast.success('Check queued', 'New posts will appear here shortly'),
+      onError: (error) => toast.error('Failed to check feed', errorMessage(error, 'Please try again')),
+    });
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Unsubscribe from "${feed.title}"? Articles that were already imported are kept.`)) return;
+    deleteFeed.mutate(feed.id, {
+      onSuccess: () => toast.success('Feed removed', feed.title),
+      onError: (error) => toast.error('Failed to remove feed', errorMessage(error, 'Please try again')),
+    });
+  };
+
+  return (
+    <div className={`card p-6 ${feed.isActive ? '' : 'opacity-70'}`}>
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <Rss className="w-4 h-4 text-gold flex-shrink-0" />
+            <h3 className="text-text-primary font-semibold truncate">{feed.title}</h3>
+            {!feed.isActive && (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-white-10 text-text-muted">Paused</span>
+            )}
+          </div>
+          <a
+            href={feed.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-sm text-text-muted hover:text-text-secondary truncate mt-1"
+          >
+            {feed.url}
+          </a>
+          <p className="text-xs text-text-muted mt-2">
+            {feed._count.articles} imported
+            {' · '}
+            {feed.lastCheckedAt
+              ? `checked ${formatDistanceToNow(new Date(feed.lastCheckedAt), { addSuffix: true })}`
+              : 'not checked yet'}
+          </p>
+        </div>
+
+        {canManage && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <select
+              value={feed.category}
+              onChange={(e) => handleUpdate({ category: e.target.value as ContentCategory })}
+              className="px-3 py-2 rounded-lg bg-white-10 border border-white-20 text-sm text-text-primary focus:outline-none"
+              disabled={isBusy}
+              aria-label="Category for imported articles"
+            >
+              {CATEGORIES.map((cat) => (
+                <option key={cat.value} value={cat.value}>
+                  {cat.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleCheck}
+              className="btn btn-secondary inline-flex items-center gap-2"
+              disabled={checkFeed.isPending || !feed.isActive}
+              title="Check for new posts now"
+            >
+              <RefreshCw className={`w-4 h-4 ${checkFeed.isPending ? 'animate-spin' : ''}`} />
+              Check now
+            </button>
+            <button
+              type="button"
+              onClick={() => handleUpdate({ isActive: !feed.isActive })}
+              className="btn btn-secondary inline-flex items-center gap-2"
+              disabled={isBusy}
+            >
+              {feed.isActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              {feed.isActive ? 'Pause' : 'Resume'}
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="p-2 rounded-lg text-text-muted hover:text-red-400 hover:bg-white-10 transition-colors"
+              disabled={isBusy}
+              title="Unsubscribe"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {feed.lastError && (
+        <div className="flex items-start gap-2 mt-4 p-3 rounded-lg bg-red-500/10 text-sm text-red-400">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>Last check failed: {feed.lastError}</span>
+        </div>
+      )}
+
+      {feed.articles.length > 0 && (
+        <ul className="mt-4 divide-y divide-white-10 border-t border-white-10">
+          {feed.articles.map((article) => (
+            <li key={article.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <Link
+                  href={`/org/${orgSlug}/articles/${article.id}`}
+                  className="block text-sm text-text-primary hover:text-blue-accent truncate"
+                >
+                  {article.title}
+                </Link>
+                <span className="text-xs text-text-muted">
+                  {formatDistanceToNow(new Date(article.createdAt), { addSuffix: true })}
+                </span>
+              </div>
+              {article._count.submissions === 0 && canManage && (
+                <Link
+                  href={`/org/${orgSlug}/create?article=${article.id}`}
+                  className="inline-flex items-center gap-1.5 text-sm text-blue-accent hover:underline flex-shrink-0"
+                >
+                  <Sparkles className="w-3.5 h-3.5" />
+                  Generate media
+                </Link>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,15 +2,17 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { X, Loader2, Sparkles } from 'lucide-react';
+import { X, Loader2, Sparkles, Upload, PenLine, Globe } from 'lucide-react';
 import axios from 'axios';
-import { useArticles, useCreateSubmission } from '@/lib/api/hooks';
+import { useArticles, useCreateArticle, useImportArticle, useCreateSubmission } from '@/lib/api/hooks';
 import { UploadLoadingModal } from './UploadLoadingModal';
 import { FileUploadSection } from './FileUploadSection';
+import { UrlImportSection } from './UrlImportSection';
 import { CategorySelector } from './CategorySelector';
 import { ThumbnailOptions } from './ThumbnailOptions';
 import { LanguageSelector } from './LanguageSelector';
 import { ContentTypeSelector } from './ContentTypeSelector';
+import { ArticleEditor, createBlockDraft, draftsToDocument, type BlockDraft } from './ArticleEditor';
 
 interface ArticleFormProps {
   orgSlug: string;
@@ -22,9 +24,12 @@ export function ArticleForm({ orgSlug }: ArticleFormProps) {
   const searchParams = useSearchParams();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const thumbnailInputRef = useRef<HTMLInputElement>(null);
-  const [mode, setMode] = useState<'upload' | 'existing'>('upload');
+  const [mode, setMode] = useState<'upload' | 'existing' | 'url' | 'write'>('upload');
   const [file, setFile] = useState<File | null>(null);
   const [selectedArticleId, setSelectedArticleId] = useState<string>('');
+  const [importUrl, setImportUrl] = useState('');
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftBlocks, setDraftBlocks] = useState<BlockDraft[]>(() => [createBlockDraft('paragraph')]);
   const [isUploading, setIsUploading] = useState(false);
   const [selectedLanguages, setSelectedLanguages] = useState<string[]>(['ENGLISH']);
   const [selectedCategory, setSelectedCategory] = useState<string>('EVERGREEN');
@@ -41,6 +46,8 @@ export function ArticleForm({ orgSlug }: ArticleFormProps) {
 
   const { data: articles, isLoading: articlesLoading } = useArticles(orgSlug);
   const createSubmission = useCreateSubmission(orgSlug);
+  const createArticle = useCreateArticle(orgSlug);
+  const importArticle = useImportArticle(orgSlug);
 
   // Check for article query parameter
   useEffect(() => {
@@ -63,6 +70,18 @@ export function ArticleForm({ orgSlug }: ArticleFormProps) {
     setFile(null);
   };
 
+  const handleWriteSelect = () => {
+    setMode('write');
+    setFile(null);
+    setSelectedArticleId('');
+  };
+
+  const handleUrlSelect = () => {
+    setMode('url');
+    setFile(null);
+    setSelectedArticleId('');
+  };
+
   const handleLanguageToggle = (code: string) => {
     setSelectedLanguages((prev) => {
       if (prev.includes(code)) {
@@ -115,6 +134,18 @@ export function ArticleForm({ orgSlug }: ArticleFormProps) {
       return;
     }
 
+    if (mode === 'url' && !importUrl.trim()) {
+      console.error('❌ [ArticleForm] No URL entered');
+      alert('Please enter the URL of the article');
+      return;
+    }
+
+    if (mode === 'write' && (!draftTitle.trim() || draftsToDocument(draftBlocks).blocks.length === 0)) {
+      console.error('❌ [ArticleForm] Written article is incomplete');
+      alert('Please add a title and some content');
+      return;
+    }
+
     if (selectedLanguages.length === 0) {
       console.error('❌ [ArticleForm] No languages selected');
       alert('Please select at least one language');
@@ -175,9 +206,31 @@ export function ArticleForm({ orgSlug }: ArticleFormProps) {
           router.push(`${basePath}/articles`);
         }
       } else {
+        let articleId = selectedArticleId;
+
+        // Save the written article first, then generate media for it like an existing one
+        if (mode === 'write') {
+          const article = await createArticle.mutateAsync({
+            title: draftTitle.trim(),
+            document: draftsToDocument(draftBlocks),
+            category: selectedCategory as any,
+          });
+          console.log('✅ [ArticleForm] Article created from editor:', article.id);
+          articleId = article.id;
+        }
+
+        if (mode === 'url') {
+          const article = await importArticle.mutateAsync({
+            url: importUrl.trim(),
+            category: selectedCategory as any,
+          });
+          console.log('✅ [ArticleForm] Article imported from URL:', article.id);
+          articleId = article.id;
+        }
+
         // Create submissions for existing article
         console.log('📝 [ArticleForm] Creating submission for existing article:', {
-          articleId: selectedArticleId,
+          articleId,
           languages: selectedLanguages,
           contentOptions,
         });
@@ -187,7 +240,7 @@ export function ArticleForm({ orgSlug }: ArticleFormProps) {
 
         // Create first submission and get its ID
         const firstSubmission = await createSubmission.mutateAsync({
-          articleId: selectedArticleId,
+          articleId,
           language: firstLanguage as any,
           generateAudio: contentOptions.generateAudio,
           generatePodcast: contentOptions.generatePodcast,
@@ -202,7 +255,7 @@ export function ArticleForm({ orgSlug }: ArticleFormProps) {
         for (let i = 1; i < selectedLanguages.length; i++) {
           const language = selectedLanguages[i];
           createSubmission.mutateAsync({
-            articleId: selectedArticleId,
+            articleId,
             language: language as any,
             generateAudio: contentOptions.generateAudio,
             generatePodcast: contentOptions.generatePodcast,
@@ -228,27 +281,84 @@ export function ArticleForm({ orgSlug }: ArticleFormProps) {
           data: (error as any).response?.data,
         });
       }
-      alert(error instanceof Error ? error.message : 'Failed to process request. Please try again.');
+      // Prefer the API's message (e.g. why a URL couldn't be imported) over the generic HTTP error
+      const apiError = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      alert(apiError || (error instanceof Error ? error.message : 'Failed to process request. Please try again.'));
       setIsUploading(false);
     }
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-8">
+      {/* Source Toggle - upload/pick an article, import a web page or write one in the editor */}
+      <div className="inline-flex p-1 bg-white-10 rounded-xl">
+        <button
+          type="button"
+          onClick={() => setMode('upload')}
+          className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+            mode === 'upload' || mode === 'existing' ? 'bg-white text-black' : 'text-text-secondary hover:text-text-primary'
+          }`}
+          disabled={isUploading}
+        >
+          <Upload className="w-4 h-4" />
+          Upload or Select
+        </button>
+        <button
+          type="button"
+          onClick={handleUrlSelect}
+          className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+            mode === 'url' ? 'bg-white text-black' : 'text-text-secondary hover:text-text-primary'
+          }`}
+          disabled={isUploading}
+        >
+          <Globe className="w-4 h-4" />
+          Import from URL
+        </button>
+        <button
+          type="button"
+          onClick={handleWriteSelect}
+          className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+            mode === 'write' ? 'bg-white text-black' : 'text-text-secondary hover:text-text-primary'
+          }`}
+          disabled={isUploading}
+        >
+          <PenLine className="w-4 h-4" />
+          Write Article
+        </button>
+      </div>
+
       {/* Article Source Selection */}
-      <FileUploadSection
-        file={file}
-        selectedArticleId={selectedArticleId}
-        articles={articles}
-        articlesLoading={articlesLoading}
-        isUploading={isUploading}
-        onFileChange={handleFileChange}
-        onArticleSelect={handleArticleSelect}
-        fileInputRef={fileInputRef}
-      />
+      {mode === 'write' ? (
+        <ArticleEditor
+          orgSlug={orgSlug}
+          title={draftTitle}
+          blocks={draftBlocks}
+          onTitleChange={setDraftTitle}
+          onBlocksChange={setDraftBlocks}
+          isDisabled={isUploading}
+        />
+      ) : mode === 'url' ? (
+        <UrlImportSection
+          orgSlug={orgSlug}
+          url={importUrl}
+          onUrlChange={setImportUrl}
+          isDisabled={isUploading}
+        />
+      ) : (
+        <FileUploadSection
+          file={file}
+          selectedArticleId={selectedArticleId}
+          articles={articles}
+          articlesLoading={articlesLoading}
+          isUploading={isUploading}
+          onFileChange={handleFileChange}
+          onArticleSelect={handleArticleSelect}
+          fileInputRef={fileInputRef}
+        />
+      )}
 
-      {/* Category Selection - Only show for new uploads */}
-      {mode === 'upload' && (
+      {/* Category Selection - Only show for new articles */}
+      {mode !== 'existing' && (
         <CategorySelector
           selectedCategory={selectedCategory}
           onCategoryChange={setSelectedCategory}
@@ -272,6 +382,7 @@ export function ArticleForm({ orgSlug }: ArticleFormProps) {
 
       {/* Language Selection */}
       <LanguageSelector
+        orgSlug={orgSlug}
         selectedLanguages={selectedLanguages}
         onLanguageToggle={handleLanguageToggle}
         isDisabled={isUploading}
@@ -297,17 +408,20 @@ export function ArticleForm({ orgSlug }: ArticleFormProps) {
         <button
           type="submit"
           className="btn btn-gold inline-flex items-center gap-2"
-          disabled={isUploading || (mode === 'upload' ? !file : !selectedArticleId)}
+          disabled={
+            isUploading ||
+            (mode === 'upload' ? !file : mode === 'existing' ? !selectedArticleId : mode === 'url' ? !importUrl.trim() : !draftTitle.trim())
+          }
         >
           {isUploading ? (
             <>
               <Loader2 className="w-5 h-5 animate-spin" />
-              {mode === 'upload' ? 'Uploading...' : 'Creating...'}
+              {mode === 'existing' ? 'Creating...' : mode === 'upload' ? 'Uploading...' : mode === 'url' ? 'Importing...' : 'Saving...'}
             </>
           ) : (
             <>
               <Sparkles className="w-5 h-5" />
-              {mode === 'upload' ? 'Upload & Generate' : 'Generate Media'}
+              {mode === 'existing' ? 'Generate Media' : mode === 'upload' ? 'Upload & Generate' : mode === 'url' ? 'Import & Generate' : 'Save & Generate'}
             </>
           )}
         </button>
@@ -0,0 +1,68 @@
+'use client';
+
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { FileArchive, Loader2 } from 'lucide-react';
+import { useArticleImports } from '@/lib/api/hooks';
+import { countImportItems } from './ArticleImportProgress';
+
+interface ArticleImportListProps {
+  orgSlug: string;
+}
+
+export function ArticleImportList({ orgSlug }: ArticleImportListProps) {
+  const { data: batches = [], isLoading } = useArticleImports(orgSlug);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 text-blue-accent animate-spin" />
+      </div>
+    );
+  }
+
+  if (batches.length === 0) {
+    return (
+      <div className="card p-12 text-center">
+        <FileArchive className="w-10 h-10 text-text-muted mx-auto mb-3" />
+        <p className="text-text-secondary">No bulk uploads yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="card divide-y divide-white-10">
+      {batches.map((batch) => {
+        const counts = countImportItems(batch.items);
+        return (
+          <li key={batch.id}>
+            <Link
+              href={`/org/${orgSlug}/articles/imports/${batch.id}`}
+              className="flex items-center justify-between gap-4 p-4 hover:bg-white-5 transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="text-text-primary font-medium">
+                  {batch.items.length} article{batch.items.length !== 1 ? 's' : ''}
+                </p>
+                <p className="text-xs text-text-muted mt-1">
+                  {formatDistanceToNow(new Date(batch.createdAt), { addSuffix: true })} by{' '}
+                  {batch.createdBy.fullName || batch.createdBy.email}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 text-sm flex-shrink-0">
+                {counts.inProgress > 0 && (
+                  <span className="inline-flex items-center gap-1.5 text-blue-accent">
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    {counts.inProgress} in progress
+                  </span>
+                )}
+                <span className="text-green-400">{counts.submitted} submitted</span>
+                {counts.failed > 0 && <span className="text-red-400">{counts.failed} failed</span>}
+              </div>
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
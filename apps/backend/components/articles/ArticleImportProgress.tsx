@@ -0,0 +1,230 @@
+'use client';
+
+import Link from 'next/link';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { AlertCircle, CheckCircle2, Globe, FileText, Loader2, RotateCcw } from 'lucide-react';
+import type { ArticleImportItem, ArticleImportStatus } from '@repo/api-client';
+import { useArticleImport, useRetryArticleImport, useHasPermission, useLanguageLabels } from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+
+const STATUS_STYLES: Record<ArticleImportStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Queued', className: 'bg-white-10 text-text-muted' },
+  EXTRACTING: { label: 'Extracting', className: 'bg-blue-accent/20 text-blue-accent' },
+  SUBMITTED: { label: 'Submitted', className: 'bg-green-500/20 text-green-400' },
+  FAILED: { label: 'Failed', className: 'bg-red-500/20 text-red-400' },
+};
+
+export function ArticleImportStatusBadge({ status }: { status: ArticleImportStatus }) {
+  const style = STATUS_STYLES[status];
+  return (
+    <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${style.className}`}>
+      {status === 'EXTRACTING' && <Loader2 className="w-3 h-3 animate-spin" />}
+      {style.label}
+    </span>
+  );
+}
+
+type Submission = NonNullable<ArticleImportItem['article']>['submissions'][number];
+
+/**
+ * Output counts of one submission - scripts waiting for review count as done
+ */
+function summarizeOutputs(submission: Submission) {
+  const outputs = [
+    ...submission.audioOutputs,
+    ...submission.podcastOutputs,
+    ...submission.videoOutputs,
+    ...submission.quizOutputs,
+    ...submission.interactivePodcastOutputs,
+  ];
+  return {
+    total: outputs.length,
+    done: outputs.filter((output) => output.status === 'COMPLETED' || output.status === 'SCRIPT_READY').length,
+    failed: outputs.filter((output) => output.status === 'FAILED').length,
+  };
+}
+
+/**
+ * Item counts by extraction state - shared with the import list
+ */
+export function countImportItems(items: Pick<ArticleImportItem, 'status'>[]) {
+  const statuses = items.map((item) => item.status);
+  return {
+    submitted: statuses.filter((status) => status === 'SUBMITTED').length,
+    inProgress: statuses.filter((status) => status === 'PENDING' || status === 'EXTRACTING').length,
+    failed: statuses.filter((status) => status === 'FAILED').length,
+  };
+}
+
+const hasFailures = (item: ArticleImportItem) =>
+  item.status === 'FAILED' ||
+  !!item.article?.submissions.some((submission) => summarizeOutputs(submission).failed > 0);
+
+interface ArticleImportProgressProps {
+  orgSlug: string;
+  batchId: string;
+}
+
+export function ArticleImportProgress({ orgSlug, batchId }: ArticleImportProgressProps) {
+  const toast = useToast();
+  const { data: batch, isLoading, error } = useArticleImport(orgSlug, batchId);
+  const retryImport = useRetryArticleImport(orgSlug);
+  const canManage = useHasPermission(orgSlug, 'content.create');
+  const { getLabel: getLanguageLabel } = useLanguageLabels(orgSlug);
+
+  const handleRetry = (itemIds?: string[]) => {
+    retryImport.mutate(
+      { id: batchId, itemIds },
+      {
+        onSuccess: (result) => {
+          if (result.items === 0 && result.outputs === 0) {
+            toast.info('Nothing to retry', 'Failed media generation is retried from the submission page');
+          } else {
+            toast.success('Retry queued', `${result.items} extraction${result.items !== 1 ? 's' : ''}, ${result.outputs} output${result.outputs !== 1 ? 's' : ''}`);
+          }
+        },
+        onError: (err) =>
+          toast.error(
+            'Retry failed',
+            axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Please try again'
+          ),
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 text-blue-accent animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !batch) {
+    return (
+      <div className="card p-12 text-center">
+        <p className="text-text-secondary">Import not found</p>
+      </div>
+    );
+  }
+
+  const counts = countImportItems(batch.items);
+  const failedItems = batch.items.filter(hasFailures);
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="card p-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <p className="text-text-primary font-medium">
+              {counts.submitted} of {batch.items.length} submitted
+              {counts.inProgress > 0 && ` · ${counts.inProgress} in progress`}
+              {counts.failed > 0 && ` · ${counts.failed} failed`}
+            </p>
+            <p className="text-sm text-text-muted mt-1">
+              Uploaded {format(new Date(batch.createdAt), 'MMM d, yyyy HH:mm')} by {batch.createdBy.fullName || batch.createdBy.email}
+              {' · '}
+              {batch.languages.map(getLanguageLabel).join(', ')}
+            </p>
+          </div>
+          {canManage && failedItems.length > 0 && (
+            <button
+              type="button"
+              onClick={() => handleRetry()}
+              className="btn btn-secondary inline-flex items-center gap-2"
+              disabled={retryImport.isPending}
+            >
+              <RotateCcw className={`w-4 h-4 ${retryImport.isPending ? 'animate-spin' : ''}`} />
+              Retry all failures
+            </button>
+          )}
+        </div>
+        <div className="h-2 rounded-full bg-white-10 overflow-hidden mt-4 flex">
+          <div className="bg-green-500" style={{ width: `${(counts.submitted / batch.items.length) * 100}%` }} />
+          <div className="bg-red-500" style={{ width: `${(counts.failed / batch.items.length) * 100}%` }} />
+        </div>
+      </div>
+
+      {/* Items */}
+      <div className="card divide-y divide-white-10">
+        {batch.items.map((item) => (
+          <div key={item.id} className="p-4 flex flex-col md:flex-row md:items-start gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                {item.sourceUrl ? (
+                  <Globe className="w-4 h-4 text-text-muted flex-shrink-0" />
+                ) : (
+                  <FileText className="w-4 h-4 text-text-muted flex-shrink-0" />
+                )}
+                <span className="text-sm text-text-primary truncate">{item.fileName}</span>
+                <ArticleImportStatusBadge status={item.status} />
+              </div>
+
+              {item.article && (
+                <Link
+                  href={`/org/${orgSlug}/articles/${item.article.id}`}
+                  className="block text-sm text-text-secondary hover:text-blue-accent truncate mt-1"
+                >
+                  {item.article.title}
+                </Link>
+              )}
+
+              {item.error && (
+                <div className="flex items-start gap-2 mt-2 text-sm text-red-400">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    {item.error}
+                    {item.attempts > 1 && <span className="text-text-muted"> ({item.attempts} attempts)</span>}
+                  </span>
+                </div>
+              )}
+
+              {/* Generation status per language */}
+              {item.article && item.article.submissions.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {item.article.submissions.map((submission) => {
+                    const summary = summarizeOutputs(submission);
+                    const isDone = summary.done + summary.failed === summary.total;
+                    return (
+                      <Link
+                        key={submission.id}
+                        href={`/org/${orgSlug}/submissions/${submission.id}`}
+                        className={`inline-flex items-center gap-1.5 px-2 py-1 rounded text-xs hover:bg-white-20 ${
+                          summary.failed > 0 ? 'bg-red-500/10 text-red-300' : 'bg-white-10 text-text-secondary'
+                        }`}
+                      >
+                        {!isDone ? (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : summary.failed > 0 ? (
+                          <AlertCircle className="w-3 h-3" />
+                        ) : (
+                          <CheckCircle2 className="w-3 h-3 text-green-400" />
+                        )}
+                        {getLanguageLabel(submission.language)} · {summary.done}/{summary.total}
+                        {summary.failed > 0 && ` · ${summary.failed} failed`}
+                      </Link>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {canManage && hasFailures(item) && (
+              <button
+                type="button"
+                onClick={() => handleRetry([item.id])}
+                className="btn btn-ghost inline-flex items-center gap-2 text-sm flex-shrink-0"
+                disabled={retryImport.isPending}
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retry
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
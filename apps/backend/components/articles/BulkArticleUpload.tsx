@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useRef, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import axios from 'axios';
+import { X, Upload, FileText, FileArchive, FileSpreadsheet, Trash2 } from 'lucide-react';
+import type { ArticleImportSettings, ContentCategory, Language } from '@repo/api-client';
+import { useCreateArticleImport } from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+import { LanguageSelector } from './LanguageSelector';
+import { ContentTypeSelector } from './ContentTypeSelector';
+import { CATEGORIES } from './CategorySelector';
+
+const ACCEPTED_EXTENSIONS = ['.zip', '.docx', '.doc', '.txt', '.pdf', '.md', '.markdown', '.html', '.htm', '.epub'];
+
+interface BulkArticleUploadProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orgSlug: string;
+}
+
+const DEFAULT_SETTINGS: ArticleImportSettings = {
+  category: 'EVERGREEN',
+  languages: ['ENGLISH'],
+  generateAudio: true,
+  generatePodcast: true,
+  generateVideo: true,
+  generateQuiz: true,
+  generateInteractivePodcast: true,
+};
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase();
+
+export function BulkArticleUpload({ isOpen, onClose, orgSlug }: BulkArticleUploadProps) {
+  const router = useRouter();
+  const toast = useToast();
+  const createImport = useCreateArticleImport(orgSlug);
+
+  const [files, setFiles] = useState<File[]>([]);
+  const [manifest, setManifest] = useState<File | null>(null);
+  const [settings, setSettings] = useState<ArticleImportSettings>(DEFAULT_SETTINGS);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = useCallback((selected: FileList) => {
+    const added: File[] = [];
+    const rejected: string[] = [];
+
+    for (const file of Array.from(selected)) {
+      const extension = extensionOf(file.name);
+      if (extension === '.csv') {
+        setManifest(file);
+      } else if (ACCEPTED_EXTENSIONS.includes(extension)) {
+        added.push(file);
+      } else {
+        rejected.push(file.name);
+      }
+    }
+
+    if (rejected.length > 0) {
+      toast.warning('Some files were left out', `Unsupported: ${rejected.join(', ')}`);
+    }
+    setFiles((prev) => [...prev, ...added.filter((file) => !prev.some((p) => p.name === file.name))]);
+  }, [toast]);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) {
+      handleFiles(e.dataTransfer.files);
+    }
+  }, [handleFiles]);
+
+  const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(e.target.files);
+    }
+    // Reset input so the same file can be selected again
+    e.target.value = '';
+  }, [handleFiles]);
+
+  const handleLanguageToggle = (code: string) => {
+    const language = code as Language;
+    setSettings((prev) => ({
+      ...prev,
+      languages: prev.languages.includes(language)
+        ? prev.languages.filter((l) => l !== language)
+        : [...prev.languages, language],
+    }));
+  };
+
+  const handleContentToggle = (key: 'generateAudio' | 'generatePodcast' | 'generateVideo' | 'generateQuiz' | 'generateInteractivePodcast') =>
+    setSettings((prev) => ({ ...prev, [key]: !prev[key] }));
+
+  const handleClose = () => {
+    setFiles([]);
+    setManifest(null);
+    setSettings(DEFAULT_SETTINGS);
+    onClose();
+  };
+
+  const handleUpload = async () => {
+    if (files.length === 0 && !manifest) {
+      toast.error('Nothing to upload', 'Add files, a ZIP archive or a CSV manifest');
+      return;
+    }
+    if (settings.languages.length === 0) {
+      toast.error('No language', 'Select at least one language');
+      return;
+    }
+
+    try {
+      const batch = await createImport.mutateAsync({ files, manifest: manifest ?? undefined, settings });
+
+      toast.success(
+        'Import started',
+        `${batch.items} article${batch.items !== 1 ? 's' : ''} queued for extraction`
+      );
+      if (batch.skipped.length > 0) {
+        toast.warning('Some files were skipped', `Unsupported: ${batch.skipped.join(', ')}`);
+      }
+
+      handleClose();
+      router.push(`/org/${orgSlug}/articles/imports/${batch.id}`);
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.error || error.message
+        : error instanceof Error
+          ? error.message
+          : 'An error occurred';
+      toast.error('Upload Failed', message);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="relative w-full max-w-2xl mx-4 bg-background-secondary rounded-xl shadow-2xl border border-white-10 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white-10 shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-purple-accent/20 rounded-xl flex items-center justify-center">
+              <Upload className="w-5 h-5 text-purple-accent" />
+            </div>
+            <h2 className="text-xl font-semibold text-text-primary">Bulk Upload Articles</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-text-secondary hover:text-text-primary hover:bg-white-10 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          {/* Drop Area */}
+          <div
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            className={`relative p-6 border-2 border-dashed rounded-xl cursor-pointer transition-all ${
+              isDragging
+                ? 'border-purple-accent bg-purple-accent/10'
+                : files.length > 0 || manifest
+                ? 'border-green-500/50 bg-green-500/5'
+                : 'border-white-15 hover:border-white-30 hover:bg-white-5'
+            }`}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={[...ACCEPTED_EXTENSIONS, '.csv'].join(',')}
+              onChange={handleFileInputChange}
+              className="hidden"
+            />
+
+            <div className="flex flex-col items-center text-center">
+              <div className="w-12 h-12 bg-white-10 rounded-xl flex items-center justify-center mb-3">
+                <FileArchive className="w-6 h-6 text-text-muted" />
+              </div>
+              <p className="text-text-primary font-medium mb-1">
+                Drop documents or a ZIP archive here, or click to browse
+              </p>
+              <p className="text-text-muted text-sm">
+                DOCX, PDF, TXT, Markdown, HTML or EPUB - one article per file, up to 100 per batch
+              </p>
+              <p className="text-text-muted text-sm mt-1">
+                Add a CSV manifest with columns{' '}
+                <code className="bg-white-10 px-1.5 py-0.5 rounded text-xs">url, file, title, category</code>{' '}
+                to import web pages or override titles
+              </p>
+            </div>
+          </div>
+
+          {/* Selected files */}
+          {(files.length > 0 || manifest) && (
+            <div>
+              <h3 className="text-sm font-medium text-text-secondary mb-2">
+                {files.length} file{files.length !== 1 ? 's' : ''}
+                {manifest ? ' + manifest' : ''}
+              </h3>
+              <ul className="bg-white-5 border border-white-10 rounded-lg max-h-[200px] overflow-y-auto divide-y divide-white-5">
+                {manifest && (
+                  <li className="flex items-center gap-3 px-4 py-2 text-sm">
+                    <FileSpreadsheet className="w-4 h-4 text-green-400 flex-shrink-0" />
+                    <span className="flex-1 text-text-primary truncate">{manifest.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => setManifest(null)}
+                      className="text-text-muted hover:text-red-400"
+                      aria-label={`Remove ${manifest.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                )}
+                {files.map((file) => (
+                  <li key={file.name} className="flex items-center gap-3 px-4 py-2 text-sm">
+                    {extensionOf(file.name) === '.zip' ? (
+                      <FileArchive className="w-4 h-4 text-text-muted flex-shrink-0" />
+                    ) : (
+                      <FileText className="w-4 h-4 text-text-muted flex-shrink-0" />
+                    )}
+                    <span className="flex-1 text-text-primary truncate">{file.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => setFiles((prev) => prev.filter((f) => f !== file))}
+                      className="text-text-muted hover:text-red-400"
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Submission settings */}
+          <div>
+            <label htmlFor="bulk-category" className="block text-text-secondary text-sm font-medium mb-3">
+              Content Category
+            </label>
+            <select
+              id="bulk-category"
+              value={settings.category}
+              onChange={(e) => setSettings((prev) => ({ ...prev, category: e.target.value as ContentCategory }))}
+              className="w-full px-4 py-3 rounded-xl bg-white-10 border-2 border-white-20 text-text-primary focus:border-blue-accent focus:outline-none"
+              disabled={createImport.isPending}
+            >
+              {CATEGORIES.map((cat) => (
+                <option key={cat.value} value={cat.value}>
+                  {cat.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-text-muted text-xs mt-2">Manifest rows with a category keep their own.</p>
+          </div>
+
+          <LanguageSelector
+            orgSlug={orgSlug}
+            selectedLanguages={settings.languages}
+            onLanguageToggle={handleLanguageToggle}
+            isDisabled={createImport.isPending}
+          />
+
+          <ContentTypeSelector
+            contentOptions={settings}
+            onContentToggle={handleContentToggle}
+            isDisabled={createImport.isPending}
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-white-10 shrink-0">
+          <button type="button" onClick={handleClose} className="btn btn-ghost">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleUpload}
+            className="btn btn-primary"
+            disabled={createImport.isPending || (files.length === 0 && !manifest)}
+          >
+            {createImport.isPending ? 'Uploading...' : 'Start Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-const CATEGORIES = [
+export const CATEGORIES = [
   { value: 'EVERGREEN', label: 'Evergreen', description: 'Financial basics, foundational knowledge' },
   { value: 'PERIODIC_UPDATES', label: 'Periodic Updates', description: 'Regular scheduled updates' },
   { value: 'MARKET_UPDATES', label: 'Market Updates', description: 'Real-time market changes' },
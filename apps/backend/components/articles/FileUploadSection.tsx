@@ -68,7 +68,7 @@ export function FileUploadSection({
           id="file-upload"
           ref={fileInputRef}
           onChange={handleFileChange}
-          accept=".doc,.docx,.txt"
+          accept=".doc,.docx,.txt,.pdf,.md,.markdown,.html,.htm,.epub"
           className="hidden"
           disabled={isUploading}
         />
@@ -97,7 +97,7 @@ export function FileUploadSection({
                 Click to upload or drag and drop
               </p>
               <p className="text-text-muted text-sm">
-                DOC, DOCX, or TXT (max 10MB)
+                DOC, DOCX, TXT, PDF, Markdown, HTML or EPUB (max 10MB)
               </p>
             </div>
           )}
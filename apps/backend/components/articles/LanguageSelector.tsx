@@ -1,24 +1,25 @@
 'use client';
 
-const LANGUAGES = [
-  { code: 'ENGLISH', label: 'English' },
-  { code: 'HINDI', label: 'Hindi' },
-  { code: 'MARATHI', label: 'Marathi' },
-  { code: 'BENGALI', label: 'Bengali' },
-  { code: 'GUJARATI', label: 'Gujarati' },
-];
+import { useLanguages } from '@/lib/api/hooks';
 
 interface LanguageSelectorProps {
+  orgSlug: string;
   selectedLanguages: string[];
   onLanguageToggle: (code: string) => void;
   isDisabled: boolean;
 }
 
 export function LanguageSelector({
+  orgSlug,
   selectedLanguages,
   onLanguageToggle,
   isDisabled,
 }: LanguageSelectorProps) {
+  const { data: languages = [], isLoading } = useLanguages(orgSlug);
+
+  // Enabled languages, plus selected ones the organization has since disabled so they can be removed
+  const options = languages.filter((lang) => lang.enabled || selectedLanguages.includes(lang.code));
+
   const handleLanguageToggle = (code: string) => {
     // Don't allow deselecting if it's the last one
     if (selectedLanguages.includes(code) && selectedLanguages.length === 1) {
@@ -32,27 +33,37 @@ export function LanguageSelector({
       <label className="block text-text-secondary text-sm font-medium mb-3">
         Select Languages
       </label>
-      <div className="grid grid-cols-2 gap-3">
-        {LANGUAGES.map((lang) => (
-          <label
-            key={lang.code}
-            className={`flex items-center gap-3 p-4 rounded-xl cursor-pointer transition-all duration-200 ${
-              selectedLanguages.includes(lang.code)
-                ? 'bg-blue-light border-2 border-blue-accent'
-                : 'bg-white-10 border-2 border-transparent hover:bg-white-20'
-            } ${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`}
-          >
-            <input
-              type="checkbox"
-              checked={selectedLanguages.includes(lang.code)}
-              onChange={() => handleLanguageToggle(lang.code)}
-              className="w-5 h-5 rounded border-white-40 bg-transparent checked:bg-blue-accent"
-              disabled={isDisabled}
-            />
-            <span className="text-text-primary font-medium">{lang.label}</span>
-          </label>
-        ))}
-      </div>
+      {isLoading ? (
+        <p className="text-text-muted text-sm">Loading languages...</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {options.map((lang) => (
+            <label
+              key={lang.code}
+              className={`flex items-center gap-3 p-4 rounded-xl cursor-pointer transition-all duration-200 ${
+                selectedLanguages.includes(lang.code)
+                  ? 'bg-blue-light border-2 border-blue-accent'
+                  : 'bg-white-10 border-2 border-transparent hover:bg-white-20'
+              } ${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <input
+                type="checkbox"
+                checked={selectedLanguages.includes(lang.code)}
+                onChange={() => handleLanguageToggle(lang.code)}
+                className="w-5 h-5 rounded border-white-40 bg-transparent checked:bg-blue-accent"
+                disabled={isDisabled}
+              />
+              <span className="text-text-primary font-medium">{lang.name}</span>
+              {lang.nativeName && lang.nativeName !== lang.name && (
+                <span className="text-text-muted text-sm" dir={lang.direction.toLowerCase()}>
+                  {lang.nativeName}
+                </span>
+              )}
+              {!lang.enabled && <span className="text-xs text-gold ml-auto">Disabled</span>}
+            </label>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
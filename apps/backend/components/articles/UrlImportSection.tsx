@@ -0,0 +1,41 @@
+'use client';
+
+import Link from 'next/link';
+import { Globe, Rss } from 'lucide-react';
+
+interface UrlImportSectionProps {
+  orgSlug: string;
+  url: string;
+  onUrlChange: (url: string) => void;
+  isDisabled: boolean;
+}
+
+export function UrlImportSection({ orgSlug, url, onUrlChange, isDisabled }: UrlImportSectionProps) {
+  return (
+    <div>
+      <label htmlFor="import-url" className="block text-text-secondary text-sm font-medium mb-3">
+        Article URL
+      </label>
+      <div className="relative">
+        <Globe className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-text-muted pointer-events-none" />
+        <input
+          id="import-url"
+          type="url"
+          value={url}
+          onChange={(e) => onUrlChange(e.target.value)}
+          placeholder="https://example.com/market-update"
+          className="w-full pl-12 pr-4 py-3 rounded-xl bg-white-10 border-2 border-white-20 text-text-primary placeholder:text-text-muted focus:border-blue-accent focus:outline-none disabled:opacity-50"
+          disabled={isDisabled}
+        />
+      </div>
+      <p className="text-text-muted text-sm mt-2">
+        The page&apos;s main text is extracted and cleaned up - navigation, ads and footers are left out.{' '}
+        <Link href={`/org/${orgSlug}/articles/feeds`} className="inline-flex items-center gap-1 text-blue-accent hover:underline">
+          <Rss className="w-3.5 h-3.5" />
+          Subscribe to a feed
+        </Link>{' '}
+        to import new posts automatically.
+      </p>
+    </div>
+  );
+}
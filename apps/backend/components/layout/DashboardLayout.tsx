@@ -5,6 +5,7 @@ import { usePathname } from 'next/navigation';
 import { Menu } from 'lucide-react';
 import { Sidebar } from './Sidebar';
 import { SupportWidget } from '../support/SupportWidget';
+import type { UserOrganization } from './OrgSwitcher';
 import { useFeatureFlags } from '@/lib/api/hooks';
 
 const NO_SIDEBAR_ROUTES = ['/video/create'];
@@ -17,9 +18,10 @@ interface DashboardLayoutProps {
     fullName: string | null;
     isAdmin: boolean;
   } | null;
+  organizations?: UserOrganization[]; // Every org the user belongs to, for the org switcher
 }
 
-export function DashboardLayout({ children, user }: DashboardLayoutProps) {
+export function DashboardLayout({ children, user, organizations }: DashboardLayoutProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const { data: featureFlags } = useFeatureFlags();
   const pathname = usePathname();
@@ -42,6 +44,7 @@ export function DashboardLayout({ children, user }: DashboardLayoutProps) {
         isOpen={isSidebarOpen}
         onClose={() => setIsSidebarOpen(false)}
         user={user}
+        organizations={organizations}
       />
       <main className="dashboard-main">
         {/* Top bar - mobile only */}
@@ -19,6 +19,8 @@ interface MediaEditLayoutProps {
   showApprovalButton?: boolean;
   showPreviewButton?: boolean;
   onPreviewClick?: () => void;
+  scheduleControl?: ReactNode; // e.g. <PublishScheduleButton />, shown next to the approval button
+  reviewControl?: ReactNode; // e.g. <ReviewStatusControl />, used by outputs instead of the approval button
 }
 
 export function MediaEditLayout({
@@ -35,6 +37,8 @@ export function MediaEditLayout({
   showApprovalButton = true,
   showPreviewButton = false,
   onPreviewClick,
+  scheduleControl,
+  reviewControl,
 }: MediaEditLayoutProps) {
   const [isPreviewMode, setIsPreviewMode] = useState(false);
 
@@ -86,6 +90,10 @@ export function MediaEditLayout({
               </button>
             )}
 
+            {scheduleControl}
+
+            {reviewControl}
+
             {/* Approval Button */}
             {showApprovalButton && onApprove && (
               <ApprovalButton
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { Building2, ChevronDown, Plus } from 'lucide-react';
+
+export interface UserOrganization {
+  id: string;
+  name: string;
+  slug: string;
+  role: 'OWNER' | 'ADMIN' | 'MEMBER';
+  customRoleName: string | null;
+}
+
+interface OrgSwitcherProps {
+  organizations: UserOrganization[];
+  currentSlug: string | null;
+}
+
+const roleLabel = (org: UserOrganization) =>
+  org.customRoleName ?? org.role.charAt(0) + org.role.slice(1).toLowerCase();
+
+export function OrgSwitcher({ organizations, currentSlug }: OrgSwitcherProps) {
+  const pathname = usePathname();
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const currentOrg = organizations.find((org) => org.slug === currentSlug) || organizations[0];
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  // Stay in the same section (e.g. /articles) - item ids don't carry over between orgs
+  const handleOrgChange = (slug: string) => {
+    setIsOpen(false);
+    if (slug === currentOrg?.slug) return;
+
+    const section = pathname.replace(/^\/org\/[^/]+/, '').split('/')[1];
+    router.push(`/org/${slug}/${section || 'dashboard'}`);
+  };
+
+  if (!currentOrg) {
+    return null;
+  }
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-3 px-4 py-3 rounded-xl text-text-secondary transition-all duration-200 hover:bg-white-10 hover:text-text-primary border border-white-10 hover:border-white-20"
+      >
+        <Building2 className="w-5 h-5 flex-shrink-0" />
+        <div className="flex-1 min-w-0 text-left">
+          <div className="text-sm font-semibold truncate">{currentOrg.name}</div>
+          <div className="text-xs text-text-muted truncate">{roleLabel(currentOrg)}</div>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 flex-shrink-0 transition-transform ${
+            isOpen ? 'rotate-180' : ''
+          }`}
+        />
+      </button>
+
+      {/* Dropdown Menu */}
+      {isOpen && (
+        <div className="absolute top-full left-0 right-0 mt-2 py-2 bg-black border border-white-10 rounded-xl shadow-xl z-50 max-h-80 overflow-y-auto">
+          {organizations.map((org) => {
+            const isActive = org.slug === currentOrg.slug;
+
+            return (
+              <button
+                key={org.id}
+                onClick={() => handleOrgChange(org.slug)}
+                className={`w-full flex items-center gap-3 px-4 py-3 transition-colors ${
+                  isActive
+                    ? 'bg-white-10 text-white'
+                    : 'text-text-secondary hover:bg-white-10 hover:text-text-primary'
+                }`}
+              >
+                <div className="flex-1 min-w-0 text-left">
+                  <div className="text-sm font-semibold truncate">{org.name}</div>
+                  <div className="text-xs text-text-muted">{roleLabel(org)}</div>
+                </div>
+                {isActive && (
+                  <div className="flex-shrink-0 w-2 h-2 rounded-full bg-white" />
+                )}
+              </button>
+            );
+          })}
+
+          <Link
+            href="/onboarding"
+            onClick={() => setIsOpen(false)}
+            className="flex items-center gap-3 px-4 py-3 mt-1 border-t border-white-10 text-sm text-text-secondary hover:bg-white-10 hover:text-text-primary transition-colors"
+          >
+            <Plus className="w-4 h-4 flex-shrink-0" />
+            Create or join organization
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,10 @@
 
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
-import { Home, Plus, FolderOpen, Library, Settings, Tags, X, Video, User } from 'lucide-react';
+import { Home, Plus, FolderOpen, Library, Settings, Tags, X, Video, User, BarChart3, Workflow } from 'lucide-react';
 import { UserMenu } from '@/components/auth/UserMenu';
 import { PlatformModeSwitcher } from './PlatformModeSwitcher';
+import { OrgSwitcher, type UserOrganization } from './OrgSwitcher';
 import { usePlatformMode } from '@/lib/context/platform-mode-context';
 import { useEffect } from 'react';
 
@@ -17,9 +18,10 @@ interface SidebarProps {
     fullName: string | null;
     isAdmin: boolean;
   } | null;
+  organizations?: UserOrganization[];
 }
 
-export function Sidebar({ isOpen, onClose, user }: SidebarProps) {
+export function Sidebar({ isOpen, onClose, user, organizations = [] }: SidebarProps) {
   const pathname = usePathname();
   const router = useRouter();
   const { mode } = usePlatformMode();
@@ -33,8 +35,10 @@ export function Sidebar({ isOpen, onClose, user }: SidebarProps) {
   const learningNavItems = [
     { href: `${basePath}/dashboard`, label: 'Home', icon: Home },
     { href: `${basePath}/articles`, label: 'Articles', icon: FolderOpen },
+    { href: `${basePath}/pipelines`, label: 'Pipelines', icon: Workflow },
     { href: `${basePath}/library`, label: 'Library', icon: Library },
     { href: `${basePath}/tags`, label: 'Tag Management', icon: Tags },
+    { href: `${basePath}/analytics`, label: 'Analytics', icon: BarChart3 },
     { href: `${basePath}/settings`, label: 'Settings', icon: Settings },
   ];
 
@@ -91,6 +95,13 @@ export function Sidebar({ isOpen, onClose, user }: SidebarProps) {
           </button>
         </div>
 
+        {/* Organization Switcher - only useful with more than one membership */}
+        {organizations.length > 1 && (
+          <div className="mb-2">
+            <OrgSwitcher organizations={organizations} currentSlug={orgSlug} />
+          </div>
+        )}
+
         {/* Platform Mode Switcher */}
         <div className="mb-4">
           <PlatformModeSwitcher />
@@ -0,0 +1,84 @@
+'use client';
+
+import { AlertTriangle, BarChart3 } from 'lucide-react';
+import type { ItemAnalysis, ItemAnalysisFlag } from '@repo/api-client';
+
+const FLAG_LABELS: Record<ItemAnalysisFlag, string> = {
+  TOO_EASY: 'Too easy',
+  TOO_HARD: 'Too hard',
+  UNUSED_DISTRACTOR: 'Distractor nobody picks',
+};
+
+interface ItemAnalysisPanelProps {
+  analysis: ItemAnalysis | undefined;
+}
+
+/**
+ * Learner answer stats for one quiz question / video bubble
+ * Difficulty = percent correct, discrimination = how well the item separates strong from weak attempts.
+ */
+export function ItemAnalysisPanel({ analysis }: ItemAnalysisPanelProps) {
+  if (!analysis || analysis.answers === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-text-muted">
+        <BarChart3 className="w-4 h-4" />
+        No learner answers yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-navy-dark/50 border border-white-10 rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+        <span className="inline-flex items-center gap-2 text-text-secondary">
+          <BarChart3 className="w-4 h-4 text-blue-accent" />
+          {analysis.answers} answer{analysis.answers !== 1 ? 's' : ''}
+        </span>
+        <span className="text-text-secondary">
+          Difficulty: <span className="text-text-primary font-medium">{analysis.difficulty}% correct</span>
+        </span>
+        <span className="text-text-secondary">
+          Discrimination:{' '}
+          <span className="text-text-primary font-medium">
+            {analysis.discrimination === null ? 'Not enough data' : analysis.discrimination.toFixed(2)}
+          </span>
+        </span>
+      </div>
+
+      {analysis.flags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {analysis.flags.map((flag) => (
+            <span
+              key={flag}
+              className="inline-flex items-center gap-1 px-2 py-1 bg-gold/20 text-gold rounded-full text-xs font-medium"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {FLAG_LABELS[flag]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {analysis.options.length > 0 && (
+        <div className="space-y-2">
+          {analysis.options.map((option) => (
+            <div key={option.key}>
+              <div className="flex items-center justify-between gap-4 text-xs mb-1">
+                <span className={option.isCorrect ? 'text-success' : 'text-text-secondary'}>{option.label}</span>
+                <span className="text-text-muted whitespace-nowrap">
+                  {option.picks} ({option.pickRate ?? 0}%)
+                </span>
+              </div>
+              <div className="h-1.5 bg-white-10 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${option.isCorrect ? 'bg-success' : 'bg-blue-accent'}`}
+                  style={{ width: `${option.pickRate ?? 0}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,49 @@
 'use client';
 
-import { Video, Mic, Headphones, FileCheck, Loader2, CheckCircle2, FileText, Edit3 } from 'lucide-react';
+import { Video, Mic, Headphones, FileCheck, Loader2, CheckCircle2, FileText, Edit3, Download } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import { useLanguageLabels } from '@/lib/api/hooks';
+
+export type MediaType = 'video' | 'audio' | 'podcast' | 'quiz' | 'interactive-podcast' | 'article';
+
+/**
+ * Edit page for a media item (also used by the library schedule calendar)
+ */
+export function getMediaEditUrl({
+  type,
+  id,
+  submissionId,
+  articleId,
+  orgSlug,
+}: {
+  type: MediaType;
+  id: string;
+  submissionId?: string;
+  articleId?: string;
+  orgSlug?: string;
+}) {
+  const orgPrefix = orgSlug ? `/org/${orgSlug}` : '';
+  switch (type) {
+    case 'video':
+      return `${orgPrefix}/submissions/${submissionId}/videos/${id}/edit`;
+    case 'audio':
+      return `${orgPrefix}/submissions/${submissionId}/audio/${id}/edit`;
+    case 'podcast':
+      return `${orgPrefix}/submissions/${submissionId}/podcasts/${id}/edit`;
+    case 'quiz':
+      return `${orgPrefix}/submissions/${submissionId}/quizzes/${id}/edit`;
+    case 'interactive-podcast':
+      return `${orgPrefix}/submissions/${submissionId}/interactive-podcasts/${id}/edit`;
+    case 'article':
+      return `${orgPrefix}/articles/${articleId || id}/edit`;
+    default:
+      return submissionId ? `${orgPrefix}/submissions/${submissionId}` : `${orgPrefix}/articles/${id}`;
+  }
+}
 
 interface MediaCardProps {
   id: string;
-  type: 'video' | 'audio' | 'podcast' | 'quiz' | 'interactive-podcast' | 'article';
+  type: MediaType;
   title: string;
   thumbnailUrl?: string | null;
   status?: 'PENDING' | 'PROCESSING' | 'SCRIPT_READY' | 'COMPLETED' | 'FAILED';
@@ -13,7 +51,9 @@ interface MediaCardProps {
   submissionId?: string;
   articleId?: string;
   duration?: string | null;
-  language?: 'ENGLISH' | 'MARATHI' | 'HINDI' | 'BENGALI';
+  language?: string; // Language.code
+  captionsVttUrl?: string | null; // Caption / transcript downloads
+  captionsSrtUrl?: string | null;
   orgSlug?: string;
   onClick?: () => void;
 }
@@ -29,10 +69,13 @@ export function MediaCard({
   articleId,
   duration,
   language,
+  captionsVttUrl,
+  captionsSrtUrl,
   orgSlug,
   onClick,
 }: MediaCardProps) {
   const router = useRouter();
+  const { getLabel } = useLanguageLabels(orgSlug ?? '');
   const isArticle = type === 'article';
   const isCompleted = isArticle || status === 'COMPLETED';
   const isScriptReady = !isArticle && status === 'SCRIPT_READY';
@@ -79,32 +122,12 @@ export function MediaCard({
     }
   };
 
-  const getEditUrl = () => {
-    const orgPrefix = orgSlug ? `/org/${orgSlug}` : '';
-    switch (type) {
-      case 'video':
-        return `${orgPrefix}/submissions/${submissionId}/videos/${id}/edit`;
-      case 'audio':
-        return `${orgPrefix}/submissions/${submissionId}/audio/${id}/edit`;
-      case 'podcast':
-        return `${orgPrefix}/submissions/${submissionId}/podcasts/${id}/edit`;
-      case 'quiz':
-        return `${orgPrefix}/submissions/${submissionId}/quizzes/${id}/edit`;
-      case 'interactive-podcast':
-        return `${orgPrefix}/submissions/${submissionId}/interactive-podcasts/${id}/edit`;
-      case 'article':
-        return `${orgPrefix}/articles/${articleId || id}/edit`;
-      default:
-        return submissionId ? `${orgPrefix}/submissions/${submissionId}` : `${orgPrefix}/articles/${id}`;
-    }
-  };
-
   const handleClick = () => {
     if (isClickable) {
       if (onClick) {
         onClick();
       } else {
-        router.push(getEditUrl());
+        router.push(getMediaEditUrl({ type, id, submissionId, articleId, orgSlug }));
       }
     }
   };
@@ -128,21 +151,7 @@ export function MediaCard({
     }
   };
 
-  const getLanguageLabel = () => {
-    if (!language) return null;
-    switch (language) {
-      case 'ENGLISH':
-        return 'English';
-      case 'MARATHI':
-        return 'Marathi';
-      case 'HINDI':
-        return 'Hindi';
-      case 'BENGALI':
-        return 'Bengali';
-      default:
-        return language;
-    }
-  };
+  const getLanguageLabel = () => (language ? getLabel(language) : null);
 
   return (
     <div
@@ -202,6 +211,35 @@ export function MediaCard({
         )}
       </div>
 
+      {/* Caption downloads - links must not open the edit page */}
+      {isCompleted && (captionsVttUrl || captionsSrtUrl) && (
+        <div className="flex items-center gap-2 mb-2 text-xs" onClick={(e) => e.stopPropagation()}>
+          <Download className="w-3 h-3 text-text-muted" />
+          {captionsVttUrl && (
+            <a
+              href={captionsVttUrl}
+              download
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-accent hover:underline"
+            >
+              WebVTT
+            </a>
+          )}
+          {captionsSrtUrl && (
+            <a
+              href={captionsSrtUrl}
+              download
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-accent hover:underline"
+            >
+              SRT
+            </a>
+          )}
+        </div>
+      )}
+
       {/* Footer: Duration and Status */}
       <div className="flex items-center justify-between text-xs gap-2">
         {duration && <span className="text-text-muted truncate">{duration}</span>}
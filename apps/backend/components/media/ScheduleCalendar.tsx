@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from 'date-fns';
+import { getMediaEditUrl, type MediaType } from '@/components/media/MediaCard';
+
+export interface ScheduledMediaItem {
+  type: MediaType;
+  id: string;
+  title: string;
+  submissionId?: string;
+  articleId?: string;
+  isApproved?: boolean;
+  publishAt?: string | null;
+  expiresAt?: string | null;
+}
+
+interface ScheduleCalendarProps {
+  items: ScheduledMediaItem[];
+  orgSlug: string;
+}
+
+interface CalendarEntry {
+  item: ScheduledMediaItem;
+  kind: 'publish' | 'expire';
+  date: Date;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Month view of upcoming publish and expiry dates
+ */
+export function ScheduleCalendar({ items, orgSlug }: ScheduleCalendarProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+  });
+
+  const entries: CalendarEntry[] = items.flatMap((item) => [
+    ...(item.publishAt ? [{ item, kind: 'publish' as const, date: new Date(item.publishAt) }] : []),
+    ...(item.expiresAt ? [{ item, kind: 'expire' as const, date: new Date(item.expiresAt) }] : []),
+  ]);
+
+  return (
+    <div className="card p-4 sm:p-6">
+      {/* Month navigation */}
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={() => setMonth(subMonths(month, 1))}
+          className="p-2 hover:bg-white-10 rounded-lg transition-colors"
+          aria-label="Previous month"
+        >
+          <ChevronLeft className="w-5 h-5 text-text-secondary" />
+        </button>
+        <h2 className="text-lg font-semibold text-text-primary">{format(month, 'MMMM yyyy')}</h2>
+        <button
+          onClick={() => setMonth(addMonths(month, 1))}
+          className="p-2 hover:bg-white-10 rounded-lg transition-colors"
+          aria-label="Next month"
+        >
+          <ChevronRight className="w-5 h-5 text-text-secondary" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-4 mb-4 text-xs text-text-muted">
+        <span className="inline-flex items-center gap-1">
+          <span className="w-2 h-2 rounded-full bg-success" /> Publishes
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span className="w-2 h-2 rounded-full bg-error" /> Expires
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span className="w-2 h-2 rounded-full bg-white-40" /> Not approved yet
+        </span>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="text-xs text-text-muted text-center py-1">
+            {weekday}
+          </div>
+        ))}
+
+        {days.map((day) => {
+          const dayEntries = entries
+            .filter((entry) => isSameDay(entry.date, day))
+            .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+          return (
+            <div
+              key={day.toISOString()}
+              className={`min-h-[96px] rounded-lg p-1.5 ${
+                isSameMonth(day, month) ? 'bg-white-10' : 'bg-white-5 opacity-50'
+              } ${isToday(day) ? 'ring-1 ring-blue-accent' : ''}`}
+            >
+              <div className="text-xs text-text-secondary mb-1">{format(day, 'd')}</div>
+              <div className="space-y-1">
+                {dayEntries.map((entry) => (
+                  <Link
+                    key={`${entry.kind}-${entry.item.type}-${entry.item.id}`}
+                    href={getMediaEditUrl({ ...entry.item, orgSlug })}
+                    title={`${entry.kind === 'publish' ? 'Publishes' : 'Expires'} ${format(entry.date, 'HH:mm')} - ${entry.item.title}`}
+                    className={`block truncate text-[11px] px-1.5 py-0.5 rounded ${
+                      !entry.item.isApproved
+                        ? 'bg-white-20 text-text-muted'
+                        : entry.kind === 'publish'
+                          ? 'bg-success/20 text-success'
+                          : 'bg-error/20 text-error'
+                    }`}
+                  >
+                    {format(entry.date, 'HH:mm')} {entry.item.title}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,444 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { ContentCategory, ContentPipeline, ContentPipelineSettings, Language, PipelineApprovalPolicy } from '@repo/api-client';
+import {
+  useArticleFeeds,
+  useCharacters,
+  useCaptionStyles,
+  useBackgroundMusic,
+  useVideoBumpers,
+  useHasPermission,
+} from '@/lib/api/hooks';
+import { CATEGORIES } from '@/components/articles/CategorySelector';
+import { LanguageSelector } from '@/components/articles/LanguageSelector';
+import { ContentTypeSelector } from '@/components/articles/ContentTypeSelector';
+
+const SCHEDULE_PRESETS = [
+  { label: 'Weekdays at 7:00', schedule: '0 7 * * 1-5' },
+  { label: 'Daily at 7:00', schedule: '0 7 * * *' },
+  { label: 'Mondays at 9:00', schedule: '0 9 * * 1' },
+  { label: 'Every hour', schedule: '0 * * * *' },
+];
+
+const APPROVAL_POLICIES: { value: PipelineApprovalPolicy; label: string; description: string }[] = [
+  { value: 'MANUAL', label: 'Keep as draft', description: 'Finished outputs wait for someone to submit them' },
+  { value: 'SUBMIT_FOR_REVIEW', label: 'Submit for review', description: 'Finished outputs go straight to reviewers' },
+  { value: 'PUBLISH', label: 'Publish automatically', description: 'Finished outputs are approved and published without review' },
+];
+
+const inputClass =
+  'w-full px-4 py-3 rounded-xl bg-white-10 border-2 border-white-20 text-text-primary placeholder:text-text-muted focus:border-blue-accent focus:outline-none disabled:opacity-50';
+
+const labelClass = 'block text-text-secondary text-sm font-medium mb-3';
+
+const DEFAULT_SETTINGS: ContentPipelineSettings = {
+  name: '',
+  isActive: true,
+  feedId: null,
+  category: null,
+  maxArticlesPerRun: 1,
+  schedule: '0 7 * * 1-5',
+  timezone: typeof Intl !== 'undefined' ? Intl.DateTimeFormat().resolvedOptions().timeZone : 'UTC',
+  languages: ['ENGLISH'],
+  generateAudio: true,
+  generatePodcast: true,
+  generateVideo: true,
+  generateQuiz: true,
+  generateInteractivePodcast: true,
+  autoGenerateMedia: true,
+  characterId: null,
+  captionStyleId: null,
+  backgroundMusicId: null,
+  backgroundMusicVolume: 0.15,
+  startBumperId: null,
+  startBumperDuration: null,
+  endBumperId: null,
+  endBumperDuration: null,
+  approvalPolicy: 'MANUAL',
+};
+
+interface PipelineFormProps {
+  orgSlug: string;
+  pipeline?: ContentPipeline;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (settings: ContentPipelineSettings) => void;
+  onCancel: () => void;
+}
+
+export function PipelineForm({ orgSlug, pipeline, submitLabel, isSubmitting, onSubmit, onCancel }: PipelineFormProps) {
+  const [settings, setSettings] = useState<ContentPipelineSettings>(() => {
+    if (!pipeline) return DEFAULT_SETTINGS;
+    const picked = { ...DEFAULT_SETTINGS };
+    (Object.keys(DEFAULT_SETTINGS) as (keyof ContentPipelineSettings)[]).forEach((key) => {
+      (picked as Record<string, unknown>)[key] = pipeline[key];
+    });
+    return picked;
+  });
+
+  const { data: feeds = [] } = useArticleFeeds(orgSlug);
+  const { data: characters = [] } = useCharacters(orgSlug);
+  const { data: captionStyles = [] } = useCaptionStyles(orgSlug);
+  const { data: music = [] } = useBackgroundMusic(orgSlug);
+  const { data: bumpers = [] } = useVideoBumpers(orgSlug);
+  const canApprove = useHasPermission(orgSlug, 'content.approve');
+
+  const update = <K extends keyof ContentPipelineSettings>(key: K, value: ContentPipelineSettings[K]) =>
+    setSettings((prev) => ({ ...prev, [key]: value }));
+
+  const handleLanguageToggle = (code: string) => {
+    const language = code as Language;
+    update(
+      'languages',
+      settings.languages.includes(language)
+        ? settings.languages.filter((l) => l !== language)
+        : [...settings.languages, language],
+    );
+  };
+
+  const handleContentToggle = (key: 'generateAudio' | 'generatePodcast' | 'generateVideo' | 'generateQuiz' | 'generateInteractivePodcast') =>
+    update(key, !settings[key]);
+
+  // Image bumpers are shown for a fixed time - use the bumper's suggested duration
+  const handleBumperChange = (position: 'start' | 'end', bumperId: string) => {
+    const bumper = bumpers.find((b) => b.id === bumperId);
+    const duration = bumper?.type === 'image' ? bumper.duration ?? 3 : null;
+    setSettings((prev) =>
+      position === 'start'
+        ? { ...prev, startBumperId: bumper?.id ?? null, startBumperDuration: duration }
+        : { ...prev, endBumperId: bumper?.id ?? null, endBumperDuration: duration },
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(settings);
+  };
+
+  const showVideoSettings = settings.generateVideo && settings.autoGenerateMedia;
+  const startBumpers = bumpers.filter((bumper) => bumper.position === 'start' || bumper.position === 'both');
+  const endBumpers = bumpers.filter((bumper) => bumper.position === 'end' || bumper.position === 'both');
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-8">
+      <div>
+        <label htmlFor="pipeline-name" className={labelClass}>
+          Name
+        </label>
+        <input
+          id="pipeline-name"
+          type="text"
+          value={settings.name}
+          onChange={(e) => update('name', e.target.value)}
+          placeholder="Daily market update"
+          className={inputClass}
+          disabled={isSubmitting}
+        />
+      </div>
+
+      {/* Source */}
+      <div className="grid md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="pipeline-feed" className={labelClass}>
+            Source
+          </label>
+          <select
+            id="pipeline-feed"
+            value={settings.feedId ?? ''}
+            onChange={(e) => update('feedId', e.target.value || null)}
+            className={inputClass}
+            disabled={isSubmitting}
+          >
+            <option value="">Any feed (choose a category)</option>
+            {feeds.map((feed) => (
+              <option key={feed.id} value={feed.id}>
+                Feed: {feed.title}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="pipeline-category" className={labelClass}>
+            Category
+          </label>
+          <select
+            id="pipeline-category"
+            value={settings.category ?? ''}
+            onChange={(e) => update('category', (e.target.value || null) as ContentCategory | null)}
+            className={inputClass}
+            disabled={isSubmitting}
+          >
+            <option value="">Any category</option>
+            {CATEGORIES.map((cat) => (
+              <option key={cat.value} value={cat.value}>
+                {cat.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="pipeline-max" className={labelClass}>
+            Articles per run
+          </label>
+          <input
+            id="pipeline-max"
+            type="number"
+            min={1}
+            max={10}
+            value={settings.maxArticlesPerRun}
+            onChange={(e) => update('maxArticlesPerRun', Number(e.target.value))}
+            className={inputClass}
+            disabled={isSubmitting}
+          />
+        </div>
+      </div>
+      <p className="text-text-muted text-sm -mt-6">
+        Each run picks up the oldest draft articles (no media generated yet) added since the pipeline was created.
+      </p>
+
+      {/* Trigger */}
+      <div>
+        <label htmlFor="pipeline-schedule" className={labelClass}>
+          Schedule
+        </label>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {SCHEDULE_PRESETS.map((preset) => (
+            <button
+              key={preset.schedule}
+              type="button"
+              onClick={() => update('schedule', preset.schedule)}
+              className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                settings.schedule === preset.schedule ? 'bg-white text-black' : 'bg-white-10 text-text-secondary hover:bg-white-20'
+              }`}
+              disabled={isSubmitting}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid md:grid-cols-2 gap-4">
+          <input
+            id="pipeline-schedule"
+            type="text"
+            value={settings.schedule}
+            onChange={(e) => update('schedule', e.target.value)}
+            placeholder="minute hour day month weekday"
+            className={`${inputClass} font-mono`}
+            disabled={isSubmitting}
+          />
+          <input
+            type="text"
+            value={settings.timezone}
+            onChange={(e) => update('timezone', e.target.value)}
+            placeholder="Asia/Kolkata"
+            className={inputClass}
+            aria-label="Timezone"
+            disabled={isSubmitting}
+          />
+        </div>
+        <p className="text-text-muted text-sm mt-2">Cron expression (minute hour day month weekday) and the timezone it runs in.</p>
+      </div>
+
+      <LanguageSelector
+        orgSlug={orgSlug}
+        selectedLanguages={settings.languages}
+        onLanguageToggle={handleLanguageToggle}
+        isDisabled={isSubmitting}
+      />
+
+      <ContentTypeSelector
+        contentOptions={settings}
+        onContentToggle={handleContentToggle}
+        isDisabled={isSubmitting}
+      />
+
+      {/* Media generation from scripts */}
+      <div className="space-y-4">
+        <label className="flex items-start gap-3 p-4 rounded-xl bg-white-10 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.autoGenerateMedia}
+            onChange={() => update('autoGenerateMedia', !settings.autoGenerateMedia)}
+            className="w-5 h-5 mt-0.5 rounded border-white-40 bg-transparent checked:bg-blue-accent"
+            disabled={isSubmitting}
+          />
+          <div>
+            <div className="text-text-primary font-medium">Generate media without script review</div>
+            <div className="text-sm text-text-muted">
+              Videos, podcasts and interactive podcasts are produced as soon as their scripts are ready
+            </div>
+          </div>
+        </label>
+
+        {showVideoSettings && (
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="pipeline-character" className={labelClass}>
+                Character
+              </label>
+              <select
+                id="pipeline-character"
+                value={settings.characterId ?? ''}
+                onChange={(e) => update('characterId', e.target.value || null)}
+                className={inputClass}
+                disabled={isSubmitting}
+              >
+                <option value="">Choose a character</option>
+                {characters.map((character) => (
+                  <option key={character.id} value={character.id}>
+                    {character.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="pipeline-caption-style" className={labelClass}>
+                Caption style
+              </label>
+              <select
+                id="pipeline-caption-style"
+                value={settings.captionStyleId ?? ''}
+                onChange={(e) => update('captionStyleId', e.target.value || null)}
+                className={inputClass}
+                disabled={isSubmitting}
+              >
+                <option value="">Choose a caption style</option>
+                {captionStyles.map((style) => (
+                  <option key={style.id} value={style.id}>
+                    {style.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="pipeline-music" className={labelClass}>
+                Background music
+              </label>
+              <select
+                id="pipeline-music"
+                value={settings.backgroundMusicId ?? ''}
+                onChange={(e) => update('backgroundMusicId', e.target.value || null)}
+                className={inputClass}
+                disabled={isSubmitting}
+              >
+                <option value="">No music</option>
+                {music.map((track) => (
+                  <option key={track.id} value={track.id}>
+                    {track.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="pipeline-volume" className={labelClass}>
+                Music volume ({Math.round(settings.backgroundMusicVolume * 100)}%)
+              </label>
+              <input
+                id="pipeline-volume"
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.backgroundMusicVolume}
+                onChange={(e) => update('backgroundMusicVolume', Number(e.target.value))}
+                className="w-full mt-4"
+                disabled={isSubmitting || !settings.backgroundMusicId}
+              />
+            </div>
+            <div>
+              <label htmlFor="pipeline-start-bumper" className={labelClass}>
+                Start bumper
+              </label>
+              <select
+                id="pipeline-start-bumper"
+                value={settings.startBumperId ?? ''}
+                onChange={(e) => handleBumperChange('start', e.target.value)}
+                className={inputClass}
+                disabled={isSubmitting}
+              >
+                <option value="">None</option>
+                {startBumpers.map((bumper) => (
+                  <option key={bumper.id} value={bumper.id}>
+                    {bumper.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="pipeline-end-bumper" className={labelClass}>
+                End bumper
+              </label>
+              <select
+                id="pipeline-end-bumper"
+                value={settings.endBumperId ?? ''}
+                onChange={(e) => handleBumperChange('end', e.target.value)}
+                className={inputClass}
+                disabled={isSubmitting}
+              >
+                <option value="">None</option>
+                {endBumpers.map((bumper) => (
+                  <option key={bumper.id} value={bumper.id}>
+                    {bumper.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Approval policy */}
+      <div>
+        <label className={labelClass}>When outputs are finished</label>
+        <div className="space-y-2">
+          {APPROVAL_POLICIES.map((policy) => {
+            const isDisabled = isSubmitting || (policy.value === 'PUBLISH' && !canApprove);
+            return (
+              <label
+                key={policy.value}
+                className={`flex items-start gap-3 p-4 rounded-xl cursor-pointer transition-all duration-200 ${
+                  settings.approvalPolicy === policy.value
+                    ? 'bg-gold-light border-2 border-gold'
+                    : 'bg-white-10 border-2 border-transparent hover:bg-white-20'
+                } ${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                <input
+                  type="radio"
+                  name="approvalPolicy"
+                  value={policy.value}
+                  checked={settings.approvalPolicy === policy.value}
+                  onChange={() => update('approvalPolicy', policy.value)}
+                  className="w-5 h-5 mt-0.5 rounded-full border-white-40 bg-transparent checked:bg-gold"
+                  disabled={isDisabled}
+                />
+                <div className="flex-1">
+                  <div className="text-text-primary font-medium">{policy.label}</div>
+                  <div className="text-sm text-text-muted">
+                    {policy.description}
+                    {policy.value === 'PUBLISH' && !canApprove && ' (requires permission to approve content)'}
+                  </div>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-4">
+        <button type="button" onClick={onCancel} className="btn btn-secondary" disabled={isSubmitting}>
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="btn btn-primary inline-flex items-center gap-2"
+          disabled={isSubmitting || !settings.name.trim() || !settings.schedule.trim()}
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
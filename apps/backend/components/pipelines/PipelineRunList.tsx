@@ -0,0 +1,88 @@
+'use client';
+
+import Link from 'next/link';
+import { format, formatDistanceStrict } from 'date-fns';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import type { PipelineRun, PipelineRunStatus } from '@repo/api-client';
+
+const STATUS_STYLES: Record<PipelineRunStatus, { label: string; className: string }> = {
+  RUNNING: { label: 'Running', className: 'bg-blue-accent/20 text-blue-accent' },
+  COMPLETED: { label: 'Completed', className: 'bg-green-500/20 text-green-400' },
+  PARTIAL: { label: 'Partial', className: 'bg-yellow-500/20 text-yellow-400' },
+  FAILED: { label: 'Failed', className: 'bg-red-500/20 text-red-400' },
+  SKIPPED: { label: 'No new articles', className: 'bg-white-10 text-text-muted' },
+};
+
+export function PipelineRunStatusBadge({ status }: { status: PipelineRunStatus }) {
+  const style = STATUS_STYLES[status];
+  return (
+    <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${style.className}`}>
+      {status === 'RUNNING' && <Loader2 className="w-3 h-3 animate-spin" />}
+      {style.label}
+    </span>
+  );
+}
+
+interface PipelineRunListProps {
+  orgSlug: string;
+  runs: PipelineRun[];
+}
+
+export function PipelineRunList({ orgSlug, runs }: PipelineRunListProps) {
+  if (runs.length === 0) {
+    return <p className="text-text-muted text-sm">No runs yet - the first one starts at the next scheduled time.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-white-10">
+      {runs.map((run) => {
+        // One submission per language - group them back by article
+        const articles = new Map<string, { title: string; submissionIds: string[]; languages: string[] }>();
+        run.submissions.forEach((submission) => {
+          const entry = articles.get(submission.article.id) ?? { title: submission.article.title, submissionIds: [], languages: [] };
+          entry.submissionIds.push(submission.id);
+          entry.languages.push(submission.language);
+          articles.set(submission.article.id, entry);
+        });
+
+        return (
+          <li key={run.id} className="py-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <PipelineRunStatusBadge status={run.status} />
+              <span className="text-sm text-text-primary">{format(new Date(run.startedAt), 'MMM d, yyyy HH:mm')}</span>
+              <span className="text-xs text-text-muted">
+                {run.trigger === 'MANUAL'
+                  ? `Run by ${run.triggeredBy?.fullName || run.triggeredBy?.email || 'a former member'}`
+                  : 'Scheduled'}
+                {run.finishedAt && ` · took ${formatDistanceStrict(new Date(run.finishedAt), new Date(run.startedAt))}`}
+              </span>
+            </div>
+
+            {articles.size > 0 && (
+              <ul className="mt-2 space-y-1">
+                {[...articles.entries()].map(([articleId, article]) => (
+                  <li key={articleId} className="text-sm">
+                    <Link
+                      href={`/org/${orgSlug}/submissions/${article.submissionIds[0]}`}
+                      className="text-text-secondary hover:text-blue-accent"
+                    >
+                      {article.title}
+                    </Link>
+                    <span className="text-xs text-text-muted ml-2">{article.languages.join(', ').toLowerCase()}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {run.error && (
+              <div className="flex items-start gap-2 mt-2 text-sm text-yellow-400 whitespace-pre-line">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>{run.error}</span>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,392 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { BookOpen, CheckCircle2, Clock, Hash, HelpCircle, Loader2, MessageSquare, RotateCcw, UserPlus, X } from 'lucide-react';
+import {
+  useOutputReview,
+  useAssignReviewer,
+  useUnassignReviewer,
+  useAddReviewComment,
+  useResolveReviewComment,
+} from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+import { REVIEW_STATUS_STYLES } from '@/components/review/ReviewStatusControl';
+import type { ReviewActivity, ReviewAnchor, ReviewableOutputType, ReviewComment, ReviewProfile } from '@repo/api-client';
+
+type AnchorType = ReviewAnchor['type'];
+
+interface ReviewPanelProps {
+  orgSlug: string;
+  outputType: ReviewableOutputType;
+  outputId: string;
+  anchorTypes?: AnchorType[]; // Which anchors the composer offers (e.g. script lines + timestamps for videos)
+  questions?: Array<{ id: string; label: string }>; // For QUIZ_QUESTION anchors
+  onAnchorClick?: (comment: ReviewComment) => void; // e.g. seek the player to a timestamp
+}
+
+const ANCHOR_LABELS: Record<AnchorType, string> = {
+  SCRIPT_LINE: 'Script line',
+  VIDEO_TIMESTAMP: 'Timestamp',
+  QUIZ_QUESTION: 'Question',
+};
+
+const displayName = (profile: ReviewProfile | null) => (profile ? profile.fullName || profile.email : 'System');
+
+const formatTimestamp = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// "1:05" or "65" -> 65
+const parseTimestamp = (value: string) => {
+  const parts = value.split(':').map(Number);
+  if (parts.some(isNaN)) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+/**
+ * Reviewers, anchored comment threads and activity history for an output
+ */
+export function ReviewPanel({ orgSlug, outputType, outputId, anchorTypes = [], questions = [], onAnchorClick }: ReviewPanelProps) {
+  const toast = useToast();
+  const { data: review, isLoading } = useOutputReview(orgSlug, outputType, outputId);
+  const assignReviewer = useAssignReviewer(orgSlug, outputType, outputId);
+  const unassignReviewer = useUnassignReviewer(orgSlug, outputType, outputId);
+  const addComment = useAddReviewComment(orgSlug, outputType, outputId);
+  const resolveComment = useResolveReviewComment(orgSlug, outputType, outputId);
+
+  const [commentBody, setCommentBody] = useState('');
+  const [anchorType, setAnchorType] = useState<AnchorType | ''>('');
+  const [anchorValue, setAnchorValue] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+
+  const onError = (title: string) => (error: any) =>
+    toast.error(title, error?.response?.data?.error || error?.message || 'Please try again');
+
+  const buildAnchor = (): ReviewAnchor | undefined | null => {
+    switch (anchorType) {
+      case '':
+        return undefined;
+      case 'SCRIPT_LINE': {
+        const line = parseInt(anchorValue, 10);
+        return line >= 1 ? { type: 'SCRIPT_LINE', line } : null;
+      }
+      case 'VIDEO_TIMESTAMP': {
+        const timestamp = parseTimestamp(anchorValue);
+        return timestamp !== null ? { type: 'VIDEO_TIMESTAMP', timestamp } : null;
+      }
+      case 'QUIZ_QUESTION':
+        return anchorValue ? { type: 'QUIZ_QUESTION', questionId: anchorValue } : null;
+    }
+  };
+
+  const handleAddComment = () => {
+    const anchor = buildAnchor();
+    if (anchor === null) {
+      toast.error('Invalid anchor', `Enter a valid ${ANCHOR_LABELS[anchorType as AnchorType].toLowerCase()}`);
+      return;
+    }
+    addComment.mutate(
+      { body: commentBody.trim(), anchor },
+      {
+        onSuccess: () => {
+          setCommentBody('');
+          setAnchorValue('');
+        },
+        onError: onError('Failed to add comment'),
+      },
+    );
+  };
+
+  const handleReply = (parentId: string) => {
+    addComment.mutate(
+      { body: replyBody.trim(), parentId },
+      {
+        onSuccess: () => {
+          setReplyTo(null);
+          setReplyBody('');
+        },
+        onError: onError('Failed to reply'),
+      },
+    );
+  };
+
+  const anchorLabel = (comment: ReviewComment) => {
+    switch (comment.anchorType) {
+      case 'SCRIPT_LINE':
+        return { icon: Hash, text: `Line ${comment.anchorLine}` };
+      case 'VIDEO_TIMESTAMP':
+        return { icon: Clock, text: formatTimestamp(comment.anchorTimestamp ?? 0) };
+      case 'QUIZ_QUESTION':
+        return {
+          icon: HelpCircle,
+          text: questions.find((question) => question.id === comment.anchorQuestionId)?.label || 'Deleted question',
+        };
+      default:
+        return null;
+    }
+  };
+
+  const activityText = (entry: ReviewActivity) => {
+    const reviewerName = () => displayName(review?.availableReviewers.find((m) => m.id === entry.metadata?.reviewerId) ?? null);
+    switch (entry.action) {
+      case 'STATUS_CHANGED':
+        return `moved it from ${REVIEW_STATUS_STYLES[entry.fromStatus!].label} to ${REVIEW_STATUS_STYLES[entry.toStatus!].label}${
+          entry.metadata?.glossaryIssues?.length ? ` despite glossary issues (${entry.metadata.glossaryIssues.join(', ')})` : ''
+        }`;
+      case 'REVIEWER_ASSIGNED':
+        return `assigned ${reviewerName()} as reviewer`;
+      case 'REVIEWER_UNASSIGNED':
+        return `removed reviewer ${reviewerName()}`;
+      case 'COMMENTED':
+        return 'commented';
+      case 'COMMENT_RESOLVED':
+        return 'resolved a comment';
+    }
+  };
+
+  if (isLoading || !review) {
+    return (
+      <div className="card p-6 flex justify-center">
+        <Loader2 className="w-6 h-6 text-text-muted animate-spin" />
+      </div>
+    );
+  }
+
+  const unassigned = review.availableReviewers.filter((member) => !review.reviewers.some((r) => r.id === member.id));
+  const openThreads = review.comments.filter((comment) => !comment.resolvedAt);
+  const visibleThreads = showResolved ? review.comments : openThreads;
+
+  return (
+    <div className="card p-4 sm:p-6 space-y-6">
+      <h2 className="text-xl font-semibold text-text-primary">Review</h2>
+
+      {/* Glossary check - terms from the article the output doesn't render as the glossary requires */}
+      {review.glossaryIssues.length > 0 && (
+        <div className="p-4 bg-gold/10 border border-gold/30 rounded-xl space-y-2">
+          <div className="flex items-center gap-2">
+            <BookOpen className="w-4 h-4 text-gold" />
+            <h3 className="text-sm font-medium text-text-primary">
+              Glossary check flagged {review.glossaryIssues.length} term{review.glossaryIssues.length !== 1 ? 's' : ''}
+            </h3>
+          </div>
+          <ul className="space-y-1 text-sm text-text-secondary">
+            {review.glossaryIssues.map((issue) => (
+              <li key={issue.term}>
+                <span className="text-text-primary">{issue.term}</span>
+                {issue.reason === 'DO_NOT_TRANSLATE' ? ' should stay untranslated' : ` should read "${issue.expected}"`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Reviewers */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-text-secondary">Reviewers</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {review.reviewers.map((reviewer) => (
+            <span key={reviewer.id} className="inline-flex items-center gap-1 px-3 py-1 bg-white-10 rounded-full text-sm text-text-primary">
+              {displayName(reviewer)}
+              <button
+                onClick={() => unassignReviewer.mutate(reviewer.id, { onError: onError('Failed to remove reviewer') })}
+                className="text-text-muted hover:text-error"
+                aria-label={`Remove ${displayName(reviewer)}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+          {review.reviewers.length === 0 && <span className="text-sm text-text-muted">No reviewers yet - org admins can review</span>}
+
+          {unassigned.length > 0 && (
+            <label className="inline-flex items-center gap-1 text-sm text-text-secondary">
+              <UserPlus className="w-4 h-4" />
+              <select
+                value=""
+                onChange={(e) => e.target.value && assignReviewer.mutate(e.target.value, { onError: onError('Failed to assign reviewer') })}
+                disabled={assignReviewer.isPending}
+                className="bg-white-10 border border-white-20 rounded-lg px-2 py-1 text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-gold/50"
+              >
+                <option value="">Assign reviewer...</option>
+                {unassigned.map((member) => (
+                  <option key={member.id} value={member.id}>
+                    {displayName(member)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      </div>
+
+      {/* Comments */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-text-secondary inline-flex items-center gap-2">
+            <MessageSquare className="w-4 h-4" />
+            Comments ({openThreads.length} open)
+          </h3>
+          {review.comments.length > openThreads.length && (
+            <button onClick={() => setShowResolved(!showResolved)} className="text-xs text-blue-accent hover:underline">
+              {showResolved ? 'Hide resolved' : 'Show resolved'}
+            </button>
+          )}
+        </div>
+
+        {visibleThreads.map((comment) => {
+          const anchor = anchorLabel(comment);
+          return (
+            <div key={comment.id} className={`bg-navy-dark/50 border border-white-10 rounded-xl p-4 space-y-3 ${comment.resolvedAt ? 'opacity-60' : ''}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-text-muted">
+                    <span className="text-text-primary font-medium">{displayName(comment.author)}</span>
+                    {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                    {anchor && (
+                      <button
+                        onClick={() => onAnchorClick?.(comment)}
+                        disabled={!onAnchorClick}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 bg-gold/20 text-gold rounded-full"
+                      >
+                        <anchor.icon className="w-3 h-3" />
+                        {anchor.text}
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-sm text-text-primary whitespace-pre-wrap break-words">{comment.body}</p>
+                </div>
+                <button
+                  onClick={() =>
+                    resolveComment.mutate(
+                      { commentId: comment.id, resolved: !comment.resolvedAt },
+                      { onError: onError('Failed to update comment') },
+                    )
+                  }
+                  className="shrink-0 inline-flex items-center gap-1 text-xs text-text-muted hover:text-success"
+                >
+                  {comment.resolvedAt ? <RotateCcw className="w-3.5 h-3.5" /> : <CheckCircle2 className="w-3.5 h-3.5" />}
+                  {comment.resolvedAt ? 'Reopen' : 'Resolve'}
+                </button>
+              </div>
+
+              {comment.replies?.map((reply) => (
+                <div key={reply.id} className="ml-4 pl-3 border-l border-white-20 space-y-1">
+                  <div className="text-xs text-text-muted">
+                    <span className="text-text-primary font-medium">{displayName(reply.author)}</span>{' '}
+                    {formatDistanceToNow(new Date(reply.createdAt), { addSuffix: true })}
+                  </div>
+                  <p className="text-sm text-text-primary whitespace-pre-wrap break-words">{reply.body}</p>
+                </div>
+              ))}
+
+              {replyTo === comment.id ? (
+                <div className="ml-4 flex gap-2">
+                  <input
+                    value={replyBody}
+                    onChange={(e) => setReplyBody(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && replyBody.trim() && handleReply(comment.id)}
+                    placeholder="Reply..."
+                    autoFocus
+                    className="flex-1 px-3 py-1.5 bg-navy-dark border border-white-20 rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-gold/50"
+                  />
+                  <button
+                    onClick={() => handleReply(comment.id)}
+                    disabled={!replyBody.trim() || addComment.isPending}
+                    className="btn btn-primary text-sm"
+                  >
+                    Reply
+                  </button>
+                </div>
+              ) : (
+                <button onClick={() => setReplyTo(comment.id)} className="ml-4 text-xs text-blue-accent hover:underline">
+                  Reply
+                </button>
+              )}
+            </div>
+          );
+        })}
+
+        {/* Composer */}
+        <div className="space-y-2">
+          <textarea
+            value={commentBody}
+            onChange={(e) => setCommentBody(e.target.value)}
+            rows={2}
+            placeholder="Leave a comment for the author or other reviewers"
+            className="w-full p-3 bg-navy-dark border border-white-20 rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-gold/50 text-sm resize-y"
+          />
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              {anchorTypes.length > 0 && (
+                <select
+                  value={anchorType}
+                  onChange={(e) => {
+                    setAnchorType(e.target.value as AnchorType | '');
+                    setAnchorValue('');
+                  }}
+                  className="bg-white-10 border border-white-20 rounded-lg px-2 py-1.5 text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-gold/50"
+                >
+                  <option value="">General comment</option>
+                  {anchorTypes.map((type) => (
+                    <option key={type} value={type}>
+                      {ANCHOR_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {anchorType === 'QUIZ_QUESTION' && (
+                <select
+                  value={anchorValue}
+                  onChange={(e) => setAnchorValue(e.target.value)}
+                  className="bg-white-10 border border-white-20 rounded-lg px-2 py-1.5 text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-gold/50 max-w-[200px]"
+                >
+                  <option value="">Select question</option>
+                  {questions.map((question) => (
+                    <option key={question.id} value={question.id}>
+                      {question.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {(anchorType === 'SCRIPT_LINE' || anchorType === 'VIDEO_TIMESTAMP') && (
+                <input
+                  value={anchorValue}
+                  onChange={(e) => setAnchorValue(e.target.value)}
+                  placeholder={anchorType === 'SCRIPT_LINE' ? 'Line #' : 'm:ss'}
+                  className="w-20 px-2 py-1.5 bg-navy-dark border border-white-20 rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-gold/50"
+                />
+              )}
+            </div>
+            <button
+              onClick={handleAddComment}
+              disabled={!commentBody.trim() || addComment.isPending}
+              className="btn btn-primary text-sm inline-flex items-center gap-2"
+            >
+              {addComment.isPending && !replyTo && <Loader2 className="w-4 h-4 animate-spin" />}
+              Comment
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Activity */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-text-secondary">Activity</h3>
+        {review.activity.length === 0 ? (
+          <p className="text-sm text-text-muted">No activity yet</p>
+        ) : (
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {review.activity.map((entry) => (
+              <li key={entry.id} className="text-sm text-text-secondary">
+                <span className="text-text-primary font-medium">{displayName(entry.actor)}</span> {activityText(entry)}
+                {entry.metadata?.note && <span className="text-text-muted"> - &ldquo;{entry.metadata.note}&rdquo;</span>}
+                <span className="text-xs text-text-muted ml-2">{formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
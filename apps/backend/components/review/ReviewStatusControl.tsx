@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { getAvailableReviewActions, REVIEW_TRANSITIONS, useHasPermission, useReviewTransition } from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+import type { GlossaryIssue, ReviewAction, ReviewableOutputType, ReviewStatus } from '@repo/api-client';
+
+export const REVIEW_STATUS_STYLES: Record<ReviewStatus, { label: string; className: string }> = {
+  DRAFT: { label: 'Draft', className: 'bg-white-10 text-text-secondary border-white-20' },
+  IN_REVIEW: { label: 'In review', className: 'bg-blue-accent/20 text-blue-accent border-blue-accent/30' },
+  CHANGES_REQUESTED: { label: 'Changes requested', className: 'bg-gold/20 text-gold border-gold/30' },
+  APPROVED: { label: 'Approved', className: 'bg-success/20 text-success border-success/30' },
+  PUBLISHED: { label: 'Published', className: 'bg-success text-white border-success' },
+};
+
+// Primary action per status, the rest render as secondary buttons
+const PRIMARY_ACTIONS: ReviewAction[] = ['submit', 'approve', 'publish'];
+
+interface ReviewStatusControlProps {
+  orgSlug: string;
+  submissionId: string;
+  outputType: ReviewableOutputType;
+  outputId: string;
+  status: ReviewStatus;
+  disabled?: boolean;
+}
+
+/**
+ * Review status badge plus the transitions allowed from it (replaces the approve / withdraw toggle)
+ */
+export function ReviewStatusControl({ orgSlug, submissionId, outputType, outputId, status, disabled = false }: ReviewStatusControlProps) {
+  const toast = useToast();
+  const transition = useReviewTransition(orgSlug);
+  const canApprove = useHasPermission(orgSlug, 'content.approve');
+  const [pendingAction, setPendingAction] = useState<ReviewAction | null>(null);
+  const [isRequestingChanges, setIsRequestingChanges] = useState(false);
+  const [note, setNote] = useState('');
+
+  const runAction = (action: ReviewAction, actionNote?: string, acknowledgeGlossary?: boolean) => {
+    setPendingAction(action);
+    transition.mutate(
+      { submissionId, outputType, outputId, action, note: actionNote, acknowledgeGlossary },
+      {
+        onSuccess: () => {
+          setIsRequestingChanges(false);
+          setNote('');
+          toast.success(REVIEW_TRANSITIONS[action].label, `Now ${REVIEW_STATUS_STYLES[REVIEW_TRANSITIONS[action].to].label.toLowerCase()}`);
+        },
+        onError: (error: any) => {
+          // Approving an output the glossary check flagged needs an explicit confirmation
+          const glossaryIssues: GlossaryIssue[] | undefined = error?.response?.data?.glossaryIssues;
+          if (glossaryIssues?.length) {
+            const terms = glossaryIssues
+              .map((issue) => (issue.reason === 'DO_NOT_TRANSLATE' ? `${issue.term} (keep untranslated)` : `${issue.term} → ${issue.expected}`))
+              .join('\n');
+            if (confirm(`The glossary check flagged:\n${terms}\n\nApprove anyway?`)) {
+              runAction(action, actionNote, true);
+            }
+            return;
+          }
+          toast.error('Failed to update review status', error?.response?.data?.error || error?.message || 'Please try again');
+        },
+        onSettled: () => setPendingAction(null),
+      },
+    );
+  };
+
+  const statusStyle = REVIEW_STATUS_STYLES[status];
+  // Writers only get submit / withdraw - reviewer actions need content.approve
+  const actions = getAvailableReviewActions(status).filter((action) => canApprove || !REVIEW_TRANSITIONS[action].reviewerOnly);
+
+  return (
+    <div className="relative inline-flex flex-wrap items-center gap-2">
+      <span className={`inline-flex items-center px-4 py-2 border rounded-full text-sm font-semibold ${statusStyle.className}`}>
+        {statusStyle.label}
+      </span>
+
+      {actions.map((action) => (
+        <button
+          key={action}
+          onClick={() => (action === 'request_changes' ? setIsRequestingChanges(!isRequestingChanges) : runAction(action))}
+          disabled={disabled || transition.isPending}
+          className={`inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+            PRIMARY_ACTIONS.includes(action)
+              ? 'bg-success hover:bg-success/90 text-white'
+              : 'bg-white-10 hover:bg-white-20 border border-white-20 text-text-secondary'
+          }`}
+        >
+          {pendingAction === action && <Loader2 className="w-4 h-4 animate-spin" />}
+          {REVIEW_TRANSITIONS[action].label}
+        </button>
+      ))}
+
+      {isRequestingChanges && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-navy-dark border border-white-20 rounded-xl shadow-lg p-4 z-20 space-y-3">
+          <label className="text-xs text-text-muted">What needs to change?</label>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            placeholder="Optional note for the author"
+            className="w-full p-3 bg-navy-dark border border-white-20 rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-gold/50 text-sm resize-y"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsRequestingChanges(false)} className="btn btn-secondary text-sm">
+              Cancel
+            </button>
+            <button
+              onClick={() => runAction('request_changes', note.trim() || undefined)}
+              disabled={transition.isPending}
+              className="btn btn-primary text-sm inline-flex items-center gap-2"
+            >
+              {pendingAction === 'request_changes' && <Loader2 className="w-4 h-4 animate-spin" />}
+              Request changes
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ChevronDown, ChevronUp, History, Loader2, RotateCcw } from 'lucide-react';
+import { useScriptRevisions, useRestoreRevision } from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+import type { RevisionOutputType, RevisionSource, ScriptRevision } from '@repo/api-client';
+
+interface RevisionHistoryProps {
+  orgSlug: string;
+  outputType: RevisionOutputType;
+  outputId: string;
+  submissionId: string;
+  canRegenerateMedia?: boolean; // Offer "regenerate media" on restore (outputs that already have media)
+  disabled?: boolean;
+}
+
+interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+const SOURCE_STYLES: Record<RevisionSource, { label: string; className: string }> = {
+  MANUAL: { label: 'Manual edit', className: 'bg-white-20 text-text-primary' },
+  AI_REGENERATE: { label: 'AI generated', className: 'bg-blue-accent/20 text-blue-accent' },
+  AI_IMPROVE: { label: 'AI improved', className: 'bg-gold/20 text-gold' },
+  RESTORE: { label: 'Restored', className: 'bg-success/20 text-success' },
+};
+
+// Podcast transcripts are stored as JSON segments - diff them one speaker turn per line
+const toLines = (outputType: RevisionOutputType, content: string) => {
+  if (outputType === 'podcast') {
+    try {
+      const segments = JSON.parse(content) as Array<{ speaker: string; text: string }>;
+      return segments.map((segment) => `${segment.speaker === 'interviewer' ? 'Interviewer' : 'Guest'}: ${segment.text}`);
+    } catch {
+      // Fall through to plain text
+    }
+  }
+  return content.split('\n');
+};
+
+// Line-level diff from the longest common subsequence of the two versions
+const diffLines = (before: string[], after: string[]): DiffLine[] => {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.push({ kind: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ kind: 'removed', text: before[i++] });
+    } else {
+      result.push({ kind: 'added', text: after[j++] });
+    }
+  }
+  while (i < before.length) result.push({ kind: 'removed', text: before[i++] });
+  while (j < after.length) result.push({ kind: 'added', text: after[j++] });
+  return result;
+};
+
+const authorName = (revision: ScriptRevision) =>
+  revision.author ? revision.author.fullName || revision.author.email : 'Content generator';
+
+/**
+ * Version history of a script or transcript with a diff view and restore
+ */
+export function RevisionHistory({
+  orgSlug,
+  outputType,
+  outputId,
+  submissionId,
+  canRegenerateMedia = false,
+  disabled = false,
+}: RevisionHistoryProps) {
+  const toast = useToast();
+  const { data: revisions = [], isLoading } = useScriptRevisions(orgSlug, outputType, outputId);
+  const restoreRevision = useRestoreRevision(orgSlug, outputType, outputId, submissionId);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [baseId, setBaseId] = useState('');
+  const [compareId, setCompareId] = useState('');
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [regenerateMedia, setRegenerateMedia] = useState(false);
+
+  // Default to comparing the two most recent versions
+  useEffect(() => {
+    setCompareId(revisions[0]?.id ?? '');
+    setBaseId(revisions[1]?.id ?? revisions[0]?.id ?? '');
+  }, [revisions]);
+
+  const base = revisions.find((revision) => revision.id === baseId);
+  const compare = revisions.find((revision) => revision.id === compareId);
+
+  const diff = useMemo(
+    () => (base && compare ? diffLines(toLines(outputType, base.content), toLines(outputType, compare.content)) : []),
+    [base, compare, outputType],
+  );
+  const changedLines = diff.filter((line) => line.kind !== 'same').length;
+
+  const handleRestore = (revision: ScriptRevision) => {
+    restoreRevision.mutate(
+      { revisionId: revision.id, regenerateMedia: canRegenerateMedia && regenerateMedia },
+      {
+        onSuccess: (result) => {
+          setConfirmingId(null);
+          toast.success(
+            `Restored version ${revision.version}`,
+            result.regeneratingMedia ? 'Media is being regenerated with the restored script' : 'Regenerate media to apply it',
+          );
+        },
+        onError: (error: any) => {
+          toast.error('Failed to restore revision', error?.response?.data?.error || error?.message || 'Please try again');
+        },
+      },
+    );
+  };
+
+  const versionLabel = (revision: ScriptRevision) =>
+    `v${revision.version} · ${SOURCE_STYLES[revision.source].label} · ${formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}`;
+
+  return (
+    <div className="card p-4 sm:p-6 space-y-4">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-text-primary inline-flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Version History
+          {revisions.length > 0 && <span className="text-sm font-normal text-text-muted">({revisions.length})</span>}
+        </h2>
+        {isOpen ? <ChevronUp className="w-5 h-5 text-text-muted" /> : <ChevronDown className="w-5 h-5 text-text-muted" />}
+      </button>
+
+      {isOpen && isLoading && (
+        <div className="flex justify-center">
+          <Loader2 className="w-6 h-6 text-text-muted animate-spin" />
+        </div>
+      )}
+
+      {isOpen && !isLoading && revisions.length === 0 && (
+        <p className="text-sm text-text-muted">No revisions yet. Every save, AI improvement and restore is recorded here.</p>
+      )}
+
+      {isOpen && revisions.length > 0 && (
+        <>
+          {/* Revision list */}
+          <div className="space-y-2">
+            {revisions.map((revision, index) => {
+              const restoredFrom = revisions.find((r) => r.id === revision.restoredFromId);
+              return (
+                <div key={revision.id} className="bg-navy-dark/50 border border-white-10 rounded-xl p-3 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-text-muted">
+                      <span className="text-sm font-medium text-text-primary">v{revision.version}</span>
+                      <span className={`px-2 py-0.5 rounded-full ${SOURCE_STYLES[revision.source].className}`}>
+                        {SOURCE_STYLES[revision.source].label}
+                        {restoredFrom && ` v${restoredFrom.version}`}
+                      </span>
+                      <span>{authorName(revision)}</span>
+                      <span>{formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}</span>
+                      {index === 0 && <span className="text-success">Current</span>}
+                    </div>
+                    {index > 0 && confirmingId !== revision.id && (
+                      <button
+                        onClick={() => {
+                          setConfirmingId(revision.id);
+                          setRegenerateMedia(false);
+                        }}
+                        disabled={disabled}
+                        className="inline-flex items-center gap-1 text-xs text-blue-accent hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        Restore
+                      </button>
+                    )}
+                  </div>
+
+                  {revision.note && (
+                    <p className="text-xs text-text-secondary italic break-words">"{revision.note}"</p>
+                  )}
+
+                  {confirmingId === revision.id && (
+                    <div className="flex flex-wrap items-center justify-between gap-2 pt-2 border-t border-white-10">
+                      {canRegenerateMedia ? (
+                        <label className="inline-flex items-center gap-2 text-xs text-text-secondary">
+                          <input
+                            type="checkbox"
+                            checked={regenerateMedia}
+                            onChange={(e) => setRegenerateMedia(e.target.checked)}
+                          />
+                          Regenerate media after restoring
+                        </label>
+                      ) : (
+                        <span className="text-xs text-text-muted">The current version stays in the history.</span>
+                      )}
+                      <div className="flex gap-2">
+                        <button onClick={() => setConfirmingId(null)} className="btn btn-secondary text-sm">
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleRestore(revision)}
+                          disabled={restoreRevision.isPending}
+                          className="btn btn-primary text-sm inline-flex items-center gap-2"
+                        >
+                          {restoreRevision.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                          Restore v{revision.version}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Diff between two revisions */}
+          {revisions.length > 1 && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm text-text-secondary">
+                <span>Compare</span>
+                <select
+                  value={baseId}
+                  onChange={(e) => setBaseId(e.target.value)}
+                  className="bg-white-10 border border-white-20 rounded-lg px-2 py-1 text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-gold/50"
+                >
+                  {revisions.map((revision) => (
+                    <option key={revision.id} value={revision.id}>
+                      {versionLabel(revision)}
+                    </option>
+                  ))}
+                </select>
+                <span>with</span>
+                <select
+                  value={compareId}
+                  onChange={(e) => setCompareId(e.target.value)}
+                  className="bg-white-10 border border-white-20 rounded-lg px-2 py-1 text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-gold/50"
+                >
+                  {revisions.map((revision) => (
+                    <option key={revision.id} value={revision.id}>
+                      {versionLabel(revision)}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-xs text-text-muted">{changedLines} changed lines</span>
+              </div>
+
+              <div className="max-h-96 overflow-y-auto bg-navy-dark border border-white-20 rounded-lg p-3 font-mono text-xs space-y-0.5">
+                {diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={`whitespace-pre-wrap break-words px-2 rounded ${
+                      line.kind === 'added'
+                        ? 'bg-success/20 text-success'
+                        : line.kind === 'removed'
+                          ? 'bg-error/20 text-error line-through'
+                          : 'text-text-secondary'
+                    }`}
+                  >
+                    {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}
+                    {line.text}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
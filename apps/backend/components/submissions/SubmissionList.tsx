@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { Clock, CheckCircle2, XCircle, Loader2, FileStack, Calendar, ChevronRight, Mic, Headphones, Video, FileCheck, Target, Plus, AlertCircle } from 'lucide-react';
-import { useSubmissions } from '@/lib/api/hooks';
+import { useSubmissions, useLanguageLabels } from '@/lib/api/hooks';
 
 function StatusBadge({ status }: { status: string }) {
   const config: Record<string, { className: string; icon: React.ReactNode }> = {
@@ -44,6 +44,7 @@ interface SubmissionListProps {
 
 export function SubmissionList({ orgSlug }: SubmissionListProps) {
   const { data, isLoading, error } = useSubmissions(orgSlug, 1, 20);
+  const { getLabel: getLanguageLabel } = useLanguageLabels(orgSlug);
   const basePath = orgSlug ? `/org/${orgSlug}` : '';
 
   if (isLoading) {
@@ -95,21 +96,6 @@ export function SubmissionList({ orgSlug }: SubmissionListProps) {
     interactive: <Target className="w-3.5 h-3.5" />,
   };
 
-  const getLanguageLabel = (language: string) => {
-    switch (language) {
-      case 'ENGLISH':
-        return 'English';
-      case 'MARATHI':
-        return 'Marathi';
-      case 'HINDI':
-        return 'Hindi';
-      case 'BENGALI':
-        return 'Bengali';
-      default:
-        return language;
-    }
-  };
-
   return (
     <div className="grid gap-3">
       {data.submissions.map((submission) => {
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useHasPermission, useUpdatePublishSchedule } from '@/lib/api/hooks';
+import { useToast } from '@/components/ui/ToastContainer';
+import type { ScheduledContentType } from '@repo/api-client';
+
+interface PublishScheduleButtonProps {
+  orgSlug: string;
+  contentType: ScheduledContentType;
+  contentId: string;
+  publishAt?: string | null;
+  expiresAt?: string | null;
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toInputValue = (date?: string | null) => (date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : '');
+const toIsoString = (value: string) => (value ? new Date(value).toISOString() : null);
+
+export function PublishScheduleButton({ orgSlug, contentType, contentId, publishAt, expiresAt }: PublishScheduleButtonProps) {
+  const toast = useToast();
+  const updateSchedule = useUpdatePublishSchedule(orgSlug);
+  const canApprove = useHasPermission(orgSlug, 'content.approve');
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [publishValue, setPublishValue] = useState('');
+  const [expiresValue, setExpiresValue] = useState('');
+
+  const handleOpen = () => {
+    setPublishValue(toInputValue(publishAt));
+    setExpiresValue(toInputValue(expiresAt));
+    setIsOpen(!isOpen);
+  };
+
+  const saveSchedule = (nextPublishAt: string | null, nextExpiresAt: string | null) => {
+    updateSchedule.mutate(
+      { contentType, id: contentId, publishAt: nextPublishAt, expiresAt: nextExpiresAt },
+      {
+        onSuccess: () => {
+          setIsOpen(false);
+          toast.success('Schedule saved', 'Learners will see this content within the scheduled window');
+        },
+        onError: (error: any) => {
+          toast.error('Failed to save schedule', error?.response?.data?.error || error?.message || 'Please try again');
+        },
+      }
+    );
+  };
+
+  const summary = publishAt || expiresAt
+    ? [
+        publishAt && `From ${format(new Date(publishAt), 'MMM d, HH:mm')}`,
+        expiresAt && `Until ${format(new Date(expiresAt), 'MMM d, HH:mm')}`,
+      ]
+        .filter(Boolean)
+        .join(' · ')
+    : 'Schedule';
+
+  // Scheduling publishes content, so it needs the same permission as approving
+  if (!canApprove) {
+    return null;
+  }
+
+  return (
+    <div className="relative">
+      <button onClick={handleOpen} className="btn btn-secondary inline-flex items-center gap-2">
+        <CalendarClock className="w-4 h-4" />
+        <span className="text-sm">{summary}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-navy-dark border border-white-20 rounded-xl shadow-lg p-4 z-20 space-y-3">
+          <div className="space-y-1">
+            <label className="text-xs text-text-muted">Publish at (empty = as soon as approved)</label>
+            <input
+              type="datetime-local"
+              value={publishValue}
+              onChange={(e) => setPublishValue(e.target.value)}
+              className="input w-full text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-text-muted">Expires at (empty = never)</label>
+            <input
+              type="datetime-local"
+              value={expiresValue}
+              onChange={(e) => setExpiresValue(e.target.value)}
+              className="input w-full text-sm"
+            />
+          </div>
+          <p className="text-xs text-text-muted">
+            Only approved content is shown. Expired content is unpublished and its approver is notified.
+          </p>
+          <div className="flex justify-end gap-2">
+            {(publishAt || expiresAt) && (
+              <button
+                onClick={() => saveSchedule(null, null)}
+                disabled={updateSchedule.isPending}
+                className="btn btn-secondary text-sm"
+              >
+                Clear
+              </button>
+            )}
+            <button
+              onClick={() => saveSchedule(toIsoString(publishValue), toIsoString(expiresValue))}
+              disabled={updateSchedule.isPending}
+              className="btn btn-primary text-sm inline-flex items-center gap-2"
+            >
+              {updateSchedule.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
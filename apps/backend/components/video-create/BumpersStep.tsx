@@ -108,6 +108,9 @@ function BumperCard({
             {bumper.type === 'video' ? `${bumper.duration}s` : `Suggested: ${bumper.duration}s`}
           </div>
         )}
+        {bumper.skipWatermark && (
+          <div className="text-xs text-text-muted">No logo watermark</div>
+        )}
       </div>
     </div>
   );
@@ -4,6 +4,9 @@ import { useCaptionStyles } from '@/lib/api/hooks';
 import { Loader2, Check, ImageIcon } from 'lucide-react';
 import type { CaptionStyle } from '@repo/api-client';
 
+// Width of the portrait videos the logo is burned into - logoMargin is in pixels of this frame
+const VIDEO_FRAME_WIDTH = 1080;
+
 interface CaptionsStepProps {
   orgSlug: string;
   selectedCaptionStyleId: string | null;
@@ -38,7 +41,7 @@ function CaptionStyleCard({
       } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
     >
       {/* Preview Image */}
-      <div className="aspect-video bg-navy-dark">
+      <div className="relative aspect-video bg-navy-dark">
         {style.previewImageUrl ? (
           <img
             src={style.previewImageUrl}
@@ -50,6 +53,22 @@ function CaptionStyleCard({
             <ImageIcon className="w-8 h-8 text-text-muted" />
           </div>
         )}
+
+        {/* Logo watermark as it's burned into the video - margin percentages are of the width on every side, like logoMargin */}
+        {style.logoUrl && (
+          <img
+            src={style.logoUrl}
+            alt=""
+            className="absolute pointer-events-none"
+            style={{
+              width: `${(style.logoScale ?? 0.15) * 100}%`,
+              opacity: style.logoOpacity ?? 1,
+              [style.logoPosition?.startsWith('bottom') ? 'bottom' : 'top']: 0,
+              [style.logoPosition?.endsWith('left') ? 'left' : 'right']: 0,
+              margin: `${((style.logoMargin ?? 24) / VIDEO_FRAME_WIDTH) * 100}%`,
+            }}
+          />
+        )}
       </div>
 
       {/* Info */}
@@ -72,6 +91,11 @@ function CaptionStyleCard({
             <span>Includes logo overlay</span>
           </div>
         )}
+
+        {/* Local renderer doesn't apply Submagic zooms or B-rolls */}
+        {style.renderer === 'local' && (
+          <div className="mt-1 text-xs text-text-muted">Local captions, no AI editing</div>
+        )}
       </div>
     </button>
   );
@@ -0,0 +1,145 @@
+'use client';
+
+import type { RenditionFit, VideoAspectRatio } from '@repo/api-client';
+
+type RenditionAspectRatio = Exclude<VideoAspectRatio, 'PORTRAIT'>;
+
+const FORMAT_OPTIONS: Array<{
+  aspectRatio: RenditionAspectRatio;
+  label: string;
+  ratio: string;
+  description: string;
+  frameClassName: string;
+}> = [
+  {
+    aspectRatio: 'SQUARE',
+    label: 'Square (1:1)',
+    ratio: '1:1',
+    description: 'Instagram and LinkedIn feeds',
+    frameClassName: 'w-6 h-6',
+  },
+  {
+    aspectRatio: 'LANDSCAPE',
+    label: 'Landscape (16:9)',
+    ratio: '16:9',
+    description: 'YouTube, websites and presentations',
+    frameClassName: 'w-8 h-[18px]',
+  },
+];
+
+const FIT_OPTIONS: Array<{ value: RenditionFit; label: string; description: string }> = [
+  {
+    value: 'pad',
+    label: 'Fit',
+    description: 'Keeps the whole video, with a blurred background filling the sides',
+  },
+  {
+    value: 'crop',
+    label: 'Fill',
+    description: 'Crops to fill the frame - videos captioned by Submagic use Fit instead, so their captions are never cut off',
+  },
+];
+
+interface FormatsStepProps {
+  aspectRatios: RenditionAspectRatio[];
+  renditionFit: RenditionFit;
+  onAspectRatiosChange: (aspectRatios: RenditionAspectRatio[]) => void;
+  onRenditionFitChange: (fit: RenditionFit) => void;
+  disabled?: boolean;
+}
+
+export function FormatsStep({
+  aspectRatios,
+  renditionFit,
+  onAspectRatiosChange,
+  onRenditionFitChange,
+  disabled = false,
+}: FormatsStepProps) {
+  const toggleAspectRatio = (aspectRatio: RenditionAspectRatio, enabled: boolean) => {
+    onAspectRatiosChange(
+      enabled
+        ? [...aspectRatios.filter((value) => value !== aspectRatio), aspectRatio]
+        : aspectRatios.filter((value) => value !== aspectRatio)
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-text-muted">
+        Videos are created in portrait. Choose any extra formats to render - bumpers, logo and music are added to each:
+      </p>
+
+      {/* Portrait - always rendered */}
+      <div className="flex items-center gap-3 p-4 rounded-xl bg-white-10 opacity-70">
+        <input
+          type="checkbox"
+          checked
+          disabled
+          className="w-5 h-5 rounded border-white-40 bg-transparent accent-gold"
+        />
+        <div className="w-6 flex justify-center">
+          <div className="w-[14px] h-6 rounded-sm border-2 border-text-muted" />
+        </div>
+        <div className="flex-1">
+          <div className="font-medium text-text-primary">Portrait (9:16)</div>
+          <div className="text-sm text-text-muted">Reels, Shorts and the widget player - always created</div>
+        </div>
+      </div>
+
+      {FORMAT_OPTIONS.map((option) => (
+        <label
+          key={option.aspectRatio}
+          className={`flex items-center gap-3 p-4 rounded-xl bg-white-10 hover:bg-white-20 transition-all duration-200 ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}`}
+        >
+          <input
+            type="checkbox"
+            checked={aspectRatios.includes(option.aspectRatio)}
+            onChange={(e) => toggleAspectRatio(option.aspectRatio, e.target.checked)}
+            className="w-5 h-5 rounded border-white-40 bg-transparent checked:bg-gold accent-gold"
+            disabled={disabled}
+          />
+          <div className="w-8 flex justify-center">
+            <div className={`${option.frameClassName} rounded-sm border-2 border-gold`} />
+          </div>
+          <div className="flex-1">
+            <div className="font-medium text-text-primary">{option.label}</div>
+            <div className="text-sm text-text-muted">{option.description}</div>
+          </div>
+        </label>
+      ))}
+
+      {/* How the portrait video is reframed */}
+      {aspectRatios.length > 0 && (
+        <div className="px-4 pb-2 space-y-2">
+          <label className="text-sm font-medium text-text-secondary">Reframing</label>
+          <div className="grid grid-cols-2 gap-2">
+            {FIT_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => onRenditionFitChange(option.value)}
+                disabled={disabled}
+                className={`p-3 rounded-lg text-left border transition-colors disabled:opacity-50 ${
+                  renditionFit === option.value
+                    ? 'border-gold bg-gold/10'
+                    : 'border-white-20 bg-white-5 hover:bg-white-10'
+                }`}
+              >
+                <div className="text-sm font-medium text-text-primary">{option.label}</div>
+                <div className="text-xs text-text-muted mt-1">{option.description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="p-3 bg-white-5 rounded-lg border border-white-10">
+        <p className="text-xs text-text-muted">
+          <strong className="text-text-secondary">Formats:</strong>{' '}
+          {['9:16', ...FORMAT_OPTIONS.filter((option) => aspectRatios.includes(option.aspectRatio)).map((option) => option.ratio)].join(' • ')}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -11,18 +11,12 @@ import {
   Trash2,
   Languages,
   RefreshCw,
+  BookOpen,
 } from 'lucide-react';
+import { useLanguageLabels } from '@repo/api-client/hooks';
+import type { GlossaryIssue, Language } from '@repo/api-client';
 
 type ScriptSource = 'prompt' | 'script_file' | 'content_file' | null;
-type Language = 'ENGLISH' | 'MARATHI' | 'HINDI' | 'BENGALI' | 'GUJARATI';
-
-const LANGUAGE_LABELS: Record<Language, string> = {
-  ENGLISH: 'English',
-  MARATHI: 'Marathi',
-  HINDI: 'Hindi',
-  BENGALI: 'Bengali',
-  GUJARATI: 'Gujarati',
-};
 
 interface TranslationData {
   script: string;
@@ -72,9 +66,12 @@ export function ScriptStep({
   const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
 
   // Language tabs state
+  const { getLabel: getLanguageLabel, getDirection } = useLanguageLabels(orgSlug);
   const [activeLanguage, setActiveLanguage] = useState<Language>('ENGLISH');
   const [isTranslating, setIsTranslating] = useState(false);
   const [translatingLanguages, setTranslatingLanguages] = useState<Language[]>([]);
+  // Glossary terms the latest machine translation didn't follow, per language
+  const [glossaryIssues, setGlossaryIssues] = useState<Record<string, GlossaryIssue[]>>({});
 
   const scriptFileInputRef = useRef<HTMLInputElement>(null);
   const contentFileInputRef = useRef<HTMLInputElement>(null);
@@ -98,6 +95,7 @@ export function ScriptStep({
 
     setTranslatingLanguages(languagesToTranslate);
     const newTranslations = { ...translations };
+    const newIssues: Record<string, GlossaryIssue[]> = {};
 
     for (const lang of languagesToTranslate) {
       try {
@@ -118,6 +116,7 @@ export function ScriptStep({
             script: result.data.translatedScript,
             title: result.data.translatedTitle,
           };
+          newIssues[lang] = result.data.glossaryIssues ?? [];
         }
       } catch {
         // Continue with other languages if one fails
@@ -125,6 +124,7 @@ export function ScriptStep({
     }
 
     onTranslationsChange(newTranslations);
+    setGlossaryIssues((prev) => ({ ...prev, ...newIssues }));
     setTranslatingLanguages([]);
   }, [script, title, orgSlug, translations, onTranslationsChange]);
 
@@ -171,6 +171,7 @@ export function ScriptStep({
           title: result.data.translatedTitle,
         },
       });
+      setGlossaryIssues((prev) => ({ ...prev, [targetLanguage]: result.data.glossaryIssues ?? [] }));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to translate');
     } finally {
@@ -688,7 +689,7 @@ export function ScriptStep({
                   }`}
                 >
                   <Languages className="w-4 h-4" />
-                  {LANGUAGE_LABELS[lang]}
+                  {getLanguageLabel(lang)}
                   {isBeingTranslated && (
                     <span title="Translating...">
                       <Loader2 className="w-3 h-3 animate-spin text-blue-400" />
@@ -708,7 +709,7 @@ export function ScriptStep({
           <div className="flex items-center gap-2 p-3 bg-blue-accent/10 border border-blue-accent/30 rounded-lg">
             <Loader2 className="w-4 h-4 text-blue-accent animate-spin" />
             <p className="text-sm text-blue-accent">
-              Auto-translating to {translatingLanguages.map(l => LANGUAGE_LABELS[l]).join(', ')}...
+              Auto-translating to {translatingLanguages.map(getLanguageLabel).join(', ')}...
             </p>
           </div>
         )}
@@ -737,19 +738,20 @@ export function ScriptStep({
             {/* Translated Title */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-text-primary">
-                {LANGUAGE_LABELS[activeLanguage]} Title
+                {getLanguageLabel(activeLanguage)} Title
               </label>
               {translations[activeLanguage]?.title ? (
                 <input
                   type="text"
                   value={translations[activeLanguage]?.title || ''}
                   onChange={(e) => handleTitleTranslationEdit(activeLanguage, e.target.value)}
+                  dir={getDirection(activeLanguage)}
                   className="w-full p-3 bg-navy-dark border border-white-20 rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-blue-accent/50 text-sm"
-                  placeholder={`${LANGUAGE_LABELS[activeLanguage]} title will appear here...`}
+                  placeholder={`${getLanguageLabel(activeLanguage)} title will appear here...`}
                 />
               ) : (
                 <div className="p-3 bg-white-5 border border-white-10 rounded-lg text-text-muted text-sm">
-                  Click &quot;Translate&quot; to generate {LANGUAGE_LABELS[activeLanguage]} title
+                  Click &quot;Translate&quot; to generate {getLanguageLabel(activeLanguage)} title
                 </div>
               )}
             </div>
@@ -758,7 +760,7 @@ export function ScriptStep({
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <label className="text-sm font-medium text-text-primary">
-                  {LANGUAGE_LABELS[activeLanguage]} Script
+                  {getLanguageLabel(activeLanguage)} Script
                 </label>
                 <button
                   type="button"
@@ -790,12 +792,37 @@ export function ScriptStep({
                   <textarea
                     value={translations[activeLanguage]?.script || ''}
                     onChange={(e) => handleTranslationEdit(activeLanguage, e.target.value)}
+                    dir={getDirection(activeLanguage)}
                     rows={8}
                     className="w-full p-3 bg-navy-dark border border-white-20 rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-blue-accent/50 font-mono text-sm leading-relaxed resize-y"
                   />
                   <div className="text-xs text-text-muted text-right">
                     {translations[activeLanguage]?.script?.length || 0} characters
                   </div>
+
+                  {(glossaryIssues[activeLanguage]?.length ?? 0) > 0 && (
+                    <div className="p-3 bg-gold/10 border border-gold/30 rounded-lg">
+                      <div className="flex items-center gap-2 mb-2">
+                        <BookOpen className="w-4 h-4 text-gold" />
+                        <p className="text-sm text-text-primary font-medium">
+                          The translation doesn&apos;t follow the glossary - check these terms before creating
+                        </p>
+                      </div>
+                      <ul className="space-y-1 text-sm text-text-secondary">
+                        {glossaryIssues[activeLanguage].map((issue) => (
+                          <li key={issue.term}>
+                            <span className="text-text-primary">{issue.term}</span>
+                            {' → '}
+                            {issue.reason === 'DO_NOT_TRANSLATE' ? (
+                              'keep untranslated'
+                            ) : (
+                              <span dir={getDirection(activeLanguage)}>{issue.expected}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </>
               ) : (
                 <div className="p-6 bg-white-5 border border-white-10 rounded-lg text-center">
@@ -803,7 +830,7 @@ export function ScriptStep({
                   <p className="text-sm text-text-muted">
                     {!title
                       ? 'Add a title above to enable translation'
-                      : `Click "Translate" to generate ${LANGUAGE_LABELS[activeLanguage]} version`
+                      : `Click "Translate" to generate ${getLanguageLabel(activeLanguage)} version`
                     }
                   </p>
                 </div>
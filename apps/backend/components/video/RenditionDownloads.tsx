@@ -0,0 +1,84 @@
+'use client';
+
+import { Download, Loader2, AlertCircle } from 'lucide-react';
+import type { VideoAspectRatio, VideoRendition } from '@repo/api-client';
+
+const ASPECT_RATIO_LABELS: Record<VideoAspectRatio, string> = {
+  PORTRAIT: '9:16',
+  SQUARE: '1:1',
+  LANDSCAPE: '16:9',
+};
+
+interface RenditionDownloadsProps {
+  orgSlug: string;
+  videoId: string; // StandaloneVideo or VideoOutput ID
+  renditions?: VideoRendition[];
+}
+
+/**
+ * Download links for each format of a video - the portrait original plus its renditions
+ * Renders nothing when the video has no other formats
+ */
+export function RenditionDownloads({ orgSlug, videoId, renditions }: RenditionDownloadsProps) {
+  if (!renditions || renditions.length === 0) return null;
+
+  const downloadUrl = `/api/org/${orgSlug}/videos/${videoId}/download`;
+  const sorted = [...renditions].sort(
+    (a, b) => Object.keys(ASPECT_RATIO_LABELS).indexOf(a.aspectRatio) - Object.keys(ASPECT_RATIO_LABELS).indexOf(b.aspectRatio)
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs">
+      <span className="text-text-muted">Formats:</span>
+      <a
+        href={downloadUrl}
+        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-white-10 text-text-secondary hover:bg-white-20 transition-colors"
+        title="Download the original portrait video"
+      >
+        <Download className="w-3 h-3" />
+        {ASPECT_RATIO_LABELS.PORTRAIT}
+      </a>
+      {sorted.map((rendition) => {
+        const label = ASPECT_RATIO_LABELS[rendition.aspectRatio];
+
+        if (rendition.status === 'COMPLETED' && rendition.videoUrl) {
+          return (
+            <a
+              key={rendition.id}
+              href={`${downloadUrl}?aspectRatio=${rendition.aspectRatio}`}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-white-10 text-text-secondary hover:bg-white-20 transition-colors"
+              title={`Download the ${label} version${rendition.fit === 'crop' ? ' (cropped)' : ''}`}
+            >
+              <Download className="w-3 h-3" />
+              {label}
+            </a>
+          );
+        }
+
+        if (rendition.status === 'FAILED') {
+          return (
+            <span
+              key={rendition.id}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-red-500/20 text-red-400"
+              title={rendition.error || 'Rendering failed'}
+            >
+              <AlertCircle className="w-3 h-3" />
+              {label}
+            </span>
+          );
+        }
+
+        return (
+          <span
+            key={rendition.id}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-white-5 text-text-muted"
+            title="Rendered after the video finishes processing"
+          >
+            <Loader2 className="w-3 h-3 animate-spin" />
+            {label}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
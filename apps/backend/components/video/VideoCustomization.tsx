@@ -3,7 +3,8 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
 import { useCharacters, useCaptionStyles, useBackgroundMusic, useVideoBumpers } from '@/lib/api/hooks';
 import { Loader2, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Sparkles, ArrowLeft, ImageIcon, Check, Play, Pause, Volume2, VolumeX, Music, Film, X } from 'lucide-react';
-import type { CaptionStyle, BackgroundMusic, VideoBumper } from '@repo/api-client';
+import type { CaptionStyle, BackgroundMusic, VideoBumper, RenditionFit, VideoAspectRatio } from '@repo/api-client';
+import { FormatsStep } from '@/components/video-create/FormatsStep';
 
 interface CharacterGroup {
   groupId: string;
@@ -335,6 +336,9 @@ export interface VideoCustomizationConfig {
   startBumperDuration?: number | null; // seconds, for image bumpers
   endBumperId?: string | null;
   endBumperDuration?: number | null; // seconds, for image bumpers
+  // Extra formats rendered alongside the portrait original
+  aspectRatios?: Exclude<VideoAspectRatio, 'PORTRAIT'>[];
+  renditionFit?: RenditionFit;
 }
 
 const ITEMS_PER_PAGE = 6;
@@ -1143,6 +1147,20 @@ export function VideoCustomization({ orgSlug, value, onChange, disabled = false
           </div>
         )}
       </div>
+
+      {/* Formats Section */}
+      <div>
+        <label className="block text-text-secondary text-sm font-medium mb-3">
+          Formats (Optional)
+        </label>
+        <FormatsStep
+          aspectRatios={value.aspectRatios ?? []}
+          renditionFit={value.renditionFit ?? 'pad'}
+          onAspectRatiosChange={(aspectRatios) => onChange({ ...value, aspectRatios })}
+          onRenditionFitChange={(renditionFit) => onChange({ ...value, renditionFit })}
+          disabled={disabled}
+        />
+      </div>
     </div>
   );
 }
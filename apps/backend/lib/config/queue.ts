@@ -190,4 +190,11 @@ export enum JobTypes {
 
   // VideoOutput post-processing (for edu video flow)
   POST_PROCESS_VIDEO_OUTPUT = 'post-process-video-output', // Add bumpers/music to VideoOutput (edu videos)
+
+  // Article import
+  CHECK_ARTICLE_FEED = 'check-article-feed', // Import new RSS/Atom entries as draft articles ("Check now")
+  EXTRACT_ARTICLE_IMPORT_ITEM = 'extract-article-import-item', // Bulk upload: extract one file / URL and submit it
+
+  // Content pipelines
+  RUN_CONTENT_PIPELINE = 'run-content-pipeline', // Manual "Run now" - scheduled runs are started by the worker itself
 }
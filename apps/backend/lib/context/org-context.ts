@@ -7,6 +7,7 @@
 
 import { prisma } from '@repo/database';
 import { MemberRole, Organization, OrganizationMember } from '@prisma/client';
+import { resolvePermissions, type OrgPermission } from './permissions';
 
 /**
  * Get organization by slug
@@ -65,16 +66,47 @@ export async function getCurrentOrg(orgSlug: string): Promise<Organization> {
 }
 
 /**
- * Get user's organization membership
+ * Cookie holding the slug of the organization the user last worked in.
+ * Decides where non-org routes (/, /dashboard, login) land for users in several orgs.
+ */
+export const CURRENT_ORG_COOKIE = 'current-org';
+
+/**
+ * Get user's membership in an organization
  * @param userId - Profile ID
- * @returns OrganizationMember with organization, or null if not a member of any org
+ * @param orgId - Organization ID (omit for the user's earliest membership)
+ * @returns OrganizationMember with organization, or null if not a member
  */
 export async function getUserOrgMembership(
-  userId: string
+  userId: string,
+  orgId?: string
 ): Promise<(OrganizationMember & { organization: Organization }) | null> {
-  return await prisma.organizationMember.findUnique({
+  if (orgId) {
+    return await prisma.organizationMember.findUnique({
+      where: { organizationId_profileId: { organizationId: orgId, profileId: userId } },
+      include: { organization: true },
+    });
+  }
+
+  return await prisma.organizationMember.findFirst({
     where: { profileId: userId },
     include: { organization: true },
+    orderBy: { joinedAt: 'asc' },
+  });
+}
+
+/**
+ * Get all of a user's organization memberships
+ * @param userId - Profile ID
+ * @returns Memberships with organization, oldest first
+ */
+export async function getUserOrgMemberships(
+  userId: string
+): Promise<(OrganizationMember & { organization: Organization })[]> {
+  return await prisma.organizationMember.findMany({
+    where: { profileId: userId },
+    include: { organization: true },
+    orderBy: { joinedAt: 'asc' },
   });
 }
 
@@ -96,10 +128,10 @@ export async function validateOrgAccess(
   }
 
   const membership = await prisma.organizationMember.findUnique({
-    where: { profileId: userId },
+    where: { organizationId_profileId: { organizationId: org.id, profileId: userId } },
   });
 
-  if (!membership || membership.organizationId !== org.id) {
+  if (!membership) {
     return false;
   }
 
@@ -123,10 +155,10 @@ export async function getUserRole(
   orgId: string
 ): Promise<MemberRole | null> {
   const membership = await prisma.organizationMember.findUnique({
-    where: { profileId: userId },
+    where: { organizationId_profileId: { organizationId: orgId, profileId: userId } },
   });
 
-  if (!membership || membership.organizationId !== orgId) {
+  if (!membership) {
     return null;
   }
 
@@ -182,6 +214,51 @@ export async function isOrgOwner(
   return role === 'OWNER';
 }
 
+/**
+ * Get a member's effective permissions in an organization
+ * @param userId - Profile ID
+ * @param orgId - Organization ID
+ * @returns Permissions of the built-in or custom role, empty if not a member
+ */
+export async function getMemberPermissions(
+  userId: string,
+  orgId: string
+): Promise<OrgPermission[]> {
+  const membership = await prisma.organizationMember.findUnique({
+    where: { organizationId_profileId: { organizationId: orgId, profileId: userId } },
+    include: { customRole: { select: { permissions: true } } },
+  });
+
+  if (!membership) {
+    return [];
+  }
+
+  return resolvePermissions(membership.role, membership.customRole?.permissions);
+}
+
+/**
+ * Check that a user holds a permission in an organization
+ * Use after validateOrgAccess in routes that change content or settings
+ *
+ * @param userId - Profile ID
+ * @param orgSlug - Organization slug
+ * @param permission - Required permission (e.g. 'content.approve')
+ * @returns true if the user's role grants the permission
+ */
+export async function hasOrgPermission(
+  userId: string,
+  orgSlug: string,
+  permission: OrgPermission
+): Promise<boolean> {
+  const org = await getOrgFromSlug(orgSlug);
+  if (!org) {
+    return false;
+  }
+
+  const permissions = await getMemberPermissions(userId, org.id);
+  return permissions.includes(permission);
+}
+
 /**
  * Get organization ID from slug (utility function)
  * @param slug - Organization slug
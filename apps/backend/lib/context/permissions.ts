@@ -0,0 +1,77 @@
+/**
+ * Organization Permissions
+ *
+ * Permission keys checked by org-scoped API routes and the defaults of the built-in roles.
+ * No server imports - client components use these to render role editors and gate actions.
+ */
+
+import type { MemberRole } from '@prisma/client';
+
+export const ORG_PERMISSIONS = [
+  'content.create',
+  'content.approve',
+  'content.delete',
+  'brand.manage',
+  'members.manage',
+  'settings.manage',
+  'billing.view',
+] as const;
+
+export type OrgPermission = (typeof ORG_PERMISSIONS)[number];
+
+export const ORG_PERMISSION_DETAILS: Record<OrgPermission, { label: string; description: string }> = {
+  'content.create': {
+    label: 'Create content',
+    description: 'Draft articles, edit scripts, tags and thumbnails, generate media and comment on reviews',
+  },
+  'content.approve': {
+    label: 'Approve content',
+    description: 'Approve articles, move content through review, assign reviewers and schedule publishing',
+  },
+  'content.delete': {
+    label: 'Delete content',
+    description: 'Delete articles and tags',
+  },
+  'brand.manage': {
+    label: 'Manage brand',
+    description: 'Add characters, caption styles, background music and bumpers, and set the caption theme and dictionary',
+  },
+  'members.manage': {
+    label: 'Manage members',
+    description: 'Invite and remove members, handle join requests and change roles',
+  },
+  'settings.manage': {
+    label: 'Manage settings',
+    description: 'Edit organization details, languages, the glossary, the pronunciation lexicon and widget API keys, and view the audit log',
+  },
+  'billing.view': {
+    label: 'View billing',
+    description: 'See plan, usage and invoices',
+  },
+};
+
+/**
+ * Built-in role defaults. MEMBER keeps everything members could do before permissions existed -
+ * assign a custom role (e.g. "Writer" with only content.create) to narrow it.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<MemberRole, readonly OrgPermission[]> = {
+  OWNER: ORG_PERMISSIONS,
+  ADMIN: ORG_PERMISSIONS,
+  MEMBER: ['content.create', 'content.approve', 'content.delete', 'brand.manage'],
+};
+
+export function isOrgPermission(value: string): value is OrgPermission {
+  return (ORG_PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Effective permissions of a member.
+ * Owners always hold every permission; a custom role replaces the built-in defaults for everyone else.
+ */
+export function resolvePermissions(role: MemberRole, customRolePermissions?: string[] | null): OrgPermission[] {
+  if (role === 'OWNER' || !customRolePermissions) {
+    return [...DEFAULT_ROLE_PERMISSIONS[role]];
+  }
+
+  return customRolePermissions.filter(isOrgPermission);
+}
@@ -0,0 +1,379 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { z } from 'zod';
+import type { ContentCategory, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/config/database';
+import { queueService } from '@/lib/services/core/queue.service';
+import { storageService } from '@/lib/services/core/storage.service';
+import { articleImportService } from '@/lib/services/core/article-import.service';
+import { MIME_TYPES_BY_EXTENSION } from '@/lib/services/core/file-extraction.service';
+import { auditService, type AuditContext } from '@/lib/services/core/audit.service';
+import { languageService } from '@/lib/services/core/language.service';
+
+export const MAX_IMPORT_ITEMS = 100;
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // Per extracted file
+const MAX_ZIP_ENTRIES = 1000; // Per archive, checked before anything is inflated
+const MAX_UNZIPPED_SIZE = 200 * 1024 * 1024; // All archives of an upload together
+const CATEGORIES = ['EVERGREEN', 'PERIODIC_UPDATES', 'MARKET_UPDATES'] as const;
+
+// Validation schemas
+export const ImportSettingsSchema = z
+  .object({
+    category: z.enum(CATEGORIES).default('EVERGREEN'),
+    languages: z.array(z.string().min(1)).min(1, 'Select at least one language'),
+    generateAudio: z.boolean().default(true),
+    generatePodcast: z.boolean().default(true),
+    generateVideo: z.boolean().default(true),
+    generateQuiz: z.boolean().default(true),
+    generateInteractivePodcast: z.boolean().default(true),
+  })
+  .refine(
+    (settings) =>
+      settings.generateAudio ||
+      settings.generatePodcast ||
+      settings.generateVideo ||
+      settings.generateQuiz ||
+      settings.generateInteractivePodcast,
+    { message: 'Select at least one media type' },
+  );
+
+export const RetryImportSchema = z.object({
+  itemIds: z.array(z.string().uuid()).min(1).optional(),
+});
+
+/**
+ * Thrown for uploads that can't be turned into a batch (→ 400)
+ */
+export class ArticleImportValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArticleImportValidationError';
+  }
+}
+
+interface UploadedFile {
+  name: string;
+  buffer: Buffer;
+}
+
+interface ManifestRow {
+  url?: string;
+  file?: string;
+  title?: string;
+  category?: ContentCategory;
+}
+
+const outputStatus = { select: { status: true } } as const;
+
+const itemInclude = {
+  article: {
+    select: {
+      id: true,
+      title: true,
+      submissions: {
+        select: {
+          id: true,
+          language: true,
+          status: true,
+          audioOutputs: outputStatus,
+          podcastOutputs: outputStatus,
+          videoOutputs: outputStatus,
+          quizOutputs: outputStatus,
+          interactivePodcastOutputs: outputStatus,
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  },
+} satisfies Prisma.ArticleImportItemInclude;
+
+/**
+ * Split CSV text into rows, handling quoted fields
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const row: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        if (inQuotes && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = !inQuotes;
+        }
+      } else if (char === ',' && !inQuotes) {
+        row.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    row.push(current.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Manifest rows keyed by the header row - `url` or `file`, plus optional `title` and `category`
+ */
+function parseManifest(content: string): ManifestRow[] {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map((column) => column.toLowerCase());
+
+  if (!columns.includes('url') && !columns.includes('file')) {
+    throw new ArticleImportValidationError('The manifest needs a header row with a "url" or "file" column');
+  }
+
+  return rows.map((row, index) => {
+    const value = (column: string) => row[columns.indexOf(column)] || undefined;
+    const category = value('category')?.toUpperCase().replace(/\s+/g, '_');
+
+    if (category && !CATEGORIES.includes(category as ContentCategory)) {
+      throw new ArticleImportValidationError(`Manifest row ${index + 2}: unknown category "${value('category')}"`);
+    }
+
+    const url = value('url');
+    if (url && !z.string().url().safeParse(url).success) {
+      throw new ArticleImportValidationError(`Manifest row ${index + 2}: "${url}" is not a valid URL`);
+    }
+    if (!url && !value('file')) {
+      throw new ArticleImportValidationError(`Manifest row ${index + 2}: needs a url or a file`);
+    }
+
+    return { url, file: value('file'), title: value('title'), category: category as ContentCategory | undefined };
+  });
+}
+
+/**
+ * Inflate a ZIP entry, stopping as soon as it grows past `limit` bytes (null then).
+ * The sizes in the archive's headers can't be trusted, so the inflated bytes are counted.
+ */
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer');
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.pause();
+        stream.removeAllListeners();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Flatten the upload: ZIP archives are unpacked, a CSV is taken as the manifest
+ */
+async function collectFiles(uploads: File[], manifestUpload: File | null) {
+  const files: UploadedFile[] = [];
+  const skipped: string[] = [];
+  let manifest = manifestUpload ? await manifestUpload.text() : null;
+
+  const add = (name: string, buffer: Buffer) => {
+    const extension = path.extname(name).toLowerCase();
+    if (extension === '.csv' && manifest === null) {
+      manifest = buffer.toString('utf8');
+    } else if (!MIME_TYPES_BY_EXTENSION[extension]) {
+      skipped.push(name);
+    } else if (buffer.length > MAX_FILE_SIZE) {
+      throw new ArticleImportValidationError(`"${name}" is larger than ${MAX_FILE_SIZE / 1024 / 1024}MB`);
+    } else {
+      files.push({ name, buffer });
+    }
+  };
+
+  let unzippedSize = 0;
+
+  for (const upload of uploads) {
+    const buffer = Buffer.from(await upload.arrayBuffer());
+
+    if (path.extname(upload.name).toLowerCase() !== '.zip') {
+      add(upload.name, buffer);
+      continue;
+    }
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(buffer);
+    } catch {
+      throw new ArticleImportValidationError(`"${upload.name}" is not a valid ZIP archive`);
+    }
+
+    // Folders and macOS metadata
+    const entries = Object.values(zip.files).filter(
+      (entry) => !entry.dir && !entry.name.startsWith('__MACOSX/') && !path.posix.basename(entry.name).startsWith('.'),
+    );
+    if (entries.length > MAX_ZIP_ENTRIES) {
+      throw new ArticleImportValidationError(`"${upload.name}" has more than ${MAX_ZIP_ENTRIES} files`);
+    }
+
+    for (const entry of entries) {
+      const baseName = path.posix.basename(entry.name);
+      const extension = path.extname(baseName).toLowerCase();
+      if (extension !== '.csv' && !MIME_TYPES_BY_EXTENSION[extension]) {
+        skipped.push(baseName);
+        continue;
+      }
+
+      const remaining = MAX_UNZIPPED_SIZE - unzippedSize;
+      const buffer = await inflateEntry(entry, Math.min(MAX_FILE_SIZE, remaining));
+      if (!buffer) {
+        throw new ArticleImportValidationError(
+          remaining < MAX_FILE_SIZE
+            ? `The unpacked upload is larger than ${MAX_UNZIPPED_SIZE / 1024 / 1024}MB`
+            : `"${baseName}" is larger than ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+        );
+      }
+
+      unzippedSize += buffer.length;
+      add(baseName, buffer);
+    }
+  }
+
+  return { files, skipped, manifest: manifest as string | null };
+}
+
+export const ArticleImportsController = {
+  async getAll(organizationId: string) {
+    return await prisma.articleImportBatch.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      include: {
+        createdBy: { select: { id: true, fullName: true, email: true } },
+        items: { select: { status: true } },
+      },
+    });
+  },
+
+  async getById(organizationId: string, id: string) {
+    return await prisma.articleImportBatch.findFirst({
+      where: { id, organizationId },
+      include: {
+        createdBy: { select: { id: true, fullName: true, email: true } },
+        items: { orderBy: { position: 'asc' }, include: itemInclude },
+      },
+    });
+  },
+
+  /**
+   * Store the uploaded files and queue one extraction job per file / manifest URL
+   */
+  async create(
+    organizationId: string,
+    userId: string,
+    upload: { files: File[]; manifest: File | null; settings: unknown },
+    audit?: AuditContext,
+  ) {
+    const settings = ImportSettingsSchema.parse(upload.settings);
+    await languageService.assertOrgLanguages(organizationId, settings.languages);
+    const { files, skipped, manifest } = await collectFiles(upload.files, upload.manifest);
+    const rows = manifest ? parseManifest(manifest) : [];
+
+    // Manifest `file` rows only add a title / category to an uploaded file
+    const overrides = new Map(rows.filter((row) => row.file).map((row) => [row.file!.toLowerCase(), row]));
+    const uploadedNames = new Set(files.map((file) => file.name.toLowerCase()));
+    const missing = [...overrides.keys()].filter((name) => !uploadedNames.has(name));
+    if (missing.length > 0) {
+      throw new ArticleImportValidationError(`Files listed in the manifest were not uploaded: ${missing.join(', ')}`);
+    }
+
+    const urlRows = rows.filter((row) => row.url);
+    const total = files.length + urlRows.length;
+    if (total === 0) {
+      throw new ArticleImportValidationError(
+        skipped.length > 0 ? `No supported files found (skipped ${skipped.join(', ')})` : 'Nothing to import',
+      );
+    }
+    if (total > MAX_IMPORT_ITEMS) {
+      throw new ArticleImportValidationError(`A batch can have at most ${MAX_IMPORT_ITEMS} articles (got ${total})`);
+    }
+
+    const items: Prisma.ArticleImportItemCreateWithoutBatchInput[] = [];
+    for (const file of files) {
+      const safeName = file.name.replace(/[^\w.-]+/g, '-');
+      const { key } = await storageService.uploadFile(
+        file.buffer,
+        `organizations/${organizationId}/article-imports/${safeName}`,
+        MIME_TYPES_BY_EXTENSION[path.extname(file.name).toLowerCase()],
+      );
+      const override = overrides.get(file.name.toLowerCase());
+      items.push({
+        position: items.length,
+        fileName: file.name,
+        fileKey: key,
+        title: override?.title,
+        category: override?.category,
+      });
+    }
+    for (const row of urlRows) {
+      items.push({
+        position: items.length,
+        fileName: row.url!,
+        sourceUrl: row.url,
+        title: row.title,
+        category: row.category,
+      });
+    }
+
+    const batch = await prisma.articleImportBatch.create({
+      data: {
+        ...settings,
+        organizationId,
+        createdById: userId,
+        items: { create: items },
+      },
+      include: { items: { select: { id: true }, orderBy: { position: 'asc' } } },
+    });
+
+    for (const item of batch.items) {
+      await queueService.addArticleImportItemJob({ itemId: item.id });
+    }
+
+    await auditService.record(audit, {
+      action: 'article-import.create',
+      targetType: 'article-import',
+      targetId: batch.id,
+      metadata: { items: batch.items.length, files: files.length, urls: urlRows.length, skipped },
+    });
+
+    return { id: batch.id, items: batch.items.length, skipped };
+  },
+
+  async retry(organizationId: string, id: string, data: unknown, audit?: AuditContext) {
+    const { itemIds } = RetryImportSchema.parse(data ?? {});
+
+    const batch = await prisma.articleImportBatch.findFirst({ where: { id, organizationId } });
+    if (!batch) throw new Error('Import not found');
+
+    const retried = await articleImportService.retryItems(batch.id, itemIds);
+
+    await auditService.record(audit, {
+      action: 'article-import.retry',
+      targetType: 'article-import',
+      targetId: batch.id,
+      metadata: { ...retried, itemIds },
+    });
+
+    return retried;
+  },
+};
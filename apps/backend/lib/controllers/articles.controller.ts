@@ -1,14 +1,15 @@
 import { prisma } from '@/lib/config/database';
+import { auditService, type AuditContext } from '@/lib/services/core/audit.service';
 
 export const ArticlesController = {
-  async approveArticle(articleId: string, userId: string) {
+  async approveArticle(articleId: string, userId: string, audit?: AuditContext) {
     const article = await prisma.article.findUnique({
       where: { id: articleId },
     });
 
     if (!article) throw new Error('Article not found');
 
-    return await prisma.article.update({
+    const updated = await prisma.article.update({
       where: { id: articleId },
       data: {
         isApproved: true,
@@ -16,16 +17,25 @@ export const ArticlesController = {
         approvedBy: userId,
       },
     });
+
+    await auditService.record(audit, {
+      action: 'article.approve',
+      targetType: 'article',
+      targetId: articleId,
+      metadata: { title: article.title },
+    });
+
+    return updated;
   },
 
-  async unapproveArticle(articleId: string) {
+  async unapproveArticle(articleId: string, audit?: AuditContext) {
     const article = await prisma.article.findUnique({
       where: { id: articleId },
     });
 
     if (!article) throw new Error('Article not found');
 
-    return await prisma.article.update({
+    const updated = await prisma.article.update({
       where: { id: articleId },
       data: {
         isApproved: false,
@@ -33,5 +43,14 @@ export const ArticlesController = {
         approvedBy: null,
       },
     });
+
+    await auditService.record(audit, {
+      action: 'article.unapprove',
+      targetType: 'article',
+      targetId: articleId,
+      metadata: { title: article.title },
+    });
+
+    return updated;
   },
 };
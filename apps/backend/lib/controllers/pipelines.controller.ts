@@ -0,0 +1,248 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/config/database';
+import { queueService } from '@/lib/services/core/queue.service';
+import { getNextRunAt, isValidSchedule } from '@/lib/services/core/content-pipeline.service';
+import { auditService, type AuditContext } from '@/lib/services/core/audit.service';
+import { languageService } from '@/lib/services/core/language.service';
+
+// Validation schemas
+const PipelineFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  isActive: z.boolean(),
+  // Source
+  feedId: z.string().uuid('Invalid feed').nullable(),
+  category: z.enum(['EVERGREEN', 'PERIODIC_UPDATES', 'MARKET_UPDATES']).nullable(),
+  maxArticlesPerRun: z.number().int().min(1).max(10),
+  // Trigger
+  schedule: z.string().trim().min(1, 'Schedule is required'),
+  timezone: z.string().min(1),
+  // Submission defaults
+  languages: z.array(z.string().min(1)).min(1, 'Select at least one language'),
+  generateAudio: z.boolean(),
+  generatePodcast: z.boolean(),
+  generateVideo: z.boolean(),
+  generateQuiz: z.boolean(),
+  generateInteractivePodcast: z.boolean(),
+  // Media generation from scripts
+  autoGenerateMedia: z.boolean(),
+  characterId: z.string().nullable(),
+  captionStyleId: z.string().nullable(),
+  backgroundMusicId: z.string().nullable(),
+  backgroundMusicVolume: z.number().min(0).max(1),
+  startBumperId: z.string().nullable(),
+  startBumperDuration: z.number().min(1).max(10).nullable(),
+  endBumperId: z.string().nullable(),
+  endBumperDuration: z.number().min(1).max(10).nullable(),
+  approvalPolicy: z.enum(['MANUAL', 'SUBMIT_FOR_REVIEW', 'PUBLISH']),
+});
+
+export const CreatePipelineSchema = PipelineFieldsSchema.partial().required({
+  name: true,
+  schedule: true,
+  languages: true,
+});
+
+export const UpdatePipelineSchema = PipelineFieldsSchema.partial();
+
+type PipelineFields = z.infer<typeof UpdatePipelineSchema>;
+
+/**
+ * Thrown for settings that parse but don't make sense for the organization (→ 400)
+ */
+export class PipelineValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineValidationError';
+  }
+}
+
+const runInclude = {
+  triggeredBy: { select: { id: true, fullName: true, email: true } },
+  submissions: {
+    select: {
+      id: true,
+      language: true,
+      status: true,
+      article: { select: { id: true, title: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.PipelineRunInclude;
+
+/**
+ * Check the combined (existing + changed) settings against the organization's resources
+ */
+async function validatePipeline(organizationId: string, pipeline: PipelineFields) {
+  if (!isValidSchedule(pipeline.schedule ?? '', pipeline.timezone ?? 'UTC')) {
+    throw new PipelineValidationError('Invalid schedule - use a cron expression like "0 7 * * 1-5" and a valid timezone');
+  }
+
+  // Without either, every new article in the organization would be submitted automatically
+  if (!pipeline.feedId && !pipeline.category) {
+    throw new PipelineValidationError('Choose a feed or a category for the pipeline to pick articles from');
+  }
+
+  if (
+    !pipeline.generateAudio &&
+    !pipeline.generatePodcast &&
+    !pipeline.generateVideo &&
+    !pipeline.generateQuiz &&
+    !pipeline.generateInteractivePodcast
+  ) {
+    throw new PipelineValidationError('Select at least one media type');
+  }
+
+  if (pipeline.generateVideo && pipeline.autoGenerateMedia && (!pipeline.characterId || !pipeline.captionStyleId)) {
+    throw new PipelineValidationError('Choose a character and caption style to generate videos automatically');
+  }
+
+  const where = { organizationId };
+  const [feed, character, captionStyle, music, startBumper, endBumper] = await Promise.all([
+    pipeline.feedId ? prisma.articleFeed.findFirst({ where: { ...where, id: pipeline.feedId } }) : true,
+    pipeline.characterId ? prisma.character.findFirst({ where: { ...where, id: pipeline.characterId } }) : true,
+    pipeline.captionStyleId ? prisma.captionStyle.findFirst({ where: { ...where, id: pipeline.captionStyleId } }) : true,
+    pipeline.backgroundMusicId ? prisma.backgroundMusic.findFirst({ where: { ...where, id: pipeline.backgroundMusicId } }) : true,
+    pipeline.startBumperId ? prisma.videoBumper.findFirst({ where: { ...where, id: pipeline.startBumperId } }) : true,
+    pipeline.endBumperId ? prisma.videoBumper.findFirst({ where: { ...where, id: pipeline.endBumperId } }) : true,
+  ]);
+
+  if (!feed) throw new PipelineValidationError('Feed not found');
+  if (!character) throw new PipelineValidationError('Character not found in this organization');
+  if (!captionStyle) throw new PipelineValidationError('Caption style not found in this organization');
+  if (!music) throw new PipelineValidationError('Background music not found');
+  if (!startBumper) throw new PipelineValidationError('Start bumper not found');
+  if (!endBumper) throw new PipelineValidationError('End bumper not found');
+}
+
+export const PipelinesController = {
+  async getAll(organizationId: string) {
+    return await prisma.contentPipeline.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        feed: { select: { id: true, title: true } },
+        character: { select: { id: true, name: true } },
+        captionStyle: { select: { id: true, name: true } },
+        runs: { orderBy: { startedAt: 'desc' }, take: 1, include: runInclude },
+        _count: { select: { runs: true } },
+      },
+    });
+  },
+
+  async getById(organizationId: string, id: string) {
+    return await prisma.contentPipeline.findFirst({
+      where: { id, organizationId },
+      include: {
+        feed: { select: { id: true, title: true } },
+        character: { select: { id: true, name: true } },
+        captionStyle: { select: { id: true, name: true } },
+        runs: { orderBy: { startedAt: 'desc' }, take: 20, include: runInclude },
+        _count: { select: { runs: true } },
+      },
+    });
+  },
+
+  async create(organizationId: string, userId: string, data: unknown, audit?: AuditContext) {
+    const validatedData = CreatePipelineSchema.parse(data);
+    const fields = {
+      timezone: 'UTC',
+      isActive: true,
+      generateAudio: true,
+      generatePodcast: true,
+      generateVideo: true,
+      generateQuiz: true,
+      generateInteractivePodcast: true,
+      autoGenerateMedia: true,
+      ...validatedData,
+    };
+    await validatePipeline(organizationId, fields);
+    await languageService.assertOrgLanguages(organizationId, fields.languages);
+
+    const pipeline = await prisma.contentPipeline.create({
+      data: {
+        ...fields,
+        nextRunAt: fields.isActive ? getNextRunAt(fields.schedule, fields.timezone) : null,
+        organizationId,
+        createdById: userId,
+      },
+    });
+
+    await auditService.record(audit, {
+      action: 'pipeline.create',
+      targetType: 'pipeline',
+      targetId: pipeline.id,
+      metadata: { name: pipeline.name, schedule: pipeline.schedule },
+    });
+
+    return pipeline;
+  },
+
+  async update(organizationId: string, id: string, data: unknown, audit?: AuditContext) {
+    const validatedData = UpdatePipelineSchema.parse(data);
+
+    const existing = await prisma.contentPipeline.findFirst({ where: { id, organizationId } });
+    if (!existing) throw new Error('Pipeline not found');
+
+    const fields = { ...existing, ...validatedData };
+    await validatePipeline(organizationId, fields);
+    // Languages disabled since the pipeline was saved keep working until they're changed here
+    if (validatedData.languages) {
+      await languageService.assertOrgLanguages(organizationId, validatedData.languages);
+    }
+
+    // Re-plan the next run when the trigger changes; pausing clears it
+    const triggerChanged =
+      validatedData.schedule !== undefined || validatedData.timezone !== undefined || validatedData.isActive !== undefined;
+
+    const pipeline = await prisma.contentPipeline.update({
+      where: { id },
+      data: {
+        ...validatedData,
+        ...(triggerChanged && {
+          nextRunAt: fields.isActive ? getNextRunAt(fields.schedule, fields.timezone) : null,
+        }),
+      },
+    });
+
+    await auditService.record(audit, {
+      action: 'pipeline.update',
+      targetType: 'pipeline',
+      targetId: pipeline.id,
+      metadata: { name: pipeline.name, changes: validatedData },
+    });
+
+    return pipeline;
+  },
+
+  async delete(organizationId: string, id: string, audit?: AuditContext) {
+    const pipeline = await prisma.contentPipeline.findFirst({ where: { id, organizationId } });
+    if (!pipeline) throw new Error('Pipeline not found');
+
+    // Runs go with it; the submissions they created are kept
+    await prisma.contentPipeline.delete({ where: { id } });
+
+    await auditService.record(audit, {
+      action: 'pipeline.delete',
+      targetType: 'pipeline',
+      targetId: pipeline.id,
+      metadata: { name: pipeline.name },
+    });
+  },
+
+  async run(organizationId: string, id: string, userId: string, audit?: AuditContext) {
+    const pipeline = await prisma.contentPipeline.findFirst({ where: { id, organizationId } });
+    if (!pipeline) throw new Error('Pipeline not found');
+
+    const job = await queueService.addContentPipelineRunJob({ pipelineId: pipeline.id, triggeredById: userId });
+
+    await auditService.record(audit, {
+      action: 'pipeline.run',
+      targetType: 'pipeline',
+      targetId: pipeline.id,
+      metadata: { name: pipeline.name },
+    });
+
+    return { jobId: job.id };
+  },
+};
@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { submissionService } from '@/lib/services/submission.service';
 import { tagService } from '@/lib/services/tag.service';
 import { openaiService } from '@/lib/services/external/openai.service';
+import { scriptRevisionService, getInteractivePodcastScript } from '@/lib/services/core/script-revision.service';
+import { auditService, type AuditContext } from '@/lib/services/core/audit.service';
 import { prisma } from '@/lib/config/database';
 
 // Validation schemas
@@ -35,9 +37,21 @@ export const AddTagSchema = z.object({
 });
 
 export const SubmissionsController = {
-  async create(data: z.infer<typeof CreateSubmissionSchema>) {
+  async create(data: z.infer<typeof CreateSubmissionSchema>, audit?: AuditContext) {
     const validatedData = CreateSubmissionSchema.parse(data);
-    return await submissionService.createSubmission(validatedData);
+    const submissions = await submissionService.createSubmission(validatedData);
+
+    // One submission per language
+    for (const submission of submissions) {
+      await auditService.record(audit, {
+        action: 'submission.create',
+        targetType: 'submission',
+        targetId: submission.id,
+        metadata: { articleId: validatedData.articleId, language: submission.language },
+      });
+    }
+
+    return submissions;
   },
 
   async getAll(organizationId: string, page: number = 1, limit: number = 20, includeOutputs = false) {
@@ -82,7 +96,7 @@ export const SubmissionsController = {
     });
   },
 
-  async updateQuiz(submissionId: string, quizId: string, questions: any[]) {
+  async updateQuiz(submissionId: string, quizId: string, questions: any[], audit?: AuditContext) {
     const quizOutput = await prisma.quizOutput.findFirst({
       where: {
         id: quizId,
@@ -94,25 +108,36 @@ export const SubmissionsController = {
       throw new Error('Quiz not found');
     }
 
-    // Delete existing questions (normalized schema - questions are in separate table)
-    await prisma.quizQuestion.deleteMany({
+    const existingQuestions = await prisma.quizQuestion.findMany({
       where: { quizOutputId: quizId },
+      select: { id: true },
     });
+    const existingIds = new Set(existingQuestions.map((q) => q.id));
 
-    // Create new questions
-    return await prisma.quizOutput.update({
+    const toQuestionData = (q: any, index: number) => ({
+      order: index,
+      type: q.type,
+      prompt: q.prompt,
+      stem: q.stem || null,
+      options: q.options || null,
+      correctAnswer: q.correctAnswer ?? null, // 0 / false are valid answers
+      explanation: q.explanation || null,
+    });
+
+    // Update questions in place so their IDs (and recorded learner answers) survive edits
+    const updated = await prisma.quizOutput.update({
       where: { id: quizId },
       data: {
         questions: {
-          create: questions.map((q, index) => ({
-            order: index,
-            type: q.type,
-            prompt: q.prompt,
-            stem: q.stem || null,
-            options: q.options || null,
-            correctAnswer: q.correctAnswer || null,
-            explanation: q.explanation || null,
-          })),
+          deleteMany: { id: { notIn: questions.filter((q) => existingIds.has(q.id)).map((q) => q.id) } },
+          update: questions
+            .map((q, index) => ({ q, index }))
+            .filter(({ q }) => existingIds.has(q.id))
+            .map(({ q, index }) => ({ where: { id: q.id }, data: toQuestionData(q, index) })),
+          create: questions
+            .map((q, index) => ({ q, index }))
+            .filter(({ q }) => !existingIds.has(q.id))
+            .map(({ q, index }) => toQuestionData(q, index)),
         },
       },
       include: {
@@ -121,9 +146,18 @@ export const SubmissionsController = {
         },
       },
     });
+
+    await auditService.record(audit, {
+      action: 'quiz.update',
+      targetType: 'quiz',
+      targetId: quizId,
+      metadata: { questionCount: questions.length, previousQuestionCount: existingIds.size },
+    });
+
+    return updated;
   },
 
-  async updateVideoOutput(submissionId: string, videoId: string, payload: { title?: string, script?: string }) {
+  async updateVideoOutput(submissionId: string, videoId: string, payload: { title?: string, script?: string }, audit?: AuditContext) {
     const videoOutput = await prisma.videoOutput.findFirst({
       where: { id: videoId, submissionId },
     });
@@ -133,15 +167,39 @@ export const SubmissionsController = {
     }
 
     // Note: Bubbles are managed through separate VideoBubble table and should be updated via dedicated bubble endpoints
-    return await prisma.videoOutput.update({
-      where: { id: videoId },
-      data: payload,
-      include: {
-        bubbles: {
-          orderBy: { appearsAt: 'asc' },
+    const result = await prisma.$transaction(async (tx) => {
+      const updated = await tx.videoOutput.update({
+        where: { id: videoId },
+        data: payload,
+        include: {
+          bubbles: {
+            orderBy: { appearsAt: 'asc' },
+          },
         },
-      },
+      });
+
+      if (payload.script !== undefined) {
+        await scriptRevisionService.record({
+          outputType: 'video',
+          outputId: videoId,
+          snapshot: { title: updated.title, content: updated.script ?? '' },
+          source: 'MANUAL',
+          authorId: audit?.actorId,
+          previous: videoOutput.script ? { title: videoOutput.title, content: videoOutput.script } : null,
+        }, tx);
+      }
+
+      return updated;
+    });
+
+    await auditService.record(audit, {
+      action: 'video.update',
+      targetType: 'video',
+      targetId: videoId,
+      metadata: { fields: Object.keys(payload) },
     });
+
+    return result;
   },
 
   // Tag management methods
@@ -152,7 +210,7 @@ export const SubmissionsController = {
     });
   },
 
-  async addAudioTag(submissionId: string, audioId: string, tagId: string) {
+  async addAudioTag(submissionId: string, audioId: string, tagId: string, audit?: AuditContext) {
     const audio = await prisma.audioOutput.findFirst({
       where: { id: audioId, submissionId },
     });
@@ -161,19 +219,37 @@ export const SubmissionsController = {
     const tag = await tagService.getTagById(tagId);
     if (!tag) throw new Error('Tag not found');
 
-    return await prisma.audioOutputTag.create({
+    const outputTag = await prisma.audioOutputTag.create({
       data: { audioOutputId: audioId, tagId, isInherited: false },
       include: { tag: true },
     });
+
+    await auditService.record(audit, {
+      action: 'audio.tag_add',
+      targetType: 'audio',
+      targetId: audioId,
+      metadata: { tagId, tagName: tag.name },
+    });
+
+    return outputTag;
   },
 
-  async removeAudioTag(audioId: string, tagId: string) {
-    await prisma.audioOutputTag.deleteMany({
+  async removeAudioTag(audioId: string, tagId: string, audit?: AuditContext) {
+    const { count } = await prisma.audioOutputTag.deleteMany({
       where: { audioOutputId: audioId, tagId },
     });
+
+    if (count > 0) {
+      await auditService.record(audit, {
+        action: 'audio.tag_remove',
+        targetType: 'audio',
+        targetId: audioId,
+        metadata: { tagId },
+      });
+    }
   },
 
-  async addPodcastTag(submissionId: string, podcastId: string, tagId: string) {
+  async addPodcastTag(submissionId: string, podcastId: string, tagId: string, audit?: AuditContext) {
     const podcast = await prisma.podcastOutput.findFirst({
       where: { id: podcastId, submissionId },
     });
@@ -182,19 +258,37 @@ export const SubmissionsController = {
     const tag = await tagService.getTagById(tagId);
     if (!tag) throw new Error('Tag not found');
 
-    return await prisma.podcastOutputTag.create({
+    const outputTag = await prisma.podcastOutputTag.create({
       data: { podcastOutputId: podcastId, tagId, isInherited: false },
       include: { tag: true },
     });
+
+    await auditService.record(audit, {
+      action: 'podcast.tag_add',
+      targetType: 'podcast',
+      targetId: podcastId,
+      metadata: { tagId, tagName: tag.name },
+    });
+
+    return outputTag;
   },
 
-  async removePodcastTag(podcastId: string, tagId: string) {
-    await prisma.podcastOutputTag.deleteMany({
+  async removePodcastTag(podcastId: string, tagId: string, audit?: AuditContext) {
+    const { count } = await prisma.podcastOutputTag.deleteMany({
       where: { podcastOutputId: podcastId, tagId },
     });
+
+    if (count > 0) {
+      await auditService.record(audit, {
+        action: 'podcast.tag_remove',
+        targetType: 'podcast',
+        targetId: podcastId,
+        metadata: { tagId },
+      });
+    }
   },
 
-  async addVideoTag(submissionId: string, videoId: string, tagId: string) {
+  async addVideoTag(submissionId: string, videoId: string, tagId: string, audit?: AuditContext) {
     const video = await prisma.videoOutput.findFirst({
       where: { id: videoId, submissionId },
     });
@@ -203,7 +297,7 @@ export const SubmissionsController = {
     const tag = await tagService.getTagById(tagId);
     if (!tag) throw new Error('Tag not found');
 
-    return await prisma.videoOutputTag.create({
+    const outputTag = await prisma.videoOutputTag.create({
       data: {
         videoOutputId: videoId,
         tagId,
@@ -211,15 +305,33 @@ export const SubmissionsController = {
       },
       include: { tag: true },
     });
+
+    await auditService.record(audit, {
+      action: 'video.tag_add',
+      targetType: 'video',
+      targetId: videoId,
+      metadata: { tagId, tagName: tag.name },
+    });
+
+    return outputTag;
   },
 
-  async removeVideoTag(videoId: string, tagId: string) {
-    await prisma.videoOutputTag.deleteMany({
+  async removeVideoTag(videoId: string, tagId: string, audit?: AuditContext) {
+    const { count } = await prisma.videoOutputTag.deleteMany({
       where: { videoOutputId: videoId, tagId },
     });
+
+    if (count > 0) {
+      await auditService.record(audit, {
+        action: 'video.tag_remove',
+        targetType: 'video',
+        targetId: videoId,
+        metadata: { tagId },
+      });
+    }
   },
 
-  async addInteractivePodcastTag(submissionId: string, ipId: string, tagId: string) {
+  async addInteractivePodcastTag(submissionId: string, ipId: string, tagId: string, audit?: AuditContext) {
     const ip = await prisma.interactivePodcastOutput.findFirst({
       where: { id: ipId, submissionId },
     });
@@ -228,19 +340,37 @@ export const SubmissionsController = {
     const tag = await tagService.getTagById(tagId);
     if (!tag) throw new Error('Tag not found');
 
-    return await prisma.interactivePodcastOutputTag.create({
+    const outputTag = await prisma.interactivePodcastOutputTag.create({
       data: { interactivePodcastId: ipId, tagId, isInherited: false },
       include: { tag: true },
     });
+
+    await auditService.record(audit, {
+      action: 'interactive-podcast.tag_add',
+      targetType: 'interactive-podcast',
+      targetId: ipId,
+      metadata: { tagId, tagName: tag.name },
+    });
+
+    return outputTag;
   },
 
-  async removeInteractivePodcastTag(ipId: string, tagId: string) {
-    await prisma.interactivePodcastOutputTag.deleteMany({
+  async removeInteractivePodcastTag(ipId: string, tagId: string, audit?: AuditContext) {
+    const { count } = await prisma.interactivePodcastOutputTag.deleteMany({
       where: { interactivePodcastId: ipId, tagId },
     });
+
+    if (count > 0) {
+      await auditService.record(audit, {
+        action: 'interactive-podcast.tag_remove',
+        targetType: 'interactive-podcast',
+        targetId: ipId,
+        metadata: { tagId },
+      });
+    }
   },
 
-  async addQuizTag(submissionId: string, quizId: string, tagId: string) {
+  async addQuizTag(submissionId: string, quizId: string, tagId: string, audit?: AuditContext) {
     const quiz = await prisma.quizOutput.findFirst({
       where: { id: quizId, submissionId },
     });
@@ -249,223 +379,112 @@ export const SubmissionsController = {
     const tag = await tagService.getTagById(tagId);
     if (!tag) throw new Error('Tag not found');
 
-    return await prisma.quizOutputTag.create({
+    const outputTag = await prisma.quizOutputTag.create({
       data: { quizOutputId: quizId, tagId, isInherited: false },
       include: { tag: true },
     });
-  },
 
-  async removeQuizTag(quizId: string, tagId: string) {
-    await prisma.quizOutputTag.deleteMany({
-      where: { quizOutputId: quizId, tagId },
-    });
-  },
-
-  // Approval methods
-  async approveAudioOutput(submissionId: string, audioId: string) {
-    const audio = await prisma.audioOutput.findFirst({
-      where: { id: audioId, submissionId },
-    });
-    if (!audio) throw new Error('Audio not found');
-
-    return await prisma.audioOutput.update({
-      where: { id: audioId },
-      data: {
-        isApproved: true,
-        approvedAt: new Date(),
-      },
-    });
-  },
-
-  async approvePodcastOutput(submissionId: string, podcastId: string) {
-    const podcast = await prisma.podcastOutput.findFirst({
-      where: { id: podcastId, submissionId },
-    });
-    if (!podcast) throw new Error('Podcast not found');
-
-    return await prisma.podcastOutput.update({
-      where: { id: podcastId },
-      data: {
-        isApproved: true,
-        approvedAt: new Date(),
-      },
-    });
-  },
-
-  async approveVideoOutput(submissionId: string, videoId: string) {
-    const video = await prisma.videoOutput.findFirst({
-      where: { id: videoId, submissionId },
-    });
-    if (!video) throw new Error('Video not found');
-
-    return await prisma.videoOutput.update({
-      where: { id: videoId },
-      data: {
-        isApproved: true,
-        approvedAt: new Date(),
-      },
-      include: {
-        bubbles: {
-          orderBy: { appearsAt: 'asc' },
-        },
-      },
-    });
-  },
-
-  async approveQuizOutput(submissionId: string, quizId: string) {
-    const quiz = await prisma.quizOutput.findFirst({
-      where: { id: quizId, submissionId },
-    });
-    if (!quiz) throw new Error('Quiz not found');
-
-    return await prisma.quizOutput.update({
-      where: { id: quizId },
-      data: {
-        isApproved: true,
-        approvedAt: new Date(),
-      },
-      include: {
-        questions: {
-          orderBy: { order: 'asc' },
-        },
-      },
-    });
-  },
-
-  async approveInteractivePodcastOutput(submissionId: string, ipId: string) {
-    const ip = await prisma.interactivePodcastOutput.findFirst({
-      where: { id: ipId, submissionId },
+    await auditService.record(audit, {
+      action: 'quiz.tag_add',
+      targetType: 'quiz',
+      targetId: quizId,
+      metadata: { tagId, tagName: tag.name },
     });
-    if (!ip) throw new Error('Interactive podcast not found');
 
-    return await prisma.interactivePodcastOutput.update({
-      where: { id: ipId },
-      data: {
-        isApproved: true,
-        approvedAt: new Date(),
-      },
-    });
+    return outputTag;
   },
 
-  // Unapprove methods
-  async unapproveAudioOutput(submissionId: string, audioId: string) {
-    const audio = await prisma.audioOutput.findFirst({
-      where: { id: audioId, submissionId },
+  async removeQuizTag(quizId: string, tagId: string, audit?: AuditContext) {
+    const { count } = await prisma.quizOutputTag.deleteMany({
+      where: { quizOutputId: quizId, tagId },
     });
-    if (!audio) throw new Error('Audio not found');
 
-    return await prisma.audioOutput.update({
-      where: { id: audioId },
-      data: {
-        isApproved: false,
-        approvedAt: null,
-      },
-    });
+    if (count > 0) {
+      await auditService.record(audit, {
+        action: 'quiz.tag_remove',
+        targetType: 'quiz',
+        targetId: quizId,
+        metadata: { tagId },
+      });
+    }
   },
 
-  async unapprovePodcastOutput(submissionId: string, podcastId: string) {
+  // Script update methods
+  async updatePodcastScript(submissionId: string, podcastId: string, transcript: string, audit?: AuditContext) {
     const podcast = await prisma.podcastOutput.findFirst({
       where: { id: podcastId, submissionId },
     });
     if (!podcast) throw new Error('Podcast not found');
 
-    return await prisma.podcastOutput.update({
-      where: { id: podcastId },
-      data: {
-        isApproved: false,
-        approvedAt: null,
-      },
-    });
-  },
+    const result = await prisma.$transaction(async (tx) => {
+      const updated = await tx.podcastOutput.update({
+        where: { id: podcastId },
+        data: { transcript },
+      });
 
-  async unapproveVideoOutput(submissionId: string, videoId: string) {
-    const video = await prisma.videoOutput.findFirst({
-      where: { id: videoId, submissionId },
-    });
-    if (!video) throw new Error('Video not found');
+      await scriptRevisionService.record({
+        outputType: 'podcast',
+        outputId: podcastId,
+        snapshot: { title: podcast.title, content: transcript },
+        source: 'MANUAL',
+        authorId: audit?.actorId,
+        previous: podcast.transcript ? { title: podcast.title, content: podcast.transcript } : null,
+      }, tx);
 
-    return await prisma.videoOutput.update({
-      where: { id: videoId },
-      data: {
-        isApproved: false,
-        approvedAt: null,
-      },
-      include: {
-        bubbles: {
-          orderBy: { appearsAt: 'asc' },
-        },
-      },
+      return updated;
     });
-  },
 
-  async unapproveQuizOutput(submissionId: string, quizId: string) {
-    const quiz = await prisma.quizOutput.findFirst({
-      where: { id: quizId, submissionId },
+    await auditService.record(audit, {
+      action: 'podcast.script_update',
+      targetType: 'podcast',
+      targetId: podcastId,
     });
-    if (!quiz) throw new Error('Quiz not found');
 
-    return await prisma.quizOutput.update({
-      where: { id: quizId },
-      data: {
-        isApproved: false,
-        approvedAt: null,
-      },
-      include: {
-        questions: {
-          orderBy: { order: 'asc' },
-        },
-      },
-    });
+    return result;
   },
 
-  async unapproveInteractivePodcastOutput(submissionId: string, ipId: string) {
+  async updateInteractivePodcastScript(submissionId: string, ipId: string, script: string, audit?: AuditContext) {
     const ip = await prisma.interactivePodcastOutput.findFirst({
       where: { id: ipId, submissionId },
     });
     if (!ip) throw new Error('Interactive podcast not found');
 
-    return await prisma.interactivePodcastOutput.update({
-      where: { id: ipId },
-      data: {
-        isApproved: false,
-        approvedAt: null,
-      },
-    });
-  },
+    // For interactive podcasts, we need to update the script stored in segments
+    // We'll store the raw script in a new field or update segments appropriately
+    // For now, we'll just update segments to preserve structure
+    const result = await prisma.$transaction(async (tx) => {
+      const updated = await tx.interactivePodcastOutput.update({
+        where: { id: ipId },
+        data: {
+          // Store script in a temporary format - will be regenerated with proper segments
+          segments: { script },
+        },
+      });
 
-  // Script update methods
-  async updatePodcastScript(submissionId: string, podcastId: string, transcript: string) {
-    const podcast = await prisma.podcastOutput.findFirst({
-      where: { id: podcastId, submissionId },
-    });
-    if (!podcast) throw new Error('Podcast not found');
+      const previousScript = getInteractivePodcastScript(ip.segments);
+      await scriptRevisionService.record({
+        outputType: 'interactive-podcast',
+        outputId: ipId,
+        snapshot: { title: ip.title, content: script, segments: { script } },
+        source: 'MANUAL',
+        authorId: audit?.actorId,
+        previous: previousScript ? { title: ip.title, content: previousScript, segments: ip.segments as any } : null,
+      }, tx);
 
-    return await prisma.podcastOutput.update({
-      where: { id: podcastId },
-      data: { transcript },
+      return updated;
     });
-  },
 
-  async updateInteractivePodcastScript(submissionId: string, ipId: string, script: string) {
-    const ip = await prisma.interactivePodcastOutput.findFirst({
-      where: { id: ipId, submissionId },
+    await auditService.record(audit, {
+      action: 'interactive-podcast.script_update',
+      targetType: 'interactive-podcast',
+      targetId: ipId,
     });
-    if (!ip) throw new Error('Interactive podcast not found');
 
-    // For interactive podcasts, we need to update the script stored in segments
-    // We'll store the raw script in a new field or update segments appropriately
-    // For now, we'll just update segments to preserve structure
-    return await prisma.interactivePodcastOutput.update({
-      where: { id: ipId },
-      data: {
-        // Store script in a temporary format - will be regenerated with proper segments
-        segments: { script },
-      },
-    });
+    return result;
   },
 
   // AI Script Regeneration methods
-  async regenerateVideoScript(submissionId: string, videoId: string, promptGuidance: string) {
+  async regenerateVideoScript(submissionId: string, videoId: string, promptGuidance: string, audit?: AuditContext) {
     const video = await prisma.videoOutput.findFirst({
       where: { id: videoId, submissionId },
       include: {
@@ -492,21 +511,45 @@ export const SubmissionsController = {
       articleTitle: article.title,
       articleContent: article.content,
       language,
+      organizationId: article.organizationId,
     });
 
     // Update the video with the new script
-    return await prisma.videoOutput.update({
-      where: { id: videoId },
-      data: { script: improvedScript },
-      include: {
-        bubbles: {
-          orderBy: { appearsAt: 'asc' },
+    const result = await prisma.$transaction(async (tx) => {
+      const updated = await tx.videoOutput.update({
+        where: { id: videoId },
+        data: { script: improvedScript },
+        include: {
+          bubbles: {
+            orderBy: { appearsAt: 'asc' },
+          },
         },
-      },
+      });
+
+      await scriptRevisionService.record({
+        outputType: 'video',
+        outputId: videoId,
+        snapshot: { title: video.title, content: improvedScript },
+        source: 'AI_IMPROVE',
+        authorId: audit?.actorId,
+        note: promptGuidance,
+        previous: { title: video.title, content: video.script! },
+      }, tx);
+
+      return updated;
     });
+
+    await auditService.record(audit, {
+      action: 'video.script_improve',
+      targetType: 'video',
+      targetId: videoId,
+      metadata: { promptGuidance },
+    });
+
+    return result;
   },
 
-  async regeneratePodcastScript(submissionId: string, podcastId: string, promptGuidance: string) {
+  async regeneratePodcastScript(submissionId: string, podcastId: string, promptGuidance: string, audit?: AuditContext) {
     const podcast = await prisma.podcastOutput.findFirst({
       where: { id: podcastId, submissionId },
       include: {
@@ -530,16 +573,40 @@ export const SubmissionsController = {
       articleTitle: article.title,
       articleContent: article.content,
       language,
+      organizationId: article.organizationId,
     });
 
     // Update the podcast with the new transcript
-    return await prisma.podcastOutput.update({
-      where: { id: podcastId },
-      data: { transcript: improvedTranscript },
+    const result = await prisma.$transaction(async (tx) => {
+      const updated = await tx.podcastOutput.update({
+        where: { id: podcastId },
+        data: { transcript: improvedTranscript },
+      });
+
+      await scriptRevisionService.record({
+        outputType: 'podcast',
+        outputId: podcastId,
+        snapshot: { title: podcast.title, content: improvedTranscript },
+        source: 'AI_IMPROVE',
+        authorId: audit?.actorId,
+        note: promptGuidance,
+        previous: { title: podcast.title, content: podcast.transcript! },
+      }, tx);
+
+      return updated;
     });
+
+    await auditService.record(audit, {
+      action: 'podcast.script_improve',
+      targetType: 'podcast',
+      targetId: podcastId,
+      metadata: { promptGuidance },
+    });
+
+    return result;
   },
 
-  async regenerateInteractivePodcastScript(submissionId: string, ipId: string, promptGuidance: string) {
+  async regenerateInteractivePodcastScript(submissionId: string, ipId: string, promptGuidance: string, audit?: AuditContext) {
     const ip = await prisma.interactivePodcastOutput.findFirst({
       where: { id: ipId, submissionId },
       include: {
@@ -555,13 +622,7 @@ export const SubmissionsController = {
     if (!ip.submission?.article) throw new Error('Article not found');
 
     // Extract script from segments
-    const segments = ip.segments as any;
-    let originalScript = '';
-    if (Array.isArray(segments)) {
-      originalScript = segments.map((seg: any) => seg.text || '').join(' ');
-    } else if (segments.script) {
-      originalScript = segments.script;
-    }
+    const originalScript = getInteractivePodcastScript(ip.segments);
 
     if (!originalScript) throw new Error('No script content found');
 
@@ -574,19 +635,43 @@ export const SubmissionsController = {
       articleTitle: article.title,
       articleContent: article.content,
       language,
+      organizationId: article.organizationId,
     });
 
     // Update with the new script (stored temporarily in segments)
-    return await prisma.interactivePodcastOutput.update({
-      where: { id: ipId },
-      data: {
-        segments: { script: improvedScript },
-      },
+    const result = await prisma.$transaction(async (tx) => {
+      const updated = await tx.interactivePodcastOutput.update({
+        where: { id: ipId },
+        data: {
+          segments: { script: improvedScript },
+        },
+      });
+
+      await scriptRevisionService.record({
+        outputType: 'interactive-podcast',
+        outputId: ipId,
+        snapshot: { title: ip.title, content: improvedScript, segments: { script: improvedScript } },
+        source: 'AI_IMPROVE',
+        authorId: audit?.actorId,
+        note: promptGuidance,
+        previous: { title: ip.title, content: originalScript, segments: ip.segments as any },
+      }, tx);
+
+      return updated;
     });
+
+    await auditService.record(audit, {
+      action: 'interactive-podcast.script_improve',
+      targetType: 'interactive-podcast',
+      targetId: ipId,
+      metadata: { promptGuidance },
+    });
+
+    return result;
   },
 
   // Media Regeneration methods
-  async regenerateVideoMedia(submissionId: string, videoId: string, organizationId?: string, videoCustomization?: any) {
+  async regenerateVideoMedia(submissionId: string, videoId: string, organizationId?: string, videoCustomization?: any, audit?: AuditContext) {
     const video = await prisma.videoOutput.findFirst({
       where: { id: videoId, submissionId },
     });
@@ -601,6 +686,7 @@ export const SubmissionsController = {
     if (videoCustomization) {
       // Look up caption style if captionStyleId is provided
       let submagicTemplate: string | null = null;
+      let captionStyleId: string | null = null;
       if (videoCustomization.captionStyleId && organizationId) {
         const captionStyle = await prisma.captionStyle.findFirst({
           where: {
@@ -610,6 +696,7 @@ export const SubmissionsController = {
         });
         if (captionStyle) {
           submagicTemplate = captionStyle.submagicTemplate;
+          captionStyleId = captionStyle.id;
         }
       }
 
@@ -618,22 +705,44 @@ export const SubmissionsController = {
         data: {
           characterId: videoCustomization.characterId || null,
           submagicTemplate: submagicTemplate, // Use looked-up template from caption style
+          captionStyleId,
           enableCaptions: videoCustomization.enableCaptions ?? true,
           enableMagicZooms: videoCustomization.enableMagicZooms ?? true,
           enableMagicBrolls: videoCustomization.enableMagicBrolls ?? true,
           magicBrollsPercentage: videoCustomization.magicBrollsPercentage ?? 40,
           generateBubbles: videoCustomization.generateBubbles ?? true,
+          // Formats are only replaced when the customization lists them
+          ...(Array.isArray(videoCustomization.aspectRatios) && {
+            renditions: {
+              deleteMany: {},
+              create: [...new Set<string>(videoCustomization.aspectRatios)]
+                .filter((aspectRatio): aspectRatio is 'SQUARE' | 'LANDSCAPE' =>
+                  aspectRatio === 'SQUARE' || aspectRatio === 'LANDSCAPE'
+                )
+                .map((aspectRatio) => ({
+                  aspectRatio,
+                  fit: videoCustomization.renditionFit === 'crop' ? 'crop' : 'pad',
+                })),
+            },
+          }),
         },
       });
     }
 
+    await auditService.record(audit, {
+      action: 'video.media_regenerate',
+      targetType: 'video',
+      targetId: videoId,
+      metadata: videoCustomization ? { videoCustomization } : undefined,
+    });
+
     // Dynamic import to avoid circular dependencies
     const { videoService } = await import('@/lib/services/media/video.service');
     await videoService.regenerateVideo(videoId);
     return { message: 'Video regeneration initiated' };
   },
 
-  async regeneratePodcastMedia(submissionId: string, podcastId: string) {
+  async regeneratePodcastMedia(submissionId: string, podcastId: string, audit?: AuditContext) {
     const podcast = await prisma.podcastOutput.findFirst({
       where: { id: podcastId, submissionId },
     });
@@ -644,13 +753,19 @@ export const SubmissionsController = {
       throw new Error('Podcast is already being generated. Please wait for the current generation to complete.');
     }
 
+    await auditService.record(audit, {
+      action: 'podcast.media_regenerate',
+      targetType: 'podcast',
+      targetId: podcastId,
+    });
+
     // Dynamic import to avoid circular dependencies
     const { podcastService } = await import('@/lib/services/media/podcast.service');
     await podcastService.regeneratePodcast(podcastId);
     return { message: 'Podcast regeneration completed' };
   },
 
-  async regenerateInteractivePodcastMedia(submissionId: string, ipId: string) {
+  async regenerateInteractivePodcastMedia(submissionId: string, ipId: string, audit?: AuditContext) {
     const ip = await prisma.interactivePodcastOutput.findFirst({
       where: { id: ipId, submissionId },
     });
@@ -661,6 +776,12 @@ export const SubmissionsController = {
       throw new Error('Interactive podcast is already being generated. Please wait for the current generation to complete.');
     }
 
+    await auditService.record(audit, {
+      action: 'interactive-podcast.media_regenerate',
+      targetType: 'interactive-podcast',
+      targetId: ipId,
+    });
+
     // Dynamic import to avoid circular dependencies
     const { interactivePodcastService } = await import('@/lib/services/media/interactive-podcast.service');
     await interactivePodcastService.regenerateInteractivePodcast(ipId);
@@ -0,0 +1,380 @@
+import { prisma } from '../../config/database';
+import { Prisma, type AnalyticsContentType } from '@repo/database';
+import { logger } from '@repo/logging';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far an event's client timestamp may be from when it arrived (MAX_CLOCK_DRIFT_MS in @repo/widget-api)
+const MAX_EVENT_DELAY_MS = DAY_MS;
+
+/**
+ * Per-question / bubble / prompt correctness
+ */
+export interface ContentItemAnalytics {
+  itemId: string;
+  label: string;
+  answers: number;
+  correct: number;
+  correctRate: number | null; // 0-100, null when unanswered
+  optionCounts: Record<string, number>; // Keyed by the selected option as sent by the widget
+}
+
+/**
+ * Consumption summary for one VideoOutput / QuizOutput / InteractivePodcastOutput
+ */
+export interface ContentAnalytics {
+  contentType: AnalyticsContentType;
+  contentId: string;
+  title: string;
+  views: number;
+  completions: number;
+  completionRate: number | null; // 0-100
+  averageWatchPercent: number | null; // 0-100, null for quizzes
+  items: ContentItemAnalytics[];
+}
+
+export interface OrganizationAnalytics {
+  from: Date;
+  to: Date;
+  totals: {
+    views: number;
+    completions: number;
+    completionRate: number | null;
+    averageWatchPercent: number | null;
+  };
+  content: ContentAnalytics[];
+}
+
+/**
+ * UTC midnight of the given date
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Share of `whole` as 0-100 - capped, since a session can complete on a later day than its view
+ */
+function percentage(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((Math.min(part, whole) / whole) * 1000) / 10 : null;
+}
+
+/**
+ * Content Analytics Service
+ *
+ * Responsibilities:
+ * - Roll up raw widget events into daily per-content and per-question stats (run nightly by the worker)
+ * - Summarize the rollups for the organization analytics page
+ */
+export class ContentAnalyticsService {
+  /**
+   * Roll up all widget events of one UTC day
+   * Idempotent - the day's existing rollup rows are replaced.
+   */
+  async rollupDay(day: Date): Promise<{ contentRows: number; itemRows: number }> {
+    const date = startOfUtcDay(day);
+    // Before reading - events stored while the rollup runs count as arriving after it
+    const rolledUpAt = new Date();
+    const where = { occurredAt: { gte: date, lt: new Date(date.getTime() + DAY_MS) } };
+
+    const [viewSessions, completedSessions, watchedSessions, answerGroups] = await Promise.all([
+      prisma.widgetEvent.groupBy({
+        by: ['organizationId', 'contentType', 'contentId', 'sessionId'],
+        where: { ...where, eventType: 'VIEW' },
+      }),
+      prisma.widgetEvent.groupBy({
+        by: ['organizationId', 'contentType', 'contentId', 'sessionId'],
+        where: { ...where, eventType: 'COMPLETE' },
+      }),
+      prisma.widgetEvent.groupBy({
+        by: ['organizationId', 'contentId', 'sessionId'],
+        where: { ...where, eventType: { in: ['PROGRESS', 'COMPLETE'] } },
+        _max: { watchPercent: true },
+      }),
+      prisma.widgetEvent.groupBy({
+        by: ['organizationId', 'contentType', 'contentId', 'itemId', 'selectedOption', 'isCorrect'],
+        where: { ...where, eventType: 'ANSWER', itemId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    // Rows are keyed by organization too, so events can never be counted for another tenant's content
+    const contentKey = (event: { organizationId: string; contentId: string }) => `${event.organizationId}:${event.contentId}`;
+
+    // Furthest watch % per session
+    const sessionWatchPercent = new Map<string, number>();
+    watchedSessions.forEach((session) => {
+      sessionWatchPercent.set(`${contentKey(session)}:${session.sessionId}`, session._max.watchPercent ?? 0);
+    });
+
+    const contentRows = new Map<string, Prisma.ContentAnalyticsDailyCreateManyInput>();
+    const getContentRow = (event: { organizationId: string; contentType: AnalyticsContentType; contentId: string }) => {
+      let row = contentRows.get(contentKey(event));
+      if (!row) {
+        row = {
+          organizationId: event.organizationId,
+          contentType: event.contentType,
+          contentId: event.contentId,
+          date,
+          views: 0,
+          completions: 0,
+          watchPercentSum: 0,
+        };
+        contentRows.set(contentKey(event), row);
+      }
+      return row;
+    };
+
+    viewSessions.forEach((session) => {
+      const row = getContentRow(session);
+      row.views = (row.views ?? 0) + 1;
+      row.watchPercentSum =
+        (row.watchPercentSum ?? 0) + (sessionWatchPercent.get(`${contentKey(session)}:${session.sessionId}`) ?? 0);
+    });
+
+    completedSessions.forEach((session) => {
+      const row = getContentRow(session);
+      row.completions = (row.completions ?? 0) + 1;
+    });
+
+    const itemRows = new Map<string, Prisma.ContentItemAnalyticsDailyCreateManyInput & { optionCounts: Record<string, number> }>();
+    answerGroups.forEach((group) => {
+      const key = `${contentKey(group)}:${group.itemId}`;
+      let row = itemRows.get(key);
+      if (!row) {
+        row = {
+          organizationId: group.organizationId,
+          contentType: group.contentType,
+          contentId: group.contentId,
+          itemId: group.itemId!,
+          date,
+          answers: 0,
+          correct: 0,
+          optionCounts: {},
+        };
+        itemRows.set(key, row);
+      }
+
+      const count = group._count._all;
+      row.answers = (row.answers ?? 0) + count;
+      if (group.isCorrect) {
+        row.correct = (row.correct ?? 0) + count;
+      }
+      if (group.selectedOption !== null) {
+        row.optionCounts[group.selectedOption] = (row.optionCounts[group.selectedOption] ?? 0) + count;
+      }
+    });
+
+    await prisma.$transaction([
+      prisma.contentAnalyticsDaily.deleteMany({ where: { date } }),
+      prisma.contentItemAnalyticsDaily.deleteMany({ where: { date } }),
+      prisma.contentAnalyticsDaily.createMany({ data: Array.from(contentRows.values()) }),
+      prisma.contentItemAnalyticsDaily.createMany({ data: Array.from(itemRows.values()) }),
+      prisma.analyticsRollupDay.upsert({
+        where: { date },
+        create: { date, rolledUpAt },
+        update: { rolledUpAt },
+      }),
+    ]);
+
+    logger.info('Widget analytics rolled up', {
+      date: date.toISOString().slice(0, 10),
+      contentRows: contentRows.size,
+      itemRows: itemRows.size,
+    });
+
+    return { contentRows: contentRows.size, itemRows: itemRows.size };
+  }
+
+  /**
+   * Roll up every finished UTC day since the last rolled-up one - called nightly by the worker
+   * Catches up days a missed run skipped; starts from the first event when nothing was rolled up yet.
+   * Days already rolled up are rolled up again when events that arrived since the last run can
+   * belong to them - an event's timestamp is at most MAX_EVENT_DELAY_MS before it arrived.
+   */
+  async rollupPendingDays(): Promise<number> {
+    const yesterday = startOfUtcDay(new Date(Date.now() - DAY_MS));
+
+    const [lastRollup, lastRun] = await Promise.all([
+      prisma.analyticsRollupDay.findFirst({ orderBy: { date: 'desc' } }),
+      prisma.analyticsRollupDay.findFirst({ orderBy: { rolledUpAt: 'desc' } }),
+    ]);
+    let day: Date;
+    if (lastRollup && lastRun) {
+      const nextDay = new Date(lastRollup.date.getTime() + DAY_MS);
+      const firstLateDay = startOfUtcDay(new Date(lastRun.rolledUpAt.getTime() - MAX_EVENT_DELAY_MS));
+      day = firstLateDay < nextDay ? firstLateDay : nextDay;
+    } else {
+      const firstEvent = await prisma.widgetEvent.findFirst({
+        orderBy: { occurredAt: 'asc' },
+        select: { occurredAt: true },
+      });
+      if (!firstEvent) return 0;
+      day = startOfUtcDay(firstEvent.occurredAt);
+    }
+
+    let daysRolledUp = 0;
+    for (; day.getTime() <= yesterday.getTime(); day = new Date(day.getTime() + DAY_MS)) {
+      await this.rollupDay(day);
+      daysRolledUp++;
+    }
+    return daysRolledUp;
+  }
+
+  /**
+   * Get consumption analytics for an organization over the last `days` rolled-up days
+   * Today is not included - rollups run nightly.
+   */
+  async getOrganizationAnalytics(organizationId: string, days: number): Promise<OrganizationAnalytics> {
+    const to = startOfUtcDay(new Date());
+    const from = new Date(to.getTime() - days * DAY_MS);
+    const where = { organizationId, date: { gte: from, lt: to } };
+
+    const [contentTotals, itemRows] = await Promise.all([
+      prisma.contentAnalyticsDaily.groupBy({
+        by: ['contentType', 'contentId'],
+        where,
+        _sum: { views: true, completions: true, watchPercentSum: true },
+      }),
+      prisma.contentItemAnalyticsDaily.findMany({
+        where,
+        select: { contentId: true, itemId: true, answers: true, correct: true, optionCounts: true },
+      }),
+    ]);
+
+    const idsOfType = (type: AnalyticsContentType) =>
+      contentTotals.filter((row) => row.contentType === type).map((row) => row.contentId);
+    const orgScope = { submission: { article: { organizationId } } };
+
+    const [videos, quizzes, interactivePodcasts] = await Promise.all([
+      prisma.videoOutput.findMany({
+        where: { id: { in: idsOfType('VIDEO') }, ...orgScope },
+        select: {
+          id: true,
+          title: true,
+          submission: { select: { article: { select: { title: true } } } },
+          bubbles: { select: { id: true, question: true }, orderBy: { appearsAt: 'asc' } },
+        },
+      }),
+      prisma.quizOutput.findMany({
+        where: { id: { in: idsOfType('QUIZ') }, ...orgScope },
+        select: {
+          id: true,
+          submission: { select: { article: { select: { title: true } } } },
+          questions: { select: { id: true, prompt: true }, orderBy: { order: 'asc' } },
+        },
+      }),
+      prisma.interactivePodcastOutput.findMany({
+        where: { id: { in: idsOfType('INTERACTIVE_PODCAST') }, ...orgScope },
+        select: {
+          id: true,
+          title: true,
+          segments: true,
+          submission: { select: { article: { select: { title: true } } } },
+        },
+      }),
+    ]);
+
+    // Title and ordered question labels per content ID (only content still in this org)
+    const contentDetails = new Map<string, { title: string; items: { id: string; label: string }[] }>();
+
+    videos.forEach((video) => {
+      contentDetails.set(video.id, {
+        title: video.title || video.submission.article.title,
+        items: video.bubbles.map((bubble) => ({ id: bubble.id, label: bubble.question })),
+      });
+    });
+
+    quizzes.forEach((quiz) => {
+      contentDetails.set(quiz.id, {
+        title: `${quiz.submission.article.title} (Quiz)`,
+        items: quiz.questions.map((question) => ({ id: question.id, label: question.prompt })),
+      });
+    });
+
+    interactivePodcasts.forEach((podcast) => {
+      const segments = Array.isArray(podcast.segments) ? (podcast.segments as any[]) : [];
+      contentDetails.set(podcast.id, {
+        title: podcast.title || podcast.submission.article.title,
+        items: segments
+          .filter((segment) => segment?.interactive)
+          .map((segment) => ({ id: String(segment.id), label: segment.interactive.question })),
+      });
+    });
+
+    // Merge daily item rows
+    const itemTotals = new Map<string, { answers: number; correct: number; optionCounts: Record<string, number> }>();
+    itemRows.forEach((row) => {
+      const key = `${row.contentId}:${row.itemId}`;
+      const total = itemTotals.get(key) ?? { answers: 0, correct: 0, optionCounts: {} };
+      total.answers += row.answers;
+      total.correct += row.correct;
+      Object.entries((row.optionCounts as Record<string, number> | null) ?? {}).forEach(([option, count]) => {
+        total.optionCounts[option] = (total.optionCounts[option] ?? 0) + count;
+      });
+      itemTotals.set(key, total);
+    });
+
+    let totalViews = 0;
+    let totalCompletions = 0;
+    let totalWatchPercent = 0;
+    let totalWatchedViews = 0;
+
+    const content: ContentAnalytics[] = [];
+
+    contentTotals.forEach((row) => {
+      const details = contentDetails.get(row.contentId);
+      if (!details) {
+        return; // Deleted or moved content
+      }
+
+      const views = row._sum.views ?? 0;
+      const completions = row._sum.completions ?? 0;
+      const isQuiz = row.contentType === 'QUIZ';
+
+      totalViews += views;
+      totalCompletions += completions;
+      if (!isQuiz) {
+        totalWatchPercent += row._sum.watchPercentSum ?? 0;
+        totalWatchedViews += views;
+      }
+
+      content.push({
+        contentType: row.contentType,
+        contentId: row.contentId,
+        title: details.title,
+        views,
+        completions,
+        completionRate: percentage(completions, views),
+        averageWatchPercent: isQuiz || views === 0 ? null : Math.round(((row._sum.watchPercentSum ?? 0) / views) * 10) / 10,
+        items: details.items.map((item) => {
+          const totals = itemTotals.get(`${row.contentId}:${item.id}`) ?? { answers: 0, correct: 0, optionCounts: {} };
+          return {
+            itemId: item.id,
+            label: item.label,
+            answers: totals.answers,
+            correct: totals.correct,
+            correctRate: percentage(totals.correct, totals.answers),
+            optionCounts: totals.optionCounts,
+          };
+        }),
+      });
+    });
+
+    content.sort((a, b) => b.views - a.views);
+
+    return {
+      from,
+      to,
+      totals: {
+        views: totalViews,
+        completions: totalCompletions,
+        completionRate: percentage(totalCompletions, totalViews),
+        averageWatchPercent: totalWatchedViews > 0 ? Math.round((totalWatchPercent / totalWatchedViews) * 10) / 10 : null,
+      },
+      content,
+    };
+  }
+}
+
+export const contentAnalyticsService = new ContentAnalyticsService();
@@ -0,0 +1,267 @@
+import { prisma } from '../../config/database';
+import type { AnalyticsContentType } from '@repo/database';
+
+// Difficulty (percent correct) outside this range gets flagged
+const TOO_EASY_ABOVE = 90;
+const TOO_HARD_BELOW = 30;
+
+// Don't flag items until enough learners have answered them
+const MIN_ANSWERS_FOR_FLAGS = 10;
+
+// Upper / lower group size for the discrimination index (classic 27% rule)
+const DISCRIMINATION_GROUP_FRACTION = 0.27;
+const MIN_RESPONDENTS_FOR_DISCRIMINATION = 10;
+
+// Free-text answers (fill-blank) - only show the most common ones
+const MAX_FREE_TEXT_OPTIONS = 5;
+
+export type ItemAnalysisFlag = 'TOO_EASY' | 'TOO_HARD' | 'UNUSED_DISTRACTOR';
+
+export interface OptionPickStats {
+  key: string; // Selected option as sent by the widget (option index, 'true'/'false' or typed text)
+  label: string;
+  picks: number;
+  pickRate: number | null; // 0-100
+  isCorrect: boolean;
+}
+
+export interface ItemAnalysis {
+  itemId: string;
+  label: string;
+  answers: number;
+  difficulty: number | null; // Percent correct, 0-100
+  discrimination: number | null; // Upper-lower index, -1 to 1
+  options: OptionPickStats[];
+  flags: ItemAnalysisFlag[];
+}
+
+export interface QuizItemAnalysis {
+  questions: ItemAnalysis[];
+  videos: Array<{
+    videoOutputId: string;
+    title: string | null;
+    bubbles: ItemAnalysis[];
+  }>;
+}
+
+interface ItemDefinition {
+  id: string;
+  label: string;
+  // Fixed answer choices - null for free-text items
+  options: Array<{ key: string; label: string; isCorrect: boolean }> | null;
+}
+
+function percentage(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : null;
+}
+
+/**
+ * Answer choices of an indexed options array (quiz MCQ and video bubbles)
+ */
+function indexedOptions(options: unknown, correctAnswer: unknown): ItemDefinition['options'] {
+  if (!Array.isArray(options)) {
+    return null;
+  }
+
+  return options.map((option, index) => ({
+    key: String(index),
+    label: typeof option === 'string' ? option : String(option?.text ?? option),
+    isCorrect: correctAnswer === index,
+  }));
+}
+
+/**
+ * Item Analysis Service
+ *
+ * Responsibilities:
+ * - Compute difficulty, discrimination and option pick distribution for quiz questions and video bubbles
+ * - Flag items that are too easy, too hard or have a distractor nobody picks
+ *
+ * Works on raw widget ANSWER events - the discrimination index needs per-attempt scores,
+ * which the daily rollups don't keep. Each widget session counts as one attempt and only
+ * its first answer to an item is used.
+ */
+export class ItemAnalysisService {
+  /**
+   * Item analysis for a quiz and the video bubbles of the same submission
+   */
+  async getQuizItemAnalysis(organizationId: string, submissionId: string, quizId: string): Promise<QuizItemAnalysis> {
+    const [quiz, videos] = await Promise.all([
+      prisma.quizOutput.findFirst({
+        where: { id: quizId, submissionId },
+        select: {
+          id: true,
+          questions: { orderBy: { order: 'asc' } },
+        },
+      }),
+      prisma.videoOutput.findMany({
+        where: { submissionId },
+        select: {
+          id: true,
+          title: true,
+          bubbles: { orderBy: { appearsAt: 'asc' } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    if (!quiz) {
+      throw new Error('Quiz not found');
+    }
+
+    const questions = await this.analyzeContent(
+      organizationId,
+      'QUIZ',
+      quiz.id,
+      quiz.questions.map((question) => ({
+        id: question.id,
+        label: question.prompt,
+        options:
+          question.type === 'TRUE_FALSE'
+            ? [
+                { key: 'true', label: 'True', isCorrect: question.correctAnswer === true },
+                { key: 'false', label: 'False', isCorrect: question.correctAnswer === false },
+              ]
+            : question.type === 'MULTIPLE_CHOICE'
+              ? indexedOptions(question.options, question.correctAnswer)
+              : null,
+      })),
+    );
+
+    const videoAnalyses = await Promise.all(
+      videos
+        .filter((video) => video.bubbles.length > 0)
+        .map(async (video) => ({
+          videoOutputId: video.id,
+          title: video.title,
+          bubbles: await this.analyzeContent(
+            organizationId,
+            'VIDEO',
+            video.id,
+            video.bubbles.map((bubble) => ({
+              id: bubble.id,
+              label: bubble.question,
+              options: indexedOptions(bubble.options, bubble.correctAnswer),
+            })),
+          ),
+        })),
+    );
+
+    return { questions, videos: videoAnalyses };
+  }
+
+  /**
+   * Analyze all items of one piece of content - only the organization's own widget events count
+   */
+  private async analyzeContent(
+    organizationId: string,
+    contentType: AnalyticsContentType,
+    contentId: string,
+    items: ItemDefinition[],
+  ): Promise<ItemAnalysis[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    const events = await prisma.widgetEvent.findMany({
+      where: {
+        organizationId,
+        contentType,
+        contentId,
+        eventType: 'ANSWER',
+        itemId: { in: items.map((item) => item.id) },
+      },
+      select: { sessionId: true, itemId: true, selectedOption: true, isCorrect: true },
+      orderBy: { occurredAt: 'asc' },
+    });
+
+    // First answer per attempt and item
+    const attempts = new Map<string, Map<string, { selectedOption: string | null; isCorrect: boolean }>>();
+    events.forEach((event) => {
+      const attempt = attempts.get(event.sessionId) ?? new Map();
+      if (!attempt.has(event.itemId!)) {
+        attempt.set(event.itemId!, { selectedOption: event.selectedOption, isCorrect: !!event.isCorrect });
+      }
+      attempts.set(event.sessionId, attempt);
+    });
+
+    // Attempt score - share of answered items that were correct
+    const attemptScores = new Map<string, number>();
+    attempts.forEach((answers, sessionId) => {
+      const correct = Array.from(answers.values()).filter((answer) => answer.isCorrect).length;
+      attemptScores.set(sessionId, correct / answers.size);
+    });
+
+    return items.map((item) => {
+      const responses = Array.from(attempts.entries())
+        .filter(([, answers]) => answers.has(item.id))
+        .map(([sessionId, answers]) => ({ score: attemptScores.get(sessionId)!, ...answers.get(item.id)! }));
+
+      const correct = responses.filter((response) => response.isCorrect).length;
+      const difficulty = percentage(correct, responses.length);
+
+      // Pick counts per selected option
+      const picks = new Map<string, number>();
+      responses.forEach((response) => {
+        if (response.selectedOption === null) return;
+        const key = item.options ? response.selectedOption : response.selectedOption.trim().toLowerCase();
+        picks.set(key, (picks.get(key) ?? 0) + 1);
+      });
+
+      const options: OptionPickStats[] = item.options
+        ? item.options.map((option) => ({
+            ...option,
+            picks: picks.get(option.key) ?? 0,
+            pickRate: percentage(picks.get(option.key) ?? 0, responses.length),
+          }))
+        : Array.from(picks.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_FREE_TEXT_OPTIONS)
+            .map(([key, count]) => ({
+              key,
+              label: key,
+              picks: count,
+              pickRate: percentage(count, responses.length),
+              isCorrect: responses.some((response) => response.isCorrect && response.selectedOption?.trim().toLowerCase() === key),
+            }));
+
+      const flags: ItemAnalysisFlag[] = [];
+      if (responses.length >= MIN_ANSWERS_FOR_FLAGS && difficulty !== null) {
+        if (difficulty > TOO_EASY_ABOVE) flags.push('TOO_EASY');
+        if (difficulty < TOO_HARD_BELOW) flags.push('TOO_HARD');
+        if (item.options?.some((option) => !option.isCorrect && !picks.get(option.key))) {
+          flags.push('UNUSED_DISTRACTOR');
+        }
+      }
+
+      return {
+        itemId: item.id,
+        label: item.label,
+        answers: responses.length,
+        difficulty,
+        discrimination: items.length > 1 ? this.getDiscriminationIndex(responses) : null,
+        options,
+        flags,
+      };
+    });
+  }
+
+  /**
+   * Upper-lower discrimination index: share correct among the top 27% of attempts
+   * minus share correct among the bottom 27%, ranked by attempt score
+   */
+  private getDiscriminationIndex(responses: Array<{ score: number; isCorrect: boolean }>): number | null {
+    if (responses.length < MIN_RESPONDENTS_FOR_DISCRIMINATION) {
+      return null;
+    }
+
+    const ranked = [...responses].sort((a, b) => b.score - a.score);
+    const groupSize = Math.max(1, Math.round(ranked.length * DISCRIMINATION_GROUP_FRACTION));
+    const upperCorrect = ranked.slice(0, groupSize).filter((response) => response.isCorrect).length;
+    const lowerCorrect = ranked.slice(-groupSize).filter((response) => response.isCorrect).length;
+
+    return Math.round(((upperCorrect - lowerCorrect) / groupSize) * 100) / 100;
+  }
+}
+
+export const itemAnalysisService = new ItemAnalysisService();
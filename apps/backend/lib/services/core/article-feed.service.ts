@@ -0,0 +1,269 @@
+import { Prisma, type ArticleFeed } from '@prisma/client';
+import { XMLParser } from 'fast-xml-parser';
+import { documentToText, legacyContentToDocument } from '@repo/article-content';
+import { logger } from '@repo/logging';
+import { prisma } from '../../config/database';
+import { auditService } from './audit.service';
+import { queueService } from './queue.service';
+import { webContentService, WebContentError } from './web-content.service';
+
+export const FEED_CHECK_INTERVAL_MS = 60 * 60 * 1000; // Each active feed is checked hourly
+const MAX_ENTRIES_PER_CHECK = 10;
+const INITIAL_ENTRIES = 3; // Newest entries imported by the first check of a new feed
+const MIN_ENTRY_TEXT_LENGTH = 200;
+
+const FEED_ACCEPT = 'application/rss+xml,application/atom+xml,application/xml;q=0.9,text/xml;q=0.8';
+
+export interface FeedEntry {
+  url: string;
+  title: string;
+  html: string | null; // Full content or summary from the feed, used when the page can't be fetched
+  publishedAt: Date | null;
+}
+
+export interface ParsedFeed {
+  title: string | null;
+  entries: FeedEntry[];
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  isArray: (name) => ['item', 'entry', 'link'].includes(name),
+});
+
+/**
+ * Text of a parsed XML node - plain values, CDATA/text with attributes, or the first of a list
+ */
+function nodeText(value: unknown): string {
+  if (typeof value === 'string' || typeof value === 'number') return String(value).trim();
+  if (Array.isArray(value)) return nodeText(value[0]);
+  if (value && typeof value === 'object' && '#text' in value) return nodeText((value as Record<string, unknown>)['#text']);
+  return '';
+}
+
+function parseDate(value: unknown): Date | null {
+  const date = new Date(nodeText(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Atom entries have several links - the alternate one (or one without rel) is the article
+ */
+function atomLink(links: unknown): string {
+  const list = (Array.isArray(links) ? links : [links]) as Array<Record<string, string> | string | undefined>;
+  const alternate = list.find((link) => typeof link === 'object' && (!link['@_rel'] || link['@_rel'] === 'alternate'));
+  return typeof alternate === 'object' ? alternate['@_href'] ?? '' : nodeText(list[0]);
+}
+
+/**
+ * Article Feed Service - RSS / Atom subscriptions
+ *
+ * Responsibilities:
+ * - Parse RSS 2.0, RSS 1.0 (RDF) and Atom feeds
+ * - Scheduled checks from the worker: each new entry becomes a draft article
+ *   (no submissions - the team picks it up from "Select an existing article")
+ * - De-duplication by normalized source URL, shared with manual URL imports
+ */
+export class ArticleFeedService {
+  /**
+   * Fetch and parse a feed - also used to validate a URL before subscribing
+   */
+  async fetchFeed(url: string): Promise<ParsedFeed> {
+    const page = await webContentService.fetchText(url, FEED_ACCEPT);
+    const feed = this.parseFeed(page.body);
+    if (!feed) {
+      throw new WebContentError('The URL is not an RSS or Atom feed');
+    }
+    return feed;
+  }
+
+  /**
+   * Entries newest first; null when the document isn't a feed
+   */
+  parseFeed(xml: string): ParsedFeed | null {
+    let document: Record<string, any>;
+    try {
+      document = parser.parse(xml);
+    } catch {
+      return null;
+    }
+
+    let title: string;
+    let entries: FeedEntry[];
+
+    if (document.rss?.channel || document['rdf:RDF']) {
+      const channel = document.rss?.channel ?? document['rdf:RDF'];
+      const items: any[] = channel.item ?? document['rdf:RDF']?.item ?? [];
+      title = nodeText(channel.title ?? channel.channel?.title);
+      entries = items.map((item) => ({
+        url: nodeText(item.link) || (item.guid?.['@_isPermaLink'] !== 'false' ? nodeText(item.guid) : ''),
+        title: nodeText(item.title),
+        html: nodeText(item['content:encoded']) || nodeText(item.description) || null,
+        publishedAt: parseDate(item.pubDate ?? item['dc:date']),
+      }));
+    } else if (document.feed) {
+      const items: any[] = document.feed.entry ?? [];
+      title = nodeText(document.feed.title);
+      entries = items.map((entry) => ({
+        url: atomLink(entry.link),
+        title: nodeText(entry.title),
+        html: nodeText(entry.content) || nodeText(entry.summary) || null,
+        publishedAt: parseDate(entry.published ?? entry.updated),
+      }));
+    } else {
+      return null;
+    }
+
+    const valid = entries.filter((entry) => /^https?:\/\//i.test(entry.url));
+    valid.sort((a, b) => (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0));
+
+    return { title: title || null, entries: valid };
+  }
+
+  /**
+   * Check every active feed that hasn't been checked within the interval (called by the worker)
+   */
+  async checkDueFeeds(): Promise<void> {
+    const dueBefore = new Date(Date.now() - FEED_CHECK_INTERVAL_MS);
+    const feeds = await prisma.articleFeed.findMany({
+      where: {
+        isActive: true,
+        OR: [{ lastCheckedAt: null }, { lastCheckedAt: { lt: dueBefore } }],
+      },
+      select: { id: true },
+      orderBy: { lastCheckedAt: { sort: 'asc', nulls: 'first' } },
+    });
+
+    for (const feed of feeds) {
+      await this.checkFeed(feed.id);
+    }
+  }
+
+  /**
+   * Import new entries of one feed. Failures are stored on the feed, never thrown.
+   * Returns the number of articles created.
+   */
+  async checkFeed(feedId: string): Promise<number> {
+    const feed = await prisma.articleFeed.findUnique({ where: { id: feedId } });
+    if (!feed) return 0;
+
+    const isFirstCheck = !feed.lastCheckedAt;
+
+    // Claim the check up front so an overlapping scheduled run skips this feed
+    await prisma.articleFeed.update({ where: { id: feed.id }, data: { lastCheckedAt: new Date() } });
+
+    let parsed: ParsedFeed;
+    try {
+      parsed = await this.fetchFeed(feed.url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Article feed check failed', { feedId: feed.id, url: feed.url, error: message });
+      await prisma.articleFeed.update({ where: { id: feed.id }, data: { lastError: message } });
+      return 0;
+    }
+
+    // Later checks only pick up entries published after the subscription was created
+    const entries = parsed.entries
+      .filter((entry) => isFirstCheck || !entry.publishedAt || entry.publishedAt >= feed.createdAt)
+      .slice(0, isFirstCheck ? INITIAL_ENTRIES : MAX_ENTRIES_PER_CHECK);
+
+    let imported = 0;
+    for (const entry of entries) {
+      if (await this.importEntry(feed, entry)) {
+        imported++;
+      }
+    }
+
+    await prisma.articleFeed.update({
+      where: { id: feed.id },
+      data: {
+        lastError: null,
+        // Replace the placeholder title set when the feed was added
+        ...(parsed.title && feed.title === feed.url ? { title: parsed.title } : {}),
+      },
+    });
+
+    logger.info('Article feed checked', { feedId: feed.id, entries: entries.length, imported });
+    return imported;
+  }
+
+  /**
+   * Create a draft article for an entry unless its page was already imported
+   */
+  private async importEntry(feed: ArticleFeed, entry: FeedEntry): Promise<boolean> {
+    const sourceUrl = webContentService.normalizeUrl(entry.url);
+
+    const existing = await prisma.article.findUnique({
+      where: { organizationId_sourceUrl: { organizationId: feed.organizationId, sourceUrl } },
+      select: { id: true },
+    });
+    if (existing) return false;
+
+    let extracted: { title: string; content: string };
+    try {
+      extracted = await webContentService.extractArticle(entry.url);
+    } catch (error) {
+      // Paywalled or script-rendered pages - fall back to the content carried by the feed
+      const feedText = entry.html ? documentToText(legacyContentToDocument(entry.html)) : '';
+      if (feedText.length < MIN_ENTRY_TEXT_LENGTH) {
+        logger.warn('Skipping feed entry without readable content', {
+          feedId: feed.id,
+          url: entry.url,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return false;
+      }
+      extracted = { title: entry.title, content: feedText };
+    }
+
+    let article;
+    try {
+      article = await prisma.article.create({
+        data: {
+          title: extracted.title || entry.title || sourceUrl,
+          content: extracted.content,
+          category: feed.category,
+          sourceUrl,
+          feedId: feed.id,
+          profileId: feed.createdById,
+          organizationId: feed.organizationId,
+        },
+      });
+    } catch (error) {
+      // Imported by a manual URL import meanwhile
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+
+    await auditService.record(
+      { organizationId: feed.organizationId, actorId: null },
+      {
+        action: 'article.create',
+        targetType: 'article',
+        targetId: article.id,
+        metadata: { title: article.title, sourceUrl, feedId: feed.id },
+      },
+    );
+
+    try {
+      await queueService.addArticleThumbnailGenerationJob({
+        articleId: article.id,
+        title: article.title,
+        organizationId: feed.organizationId,
+      });
+    } catch (error) {
+      // Not critical - the thumbnail can be regenerated from the article page
+      logger.warn('Failed to enqueue thumbnail for imported article', {
+        articleId: article.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return true;
+  }
+}
+
+export const articleFeedService = new ArticleFeedService();
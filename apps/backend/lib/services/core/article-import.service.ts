@@ -0,0 +1,291 @@
+import os from 'os';
+import path from 'path';
+import { writeFile, unlink } from 'fs/promises';
+import { Prisma, type ArticleImportItem, type ArticleImportBatch } from '@prisma/client';
+import { logger } from '@repo/logging';
+import { prisma } from '../../config/database';
+import { submissionService } from '../submission.service';
+import { auditService } from './audit.service';
+import { fileExtractionService } from './file-extraction.service';
+import { queueService } from './queue.service';
+import { storageService } from './storage.service';
+import { webContentService } from './web-content.service';
+
+type ImportItemWithBatch = ArticleImportItem & { batch: ArticleImportBatch };
+
+/**
+ * Article Import Service - Worker side of bulk article uploads
+ *
+ * Responsibilities:
+ * - Extract each uploaded file / manifest URL into an article (one job per item)
+ * - Create the item's submissions with the batch settings
+ * - Retry failed items, and outputs that failed before their script was ready
+ */
+export class ArticleImportService {
+  /**
+   * Extract an item and submit its article. Errors end up on the item, never thrown.
+   */
+  async processItem(itemId: string): Promise<void> {
+    // Claim it - a duplicate job for the same item sees count 0
+    const claimed = await prisma.articleImportItem.updateMany({
+      where: { id: itemId, status: { in: ['PENDING', 'FAILED'] } },
+      data: { status: 'EXTRACTING', error: null, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) return;
+
+    const item = await prisma.articleImportItem.findUniqueOrThrow({
+      where: { id: itemId },
+      include: { batch: true },
+    });
+
+    try {
+      const articleId = item.articleId ?? (await this.createArticle(item));
+      await this.createMissingSubmissions(item, articleId);
+
+      await prisma.articleImportItem.update({
+        where: { id: item.id },
+        data: { status: 'SUBMITTED', articleId },
+      });
+
+      logger.info('Article import item submitted', { itemId: item.id, batchId: item.batchId, articleId });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Article import item failed', { itemId: item.id, batchId: item.batchId, error: message });
+
+      await prisma.articleImportItem.update({
+        where: { id: item.id },
+        data: { status: 'FAILED', error: message },
+      });
+    }
+  }
+
+  /**
+   * Re-queue failed items and restart outputs of submitted items that failed before their script was ready.
+   * Outputs that failed during media generation keep their reviewed script and are retried from the submission page.
+   */
+  async retryItems(batchId: string, itemIds?: string[]): Promise<{ items: number; outputs: number }> {
+    const items = await prisma.articleImportItem.findMany({
+      where: {
+        batchId,
+        status: { in: ['FAILED', 'SUBMITTED'] },
+        ...(itemIds && { id: { in: itemIds } }),
+      },
+      include: { batch: true },
+      orderBy: { position: 'asc' },
+    });
+
+    let retriedItems = 0;
+    let retriedOutputs = 0;
+
+    for (const item of items) {
+      if (item.status === 'FAILED') {
+        await prisma.articleImportItem.update({
+          where: { id: item.id },
+          data: { status: 'PENDING', error: null },
+        });
+        await queueService.addArticleImportItemJob({ itemId: item.id });
+        retriedItems++;
+      } else if (item.articleId) {
+        retriedOutputs += await this.retryFailedOutputs(item.articleId, item.batch.organizationId);
+      }
+    }
+
+    return { items: retriedItems, outputs: retriedOutputs };
+  }
+
+  private async createArticle(item: ImportItemWithBatch): Promise<string> {
+    const { batch } = item;
+    let sourceUrl: string | undefined;
+    let extracted: { title: string; content: string };
+
+    if (item.sourceUrl) {
+      sourceUrl = webContentService.normalizeUrl(item.sourceUrl);
+
+      const existing = await prisma.article.findUnique({
+        where: { organizationId_sourceUrl: { organizationId: batch.organizationId, sourceUrl } },
+        select: { title: true },
+      });
+      if (existing) {
+        throw new Error(`This page was already imported as "${existing.title}"`);
+      }
+
+      extracted = await webContentService.extractArticle(item.sourceUrl);
+    } else if (item.fileKey) {
+      extracted = await this.extractFile(item.fileKey, item.fileName);
+    } else {
+      throw new Error('Nothing to import');
+    }
+
+    let article;
+    try {
+      article = await prisma.article.create({
+        data: {
+          title: item.title || extracted.title || path.parse(item.fileName).name,
+          content: extracted.content,
+          category: item.category ?? batch.category,
+          sourceUrl,
+          profileId: batch.createdById,
+          organizationId: batch.organizationId,
+        },
+      });
+    } catch (error) {
+      // Another row of this or another batch imported the same page meanwhile
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('This page was already imported');
+      }
+      throw error;
+    }
+
+    await auditService.record(
+      { organizationId: batch.organizationId, actorId: batch.createdById },
+      {
+        action: 'article.create',
+        targetType: 'article',
+        targetId: article.id,
+        metadata: { title: article.title, fileName: item.fileName, importBatchId: batch.id },
+      },
+    );
+
+    try {
+      await queueService.addArticleThumbnailGenerationJob({
+        articleId: article.id,
+        title: article.title,
+        organizationId: batch.organizationId,
+      });
+    } catch (error) {
+      // Not critical - the thumbnail can be regenerated from the article page
+      logger.warn('Failed to enqueue thumbnail for imported article', {
+        articleId: article.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    // Saved before submitting so a retry doesn't extract the file again
+    await prisma.articleImportItem.update({
+      where: { id: item.id },
+      data: { articleId: article.id },
+    });
+
+    return article.id;
+  }
+
+  /**
+   * Download the uploaded file next to its original name (the extension picks the extractor)
+   */
+  private async extractFile(fileKey: string, fileName: string): Promise<{ title: string; content: string }> {
+    const response = await fetch(await storageService.getSignedUrl(fileKey));
+    if (!response.ok) {
+      throw new Error(`Could not download the uploaded file (${response.status})`);
+    }
+
+    const filePath = path.join(os.tmpdir(), `${Date.now()}-${Math.round(Math.random() * 1e9)}-${path.basename(fileName)}`);
+    await writeFile(filePath, Buffer.from(await response.arrayBuffer()));
+
+    try {
+      return await fileExtractionService.extractText(filePath, response.headers.get('content-type') ?? '');
+    } finally {
+      await unlink(filePath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Submit the languages that don't have a submission yet - the rest were created by an earlier attempt
+   */
+  private async createMissingSubmissions(item: ImportItemWithBatch, articleId: string) {
+    const { batch } = item;
+    const existing = await prisma.submission.findMany({
+      where: { articleId },
+      select: { language: true },
+    });
+    const languages = batch.languages.filter(
+      (language) => !existing.some((submission) => submission.language === language),
+    );
+    if (languages.length === 0) return;
+
+    const submissions = await submissionService.createSubmission({
+      articleId,
+      organizationId: batch.organizationId,
+      languages,
+      generateAudio: batch.generateAudio,
+      generatePodcast: batch.generatePodcast,
+      generateVideo: batch.generateVideo,
+      generateQuiz: batch.generateQuiz,
+      generateInteractivePodcast: batch.generateInteractivePodcast,
+    });
+
+    for (const submission of submissions) {
+      await auditService.record(
+        { organizationId: batch.organizationId, actorId: batch.createdById },
+        {
+          action: 'submission.create',
+          targetType: 'submission',
+          targetId: submission.id,
+          metadata: { articleId, language: submission.language, importBatchId: batch.id },
+        },
+      );
+    }
+  }
+
+  /**
+   * Restart the first step of every failed output that never produced a script
+   */
+  private async retryFailedOutputs(articleId: string, organizationId: string): Promise<number> {
+    const failed = { status: 'FAILED' as const };
+    const submissions = await prisma.submission.findMany({
+      where: { articleId },
+      select: {
+        id: true,
+        language: true,
+        audioOutputs: { where: failed, select: { id: true } },
+        quizOutputs: { where: failed, select: { id: true } },
+        podcastOutputs: { where: { ...failed, transcript: null }, select: { id: true } },
+        videoOutputs: { where: { ...failed, script: null }, select: { id: true } },
+        interactivePodcastOutputs: { where: { ...failed, segments: { equals: Prisma.DbNull } }, select: { id: true } },
+      },
+    });
+
+    const retry = { status: 'PENDING' as const, error: null };
+    let retried = 0;
+
+    for (const submission of submissions) {
+      const job = { articleId, submissionId: submission.id, language: submission.language, organizationId };
+
+      for (const output of submission.audioOutputs) {
+        await prisma.audioOutput.update({ where: { id: output.id }, data: retry });
+        await queueService.addAudioGenerationJob({ ...job, outputId: output.id });
+      }
+      for (const output of submission.quizOutputs) {
+        await prisma.quizOutput.update({ where: { id: output.id }, data: retry });
+        await queueService.addQuizGenerationJob({ ...job, outputId: output.id });
+      }
+      for (const output of submission.podcastOutputs) {
+        await prisma.podcastOutput.update({ where: { id: output.id }, data: retry });
+        await queueService.addPodcastTranscriptGenerationJob({ ...job, outputId: output.id });
+      }
+      for (const output of submission.videoOutputs) {
+        await prisma.videoOutput.update({ where: { id: output.id }, data: retry });
+        await queueService.addVideoScriptGenerationJob({ ...job, outputId: output.id });
+      }
+      for (const output of submission.interactivePodcastOutputs) {
+        await prisma.interactivePodcastOutput.update({ where: { id: output.id }, data: retry });
+        await queueService.addInteractivePodcastScriptGenerationJob({ ...job, outputId: output.id });
+      }
+
+      const count =
+        submission.audioOutputs.length +
+        submission.quizOutputs.length +
+        submission.podcastOutputs.length +
+        submission.videoOutputs.length +
+        submission.interactivePodcastOutputs.length;
+
+      if (count > 0) {
+        await prisma.submission.update({ where: { id: submission.id }, data: { status: 'PROCESSING' } });
+        retried += count;
+      }
+    }
+
+    return retried;
+  }
+}
+
+export const articleImportService = new ArticleImportService();
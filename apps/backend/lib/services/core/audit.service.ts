@@ -0,0 +1,196 @@
+import { prisma } from '../../config/database';
+import type { Prisma } from '@prisma/client';
+
+export const AUDIT_TARGET_TYPES = [
+  'organization',
+  'member',
+  'role',
+  'invite',
+  'join-request',
+  'widget-key',
+  'widget-learner-secret',
+  'article',
+  'article-feed',
+  'article-import',
+  'pipeline',
+  'submission',
+  'audio',
+  'podcast',
+  'video',
+  'quiz',
+  'interactive-podcast',
+  'standalone-video',
+  'tag',
+  'character',
+  'background-music',
+  'bumper',
+  'caption-style',
+  'glossary-term',
+  'pronunciation-entry',
+] as const;
+
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+/**
+ * Who performed an action - built once per request and passed to controllers
+ */
+export interface AuditContext {
+  organizationId: string;
+  actorId: string | null;
+  actorEmail?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AuditEventInput {
+  action: string; // "<targetType>.<verb>"
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}
+
+export interface AuditEventFilters {
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  action?: string; // Substring match, e.g. "delete"
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Audit context for a route handler
+ */
+export function getAuditContext(
+  request: Request,
+  organizationId: string,
+  user: { id: string; email?: string | null } | null,
+): AuditContext {
+  return {
+    organizationId,
+    actorId: user?.id ?? null,
+    actorEmail: user?.email ?? null,
+    ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip'),
+    userAgent: request.headers.get('user-agent'),
+  };
+}
+
+/**
+ * Filters from the audit log query string (invalid dates are ignored)
+ */
+export function getAuditFilters(searchParams: URLSearchParams): AuditEventFilters {
+  const date = (key: string) => {
+    const value = searchParams.get(key);
+    const parsed = value ? new Date(value) : null;
+    return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+  };
+
+  return {
+    actorId: searchParams.get('actorId') || undefined,
+    targetType: searchParams.get('targetType') || undefined,
+    targetId: searchParams.get('targetId') || undefined,
+    action: searchParams.get('action') || undefined,
+    from: date('from'),
+    to: date('to'),
+  };
+}
+
+const CSV_COLUMNS = ['createdAt', 'actorEmail', 'action', 'targetType', 'targetId', 'metadata', 'ipAddress', 'userAgent'] as const;
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const raw = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Spreadsheets run cells starting with these as formulas - a leading quote keeps them as text
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Audit Service - Organization audit log
+ *
+ * Responsibilities:
+ * - Record mutating actions with actor, target and request details
+ * - Filtered, paginated listing for the settings page
+ * - CSV export for compliance
+ */
+export class AuditService {
+  /**
+   * Record an action. Failures are logged and never fail the action itself.
+   */
+  async record(context: AuditContext | undefined, event: AuditEventInput): Promise<void> {
+    if (!context) return;
+
+    try {
+      await prisma.auditEvent.create({
+        data: {
+          organizationId: context.organizationId,
+          actorId: context.actorId,
+          actorEmail: context.actorEmail ?? null,
+          action: event.action,
+          targetType: event.targetType,
+          targetId: event.targetId ?? null,
+          metadata: event.metadata,
+          ipAddress: context.ipAddress ?? null,
+          userAgent: context.userAgent ?? null,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to record audit event:', event.action, error);
+    }
+  }
+
+  /**
+   * Audit events of an organization, newest first
+   */
+  async list(organizationId: string, filters: AuditEventFilters, page: number = 1, limit: number = 50) {
+    const where = this.buildWhere(organizationId, filters);
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        include: { actor: { select: { id: true, fullName: true, email: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return {
+      data: events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * All matching events as CSV (capped to keep the response bounded)
+   */
+  async exportCsv(organizationId: string, filters: AuditEventFilters, maxRows: number = 50000): Promise<string> {
+    const events = await prisma.auditEvent.findMany({
+      where: this.buildWhere(organizationId, filters),
+      orderBy: { createdAt: 'desc' },
+      take: maxRows,
+    });
+
+    const rows = events.map((event) => CSV_COLUMNS.map((column) => csvCell(event[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+
+  private buildWhere(organizationId: string, filters: AuditEventFilters): Prisma.AuditEventWhereInput {
+    return {
+      organizationId,
+      ...(filters.actorId ? { actorId: filters.actorId } : {}),
+      ...(filters.targetType ? { targetType: filters.targetType } : {}),
+      ...(filters.targetId ? { targetId: filters.targetId } : {}),
+      ...(filters.action ? { action: { contains: filters.action, mode: 'insensitive' as const } } : {}),
+      ...(filters.from || filters.to ? { createdAt: { gte: filters.from, lte: filters.to } } : {}),
+    };
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { prisma } from '../../config/database';
+import { DEFAULT_SUBMAGIC_THEME_ID } from '../external/submagic.service';
+
+// Validation schemas
+export const CaptionSettingsSchema = z.object({
+  submagicThemeId: z.string().trim().max(100).nullable().optional(), // null = platform default theme
+  submagicDictionary: z
+    .array(z.string().trim().min(1, 'Dictionary words cannot be empty').max(100))
+    .max(200, 'The dictionary is limited to 200 words')
+    .optional(),
+});
+
+export type CaptionSettingsInput = z.infer<typeof CaptionSettingsSchema>;
+
+export interface CaptionSettings {
+  submagicThemeId: string | null;
+  submagicDictionary: string[];
+}
+
+/**
+ * Caption Settings Service - Organization-wide Submagic theme and dictionary
+ *
+ * A caption style's own template wins; the organization theme covers videos without one, and the
+ * dictionary is sent with every video so brand names and jargon are transcribed correctly.
+ */
+class CaptionSettingsService {
+  async getSettings(organizationId: string): Promise<CaptionSettings> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { submagicThemeId: true, submagicDictionary: true },
+    });
+    if (!organization) {
+      throw new Error('Organization not found');
+    }
+    return organization;
+  }
+
+  async updateSettings(organizationId: string, input: CaptionSettingsInput): Promise<CaptionSettings> {
+    return prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        ...(input.submagicThemeId !== undefined && { submagicThemeId: input.submagicThemeId || null }),
+        ...(input.submagicDictionary && { submagicDictionary: this.dedupe(input.submagicDictionary) }),
+      },
+      select: { submagicThemeId: true, submagicDictionary: true },
+    });
+  }
+
+  /**
+   * Theme and dictionary to send to Submagic for one of the organization's videos
+   *
+   * @param captionTemplate - The video's caption style template, when it has one
+   */
+  async getSubmagicOptions(
+    organizationId: string,
+    captionTemplate?: string | null
+  ): Promise<{ userThemeId: string; dictionary: string[] }> {
+    const settings = await this.getSettings(organizationId);
+    return {
+      userThemeId: captionTemplate || settings.submagicThemeId || DEFAULT_SUBMAGIC_THEME_ID,
+      dictionary: settings.submagicDictionary,
+    };
+  }
+
+  /**
+   * Drop repeated words regardless of case, keeping the first spelling
+   */
+  private dedupe(words: string[]): string[] {
+    const seen = new Set<string>();
+    return words.filter((word) => {
+      const key = word.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+}
+
+// Singleton instance
+export const captionSettingsService = new CaptionSettingsService();
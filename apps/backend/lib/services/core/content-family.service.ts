@@ -0,0 +1,286 @@
+import type { Prisma, ReviewStatus, TextDirection } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { languageService } from './language.service';
+import { glossaryService, GlossaryCheckError, type GlossaryIssue } from './glossary.service';
+import { reviewService, REVIEW_TRANSITIONS, type ReviewAction, type ReviewableOutputType } from './review.service';
+import { translationService } from '../media/translation.service';
+
+// Actions a reviewer can apply to every language of a family at once
+export type FamilyReviewAction = Extract<ReviewAction, 'approve' | 'request_changes'>;
+
+export interface FamilyMember {
+  outputId: string;
+  submissionId: string;
+  language: string;
+  languageName: string;
+  direction: TextDirection;
+  title: string | null;
+  status: ReviewStatus;
+  paragraphs: string[];
+  glossaryIssues: GlossaryIssue[];
+  createdAt: Date;
+}
+
+export interface FamilyTransitionResult {
+  outputId: string;
+  language: string;
+  status?: ReviewStatus; // Set when the transition went through
+  skipped?: boolean; // The output's status doesn't allow the action
+  error?: string;
+  glossaryIssues?: GlossaryIssue[]; // Approval blocked until acknowledged
+}
+
+interface FamilyOutput {
+  id: string;
+  submissionId: string;
+  language: string;
+  title: string | null;
+  reviewStatus: ReviewStatus;
+  paragraphs: string[];
+  createdAt: Date;
+}
+
+/**
+ * Split a script into paragraphs on blank lines, falling back to single lines for scripts without any
+ */
+function splitParagraphs(text: string | null): string[] {
+  if (!text?.trim()) return [];
+  const blocks = text.split(/\n\s*\n/);
+  const paragraphs = blocks.length > 1 ? blocks : text.split('\n');
+  return paragraphs.map((paragraph) => paragraph.trim()).filter(Boolean);
+}
+
+/**
+ * One paragraph per transcript segment, prefixed with the speaker when there is one
+ */
+function segmentParagraphs(value: Prisma.JsonValue | string | null): string[] {
+  if (!value) return [];
+  let parsed: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return splitParagraphs(value);
+    }
+  }
+  if (!Array.isArray(parsed)) {
+    return typeof parsed === 'string' ? splitParagraphs(parsed) : [];
+  }
+  return parsed
+    .map((segment) => {
+      if (!segment || typeof segment !== 'object' || !('text' in segment)) return '';
+      const text = String(segment.text).trim();
+      return 'speaker' in segment && segment.speaker ? `${segment.speaker}: ${text}` : text;
+    })
+    .filter(Boolean);
+}
+
+const optionTexts = (options: Prisma.JsonValue | null) =>
+  Array.isArray(options)
+    ? options.map((option) => (option && typeof option === 'object' && 'text' in option ? `- ${option.text}` : '')).filter(Boolean)
+    : [];
+
+/**
+ * Content Family Service - One article's output of a type across all its languages
+ *
+ * Translations are generated as separate submissions of the same article, so a family is the newest
+ * output of the type in each language, with English as the source. Scripts are split into paragraphs
+ * so reviewers can compare languages row by row.
+ *
+ * Standalone video batches (StandaloneVideo.batchId) are not families here: standalone videos have no
+ * review status and start rendering as soon as they are created, so there is nothing to approve or send
+ * back, and their translations are checked in the create wizard before anything is generated.
+ */
+class ContentFamilyService {
+  /**
+   * The English source and the translations of an article's output, paragraph aligned
+   */
+  async getFamily(organizationId: string, articleId: string, outputType: ReviewableOutputType) {
+    const article = await prisma.article.findFirst({
+      where: { id: articleId, organizationId },
+      select: { id: true, title: true },
+    });
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    const members = await this.getMembers(organizationId, articleId, outputType);
+    const source = members.find((member) => member.language === 'ENGLISH') ?? null;
+    const translations = members.filter((member) => member !== source);
+
+    return {
+      article,
+      outputType,
+      source,
+      translations,
+      // Rows in the side-by-side view - translations rarely drift from the source's paragraph count
+      rowCount: Math.max(0, ...members.map((member) => member.paragraphs.length)),
+    };
+  }
+
+  /**
+   * English rendering of a translation's paragraphs
+   */
+  async backTranslate(organizationId: string, articleId: string, outputType: ReviewableOutputType, outputId: string) {
+    const member = (await this.getMembers(organizationId, articleId, outputType)).find((m) => m.outputId === outputId);
+    if (!member) {
+      throw new Error('Output not found');
+    }
+
+    return {
+      outputId,
+      paragraphs: await translationService.backTranslateParagraphs(member.paragraphs, member.language),
+    };
+  }
+
+  /**
+   * Approve or request changes on every language at once (or the given outputs).
+   * Outputs whose status doesn't allow the action are skipped; failures don't stop the rest.
+   */
+  async transitionFamily(
+    organizationId: string,
+    articleId: string,
+    outputType: ReviewableOutputType,
+    action: FamilyReviewAction,
+    actorId: string,
+    options: { note?: string; acknowledgeGlossary?: boolean; outputIds?: string[] } = {},
+  ): Promise<FamilyTransitionResult[]> {
+    const members = (await this.getMembers(organizationId, articleId, outputType)).filter(
+      (member) => !options.outputIds || options.outputIds.includes(member.outputId)
+    );
+
+    const results: FamilyTransitionResult[] = [];
+    for (const member of members) {
+      const result: FamilyTransitionResult = { outputId: member.outputId, language: member.language };
+
+      if (!REVIEW_TRANSITIONS[action].from.includes(member.status)) {
+        results.push({ ...result, skipped: true });
+        continue;
+      }
+
+      try {
+        const { status } = await reviewService.transition(
+          organizationId,
+          outputType,
+          member.outputId,
+          action,
+          actorId,
+          options.note,
+          options.acknowledgeGlossary,
+        );
+        results.push({ ...result, status });
+      } catch (error) {
+        if (error instanceof GlossaryCheckError) {
+          results.push({ ...result, error: error.message, glossaryIssues: error.issues });
+        } else {
+          results.push({ ...result, error: error instanceof Error ? error.message : 'Failed to update review status' });
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Newest output of the type per language, English first, then in registry order
+   */
+  private async getMembers(organizationId: string, articleId: string, outputType: ReviewableOutputType): Promise<FamilyMember[]> {
+    const outputs = await this.loadOutputs(organizationId, articleId, outputType);
+
+    const newestPerLanguage = new Map<string, FamilyOutput>();
+    for (const output of outputs) {
+      if (!newestPerLanguage.has(output.language)) {
+        newestPerLanguage.set(output.language, output);
+      }
+    }
+
+    const languages = await languageService.listLanguages();
+    const order = (code: string) => (code === 'ENGLISH' ? -1 : languages.findIndex((language) => language.code === code));
+    const sorted = [...newestPerLanguage.values()].sort((a, b) => order(a.language) - order(b.language));
+
+    return Promise.all(
+      sorted.map(async (output) => {
+        const language = await languageService.getLanguage(output.language);
+        return {
+          outputId: output.id,
+          submissionId: output.submissionId,
+          language: output.language,
+          languageName: await languageService.getLanguageName(output.language),
+          direction: language?.direction ?? 'LTR',
+          title: output.title,
+          status: output.reviewStatus,
+          paragraphs: output.paragraphs,
+          glossaryIssues: await glossaryService.checkOutput(organizationId, outputType, output.id),
+          createdAt: output.createdAt,
+        };
+      })
+    );
+  }
+
+  /**
+   * All outputs of the type across the article's submissions, newest first, with their script as paragraphs
+   */
+  private async loadOutputs(organizationId: string, articleId: string, outputType: ReviewableOutputType): Promise<FamilyOutput[]> {
+    const where = { submission: { articleId, article: { organizationId } } };
+    const orderBy = { createdAt: 'desc' } as const;
+    const base = { id: true, submissionId: true, reviewStatus: true, createdAt: true, submission: { select: { language: true } } } as const;
+
+    switch (outputType) {
+      case 'audio': {
+        const outputs = await prisma.audioOutput.findMany({ where, orderBy, select: { ...base, speakableScript: true } });
+        return outputs.map(({ submission, speakableScript, ...output }) => ({
+          ...output,
+          language: submission.language,
+          title: null,
+          paragraphs: splitParagraphs(speakableScript),
+        }));
+      }
+      case 'podcast': {
+        const outputs = await prisma.podcastOutput.findMany({ where, orderBy, select: { ...base, title: true, transcript: true } });
+        return outputs.map(({ submission, transcript, ...output }) => ({
+          ...output,
+          language: submission.language,
+          paragraphs: segmentParagraphs(transcript),
+        }));
+      }
+      case 'video': {
+        const outputs = await prisma.videoOutput.findMany({ where, orderBy, select: { ...base, title: true, script: true } });
+        return outputs.map(({ submission, script, ...output }) => ({
+          ...output,
+          language: submission.language,
+          paragraphs: splitParagraphs(script),
+        }));
+      }
+      case 'quiz': {
+        const outputs = await prisma.quizOutput.findMany({
+          where,
+          orderBy,
+          select: {
+            ...base,
+            questions: { select: { prompt: true, stem: true, options: true }, orderBy: { order: 'asc' } },
+          },
+        });
+        // One paragraph per question, so questions line up across languages
+        return outputs.map(({ submission, questions, ...output }) => ({
+          ...output,
+          language: submission.language,
+          title: null,
+          paragraphs: questions.map((question) =>
+            [question.prompt, question.stem, ...optionTexts(question.options)].filter(Boolean).join('\n')
+          ),
+        }));
+      }
+      case 'interactive-podcast': {
+        const outputs = await prisma.interactivePodcastOutput.findMany({ where, orderBy, select: { ...base, title: true, segments: true } });
+        return outputs.map(({ submission, segments, ...output }) => ({
+          ...output,
+          language: submission.language,
+          paragraphs: segmentParagraphs(segments),
+        }));
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const contentFamilyService = new ContentFamilyService();
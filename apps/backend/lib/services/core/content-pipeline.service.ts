@@ -0,0 +1,362 @@
+import { parseExpression } from 'cron-parser';
+import type { ContentPipeline, OutputStatus, PipelineRunStatus, PipelineRunTrigger, ReviewStatus } from '@prisma/client';
+import { logger } from '@repo/logging';
+import { prisma } from '../../config/database';
+import { submissionService } from '../submission.service';
+import { articleFeedService } from './article-feed.service';
+import { queueService } from './queue.service';
+import { reviewService, type ReviewableOutputType } from './review.service';
+
+const MAX_RUNS_PER_PASS = 50;
+
+interface RunOutput {
+  type: ReviewableOutputType;
+  id: string;
+  submissionId: string;
+  status: OutputStatus;
+  reviewStatus: ReviewStatus;
+}
+
+const outputSelect = { id: true, submissionId: true, status: true, reviewStatus: true } as const;
+
+/**
+ * Next time a cron expression fires after `from`, evaluated in the pipeline's timezone
+ */
+export function getNextRunAt(schedule: string, timezone: string, from: Date = new Date()): Date {
+  return parseExpression(schedule, { currentDate: from, tz: timezone }).next().toDate();
+}
+
+/**
+ * Five-field cron expression (minute hour day month weekday) that cron-parser accepts in the given zone
+ */
+export function isValidSchedule(schedule: string, timezone: string): boolean {
+  if (schedule.trim().split(/\s+/).length !== 5) return false;
+  try {
+    getNextRunAt(schedule, timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Content Pipeline Service - Scheduled article → published media automation
+ *
+ * Responsibilities:
+ * - Start runs when a pipeline's cron schedule is due (called by the worker) or on demand
+ * - Create submissions for the draft articles in the pipeline's source
+ * - Advance running runs: generate media from ready scripts with the pipeline's video settings,
+ *   then submit or publish finished outputs according to the approval policy
+ * - Record each run's outcome
+ */
+export class ContentPipelineService {
+  /**
+   * Start every active pipeline whose next run time has passed
+   */
+  async runDuePipelines(): Promise<void> {
+    const now = new Date();
+    const pipelines = await prisma.contentPipeline.findMany({
+      where: { isActive: true, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+    });
+
+    for (const pipeline of pipelines) {
+      // Move nextRunAt forward first - a second worker sees count 0 and leaves the run to us
+      let nextRunAt: Date | null;
+      try {
+        nextRunAt = getNextRunAt(pipeline.schedule, pipeline.timezone, now);
+      } catch {
+        nextRunAt = null; // Unparseable schedule - stop scheduling until it is fixed
+      }
+
+      const claimed = await prisma.contentPipeline.updateMany({
+        where: { id: pipeline.id, nextRunAt: pipeline.nextRunAt },
+        data: { nextRunAt },
+      });
+      if (claimed.count === 0) continue;
+
+      await this.runPipeline(pipeline.id, 'SCHEDULE');
+    }
+  }
+
+  /**
+   * Create submissions for the pipeline's pending draft articles.
+   * Errors end up on the run, never thrown. An article that fails is noted on the run and the
+   * rest carry on - the run stays RUNNING so the submissions it did create are still advanced.
+   */
+  async runPipeline(pipelineId: string, trigger: PipelineRunTrigger, triggeredById?: string) {
+    const pipeline = await prisma.contentPipeline.findUnique({ where: { id: pipelineId } });
+    if (!pipeline) return null;
+
+    const run = await prisma.pipelineRun.create({
+      data: { pipelineId: pipeline.id, trigger, triggeredById },
+    });
+
+    logger.info('Content pipeline run started', { pipelineId: pipeline.id, runId: run.id, trigger });
+
+    try {
+      // Without a source filter every new article in the organization would be submitted.
+      // Validation requires one, but deleting the pipeline's feed clears it
+      if (!pipeline.feedId && !pipeline.category) {
+        throw new Error('The pipeline has no feed or category - choose one to limit which articles it submits');
+      }
+
+      // Pull the latest entries first so a daily run picks up this morning's post
+      if (pipeline.feedId) {
+        await articleFeedService.checkFeed(pipeline.feedId);
+      }
+
+      const articles = await prisma.article.findMany({
+        where: {
+          organizationId: pipeline.organizationId,
+          submissions: { none: {} },
+          // Only articles added since the pipeline was set up - older drafts stay manual
+          createdAt: { gte: pipeline.createdAt },
+          ...(pipeline.feedId && { feedId: pipeline.feedId }),
+          ...(pipeline.category && { category: pipeline.category }),
+        },
+        orderBy: { createdAt: 'asc' },
+        take: pipeline.maxArticlesPerRun,
+        select: { id: true, title: true },
+      });
+
+      if (articles.length === 0) {
+        await this.finishRun(run.id, 'SKIPPED');
+      } else {
+        const failures: string[] = [];
+        for (const article of articles) {
+          try {
+            await submissionService.createSubmission({
+              articleId: article.id,
+              languages: pipeline.languages,
+              generateAudio: pipeline.generateAudio,
+              generatePodcast: pipeline.generatePodcast,
+              generateVideo: pipeline.generateVideo,
+              generateQuiz: pipeline.generateQuiz,
+              generateInteractivePodcast: pipeline.generateInteractivePodcast,
+              pipelineRunId: run.id,
+            });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Content pipeline submission failed', {
+              pipelineId: pipeline.id,
+              runId: run.id,
+              articleId: article.id,
+              error: message,
+            });
+            failures.push(`"${article.title}": ${message}`);
+          }
+        }
+
+        if (failures.length === articles.length) {
+          await this.finishRun(run.id, 'FAILED', failures.join('\n'));
+        } else if (failures.length > 0) {
+          // Kept on the run while it is advanced, which finishes it as PARTIAL
+          await prisma.pipelineRun.update({ where: { id: run.id }, data: { error: failures.join('\n') } });
+        }
+
+        logger.info('Content pipeline submissions created', {
+          pipelineId: pipeline.id,
+          runId: run.id,
+          articles: articles.map((article) => article.title),
+          failed: failures.length,
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Content pipeline run failed', { pipelineId: pipeline.id, runId: run.id, error: message });
+      await this.finishRun(run.id, 'FAILED', message);
+    }
+
+    await prisma.contentPipeline.update({
+      where: { id: pipeline.id },
+      data: { lastRunAt: run.startedAt },
+    });
+
+    return run;
+  }
+
+  /**
+   * Move every running run forward one step (called by the worker)
+   */
+  async advanceRuns(): Promise<void> {
+    const runs = await prisma.pipelineRun.findMany({
+      where: { status: 'RUNNING' },
+      include: { pipeline: true },
+      orderBy: { startedAt: 'asc' },
+      take: MAX_RUNS_PER_PASS,
+    });
+
+    for (const run of runs) {
+      try {
+        await this.advanceRun(run.id, run.pipeline, run.error);
+      } catch (error) {
+        logger.error('Content pipeline run advance failed', {
+          runId: run.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        // Retried on the next pass
+      }
+    }
+  }
+
+  private async advanceRun(runId: string, pipeline: ContentPipeline, creationErrors: string | null) {
+    const outputs = await this.getRunOutputs(runId);
+    // Articles that couldn't be submitted make the run PARTIAL
+    const notes: string[] = creationErrors ? [creationErrors] : [];
+
+    for (const output of outputs) {
+      if (output.status === 'SCRIPT_READY' && pipeline.autoGenerateMedia) {
+        const note = await this.startMediaGeneration(pipeline, output);
+        if (note) {
+          notes.push(note);
+        } else {
+          output.status = 'PROCESSING';
+        }
+      }
+
+      if (output.status === 'COMPLETED' && output.reviewStatus === 'DRAFT' && pipeline.approvalPolicy !== 'MANUAL') {
+        await this.applyApprovalPolicy(pipeline, output);
+      }
+    }
+
+    if (outputs.some((output) => output.status === 'PENDING' || output.status === 'PROCESSING')) return;
+
+    // Scripts left for review count as done - the run handed them over
+    const failed = outputs.filter((output) => output.status === 'FAILED').length;
+    const status: PipelineRunStatus =
+      outputs.length > 0 && failed === outputs.length ? 'FAILED' : failed > 0 || notes.length > 0 ? 'PARTIAL' : 'COMPLETED';
+
+    await this.finishRun(runId, status, notes.length > 0 ? [...new Set(notes)].join('\n') : undefined);
+  }
+
+  /**
+   * Same as the generate-media routes, with the pipeline's settings instead of the user's choices.
+   * Returns a note when the output can't be started.
+   */
+  private async startMediaGeneration(pipeline: ContentPipeline, output: RunOutput): Promise<string | null> {
+    const claim = { id: output.id, status: 'SCRIPT_READY' as const };
+    const organizationId = pipeline.organizationId;
+
+    switch (output.type) {
+      case 'video': {
+        const [character, captionStyle] = await Promise.all([
+          pipeline.characterId ? prisma.character.findUnique({ where: { id: pipeline.characterId } }) : null,
+          pipeline.captionStyleId ? prisma.captionStyle.findUnique({ where: { id: pipeline.captionStyleId } }) : null,
+        ]);
+        if (!character || !captionStyle) {
+          return 'Video scripts are waiting for review: the pipeline has no character or caption style';
+        }
+
+        const claimed = await prisma.videoOutput.updateMany({
+          where: claim,
+          data: {
+            status: 'PROCESSING',
+            characterId: character.id,
+            enableCaptions: true,
+            submagicTemplate: captionStyle.submagicTemplate,
+            captionStyleId: captionStyle.id,
+            backgroundMusicId: pipeline.backgroundMusicId,
+            backgroundMusicVolume: pipeline.backgroundMusicVolume,
+            startBumperId: pipeline.startBumperId,
+            startBumperDuration: pipeline.startBumperDuration,
+            endBumperId: pipeline.endBumperId,
+            endBumperDuration: pipeline.endBumperDuration,
+            error: null,
+          },
+        });
+        if (claimed.count > 0) {
+          await queueService.addVideoMediaGenerationJob({
+            videoOutputId: output.id,
+            submissionId: output.submissionId,
+            organizationId,
+          });
+        }
+        return null;
+      }
+      case 'podcast': {
+        const claimed = await prisma.podcastOutput.updateMany({
+          where: claim,
+          data: { status: 'PROCESSING', error: null },
+        });
+        if (claimed.count > 0) {
+          await queueService.addPodcastMediaGenerationJob({
+            podcastOutputId: output.id,
+            submissionId: output.submissionId,
+            organizationId,
+          });
+        }
+        return null;
+      }
+      case 'interactive-podcast': {
+        const claimed = await prisma.interactivePodcastOutput.updateMany({
+          where: claim,
+          data: { status: 'PROCESSING', error: null },
+        });
+        if (claimed.count > 0) {
+          await queueService.addInteractivePodcastMediaGenerationJob({
+            interactivePodcastOutputId: output.id,
+            submissionId: output.submissionId,
+            organizationId,
+          });
+        }
+        return null;
+      }
+      default:
+        return null; // Audio and quiz are generated in one step
+    }
+  }
+
+  /**
+   * Submit a finished output for review, or take it all the way to published
+   */
+  private async applyApprovalPolicy(pipeline: ContentPipeline, output: RunOutput) {
+    const actions =
+      pipeline.approvalPolicy === 'PUBLISH' ? (['submit', 'approve', 'publish'] as const) : (['submit'] as const);
+    const note = `Content pipeline "${pipeline.name}"`;
+
+    try {
+      for (const action of actions) {
+        await reviewService.transition(pipeline.organizationId, output.type, output.id, action, null, note);
+      }
+    } catch (error) {
+      // Someone moved it in the meantime - their decision wins
+      logger.warn('Content pipeline approval skipped', {
+        pipelineId: pipeline.id,
+        outputType: output.type,
+        outputId: output.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private async getRunOutputs(runId: string): Promise<RunOutput[]> {
+    const where = { submission: { pipelineRunId: runId } };
+    const [audio, podcasts, videos, quizzes, interactivePodcasts] = await Promise.all([
+      prisma.audioOutput.findMany({ where, select: outputSelect }),
+      prisma.podcastOutput.findMany({ where, select: outputSelect }),
+      prisma.videoOutput.findMany({ where, select: outputSelect }),
+      prisma.quizOutput.findMany({ where, select: outputSelect }),
+      prisma.interactivePodcastOutput.findMany({ where, select: outputSelect }),
+    ]);
+
+    return [
+      ...audio.map((output) => ({ ...output, type: 'audio' as const })),
+      ...podcasts.map((output) => ({ ...output, type: 'podcast' as const })),
+      ...videos.map((output) => ({ ...output, type: 'video' as const })),
+      ...quizzes.map((output) => ({ ...output, type: 'quiz' as const })),
+      ...interactivePodcasts.map((output) => ({ ...output, type: 'interactive-podcast' as const })),
+    ];
+  }
+
+  private async finishRun(runId: string, status: PipelineRunStatus, error?: string) {
+    await prisma.pipelineRun.update({
+      where: { id: runId },
+      data: { status, error, finishedAt: new Date() },
+    });
+
+    logger.info('Content pipeline run finished', { runId, status });
+  }
+}
+
+export const contentPipelineService = new ContentPipelineService();
@@ -1,15 +1,33 @@
 import mammoth from 'mammoth';
+import JSZip from 'jszip';
+import path from 'path';
 import { readFile } from 'fs/promises';
 import { logger } from '@repo/logging';
+import { documentToText, legacyContentToDocument } from '@repo/article-content';
 import { contentRegenerationService } from '../external/content-regeneration.service';
-// pdf-parse is a CommonJS module, import dynamically to avoid ESM issues
-// @ts-expect-error - pdf-parse types are not available
+import { webContentService } from './web-content.service';
+// pdf-parse is a CommonJS module without types - see lib/types/pdf-parse.d.ts
 import pdfParse from 'pdf-parse';
 
+// Browsers often send an empty or generic type for these, so the extension decides
+export const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.doc': 'application/msword',
+  '.txt': 'text/plain',
+  '.pdf': 'application/pdf',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.epub': 'application/epub+zip',
+};
+
+const SUPPORTED_FORMATS = 'DOCX (.docx), DOC (.doc), TXT (.txt), PDF (.pdf), Markdown (.md), HTML (.html), EPUB (.epub)';
+
 /**
  * File Extraction Service
  * Extracts text content from various file formats
- * Supports: DOCX, DOC, TXT, PDF
+ * Supports: DOCX, DOC, TXT, PDF, Markdown, HTML, EPUB
  * Uses OpenAI to clean content and extract proper titles
  */
 export class FileExtractionService {
@@ -20,25 +38,7 @@ export class FileExtractionService {
   async extractText(filePath: string, mimeType: string): Promise<{ title: string; content: string }> {
     try {
       // First, extract raw content based on file type
-      let rawContent: string;
-
-      switch (mimeType) {
-        case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-        case 'application/msword':
-          rawContent = await this.extractRawFromWord(filePath);
-          break;
-
-        case 'text/plain':
-          rawContent = await this.extractRawFromText(filePath);
-          break;
-
-        case 'application/pdf':
-          rawContent = await this.extractRawFromPdf(filePath);
-          break;
-
-        default:
-          throw new Error(`Unsupported file type: ${mimeType}. Currently supported: DOCX (.docx), DOC (.doc), TXT (.txt), PDF (.pdf)`);
-      }
+      const rawContent = await this.extractRawText(filePath, mimeType);
 
       // Use OpenAI to clean the content and extract proper title
       logger.info('Using OpenAI to clean article and extract title', {
@@ -91,12 +91,79 @@ export class FileExtractionService {
     return data.text.trim();
   }
 
+  /**
+   * Extract raw text from Markdown file (front matter removed, markdown kept for structure)
+   */
+  private async extractRawFromMarkdown(filePath: string): Promise<string> {
+    const content = await readFile(filePath, 'utf-8');
+    return content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '').trim();
+  }
+
+  /**
+   * Extract raw text from saved HTML page, with the same readability extraction as URL imports
+   */
+  private async extractRawFromHtml(filePath: string): Promise<string> {
+    const html = await readFile(filePath, 'utf-8');
+    const { title, text } = webContentService.extractReadableContent(html);
+    return (title ? `${title}\n\n${text}` : text).trim();
+  }
+
+  /**
+   * Extract raw text from EPUB file
+   * Reads the chapters listed in the package spine, in reading order
+   */
+  private async extractRawFromEpub(filePath: string): Promise<string> {
+    const zip = await JSZip.loadAsync(await readFile(filePath));
+
+    const container = await zip.file('META-INF/container.xml')?.async('string');
+    const packagePath = container?.match(/full-path=["']([^"']+)["']/)?.[1];
+    const packageXml = packagePath ? await zip.file(packagePath)?.async('string') : undefined;
+    if (!packagePath || !packageXml) {
+      throw new Error('Invalid EPUB: package document not found');
+    }
+
+    const attribute = (tag: string, name: string) => tag.match(new RegExp(`\\b${name}=["']([^"']+)["']`))?.[1];
+
+    const manifest = new Map<string, string>();
+    for (const [item] of packageXml.matchAll(/<item\b[^>]*>/g)) {
+      const id = attribute(item, 'id');
+      const href = attribute(item, 'href');
+      if (id && href) manifest.set(id, href);
+    }
+
+    const chapters: string[] = [];
+    for (const [itemref] of packageXml.matchAll(/<itemref\b[^>]*>/g)) {
+      const href = manifest.get(attribute(itemref, 'idref') ?? '');
+      if (!href) continue;
+
+      // Manifest paths are relative to the package document
+      const chapterPath = path.posix.join(path.posix.dirname(packagePath), decodeURIComponent(href));
+      const chapterHtml = await zip.file(chapterPath)?.async('string');
+      if (!chapterHtml) continue;
+
+      const text = documentToText(legacyContentToDocument(chapterHtml));
+      if (text) chapters.push(text);
+    }
+
+    return chapters.join('\n\n').trim();
+  }
+
+  /**
+   * Uploaded files keep their original name, so its extension fills in a missing mime type
+   */
+  private resolveMimeType(filePath: string, mimeType: string): string {
+    if (mimeType && mimeType !== 'application/octet-stream') return mimeType;
+    return MIME_TYPES_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? mimeType;
+  }
+
   /**
    * Extract raw text from file without cleaning (for script uploads)
    * Returns the raw text without AI processing
    */
   async extractRawText(filePath: string, mimeType: string): Promise<string> {
-    switch (mimeType) {
+    const resolvedMimeType = this.resolveMimeType(filePath, mimeType);
+
+    switch (resolvedMimeType) {
       case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
       case 'application/msword':
         return await this.extractRawFromWord(filePath);
@@ -107,8 +174,19 @@ export class FileExtractionService {
       case 'application/pdf':
         return await this.extractRawFromPdf(filePath);
 
+      case 'text/markdown':
+      case 'text/x-markdown':
+        return await this.extractRawFromMarkdown(filePath);
+
+      case 'text/html':
+      case 'application/xhtml+xml':
+        return await this.extractRawFromHtml(filePath);
+
+      case 'application/epub+zip':
+        return await this.extractRawFromEpub(filePath);
+
       default:
-        throw new Error(`Unsupported file type: ${mimeType}. Currently supported: DOCX (.docx), DOC (.doc), TXT (.txt), PDF (.pdf)`);
+        throw new Error(`Unsupported file type: ${mimeType || path.extname(filePath)}. Currently supported: ${SUPPORTED_FORMATS}`);
     }
   }
 }
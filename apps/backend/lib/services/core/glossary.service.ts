@@ -0,0 +1,297 @@
+import { z } from 'zod';
+import type { GlossaryTerm, Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { languageService } from './language.service';
+import type { ReviewableOutputType } from './review.service';
+
+export type GlossaryTranslations = Record<string, string>; // Language.code -> rendering
+
+// Validation schemas
+export const GlossaryTermSchema = z.object({
+  term: z.string().trim().min(1, 'Term is required').max(200),
+  translations: z.record(z.string(), z.string().max(200)).default({}),
+  doNotTranslate: z.boolean().default(false),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export const UpdateGlossaryTermSchema = GlossaryTermSchema.partial();
+
+export type GlossaryTermInput = z.input<typeof GlossaryTermSchema>;
+
+export interface GlossaryIssue {
+  term: string;
+  expected: string; // What the output should contain
+  reason: 'DO_NOT_TRANSLATE' | 'TRANSLATION';
+}
+
+/**
+ * Thrown when approving an output the glossary check flagged, unless the reviewer acknowledged the issues (→ 409)
+ */
+export class GlossaryCheckError extends Error {
+  constructor(public issues: GlossaryIssue[]) {
+    super(`Glossary check flagged ${issues.length} term${issues.length !== 1 ? 's' : ''}: ${issues.map((issue) => issue.term).join(', ')}`);
+    this.name = 'GlossaryCheckError';
+  }
+}
+
+/**
+ * Thrown for duplicate terms and translations in languages the registry doesn't know (→ 400)
+ */
+export class GlossaryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GlossaryValidationError';
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match for Latin terms ("NAV" shouldn't match "navigate"); Indic scripts have no \b, so plain substring
+function containsTerm(text: string, term: string): boolean {
+  if (/^[\x20-\x7E]+$/.test(term)) {
+    return new RegExp(`(^|[^A-Za-z0-9])${escapeRegExp(term)}($|[^A-Za-z0-9])`, 'i').test(text);
+  }
+  return text.toLowerCase().includes(term.toLowerCase());
+}
+
+const translationsOf = (term: GlossaryTerm) => (term.translations ?? {}) as GlossaryTranslations;
+
+/**
+ * Glossary Service - Organization term base
+ *
+ * Terms are either kept as written in every language (doNotTranslate) or have a fixed rendering per
+ * language. Translation and script-generation prompts get the relevant entries appended, and outputs
+ * are checked against them before a reviewer approves.
+ */
+class GlossaryService {
+  async listTerms(organizationId: string): Promise<GlossaryTerm[]> {
+    return prisma.glossaryTerm.findMany({
+      where: { organizationId },
+      orderBy: { term: 'asc' },
+    });
+  }
+
+  async createTerm(organizationId: string, input: GlossaryTermInput, createdBy: string): Promise<GlossaryTerm> {
+    const data = await this.normalize(organizationId, input);
+    return prisma.glossaryTerm.create({
+      data: { ...data, organizationId, createdBy },
+    });
+  }
+
+  async updateTerm(organizationId: string, id: string, input: Partial<GlossaryTermInput>): Promise<GlossaryTerm> {
+    const existing = await prisma.glossaryTerm.findFirst({ where: { id, organizationId } });
+    if (!existing) {
+      throw new Error('Glossary term not found');
+    }
+
+    const data = await this.normalize(
+      organizationId,
+      {
+        term: input.term ?? existing.term,
+        translations: input.translations ?? translationsOf(existing),
+        doNotTranslate: input.doNotTranslate ?? existing.doNotTranslate,
+        notes: input.notes !== undefined ? input.notes : existing.notes,
+      },
+      id,
+    );
+    return prisma.glossaryTerm.update({ where: { id }, data });
+  }
+
+  async deleteTerm(organizationId: string, id: string): Promise<GlossaryTerm> {
+    const existing = await prisma.glossaryTerm.findFirst({ where: { id, organizationId } });
+    if (!existing) {
+      throw new Error('Glossary term not found');
+    }
+    await prisma.glossaryTerm.delete({ where: { id } });
+    return existing;
+  }
+
+  /**
+   * Trim the input, drop empty translations and reject duplicates / unknown language codes
+   */
+  private async normalize(organizationId: string, input: GlossaryTermInput, excludeId?: string) {
+    const term = input.term.trim();
+    const duplicate = await prisma.glossaryTerm.findFirst({
+      where: {
+        organizationId,
+        term: { equals: term, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+    if (duplicate) {
+      throw new GlossaryValidationError(`"${duplicate.term}" is already in the glossary`);
+    }
+
+    const translations: GlossaryTranslations = {};
+    for (const [code, rendering] of Object.entries(input.translations ?? {})) {
+      if (!rendering.trim()) continue;
+      if (!(await languageService.getLanguage(code))) {
+        throw new GlossaryValidationError(`Unknown language: ${code}`);
+      }
+      translations[code] = rendering.trim();
+    }
+
+    return {
+      term,
+      translations,
+      doNotTranslate: input.doNotTranslate ?? false,
+      notes: input.notes?.trim() || null,
+    };
+  }
+
+  /**
+   * Glossary block appended to a system prompt - empty when the organization has no terms for the language.
+   * Pass the source text to only include terms it actually uses (keeps long glossaries out of every prompt).
+   */
+  async getPromptInstructions(organizationId: string, language: string, sourceText?: string): Promise<string> {
+    const terms = (await this.listTerms(organizationId)).filter(
+      (term) => !sourceText || containsTerm(sourceText, term.term)
+    );
+
+    const keep = terms.filter((term) => term.doNotTranslate);
+    const translated = language === 'ENGLISH'
+      ? []
+      : terms.filter((term) => !term.doNotTranslate && translationsOf(term)[language]);
+
+    if (keep.length === 0 && translated.length === 0) {
+      return '';
+    }
+
+    const languageName = await languageService.getLanguageName(language);
+    const withNotes = (term: GlossaryTerm, line: string) => (term.notes ? `${line} (${term.notes})` : line);
+
+    const lines = ['Glossary - these terms are mandatory, use them exactly as given:'];
+    if (translated.length > 0) {
+      lines.push(`Render these English terms in ${languageName} as follows:`);
+      lines.push(...translated.map((term) => withNotes(term, `- "${term.term}" → "${translationsOf(term)[language]}"`)));
+    }
+    if (keep.length > 0) {
+      lines.push('Keep these terms exactly as written, do not translate or transliterate them:');
+      lines.push(...keep.map((term) => withNotes(term, `- "${term.term}"`)));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Terms used in the source whose required rendering is missing from the output.
+   * English outputs are only checked for do-not-translate terms.
+   */
+  async checkText(organizationId: string, language: string, sourceText: string, outputText: string): Promise<GlossaryIssue[]> {
+    const terms = await this.listTerms(organizationId);
+    const issues: GlossaryIssue[] = [];
+
+    for (const term of terms) {
+      if (!containsTerm(sourceText, term.term)) continue;
+
+      if (term.doNotTranslate) {
+        if (!containsTerm(outputText, term.term)) {
+          issues.push({ term: term.term, expected: term.term, reason: 'DO_NOT_TRANSLATE' });
+        }
+        continue;
+      }
+
+      const expected = language === 'ENGLISH' ? undefined : translationsOf(term)[language];
+      if (expected && !containsTerm(outputText, expected)) {
+        issues.push({ term: term.term, expected, reason: 'TRANSLATION' });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check an output's script (or quiz questions) against the glossary, using the article as source
+   */
+  async checkOutput(organizationId: string, outputType: ReviewableOutputType, outputId: string): Promise<GlossaryIssue[]> {
+    const output = await this.getOutputText(organizationId, outputType, outputId);
+    if (!output || !output.text.trim()) {
+      return [];
+    }
+    return this.checkText(organizationId, output.language, output.source, output.text);
+  }
+
+  /**
+   * Generated text of an output plus its submission language and article content
+   */
+  private async getOutputText(organizationId: string, outputType: ReviewableOutputType, outputId: string) {
+    const where = { id: outputId, submission: { article: { organizationId } } };
+    const submission = {
+      select: { language: true, article: { select: { title: true, content: true } } },
+    } as const;
+
+    let result: { text: string; submission: { language: string; article: { title: string; content: string } } } | null = null;
+    switch (outputType) {
+      case 'audio': {
+        const output = await prisma.audioOutput.findFirst({ where, select: { speakableScript: true, submission } });
+        result = output && { text: output.speakableScript ?? '', submission: output.submission };
+        break;
+      }
+      case 'podcast': {
+        const output = await prisma.podcastOutput.findFirst({ where, select: { title: true, transcript: true, submission } });
+        result = output && { text: [output.title, segmentText(output.transcript)].join('\n'), submission: output.submission };
+        break;
+      }
+      case 'video': {
+        const output = await prisma.videoOutput.findFirst({ where, select: { title: true, script: true, submission } });
+        result = output && { text: [output.title, output.script].join('\n'), submission: output.submission };
+        break;
+      }
+      case 'quiz': {
+        const output = await prisma.quizOutput.findFirst({
+          where,
+          select: { questions: { select: { prompt: true, stem: true, options: true, explanation: true } }, submission },
+        });
+        result = output && {
+          text: output.questions
+            .map((question) => [question.prompt, question.stem, segmentText(question.options), question.explanation].join('\n'))
+            .join('\n'),
+          submission: output.submission,
+        };
+        break;
+      }
+      case 'interactive-podcast': {
+        const output = await prisma.interactivePodcastOutput.findFirst({ where, select: { title: true, segments: true, submission } });
+        result = output && { text: [output.title, segmentText(output.segments)].join('\n'), submission: output.submission };
+        break;
+      }
+    }
+
+    if (!result) {
+      return null;
+    }
+
+    return {
+      text: result.text,
+      language: result.submission.language,
+      source: `${result.submission.article.title}\n${result.submission.article.content}`,
+    };
+  }
+}
+
+/**
+ * Text of a transcript / segments / options value - arrays of { text }, a { script } object or plain text
+ */
+function segmentText(value: Prisma.JsonValue | string | null): string {
+  if (!value) return '';
+  let parsed: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  if (Array.isArray(parsed)) {
+    return parsed
+      .map((segment) => (segment && typeof segment === 'object' && 'text' in segment ? String(segment.text) : ''))
+      .join('\n');
+  }
+  if (parsed && typeof parsed === 'object' && 'script' in parsed) {
+    return String(parsed.script);
+  }
+  return typeof parsed === 'string' ? parsed : '';
+}
+
+// Singleton instance
+export const glossaryService = new GlossaryService();
@@ -0,0 +1,122 @@
+import type { Language, Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Thrown for languages that are unknown or not enabled for the organization (→ 400)
+ */
+export class LanguageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LanguageValidationError';
+  }
+}
+
+/**
+ * Language Service - Lookups into the language registry
+ *
+ * The registry changes rarely (seed / direct edits), so all rows are kept in memory for a minute.
+ * Inactive languages still resolve so existing content in them keeps working;
+ * they're only hidden from the create forms.
+ */
+class LanguageService {
+  private cache: { languages: Language[]; loadedAt: number } | null = null;
+
+  private async loadAll(): Promise<Language[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache.languages;
+    }
+
+    const languages = await prisma.language.findMany({
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+    this.cache = { languages, loadedAt: Date.now() };
+    return languages;
+  }
+
+  /**
+   * Active languages in display order
+   */
+  async listLanguages(): Promise<Language[]> {
+    return (await this.loadAll()).filter((language) => language.isActive);
+  }
+
+  async getLanguage(code: string): Promise<Language | null> {
+    return (await this.loadAll()).find((language) => language.code === code) ?? null;
+  }
+
+  /**
+   * English name for prompts and labels - unknown codes read as "Tamil" for "TAMIL"
+   */
+  async getLanguageName(code: string): Promise<string> {
+    const language = await this.getLanguage(code);
+    return language?.name ?? code.charAt(0) + code.slice(1).toLowerCase();
+  }
+
+  /**
+   * Active languages the organization offers in its create forms
+   */
+  async getOrgLanguages(organizationId: string): Promise<Language[]> {
+    const enabled = await prisma.organizationLanguage.findMany({
+      where: { organizationId },
+      select: { languageCode: true },
+    });
+    const codes = new Set(enabled.map((row) => row.languageCode));
+    return (await this.listLanguages()).filter((language) => codes.has(language.code));
+  }
+
+  /**
+   * Throws LanguageValidationError unless every code is enabled for the organization
+   */
+  async assertOrgLanguages(organizationId: string, codes: string[]): Promise<void> {
+    const enabled = new Set((await this.getOrgLanguages(organizationId)).map((language) => language.code));
+    const invalid = [...new Set(codes)].filter((code) => !enabled.has(code));
+    if (invalid.length > 0) {
+      throw new LanguageValidationError(`Language not enabled for this organization: ${invalid.join(', ')}`);
+    }
+  }
+
+  /**
+   * Replace the organization's enabled languages
+   */
+  async setOrgLanguages(organizationId: string, codes: string[]): Promise<Language[]> {
+    const active = new Set((await this.listLanguages()).map((language) => language.code));
+    const unique = [...new Set(codes)];
+    const unknown = unique.filter((code) => !active.has(code));
+    if (unknown.length > 0) {
+      throw new LanguageValidationError(`Unknown language: ${unknown.join(', ')}`);
+    }
+
+    await prisma.$transaction([
+      prisma.organizationLanguage.deleteMany({ where: { organizationId, languageCode: { notIn: unique } } }),
+      prisma.organizationLanguage.createMany({
+        data: unique.map((languageCode) => ({ organizationId, languageCode })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    return this.getOrgLanguages(organizationId);
+  }
+
+  /**
+   * Enable the registry's default languages for a new organization
+   */
+  async enableDefaultLanguages(organizationId: string, tx: Prisma.TransactionClient = prisma): Promise<void> {
+    const defaults = (await this.listLanguages()).filter((language) => language.enabledByDefault);
+    await tx.organizationLanguage.createMany({
+      data: defaults.map((language) => ({ organizationId, languageCode: language.code })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * AWS Transcribe language code, e.g. "hi-IN"
+   */
+  async getTranscribeLocale(code: string): Promise<string> {
+    return (await this.getLanguage(code))?.transcribeLocale ?? 'en-US';
+  }
+}
+
+// Singleton instance
+export const languageService = new LanguageService();
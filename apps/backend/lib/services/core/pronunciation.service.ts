@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import type { PronunciationEntry } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { languageService } from './language.service';
+
+const CACHE_TTL_MS = 60 * 1000;
+
+// ElevenLabs models that honour <phoneme> SSML tags - the others read the tags aloud
+const PHONEME_MODELS = ['eleven_flash_v2', 'eleven_turbo_v2', 'eleven_monolingual_v1'];
+
+/**
+ * Whether IPA phonemes are used with this ElevenLabs model (respellings are used otherwise)
+ */
+export const supportsPhonemes = (model?: string) => !!model && PHONEME_MODELS.includes(model);
+
+// Validation schemas
+export const PronunciationEntrySchema = z.object({
+  term: z.string().trim().min(1, 'Term is required').max(100),
+  language: z.string().nullable().optional(), // null = every language
+  respelling: z.string().trim().min(1, 'Respelling is required').max(200),
+  phoneme: z.string().trim().max(200).nullable().optional(),
+  caseSensitive: z.boolean().default(true),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export const UpdatePronunciationEntrySchema = PronunciationEntrySchema.partial();
+
+export const PronunciationPreviewSchema = z.object({
+  text: z.string().trim().min(1, 'Text is required').max(500, 'Preview text is limited to 500 characters'),
+  language: z.string().default('ENGLISH'),
+  voiceId: z.string().optional(),
+});
+
+export type PronunciationEntryInput = z.input<typeof PronunciationEntrySchema>;
+
+/**
+ * Thrown for duplicate terms and unknown languages (→ 400)
+ */
+export class PronunciationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PronunciationValidationError';
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Latin terms only match whole words ("IT" shouldn't match "ITC"); Indic scripts have no word boundaries to lean on
+const termPattern = (term: string) =>
+  /^[\x20-\x7E]+$/.test(term) ? `(?<![A-Za-z0-9])${escapeRegExp(term)}(?![A-Za-z0-9])` : escapeRegExp(term);
+
+/**
+ * Pronunciation Service - Organization lexicon applied before text-to-speech
+ *
+ * Each entry maps a written term to a respelling (works with every voice model) and optionally an
+ * IPA phoneme, which is sent as an SSML tag to the models that support it. Language-specific entries
+ * win over entries for every language.
+ */
+class PronunciationService {
+  private cache = new Map<string, { entries: PronunciationEntry[]; loadedAt: number }>();
+
+  async listEntries(organizationId: string): Promise<PronunciationEntry[]> {
+    return prisma.pronunciationEntry.findMany({
+      where: { organizationId },
+      orderBy: [{ term: 'asc' }, { language: 'asc' }],
+    });
+  }
+
+  async createEntry(organizationId: string, input: PronunciationEntryInput, createdBy: string): Promise<PronunciationEntry> {
+    const data = await this.normalize(organizationId, input);
+    const entry = await prisma.pronunciationEntry.create({
+      data: { ...data, organizationId, createdBy },
+    });
+    this.cache.delete(organizationId);
+    return entry;
+  }
+
+  async updateEntry(organizationId: string, id: string, input: Partial<PronunciationEntryInput>): Promise<PronunciationEntry> {
+    const existing = await prisma.pronunciationEntry.findFirst({ where: { id, organizationId } });
+    if (!existing) {
+      throw new Error('Pronunciation entry not found');
+    }
+
+    const data = await this.normalize(
+      organizationId,
+      {
+        term: input.term ?? existing.term,
+        language: input.language !== undefined ? input.language : existing.language,
+        respelling: input.respelling ?? existing.respelling,
+        phoneme: input.phoneme !== undefined ? input.phoneme : existing.phoneme,
+        caseSensitive: input.caseSensitive ?? existing.caseSensitive,
+        notes: input.notes !== undefined ? input.notes : existing.notes,
+      },
+      id,
+    );
+    const entry = await prisma.pronunciationEntry.update({ where: { id }, data });
+    this.cache.delete(organizationId);
+    return entry;
+  }
+
+  async deleteEntry(organizationId: string, id: string): Promise<PronunciationEntry> {
+    const existing = await prisma.pronunciationEntry.findFirst({ where: { id, organizationId } });
+    if (!existing) {
+      throw new Error('Pronunciation entry not found');
+    }
+    await prisma.pronunciationEntry.delete({ where: { id } });
+    this.cache.delete(organizationId);
+    return existing;
+  }
+
+  /**
+   * Trim the input and reject duplicates (same term and language) / unknown language codes
+   */
+  private async normalize(organizationId: string, input: PronunciationEntryInput, excludeId?: string) {
+    const term = input.term.trim();
+    const language = input.language || null;
+
+    if (language && !(await languageService.getLanguage(language))) {
+      throw new PronunciationValidationError(`Unknown language: ${language}`);
+    }
+
+    const duplicate = await prisma.pronunciationEntry.findFirst({
+      where: {
+        organizationId,
+        term: { equals: term, mode: 'insensitive' },
+        language,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+    if (duplicate) {
+      throw new PronunciationValidationError(
+        `"${duplicate.term}" already has a pronunciation${language ? ` for ${await languageService.getLanguageName(language)}` : ''}`
+      );
+    }
+
+    return {
+      term,
+      language,
+      respelling: input.respelling.trim(),
+      phoneme: input.phoneme?.trim() || null,
+      caseSensitive: input.caseSensitive ?? true,
+      notes: input.notes?.trim() || null,
+    };
+  }
+
+  /**
+   * Rewrite text with the organization's lexicon before it's spoken.
+   * Pass the model to allow IPA phoneme tags; without one only respellings are used (e.g. HeyGen's own TTS).
+   */
+  async applyLexicon(organizationId: string, language: string | undefined, text: string, model?: string): Promise<string> {
+    const entries = (await this.getCachedEntries(organizationId)).filter(
+      (entry) => !entry.language || entry.language === language
+    );
+    if (entries.length === 0 || !text) {
+      return text;
+    }
+
+    // Language-specific entries first, then longest terms, so "HDFC Bank" wins over "HDFC"
+    const ordered = [...entries].sort(
+      (a, b) => Number(!!b.language) - Number(!!a.language) || b.term.length - a.term.length
+    );
+    const pattern = new RegExp(ordered.map((entry) => termPattern(entry.term)).join('|'), 'gi');
+    const matches = [...text.matchAll(pattern)].map((match) => ({
+      text: match[0],
+      index: match.index ?? 0,
+      entry: ordered.find((candidate) =>
+        candidate.caseSensitive ? candidate.term === match[0] : candidate.term.toLowerCase() === match[0].toLowerCase()
+      ),
+    }));
+
+    // Once the text holds a tag the model parses all of it as markup, so everything else is escaped too
+    const tagged = supportsPhonemes(model) && matches.some((match) => match.entry?.phoneme);
+    const encode = (value: string) => (tagged ? escapeXml(value) : value);
+
+    let result = '';
+    let position = 0;
+    for (const match of matches) {
+      result += encode(text.slice(position, match.index));
+      if (!match.entry) {
+        result += encode(match.text);
+      } else if (tagged && match.entry.phoneme) {
+        result += `<phoneme alphabet="ipa" ph="${escapeXml(match.entry.phoneme)}">${escapeXml(match.text)}</phoneme>`;
+      } else {
+        result += encode(match.entry.respelling);
+      }
+      position = match.index + match.text.length;
+    }
+    return result + encode(text.slice(position));
+  }
+
+  /**
+   * Lexicons are read on every TTS call (once per podcast segment), so they're kept in memory for a minute
+   */
+  private async getCachedEntries(organizationId: string): Promise<PronunciationEntry[]> {
+    const cached = this.cache.get(organizationId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.entries;
+    }
+
+    const entries = await prisma.pronunciationEntry.findMany({ where: { organizationId } });
+    this.cache.set(organizationId, { entries, loadedAt: Date.now() });
+    return entries;
+  }
+}
+
+// Singleton instance
+export const pronunciationService = new PronunciationService();
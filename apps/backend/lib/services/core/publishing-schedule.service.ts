@@ -0,0 +1,253 @@
+import { prisma } from '../../config/database';
+import { config } from '../../config/constants';
+import { emailService } from '../external/email.service';
+import { REVIEW_OUTPUT_TYPES, type ReviewableOutputType } from './review.service';
+import { logger } from '@repo/logging';
+
+// Same segment names as the approve routes / MediaCard types
+export type ScheduledContentType = 'article' | 'audio' | 'podcast' | 'video' | 'quiz' | 'interactive-podcast';
+
+export interface PublishSchedule {
+  publishAt: Date | null;
+  expiresAt: Date | null;
+}
+
+export interface ExpiredContent {
+  contentType: ScheduledContentType;
+  id: string;
+  organizationId: string;
+  title: string;
+  url: string;
+  approvedBy: string | null;
+  expiresAt: Date;
+}
+
+const CONTENT_TYPE_LABELS: Record<ScheduledContentType, string> = {
+  article: 'Article',
+  audio: 'Audio',
+  podcast: 'Podcast',
+  video: 'Video',
+  quiz: 'Quiz',
+  'interactive-podcast': 'Interactive Podcast',
+};
+
+// Fields needed to describe an expired output in the approver notification
+const outputSelect = {
+  id: true,
+  submissionId: true,
+  approvedBy: true,
+  expiresAt: true,
+  submission: {
+    select: {
+      article: { select: { title: true, organizationId: true, organization: { select: { slug: true } } } },
+    },
+  },
+} as const;
+
+/**
+ * Edit page for a piece of content (matches MediaCard links)
+ */
+function getEditUrl(orgSlug: string, contentType: ScheduledContentType, id: string, submissionId?: string): string {
+  const orgPrefix = `${config.frontendUrl}/org/${orgSlug}`;
+  switch (contentType) {
+    case 'article':
+      return `${orgPrefix}/articles/${id}/edit`;
+    case 'audio':
+      return `${orgPrefix}/submissions/${submissionId}/audio/${id}/edit`;
+    case 'podcast':
+      return `${orgPrefix}/submissions/${submissionId}/podcasts/${id}/edit`;
+    case 'video':
+      return `${orgPrefix}/submissions/${submissionId}/videos/${id}/edit`;
+    case 'quiz':
+      return `${orgPrefix}/submissions/${submissionId}/quizzes/${id}/edit`;
+    case 'interactive-podcast':
+      return `${orgPrefix}/submissions/${submissionId}/interactive-podcasts/${id}/edit`;
+  }
+}
+
+/**
+ * Publishing Schedule Service
+ *
+ * Responsibilities:
+ * - Set publishAt / expiresAt on articles and outputs (the widget only shows content inside that window)
+ * - Auto-unpublish expired content and notify whoever approved it (run by the worker)
+ */
+export class PublishingScheduleService {
+  /**
+   * Set the publishing window of an article or output in an organization
+   */
+  async updateSchedule(
+    organizationId: string,
+    contentType: ScheduledContentType,
+    id: string,
+    schedule: PublishSchedule,
+  ): Promise<PublishSchedule> {
+    if (schedule.publishAt && schedule.expiresAt && schedule.expiresAt <= schedule.publishAt) {
+      throw new Error('Expiry must be after the publish date');
+    }
+
+    const data = { publishAt: schedule.publishAt, expiresAt: schedule.expiresAt };
+    const outputWhere = { id, submission: { article: { organizationId } } };
+
+    let result: { count: number };
+    switch (contentType) {
+      case 'article':
+        result = await prisma.article.updateMany({ where: { id, organizationId }, data });
+        break;
+      case 'audio':
+        result = await prisma.audioOutput.updateMany({ where: outputWhere, data });
+        break;
+      case 'podcast':
+        result = await prisma.podcastOutput.updateMany({ where: outputWhere, data });
+        break;
+      case 'video':
+        result = await prisma.videoOutput.updateMany({ where: outputWhere, data });
+        break;
+      case 'quiz':
+        result = await prisma.quizOutput.updateMany({ where: outputWhere, data });
+        break;
+      case 'interactive-podcast':
+        result = await prisma.interactivePodcastOutput.updateMany({ where: outputWhere, data });
+        break;
+    }
+
+    if (result.count === 0) {
+      throw new Error('Content not found');
+    }
+
+    return data;
+  }
+
+  /**
+   * Unpublish approved content whose expiresAt has passed and email each approver a summary
+   */
+  async unpublishExpiredContent(): Promise<ExpiredContent[]> {
+    const now = new Date();
+    const expiredWhere = { isApproved: true, expiresAt: { lte: now } };
+
+    const [articles, audio, podcasts, videos, quizzes, interactivePodcasts] = await Promise.all([
+      prisma.article.findMany({
+        where: expiredWhere,
+        select: {
+          id: true,
+          title: true,
+          organizationId: true,
+          approvedBy: true,
+          expiresAt: true,
+          organization: { select: { slug: true } },
+        },
+      }),
+      prisma.audioOutput.findMany({ where: expiredWhere, select: outputSelect }),
+      prisma.podcastOutput.findMany({ where: expiredWhere, select: { ...outputSelect, title: true } }),
+      prisma.videoOutput.findMany({ where: expiredWhere, select: { ...outputSelect, title: true } }),
+      prisma.quizOutput.findMany({ where: expiredWhere, select: outputSelect }),
+      prisma.interactivePodcastOutput.findMany({ where: expiredWhere, select: { ...outputSelect, title: true } }),
+    ]);
+
+    const toExpiredOutput = (
+      contentType: ScheduledContentType,
+      output: (typeof audio)[number] & { title?: string | null },
+    ): ExpiredContent => ({
+      contentType,
+      id: output.id,
+      organizationId: output.submission.article.organizationId,
+      title: output.title || output.submission.article.title,
+      url: getEditUrl(output.submission.article.organization.slug, contentType, output.id, output.submissionId),
+      approvedBy: output.approvedBy,
+      expiresAt: output.expiresAt!,
+    });
+
+    const expired: ExpiredContent[] = [
+      ...articles.map((article) => ({
+        contentType: 'article' as const,
+        id: article.id,
+        organizationId: article.organizationId,
+        title: article.title,
+        url: getEditUrl(article.organization.slug, 'article', article.id),
+        approvedBy: article.approvedBy,
+        expiresAt: article.expiresAt!,
+      })),
+      ...audio.map((output) => toExpiredOutput('audio', output)),
+      ...podcasts.map((output) => toExpiredOutput('podcast', output)),
+      ...videos.map((output) => toExpiredOutput('video', output)),
+      ...quizzes.map((output) => toExpiredOutput('quiz', output)),
+      ...interactivePodcasts.map((output) => toExpiredOutput('interactive-podcast', output)),
+    ];
+
+    if (expired.length === 0) {
+      return [];
+    }
+
+    // Articles lose their approval; outputs drop back from PUBLISHED to APPROVED in the review workflow.
+    // Only rows still live are touched, in case someone changed them meanwhile.
+    // The past expiresAt is cleared so republishing doesn't expire the content again on the next run
+    const unpublishArticle = { isApproved: false, approvedAt: null, approvedBy: null, expiresAt: null };
+    const unpublishOutput = { isApproved: false, reviewStatus: 'APPROVED' as const, expiresAt: null };
+    const idsOf = (type: ScheduledContentType) => expired.filter((item) => item.contentType === type).map((item) => item.id);
+    await prisma.$transaction([
+      prisma.article.updateMany({ where: { id: { in: idsOf('article') }, ...expiredWhere }, data: unpublishArticle }),
+      prisma.audioOutput.updateMany({ where: { id: { in: idsOf('audio') }, ...expiredWhere }, data: unpublishOutput }),
+      prisma.podcastOutput.updateMany({ where: { id: { in: idsOf('podcast') }, ...expiredWhere }, data: unpublishOutput }),
+      prisma.videoOutput.updateMany({ where: { id: { in: idsOf('video') }, ...expiredWhere }, data: unpublishOutput }),
+      prisma.quizOutput.updateMany({ where: { id: { in: idsOf('quiz') }, ...expiredWhere }, data: unpublishOutput }),
+      prisma.interactivePodcastOutput.updateMany({
+        where: { id: { in: idsOf('interactive-podcast') }, ...expiredWhere },
+        data: unpublishOutput,
+      }),
+      // System entry in each output's review history (no actor)
+      prisma.reviewActivity.createMany({
+        data: expired
+          .filter((item) => item.contentType !== 'article')
+          .map((item) => ({
+            organizationId: item.organizationId,
+            outputType: REVIEW_OUTPUT_TYPES[item.contentType as ReviewableOutputType],
+            outputId: item.id,
+            action: 'STATUS_CHANGED' as const,
+            fromStatus: 'PUBLISHED' as const,
+            toStatus: 'APPROVED' as const,
+            metadata: { note: 'Expired' },
+          })),
+      }),
+    ]);
+
+    logger.info('Unpublished expired content', { count: expired.length });
+
+    await this.notifyApprovers(expired);
+
+    return expired;
+  }
+
+  /**
+   * Send each approver one email listing their expired content
+   */
+  private async notifyApprovers(expired: ExpiredContent[]): Promise<void> {
+    const byApprover = new Map<string, ExpiredContent[]>();
+    expired.forEach((item) => {
+      if (!item.approvedBy) {
+        logger.warn('Expired content has no approver to notify', { contentType: item.contentType, id: item.id });
+        return;
+      }
+      byApprover.set(item.approvedBy, [...(byApprover.get(item.approvedBy) || []), item]);
+    });
+
+    const approvers = await prisma.profile.findMany({
+      where: { id: { in: Array.from(byApprover.keys()) } },
+      select: { id: true, email: true, fullName: true },
+    });
+
+    for (const approver of approvers) {
+      await emailService.sendContentExpiredNotification({
+        to: approver.email,
+        recipientName: approver.fullName,
+        items: byApprover.get(approver.id)!.map((item) => ({
+          typeLabel: CONTENT_TYPE_LABELS[item.contentType],
+          title: item.title,
+          url: item.url,
+          expiresAt: item.expiresAt,
+        })),
+      });
+    }
+  }
+}
+
+export const publishingScheduleService = new PublishingScheduleService();
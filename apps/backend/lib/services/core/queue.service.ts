@@ -151,6 +151,7 @@ export class QueueService {
   async addVideoCompletionJob(data: {
     heygenVideoId: string;
     videoUrl: string;
+    wordTimings?: Array<{ text: string; start_time: number; end_time: number }>; // Transcribed while burning in captions
   }) {
     return await getMediaGenerationQueue().add(
       JobTypes.PROCESS_VIDEO_COMPLETION,
@@ -343,6 +344,7 @@ export class QueueService {
     standaloneVideoId: string;
     organizationId: string;
     editedVideoUrl: string;
+    burnCaptions?: boolean; // Video skipped Submagic - caption it locally
   }) {
     return await getMediaGenerationQueue().add(
       JobTypes.POST_PROCESS_STANDALONE_VIDEO,
@@ -363,6 +365,7 @@ export class QueueService {
   async addVideoOutputPostProcessingJob(data: {
     videoOutputId: string;
     editedVideoUrl: string;
+    burnCaptions?: boolean; // Video skipped Submagic - caption it locally
   }) {
     return await getMediaGenerationQueue().add(
       JobTypes.POST_PROCESS_VIDEO_OUTPUT,
@@ -377,6 +380,52 @@ export class QueueService {
     );
   }
 
+  /**
+   * Add a job to check an article feed right away (scheduled checks run in the worker)
+   */
+  async addArticleFeedCheckJob(data: {
+    feedId: string;
+  }) {
+    return await getMediaGenerationQueue().add(
+      JobTypes.CHECK_ARTICLE_FEED,
+      data,
+      {
+        attempts: 1, // Failures are stored on the feed, the next scheduled check retries
+      }
+    );
+  }
+
+  /**
+   * Add a job to extract one bulk upload item into an article and submit it
+   */
+  async addArticleImportItemJob(data: {
+    itemId: string;
+  }) {
+    return await getMediaGenerationQueue().add(
+      JobTypes.EXTRACT_ARTICLE_IMPORT_ITEM,
+      data,
+      {
+        attempts: 1, // Failures are stored on the item and retried from the batch page
+      }
+    );
+  }
+
+  /**
+   * Add a job to run a content pipeline now, outside its schedule
+   */
+  async addContentPipelineRunJob(data: {
+    pipelineId: string;
+    triggeredById: string;
+  }) {
+    return await getMediaGenerationQueue().add(
+      JobTypes.RUN_CONTENT_PIPELINE,
+      data,
+      {
+        attempts: 1, // A failed run is recorded on the run itself
+      }
+    );
+  }
+
   /**
    * Get job status
    */
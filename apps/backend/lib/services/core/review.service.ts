@@ -0,0 +1,422 @@
+import { prisma } from '../../config/database';
+import { isOrgAdmin } from '../../context/org-context';
+import { resolvePermissions } from '../../context/permissions';
+import type { Prisma, ReviewAnchorType, ReviewOutputType, ReviewStatus } from '@prisma/client';
+import type { ScheduledContentType } from './publishing-schedule.service';
+import { glossaryService, GlossaryCheckError } from './glossary.service';
+
+// URL segment used by the review routes (same names as the schedule route, minus articles)
+export type ReviewableOutputType = Exclude<ScheduledContentType, 'article'>;
+
+export type ReviewAction = 'submit' | 'withdraw' | 'request_changes' | 'approve' | 'publish' | 'unpublish';
+
+export interface ReviewAnchor {
+  type: ReviewAnchorType;
+  line?: number;
+  timestamp?: number;
+  questionId?: string;
+}
+
+export const REVIEW_OUTPUT_TYPES: Record<ReviewableOutputType, ReviewOutputType> = {
+  audio: 'AUDIO',
+  podcast: 'PODCAST',
+  video: 'VIDEO',
+  quiz: 'QUIZ',
+  'interactive-podcast': 'INTERACTIVE_PODCAST',
+};
+
+/**
+ * Review state machine
+ *
+ * DRAFT → IN_REVIEW → (CHANGES_REQUESTED → IN_REVIEW)* → APPROVED → PUBLISHED
+ * Only PUBLISHED outputs have isApproved = true and are visible in the widget.
+ */
+export const REVIEW_TRANSITIONS: Record<ReviewAction, { from: ReviewStatus[]; to: ReviewStatus; reviewerOnly: boolean }> = {
+  submit: { from: ['DRAFT', 'CHANGES_REQUESTED'], to: 'IN_REVIEW', reviewerOnly: false },
+  withdraw: { from: ['IN_REVIEW'], to: 'DRAFT', reviewerOnly: false },
+  request_changes: { from: ['IN_REVIEW', 'APPROVED'], to: 'CHANGES_REQUESTED', reviewerOnly: true },
+  approve: { from: ['IN_REVIEW'], to: 'APPROVED', reviewerOnly: true },
+  publish: { from: ['APPROVED'], to: 'PUBLISHED', reviewerOnly: true },
+  unpublish: { from: ['PUBLISHED'], to: 'APPROVED', reviewerOnly: true },
+};
+
+const profileSelect = { id: true, fullName: true, email: true } as const;
+
+/**
+ * Review Service - Review workflow for generated outputs
+ *
+ * Responsibilities:
+ * - Move audio, podcast, video, quiz and interactive podcast outputs through the review states
+ * - Assign reviewers from the organization's members
+ * - Threaded comments anchored to script lines, video timestamps or quiz questions
+ * - Activity history for every output
+ */
+export class ReviewService {
+  /**
+   * Review status, reviewers, comment threads and activity of an output
+   */
+  async getReview(organizationId: string, outputType: ReviewableOutputType, outputId: string) {
+    const type = REVIEW_OUTPUT_TYPES[outputType];
+    const output = await this.getOutput(organizationId, outputType, outputId);
+
+    const [assignments, comments, activity, members, glossaryIssues] = await Promise.all([
+      prisma.reviewAssignment.findMany({
+        where: { outputType: type, outputId },
+        include: { reviewer: { select: profileSelect } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.reviewComment.findMany({
+        where: { outputType: type, outputId, parentId: null },
+        include: {
+          author: { select: profileSelect },
+          replies: {
+            include: { author: { select: profileSelect } },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.reviewActivity.findMany({
+        where: { outputType: type, outputId },
+        include: { actor: { select: profileSelect } },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.organizationMember.findMany({
+        where: { organizationId },
+        include: { profile: { select: profileSelect }, customRole: { select: { permissions: true } } },
+        orderBy: { joinedAt: 'asc' },
+      }),
+      glossaryService.checkOutput(organizationId, outputType, outputId),
+    ]);
+
+    return {
+      status: output.reviewStatus,
+      reviewers: assignments.map((assignment) => ({
+        ...assignment.reviewer,
+        assignedAt: assignment.createdAt,
+      })),
+      comments,
+      activity,
+      // Only members who may approve can be assigned as reviewers
+      availableReviewers: members
+        .filter((member) => resolvePermissions(member.role, member.customRole?.permissions).includes('content.approve'))
+        .map((member) => ({ ...member.profile, role: member.role })),
+      glossaryIssues,
+    };
+  }
+
+  /**
+   * Apply a review action, keeping isApproved / approvedAt / approvedBy in step with the new status
+   * A null actor is the system (content pipeline auto-approval) and skips the reviewer check.
+   * Approving runs the glossary check - flagged outputs need acknowledgeGlossary, so pipelines never auto-approve them.
+   */
+  async transition(
+    organizationId: string,
+    outputType: ReviewableOutputType,
+    outputId: string,
+    action: ReviewAction,
+    actorId: string | null,
+    note?: string,
+    acknowledgeGlossary = false,
+  ) {
+    const transition = REVIEW_TRANSITIONS[action];
+    const output = await this.getOutput(organizationId, outputType, outputId);
+
+    if (!transition.from.includes(output.reviewStatus)) {
+      throw new Error(`Cannot ${action.replace('_', ' ')} while the output is ${output.reviewStatus.replace('_', ' ').toLowerCase()}`);
+    }
+
+    if (transition.reviewerOnly && actorId && !(await this.canReview(organizationId, outputType, outputId, actorId))) {
+      throw new Error('Only assigned reviewers or organization admins can do this');
+    }
+
+    const glossaryIssues = action === 'approve' ? await glossaryService.checkOutput(organizationId, outputType, outputId) : [];
+    if (glossaryIssues.length > 0 && !acknowledgeGlossary) {
+      throw new GlossaryCheckError(glossaryIssues);
+    }
+
+    const data: Prisma.AudioOutputUpdateManyMutationInput = { reviewStatus: transition.to };
+    switch (action) {
+      case 'approve':
+        data.approvedAt = new Date();
+        data.approvedBy = actorId;
+        break;
+      case 'publish':
+        data.isApproved = true;
+        break;
+      case 'unpublish':
+        data.isApproved = false;
+        break;
+      case 'request_changes':
+      case 'withdraw':
+        data.approvedAt = null;
+        data.approvedBy = null;
+        break;
+    }
+
+    // Guard on the current status so two reviewers acting at once can't both win
+    await prisma.$transaction(async (tx) => {
+      const updated = await this.updateOutput(tx, outputType, { id: outputId, reviewStatus: output.reviewStatus }, data);
+      if (updated.count === 0) {
+        throw new Error('Review status changed in the meantime, reload and try again');
+      }
+
+      await tx.reviewActivity.create({
+        data: {
+          organizationId,
+          outputType: REVIEW_OUTPUT_TYPES[outputType],
+          outputId,
+          actorId,
+          action: 'STATUS_CHANGED',
+          fromStatus: output.reviewStatus,
+          toStatus: transition.to,
+          metadata: note || glossaryIssues.length > 0
+            ? { ...(note && { note }), ...(glossaryIssues.length > 0 && { glossaryIssues: glossaryIssues.map((issue) => issue.term) }) }
+            : undefined,
+        },
+      });
+    });
+
+    return { status: transition.to };
+  }
+
+  /**
+   * Assign an organization member as reviewer
+   */
+  async assignReviewer(
+    organizationId: string,
+    outputType: ReviewableOutputType,
+    outputId: string,
+    reviewerId: string,
+    assignedBy: string,
+  ) {
+    await this.getOutput(organizationId, outputType, outputId);
+
+    const membership = await prisma.organizationMember.findFirst({
+      where: { organizationId, profileId: reviewerId },
+      include: { customRole: { select: { permissions: true } } },
+    });
+    if (!membership) {
+      throw new Error('Reviewer is not a member of this organization');
+    }
+    if (!resolvePermissions(membership.role, membership.customRole?.permissions).includes('content.approve')) {
+      throw new Error('Reviewer is not allowed to approve content');
+    }
+
+    const type = REVIEW_OUTPUT_TYPES[outputType];
+    const [assignment] = await prisma.$transaction([
+      prisma.reviewAssignment.upsert({
+        where: { outputType_outputId_reviewerId: { outputType: type, outputId, reviewerId } },
+        create: { organizationId, outputType: type, outputId, reviewerId, assignedBy },
+        update: {},
+        include: { reviewer: { select: profileSelect } },
+      }),
+      prisma.reviewActivity.create({
+        data: {
+          organizationId,
+          outputType: type,
+          outputId,
+          actorId: assignedBy,
+          action: 'REVIEWER_ASSIGNED',
+          metadata: { reviewerId },
+        },
+      }),
+    ]);
+
+    return assignment;
+  }
+
+  /**
+   * Remove a reviewer from an output
+   */
+  async unassignReviewer(
+    organizationId: string,
+    outputType: ReviewableOutputType,
+    outputId: string,
+    reviewerId: string,
+    actorId: string,
+  ) {
+    await this.getOutput(organizationId, outputType, outputId);
+
+    const type = REVIEW_OUTPUT_TYPES[outputType];
+    const removed = await prisma.reviewAssignment.deleteMany({ where: { outputType: type, outputId, reviewerId } });
+    if (removed.count === 0) {
+      throw new Error('Reviewer is not assigned to this output');
+    }
+
+    await prisma.reviewActivity.create({
+      data: {
+        organizationId,
+        outputType: type,
+        outputId,
+        actorId,
+        action: 'REVIEWER_UNASSIGNED',
+        metadata: { reviewerId },
+      },
+    });
+  }
+
+  /**
+   * Add a comment, or a reply when parentId is given (replies inherit the thread's anchor)
+   */
+  async addComment(
+    organizationId: string,
+    outputType: ReviewableOutputType,
+    outputId: string,
+    authorId: string,
+    params: { body: string; parentId?: string; anchor?: ReviewAnchor },
+  ) {
+    await this.getOutput(organizationId, outputType, outputId);
+    const type = REVIEW_OUTPUT_TYPES[outputType];
+
+    if (params.parentId) {
+      const parent = await prisma.reviewComment.findFirst({
+        where: { id: params.parentId, outputType: type, outputId, parentId: null },
+      });
+      if (!parent) {
+        throw new Error('Comment not found');
+      }
+    }
+
+    if (params.anchor?.type === 'QUIZ_QUESTION') {
+      const question = await prisma.quizQuestion.findFirst({
+        where: { id: params.anchor.questionId, quizOutputId: outputId },
+      });
+      if (!question) {
+        throw new Error('Quiz question not found');
+      }
+    }
+
+    const anchor = params.parentId ? undefined : params.anchor;
+    const comment = await prisma.reviewComment.create({
+      data: {
+        organizationId,
+        outputType: type,
+        outputId,
+        authorId,
+        body: params.body,
+        parentId: params.parentId,
+        anchorType: anchor?.type,
+        anchorLine: anchor?.type === 'SCRIPT_LINE' ? anchor.line : undefined,
+        anchorTimestamp: anchor?.type === 'VIDEO_TIMESTAMP' ? anchor.timestamp : undefined,
+        anchorQuestionId: anchor?.type === 'QUIZ_QUESTION' ? anchor.questionId : undefined,
+      },
+      include: { author: { select: profileSelect } },
+    });
+
+    await this.recordActivity(organizationId, type, outputId, authorId, 'COMMENTED', { commentId: comment.id });
+
+    return comment;
+  }
+
+  /**
+   * Mark a comment thread resolved (or reopen it)
+   */
+  async setCommentResolved(
+    organizationId: string,
+    outputType: ReviewableOutputType,
+    outputId: string,
+    commentId: string,
+    actorId: string,
+    resolved: boolean,
+  ) {
+    const type = REVIEW_OUTPUT_TYPES[outputType];
+    const result = await prisma.reviewComment.updateMany({
+      where: { id: commentId, organizationId, outputType: type, outputId, parentId: null },
+      data: resolved ? { resolvedAt: new Date(), resolvedBy: actorId } : { resolvedAt: null, resolvedBy: null },
+    });
+
+    if (result.count === 0) {
+      throw new Error('Comment not found');
+    }
+
+    if (resolved) {
+      await this.recordActivity(organizationId, type, outputId, actorId, 'COMMENT_RESOLVED', { commentId });
+    }
+  }
+
+  /**
+   * Assigned reviewers and org admins/owners can approve, request changes and publish
+   */
+  private async canReview(
+    organizationId: string,
+    outputType: ReviewableOutputType,
+    outputId: string,
+    profileId: string,
+  ): Promise<boolean> {
+    const assignment = await prisma.reviewAssignment.findUnique({
+      where: {
+        outputType_outputId_reviewerId: { outputType: REVIEW_OUTPUT_TYPES[outputType], outputId, reviewerId: profileId },
+      },
+    });
+    return !!assignment || (await isOrgAdmin(profileId, organizationId));
+  }
+
+  private async recordActivity(
+    organizationId: string,
+    outputType: ReviewOutputType,
+    outputId: string,
+    actorId: string,
+    action: 'COMMENTED' | 'COMMENT_RESOLVED',
+    metadata: Prisma.InputJsonObject,
+  ) {
+    await prisma.reviewActivity.create({
+      data: { organizationId, outputType, outputId, actorId, action, metadata },
+    });
+  }
+
+  /**
+   * Load an output's review status, scoped to the organization
+   */
+  private async getOutput(organizationId: string, outputType: ReviewableOutputType, outputId: string) {
+    const where = { id: outputId, submission: { article: { organizationId } } };
+    const select = { id: true, reviewStatus: true } as const;
+
+    let output: { id: string; reviewStatus: ReviewStatus } | null;
+    switch (outputType) {
+      case 'audio':
+        output = await prisma.audioOutput.findFirst({ where, select });
+        break;
+      case 'podcast':
+        output = await prisma.podcastOutput.findFirst({ where, select });
+        break;
+      case 'video':
+        output = await prisma.videoOutput.findFirst({ where, select });
+        break;
+      case 'quiz':
+        output = await prisma.quizOutput.findFirst({ where, select });
+        break;
+      case 'interactive-podcast':
+        output = await prisma.interactivePodcastOutput.findFirst({ where, select });
+        break;
+    }
+
+    if (!output) {
+      throw new Error('Output not found');
+    }
+
+    return output;
+  }
+
+  private updateOutput(
+    tx: Prisma.TransactionClient,
+    outputType: ReviewableOutputType,
+    where: { id: string; reviewStatus: ReviewStatus },
+    data: Prisma.AudioOutputUpdateManyMutationInput,
+  ) {
+    switch (outputType) {
+      case 'audio':
+        return tx.audioOutput.updateMany({ where, data });
+      case 'podcast':
+        return tx.podcastOutput.updateMany({ where, data });
+      case 'video':
+        return tx.videoOutput.updateMany({ where, data });
+      case 'quiz':
+        return tx.quizOutput.updateMany({ where, data });
+      case 'interactive-podcast':
+        return tx.interactivePodcastOutput.updateMany({ where, data });
+    }
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -0,0 +1,245 @@
+import { prisma } from '../../config/database';
+import type { Prisma, RevisionSource, ScriptRevision } from '@prisma/client';
+import { REVIEW_OUTPUT_TYPES, type ReviewableOutputType } from './review.service';
+
+// URL segment used by the revision routes - only outputs with an editable script
+export type RevisionOutputType = Extract<ReviewableOutputType, 'video' | 'podcast' | 'interactive-podcast'>;
+
+export const REVISION_OUTPUT_TYPES: RevisionOutputType[] = ['video', 'podcast', 'interactive-podcast'];
+
+export interface ScriptSnapshot {
+  title?: string | null;
+  content: string;
+  segments?: Prisma.InputJsonValue | null;
+}
+
+export interface RecordRevisionInput {
+  outputType: RevisionOutputType;
+  outputId: string;
+  snapshot: ScriptSnapshot;
+  source: RevisionSource;
+  authorId?: string | null;
+  note?: string | null;
+  restoredFromId?: string | null;
+  // Content before the change - kept as version 1 for outputs generated before revisions existed
+  previous?: ScriptSnapshot | null;
+}
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Plain script text of an interactive podcast.
+ * Segments hold `{ script }` until media is generated, then an array of timed segments.
+ */
+export function getInteractivePodcastScript(segments: unknown): string {
+  if (Array.isArray(segments)) {
+    return segments.map((seg: any) => seg.text || '').join(' ');
+  }
+  if (segments && typeof segments === 'object' && typeof (segments as any).script === 'string') {
+    return (segments as any).script;
+  }
+  return '';
+}
+
+const authorSelect = { id: true, fullName: true, email: true } as const;
+
+/**
+ * Script Revision Service - Version history for scripts and transcripts
+ *
+ * Responsibilities:
+ * - Append a revision for every manual edit, AI generation, AI improvement and restore
+ * - List the history of an output
+ * - Restore an earlier revision (as a new revision, history is never rewritten)
+ */
+export class ScriptRevisionService {
+  /**
+   * Append a revision. Pass a transaction client to write it atomically with the output update.
+   * Saves that leave the content unchanged are not recorded.
+   */
+  async record(input: RecordRevisionInput, db: Db = prisma): Promise<ScriptRevision | null> {
+    if (db === prisma) {
+      return prisma.$transaction((tx) => this.record(input, tx));
+    }
+
+    const type = REVIEW_OUTPUT_TYPES[input.outputType];
+
+    // Concurrent saves of the same output would read the same latest version and collide on
+    // the unique version - the lock (released at commit) makes them take turns
+    await db.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`script-revision:${type}:${input.outputId}`}))`;
+
+    const organizationId = await this.getOrganizationId(db, input.outputType, input.outputId);
+
+    const latest = await db.scriptRevision.findFirst({
+      where: { outputType: type, outputId: input.outputId },
+      orderBy: { version: 'desc' },
+      select: { version: true, content: true, title: true },
+    });
+
+    if (latest && latest.content === input.snapshot.content && (input.snapshot.title ?? latest.title) === latest.title) {
+      return null;
+    }
+
+    let version = (latest?.version ?? 0) + 1;
+
+    if (!latest && input.previous?.content && input.previous.content !== input.snapshot.content) {
+      await db.scriptRevision.create({
+        data: {
+          organizationId,
+          outputType: type,
+          outputId: input.outputId,
+          version,
+          title: input.previous.title ?? null,
+          content: input.previous.content,
+          segments: input.previous.segments ?? undefined,
+          source: 'AI_REGENERATE',
+          note: 'Generated before revision history was enabled',
+        },
+      });
+      version++;
+    }
+
+    return db.scriptRevision.create({
+      data: {
+        organizationId,
+        outputType: type,
+        outputId: input.outputId,
+        version,
+        title: input.snapshot.title ?? null,
+        content: input.snapshot.content,
+        segments: input.snapshot.segments ?? undefined,
+        source: input.source,
+        authorId: input.authorId ?? null,
+        note: input.note ?? null,
+        restoredFromId: input.restoredFromId ?? null,
+      },
+    });
+  }
+
+  /**
+   * All revisions of an output, newest first
+   */
+  async list(organizationId: string, outputType: RevisionOutputType, outputId: string) {
+    await this.getOutput(organizationId, outputType, outputId);
+
+    return prisma.scriptRevision.findMany({
+      where: { organizationId, outputType: REVIEW_OUTPUT_TYPES[outputType], outputId },
+      include: { author: { select: authorSelect } },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Write an earlier revision back to the output and record it as a RESTORE revision.
+   * Media is not regenerated here - the route re-queues it when asked to.
+   */
+  async restore(
+    organizationId: string,
+    outputType: RevisionOutputType,
+    outputId: string,
+    revisionId: string,
+    userId: string,
+  ) {
+    const output = await this.getOutput(organizationId, outputType, outputId);
+
+    if (output.status === 'PROCESSING' || output.status === 'PENDING') {
+      throw new Error('Cannot restore while media is being generated');
+    }
+
+    const revision = await prisma.scriptRevision.findFirst({
+      where: { id: revisionId, organizationId, outputType: REVIEW_OUTPUT_TYPES[outputType], outputId },
+    });
+
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    const segments = (revision.segments ?? undefined) as Prisma.InputJsonValue | undefined;
+
+    return prisma.$transaction(async (tx) => {
+      switch (outputType) {
+        case 'video':
+          await tx.videoOutput.update({
+            where: { id: outputId },
+            data: { script: revision.content, ...(revision.title ? { title: revision.title } : {}) },
+          });
+          break;
+        case 'podcast':
+          await tx.podcastOutput.update({
+            where: { id: outputId },
+            data: { transcript: revision.content },
+          });
+          break;
+        case 'interactive-podcast':
+          await tx.interactivePodcastOutput.update({
+            where: { id: outputId },
+            data: { segments: segments ?? { script: revision.content } },
+          });
+          break;
+      }
+
+      const restored = await this.record(
+        {
+          outputType,
+          outputId,
+          snapshot: { title: revision.title, content: revision.content, segments },
+          source: 'RESTORE',
+          authorId: userId,
+          restoredFromId: revision.id,
+        },
+        tx,
+      );
+
+      return { submissionId: output.submissionId, revision: restored };
+    });
+  }
+
+  private async getOutput(organizationId: string, outputType: RevisionOutputType, outputId: string) {
+    const where = { id: outputId, submission: { article: { organizationId } } };
+    const select = { id: true, submissionId: true, status: true } as const;
+
+    let output: { id: string; submissionId: string; status: string } | null;
+    switch (outputType) {
+      case 'video':
+        output = await prisma.videoOutput.findFirst({ where, select });
+        break;
+      case 'podcast':
+        output = await prisma.podcastOutput.findFirst({ where, select });
+        break;
+      case 'interactive-podcast':
+        output = await prisma.interactivePodcastOutput.findFirst({ where, select });
+        break;
+    }
+
+    if (!output) {
+      throw new Error('Output not found');
+    }
+
+    return output;
+  }
+
+  private async getOrganizationId(db: Db, outputType: RevisionOutputType, outputId: string) {
+    const where = { id: outputId };
+    const select = { submission: { select: { article: { select: { organizationId: true } } } } } as const;
+
+    let output: { submission: { article: { organizationId: string } } } | null;
+    switch (outputType) {
+      case 'video':
+        output = await db.videoOutput.findUnique({ where, select });
+        break;
+      case 'podcast':
+        output = await db.podcastOutput.findUnique({ where, select });
+        break;
+      case 'interactive-podcast':
+        output = await db.interactivePodcastOutput.findUnique({ where, select });
+        break;
+    }
+
+    if (!output) {
+      throw new Error('Output not found');
+    }
+
+    return output.submission.article.organizationId;
+  }
+}
+
+export const scriptRevisionService = new ScriptRevisionService();
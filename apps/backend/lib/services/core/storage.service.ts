@@ -1,4 +1,4 @@
-import { PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { s3Client, STORAGE_BUCKET } from '../../config/storage';
 import { config } from '../../config/constants';
@@ -328,8 +328,8 @@ export class StorageService {
    * Delete a file from storage
    */
   async deleteFile(key: string): Promise<void> {
-    // Implementation can be added when needed
-    logger.info('Delete file requested', { key });
+    await s3Client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    logger.info('Storage file deleted', { key });
   }
 
 }
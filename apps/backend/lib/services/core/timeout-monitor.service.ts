@@ -1,17 +1,21 @@
 import { prisma } from '../../config/database';
 import { submissionService } from '../submission.service';
+import { queueService } from './queue.service';
 import { logger } from '@repo/logging';
 
 /**
  * Timeout Monitor Service
  *
- * Monitors media outputs stuck in PROCESSING state and marks them as FAILED
- * after a timeout threshold (default: 30 minutes).
+ * Monitors media outputs stuck in PROCESSING state (and article import items stuck
+ * in EXTRACTING) and marks them as FAILED after a timeout threshold (default: 30 minutes).
  *
  * This handles critical scenarios where:
  * 1. Webhooks never arrive (HeyGen, Submagic)
  * 2. Worker crashes before calling updateSubmissionStatus()
  * 3. Jobs fail without proper error handling
+ *
+ * Videos whose Submagic callback never arrives get their captions burned in locally
+ * before they are failed.
  */
 export class TimeoutMonitorService {
   // Timeout threshold: 30 minutes in milliseconds
@@ -54,6 +58,10 @@ export class TimeoutMonitorService {
       const stuckInteractivePodcast = await this.checkInteractivePodcastOutputs(thresholdDate, affectedSubmissionIds);
       totalStuckOutputs += stuckInteractivePodcast;
 
+      // 6. Check article import items (no submission to update - the batch shows them as failed)
+      const stuckImportItems = await this.checkArticleImportItems(thresholdDate);
+      totalStuckOutputs += stuckImportItems;
+
       // Update all affected submission statuses
       if (affectedSubmissionIds.size > 0) {
         logger.info('Updating affected submissions', {
@@ -169,10 +177,34 @@ export class TimeoutMonitorService {
         const hasHeygenId = !!output.heygenVideoId;
         const hasSubmagicId = !!output.submagicProjectId;
 
+        // Submagic took the video but never called back - burn the captions in locally instead.
+        // Clearing the project ID makes a late callback a no-op and fails the video if this times out too
+        if (hasSubmagicId && output.sourceVideoUrl) {
+          logger.warn('Submagic never called back, captioning stuck VideoOutput locally', {
+            outputId: output.id,
+            submissionId: output.submissionId,
+            minutesStuck,
+            submagicProjectId: output.submagicProjectId,
+          });
+
+          await prisma.videoOutput.update({
+            where: { id: output.id },
+            data: { submagicProjectId: null },
+          });
+          await queueService.addVideoOutputPostProcessingJob({
+            videoOutputId: output.id,
+            editedVideoUrl: output.sourceVideoUrl,
+            burnCaptions: true,
+          });
+          continue;
+        }
+
         // Provide specific error message based on state
         let errorMessage = `Timeout: Video generation exceeded 30 minutes (stuck for ${minutesStuck} minutes). `;
         if (!hasHeygenId) {
           errorMessage += 'HeyGen video creation may have failed.';
+        } else if (!hasSubmagicId && output.sourceVideoUrl) {
+          errorMessage += 'Captioning did not finish.';
         } else if (!hasSubmagicId) {
           errorMessage += 'HeyGen webhook may have never arrived.';
         } else {
@@ -345,6 +377,36 @@ export class TimeoutMonitorService {
 
     return stuckOutputs.length;
   }
+
+  /**
+   * Check ArticleImportItems claimed for extraction by a worker that never finished.
+   * FAILED items can be retried from the import page.
+   */
+  private async checkArticleImportItems(threshold: Date): Promise<number> {
+    const stuck = { status: 'EXTRACTING' as const, updatedAt: { lt: threshold } };
+    const stuckItems = await prisma.articleImportItem.findMany({
+      where: stuck,
+      select: { id: true },
+    });
+
+    if (stuckItems.length > 0) {
+      logger.warn('Found stuck ArticleImportItems', {
+        count: stuckItems.length,
+        itemIds: stuckItems.map((item) => item.id),
+      });
+
+      // The status check is repeated so an item that finished meanwhile is left alone
+      await prisma.articleImportItem.updateMany({
+        where: { id: { in: stuckItems.map((item) => item.id) }, ...stuck },
+        data: {
+          status: 'FAILED',
+          error: 'Timeout: Extraction exceeded 30 minutes. The job may have crashed - retry the import to try again.',
+        },
+      });
+    }
+
+    return stuckItems.length;
+  }
 }
 
 // Singleton instance
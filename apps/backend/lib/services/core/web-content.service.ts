@@ -0,0 +1,351 @@
+import { lookup } from 'dns/promises';
+import { request as httpRequest, type IncomingHttpHeaders } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import {
+  ARTICLE_DOCUMENT_VERSION,
+  documentToText,
+  inlineToText,
+  legacyContentToDocument,
+  type ArticleBlock,
+  type InlineContent,
+} from '@repo/article-content';
+import { logger } from '@repo/logging';
+import { contentRegenerationService } from '../external/content-regeneration.service';
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024; // 5MB
+const MAX_REDIRECTS = 5;
+
+// Less than this after readability extraction means the page isn't an article
+const MIN_ARTICLE_TEXT_LENGTH = 200;
+
+// Elements that never hold article text
+const BOILERPLATE_ELEMENTS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form',
+  'nav', 'header', 'footer', 'aside', 'button', 'select',
+];
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref)$/i;
+
+/**
+ * A page or feed that can't be imported - the message is shown to the user
+ */
+export class WebContentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebContentError';
+  }
+}
+
+export interface FetchedPage {
+  url: string; // After redirects
+  contentType: string;
+  body: string;
+}
+
+export interface ReadableContent {
+  title: string | null;
+  text: string; // Light markdown (headings, lists, quotes) like Article.content
+}
+
+// Loopback, private, link-local, shared, reserved and multicast ranges.
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are matched against the IPv4 rules by BlockList itself
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b:1::', 48], ['100::', 64], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach the IPv4 address in their last 32 bits
+const EMBEDDED_IPV4 = new BlockList();
+EMBEDDED_IPV4.addSubnet('::', 96, 'ipv6');
+EMBEDDED_IPV4.addSubnet('64:ff9b::', 96, 'ipv6');
+
+/**
+ * The 8 groups of an IPv6 address, expanding "::" and a trailing dotted IPv4 part
+ */
+function ipv6Groups(address: string): number[] {
+  let text = address.split('%')[0];
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, -dotted[0].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const parse = (part?: string) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+  const left = parse(head);
+  const right = parse(tail);
+  return [...left, ...Array(Math.max(8 - left.length - right.length, 0)).fill(0), ...right];
+}
+
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return PRIVATE_ADDRESSES.check(address, 'ipv4');
+  if (family !== 6) return true;
+
+  if (PRIVATE_ADDRESSES.check(address, 'ipv6')) return true;
+  if (EMBEDDED_IPV4.check(address, 'ipv6')) {
+    const groups = ipv6Groups(address);
+    const ipv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+    return PRIVATE_ADDRESSES.check(ipv4, 'ipv4');
+  }
+  return false;
+}
+
+/**
+ * DNS lookup for outgoing requests: every address the host resolves to must be public, and the
+ * connection uses the addresses checked here - the name is never resolved again (DNS rebinding)
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true, family: options.family }).then(
+    (addresses) => {
+      if (addresses.length === 0) {
+        callback(new WebContentError(`Could not resolve ${hostname}`), '', 0);
+      } else if (addresses.some(({ address }) => isPrivateAddress(address))) {
+        callback(new WebContentError('URLs on private networks cannot be imported'), '', 0);
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    () => callback(new WebContentError(`Could not resolve ${hostname}`), '', 0)
+  );
+};
+
+interface RawResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ');
+}
+
+function linkDensity(content: InlineContent): number {
+  const total = inlineToText(content).length;
+  const linked = content.filter((node) => node.href).reduce((sum, node) => sum + node.text.length, 0);
+  return total > 0 ? linked / total : 0;
+}
+
+/**
+ * Navigation-like blocks: lists and short paragraphs that are mostly links
+ */
+function isLinkBoilerplate(block: ArticleBlock): boolean {
+  if (block.type === 'list') return block.items.every((item) => linkDensity(item) > 0.5);
+  if (block.type === 'paragraph') return linkDensity(block.content) > 0.5 && inlineToText(block.content).length < 200;
+  return false;
+}
+
+/**
+ * Web Content Service - Fetch web pages and feeds for article import
+ *
+ * Responsibilities:
+ * - Fetch user-supplied URLs without reaching internal hosts (checked on every redirect and pinned to the checked address)
+ * - Readability extraction: the main text of a page without navigation, ads or footers
+ * - Article import: extraction followed by the same AI cleaning as uploaded files
+ * - Normalize article URLs so the same page is only imported once
+ */
+export class WebContentService {
+  /**
+   * Title and cleaned content of the article at a URL
+   */
+  async extractArticle(url: string): Promise<{ title: string; content: string }> {
+    const page = await this.fetchText(url);
+
+    let rawContent: string;
+    if (/html|xml/i.test(page.contentType)) {
+      const { title, text } = this.extractReadableContent(page.body);
+      rawContent = title ? `${title}\n\n${text}` : text;
+    } else if (page.contentType.startsWith('text/plain')) {
+      rawContent = page.body.trim();
+    } else {
+      throw new WebContentError('The URL does not point to a web page');
+    }
+
+    if (rawContent.length < MIN_ARTICLE_TEXT_LENGTH) {
+      throw new WebContentError('Could not find article text on the page');
+    }
+
+    logger.info('Using OpenAI to clean imported page and extract title', {
+      url: page.url,
+      contentLength: rawContent.length,
+    });
+    const { title, cleanedContent } = await contentRegenerationService.cleanArticleContent({ rawContent });
+
+    return { title, content: cleanedContent };
+  }
+
+  /**
+   * Fetch a public http(s) URL as text
+   */
+  async fetchText(url: string, accept: string = 'text/html,application/xhtml+xml'): Promise<FetchedPage> {
+    let currentUrl = url;
+
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      await this.assertPublicUrl(currentUrl);
+
+      let response: RawResponse;
+      try {
+        response = await this.request(currentUrl, accept);
+      } catch (error) {
+        if (error instanceof WebContentError) throw error;
+        logger.warn('Web content fetch failed', { url: currentUrl, error: error instanceof Error ? error.message : 'Unknown error' });
+        throw new WebContentError(`Could not reach ${new URL(currentUrl).hostname}`);
+      }
+
+      const location = response.headers.location;
+      if (response.status >= 300 && response.status < 400 && location) {
+        currentUrl = new URL(location, currentUrl).toString();
+        continue;
+      }
+
+      if (response.status < 200 || response.status >= 300) {
+        throw new WebContentError(`The page returned HTTP ${response.status}`);
+      }
+
+      return {
+        url: currentUrl,
+        contentType: response.headers['content-type'] || '',
+        body: response.body.toString('utf-8'),
+      };
+    }
+
+    throw new WebContentError('Too many redirects');
+  }
+
+  /**
+   * Main text and title of an HTML page
+   *
+   * Prefers the page's <article> (or <main>) element, drops boilerplate elements and
+   * link lists, and keeps headings, paragraphs, lists and quotes as light markdown.
+   */
+  extractReadableContent(html: string): ReadableContent {
+    let body = html.replace(/<!--[\s\S]*?-->/g, '');
+
+    const title = this.extractTitle(body);
+
+    for (const tag of BOILERPLATE_ELEMENTS) {
+      body = body.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), '');
+    }
+
+    // The largest <article> wins (listing pages have many small ones), then <main>, then the body
+    const articles = body.match(/<article\b[\s\S]*?<\/article>/gi) ?? [];
+    const main = body.match(/<main\b[\s\S]*?<\/main>/i)?.[0];
+    const container = articles.sort((a, b) => b.length - a.length)[0] ?? main ?? body;
+
+    const blocks = legacyContentToDocument(container).blocks.filter((block) => !isLinkBoilerplate(block));
+    const text = documentToText({ version: ARTICLE_DOCUMENT_VERSION, blocks });
+
+    return { title, text };
+  }
+
+  /**
+   * Canonical form of an article URL for de-duplication: no fragment, no tracking parameters
+   */
+  normalizeUrl(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+    }
+    return parsed.toString();
+  }
+
+  /**
+   * One GET without following redirects. Host names go through publicLookup, and the body
+   * is read up to MAX_RESPONSE_BYTES.
+   */
+  private request(url: string, accept: string): Promise<RawResponse> {
+    const send = new URL(url).protocol === 'https:' ? httpsRequest : httpRequest;
+
+    return new Promise((resolve, reject) => {
+      const req = send(
+        url,
+        {
+          headers: { Accept: accept, 'User-Agent': 'Mozilla/5.0 (compatible; ArticleImporter/1.0)' },
+          lookup: publicLookup,
+          signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        },
+        (res) => {
+          const status = res.statusCode ?? 0;
+          if (status >= 300 && status < 400) {
+            res.resume();
+            resolve({ status, headers: res.headers, body: Buffer.alloc(0) });
+            return;
+          }
+
+          if (Number(res.headers['content-length']) > MAX_RESPONSE_BYTES) {
+            req.destroy(new WebContentError('The page is too large to import'));
+            return;
+          }
+
+          const chunks: Buffer[] = [];
+          let size = 0;
+          res.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_RESPONSE_BYTES) {
+              req.destroy(new WebContentError('The page is too large to import'));
+              return;
+            }
+            chunks.push(chunk);
+          });
+          res.on('end', () => resolve({ status, headers: res.headers, body: Buffer.concat(chunks) }));
+          res.on('error', reject);
+        }
+      );
+
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  private extractTitle(html: string): string | null {
+    const ogTitle =
+      html.match(/<meta\b[^>]*property=["']og:title["'][^>]*content=["']([^"']+)["']/i)?.[1] ??
+      html.match(/<meta\b[^>]*content=["']([^"']+)["'][^>]*property=["']og:title["']/i)?.[1];
+    const title = ogTitle ?? html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    return title ? decodeEntities(title).replace(/\s+/g, ' ').trim() || null : null;
+  }
+
+  /**
+   * Only http(s) URLs, and no literal private addresses
+   */
+  private async assertPublicUrl(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new WebContentError('Invalid URL');
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new WebContentError('Only http and https URLs can be imported');
+    }
+
+    // Names are checked when the request resolves them (publicLookup); literal addresses never reach a lookup
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || (isIP(hostname) && isPrivateAddress(hostname))) {
+      throw new WebContentError('URLs on private networks cannot be imported');
+    }
+  }
+}
+
+export const webContentService = new WebContentService();
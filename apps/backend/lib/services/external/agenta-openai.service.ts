@@ -37,6 +37,7 @@ export class AgentaOpenAIService {
    * @param params.schema - Zod schema for response validation
    * @param params.schemaName - Name for the schema (used by OpenAI)
    * @param params.temperature - Optional temperature override (defaults to Agenta/OpenAI defaults)
+   * @param params.systemPromptSuffix - Optional per-organization instructions appended to the system prompt (e.g. the glossary)
    */
   async generateStructured<T extends z.ZodType<any, any>>(params: {
     promptSlug: string;
@@ -44,6 +45,7 @@ export class AgentaOpenAIService {
     schema: T;
     schemaName: string;
     temperature?: number;
+    systemPromptSuffix?: string;
   }): Promise<z.infer<T>> {
     try {
       // Fetch prompt configuration from Agenta
@@ -56,10 +58,10 @@ export class AgentaOpenAIService {
       );
 
       // Interpolate variables into system prompt (in case it has variables too)
-      const interpolatedSystemPrompt = agentaClient.interpolate(
-        promptConfig.systemPrompt,
-        params.variables
-      );
+      const interpolatedSystemPrompt = [
+        agentaClient.interpolate(promptConfig.systemPrompt, params.variables),
+        params.systemPromptSuffix,
+      ].filter(Boolean).join('\n\n');
 
       logger.debug('Executing Agenta prompt (structured)', {
         promptSlug: params.promptSlug,
@@ -101,12 +103,14 @@ export class AgentaOpenAIService {
    * @param params.variables - Key-value pairs to interpolate into the prompt
    * @param params.temperature - Optional temperature override
    * @param params.maxTokens - Optional max tokens limit
+   * @param params.systemPromptSuffix - Optional per-organization instructions appended to the system prompt
    */
   async generateText(params: {
     promptSlug: string;
     variables: Record<string, string>;
     temperature?: number;
     maxTokens?: number;
+    systemPromptSuffix?: string;
   }): Promise<string> {
     try {
       // Fetch prompt configuration from Agenta
@@ -119,10 +123,10 @@ export class AgentaOpenAIService {
       );
 
       // Interpolate variables into system prompt (in case it has variables too)
-      const interpolatedSystemPrompt = agentaClient.interpolate(
-        promptConfig.systemPrompt,
-        params.variables
-      );
+      const interpolatedSystemPrompt = [
+        agentaClient.interpolate(promptConfig.systemPrompt, params.variables),
+        params.systemPromptSuffix,
+      ].filter(Boolean).join('\n\n');
 
       logger.debug('Executing Agenta prompt (text)', {
         promptSlug: params.promptSlug,
@@ -7,6 +7,7 @@ import {
   } from '@aws-sdk/client-transcribe';
   import axios from 'axios';
   import { logger } from '@repo/logging';
+  import { languageService } from '../core/language.service';
   
   /**
    * AWS Transcribe Service - Generate word-level transcripts from videos
@@ -41,7 +42,7 @@ import {
      * Transcribe a video file with word-level timestamps
      *
      * @param s3VideoUrl - Full S3 URL to video file
-     * @param language - Language code (ENGLISH, MARATHI, HINDI, BENGALI)
+     * @param language - Language.code (e.g. ENGLISH, HINDI)
      * @returns Transcript with word timings
      */
     async transcribeVideo(
@@ -63,7 +64,7 @@ import {
         });
 
         // Map our language enum to AWS language codes
-        const languageCode = this.mapLanguageToAWSCode(language);
+        const languageCode = await this.mapLanguageToAWSCode(language);
   
         // Generate unique job name
         const jobName = `video-transcribe-${Date.now()}-${Math.random().toString(36).substring(7)}`;
@@ -219,18 +220,10 @@ import {
     }
   
     /**
-     * Map our language enum to AWS Transcribe language codes
+     * Map a Language.code to its AWS Transcribe language code (languages.transcribeLocale)
      */
-    private mapLanguageToAWSCode(language: string): LanguageCode {
-      const languageMap: Record<string, LanguageCode> = {
-        ENGLISH: 'en-US' as LanguageCode,
-        MARATHI: 'hi-IN' as LanguageCode, // AWS doesn't have Marathi, use Hindi
-        HINDI: 'hi-IN' as LanguageCode,
-        BENGALI: 'bn-IN' as LanguageCode,
-        GUJARATI: 'gu-IN' as LanguageCode,
-      };
-  
-      return languageMap[language] || ('en-US' as LanguageCode);
+    private async mapLanguageToAWSCode(language: string): Promise<LanguageCode> {
+      return (await languageService.getTranscribeLocale(language)) as LanguageCode;
     }
   
     /**
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { agentaOpenAIService } from './agenta-openai.service';
+import { languageService } from '../core/language.service';
+import { glossaryService } from '../core/glossary.service';
 
 /**
  * Content Regeneration Service - Domain-specific content generation
@@ -49,16 +51,13 @@ export class ContentRegenerationService {
     articleTitle: string;
     articleContent: string;
     language?: string;
+    organizationId?: string; // Applies the organization's glossary
   }): Promise<string> {
     const language = params.language || 'ENGLISH';
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
+    const glossary = params.organizationId
+      ? await glossaryService.getPromptInstructions(params.organizationId, language, params.articleContent)
+      : undefined;
 
     return await agentaOpenAIService.generateText({
       promptSlug: 'regenerate_video_script_prompt',
@@ -70,6 +69,7 @@ export class ContentRegenerationService {
         languageName,
       },
       temperature: 0.7,
+      systemPromptSuffix: glossary,
     });
   }
 
@@ -83,16 +83,13 @@ export class ContentRegenerationService {
     articleTitle: string;
     articleContent: string;
     language?: string;
+    organizationId?: string; // Applies the organization's glossary
   }): Promise<string> {
     const language = params.language || 'ENGLISH';
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
+    const glossary = params.organizationId
+      ? await glossaryService.getPromptInstructions(params.organizationId, language, params.articleContent)
+      : undefined;
 
     // Parse the original transcript to show it in a readable format
     let readableTranscript = '';
@@ -115,6 +112,7 @@ export class ContentRegenerationService {
         languageName,
       },
       temperature: 0.7,
+      systemPromptSuffix: glossary,
     });
 
     // Extract JSON from the response (in case it's wrapped in markdown code blocks)
@@ -135,16 +133,13 @@ export class ContentRegenerationService {
     articleTitle: string;
     articleContent: string;
     language?: string;
+    organizationId?: string; // Applies the organization's glossary
   }): Promise<string> {
     const language = params.language || 'ENGLISH';
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
+    const glossary = params.organizationId
+      ? await glossaryService.getPromptInstructions(params.organizationId, language, params.articleContent)
+      : undefined;
 
     return await agentaOpenAIService.generateText({
       promptSlug: 'regenerate_interactive_podcast_script_prompt',
@@ -156,6 +151,7 @@ export class ContentRegenerationService {
         languageName,
       },
       temperature: 0.7,
+      systemPromptSuffix: glossary,
     });
   }
 }
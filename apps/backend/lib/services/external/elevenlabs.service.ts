@@ -1,6 +1,8 @@
 import axios from 'axios';
 import { logger } from '@repo/logging';
 import { config } from '../../config/constants';
+import { languageService } from '../core/language.service';
+import { pronunciationService } from '../core/pronunciation.service';
 
 /**
  * ElevenLabs Service - Reusable wrapper for ElevenLabs Text-to-Speech API
@@ -8,6 +10,7 @@ import { config } from '../../config/constants';
  * Features:
  * - Convert text to speech audio
  * - Support for different voices
+ * - Applies the organization's pronunciation lexicon when given an organizationId
  * - Returns audio buffer for storage
  */
 export class ElevenLabsService {
@@ -28,7 +31,9 @@ export class ElevenLabsService {
    * @example
    * const audioBuffer = await elevenlabs.textToSpeech({
    *   text: "Hello, this is a test.",
-   *   voiceId: "optional-voice-id"
+   *   voiceId: "optional-voice-id",
+   *   organizationId, // Optional - rewrites terms from the org's pronunciation lexicon
+   *   language: "HINDI",
    * });
    */
   async textToSpeech(params: {
@@ -37,10 +42,15 @@ export class ElevenLabsService {
     model?: string;
     stability?: number;
     similarityBoost?: number;
+    organizationId?: string;
+    language?: string; // Language.code - selects language-specific lexicon entries
   }): Promise<Buffer> {
     try {
       const voiceId = params.voiceId || this.defaultVoiceId;
       const model = params.model || this.defaultModel;
+      const text = params.organizationId
+        ? await pronunciationService.applyLexicon(params.organizationId, params.language, params.text, model)
+        : params.text;
 
       // Log the API key being used (masked for security)
       const maskedApiKey = this.apiKey
@@ -51,13 +61,13 @@ export class ElevenLabsService {
         model,
         apiKeyUsed: maskedApiKey,
         apiKeyLength: this.apiKey?.length || 0,
-        textLength: params.text.length,
+        textLength: text.length,
       });
 
       const response = await axios.post(
         `${this.baseUrl}/text-to-speech/${voiceId}`,
         {
-          text: params.text,
+          text,
           model_id: model,
           voice_settings: {
             stability: params.stability ?? 0.5,
@@ -151,14 +161,28 @@ export class ElevenLabsService {
   }
 
   /**
-   * Get voice IDs for different speakers (for podcasts)
+   * The model textToSpeech uses when none is given
    */
-  getInterviewerVoiceId(): string {
-    return config.elevenlabs.interviewerVoiceId;
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+
+  /**
+   * Default voice IDs per speaker - the language's configured voice, else the env default
+   */
+  async getNarrationVoiceId(language?: string): Promise<string> {
+    const entry = language ? await languageService.getLanguage(language) : null;
+    return entry?.narrationVoiceId || this.defaultVoiceId;
+  }
+
+  async getInterviewerVoiceId(language?: string): Promise<string> {
+    const entry = language ? await languageService.getLanguage(language) : null;
+    return entry?.interviewerVoiceId || config.elevenlabs.interviewerVoiceId;
   }
 
-  getGuestVoiceId(): string {
-    return config.elevenlabs.guestVoiceId;
+  async getGuestVoiceId(language?: string): Promise<string> {
+    const entry = language ? await languageService.getLanguage(language) : null;
+    return entry?.guestVoiceId || config.elevenlabs.guestVoiceId;
   }
 }
 
@@ -2,6 +2,21 @@ import { Resend } from 'resend';
 import { config } from '../../config/constants';
 import { logger } from '@repo/logging';
 
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape user-controlled text before it is interpolated into an email's HTML
+ */
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
 /**
  * Email Service - Wrapper around Resend for sending emails
  */
@@ -90,6 +105,59 @@ class EmailService {
       // Don't throw - email failure shouldn't break the feedback submission
     }
   }
+
+  /**
+   * Tell an approver that content they approved expired and was unpublished
+   */
+  async sendContentExpiredNotification(params: {
+    to: string;
+    recipientName?: string | null;
+    items: Array<{ typeLabel: string; title: string; url: string; expiresAt: Date }>;
+  }): Promise<void> {
+    const { to, recipientName, items } = params;
+
+    const itemRows = items
+      .map(
+        (item) => `
+          <li style="margin: 0 0 8px 0;">
+            <strong>${escapeHtml(item.typeLabel)}:</strong> <a href="${escapeHtml(item.url)}">${escapeHtml(item.title)}</a>
+            <span style="color: #666;">(expired ${item.expiresAt.toUTCString()})</span>
+          </li>`
+      )
+      .join('');
+
+    const htmlContent = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1a1a1a;">Content unpublished</h2>
+
+        <p style="color: #444;">
+          ${recipientName ? `Hi ${escapeHtml(recipientName)}, the` : 'The'} following content you approved reached its expiry date
+          and is no longer shown to learners. Update it and publish it again when it is ready.
+        </p>
+
+        <ul style="background: #f5f5f5; padding: 16px 16px 16px 32px; border-radius: 8px;">
+          ${itemRows}
+        </ul>
+      </div>
+    `;
+
+    try {
+      const client = this.getClient();
+      await client.emails.send({
+        from: config.email.fromAddress,
+        to: [to],
+        subject: items.length === 1 ? `Unpublished: ${items[0].title}` : `${items.length} items were unpublished`,
+        html: htmlContent,
+      });
+
+      logger.info('[Email] Content expired notification sent', { items: items.length });
+    } catch (error) {
+      logger.error('[Email] Failed to send content expired notification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      // Don't throw - the content is already unpublished
+    }
+  }
 }
 
 export const emailService = new EmailService();
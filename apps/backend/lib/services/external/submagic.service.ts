@@ -1,6 +1,10 @@
 import axios from 'axios';
 import { config } from '../../config/constants';
 import { logger } from '@repo/logging';
+import { languageService } from '../core/language.service';
+
+// Platform caption theme, used when neither the caption style nor the organization sets one
+export const DEFAULT_SUBMAGIC_THEME_ID = '9a3c5f9f-a496-41d0-a104-b1e6dad84d89';
 
 /**
  * Submagic Service - AI Video Editing API
@@ -21,24 +25,19 @@ export class SubmagicService {
   }
 
   /**
-   * Map our language enum to Submagic language codes
-   * Submagic only supports English and Hindi, so Marathi and Bengali fallback to Hindi
+   * Map a Language.code to its Submagic caption language (languages.submagicCode)
+   * Languages Submagic doesn't support are configured with a close fallback, e.g. Hindi captions for Marathi
    */
-  private mapLanguageToSubmagic(language?: string): { code: string; note?: string } {
-    switch (language) {
-      case 'ENGLISH':
-        return { code: 'en' };
-      case 'HINDI':
-        return { code: 'hi' };
-      case 'MARATHI':
-        return { code: 'hi', note: 'Using Hindi captions (Submagic limitation)' };
-      case 'BENGALI':
-        return { code: 'hi', note: 'Using Hindi captions (Submagic limitation)' };
-      case 'GUJARATI':
-        return { code: 'hi', note: 'Using Hindi captions (Submagic limitation)' };
-      default:
-        return { code: 'en', note: 'Defaulting to English captions' };
+  private async mapLanguageToSubmagic(language?: string): Promise<{ code: string; note?: string }> {
+    const entry = language ? await languageService.getLanguage(language) : null;
+
+    if (!entry?.submagicCode) {
+      return { code: 'en', note: 'Defaulting to English captions' };
+    }
+    if (entry.submagicCode !== entry.isoCode) {
+      return { code: entry.submagicCode, note: `Using "${entry.submagicCode}" captions (Submagic limitation)` };
     }
+    return { code: entry.submagicCode };
   }
 
   /**
@@ -47,7 +46,7 @@ export class SubmagicService {
    * @param videoUrl - URL of the video to edit (e.g., HeyGen video URL)
    * @param webhookUrl - Webhook URL to receive completion notification
    * @param title - Optional title for the project
-   * @param language - Optional language (ENGLISH | HINDI | MARATHI | BENGALI)
+   * @param language - Optional Language.code (e.g. ENGLISH, HINDI)
    * @param options - Optional customization options for editing
    * @returns Project ID from Submagic
    *
@@ -59,6 +58,7 @@ export class SubmagicService {
    *   'HINDI',
    *   {
    *     userThemeId: '9a3c5f9f-a496-41d0-a104-b1e6dad84d89',
+   *     dictionary: ['SEBI', 'KYC'],
    *     enableCaptions: true,
    *     magicZooms: true,
    *     magicBrolls: true,
@@ -73,6 +73,7 @@ export class SubmagicService {
     language?: string,
     options?: {
       userThemeId?: string;
+      dictionary?: string[]; // Words Submagic should spell exactly as given
       enableCaptions?: boolean;
       magicZooms?: boolean;
       magicBrolls?: boolean;
@@ -81,7 +82,7 @@ export class SubmagicService {
   ): Promise<{ projectId: string }> {
     try {
       // Map language to Submagic language code
-      const { code: languageCode, note } = this.mapLanguageToSubmagic(language);
+      const { code: languageCode, note } = await this.mapLanguageToSubmagic(language);
 
       logger.info('Uploading video to Submagic for AI editing', {
         videoUrl,
@@ -92,7 +93,8 @@ export class SubmagicService {
       });
 
       // Apply default values or use provided options
-      const userThemeId = options?.userThemeId ?? '9a3c5f9f-a496-41d0-a104-b1e6dad84d89';
+      const userThemeId = options?.userThemeId ?? DEFAULT_SUBMAGIC_THEME_ID;
+      const dictionary = options?.dictionary ?? [];
       const enableCaptions = options?.enableCaptions ?? true;
       const magicZooms = options?.magicZooms ?? true;
       const magicBrolls = options?.magicBrolls ?? true;
@@ -100,6 +102,7 @@ export class SubmagicService {
 
       logger.info('Submagic configuration applied', {
         userThemeId,
+        dictionarySize: dictionary.length,
         enableCaptions,
         magicZooms,
         magicBrolls,
@@ -116,7 +119,7 @@ export class SubmagicService {
         magicZooms,
         magicBrolls,
         magicBrollsPercentage,
-        dictionary: ['Jio BlackRock', 'SEBI', 'wealth check-up', 'wealth check-ups', 'KYC'],
+        ...(dictionary.length > 0 && { dictionary }),
       };
 
       // Log full API request payload
@@ -1,9 +1,13 @@
 import { agentaOpenAIService } from '../external/agenta-openai.service';
 import { elevenlabsService } from '../external/elevenlabs.service';
 import { storageService } from '../core/storage.service';
+import { transcriptionService } from './transcription.service';
 import { aiTaggingService } from '../ai-tagging.service';
 import { prisma } from '../../config/database';
+import { Prisma } from '@prisma/client';
 import { logger } from '@repo/logging';
+import { languageService } from '../core/language.service';
+import { glossaryService } from '../core/glossary.service';
 
 /**
  * Audio Service - Generate article audio narration
@@ -12,7 +16,8 @@ import { logger } from '@repo/logging';
  * 1. Convert article to speakable script (OpenAI)
  * 2. Generate audio from script (ElevenLabs TTS)
  * 3. Upload audio to storage (S3/R2)
- * 4. Save audio URL and metadata to database
+ * 4. Transcribe the narration for word timings (AWS Transcribe) - powers the widget read-along
+ * 5. Save audio URL and metadata to database
  */
 export class AudioService {
   /**
@@ -52,11 +57,16 @@ export class AudioService {
       });
 
       // Step 1: Convert article to speakable script
-      const speakableScript = await this.generateSpeakableScript(article.title, article.content, languageToUse);
+      const glossary = await glossaryService.getPromptInstructions(orgId, languageToUse, article.content);
+      const speakableScript = await this.generateSpeakableScript(article.title, article.content, languageToUse, glossary);
 
       // Step 2: Generate audio using ElevenLabs
+      const voiceId = await elevenlabsService.getNarrationVoiceId(languageToUse);
       const audioBuffer = await elevenlabsService.textToSpeech({
         text: speakableScript,
+        voiceId,
+        organizationId: orgId,
+        language: languageToUse,
       });
 
       // Step 3: Upload audio to storage (returns both CloudFront and S3 URLs)
@@ -67,17 +77,24 @@ export class AudioService {
         orgId
       );
 
-      // Estimate duration (very rough estimate: ~150 words per minute, ~2 bytes per char)
-      const estimatedDuration = Math.ceil(speakableScript.split(' ').length / 150 * 60);
+      // Step 4: Word timings for the read-along. Transcribe needs the S3 URL (not CloudFront).
+      // The narration is still usable without them, so a failed transcription doesn't fail the audio.
+      const wordTimings = await this.getWordTimings(uploadResult.s3Url, languageToUse);
 
-      // Step 4: Save to database (use CloudFront URL for user delivery)
+      // Duration from the last spoken word, else a rough estimate (~150 words per minute)
+      const duration = wordTimings.length > 0
+        ? Math.ceil(wordTimings[wordTimings.length - 1].end_time)
+        : Math.ceil(speakableScript.split(' ').length / 150 * 60);
+
+      // Step 5: Save to database (use CloudFront URL for user delivery)
       await prisma.audioOutput.update({
         where: { id: outputId },
         data: {
           speakableScript,
           audioFileUrl: uploadResult.cloudfrontUrl,
-          voiceId: elevenlabsService['defaultVoiceId'], // Access default voice ID
-          duration: estimatedDuration,
+          voiceId,
+          duration,
+          wordTimings: wordTimings.length > 0 ? wordTimings : Prisma.DbNull,
           status: 'COMPLETED',
         },
       });
@@ -85,10 +102,11 @@ export class AudioService {
       logger.info('Audio generated successfully', {
         articleId,
         outputId,
-        duration: estimatedDuration
+        duration,
+        wordCount: wordTimings.length
       });
 
-      // Step 5: Auto-tag the audio output (only for English)
+      // Step 6: Auto-tag the audio output (only for English)
       await aiTaggingService.tagAudioOutput(outputId);
     } catch (error) {
       logger.error('Audio generation error', {
@@ -110,19 +128,28 @@ export class AudioService {
     }
   }
 
+  /**
+   * Word-level timings of the narration, empty when transcription fails
+   */
+  private async getWordTimings(audioS3Url: string, language: string) {
+    try {
+      const { wordTimings } = await transcriptionService.getAudioTranscript(audioS3Url, language);
+      return wordTimings;
+    } catch (error) {
+      logger.warn('Audio transcription failed, saving audio without word timings', {
+        language,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return [];
+    }
+  }
+
   /**
    * Convert article content to a speakable script using Agenta prompts
    * Removes markdown formatting, fixes headings, ensures natural flow
    */
-  private async generateSpeakableScript(title: string, content: string, language: string): Promise<string> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+  private async generateSpeakableScript(title: string, content: string, language: string, glossary?: string): Promise<string> {
+    const languageName = await languageService.getLanguageName(language);
 
     return await agentaOpenAIService.generateText({
       promptSlug: 'generate_speakable_script_prompt',
@@ -132,6 +159,7 @@ export class AudioService {
         languageName,
       },
       temperature: 0.3, // Lower temperature for more consistent output
+      systemPromptSuffix: glossary,
     });
   }
 }
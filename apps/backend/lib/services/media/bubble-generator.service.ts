@@ -2,6 +2,7 @@ import { agentaOpenAIService } from '../external/agenta-openai.service';
 import { prisma } from '../../config/database';
 import { VideoBubblesSchema, VideoBubble } from '@repo/types';
 import { logger } from '@repo/logging';
+import { languageService } from '../core/language.service';
 
 /**
  * Bubble Generator Service - Generate and validate bubble questions for videos
@@ -46,14 +47,7 @@ export class BubbleGeneratorService {
     language: string = 'ENGLISH',
     maxRetries: number = 3
   ): Promise<VideoBubble | null> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
@@ -111,14 +105,7 @@ export class BubbleGeneratorService {
     language: string = 'ENGLISH',
     wordTimings: Array<{ text: string; start_time: number; end_time: number }> = []
   ): Promise<VideoBubble[]> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
 
     const result = await agentaOpenAIService.generateStructured({
       promptSlug: 'generate_video_bubbles_prompt',
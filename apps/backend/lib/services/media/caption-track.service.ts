@@ -0,0 +1,354 @@
+import { storageService } from '../core/storage.service';
+import { languageService } from '../core/language.service';
+import { prisma } from '../../config/database';
+import { logger } from '@repo/logging';
+
+/**
+ * One caption cue, times in seconds
+ */
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Two lines of ~42 characters, the usual broadcast limit
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_CHARS = MAX_LINE_CHARS * 2;
+const MAX_CUE_SECONDS = 6;
+const MAX_WORD_GAP_SECONDS = 1; // Longer pauses start a new cue
+
+const SPEAKER_LABELS: Record<string, string> = {
+  interviewer: 'Interviewer',
+  guest: 'Guest',
+};
+
+/**
+ * Word timings are stored as {text, start_time, end_time} (AWS Transcribe)
+ * or {word, startTime, endTime} (older podcasts) - accept both
+ */
+function toTimedWords(value: unknown): TimedWord[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map((word: any) => ({
+      text: String(word?.text ?? word?.word ?? '').trim(),
+      start: Number(word?.start_time ?? word?.startTime),
+      end: Number(word?.end_time ?? word?.endTime),
+    }))
+    .filter((word) => word.text && Number.isFinite(word.start) && Number.isFinite(word.end));
+}
+
+/**
+ * Group words into cues - break on sentence ends, pauses and the length limits
+ */
+function cuesFromWords(words: TimedWord[], speaker?: string): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let current: TimedWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: current.map((word) => word.text).join(' '),
+      speaker,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const length = current.reduce((sum, w) => sum + w.text.length + 1, 0) + word.text.length;
+      if (
+        /[.!?]$/.test(previous.text) ||
+        word.start - previous.end > MAX_WORD_GAP_SECONDS ||
+        word.end - current[0].start > MAX_CUE_SECONDS ||
+        length > MAX_CUE_CHARS
+      ) {
+        flush();
+      }
+    }
+    current.push(word);
+  }
+  flush();
+
+  return cues;
+}
+
+/**
+ * Cues for a block of text with only start/end times (podcast turns) -
+ * the time is split in proportion to each chunk's length
+ */
+function cuesFromText(text: string, start: number, end: number, speaker?: string): CaptionCue[] {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (chunk && chunk.length + word.length + 1 > MAX_CUE_CHARS) {
+      chunks.push(chunk);
+      chunk = word;
+    } else {
+      chunk = chunk ? `${chunk} ${word}` : word;
+    }
+  }
+  if (chunk) chunks.push(chunk);
+
+  const totalChars = chunks.reduce((sum, c) => sum + c.length, 0) || 1;
+  let cursor = start;
+  return chunks.map((c) => {
+    const cueEnd = cursor + ((end - start) * c.length) / totalChars;
+    const cue = { start: cursor, end: cueEnd, text: c, speaker };
+    cursor = cueEnd;
+    return cue;
+  });
+}
+
+/**
+ * Cues from podcast or interactive podcast segments - word timings when the segment has them
+ */
+function cuesFromSegments(segments: unknown): CaptionCue[] {
+  if (!Array.isArray(segments)) return [];
+
+  return segments.flatMap((segment: any) => {
+    const speaker = segment?.speaker ? SPEAKER_LABELS[segment.speaker] ?? segment.speaker : undefined;
+    const words = toTimedWords(segment?.words);
+    if (words.length > 0) {
+      return cuesFromWords(words, speaker);
+    }
+
+    const start = Number(segment?.startTime);
+    const end = Number(segment?.endTime);
+    if (!segment?.text || !Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+      return [];
+    }
+    return cuesFromText(String(segment.text), start, end, speaker);
+  });
+}
+
+/**
+ * Split a cue into at most two lines at the space closest to the middle
+ */
+function wrapCueText(text: string): string {
+  if (text.length <= MAX_LINE_CHARS) return text;
+
+  const middle = text.length / 2;
+  let splitAt = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === ' ' && (splitAt === -1 || Math.abs(i - middle) < Math.abs(splitAt - middle))) {
+      splitAt = i;
+    }
+  }
+  return splitAt === -1 ? text : `${text.slice(0, splitAt)}\n${text.slice(splitAt + 1)}`;
+}
+
+function formatTimestamp(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+function toWebVtt(cues: CaptionCue[]): string {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const body = cues.map((cue, index) => {
+    const text = wrapCueText(escape(cue.text));
+    return [
+      `${index + 1}`,
+      `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+      cue.speaker ? `<v ${escape(cue.speaker)}>${text}` : text,
+    ].join('\n');
+  });
+  return ['WEBVTT', ...body].join('\n\n') + '\n';
+}
+
+function toSrt(cues: CaptionCue[]): string {
+  return (
+    cues
+      .map((cue, index) => {
+        // SRT has no voice tags - name the speaker when the turn changes
+        const speakerChanged = cue.speaker && cue.speaker !== cues[index - 1]?.speaker;
+        const text = wrapCueText(speakerChanged ? `${cue.speaker}: ${cue.text}` : cue.text);
+        return [
+          `${index + 1}`,
+          `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+          text,
+        ].join('\n');
+      })
+      .join('\n\n') + '\n'
+  );
+}
+
+export interface CaptionTrackUrls {
+  captionsVttUrl: string;
+  captionsSrtUrl: string;
+}
+
+/**
+ * Caption Track Service - WebVTT and SRT sidecar files for videos and podcasts
+ *
+ * Handles:
+ * - Building cues from stored word timings or podcast segments
+ * - Uploading both formats, named by the output's language
+ * - Saving the URLs on the output for the widget player and downloads
+ *
+ * Generation runs after media completes; failures are logged and never fail the output.
+ */
+export class CaptionTrackService {
+  /**
+   * Captions for a video from its AWS Transcribe word timings
+   */
+  async generateForVideoOutput(videoOutputId: string): Promise<CaptionTrackUrls | null> {
+    try {
+      const videoOutput = await prisma.videoOutput.findUnique({
+        where: { id: videoOutputId },
+        include: { submission: { include: { article: { select: { organizationId: true } } } } },
+      });
+      if (!videoOutput) return null;
+
+      const cues = cuesFromWords(toTimedWords(videoOutput.wordTimings));
+      const urls = await this.upload(cues, {
+        organizationId: videoOutput.submission.article.organizationId,
+        outputId: videoOutput.id,
+        language: videoOutput.submission.language,
+      });
+      if (!urls) return null;
+
+      await prisma.videoOutput.update({ where: { id: videoOutput.id }, data: urls });
+      logger.info('Generated video caption tracks', { videoOutputId, cueCount: cues.length });
+      return urls;
+    } catch (error) {
+      logger.error('Error generating video caption tracks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        videoOutputId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Captions for a standalone video from its word timings (no submission - the video has its own language)
+   */
+  async generateForStandaloneVideo(standaloneVideoId: string): Promise<CaptionTrackUrls | null> {
+    try {
+      const standaloneVideo = await prisma.standaloneVideo.findUnique({ where: { id: standaloneVideoId } });
+      if (!standaloneVideo) return null;
+
+      const cues = cuesFromWords(toTimedWords(standaloneVideo.wordTimings));
+      const urls = await this.upload(cues, {
+        organizationId: standaloneVideo.organizationId,
+        outputId: standaloneVideo.id,
+        language: standaloneVideo.language,
+      });
+      if (!urls) return null;
+
+      await prisma.standaloneVideo.update({ where: { id: standaloneVideo.id }, data: urls });
+      logger.info('Generated standalone video caption tracks', { standaloneVideoId, cueCount: cues.length });
+      return urls;
+    } catch (error) {
+      logger.error('Error generating standalone video caption tracks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        standaloneVideoId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Captions for a podcast - word timings when present, otherwise the speaker turns
+   */
+  async generateForPodcastOutput(podcastOutputId: string): Promise<CaptionTrackUrls | null> {
+    try {
+      const podcastOutput = await prisma.podcastOutput.findUnique({
+        where: { id: podcastOutputId },
+        include: { submission: { include: { article: { select: { organizationId: true } } } } },
+      });
+      if (!podcastOutput) return null;
+
+      const words = toTimedWords(podcastOutput.wordTimings);
+      const cues = words.length > 0 ? cuesFromWords(words) : cuesFromSegments(podcastOutput.segments);
+      const urls = await this.upload(cues, {
+        organizationId: podcastOutput.submission.article.organizationId,
+        outputId: podcastOutput.id,
+        language: podcastOutput.submission.language,
+      });
+      if (!urls) return null;
+
+      await prisma.podcastOutput.update({ where: { id: podcastOutput.id }, data: urls });
+      logger.info('Generated podcast caption tracks', { podcastOutputId, cueCount: cues.length });
+      return urls;
+    } catch (error) {
+      logger.error('Error generating podcast caption tracks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        podcastOutputId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Captions for an interactive podcast from its timed segments
+   */
+  async generateForInteractivePodcast(interactivePodcastId: string): Promise<CaptionTrackUrls | null> {
+    try {
+      const interactivePodcast = await prisma.interactivePodcastOutput.findUnique({
+        where: { id: interactivePodcastId },
+        include: { submission: { include: { article: { select: { organizationId: true } } } } },
+      });
+      if (!interactivePodcast) return null;
+
+      const cues = cuesFromSegments(interactivePodcast.segments);
+      const urls = await this.upload(cues, {
+        organizationId: interactivePodcast.submission.article.organizationId,
+        outputId: interactivePodcast.id,
+        language: interactivePodcast.submission.language,
+      });
+      if (!urls) return null;
+
+      await prisma.interactivePodcastOutput.update({ where: { id: interactivePodcast.id }, data: urls });
+      logger.info('Generated interactive podcast caption tracks', { interactivePodcastId, cueCount: cues.length });
+      return urls;
+    } catch (error) {
+      logger.error('Error generating interactive podcast caption tracks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        interactivePodcastId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Upload the VTT and SRT files - null when there is nothing to caption
+   */
+  private async upload(
+    cues: CaptionCue[],
+    target: { organizationId: string; outputId: string; language: string }
+  ): Promise<CaptionTrackUrls | null> {
+    if (cues.length === 0) {
+      logger.warn('Skipping caption tracks - no timed transcript', { outputId: target.outputId });
+      return null;
+    }
+
+    const isoCode = (await languageService.getLanguage(target.language))?.isoCode ?? 'en';
+    const basePath = `organizations/${target.organizationId}/captions/${target.outputId}/${isoCode}`;
+
+    const [vtt, srt] = await Promise.all([
+      storageService.uploadFile(Buffer.from(toWebVtt(cues), 'utf-8'), `${basePath}.vtt`, 'text/vtt; charset=utf-8'),
+      storageService.uploadFile(Buffer.from(toSrt(cues), 'utf-8'), `${basePath}.srt`, 'application/x-subrip; charset=utf-8'),
+    ]);
+
+    return { captionsVttUrl: vtt.cloudfrontUrl, captionsSrtUrl: srt.cloudfrontUrl };
+  }
+}
+
+export const captionTrackService = new CaptionTrackService();
@@ -6,8 +6,12 @@ import { thumbnailService } from './thumbnail.service';
 import { transcriptionService } from './transcription.service';
 import { segmentParserService } from './segment-parser.service';
 import { wordMatchingService } from './word-matching.service';
+import { captionTrackService } from './caption-track.service';
 import { prisma } from '../../config/database';
 import { logger } from '@repo/logging';
+import { formatArticleOutline, resolveArticleDocument } from '@repo/article-content';
+import { languageService } from '../core/language.service';
+import { glossaryService } from '../core/glossary.service';
 
 /**
  * Interactive Podcast Generator Service - Generate single-speaker podcast with interactive fill-in-the-blank questions
@@ -82,11 +86,17 @@ export class InteractivePodcastGeneratorService {
       }
 
       // Step 3: Generate audio script (single speaker, engaging narrative)
-      const script = await this.generateAudioScript(article.title, article.content, languageToUse);
+      const script = await this.generateAudioScript(
+        article.title,
+        article.content,
+        formatArticleOutline(resolveArticleDocument(article)),
+        languageToUse,
+        await glossaryService.getPromptInstructions(orgId, languageToUse, article.content)
+      );
       logger.info('Generated script', { scriptLength: script.length });
 
       // Step 3: Generate audio with ElevenLabs (single voice)
-      const audioBuffer = await this.generateAudio(script, languageToUse);
+      const audioBuffer = await this.generateAudio(script, languageToUse, orgId);
       logger.info('Generated audio', { audioSize: audioBuffer.length });
 
       // Step 4: Upload to S3 (returns both CloudFront and S3 URLs)
@@ -140,6 +150,8 @@ export class InteractivePodcastGeneratorService {
 
       logger.info('Interactive podcast generated successfully');
 
+      await captionTrackService.generateForInteractivePodcast(outputId);
+
       // Step 10: Auto-tag the interactive podcast output (only for English)
       await aiTaggingService.tagInteractivePodcast(outputId);
     } catch (error) {
@@ -167,14 +179,7 @@ export class InteractivePodcastGeneratorService {
     articleContent: string,
     language: string
   ): Promise<string> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
 
     const title = await agentaOpenAIService.generateText({
       promptSlug: 'generate_interactive_podcast_title_prompt',
@@ -196,26 +201,23 @@ export class InteractivePodcastGeneratorService {
   private async generateAudioScript(
     articleTitle: string,
     articleContent: string,
-    language: string
+    articleOutline: string,
+    language: string,
+    glossary?: string
   ): Promise<string> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
 
     const script = await agentaOpenAIService.generateText({
       promptSlug: 'generate_interactive_podcast_script_prompt',
       variables: {
         articleTitle,
         articleContent,
+        articleOutline,
         languageName,
       },
       temperature: 0.7,
       maxTokens: 1200,
+      systemPromptSuffix: glossary,
     });
 
     return script.trim();
@@ -224,11 +226,11 @@ export class InteractivePodcastGeneratorService {
   /**
    * Generate audio using ElevenLabs (single voice)
    */
-  private async generateAudio(script: string, language: string): Promise<Buffer> {
+  private async generateAudio(script: string, language: string, organizationId: string): Promise<Buffer> {
     // Use guest voice for single-speaker narration
-    const voiceId = elevenlabsService.getGuestVoiceId();
+    const voiceId = await elevenlabsService.getGuestVoiceId(language);
 
-    const audioBuffer = await elevenlabsService.textToSpeech({text: script, voiceId});
+    const audioBuffer = await elevenlabsService.textToSpeech({text: script, voiceId, organizationId, language});
     return audioBuffer;
   }
 
@@ -284,13 +286,13 @@ export class InteractivePodcastGeneratorService {
       const article = ipOutput.submission.article;
       const languageToUse = ipOutput.submission.language || 'ENGLISH';
 
-      // Step 1: Convert script to audio with ElevenLabs
-      logger.info('Generating audio from edited script');
-      const audioBuffer = await this.generateAudio(script, languageToUse);
-
       // Get organizationId from article
       const orgId = article.organizationId;
 
+      // Step 1: Convert script to audio with ElevenLabs
+      logger.info('Generating audio from edited script');
+      const audioBuffer = await this.generateAudio(script, languageToUse, orgId);
+
       // Step 2: Upload audio to S3
       const uploadResult = await storageService.uploadAudio(
         audioBuffer,
@@ -334,6 +336,9 @@ export class InteractivePodcastGeneratorService {
       });
 
       logger.info('Interactive podcast regenerated successfully', { ipOutputId });
+
+      // Segment timings changed with the new audio
+      await captionTrackService.generateForInteractivePodcast(ipOutputId);
     } catch (error) {
       logger.error('Interactive Podcast Regeneration Error', {
         error: error instanceof Error ? error.message : error
@@ -5,6 +5,7 @@ import { thumbnailService } from './thumbnail.service';
 import { transcriptionService } from './transcription.service';
 import { segmentParserService } from './segment-parser.service';
 import { wordMatchingService } from './word-matching.service';
+import { captionTrackService } from './caption-track.service';
 import { prisma } from '../../config/database';
 import { logger } from '@repo/logging';
 
@@ -100,12 +101,14 @@ export class InteractivePodcastMediaService {
       }
 
       // Step 1: Generate audio with ElevenLabs
-      const voiceId = voiceSelection?.voiceId || elevenlabsService.getGuestVoiceId();
+      const voiceId = voiceSelection?.voiceId || (await elevenlabsService.getGuestVoiceId(languageToUse));
       logger.info('Generating audio', { voiceId });
 
       const audioBuffer = await elevenlabsService.textToSpeech({
         text: script,
         voiceId,
+        organizationId: orgId,
+        language: languageToUse,
       });
       logger.info('Generated audio', { audioSize: audioBuffer.length });
 
@@ -159,6 +162,8 @@ export class InteractivePodcastMediaService {
 
       logger.info('Interactive podcast generated successfully from script', { ipOutputId });
 
+      await captionTrackService.generateForInteractivePodcast(ipOutputId);
+
       // Step 8: Auto-tag the interactive podcast output
       await aiTaggingService.tagInteractivePodcast(ipOutputId);
     } catch (error) {
@@ -1,6 +1,10 @@
 import { agentaOpenAIService } from '../external/agenta-openai.service';
 import { prisma } from '../../config/database';
+import { scriptRevisionService } from '../core/script-revision.service';
 import { logger } from '@repo/logging';
+import { formatArticleOutline, resolveArticleDocument } from '@repo/article-content';
+import { languageService } from '../core/language.service';
+import { glossaryService } from '../core/glossary.service';
 
 /**
  * Interactive Podcast Script Service - Generate script only (no audio)
@@ -63,7 +67,9 @@ export class InteractivePodcastScriptService {
       const script = await this.generateAudioScript(
         article.title,
         article.content,
-        languageToUse
+        formatArticleOutline(resolveArticleDocument(article)),
+        languageToUse,
+        await glossaryService.getPromptInstructions(organizationId, languageToUse, article.content)
       );
       logger.info('Generated interactive podcast script', {
         outputId,
@@ -82,6 +88,13 @@ export class InteractivePodcastScriptService {
         },
       });
 
+      await scriptRevisionService.record({
+        outputType: 'interactive-podcast',
+        outputId,
+        snapshot: { title, content: script, segments: { script } },
+        source: 'AI_REGENERATE',
+      });
+
       logger.info('Interactive podcast script ready for review', { outputId });
     } catch (error) {
       logger.error('Interactive Podcast Script Generation Error', {
@@ -110,14 +123,7 @@ export class InteractivePodcastScriptService {
     articleContent: string,
     language: string
   ): Promise<string> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
 
     const title = await agentaOpenAIService.generateText({
       promptSlug: 'generate_interactive_podcast_title_prompt',
@@ -139,26 +145,23 @@ export class InteractivePodcastScriptService {
   private async generateAudioScript(
     articleTitle: string,
     articleContent: string,
-    language: string
+    articleOutline: string, // Section headings, empty for articles without them
+    language: string,
+    glossary?: string
   ): Promise<string> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
 
     const script = await agentaOpenAIService.generateText({
       promptSlug: 'generate_interactive_podcast_script_prompt',
       variables: {
         articleTitle,
         articleContent,
+        articleOutline,
         languageName,
       },
       temperature: 0.7,
       maxTokens: 1200,
+      systemPromptSuffix: glossary,
     });
 
     return script.trim();
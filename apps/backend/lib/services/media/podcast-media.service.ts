@@ -2,6 +2,7 @@ import { elevenlabsService } from '../external/elevenlabs.service';
 import { storageService } from '../core/storage.service';
 import { aiTaggingService } from '../ai-tagging.service';
 import { thumbnailService } from './thumbnail.service';
+import { captionTrackService } from './caption-track.service';
 import { prisma } from '../../config/database';
 import ffmpeg from 'fluent-ffmpeg';
 import { promises as fs } from 'fs';
@@ -98,6 +99,8 @@ export class PodcastMediaService {
       const audioSegments = await this.generateSegmentAudio(
         segments,
         podcastOutput.submissionId,
+        podcastOutput.submission.language,
+        orgId,
         voiceSelection
       );
 
@@ -129,6 +132,8 @@ export class PodcastMediaService {
 
       logger.info('Podcast generated successfully from transcript', { podcastOutputId });
 
+      await captionTrackService.generateForPodcastOutput(podcastOutputId);
+
       // Auto-tag the podcast output (only for English)
       await aiTaggingService.tagPodcastOutput(podcastOutputId);
     } catch (error) {
@@ -155,13 +160,15 @@ export class PodcastMediaService {
   private async generateSegmentAudio(
     segments: Array<{ speaker: 'interviewer' | 'guest'; text: string }>,
     submissionId: string,
+    language: string,
+    organizationId: string,
     voiceSelection?: {
       interviewerVoiceId?: string;
       guestVoiceId?: string;
     }
   ) {
-    const interviewerVoice = voiceSelection?.interviewerVoiceId || elevenlabsService.getInterviewerVoiceId();
-    const guestVoice = voiceSelection?.guestVoiceId || elevenlabsService.getGuestVoiceId();
+    const interviewerVoice = voiceSelection?.interviewerVoiceId || (await elevenlabsService.getInterviewerVoiceId(language));
+    const guestVoice = voiceSelection?.guestVoiceId || (await elevenlabsService.getGuestVoiceId(language));
 
     logger.info('Generating audio for podcast segments', {
       segmentCount: segments.length,
@@ -186,6 +193,8 @@ export class PodcastMediaService {
       const audioBuffer = await elevenlabsService.textToSpeech({
         text: segment.text,
         voiceId,
+        organizationId,
+        language,
       });
 
       // Save to temp file for FFmpeg processing
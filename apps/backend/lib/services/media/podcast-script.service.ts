@@ -1,7 +1,11 @@
 import { agentaOpenAIService } from '../external/agenta-openai.service';
 import { prisma } from '../../config/database';
+import { scriptRevisionService } from '../core/script-revision.service';
 import { PodcastTranscript, PodcastTranscriptSchema } from '@repo/types';
 import { logger } from '@repo/logging';
+import { formatArticleOutline, resolveArticleDocument } from '@repo/article-content';
+import { languageService } from '../core/language.service';
+import { glossaryService } from '../core/glossary.service';
 
 /**
  * Podcast Script Service - Generate podcast transcript only (no audio)
@@ -56,7 +60,9 @@ export class PodcastScriptService {
       const transcript = await this.generateTranscript(
         article.title,
         article.content,
-        language
+        formatArticleOutline(resolveArticleDocument(article)),
+        language,
+        await glossaryService.getPromptInstructions(organizationId, language, article.content)
       );
       const segments = transcript.segments as Array<{ speaker: 'interviewer' | 'guest'; text: string }>;
 
@@ -76,6 +82,13 @@ export class PodcastScriptService {
         },
       });
 
+      await scriptRevisionService.record({
+        outputType: 'podcast',
+        outputId,
+        snapshot: { title: podcastTitle, content: JSON.stringify(segments) },
+        source: 'AI_REGENERATE',
+      });
+
       logger.info('Podcast transcript ready for review', { outputId });
     } catch (error) {
       logger.error('Podcast Transcript Generation Error', {
@@ -104,14 +117,7 @@ export class PodcastScriptService {
     articleContent: string,
     language: string
   ): Promise<string> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
 
     const title = await agentaOpenAIService.generateText({
       promptSlug: 'generate_podcast_title_prompt',
@@ -129,31 +135,29 @@ export class PodcastScriptService {
 
   /**
    * Generate podcast transcript with interviewer + guest format using Agenta prompts
+   * The outline (article headings) gives the conversation its structure
    */
   private async generateTranscript(
     title: string,
     content: string,
-    language: string
+    outline: string,
+    language: string,
+    glossary?: string
   ): Promise<PodcastTranscript> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
 
     const result = await agentaOpenAIService.generateStructured({
       promptSlug: 'generate_podcast_transcript_prompt',
       variables: {
         articleTitle: title,
         articleContent: content,
+        articleOutline: outline,
         languageName,
       },
       schema: PodcastTranscriptSchema,
       schemaName: 'PodcastTranscript',
       temperature: 0.8, // Higher creativity for natural conversation
+      systemPromptSuffix: glossary,
     });
 
     return result as PodcastTranscript;
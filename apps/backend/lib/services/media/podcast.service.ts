@@ -3,7 +3,9 @@ import { elevenlabsService } from '../external/elevenlabs.service';
 import { storageService } from '../core/storage.service';
 import { aiTaggingService } from '../ai-tagging.service';
 import { thumbnailService } from './thumbnail.service';
+import { captionTrackService } from './caption-track.service';
 import { prisma } from '../../config/database';
+import { scriptRevisionService } from '../core/script-revision.service';
 import { PodcastTranscript, PodcastTranscriptSchema } from '@repo/types';
 import ffmpeg from 'fluent-ffmpeg';
 import { promises as fs } from 'fs';
@@ -11,6 +13,8 @@ import path from 'path';
 import os from 'os';
 import z from 'zod';
 import { logger } from '@repo/logging';
+import { languageService } from '../core/language.service';
+import { glossaryService } from '../core/glossary.service';
 
 /**
  * Podcast Service - Generate multi-speaker podcast from articles
@@ -74,11 +78,12 @@ export class PodcastService {
       }
 
       // Step 2: Generate podcast transcript (interviewer + guest format)
-      const transcript = await this.generatePodcastTranscript(article.title, article.content, languageToUse);
+      const glossary = await glossaryService.getPromptInstructions(orgId, languageToUse, article.content);
+      const transcript = await this.generatePodcastTranscript(article.title, article.content, languageToUse, glossary);
       const segments = transcript.segments as Array<{ speaker: 'interviewer' | 'guest'; text: string }>;
 
       // Step 3: Generate audio for each segment with different voices
-      const audioSegments = await this.generateSegmentAudio(segments, submission.id);
+      const audioSegments = await this.generateSegmentAudio(segments, submission.id, languageToUse, orgId);
 
       // Step 4: Stitch audio segments together with FFmpeg
       const { finalAudioBuffer, totalDuration } = await this.stitchAudioSegments(audioSegments);
@@ -109,8 +114,17 @@ export class PodcastService {
         },
       });
 
+      await scriptRevisionService.record({
+        outputType: 'podcast',
+        outputId,
+        snapshot: { title: podcastTitle, content: JSON.stringify(segments) },
+        source: 'AI_REGENERATE',
+      });
+
       logger.info('Podcast generated successfully', { articleId });
 
+      await captionTrackService.generateForPodcastOutput(outputId);
+
       // Step 7: Auto-tag the podcast output (only for English)
       await aiTaggingService.tagPodcastOutput(outputId);
     } catch (error) {
@@ -134,14 +148,7 @@ export class PodcastService {
    * Generate an engaging podcast title using Agenta prompts
    */
   private async generatePodcastTitle(articleTitle: string, articleContent: string, language: string): Promise<string> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
 
     const title = await agentaOpenAIService.generateText({
       promptSlug: 'generate_podcast_title_prompt',
@@ -160,15 +167,8 @@ export class PodcastService {
   /**
    * Generate podcast transcript with interviewer + guest format using Agenta prompts
    */
-  private async generatePodcastTranscript(title: string, content: string, language: string) {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+  private async generatePodcastTranscript(title: string, content: string, language: string, glossary?: string) {
+    const languageName = await languageService.getLanguageName(language);
 
     const result = await agentaOpenAIService.generateStructured({
       promptSlug: 'generate_podcast_transcript_prompt',
@@ -180,6 +180,7 @@ export class PodcastService {
       schema: PodcastTranscriptSchema,
       schemaName: 'PodcastTranscript',
       temperature: 0.8, // Higher creativity for natural conversation
+      systemPromptSuffix: glossary,
     });
 
     return result as PodcastTranscript;
@@ -191,10 +192,12 @@ export class PodcastService {
    */
   private async generateSegmentAudio(
     segments: Array<{ speaker: 'interviewer' | 'guest'; text: string }>,
-    submissionId: string
+    submissionId: string,
+    language: string,
+    organizationId: string
   ) {
-    const interviewerVoice = elevenlabsService.getInterviewerVoiceId();
-    const guestVoice = elevenlabsService.getGuestVoiceId();
+    const interviewerVoice = await elevenlabsService.getInterviewerVoiceId(language);
+    const guestVoice = await elevenlabsService.getGuestVoiceId(language);
 
     logger.info('Generating audio for podcast segments', { segmentCount: segments.length });
 
@@ -215,6 +218,8 @@ export class PodcastService {
       const audioBuffer = await elevenlabsService.textToSpeech({
         text: segment.text,
         voiceId,
+        organizationId,
+        language,
       });
 
       // Save to temp file for FFmpeg processing
@@ -370,7 +375,12 @@ export class PodcastService {
       const segments = JSON.parse(podcastOutput.transcript) as Array<{ speaker: 'interviewer' | 'guest'; text: string }>;
 
       // Regenerate audio for each segment with different voices
-      const audioSegments = await this.generateSegmentAudio(segments, podcastOutput.submissionId);
+      const audioSegments = await this.generateSegmentAudio(
+        segments,
+        podcastOutput.submissionId,
+        podcastOutput.submission.language,
+        podcastOutput.submission.article.organizationId
+      );
 
       // Stitch audio segments together with FFmpeg
       const { finalAudioBuffer, totalDuration } = await this.stitchAudioSegments(audioSegments);
@@ -397,6 +407,9 @@ export class PodcastService {
       });
 
       logger.info('Podcast regenerated successfully', { podcastOutputId });
+
+      // Segment timings changed with the new audio
+      await captionTrackService.generateForPodcastOutput(podcastOutputId);
     } catch (error) {
       logger.error('Podcast Regeneration Error', {
         error: error instanceof Error ? error.message : error
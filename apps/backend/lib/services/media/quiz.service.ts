@@ -3,6 +3,8 @@ import { aiTaggingService } from '../ai-tagging.service';
 import { prisma } from '../../config/database';
 import { QuizQuestionsSchema } from '@repo/types';
 import { logger } from '@repo/logging';
+import { languageService } from '../core/language.service';
+import { glossaryService } from '../core/glossary.service';
 
 /**
  * Quiz Service - Generate quiz questions from articles
@@ -44,14 +46,7 @@ export class QuizService {
       // Use organizationId from parameter or article
       const orgId = organizationId || article.organizationId;
 
-      const languageMap: Record<string, string> = {
-        ENGLISH: 'English',
-        MARATHI: 'Marathi',
-        HINDI: 'Hindi',
-        BENGALI: 'Bengali',
-        GUJARATI: 'Gujarati',
-      };
-      const languageName = languageMap[languageToUse] || 'English';
+      const languageName = await languageService.getLanguageName(languageToUse);
 
       // Generate quiz questions using Agenta + OpenAI
       const result = await agentaOpenAIService.generateStructured({
@@ -64,6 +59,7 @@ export class QuizService {
         schema: QuizQuestionsSchema,
         schemaName: 'QuizQuestions',
         temperature: 0.7,
+        systemPromptSuffix: await glossaryService.getPromptInstructions(orgId, languageToUse, article.content),
       });
 
       // 🔴 CRITICAL SCHEMA UPDATE: Create QuizQuestion rows (not JSON)
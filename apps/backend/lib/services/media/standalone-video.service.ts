@@ -1,6 +1,8 @@
 import { heygenService } from '../external/heygen.service';
 import { elevenlabsService } from '../external/elevenlabs.service';
 import { storageService } from '../core/storage.service';
+import { awsTranscribeService } from '../external/aws-transcribe.service';
+import { captionTrackService } from './caption-track.service';
 import { prisma } from '../../config/database';
 import { logger } from '@repo/logging';
 
@@ -12,6 +14,7 @@ import { logger } from '@repo/logging';
  * 2. Upload audio to S3
  * 3. Generate video with HeyGen (using audio URL for lip-sync)
  * 4. HeyGen webhook will handle completion and Submagic processing
+ * 5. Once the final video exists, save its transcript and caption tracks
  */
 export class StandaloneVideoService {
   /**
@@ -60,6 +63,8 @@ export class StandaloneVideoService {
       const audioBuffer = await elevenlabsService.textToSpeech({
         text: standaloneVideo.script,
         voiceId: standaloneVideo.voiceId,
+        organizationId: standaloneVideo.organizationId,
+        language: standaloneVideo.language,
       });
 
       logger.info('ElevenLabs audio generated', {
@@ -156,6 +161,50 @@ export class StandaloneVideoService {
       throw error;
     }
   }
+
+  /**
+   * Transcript and caption tracks for a finished video
+   * Word timings already transcribed while burning in captions are reused, otherwise the final
+   * video is transcribed. Failures are logged and never fail the video.
+   * @param s3VideoUrl - S3 URL of the final video (Transcribe can't read CloudFront)
+   */
+  async saveTranscript(
+    standaloneVideoId: string,
+    s3VideoUrl: string,
+    wordTimings?: Array<{ text: string; start_time: number; end_time: number }>
+  ): Promise<void> {
+    try {
+      if (!wordTimings) {
+        const standaloneVideo = await prisma.standaloneVideo.findUnique({
+          where: { id: standaloneVideoId },
+          select: { language: true },
+        });
+        if (!standaloneVideo) return;
+
+        ({ wordTimings } = await awsTranscribeService.transcribeVideo(s3VideoUrl, standaloneVideo.language));
+      }
+
+      if (wordTimings.length === 0) {
+        logger.warn('Standalone video has no speech to caption', { standaloneVideoId });
+        return;
+      }
+
+      await prisma.standaloneVideo.update({
+        where: { id: standaloneVideoId },
+        data: {
+          transcript: wordTimings.map((word) => word.text).join(' '),
+          wordTimings,
+        },
+      });
+
+      await captionTrackService.generateForStandaloneVideo(standaloneVideoId);
+    } catch (error) {
+      logger.error('Error saving standalone video transcript', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        standaloneVideoId,
+      });
+    }
+  }
 }
 
 // Singleton instance
@@ -1,8 +1,8 @@
+import { z } from 'zod';
 import { logger } from '@repo/logging';
-import { LANGUAGE_CODES } from '@repo/config';
 import { openaiClientService } from '../external/openai-client.service';
-
-type Language = 'ENGLISH' | 'MARATHI' | 'HINDI' | 'BENGALI' | 'GUJARATI';
+import { languageService } from '../core/language.service';
+import { glossaryService } from '../core/glossary.service';
 
 /**
  * Translation Service
@@ -15,15 +15,19 @@ class TranslationService {
    * Translate a video script to the target language
    *
    * @param script - The original script in English
-   * @param targetLanguage - The target language code
+   * @param targetLanguage - The target Language.code
+   * @param organizationId - Applies the organization's glossary when given
    * @returns Translated script
    */
-  async translateScript(script: string, targetLanguage: Language): Promise<string> {
+  async translateScript(script: string, targetLanguage: string, organizationId?: string): Promise<string> {
     if (targetLanguage === 'ENGLISH') {
       return script;
     }
 
-    const targetLanguageName = LANGUAGE_CODES[targetLanguage]?.name || targetLanguage;
+    const targetLanguageName = await languageService.getLanguageName(targetLanguage);
+    const glossary = organizationId
+      ? await glossaryService.getPromptInstructions(organizationId, targetLanguage, script)
+      : '';
 
     logger.info('Translating video script', {
       targetLanguage,
@@ -38,7 +42,7 @@ class TranslationService {
 - Be culturally appropriate for the target audience
 - Maintain the same length and pacing as the original (suitable for video voiceover)
 - Use colloquial language appropriate for social media videos
-
+${glossary ? `\n${glossary}\n` : ''}
 Translate the following script from English to ${targetLanguageName}. Return ONLY the translated text, nothing else.`;
 
       const result = await openaiClientService.generateText({
@@ -68,15 +72,19 @@ Translate the following script from English to ${targetLanguageName}. Return ONL
    * Translate a video title to the target language
    *
    * @param title - The original title in English
-   * @param targetLanguage - The target language code
+   * @param targetLanguage - The target Language.code
+   * @param organizationId - Applies the organization's glossary when given
    * @returns Translated title
    */
-  async translateTitle(title: string, targetLanguage: Language): Promise<string> {
+  async translateTitle(title: string, targetLanguage: string, organizationId?: string): Promise<string> {
     if (targetLanguage === 'ENGLISH') {
       return title;
     }
 
-    const targetLanguageName = LANGUAGE_CODES[targetLanguage]?.name || targetLanguage;
+    const targetLanguageName = await languageService.getLanguageName(targetLanguage);
+    const glossary = organizationId
+      ? await glossaryService.getPromptInstructions(organizationId, targetLanguage, title)
+      : '';
 
     logger.info('Translating video title', {
       targetLanguage,
@@ -89,7 +97,7 @@ Translate the following script from English to ${targetLanguageName}. Return ONL
 - Keep it concise and engaging
 - Preserve the meaning and appeal
 - Make it culturally appropriate
-
+${glossary ? `\n${glossary}\n` : ''}
 Return ONLY the translated title, nothing else.`;
 
       const result = await openaiClientService.generateText({
@@ -122,13 +130,15 @@ Return ONLY the translated title, nothing else.`;
    *
    * @param script - The original script in English
    * @param title - The original title in English
-   * @param targetLanguage - The target language code
+   * @param targetLanguage - The target Language.code
+   * @param organizationId - Applies the organization's glossary when given
    * @returns Object with translated script and title
    */
   async translateScriptAndTitle(
     script: string,
     title: string,
-    targetLanguage: Language
+    targetLanguage: string,
+    organizationId?: string
   ): Promise<{ translatedScript: string; translatedTitle: string }> {
     if (targetLanguage === 'ENGLISH') {
       return { translatedScript: script, translatedTitle: title };
@@ -136,12 +146,55 @@ Return ONLY the translated title, nothing else.`;
 
     // Run translations in parallel for better performance
     const [translatedScript, translatedTitle] = await Promise.all([
-      this.translateScript(script, targetLanguage),
-      this.translateTitle(title, targetLanguage),
+      this.translateScript(script, targetLanguage, organizationId),
+      this.translateTitle(title, targetLanguage, organizationId),
     ]);
 
     return { translatedScript, translatedTitle };
   }
+
+  /**
+   * Literal translation of paragraphs back to English, so reviewers can check a translation's meaning
+   *
+   * @param paragraphs - Paragraphs in the source language
+   * @param sourceLanguage - The Language.code the paragraphs are written in
+   * @returns English paragraphs, one per input paragraph
+   */
+  async backTranslateParagraphs(paragraphs: string[], sourceLanguage: string): Promise<string[]> {
+    if (sourceLanguage === 'ENGLISH' || paragraphs.length === 0) {
+      return paragraphs;
+    }
+
+    const sourceLanguageName = await languageService.getLanguageName(sourceLanguage);
+
+    logger.info('Back-translating paragraphs', {
+      sourceLanguage,
+      paragraphCount: paragraphs.length,
+    });
+
+    try {
+      const result = await openaiClientService.generateStructured({
+        prompt: JSON.stringify(paragraphs),
+        schema: z.object({ paragraphs: z.array(z.string()) }),
+        schemaName: 'BackTranslation',
+        systemPrompt: `You are a professional translator helping a reviewer check a translation. Translate each paragraph of the JSON array from ${sourceLanguageName} to English.
+- Translate literally, do not smooth over awkward phrasing, omissions or mistakes - the reviewer needs to see them
+- Keep brand names, terms and numbers exactly as they appear
+- Return exactly one English paragraph per input paragraph, in the same order`,
+        model: 'gpt-4o',
+        temperature: 0,
+      });
+
+      // Keep rows aligned even if the model merged or split a paragraph
+      return paragraphs.map((_, index) => result.paragraphs[index] ?? '');
+    } catch (error) {
+      logger.error('Back-translation failed', {
+        sourceLanguage,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
 }
 
 // Singleton instance
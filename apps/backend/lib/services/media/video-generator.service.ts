@@ -2,8 +2,12 @@ import { agentaOpenAIService } from '../external/agenta-openai.service';
 import { heygenService } from '../external/heygen.service';
 import { prisma } from '../../config/database';
 import { VideoScriptsSchema } from '@repo/types';
+import { formatArticleOutline, resolveArticleDocument } from '@repo/article-content';
 import { logger } from '@repo/logging';
 import { getMaxVideosPerSubmission, getVideoCountForPrompt } from '@repo/config/limits';
+import { languageService } from '../core/language.service';
+import { glossaryService } from '../core/glossary.service';
+import { pronunciationService } from '../core/pronunciation.service';
 
 /**
  * Video Generator Service - Generate videos from articles
@@ -57,7 +61,13 @@ export class VideoGeneratorService {
       });
 
       // Step 1: Generate video scripts (1-3 videos)
-      const { videos: scriptList } = await this.generateVideoScripts(article.title, article.content, languageToUse);
+      const { videos: scriptList } = await this.generateVideoScripts(
+        article.title,
+        article.content,
+        formatArticleOutline(resolveArticleDocument(article)),
+        languageToUse,
+        await glossaryService.getPromptInstructions(orgId, languageToUse, article.content)
+      );
 
       // Apply environment-based limit (dev = 1, prod = unlimited)
       const maxVideos = getMaxVideosPerSubmission();
@@ -142,9 +152,10 @@ export class VideoGeneratorService {
           title,
         });
 
+        // HeyGen voices the script itself, so the lexicon's respellings go into the script text
         const { videoId } = await heygenService.generateVideo({
           imageKey: character.heygenImageKey,
-          script,
+          script: await pronunciationService.applyLexicon(orgId, languageToUse, script),
           voiceId,
           title,
         });
@@ -182,15 +193,8 @@ export class VideoGeneratorService {
    * Generate video scripts from article using Agenta prompts
    * Uses environment-based videoCount to save API credits in dev
    */
-  private async generateVideoScripts(title: string, content: string, language: string = 'ENGLISH') {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+  private async generateVideoScripts(title: string, content: string, outline: string, language: string = 'ENGLISH', glossary?: string) {
+    const languageName = await languageService.getLanguageName(language);
     const videoCount = getVideoCountForPrompt();
 
     logger.info('Requesting video scripts from AI', {
@@ -203,12 +207,14 @@ export class VideoGeneratorService {
       variables: {
         articleTitle: title,
         articleContent: content,
+        articleOutline: outline,
         languageName,
         videoCount,
       },
       schema: VideoScriptsSchema,
       schemaName: 'VideoScripts',
       temperature: 0.7,
+      systemPromptSuffix: glossary,
     });
   }
 
@@ -288,7 +294,11 @@ export class VideoGeneratorService {
 
       const { videoId } = await heygenService.generateVideo({
         imageKey: character.heygenImageKey,
-        script: videoOutput.script,
+        script: await pronunciationService.applyLexicon(
+          videoOutput.submission.article.organizationId,
+          videoOutput.submission.language,
+          videoOutput.script
+        ),
         voiceId,
         title: videoOutput.title || videoOutput.submission.article.title,
       });
@@ -118,9 +118,12 @@ export class VideoMediaService {
         voiceId,
       });
 
+      const organizationId = videoOutput.submission.article.organizationId;
       const audioBuffer = await elevenlabsService.textToSpeech({
         text: videoOutput.script,
         voiceId,
+        organizationId,
+        language: videoOutput.submission.language,
       });
 
       logger.info('ElevenLabs audio generated', {
@@ -129,7 +132,6 @@ export class VideoMediaService {
       });
 
       // Step 2: Upload audio to S3 for public access
-      const organizationId = videoOutput.submission.article.organizationId;
       const audioResult = await storageService.uploadAudio(
         audioBuffer,
         videoOutput.submissionId,
@@ -3,27 +3,221 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
 import { storageService } from '../core/storage.service';
+import { awsTranscribeService } from '../external/aws-transcribe.service';
 import { logger } from '@repo/logging';
 
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface WatermarkOptions {
+  logoUrl: string;
+  position: WatermarkPosition;
+  opacity: number; // 0-1
+  margin: number; // Pixels from the video edges
+  scale: number; // Logo width as a fraction of the video width
+}
+
+/**
+ * Watermark settings from a caption style, or undefined when the style has no logo
+ */
+export function watermarkFromCaptionStyle(
+  captionStyle: {
+    logoUrl: string | null;
+    logoPosition: string | null;
+    logoOpacity: number;
+    logoMargin: number;
+    logoScale: number;
+  } | null | undefined
+): WatermarkOptions | undefined {
+  if (!captionStyle?.logoUrl) {
+    return undefined;
+  }
+  return {
+    logoUrl: captionStyle.logoUrl,
+    position: (captionStyle.logoPosition as WatermarkPosition | null) || 'top-right',
+    opacity: captionStyle.logoOpacity,
+    margin: captionStyle.logoMargin,
+    scale: captionStyle.logoScale,
+  };
+}
+
+export interface LocalCaptionOptions {
+  language: string; // Language.code the video is transcribed in
+  fontName: string;
+  textColor: string; // #RRGGBB
+  highlightColor: string; // #RRGGBB, the word being spoken
+}
+
+type WordTiming = { text: string; start_time: number; end_time: number };
+
+/**
+ * Local caption settings from a caption style - videos without one get the default look
+ */
+export function localCaptionsFromCaptionStyle(
+  captionStyle: { fontName: string; textColor: string; highlightColor: string } | null | undefined,
+  language: string
+): LocalCaptionOptions {
+  return {
+    language,
+    fontName: captionStyle?.fontName || 'Arial',
+    textColor: captionStyle?.textColor || '#FFFFFF',
+    highlightColor: captionStyle?.highlightColor || '#FFD400',
+  };
+}
+
+export type RenditionAspectRatio = 'SQUARE' | 'LANDSCAPE';
+
+export type RenditionFit = 'pad' | 'crop';
+
+export interface RenditionOptions {
+  aspectRatio: RenditionAspectRatio;
+  fit: RenditionFit; // pad: whole frame over a blurred copy, crop: fill and trim the edges
+}
+
+export interface RenditionResult {
+  aspectRatio: RenditionAspectRatio;
+  fit: RenditionFit; // As rendered - crop falls back to pad when the source already has captions
+  width: number;
+  height: number;
+  cloudfrontUrl?: string;
+  error?: string; // Set instead of cloudfrontUrl when the rendition failed
+}
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Frame size for a rendition - the source's short side is kept so no pixels are upscaled
+ */
+export function renditionFrameSize(
+  aspectRatio: RenditionAspectRatio,
+  sourceWidth: number,
+  sourceHeight: number
+): { width: number; height: number } {
+  const base = even(Math.min(sourceWidth, sourceHeight));
+  return aspectRatio === 'SQUARE' ? { width: base, height: base } : { width: even((base * 16) / 9), height: base };
+}
+
+/**
+ * Rendition options from stored renditions - portrait is the original video, not a rendition
+ */
+export function renditionOptionsFromRecords(
+  renditions: { aspectRatio: string; fit: string }[] | null | undefined
+): RenditionOptions[] {
+  return (renditions ?? [])
+    .filter((rendition): rendition is { aspectRatio: RenditionAspectRatio; fit: string } =>
+      rendition.aspectRatio === 'SQUARE' || rendition.aspectRatio === 'LANDSCAPE'
+    )
+    .map((rendition) => ({
+      aspectRatio: rendition.aspectRatio,
+      fit: rendition.fit === 'crop' ? 'crop' : 'pad',
+    }));
+}
+
+// A caption line ends after this many words, a pause or a punctuation mark
+const CAPTION_MAX_WORDS = 4;
+const CAPTION_MAX_GAP = 0.6; // seconds
+const CAPTION_HOLD = 0.3; // seconds the last line stays up after its last word
+
+// #RRGGBB → ASS &HAABBGGRR
+const toAssColor = (hex: string) => {
+  const rgb = /^#?([0-9a-f]{6})$/i.exec(hex)?.[1] ?? 'FFFFFF';
+  return `&H00${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`.toUpperCase();
+};
+
+const toAssTime = (seconds: number) => {
+  const centiseconds = Math.max(0, Math.round(seconds * 100));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor(centiseconds / 6000) % 60;
+  const secs = Math.floor(centiseconds / 100) % 60;
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(centiseconds % 100)}`;
+};
+
+// Braces and backslashes start ASS override tags
+const escapeAssText = (text: string) => text.replace(/[{}\\]/g, '');
+
 /**
- * Video Post-Processing Service - Add bumpers and background music to videos
+ * Build an ASS subtitle file that shows a few words at a time and highlights the one being spoken
+ */
+function buildAssSubtitles(wordTimings: WordTiming[], options: LocalCaptionOptions, width: number, height: number): string {
+  const lines: WordTiming[][] = [];
+  let current: WordTiming[] = [];
+  for (const word of wordTimings) {
+    const previous = current[current.length - 1];
+    if (
+      current.length >= CAPTION_MAX_WORDS ||
+      (previous && (word.start_time - previous.end_time > CAPTION_MAX_GAP || /[.!?,;:]$/.test(previous.text)))
+    ) {
+      lines.push(current);
+      current = [];
+    }
+    current.push(word);
+  }
+  if (current.length > 0) lines.push(current);
+
+  const fontSize = Math.round(Math.min(width, height) * 0.075);
+  const textColor = toAssColor(options.textColor);
+  const highlightColor = toAssColor(options.highlightColor);
+
+  const events = lines.flatMap((line, lineIndex) => {
+    const nextLineStart = lines[lineIndex + 1]?.[0].start_time ?? Infinity;
+    return line.map((word, wordIndex) => {
+      const start = word.start_time;
+      const end = wordIndex < line.length - 1
+        ? line[wordIndex + 1].start_time
+        : Math.min(word.end_time + CAPTION_HOLD, nextLineStart);
+      const text = line
+        .map((w, i) => (i === wordIndex ? `{\\c${highlightColor}}${escapeAssText(w.text)}{\\c${textColor}}` : escapeAssText(w.text)))
+        .join(' ');
+      return `Dialogue: 0,${toAssTime(start)},${toAssTime(Math.max(end, start + 0.05))},Default,,0,0,0,,${text}`;
+    });
+  });
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    // Bold, black outline, bottom centre in the lower third
+    `Style: Default,${options.fontName},${fontSize},${textColor},${textColor},&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,${Math.max(2, Math.round(fontSize / 12))},0,2,${Math.round(width * 0.08)},${Math.round(width * 0.08)},${Math.round(height * 0.18)},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Video Post-Processing Service - Add captions, bumpers, logo watermark and background music to videos
  *
  * Uses FFmpeg for:
+ * - Burning word-highlighted captions into the main video when Submagic isn't used
+ * - Burning the caption style's logo into the main video (and bumpers that don't skip it)
  * - Converting image bumpers to video segments
  * - Concatenating start bumper + main video + end bumper
  * - Overlaying background music at specified volume
+ * - Reframing into square / landscape renditions, each with its own bumpers, logo and music
  */
 export class VideoPostProcessingService {
   /**
-   * Process a video by adding bumpers and/or background music
+   * Process a video by adding bumpers and/or background music, optionally in other aspect ratios
    *
    * @param params.videoUrl - URL of the main video (from Submagic or HeyGen)
    * @param params.startBumper - Optional start bumper configuration
    * @param params.endBumper - Optional end bumper configuration
    * @param params.music - Optional background music configuration
+   * @param params.watermark - Optional logo to burn into the video
+   * @param params.captions - Burn captions locally from an AWS Transcribe pass (when Submagic is skipped or failed)
+   * @param params.renditions - Square / landscape versions to render alongside the original
    * @param params.standaloneVideoId - StandaloneVideo ID for file organization
+   * @param params.videoOutputId - VideoOutput ID, when processing an edu video instead
    * @param params.organizationId - Organization ID for S3 path
-   * @returns CloudFront URL of the processed video
+   * @returns CloudFront URL of the processed video, and of each rendition
    */
   async processVideo(params: {
     videoUrl: string;
@@ -31,26 +225,40 @@ export class VideoPostProcessingService {
       mediaUrl: string;
       type: 'image' | 'video';
       duration?: number; // Required for images, optional for videos
+      skipWatermark?: boolean;
     };
     endBumper?: {
       mediaUrl: string;
       type: 'image' | 'video';
       duration?: number;
+      skipWatermark?: boolean;
     };
     music?: {
       audioUrl: string;
       volume: number; // 0-1 (e.g., 0.15 = 15%)
     };
-    standaloneVideoId: string;
+    watermark?: WatermarkOptions;
+    captions?: LocalCaptionOptions;
+    captionedSource?: boolean; // videoUrl already has captions burned in (Submagic)
+    renditions?: RenditionOptions[];
+    standaloneVideoId?: string;
+    videoOutputId?: string; // One of the two, used for temp files and the S3 path
     organizationId: string;
-  }): Promise<{ cloudfrontUrl: string; duration: number }> {
-    const { videoUrl, startBumper, endBumper, music, standaloneVideoId, organizationId } = params;
+  }): Promise<{ cloudfrontUrl: string; s3Url: string; duration: number; renditions: RenditionResult[]; wordTimings?: WordTiming[] }> {
+    const { videoUrl, startBumper, endBumper, music, watermark, captions, captionedSource, renditions = [], organizationId } = params;
+    const videoId = params.standaloneVideoId ?? params.videoOutputId;
+    if (!videoId) {
+      throw new Error('standaloneVideoId or videoOutputId is required');
+    }
 
     logger.info('Starting video post-processing', {
-      standaloneVideoId,
+      videoId,
       hasStartBumper: !!startBumper,
       hasEndBumper: !!endBumper,
       hasMusic: !!music,
+      hasWatermark: !!watermark,
+      hasLocalCaptions: !!captions,
+      renditions: renditions.map((rendition) => rendition.aspectRatio),
     });
 
     const tempDir = os.tmpdir();
@@ -58,7 +266,7 @@ export class VideoPostProcessingService {
 
     try {
       // Step 1: Download main video
-      const mainVideoPath = path.join(tempDir, `main_${standaloneVideoId}.mp4`);
+      const mainVideoPath = path.join(tempDir, `main_${videoId}.mp4`);
       await this.downloadFile(videoUrl, mainVideoPath);
       tempFiles.push(mainVideoPath);
 
@@ -71,83 +279,194 @@ export class VideoPostProcessingService {
         frameRate: mainVideoInfo.frameRate,
       });
 
-      // Step 2: Prepare bumpers if provided
-      const videosToConcat: string[] = [];
-
-      // Start bumper
-      if (startBumper) {
-        logger.info('Processing start bumper', { type: startBumper.type, duration: startBumper.duration });
-        const startBumperPath = await this.prepareBumper(
-          startBumper,
-          'start',
-          standaloneVideoId,
-          mainVideoInfo.width,
-          mainVideoInfo.height,
-          mainVideoInfo.frameRate,
-          tempFiles
-        );
-        videosToConcat.push(startBumperPath);
-      }
+      // Captions go on the main video only - word timings come from transcribing it
+      let captionedMainPath = mainVideoPath;
+      let wordTimings: WordTiming[] = [];
+      if (captions) {
+        wordTimings = await this.transcribeForCaptions(mainVideoPath, videoId, organizationId, captions.language);
+        if (wordTimings.length > 0) {
+          logger.info('Burning in local captions', { wordCount: wordTimings.length, language: captions.language });
+          const subtitlesPath = path.join(tempDir, `captions_${videoId}.ass`);
+          await fs.writeFile(
+            subtitlesPath,
+            buildAssSubtitles(wordTimings, captions, mainVideoInfo.width, mainVideoInfo.height)
+          );
+          tempFiles.push(subtitlesPath);
 
-      // Main video
-      videosToConcat.push(mainVideoPath);
-
-      // End bumper
-      if (endBumper) {
-        logger.info('Processing end bumper', { type: endBumper.type, duration: endBumper.duration });
-        const endBumperPath = await this.prepareBumper(
-          endBumper,
-          'end',
-          standaloneVideoId,
-          mainVideoInfo.width,
-          mainVideoInfo.height,
-          mainVideoInfo.frameRate,
-          tempFiles
-        );
-        videosToConcat.push(endBumperPath);
+          captionedMainPath = path.join(tempDir, `captioned_${videoId}.mp4`);
+          await this.burnSubtitles(mainVideoPath, subtitlesPath, captionedMainPath);
+          tempFiles.push(captionedMainPath);
+        } else {
+          logger.warn('No words transcribed, skipping local captions', { videoId });
+        }
       }
 
-      // Step 3: Concatenate videos if we have bumpers
-      let processedVideoPath = mainVideoPath;
-
-      if (videosToConcat.length > 1) {
-        logger.info('Concatenating videos', { count: videosToConcat.length });
-        processedVideoPath = path.join(tempDir, `concat_${standaloneVideoId}.mp4`);
-        await this.concatenateVideos(videosToConcat, processedVideoPath);
-        tempFiles.push(processedVideoPath);
+      // Logo, bumpers and music are downloaded once and reused for every frame size
+      let logoPath: string | null = null;
+      if (watermark) {
+        logoPath = path.join(tempDir, `logo_${videoId}${this.getExtension(watermark.logoUrl, 'image')}`);
+        await this.downloadFile(watermark.logoUrl, logoPath);
+        tempFiles.push(logoPath);
       }
 
-      // Step 4: Overlay background music if provided
+      const startBumperInput = startBumper ? await this.downloadBumper(startBumper, 'start', videoId, tempFiles) : null;
+      const endBumperInput = endBumper ? await this.downloadBumper(endBumper, 'end', videoId, tempFiles) : null;
+
+      let musicPath: string | null = null;
       if (music) {
-        logger.info('Overlaying background music', { volume: music.volume });
-        const musicPath = path.join(tempDir, `music_${standaloneVideoId}.mp3`);
+        musicPath = path.join(tempDir, `music_${videoId}.mp3`);
         await this.downloadFile(music.audioUrl, musicPath);
         tempFiles.push(musicPath);
+      }
 
-        const finalVideoPath = path.join(tempDir, `final_${standaloneVideoId}.mp4`);
-        await this.overlayAudio(processedVideoPath, musicPath, music.volume, finalVideoPath);
-        tempFiles.push(finalVideoPath);
-        processedVideoPath = finalVideoPath;
+      if (watermark) {
+        logger.info('Burning in logo watermark', { position: watermark.position, opacity: watermark.opacity });
       }
 
-      // Step 5: Get final video duration
+      // Where the main video starts in the output (after the start bumper) - the same for every frame size
+      let mainStartTime = 0;
+
+      // Bumpers + main video + music for one frame size. The logo is burned into each
+      // segment before concatenation, so bumpers that skip it stay clean
+      const render = async (mainPath: string, frame: { name: string; width: number; height: number }): Promise<string> => {
+        const withWatermark = async (inputPath: string, segment: string): Promise<string> => {
+          if (!watermark || !logoPath) return inputPath;
+          const outputPath = path.join(tempDir, `watermarked_${segment}_${frame.name}_${videoId}.mp4`);
+          await this.applyWatermark(inputPath, logoPath, watermark, frame.width, outputPath);
+          tempFiles.push(outputPath);
+          return outputPath;
+        };
+
+        const videosToConcat: string[] = [];
+
+        // Bumpers are fitted to the frame rather than reframed, so designed artwork is never cropped
+        if (startBumper && startBumperInput) {
+          logger.info('Processing start bumper', { type: startBumper.type, duration: startBumper.duration, frame: frame.name });
+          const startBumperPath = path.join(tempDir, `bumper_start_${frame.name}_${videoId}.mp4`);
+          await this.prepareBumper(startBumper, startBumperInput, startBumperPath, frame.width, frame.height, mainVideoInfo.frameRate);
+          tempFiles.push(startBumperPath);
+          mainStartTime = (await this.getVideoInfo(startBumperPath)).duration;
+          videosToConcat.push(startBumper.skipWatermark ? startBumperPath : await withWatermark(startBumperPath, 'start'));
+        }
+
+        const watermarkedMainPath = await withWatermark(mainPath, 'main');
+        videosToConcat.push(watermarkedMainPath);
+
+        if (endBumper && endBumperInput) {
+          logger.info('Processing end bumper', { type: endBumper.type, duration: endBumper.duration, frame: frame.name });
+          const endBumperPath = path.join(tempDir, `bumper_end_${frame.name}_${videoId}.mp4`);
+          await this.prepareBumper(endBumper, endBumperInput, endBumperPath, frame.width, frame.height, mainVideoInfo.frameRate);
+          tempFiles.push(endBumperPath);
+          videosToConcat.push(endBumper.skipWatermark ? endBumperPath : await withWatermark(endBumperPath, 'end'));
+        }
+
+        // Concatenate videos if we have bumpers
+        let processedVideoPath = watermarkedMainPath;
+        if (videosToConcat.length > 1) {
+          logger.info('Concatenating videos', { count: videosToConcat.length, frame: frame.name });
+          processedVideoPath = path.join(tempDir, `concat_${frame.name}_${videoId}.mp4`);
+          await this.concatenateVideos(videosToConcat, processedVideoPath);
+          tempFiles.push(processedVideoPath);
+        }
+
+        // Overlay background music if provided
+        if (music && musicPath) {
+          logger.info('Overlaying background music', { volume: music.volume, frame: frame.name });
+          const finalVideoPath = path.join(tempDir, `final_${frame.name}_${videoId}.mp4`);
+          await this.overlayAudio(processedVideoPath, musicPath, music.volume, finalVideoPath);
+          tempFiles.push(finalVideoPath);
+          processedVideoPath = finalVideoPath;
+        }
+
+        return processedVideoPath;
+      };
+
+      // Step 2: The video in its original frame
+      const processedVideoPath = await render(captionedMainPath, {
+        name: 'original',
+        width: mainVideoInfo.width,
+        height: mainVideoInfo.height,
+      });
+
+      // Step 3: Get final video duration
       const finalInfo = await this.getVideoInfo(processedVideoPath);
 
-      // Step 6: Upload to S3
+      // Step 4: Upload to S3
       logger.info('Uploading processed video to S3');
       const videoBuffer = await fs.readFile(processedVideoPath);
-      const filePath = `organizations/${organizationId}/videos/${standaloneVideoId}/final-video.mp4`;
+      const filePath = `organizations/${organizationId}/videos/${videoId}/final-video.mp4`;
       const uploadResult = await storageService.uploadFile(videoBuffer, filePath, 'video/mp4');
 
+      // Step 5: Other aspect ratios - the main video is reframed, then assembled like the original.
+      // Crop trims the bottom of the frame where captions sit: local captions are burned in after
+      // reframing, sized to the new frame, while captions already in the source can't be moved, so
+      // those renditions are padded instead. A failed rendition is reported back and doesn't fail the video
+      const renditionResults: RenditionResult[] = [];
+      for (const rendition of renditions) {
+        const { width, height } = renditionFrameSize(rendition.aspectRatio, mainVideoInfo.width, mainVideoInfo.height);
+        const name = rendition.aspectRatio.toLowerCase();
+        const fit: RenditionFit = captionedSource ? 'pad' : rendition.fit;
+        try {
+          logger.info('Rendering video rendition', { videoId, aspectRatio: rendition.aspectRatio, fit, width, height });
+          const reframedPath = path.join(tempDir, `reframed_${name}_${videoId}.mp4`);
+          await this.fitToFrame(mainVideoPath, fit, width, height, reframedPath);
+          tempFiles.push(reframedPath);
+
+          let framedMainPath = reframedPath;
+          if (captions && wordTimings.length > 0) {
+            const subtitlesPath = path.join(tempDir, `captions_${name}_${videoId}.ass`);
+            await fs.writeFile(subtitlesPath, buildAssSubtitles(wordTimings, captions, width, height));
+            tempFiles.push(subtitlesPath);
+
+            framedMainPath = path.join(tempDir, `captioned_${name}_${videoId}.mp4`);
+            await this.burnSubtitles(reframedPath, subtitlesPath, framedMainPath);
+            tempFiles.push(framedMainPath);
+          }
+
+          const renditionPath = await render(framedMainPath, { name, width, height });
+          const renditionUpload = await storageService.uploadFile(
+            await fs.readFile(renditionPath),
+            `organizations/${organizationId}/videos/${videoId}/final-video-${name}.mp4`,
+            'video/mp4'
+          );
+          renditionResults.push({ aspectRatio: rendition.aspectRatio, fit, width, height, cloudfrontUrl: renditionUpload.cloudfrontUrl });
+        } catch (error) {
+          logger.error('Video rendition failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            videoId,
+            aspectRatio: rendition.aspectRatio,
+          });
+          renditionResults.push({
+            aspectRatio: rendition.aspectRatio,
+            fit,
+            width,
+            height,
+            error: error instanceof Error ? error.message : 'Rendition failed',
+          });
+        }
+      }
+
       logger.info('Video post-processing complete', {
-        standaloneVideoId,
+        videoId,
         duration: finalInfo.duration,
         cloudfrontUrl: uploadResult.cloudfrontUrl,
+        renditionCount: renditionResults.filter((result) => result.cloudfrontUrl).length,
       });
 
       return {
         cloudfrontUrl: uploadResult.cloudfrontUrl,
+        s3Url: uploadResult.s3Url, // For transcribing the final video
         duration: Math.ceil(finalInfo.duration),
+        renditions: renditionResults,
+        // The caption transcription, on the final video's timeline - saves transcribing it again
+        wordTimings:
+          wordTimings.length > 0
+            ? wordTimings.map((word) => ({
+                ...word,
+                start_time: word.start_time + mainStartTime,
+                end_time: word.end_time + mainStartTime,
+              }))
+            : undefined,
       };
     } finally {
       // Cleanup temp files
@@ -207,26 +526,33 @@ export class VideoPostProcessingService {
   }
 
   /**
-   * Prepare a bumper for concatenation
-   * - For video bumpers: Re-encode to match main video specs
-   * - For image bumpers: Convert to video with specified duration
+   * Download a bumper once - it is fitted to each frame size by prepareBumper
    */
-  private async prepareBumper(
-    bumper: { mediaUrl: string; type: 'image' | 'video'; duration?: number },
+  private async downloadBumper(
+    bumper: { mediaUrl: string; type: 'image' | 'video' },
     position: 'start' | 'end',
-    standaloneVideoId: string,
-    targetWidth: number,
-    targetHeight: number,
-    targetFrameRate: number,
+    videoId: string,
     tempFiles: string[]
   ): Promise<string> {
-    const tempDir = os.tmpdir();
-    const inputPath = path.join(tempDir, `bumper_${position}_input_${standaloneVideoId}${this.getExtension(bumper.mediaUrl, bumper.type)}`);
+    const inputPath = path.join(os.tmpdir(), `bumper_${position}_input_${videoId}${this.getExtension(bumper.mediaUrl, bumper.type)}`);
     await this.downloadFile(bumper.mediaUrl, inputPath);
     tempFiles.push(inputPath);
+    return inputPath;
+  }
 
-    const outputPath = path.join(tempDir, `bumper_${position}_${standaloneVideoId}.mp4`);
-
+  /**
+   * Prepare a bumper for concatenation
+   * - For video bumpers: Re-encode to match main video specs
+   * - For image bumpers: Convert to video with specified duration
+   */
+  private async prepareBumper(
+    bumper: { type: 'image' | 'video'; duration?: number },
+    inputPath: string,
+    outputPath: string,
+    targetWidth: number,
+    targetHeight: number,
+    targetFrameRate: number
+  ): Promise<void> {
     if (bumper.type === 'image') {
       // Convert image to video
       const duration = bumper.duration || 3; // Default 3 seconds for images
@@ -235,9 +561,6 @@ export class VideoPostProcessingService {
       // Re-encode video bumper to match main video
       await this.reencodeVideo(inputPath, outputPath, targetWidth, targetHeight, targetFrameRate);
     }
-
-    tempFiles.push(outputPath);
-    return outputPath;
   }
 
   /**
@@ -340,6 +663,160 @@ export class VideoPostProcessingService {
     });
   }
 
+  /**
+   * Reframe a video to another aspect ratio
+   * - pad: the whole picture, centred over a blurred, zoomed copy filling the frame
+   * - crop: fill the frame and trim the edges, biased upwards to keep the presenter's face
+   */
+  private fitToFrame(
+    inputPath: string,
+    fit: RenditionFit,
+    targetWidth: number,
+    targetHeight: number,
+    outputPath: string
+  ): Promise<void> {
+    const filters = fit === 'crop'
+      ? [
+          `[0:v]scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=increase,crop=${targetWidth}:${targetHeight}:(iw-ow)/2:(ih-oh)/3,setsar=1,format=yuv420p[outv]`,
+        ]
+      : [
+          '[0:v]split=2[bgsrc][fgsrc]',
+          `[bgsrc]scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=increase,crop=${targetWidth}:${targetHeight},boxblur=20:2[bg]`,
+          `[fgsrc]scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=decrease[fg]`,
+          '[bg][fg]overlay=(W-w)/2:(H-h)/2,setsar=1,format=yuv420p[outv]',
+        ];
+
+    return new Promise((resolve, reject) => {
+      logger.debug('Reframing video', { inputPath, fit, targetWidth, targetHeight });
+
+      ffmpeg(inputPath)
+        .complexFilter(filters)
+        .outputOptions([
+          '-map [outv]',
+          '-map 0:a?',
+          '-c:v libx264',
+          '-preset fast',
+          '-pix_fmt yuv420p',
+          '-c:a copy',
+        ])
+        .output(outputPath)
+        .on('end', () => {
+          logger.debug('Video reframed', { outputPath });
+          resolve();
+        })
+        .on('error', (err) => {
+          logger.error('Video reframing failed', { error: err.message });
+          reject(err);
+        })
+        .run();
+    });
+  }
+
+  /**
+   * Word timings for local captions - AWS Transcribe reads from S3, so the video is uploaded
+   * next to the final one and deleted once transcribed
+   */
+  private async transcribeForCaptions(
+    videoPath: string,
+    videoId: string,
+    organizationId: string,
+    language: string
+  ): Promise<WordTiming[]> {
+    const videoBuffer = await fs.readFile(videoPath);
+    const upload = await storageService.uploadFile(
+      videoBuffer,
+      `organizations/${organizationId}/videos/${videoId}/caption-source.mp4`,
+      'video/mp4'
+    );
+    try {
+      const { wordTimings } = await awsTranscribeService.transcribeVideo(upload.s3Url, language);
+      return wordTimings;
+    } finally {
+      await storageService.deleteFile(upload.key).catch((error) => {
+        logger.warn('Failed to delete caption source video', {
+          key: upload.key,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }
+  }
+
+  /**
+   * Burn ASS subtitles into a video (requires FFmpeg built with libass)
+   */
+  private burnSubtitles(videoPath: string, subtitlesPath: string, outputPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      logger.debug('Burning subtitles', { videoPath, subtitlesPath });
+
+      ffmpeg(videoPath)
+        .videoFilters([`ass=${subtitlesPath}`])
+        .outputOptions([
+          '-c:v libx264',
+          '-preset fast',
+          '-pix_fmt yuv420p',
+          '-c:a copy',
+        ])
+        .output(outputPath)
+        .on('end', () => {
+          logger.debug('Subtitles burned in', { outputPath });
+          resolve();
+        })
+        .on('error', (err) => {
+          logger.error('Subtitle burn-in failed', { error: err.message });
+          reject(err);
+        })
+        .run();
+    });
+  }
+
+  /**
+   * Burn a logo into a video at one of the corners
+   * Logo is scaled relative to the video width so it looks the same across resolutions
+   */
+  private applyWatermark(
+    videoPath: string,
+    logoPath: string,
+    watermark: WatermarkOptions,
+    videoWidth: number,
+    outputPath: string
+  ): Promise<void> {
+    const logoWidth = Math.max(2, Math.round((videoWidth * watermark.scale) / 2) * 2);
+    const opacity = Math.min(1, Math.max(0, watermark.opacity));
+    const margin = Math.max(0, Math.round(watermark.margin));
+    const x = watermark.position.endsWith('left') ? `${margin}` : `main_w-overlay_w-${margin}`;
+    const y = watermark.position.startsWith('top') ? `${margin}` : `main_h-overlay_h-${margin}`;
+
+    return new Promise((resolve, reject) => {
+      logger.debug('Applying watermark', { videoPath, logoWidth, opacity, position: watermark.position });
+
+      ffmpeg()
+        .input(videoPath)
+        .input(logoPath)
+        .complexFilter([
+          `[1:v]scale=${logoWidth}:-1,format=rgba,colorchannelmixer=aa=${opacity}[logo]`,
+          `[0:v][logo]overlay=${x}:${y}:format=auto,format=yuv420p[outv]`,
+        ])
+        .outputOptions([
+          '-map [outv]',
+          '-map 0:a?',
+          '-c:v libx264',
+          '-preset fast',
+          '-pix_fmt yuv420p',
+          '-c:a copy',
+        ])
+        .output(outputPath)
+        .on('end', () => {
+          logger.debug('Watermark applied', { outputPath });
+          resolve();
+        })
+        .on('error', (err) => {
+          logger.error('Watermark failed', { error: err.message });
+          reject(err);
+        })
+        .run();
+    });
+  }
+
   /**
    * Generate a silent audio file (no lavfi required)
    */
@@ -1,8 +1,12 @@
 import { agentaOpenAIService } from '../external/agenta-openai.service';
 import { prisma } from '../../config/database';
+import { scriptRevisionService } from '../core/script-revision.service';
 import { VideoScriptsSchema } from '@repo/types';
 import { logger } from '@repo/logging';
+import { formatArticleOutline, resolveArticleDocument } from '@repo/article-content';
 import { getVideoCountForPrompt } from '@repo/config/limits';
+import { languageService } from '../core/language.service';
+import { glossaryService } from '../core/glossary.service';
 
 /**
  * Video Script Service - Generate video scripts only (no HeyGen)
@@ -49,7 +53,9 @@ export class VideoScriptService {
       const { videos: scriptList } = await this.generateVideoScripts(
         article.title,
         article.content,
-        language
+        formatArticleOutline(resolveArticleDocument(article)),
+        language,
+        await glossaryService.getPromptInstructions(organizationId, language, article.content)
       );
 
       if (!scriptList || scriptList.length === 0) {
@@ -76,6 +82,13 @@ export class VideoScriptService {
         },
       });
 
+      await scriptRevisionService.record({
+        outputType: 'video',
+        outputId,
+        snapshot: { title, content: script },
+        source: 'AI_REGENERATE',
+      });
+
       logger.info('Video script ready for review', { outputId });
     } catch (error) {
       logger.error('Video Script Generation Error', {
@@ -99,16 +112,10 @@ export class VideoScriptService {
   /**
    * Generate video scripts from article using Agenta prompts
    * Uses environment-based videoCount to save API credits in dev
+   * The outline lets the prompt spread multiple videos over the article's sections
    */
-  private async generateVideoScripts(title: string, content: string, language: string = 'ENGLISH') {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+  private async generateVideoScripts(title: string, content: string, outline: string, language: string = 'ENGLISH', glossary?: string) {
+    const languageName = await languageService.getLanguageName(language);
     const videoCount = getVideoCountForPrompt();
 
     logger.info('Requesting video scripts from AI', {
@@ -121,12 +128,14 @@ export class VideoScriptService {
       variables: {
         articleTitle: title,
         articleContent: content,
+        articleOutline: outline,
         languageName,
         videoCount,
       },
       schema: VideoScriptsSchema,
       schemaName: 'VideoScripts',
       temperature: 0.7,
+      systemPromptSuffix: glossary,
     });
   }
 }
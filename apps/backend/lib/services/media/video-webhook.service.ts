@@ -3,6 +3,8 @@ import { storageService } from '../core/storage.service';
 import { aiTaggingService } from '../ai-tagging.service';
 import { thumbnailService } from './thumbnail.service';
 import { bubbleGeneratorService } from './bubble-generator.service';
+import { captionTrackService } from './caption-track.service';
+import { standaloneVideoService } from './standalone-video.service';
 import { prisma } from '../../config/database';
 import { logger } from '@repo/logging';
 
@@ -19,8 +21,13 @@ export class VideoWebhookService {
    * Handle video completion webhook from HeyGen
    * Called when HeyGen notifies that a video is ready
    * Returns true on success, false on failure
+   * Word timings already transcribed while burning in captions are reused instead of transcribing again
    */
-  async handleVideoCompletion(heygenVideoId: string, videoUrl: string): Promise<boolean> {
+  async handleVideoCompletion(
+    heygenVideoId: string,
+    videoUrl: string,
+    knownWordTimings?: Array<{ text: string; start_time: number; end_time: number }>
+  ): Promise<boolean> {
     try {
       logger.info('Processing completed video', { heygenVideoId });
 
@@ -84,7 +91,13 @@ export class VideoWebhookService {
       // Get video metadata with AWS Transcribe (word-level timings)
       // Use S3 URL (not CloudFront) as Transcribe requires direct S3 access
       const language = videoOutput.submission.language || 'ENGLISH';
-      const { duration, transcript, wordTimings } = await this.getVideoMetadata(uploadResult.s3Url, language);
+      const { duration, transcript, wordTimings } = knownWordTimings?.length
+        ? {
+            duration: Math.ceil(knownWordTimings[knownWordTimings.length - 1].end_time),
+            transcript: knownWordTimings.map((word) => word.text).join(' '),
+            wordTimings: knownWordTimings,
+          }
+        : await this.getVideoMetadata(uploadResult.s3Url, language);
 
       // Generate bubble questions in the submission's language using word timings
       // Only generate if generateBubbles is not explicitly disabled
@@ -170,6 +183,9 @@ export class VideoWebhookService {
         videoOutputId: videoOutput.id
       });
 
+      // WebVTT / SRT sidecars for the player's caption toggle and downloads
+      await captionTrackService.generateForVideoOutput(videoOutput.id);
+
       // Auto-tag the video output (only for English)
       await aiTaggingService.tagVideoOutput(videoOutput.id);
 
@@ -271,7 +287,7 @@ export class VideoWebhookService {
 
       // Get video duration via transcription
       const language = standaloneVideo.language || 'ENGLISH';
-      const { duration } = await this.getVideoMetadata(uploadResult.s3Url, language);
+      const { duration, wordTimings } = await this.getVideoMetadata(uploadResult.s3Url, language);
 
       // Generate thumbnail
       let thumbnailUrl: string | null = null;
@@ -299,6 +315,9 @@ export class VideoWebhookService {
         },
       });
 
+      // Captions from the same transcription
+      await standaloneVideoService.saveTranscript(standaloneVideoId, uploadResult.s3Url, wordTimings);
+
       logger.info('Standalone video processed successfully (fallback path)', {
         standaloneVideoId,
         videoUrl: uploadResult.cloudfrontUrl,
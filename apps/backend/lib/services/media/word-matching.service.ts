@@ -1,6 +1,7 @@
 import { agentaOpenAIService } from '../external/agenta-openai.service';
 import { z } from 'zod';
 import { logger } from '@repo/logging';
+import { languageService } from '../core/language.service';
 
 // Zod schema for AI-based word selection
 const InteractiveWordSchema = z.object({
@@ -34,14 +35,7 @@ export class WordMatchingService {
     articleContent: string,
     language: string
   ): Promise<Array<{ word: string; distractor: string; explanation: string }>> {
-    const languageMap: Record<string, string> = {
-      ENGLISH: 'English',
-      MARATHI: 'Marathi',
-      HINDI: 'Hindi',
-      BENGALI: 'Bengali',
-      GUJARATI: 'Gujarati',
-    };
-    const languageName = languageMap[language] || 'English';
+    const languageName = await languageService.getLanguageName(language);
 
     const result = await agentaOpenAIService.generateStructured({
       promptSlug: 'generate_interactive_words_prompt',
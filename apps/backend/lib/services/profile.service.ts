@@ -1,6 +1,8 @@
 import { prisma } from "@/lib/config/database";
 import type { User } from "@supabase/supabase-js";
-import { MemberRole } from "@prisma/client";
+import { MemberRole, Prisma } from "@prisma/client";
+import { isOrgPermission, type OrgPermission } from "@/lib/context/permissions";
+import { languageService } from "@/lib/services/core/language.service";
 
 // Generate random 8-character join code
 function generateJoinCode(): string {
@@ -20,6 +22,26 @@ function generateSlug(name: string): string {
     .replace(/^-+|-+$/g, ""); // Remove leading/trailing hyphens
 }
 
+/**
+ * Validate a custom role payload
+ * Returns an error message, or null when valid
+ */
+export function validateCustomRoleInput(body: any): string | null {
+  if (typeof body.name !== "string" || body.name.trim().length === 0) {
+    return "Role name is required";
+  }
+  if (body.name.length > 50) {
+    return "Role name must be less than 50 characters";
+  }
+  if (body.description !== undefined && body.description !== null && typeof body.description !== "string") {
+    return "Invalid description";
+  }
+  if (!Array.isArray(body.permissions) || body.permissions.some((p: unknown) => typeof p !== "string")) {
+    return "Permissions must be a list of permission keys";
+  }
+  return null;
+}
+
 export const profileService = {
   /**
    * Upsert a user profile from Supabase auth user
@@ -140,15 +162,6 @@ export const profileService = {
    * @returns Created organization with membership
    */
   async createOrganization(userId: string, name: string) {
-    // Check if user already belongs to an organization
-    const existingMembership = await prisma.organizationMember.findUnique({
-      where: { profileId: userId },
-    });
-
-    if (existingMembership) {
-      throw new Error("User already belongs to an organization");
-    }
-
     // Generate unique slug (add number suffix if collision)
     let slug = generateSlug(name);
     let counter = 1;
@@ -181,6 +194,8 @@ export const profileService = {
         },
       });
 
+      await languageService.enableDefaultLanguages(org.id, tx);
+
       return { organization: org, membership };
     });
 
@@ -188,17 +203,38 @@ export const profileService = {
   },
 
   /**
-   * Get user's organization (if they belong to one)
+   * Get the organization a user should land in (if they belong to any)
    * @param userId - Profile ID
+   * @param preferredSlug - Last used org (e.g. from the current-org cookie), used when still a member
    * @returns Organization or null
    */
-  async getUserOrganization(userId: string) {
-    const membership = await prisma.organizationMember.findUnique({
+  async getUserOrganization(userId: string, preferredSlug?: string | null) {
+    const organizations = await this.getUserOrganizations(userId);
+    const preferred = preferredSlug ? organizations.find((org) => org.slug === preferredSlug) : undefined;
+
+    return preferred ?? organizations[0] ?? null;
+  },
+
+  /**
+   * Get all organizations a user belongs to, with their role in each
+   * @param userId - Profile ID
+   * @returns Organizations, oldest membership first
+   */
+  async getUserOrganizations(userId: string) {
+    const memberships = await prisma.organizationMember.findMany({
       where: { profileId: userId },
-      include: { organization: true },
+      include: {
+        organization: true,
+        customRole: { select: { id: true, name: true } },
+      },
+      orderBy: { joinedAt: "asc" },
     });
 
-    return membership?.organization ?? null;
+    return memberships.map((membership) => ({
+      ...membership.organization,
+      role: membership.role,
+      customRole: membership.customRole,
+    }));
   },
 
   /**
@@ -213,13 +249,13 @@ export const profileService = {
     profileId: string,
     role: MemberRole = "MEMBER"
   ) {
-    // Check if user already belongs to an organization
+    // Check if user already belongs to this organization
     const existingMembership = await prisma.organizationMember.findUnique({
-      where: { profileId },
+      where: { organizationId_profileId: { organizationId: orgId, profileId } },
     });
 
     if (existingMembership) {
-      throw new Error("User already belongs to an organization");
+      throw new Error("User is already a member of this organization");
     }
 
     return await prisma.organizationMember.create({
@@ -238,10 +274,10 @@ export const profileService = {
    */
   async removeMemberFromOrg(orgId: string, profileId: string) {
     const membership = await prisma.organizationMember.findUnique({
-      where: { profileId },
+      where: { organizationId_profileId: { organizationId: orgId, profileId } },
     });
 
-    if (!membership || membership.organizationId !== orgId) {
+    if (!membership) {
       throw new Error("User is not a member of this organization");
     }
 
@@ -250,7 +286,7 @@ export const profileService = {
     }
 
     await prisma.organizationMember.delete({
-      where: { profileId },
+      where: { id: membership.id },
     });
   },
 
@@ -266,10 +302,10 @@ export const profileService = {
     newRole: MemberRole
   ) {
     const membership = await prisma.organizationMember.findUnique({
-      where: { profileId },
+      where: { organizationId_profileId: { organizationId: orgId, profileId } },
     });
 
-    if (!membership || membership.organizationId !== orgId) {
+    if (!membership) {
       throw new Error("User is not a member of this organization");
     }
 
@@ -288,24 +324,133 @@ export const profileService = {
     }
 
     return await prisma.organizationMember.update({
-      where: { profileId },
+      where: { id: membership.id },
       data: { role: newRole },
     });
   },
 
+  /**
+   * Assign a custom role to a member, or clear it with null
+   * @param orgId - Organization ID
+   * @param profileId - Member's profile ID
+   * @param customRoleId - Custom role ID or null for the built-in role's permissions
+   */
+  async assignCustomRole(
+    orgId: string,
+    profileId: string,
+    customRoleId: string | null
+  ) {
+    const membership = await prisma.organizationMember.findUnique({
+      where: { organizationId_profileId: { organizationId: orgId, profileId } },
+    });
+
+    if (!membership) {
+      throw new Error("User is not a member of this organization");
+    }
+
+    if (customRoleId) {
+      const role = await prisma.organizationRole.findUnique({
+        where: { id: customRoleId },
+      });
+
+      if (!role || role.organizationId !== orgId) {
+        throw new Error("Role not found");
+      }
+    }
+
+    return await prisma.organizationMember.update({
+      where: { id: membership.id },
+      data: { customRoleId },
+    });
+  },
+
+  /**
+   * Get custom roles of an organization with their member counts
+   * @param orgId - Organization ID
+   */
+  async getCustomRoles(orgId: string) {
+    return await prisma.organizationRole.findMany({
+      where: { organizationId: orgId },
+      include: { _count: { select: { members: true } } },
+      orderBy: { name: "asc" },
+    });
+  },
+
+  /**
+   * Create or update a custom role
+   * Unknown permission keys are dropped
+   *
+   * @param orgId - Organization ID
+   * @param data - Role name, description and permissions
+   * @param roleId - Role to update (omit to create)
+   */
+  async saveCustomRole(
+    orgId: string,
+    data: { name: string; description?: string | null; permissions: string[] },
+    roleId?: string
+  ) {
+    const permissions: OrgPermission[] = Array.from(new Set(data.permissions.filter(isOrgPermission)));
+    const values = {
+      name: data.name.trim(),
+      description: data.description?.trim() || null,
+      permissions,
+    };
+
+    try {
+      if (!roleId) {
+        return await prisma.organizationRole.create({
+          data: { organizationId: orgId, ...values },
+        });
+      }
+
+      const role = await prisma.organizationRole.findUnique({ where: { id: roleId } });
+      if (!role || role.organizationId !== orgId) {
+        throw new Error("Role not found");
+      }
+
+      return await prisma.organizationRole.update({
+        where: { id: roleId },
+        data: values,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        throw new Error("A role with this name already exists");
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a custom role
+   * Members with the role fall back to their built-in role's permissions
+   *
+   * @param orgId - Organization ID
+   * @param roleId - Role ID
+   */
+  async deleteCustomRole(orgId: string, roleId: string) {
+    const role = await prisma.organizationRole.findUnique({ where: { id: roleId } });
+    if (!role || role.organizationId !== orgId) {
+      throw new Error("Role not found");
+    }
+
+    await prisma.organizationRole.delete({ where: { id: roleId } });
+    return role;
+  },
+
   /**
    * Leave an organization
    * User cannot leave if they are the owner
    *
    * @param userId - Profile ID
+   * @param orgId - Organization ID
    */
-  async leaveOrganization(userId: string) {
+  async leaveOrganization(userId: string, orgId: string) {
     const membership = await prisma.organizationMember.findUnique({
-      where: { profileId: userId },
+      where: { organizationId_profileId: { organizationId: orgId, profileId: userId } },
     });
 
     if (!membership) {
-      throw new Error("User is not a member of any organization");
+      throw new Error("User is not a member of this organization");
     }
 
     if (membership.role === "OWNER") {
@@ -313,7 +458,7 @@ export const profileService = {
     }
 
     await prisma.organizationMember.delete({
-      where: { profileId: userId },
+      where: { id: membership.id },
     });
   },
 
@@ -329,11 +474,15 @@ export const profileService = {
     newOwnerId: string
   ) {
     const [currentOwner, newOwner] = await Promise.all([
-      prisma.organizationMember.findUnique({ where: { profileId: currentOwnerId } }),
-      prisma.organizationMember.findUnique({ where: { profileId: newOwnerId } }),
+      prisma.organizationMember.findUnique({
+        where: { organizationId_profileId: { organizationId: orgId, profileId: currentOwnerId } },
+      }),
+      prisma.organizationMember.findUnique({
+        where: { organizationId_profileId: { organizationId: orgId, profileId: newOwnerId } },
+      }),
     ]);
 
-    if (!currentOwner || currentOwner.organizationId !== orgId) {
+    if (!currentOwner) {
       throw new Error("Current user is not a member of this organization");
     }
 
@@ -341,18 +490,18 @@ export const profileService = {
       throw new Error("Only the owner can transfer ownership");
     }
 
-    if (!newOwner || newOwner.organizationId !== orgId) {
+    if (!newOwner) {
       throw new Error("New owner is not a member of this organization");
     }
 
     // Transfer ownership in transaction
     await prisma.$transaction([
       prisma.organizationMember.update({
-        where: { profileId: currentOwnerId },
+        where: { id: currentOwner.id },
         data: { role: "ADMIN" },
       }),
       prisma.organizationMember.update({
-        where: { profileId: newOwnerId },
+        where: { id: newOwner.id },
         data: { role: "OWNER" },
       }),
     ]);
@@ -368,10 +517,10 @@ export const profileService = {
    */
   async deleteOrganization(orgId: string, ownerId: string) {
     const membership = await prisma.organizationMember.findUnique({
-      where: { profileId: ownerId },
+      where: { organizationId_profileId: { organizationId: orgId, profileId: ownerId } },
     });
 
-    if (!membership || membership.organizationId !== orgId) {
+    if (!membership) {
       throw new Error("User is not a member of this organization");
     }
 
@@ -29,6 +29,7 @@ export class SubmissionService {
     generateVideo?: boolean; // Script-first: generates script, user triggers video later
     generateQuiz?: boolean;
     generateInteractivePodcast?: boolean;
+    pipelineRunId?: string; // Set when a content pipeline run creates the submission
     // Note: videoCustomization removed - now set on edit page after script review
   }) {
     try {
@@ -70,6 +71,7 @@ export class SubmissionService {
             generateVideo: params.generateVideo ?? true,
             generateQuiz: params.generateQuiz ?? true,
             generateInteractivePodcast: generateInteractivePodcast,
+            pipelineRunId: params.pipelineRunId,
           },
         });
 
@@ -243,6 +245,7 @@ export class SubmissionService {
             bubbles: {
               orderBy: { appearsAt: 'asc' },
             },
+            renditions: true,
             tags: {
               include: {
                 tag: true,
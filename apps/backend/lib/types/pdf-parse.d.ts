@@ -0,0 +1,11 @@
+// pdf-parse ships without types - only the parts file extraction uses
+declare module 'pdf-parse' {
+  interface PdfParseResult {
+    numpages: number;
+    text: string;
+  }
+
+  function pdfParse(dataBuffer: Buffer): Promise<PdfParseResult>;
+
+  export default pdfParse;
+}
@@ -1,6 +1,6 @@
 import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
-import { extractOrgSlugFromPath, buildOrgUrl } from "@/lib/context/org-context";
+import { extractOrgSlugFromPath, buildOrgUrl, CURRENT_ORG_COOKIE } from "@/lib/context/org-context";
 import { profileService } from "@/lib/services/profile.service";
 
 export async function middleware(request: NextRequest) {
@@ -55,7 +55,8 @@ export async function middleware(request: NextRequest) {
     request.nextUrl.pathname.startsWith("/api/support") || // Skip for support widget (handles own auth)
     request.nextUrl.pathname.startsWith("/api/test/submagic") ||
     request.nextUrl.pathname.startsWith("/api/test/video-postprocessing") ||
-    request.nextUrl.pathname.startsWith("/api/test-outbound-ip") // Skip for IP test endpoint
+    request.nextUrl.pathname.startsWith("/api/test-outbound-ip") || // Skip for IP test endpoint
+    request.nextUrl.pathname.startsWith("/api/trpc") // Skip for widget tRPC API (authenticated by widget API key)
   ) {
     return supabaseResponse;
   }
@@ -91,34 +92,47 @@ export async function middleware(request: NextRequest) {
   // Skip organization checks for these paths
   const skipOrgCheck =
     request.nextUrl.pathname === "/login" ||
-    request.nextUrl.pathname === "/onboarding" ||
+    request.nextUrl.pathname.startsWith("/onboarding") ||
     request.nextUrl.pathname.startsWith("/join/") ||
     request.nextUrl.pathname.startsWith("/admin"); // Platform admin routes
 
   if (user && !skipOrgCheck) {
-    // Get user's organization membership
-    const userOrg = await profileService.getUserOrganization(user.id);
+    // Get user's organization memberships
+    const userOrgs = await profileService.getUserOrganizations(user.id);
 
     // Extract org slug from current path
     const currentOrgSlug = extractOrgSlugFromPath(request.nextUrl.pathname);
 
     // If user is not in any organization, redirect to onboarding
-    if (!userOrg) {
+    if (userOrgs.length === 0) {
       const url = request.nextUrl.clone();
       url.pathname = "/onboarding";
       return NextResponse.redirect(url);
     }
 
+    // Org the user last worked in, falling back to their first membership
+    const lastOrgSlug = request.cookies.get(CURRENT_ORG_COOKIE)?.value;
+    const userOrg = userOrgs.find((org) => org.slug === lastOrgSlug) ?? userOrgs[0];
+
     // Check if user is trying to access org-scoped routes
     if (currentOrgSlug) {
-      // Validate user has access to this org
-      // Since users can only be in one org, just check if it's their org
-      if (currentOrgSlug !== userOrg.slug) {
+      const isMember = userOrgs.some((org) => org.slug === currentOrgSlug);
+
+      if (isMember) {
+        // Remember it so non-org routes land here next time
+        if (currentOrgSlug !== lastOrgSlug) {
+          supabaseResponse.cookies.set(CURRENT_ORG_COOKIE, currentOrgSlug, {
+            path: "/",
+            sameSite: "lax",
+            maxAge: 60 * 60 * 24 * 365,
+          });
+        }
+      } else {
         // Check if user is platform admin (can access any org)
         const isAdmin = await profileService.isAdmin(user.id);
 
         if (!isAdmin) {
-          // Redirect to their own org
+          // Redirect to their current org
           const url = request.nextUrl.clone();
           const pathAfterOrg = request.nextUrl.pathname.replace(
             `/org/${currentOrgSlug}`,
@@ -156,7 +170,10 @@ export async function middleware(request: NextRequest) {
 
   // If user is logged in and tries to access login page, redirect to their org dashboard
   if (user && request.nextUrl.pathname === "/login") {
-    const userOrg = await profileService.getUserOrganization(user.id);
+    const userOrg = await profileService.getUserOrganization(
+      user.id,
+      request.cookies.get(CURRENT_ORG_COOKIE)?.value
+    );
     const url = request.nextUrl.clone();
 
     if (userOrg) {
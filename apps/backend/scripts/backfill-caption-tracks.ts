@@ -0,0 +1,77 @@
+/**
+ * Backfill Script: Generate Caption Tracks for Existing Media
+ *
+ * New videos and podcasts get WebVTT / SRT caption files when their media
+ * completes. This script generates them for completed outputs created before
+ * caption tracks existed. Outputs that already have tracks are skipped, so it
+ * is safe to re-run.
+ *
+ * Standalone videos created before caption tracks have no stored transcript,
+ * so each one is transcribed with AWS Transcribe first.
+ *
+ * Run with: npx tsx scripts/backfill-caption-tracks.ts
+ */
+
+import { prisma } from '../lib/config/database';
+import { captionTrackService } from '../lib/services/media/caption-track.service';
+import { standaloneVideoService } from '../lib/services/media/standalone-video.service';
+import { storageService } from '../lib/services/core/storage.service';
+
+async function main() {
+  console.log('🚀 Generating caption tracks for existing media...\n');
+
+  const missing = { status: 'COMPLETED' as const, captionsVttUrl: null };
+
+  const videos = await prisma.videoOutput.findMany({ where: missing, select: { id: true } });
+  let videoCount = 0;
+  for (const { id } of videos) {
+    if (await captionTrackService.generateForVideoOutput(id)) videoCount++;
+  }
+  console.log(`   ✅ Videos: ${videoCount}/${videos.length}`);
+
+  const podcasts = await prisma.podcastOutput.findMany({ where: missing, select: { id: true } });
+  let podcastCount = 0;
+  for (const { id } of podcasts) {
+    if (await captionTrackService.generateForPodcastOutput(id)) podcastCount++;
+  }
+  console.log(`   ✅ Podcasts: ${podcastCount}/${podcasts.length}`);
+
+  const interactivePodcasts = await prisma.interactivePodcastOutput.findMany({ where: missing, select: { id: true } });
+  let interactiveCount = 0;
+  for (const { id } of interactivePodcasts) {
+    if (await captionTrackService.generateForInteractivePodcast(id)) interactiveCount++;
+  }
+  console.log(`   ✅ Interactive podcasts: ${interactiveCount}/${interactivePodcasts.length}`);
+
+  const standaloneVideos = await prisma.standaloneVideo.findMany({
+    where: { ...missing, videoUrl: { not: null } },
+    select: { id: true, videoUrl: true, wordTimings: true },
+  });
+  let standaloneCount = 0;
+  for (const video of standaloneVideos) {
+    if (!video.wordTimings) {
+      // The CloudFront path is the S3 key
+      const key = decodeURIComponent(new URL(video.videoUrl!).pathname.slice(1));
+      await standaloneVideoService.saveTranscript(video.id, storageService.getS3Url(key));
+    } else {
+      await captionTrackService.generateForStandaloneVideo(video.id);
+    }
+    const { captionsVttUrl } = await prisma.standaloneVideo.findUniqueOrThrow({
+      where: { id: video.id },
+      select: { captionsVttUrl: true },
+    });
+    if (captionsVttUrl) standaloneCount++;
+  }
+  console.log(`   ✅ Standalone videos: ${standaloneCount}/${standaloneVideos.length}`);
+
+  console.log('\n✨ Backfill complete! Outputs without word timings or segments were skipped.\n');
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
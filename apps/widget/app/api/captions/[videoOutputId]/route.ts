@@ -0,0 +1,38 @@
+import { getServerTrpc } from "@/lib/trpc-server";
+
+/**
+ * GET /api/captions/[videoOutputId] - The video's WebVTT captions, served from the widget's origin
+ *
+ * A <track> from another origin only loads when the <video> is in CORS mode, which would also
+ * require CORS headers on the video files. Same-origin captions leave the video request untouched.
+ */
+export async function GET(
+  _request: Request,
+  props: { params: Promise<{ videoOutputId: string }> },
+) {
+  const { videoOutputId } = await props.params;
+
+  try {
+    // Same organization and publishing checks as the video page
+    const serverTrpc = await getServerTrpc();
+    const video = await serverTrpc.getVideoWithBubbles({ videoOutputId });
+    const track = video.captionTracks[0];
+    if (!track) {
+      return new Response("Captions not found", { status: 404 });
+    }
+
+    const response = await fetch(track.vttUrl);
+    if (!response.ok) {
+      return new Response("Captions not available", { status: 502 });
+    }
+
+    return new Response(await response.text(), {
+      headers: {
+        "Content-Type": "text/vtt; charset=utf-8",
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch {
+    return new Response("Captions not found", { status: 404 });
+  }
+}
@@ -1,12 +1,22 @@
 import { fetchRequestHandler } from "@trpc/server/adapters/fetch";
-import { widgetRouter } from "@repo/widget-api";
+import {
+  widgetRouter,
+  createWidgetContext,
+  getWidgetApiKeyFromRequest,
+  getWidgetLearnerTokenFromRequest,
+} from "@repo/widget-api";
 
 const handler = (req: Request) =>
   fetchRequestHandler({
     endpoint: "/api/trpc",
     req,
     router: widgetRouter,
-    createContext: () => ({}),
+    // Single-tenant deployments can fall back to a server-side WIDGET_API_KEY
+    createContext: () =>
+      createWidgetContext(
+        getWidgetApiKeyFromRequest(req) ?? process.env.WIDGET_API_KEY,
+        getWidgetLearnerTokenFromRequest(req),
+      ),
   });
 
 export { handler as GET, handler as POST };
@@ -1,4 +1,4 @@
-import { serverTrpc } from "../../../lib/trpc-server";
+import { getServerTrpc } from "../../../lib/trpc-server";
 import ArticleDisplay from "@/components/article/ArticleDisplay";
 
 interface ArticlePageProps {
@@ -10,6 +10,7 @@ export const dynamic = "force-dynamic";
 
 export default async function ArticlePage({ params }: ArticlePageProps) {
   const { id } = await params;
+  const serverTrpc = await getServerTrpc();
 
   // Fetch article, audio, and quiz on the server using vanilla tRPC client
   const [article, audioData, quizData] = await Promise.all([
@@ -1,10 +1,11 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
-import { InteractivePodcastPlayer, type PodcastData } from '@repo/interactive-podcast-player'
+import { InteractivePodcastPlayer, type PodcastData, type PromptAnswer } from '@repo/interactive-podcast-player'
 import { trpcReact, TRPCProvider } from '@/lib/trpc-react'
 import XPGainAnimation from '@/components/learning-hub/XPGainAnimation'
+import { useContentSession } from '@/hooks/useContentSession'
 import { addXP, XP_REWARDS } from '@/utils/xpManager'
 import {
   markContentCompleted,
@@ -21,6 +22,13 @@ function InteractivePodcastContent() {
   const [showXPAnimation, setShowXPAnimation] = useState(false)
   const [xpEarned, setXPEarned] = useState(0)
   const [promptIndex, setPromptIndex] = useState(0)
+  const analyticsSession = useContentSession('INTERACTIVE_PODCAST', podcastId)
+
+  // Stable so the player doesn't re-subscribe its audio listeners every render
+  const handleListenProgress = useCallback(
+    (listenPercent: number) => analyticsSession?.trackProgress(listenPercent),
+    [analyticsSession]
+  )
 
   useEffect(() => {
     document.body.style.overflow = 'hidden'
@@ -82,7 +90,9 @@ function InteractivePodcastContent() {
   }
 
   // Handler for when user answers a prompt
-  const handlePromptAnswer = (isCorrect: boolean) => {
+  const handlePromptAnswer = (isCorrect: boolean, prompt: PromptAnswer) => {
+    analyticsSession?.trackAnswer(prompt.segmentId, prompt.selectedOption, isCorrect)
+
     if (podcastId) {
       recordInteractivePromptAnswer(podcastId, promptIndex, isCorrect)
       setPromptIndex(prev => prev + 1)
@@ -98,6 +108,8 @@ function InteractivePodcastContent() {
       return
     }
 
+    analyticsSession?.trackComplete()
+
     // For now, just award XP on completion without checking prompts
     // since the InteractivePodcastPlayer doesn't integrate with our tracking yet
     if (!isContentCompleted(podcastId)) {
@@ -137,6 +149,7 @@ function InteractivePodcastContent() {
         onBack={() => router.push('/')}
         onComplete={handleComplete}
         onPromptAnswer={handlePromptAnswer}
+        onListenProgress={handleListenProgress}
       />
 
       {/* XP Gain Animation */}
@@ -2,39 +2,31 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import { trpc } from '@/lib/trpc'
 import './Login.css'
 
+/**
+ * Shown when the widget has no valid learner token
+ * Learners sign in through the host app, which opens the widget with a fresh signed token.
+ */
 function Login() {
-  const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const router = useRouter()
 
   useEffect(() => {
     // Check if already authenticated
-    const token = localStorage.getItem('authToken')
-    if (token) {
-      router.push('/')
-    }
+    trpc.getCurrentLearner
+      .query()
+      .then((session) => {
+        if (session.learner) {
+          router.push('/')
+        } else if (session.error) {
+          setError(session.error)
+        }
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not verify your session'))
   }, [router])
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault()
-    setError('') // Clear any previous errors
-
-    // Check password
-    if (password === "jioblackrock") {
-      localStorage.setItem('authToken', 'user-token')
-      router.push('/')
-    } else {
-      setError('Invalid password. Please try again.')
-    }
-  }
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setPassword(e.target.value)
-    if (error) setError('') // Clear error when user starts typing
-  }
-
   return (
     <div className="login-page">
       {/* Header with Logo */}
@@ -48,32 +40,15 @@ function Login() {
         <div className="login-container">
           <div className="login-card">
             <div className="login-welcome">
-              <h1 className="login-title">Welcome to the Demo JioBlackRock Learning Hub</h1>
-              {/* <p className="login-subtitle">Please sign in to continue your learning journey</p> */}
+              <h1 className="login-title">Welcome to the Learning Hub</h1>
+              <p className="login-subtitle">Please open the Learning Hub from the app to continue your learning journey</p>
             </div>
 
-            <form onSubmit={handleSubmit} className="login-form">
-              {error && (
-                <div className="error-message">
-                  {error}
-                </div>
-              )}
-
-              <div className="form-group">
-                <label htmlFor="password">Password</label>
-                <input
-                  type="password"
-                  id="password"
-                  value={password}
-                  onChange={handleInputChange}
-                  required
-                />
+            {error && (
+              <div className="error-message">
+                {error}
               </div>
-
-              <button type="submit" className="login-button">
-                Sign In
-              </button>
-            </form>
+            )}
           </div>
         </div>
       </div>
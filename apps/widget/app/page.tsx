@@ -1,4 +1,4 @@
-import { serverTrpc } from '../lib/trpc-server';
+import { getServerTrpc } from '../lib/trpc-server';
 import { TRPCProvider } from '../lib/trpc-react';
 import LearningHubClient from '@/components/learning-hub/LearningHubClient';
 
@@ -9,6 +9,7 @@ export const dynamic = 'force-dynamic';
 
 export default async function LearningHub() {
   // Fetch all content on the server using direct tRPC caller (no HTTP roundtrip!)
+  const serverTrpc = await getServerTrpc();
   const content = await serverTrpc.getLearningHubContent();
   console.log('[LearningHub] getLearningHubContent result:', {
     videos: content?.videos?.length,
@@ -1,4 +1,4 @@
-import { serverTrpc } from "@/lib/trpc-server";
+import { getServerTrpc } from "@/lib/trpc-server";
 import VideoPlayerWrapper from "@/components/video/VideoPlayerWrapper";
 
 interface VideoPageProps {
@@ -12,6 +12,7 @@ export const dynamic = "force-dynamic";
 
 export default async function VideoPage({ params }: VideoPageProps) {
   const { videoOutputId } = await params;
+  const serverTrpc = await getServerTrpc();
 
   const videoData = await serverTrpc.getVideoWithBubbles({
     videoOutputId,
@@ -23,6 +24,11 @@ export default async function VideoPage({ params }: VideoPageProps) {
     heygenVideoId: videoData.heygenVideoId ?? undefined,
     duration: videoData.duration ?? undefined,
     transcript: videoData.transcript ?? undefined,
+    // Served through the widget's origin - see app/api/captions
+    captionTracks: videoData.captionTracks.map((track) => ({
+      ...track,
+      vttUrl: `/api/captions/${videoOutputId}`,
+    })),
     bubbles: videoData.bubbles.map((bubble) => ({
       ...bubble,
       options: Array.isArray(bubble.options) ? bubble.options as string[] : [],
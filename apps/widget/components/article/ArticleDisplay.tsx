@@ -1,16 +1,21 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef, type MouseEvent } from 'react'
 import BackButton from '@/components/common/BackButton'
-import AudioArticlePlayer from './AudioArticlePlayer'
+import AudioArticlePlayer, { type AudioArticlePlayerHandle } from './AudioArticlePlayer'
 import { QuizPlayer, type Question } from '@repo/quiz-player'
-import { formatArticleContent, enhanceArticleReadability } from '@/utils/articleFormatting'
+import { renderArticleHtml, resolveArticleDocument, type MediaBlock } from '@repo/article-content'
+import { enhanceArticleReadability } from '@/utils/articleFormatting'
+import { alignSentences, markSentences, READ_ALONG_BLOCKS, SENTENCE_ATTRIBUTE, type WordTiming } from '@/utils/readAlong'
+import { startContentSession, type ContentSession } from '@/utils/analytics'
+import { useReadAlong } from '@/hooks/useReadAlong'
 import './ArticleDisplay.css'
 
 interface Article {
   id: string
   title: string
   content: string
+  contentDocument?: unknown // Structured document for articles written in the editor
   category: string
   createdAt: string | Date
   updatedAt: string | Date
@@ -20,6 +25,7 @@ interface Article {
 interface AudioData {
   audioUrl: string
   duration: number | null
+  wordTimings?: WordTiming[] | null
 }
 
 interface QuizData {
@@ -34,27 +40,84 @@ interface ArticleDisplayProps {
 
 function ArticleDisplay({ article, audioData, quizData }: ArticleDisplayProps) {
   const [isQuizModalOpen, setIsQuizModalOpen] = useState(false)
-  const [formattedContent, setFormattedContent] = useState(article.content)
+  const [quizSession, setQuizSession] = useState<ContentSession | null>(null)
+  // Rendered from the structured document - free-form content is converted, never injected as-is
+  const articleHtml = useMemo(() => {
+    const mediaHref = (block: MediaBlock) => {
+      if (block.mediaType === 'video') return `/video/${block.mediaId}?returnTo=/article/${article.id}`
+      if (block.mediaType === 'interactive_podcast') return `/interactive-podcasts?id=${block.mediaId}`
+      return null
+    }
+    return renderArticleHtml(resolveArticleDocument(article), { mediaHref })
+  }, [article])
+
+  const [formattedContent, setFormattedContent] = useState(articleHtml)
+  const [sentences, setSentences] = useState<string[]>([])
+  const [currentTime, setCurrentTime] = useState(0)
+  const [hasStartedListening, setHasStartedListening] = useState(false)
   const articleTextRef = useRef<HTMLDivElement>(null)
+  const playerRef = useRef<AudioArticlePlayerHandle>(null)
+
+  const wordTimings = audioData?.wordTimings
+  const hasReadAlong = !!wordTimings && wordTimings.length > 0
+
+  // When each sentence is spoken - null when the audio has no word timings
+  const sentenceStarts = useMemo(
+    () => (hasReadAlong && sentences.length > 0 ? alignSentences(sentences, wordTimings!) : null),
+    [hasReadAlong, sentences, wordTimings]
+  )
+
+  useReadAlong(articleTextRef, sentenceStarts, currentTime, hasStartedListening)
+
+  const handlePlayStateChange = useCallback((isPlaying: boolean) => {
+    if (isPlaying) setHasStartedListening(true)
+  }, [])
 
   // Format article content on mount (client-side only)
   useEffect(() => {
     if (typeof window !== 'undefined') {
       try {
-        // First break up long paragraphs (this also converts plain text to HTML)
-        let formatted = formatArticleContent(article.content)
+        // Enhance readability with classes
+        let formatted = enhanceArticleReadability(articleHtml)
 
-        // Then enhance readability with classes
-        formatted = enhanceArticleReadability(formatted)
+        // Mark sentences so they can follow the narration
+        if (hasReadAlong) {
+          const marked = markSentences(formatted)
+          formatted = marked.html
+          setSentences(marked.sentences)
+        }
 
         setFormattedContent(formatted)
       } catch (error) {
         console.error('Error formatting article content:', error)
-        // Fall back to original content
-        setFormattedContent(article.content)
+        // Fall back to the plain rendering
+        setFormattedContent(articleHtml)
       }
     }
-  }, [article.content])
+  }, [articleHtml, hasReadAlong])
+
+  // Tapping a paragraph plays the narration from its first sentence
+  const handleTextClick = (event: MouseEvent<HTMLDivElement>) => {
+    if (!sentenceStarts) return
+
+    const target = event.target as HTMLElement
+    if (target.closest('a')) return
+
+    const block = target.closest(READ_ALONG_BLOCKS)
+    const firstSentence = block?.querySelector(`[${SENTENCE_ATTRIBUTE}]`)
+    if (!firstSentence) return
+
+    const index = Number(firstSentence.getAttribute(SENTENCE_ATTRIBUTE))
+    setHasStartedListening(true)
+    playerRef.current?.seek(sentenceStarts[index])
+  }
+
+  const handleOpenQuiz = () => {
+    const quizOutputId = quizData?.questions[0]?.quizOutputId
+    // Each time the quiz is opened counts as a new attempt
+    setQuizSession(quizOutputId ? startContentSession('QUIZ', quizOutputId) : null)
+    setIsQuizModalOpen(true)
+  }
 
   return (
     <div className="article-reader">
@@ -91,12 +154,19 @@ function ArticleDisplay({ article, audioData, quizData }: ArticleDisplayProps) {
 
           {/* Audio player - positioned after meta, before content */}
           {audioData && (
-            <AudioArticlePlayer audioUrl={audioData.audioUrl} />
+            <AudioArticlePlayer
+              ref={playerRef}
+              audioUrl={audioData.audioUrl}
+              hasReadAlong={!!sentenceStarts}
+              onTimeUpdate={setCurrentTime}
+              onPlayStateChange={handlePlayStateChange}
+            />
           )}
 
           <div
             ref={articleTextRef}
-            className="article-text"
+            className={`article-text ${sentenceStarts ? 'article-text--read-along' : ''}`}
+            onClick={handleTextClick}
             dangerouslySetInnerHTML={{ __html: formattedContent }}
           />
 
@@ -105,7 +175,7 @@ function ArticleDisplay({ article, audioData, quizData }: ArticleDisplayProps) {
             <div className="article-quiz-section">
               <button
                 className="article-quiz-button"
-                onClick={() => setIsQuizModalOpen(true)}
+                onClick={handleOpenQuiz}
               >
                 <span className="article-quiz-button-icon">📝</span>
                 <span className="article-quiz-button-text">Take Quiz</span>
@@ -123,6 +193,10 @@ function ArticleDisplay({ article, audioData, quizData }: ArticleDisplayProps) {
         <QuizPlayer
           questions={quizData.questions}
           onClose={() => setIsQuizModalOpen(false)}
+          onAnswer={(question, selectedAnswer, isCorrect) =>
+            quizSession?.trackAnswer(question.id, String(selectedAnswer), isCorrect)
+          }
+          onComplete={() => quizSession?.trackComplete()}
         />
       )}
     </div>
@@ -1,76 +1,110 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react'
 import './AudioArticlePlayer.css'
 
 interface AudioArticlePlayerProps {
   audioUrl: string
+  hasReadAlong?: boolean // Word timings exist - the article text follows the narration
+  onTimeUpdate?: (currentTime: number) => void
+  onPlayStateChange?: (isPlaying: boolean) => void
 }
 
-function AudioArticlePlayer({ audioUrl }: AudioArticlePlayerProps) {
-  const [isPlaying, setIsPlaying] = useState(false)
-  const audioRef = useRef<HTMLAudioElement>(null)
+export interface AudioArticlePlayerHandle {
+  seek: (time: number) => void // Jump to a time (seconds) and play from there
+}
+
+const AudioArticlePlayer = forwardRef<AudioArticlePlayerHandle, AudioArticlePlayerProps>(
+  function AudioArticlePlayer({ audioUrl, hasReadAlong = false, onTimeUpdate, onPlayStateChange }, ref) {
+    const [isPlaying, setIsPlaying] = useState(false)
+    const audioRef = useRef<HTMLAudioElement>(null)
+
+    useImperativeHandle(ref, () => ({
+      seek: (time: number) => {
+        const audio = audioRef.current
+        if (!audio) return
+
+        audio.currentTime = time
+        onTimeUpdate?.(time)
+        audio.play()
+        setIsPlaying(true)
+      },
+    }), [onTimeUpdate])
+
+    // Cleanup audio on unmount (handles back press)
+    useEffect(() => {
+      const audio = audioRef.current
+      return () => {
+        if (audio) {
+          audio.pause()
+          audio.currentTime = 0
+        }
+      }
+    }, [])
+
+    useEffect(() => {
+      onPlayStateChange?.(isPlaying)
+    }, [isPlaying, onPlayStateChange])
+
+    const togglePlayPause = () => {
+      const audio = audioRef.current
+      if (!audio) return
 
-  // Cleanup audio on unmount (handles back press)
-  useEffect(() => {
-    const audio = audioRef.current
-    return () => {
-      if (audio) {
+      if (isPlaying) {
         audio.pause()
-        audio.currentTime = 0
+        setIsPlaying(false)
+      } else {
+        audio.play()
+        setIsPlaying(true)
       }
     }
-  }, [])
-
-  const togglePlayPause = () => {
-    const audio = audioRef.current
-    if (!audio) return
-
-    if (isPlaying) {
-      audio.pause()
-      setIsPlaying(false)
-    } else {
-      audio.play()
-      setIsPlaying(true)
-    }
-  }
 
-  // Handle when audio ends
-  useEffect(() => {
-    const audio = audioRef.current
-    if (!audio) return
+    // Handle when audio ends
+    useEffect(() => {
+      const audio = audioRef.current
+      if (!audio) return
 
-    const handleEnded = () => setIsPlaying(false)
-    audio.addEventListener('ended', handleEnded)
+      const handleEnded = () => setIsPlaying(false)
+      audio.addEventListener('ended', handleEnded)
 
-    return () => {
-      audio.removeEventListener('ended', handleEnded)
-    }
-  }, [])
-
-  return (
-    <div className="audio-article-player">
-      <audio ref={audioRef} src={audioUrl} />
-
-      <div className="audio-player-content">
-        <span className="audio-player-label">🎧 Listen to this article</span>
-        <button
-          className={`audio-toggle-button ${isPlaying ? 'playing' : ''}`}
-          onClick={togglePlayPause}
-          aria-label={isPlaying ? 'Pause audio' : 'Play audio'}
-        >
-          {isPlaying ? (
-            <div className="pause-icon">
-              <span></span>
-              <span></span>
-            </div>
-          ) : (
-            <div className="play-icon"></div>
-          )}
-        </button>
+      return () => {
+        audio.removeEventListener('ended', handleEnded)
+      }
+    }, [])
+
+    return (
+      <div className="audio-article-player">
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          onTimeUpdate={(e) => onTimeUpdate?.(e.currentTarget.currentTime)}
+        />
+
+        <div className="audio-player-content">
+          <div className="audio-player-text">
+            <span className="audio-player-label">🎧 Listen to this article</span>
+            {hasReadAlong && (
+              <span className="audio-player-hint">Tap a paragraph to listen from there</span>
+            )}
+          </div>
+          <button
+            className={`audio-toggle-button ${isPlaying ? 'playing' : ''}`}
+            onClick={togglePlayPause}
+            aria-label={isPlaying ? 'Pause audio' : 'Play audio'}
+          >
+            {isPlaying ? (
+              <div className="pause-icon">
+                <span></span>
+                <span></span>
+              </div>
+            ) : (
+              <div className="play-icon"></div>
+            )}
+          </button>
+        </div>
       </div>
-    </div>
-  )
-}
+    )
+  }
+)
 
 export default AudioArticlePlayer
@@ -5,6 +5,8 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/hooks/useAuth';
 import { getXPData } from '@/utils/xpManager';
+import { syncLearnerProgress } from '@/utils/completionTracker';
+import { getCachedStreak } from '@/utils/learnerSync';
 import LearningHubHeader from './LearningHubHeader';
 import SearchModal from './SearchModal';
 import WelcomeSection from './WelcomeSection';
@@ -47,34 +49,30 @@ function LearningHubClient({ initialContent }: LearningHubClientProps) {
   const [activePodcast, setActivePodcast] = useState<string | null>(null);
   const [showStreakModal, setShowStreakModal] = useState(false);
   const [showXPModal, setShowXPModal] = useState(false);
-  const [streakCount, setStreakCount] = useState(3);
+  const [streakCount, setStreakCount] = useState(0);
   const [xpData, setXPData] = useState(getXPData());
   const [activeFilter, setActiveFilter] = useState<'fundamentals' | 'market-updates'>('fundamentals');
   const [isSearchExpanded, setIsSearchExpanded] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
 
-  // Handle webview authentication and first-time visit check
+  // First-time visit check and learner state sync (re-run when the host app passes a new learner token)
   useEffect(() => {
-    const isWebview = searchParams?.get('webview') === 'true';
-
-    if (isWebview) {
-      localStorage.setItem('authToken', 'webview-token');
-    }
-
     const hasSeenStreakModal = localStorage.getItem('hasSeenStreakModal');
 
     if (!hasSeenStreakModal) {
       setShowStreakModal(true);
-      setStreakCount(1);
-    } else {
-      const savedStreak = localStorage.getItem('userStreak');
-      if (savedStreak) {
-        setStreakCount(parseInt(savedStreak, 10));
-      }
     }
 
-    // Load XP data
+    // Show cached values right away, then refresh from the learner's server-side state
+    setStreakCount(getCachedStreak());
     setXPData(getXPData());
+
+    syncLearnerProgress().then((state) => {
+      if (state) {
+        setStreakCount(state.streak.current);
+        setXPData(getXPData());
+      }
+    });
   }, [searchParams]);
 
   // Refresh XP data when returning to page
@@ -123,7 +121,6 @@ function LearningHubClient({ initialContent }: LearningHubClientProps) {
   const handleCloseStreakModal = () => {
     setShowStreakModal(false);
     localStorage.setItem('hasSeenStreakModal', 'true');
-    localStorage.setItem('userStreak', '1');
   };
 
   useAuth();
@@ -309,7 +306,7 @@ function LearningHubClient({ initialContent }: LearningHubClientProps) {
       </motion.div>
 
       {/* Streak Modal */}
-      <StreakModal isOpen={showStreakModal} onClose={handleCloseStreakModal} />
+      <StreakModal isOpen={showStreakModal} onClose={handleCloseStreakModal} streakCount={streakCount} />
 
       {/* XP Modal */}
       <XPModal isOpen={showXPModal} onClose={handleCloseXPModal} />
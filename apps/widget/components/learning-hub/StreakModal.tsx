@@ -6,9 +6,13 @@ import './StreakModal.css'
 interface StreakModalProps {
     isOpen: boolean
     onClose: () => void
+    streakCount: number
 }
 
-function StreakModal({ isOpen, onClose }: StreakModalProps) {
+function StreakModal({ isOpen, onClose, streakCount }: StreakModalProps) {
+    // Days of activity recorded on the server - a brand new learner starts their first day
+    const displayStreak = Math.max(streakCount, 1)
+
     const overlayVariants = {
         hidden: { opacity: 0 },
         visible: { 
@@ -133,7 +137,7 @@ function StreakModal({ isOpen, onClose }: StreakModalProps) {
                                     className="streak-number"
                                     variants={itemVariants}
                                 >
-                                    1
+                                    {displayStreak}
                                 </motion.span>
                             </motion.div>
 
@@ -141,7 +145,7 @@ function StreakModal({ isOpen, onClose }: StreakModalProps) {
                                 className="streak-title"
                                 variants={itemVariants}
                             >
-                                You've Started a Streak! 🎉
+                                {displayStreak > 1 ? `${displayStreak}-Day Streak! 🎉` : "You've Started a Streak! 🎉"}
                             </motion.h2>
 
                             <motion.div 
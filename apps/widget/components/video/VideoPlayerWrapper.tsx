@@ -3,6 +3,7 @@
 import { useSearchParams, useRouter } from 'next/navigation'
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { useContentSession } from '@/hooks/useContentSession'
 import { useChatContext } from '@/hooks/useChatContext'
 import { VideoPlayer, type Video } from '@repo/video-player'
 import BackButton from '@/components/common/BackButton'
@@ -21,6 +22,7 @@ function VideoPlayerWrapper({ video }: VideoPlayerWrapperProps) {
   const { addWatchedVideo, resetForNewVideo } = useChatContext()
 
   useAuth()
+  const analyticsSession = useContentSession('VIDEO', video?.id)
 
   const returnTo = searchParams?.get('returnTo') || '/'
   const skipQuestions = searchParams?.get('skipQuestions') === 'true'
@@ -40,6 +42,8 @@ function VideoPlayerWrapper({ video }: VideoPlayerWrapperProps) {
       setHasCompleted(true)
       console.log('[XP Debug] Video completed:', completedVideoId)
 
+      analyticsSession?.trackComplete()
+
       // Mark video as watched
       addWatchedVideo(completedVideoId)
 
@@ -105,11 +109,16 @@ function VideoPlayerWrapper({ video }: VideoPlayerWrapperProps) {
     }
   }
 
-  const handleBubbleAnswer = (bubbleId: string, isCorrect: boolean) => {
+  const handleBubbleAnswer = (bubbleId: string, isCorrect: boolean, selectedOption: number) => {
     console.log('[XP Debug] Bubble answered:', bubbleId, 'correct:', isCorrect)
     if (video?.id) {
       recordBubbleAnswer(video.id, bubbleId, isCorrect)
     }
+    analyticsSession?.trackAnswer(bubbleId, String(selectedOption), isCorrect)
+  }
+
+  const handleWatchProgress = (_videoId: string, watchPercent: number) => {
+    analyticsSession?.trackProgress(watchPercent)
   }
 
   const handleBack = () => {
@@ -135,6 +144,7 @@ function VideoPlayerWrapper({ video }: VideoPlayerWrapperProps) {
           onBookmark={handleBookmark}
           onShare={handleShare}
           onBubbleAnswer={handleBubbleAnswer}
+          onWatchProgress={handleWatchProgress}
         />
       </div>
 
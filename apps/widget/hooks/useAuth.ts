@@ -1,29 +1,45 @@
-import { useEffect } from 'react'
-import { useRouter, useSearchParams } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { LearnerIdentity } from '@repo/widget-api'
+import { trpc } from '@/lib/trpc'
 
+/**
+ * Learner session from the host app's signed learner token (?learnerToken= / header)
+ * The token is verified server-side - without a valid one the learner is sent to /login.
+ */
 export const useAuth = () => {
   const router = useRouter()
-  const searchParams = useSearchParams()
+  const [learner, setLearner] = useState<LearnerIdentity | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
 
   useEffect(() => {
-    const token = localStorage.getItem('authToken')
-    const isWebview = searchParams.get('webview') === 'true'
+    let cancelled = false
 
-    // If webview=true is present, token will be set by the component
-    // If not webview and no token, redirect to login
-    if (!isWebview && !token) {
-      router.push('/login')
+    trpc.getCurrentLearner
+      .query()
+      .then((session) => {
+        if (cancelled) return
+        setLearner(session.learner)
+        setIsLoading(false)
+
+        if (!session.learner) {
+          router.push('/login')
+        }
+      })
+      .catch(() => {
+        if (cancelled) return
+        setIsLoading(false)
+        router.push('/login')
+      })
+
+    return () => {
+      cancelled = true
     }
-  }, [router, searchParams])
+  }, [router])
 
   const isAuthenticated = () => {
-    return !!localStorage.getItem('authToken')
-  }
-
-  const logout = () => {
-    localStorage.removeItem('authToken')
-    router.push('/login')
+    return !!learner
   }
 
-  return { isAuthenticated, logout }
-}
\ No newline at end of file
+  return { learner, isLoading, isAuthenticated }
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { getCompletionData } from '@/utils/completionTracker'
+import { getCompletionData, LEARNER_PROGRESS_SYNCED_EVENT } from '@/utils/completionTracker'
 
 export function useContentCompletion(contentId: string) {
   const [completionInfo, setCompletionInfo] = useState<{
@@ -8,18 +8,26 @@ export function useContentCompletion(contentId: string) {
   } | null>(null)
 
   useEffect(() => {
-    const data = getCompletionData(contentId)
-    if (data) {
-      setCompletionInfo({
-        completed: true,
-        xpEarned: data.xpEarned,
-      })
-    } else {
-      setCompletionInfo({
-        completed: false,
-        xpEarned: 0,
-      })
+    const loadCompletion = () => {
+      const data = getCompletionData(contentId)
+      if (data) {
+        setCompletionInfo({
+          completed: true,
+          xpEarned: data.xpEarned,
+        })
+      } else {
+        setCompletionInfo({
+          completed: false,
+          xpEarned: 0,
+        })
+      }
     }
+
+    loadCompletion()
+
+    // Re-read once the cache has been refreshed from the server
+    window.addEventListener(LEARNER_PROGRESS_SYNCED_EVENT, loadCompletion)
+    return () => window.removeEventListener(LEARNER_PROGRESS_SYNCED_EVENT, loadCompletion)
   }, [contentId])
 
   return completionInfo
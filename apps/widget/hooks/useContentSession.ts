@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react'
+import { startContentSession, type AnalyticsContentType, type ContentSession } from '@/utils/analytics'
+
+/**
+ * Track a viewing session for the given content (records a VIEW when the content changes)
+ */
+export function useContentSession(contentType: AnalyticsContentType, contentId: string | null | undefined) {
+  const [session, setSession] = useState<ContentSession | null>(null)
+
+  useEffect(() => {
+    if (!contentId) {
+      setSession(null)
+      return
+    }
+
+    setSession(startContentSession(contentType, contentId))
+  }, [contentType, contentId])
+
+  return session
+}
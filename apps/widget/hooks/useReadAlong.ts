@@ -0,0 +1,63 @@
+import { useEffect, useRef, type RefObject } from 'react'
+import { findActiveSentence, SENTENCE_ATTRIBUTE } from '@/utils/readAlong'
+
+const ACTIVE_CLASS = 'read-along-sentence--active'
+const MANUAL_SCROLL_PAUSE_MS = 4000 // Auto-scroll backs off while the reader scrolls themselves
+
+/**
+ * Highlight the sentence being narrated and keep it in view
+ *
+ * @param containerRef - Element holding the sentence-marked article HTML
+ * @param sentenceStarts - Start time (seconds) of each sentence, null without read-along
+ * @param currentTime - Current playback time
+ * @param enabled - Highlight only once the reader has started listening
+ */
+export function useReadAlong(
+  containerRef: RefObject<HTMLElement | null>,
+  sentenceStarts: number[] | null,
+  currentTime: number,
+  enabled: boolean
+) {
+  const lastManualScrollRef = useRef(0)
+  const activeIndex = enabled && sentenceStarts ? findActiveSentence(sentenceStarts, currentTime) : -1
+
+  // Track the reader's own scrolling
+  useEffect(() => {
+    if (!sentenceStarts) return
+
+    const handleManualScroll = () => {
+      lastManualScrollRef.current = Date.now()
+    }
+
+    window.addEventListener('wheel', handleManualScroll, { passive: true })
+    window.addEventListener('touchmove', handleManualScroll, { passive: true })
+    return () => {
+      window.removeEventListener('wheel', handleManualScroll)
+      window.removeEventListener('touchmove', handleManualScroll)
+    }
+  }, [sentenceStarts])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || activeIndex < 0) return
+
+    const spans = container.querySelectorAll<HTMLElement>(`[${SENTENCE_ATTRIBUTE}="${activeIndex}"]`)
+    spans.forEach(span => span.classList.add(ACTIVE_CLASS))
+
+    // Scroll only when the sentence drifts out of the comfortable reading band
+    const first = spans[0]
+    const recentlyScrolled = Date.now() - lastManualScrollRef.current < MANUAL_SCROLL_PAUSE_MS
+    if (first && !recentlyScrolled) {
+      const rect = first.getBoundingClientRect()
+      if (rect.top < 80 || rect.bottom > window.innerHeight * 0.75) {
+        first.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      }
+    }
+
+    return () => {
+      spans.forEach(span => span.classList.remove(ACTIVE_CLASS))
+    }
+  }, [containerRef, activeIndex])
+
+  return activeIndex
+}
@@ -1,32 +1,29 @@
-import { createCaller } from "@repo/widget-api";
-import { cache } from "react";
+import { createCaller, createWidgetContext, WIDGET_API_KEY_COOKIE, WIDGET_LEARNER_TOKEN_COOKIE } from "@repo/widget-api";
+import { cookies } from "next/headers";
 
 /**
  * Server-side tRPC caller for SSR and Server Components
  * This bypasses HTTP and calls procedures directly - no network roundtrip!
  *
+ * The caller is scoped to the organization of the widget API key stored in the
+ * request cookie (set by middleware from ?apiKey=), falling back to WIDGET_API_KEY.
+ * The learner token cookie (set from ?learnerToken=) identifies the current learner.
+ *
  * Usage in Server Components:
  * ```tsx
- * import { serverTrpc } from "@/lib/trpc-server";
+ * import { getServerTrpc } from "@/lib/trpc-server";
  *
  * export default async function Page() {
+ *   const serverTrpc = await getServerTrpc();
  *   const data = await serverTrpc.getLearningHubContent();
  *   return <div>{data.videos.length} videos</div>;
  * }
  * ```
  */
-export const serverTrpc = createCaller({});
+export async function getServerTrpc() {
+  const cookieStore = await cookies();
+  const apiKey = cookieStore.get(WIDGET_API_KEY_COOKIE)?.value ?? process.env.WIDGET_API_KEY;
+  const learnerToken = cookieStore.get(WIDGET_LEARNER_TOKEN_COOKIE)?.value;
 
-/**
- * Cached version - use this to deduplicate requests within a single render
- * React will automatically cache calls with the same parameters
- */
-// export const cachedServerTrpc = {
-//   getLearningHubContent: cache(() => serverTrpc.getLearningHubContent()),
-//   getTestSubmission: cache(() => serverTrpc.getTestSubmission()),
-//   getArticle: cache((input: { id: string }) => serverTrpc.getArticle(input)),
-//   getArticleAudio: cache((input: { articleId: string }) => serverTrpc.getArticleAudio(input)),
-//   getVideoWithBubbles: cache((input: { videoOutputId: string }) =>
-//     serverTrpc.getVideoWithBubbles(input)
-//   ),
-// };
+  return createCaller(await createWidgetContext(apiKey, learnerToken));
+}
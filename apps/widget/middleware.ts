@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+// Keep in sync with the query param / cookie names in @repo/widget-api
+// (imported by value here would pull Prisma into the edge runtime)
+const PERSISTED_PARAMS = [
+  { queryParam: "apiKey", cookie: "widget_api_key" },
+  { queryParam: "learnerToken", cookie: "widget_learner_token" },
+];
+
+/**
+ * Persist the widget API key and learner token passed by the host app (?apiKey=...&learnerToken=...)
+ * into cookies so SSR pages and client-side tRPC calls can send them on every request.
+ */
+export function middleware(request: NextRequest) {
+  const values = PERSISTED_PARAMS.map(({ queryParam, cookie }) => ({
+    cookie,
+    value: request.nextUrl.searchParams.get(queryParam),
+  })).filter((entry): entry is { cookie: string; value: string } => !!entry.value);
+
+  if (values.length === 0) {
+    return NextResponse.next();
+  }
+
+  // Make the values visible to server components rendering this same request
+  values.forEach(({ cookie, value }) => request.cookies.set(cookie, value));
+  const response = NextResponse.next({ request });
+
+  values.forEach(({ cookie, value }) => {
+    response.cookies.set(cookie, value, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      // Widget is embedded in third-party pages/webviews
+      sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
+      path: "/",
+    });
+  });
+
+  return response;
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|assets|favicon.ico).*)"],
+};
@@ -9,6 +9,7 @@ const nextConfig = {
   output: 'standalone',
   reactStrictMode: true,
   transpilePackages: [
+    '@repo/article-content',
     '@repo/video-player',
     '@repo/quiz-player',
     '@repo/interactive-podcast-player',
@@ -0,0 +1,111 @@
+/**
+ * Widget Analytics
+ * Queues consumption events (views, watch progress, completions, answers)
+ * and sends them to the widget API in batches
+ */
+
+import { trpc } from '@/lib/trpc'
+
+type TrackEventsInput = Parameters<typeof trpc.trackEvents.mutate>[0]
+export type AnalyticsEvent = TrackEventsInput['events'][number]
+export type AnalyticsContentType = AnalyticsEvent['contentType']
+
+const FLUSH_INTERVAL_MS = 5000
+const MAX_BATCH_SIZE = 50
+const TRACK_EVENTS_URL = '/api/trpc/trackEvents'
+
+let eventQueue: AnalyticsEvent[] = []
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+let unloadListenersAttached = false
+
+function createSessionId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Send all queued events
+ * When the page is being hidden/unloaded, sendBeacon is used so the request survives navigation.
+ */
+export function flushEvents(useBeacon: boolean = false): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer)
+    flushTimer = null
+  }
+
+  while (eventQueue.length > 0) {
+    const events = eventQueue.splice(0, MAX_BATCH_SIZE)
+
+    if (useBeacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+      const body = new Blob([JSON.stringify({ events })], { type: 'application/json' })
+      if (navigator.sendBeacon(TRACK_EVENTS_URL, body)) {
+        continue
+      }
+    }
+
+    trpc.trackEvents.mutate({ events }).catch((error) => {
+      // Analytics must never break playback
+      console.warn('[Analytics] Failed to send events:', error)
+    })
+  }
+}
+
+function attachUnloadListeners(): void {
+  if (unloadListenersAttached) {
+    return
+  }
+  unloadListenersAttached = true
+
+  window.addEventListener('pagehide', () => flushEvents(true))
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      flushEvents(true)
+    }
+  })
+}
+
+/**
+ * Queue a single event
+ */
+export function trackEvent(event: Omit<AnalyticsEvent, 'occurredAt'>): void {
+  if (typeof window === 'undefined') {
+    return
+  }
+
+  attachUnloadListeners()
+  eventQueue.push({ ...event, occurredAt: Date.now() })
+
+  if (eventQueue.length >= MAX_BATCH_SIZE) {
+    flushEvents()
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => flushEvents(), FLUSH_INTERVAL_MS)
+  }
+}
+
+/**
+ * Start tracking one viewing session of a piece of content
+ * Records a VIEW and returns helpers that tag follow-up events with the same session.
+ */
+export function startContentSession(contentType: AnalyticsContentType, contentId: string) {
+  const sessionId = createSessionId()
+  const base = { contentType, contentId, sessionId }
+
+  trackEvent({ ...base, eventType: 'VIEW' })
+
+  return {
+    sessionId,
+    trackProgress: (watchPercent: number) => {
+      trackEvent({ ...base, eventType: 'PROGRESS', watchPercent })
+    },
+    trackComplete: () => {
+      trackEvent({ ...base, eventType: 'COMPLETE', watchPercent: 100 })
+    },
+    trackAnswer: (itemId: string, selectedOption: string, isCorrect: boolean) => {
+      trackEvent({ ...base, eventType: 'ANSWER', itemId, selectedOption, isCorrect })
+    },
+  }
+}
+
+export type ContentSession = ReturnType<typeof startContentSession>
@@ -1,8 +1,12 @@
 /**
  * Completion Tracking System
  * Tracks completed videos and interactive podcasts with XP earned
+ * localStorage is a cache - every change is also recorded on the server (see learnerSync)
  */
 
+import { setTotalXP } from './xpManager'
+import { fetchLearnerState, pushAnswer, pushCompletion, type LearnerState } from './learnerSync'
+
 export type ContentType = 'video' | 'interactive-podcast'
 
 export interface CompletionData {
@@ -21,6 +25,14 @@ export interface ContentProgress {
 const COMPLETION_STORAGE_KEY = 'completedContent'
 const PROGRESS_STORAGE_KEY = 'contentProgress'
 
+// Dispatched on window after the cache is refreshed from the server
+export const LEARNER_PROGRESS_SYNCED_EVENT = 'learnerProgressSynced'
+
+const SERVER_CONTENT_TYPES: Record<ContentType, 'VIDEO' | 'INTERACTIVE_PODCAST'> = {
+  video: 'VIDEO',
+  'interactive-podcast': 'INTERACTIVE_PODCAST',
+}
+
 /**
  * Get all completed content from localStorage
  */
@@ -119,6 +131,13 @@ export function markContentCompleted(
   }
 
   saveCompletedContent(completed)
+
+  // Server decides the XP actually awarded - overwrite the optimistic local total
+  pushCompletion({ contentType: SERVER_CONTENT_TYPES[type], contentId, allCorrect }).then((result) => {
+    if (result) {
+      setTotalXP(result.totalXP)
+    }
+  })
 }
 
 /**
@@ -149,6 +168,8 @@ export function recordBubbleAnswer(
 
   progress[contentId].bubbles![bubbleId] = isCorrect
   saveContentProgress(progress)
+
+  pushAnswer({ contentId, answerType: 'VIDEO_BUBBLE', itemKey: bubbleId, isCorrect })
 }
 
 /**
@@ -171,6 +192,8 @@ export function recordQuizAnswer(
 
   progress[contentId].quizAnswers![questionIndex] = isCorrect
   saveContentProgress(progress)
+
+  pushAnswer({ contentId, answerType: 'QUIZ_QUESTION', itemKey: String(questionIndex), isCorrect })
 }
 
 /**
@@ -193,6 +216,8 @@ export function recordInteractivePromptAnswer(
 
   progress[contentId].interactivePrompts![promptIndex] = isCorrect
   saveContentProgress(progress)
+
+  pushAnswer({ contentId, answerType: 'INTERACTIVE_PROMPT', itemKey: String(promptIndex), isCorrect })
 }
 
 /**
@@ -289,6 +314,53 @@ export function getCompletionStats(): {
   }
 }
 
+/**
+ * Replace the local cache with the learner's state from the server
+ * Returns null (leaving the cache untouched) when the learner can't be synced.
+ */
+export async function syncLearnerProgress(): Promise<LearnerState | null> {
+  const state = await fetchLearnerState()
+  if (!state) {
+    return null
+  }
+
+  const completed: Record<string, CompletionData> = {}
+  state.completions.forEach((completion) => {
+    completed[completion.contentId] = {
+      type: completion.contentType === 'VIDEO' ? 'video' : 'interactive-podcast',
+      xpEarned: completion.xpEarned,
+      timestamp: new Date(completion.completedAt).toISOString(),
+      allCorrect: completion.allCorrect,
+    }
+  })
+
+  const progress: Record<string, ContentProgress> = {}
+  state.answers.forEach((answer) => {
+    const contentProgress = (progress[answer.contentId] ??= {})
+
+    if (answer.answerType === 'VIDEO_BUBBLE') {
+      contentProgress.bubbles = { ...contentProgress.bubbles, [answer.itemKey]: answer.isCorrect }
+    } else if (answer.answerType === 'QUIZ_QUESTION') {
+      contentProgress.quizAnswers = { ...contentProgress.quizAnswers, [Number(answer.itemKey)]: answer.isCorrect }
+    } else {
+      contentProgress.interactivePrompts = {
+        ...contentProgress.interactivePrompts,
+        [Number(answer.itemKey)]: answer.isCorrect,
+      }
+    }
+  })
+
+  saveCompletedContent(completed)
+  saveContentProgress(progress)
+  setTotalXP(state.totalXP)
+
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(LEARNER_PROGRESS_SYNCED_EVENT))
+  }
+
+  return state
+}
+
 /**
  * Reset all completion data (for testing/debugging)
  */
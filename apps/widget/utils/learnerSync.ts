@@ -0,0 +1,85 @@
+/**
+ * Learner Sync
+ * Talks to the widget API so progress, XP and streaks follow the learner across devices.
+ * The localStorage trackers (completionTracker, xpManager) are caches of this server state.
+ */
+
+import { trpc } from '@/lib/trpc'
+
+export type LearnerState = Awaited<ReturnType<typeof trpc.getLearnerState.query>>
+type CompletionInput = Parameters<typeof trpc.recordCompletion.mutate>[0]
+type AnswerInput = Parameters<typeof trpc.recordAnswer.mutate>[0]
+
+const STREAK_STORAGE_KEY = 'userStreak'
+
+/**
+ * Learner's IANA time zone, so streak days follow their local calendar
+ */
+export function getLearnerTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone
+  } catch (error) {
+    return undefined
+  }
+}
+
+/**
+ * Get the last streak reported by the server
+ */
+export function getCachedStreak(): number {
+  if (typeof window === 'undefined') {
+    return 0
+  }
+
+  const stored = localStorage.getItem(STREAK_STORAGE_KEY)
+  return stored ? parseInt(stored, 10) || 0 : 0
+}
+
+function saveStreak(streak: number): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(STREAK_STORAGE_KEY, String(streak))
+  }
+}
+
+/**
+ * Fetch the learner's full state from the server
+ * Returns null when the learner can't be synced (e.g. no learner ID / offline).
+ */
+export async function fetchLearnerState(): Promise<LearnerState | null> {
+  try {
+    const state = await trpc.getLearnerState.query({ timeZone: getLearnerTimeZone() })
+    saveStreak(state.streak.current)
+    return state
+  } catch (error) {
+    console.warn('[LearnerSync] Could not fetch learner state:', error)
+    return null
+  }
+}
+
+/**
+ * Record a completion on the server (XP is awarded server-side)
+ */
+export async function pushCompletion(
+  input: Omit<CompletionInput, 'timeZone'>
+): Promise<Awaited<ReturnType<typeof trpc.recordCompletion.mutate>> | null> {
+  try {
+    const result = await trpc.recordCompletion.mutate({ ...input, timeZone: getLearnerTimeZone() })
+    saveStreak(result.streak)
+    return result
+  } catch (error) {
+    console.warn('[LearnerSync] Could not record completion:', error)
+    return null
+  }
+}
+
+/**
+ * Record an answer to an interactive element on the server
+ */
+export async function pushAnswer(input: Omit<AnswerInput, 'timeZone'>): Promise<void> {
+  try {
+    const result = await trpc.recordAnswer.mutate({ ...input, timeZone: getLearnerTimeZone() })
+    saveStreak(result.streak)
+  } catch (error) {
+    console.warn('[LearnerSync] Could not record answer:', error)
+  }
+}
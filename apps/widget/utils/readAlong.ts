@@ -0,0 +1,184 @@
+/**
+ * Read-Along Utilities
+ *
+ * Sync the article text with its narration. The narration is a rewritten "speakable script",
+ * not the article verbatim, so sentences are matched to the transcribed words approximately
+ * and gaps are filled in proportionally to sentence length.
+ */
+
+export interface WordTiming {
+  text: string
+  start_time: number // Seconds
+  end_time: number
+}
+
+export const SENTENCE_ATTRIBUTE = 'data-sentence'
+
+// Block elements whose text is read out - tapping one seeks the audio
+export const READ_ALONG_BLOCKS = 'p, li, h2, h3, h4, blockquote'
+
+const ANCHOR_WORDS = 4 // Words from the start of a sentence looked for in the transcript
+const SEARCH_WINDOW = 200 // How far ahead in the transcript a sentence may start
+
+const SENTENCE_END = /[.!?]+["'”’)\]]*(?=\s|$)/g
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')
+}
+
+/**
+ * Wrap every sentence of the article in spans carrying its index.
+ * A sentence that crosses inline tags (links, bold) becomes several spans with the same index.
+ * Returns the marked HTML and the plain text of each sentence.
+ */
+export function markSentences(html: string): { html: string; sentences: string[] } {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  const sentences: string[] = []
+
+  // Only innermost blocks - an <li> wrapping a <p> is handled through the <p>
+  const blocks = Array.from(container.querySelectorAll<HTMLElement>(READ_ALONG_BLOCKS))
+    .filter(block => !block.querySelector(READ_ALONG_BLOCKS))
+
+  blocks.forEach(block => {
+    const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT)
+    const textNodes: Text[] = []
+    while (walker.nextNode()) textNodes.push(walker.currentNode as Text)
+
+    const text = textNodes.map(node => node.data).join('')
+
+    // Sentence boundaries as offsets into the block's text
+    const boundaries = [0]
+    for (const match of text.matchAll(SENTENCE_END)) {
+      boundaries.push(match.index! + match[0].length)
+    }
+    boundaries.push(text.length)
+
+    // Global index of each local sentence (null for whitespace-only stretches)
+    const indexes = boundaries.slice(0, -1).map((start, i) => {
+      const sentence = text.slice(start, boundaries[i + 1]).trim()
+      if (!sentence) return null
+      sentences.push(sentence)
+      return sentences.length - 1
+    })
+
+    let offset = 0
+    textNodes.forEach(node => {
+      const nodeStart = offset
+      const nodeEnd = offset + node.data.length
+      offset = nodeEnd
+
+      // Split the node wherever a sentence boundary falls inside it
+      const cuts = boundaries.filter(b => b > nodeStart && b < nodeEnd)
+      const edges = [nodeStart, ...cuts, nodeEnd]
+      const fragment = document.createDocumentFragment()
+
+      edges.slice(0, -1).forEach((start, i) => {
+        const piece = node.data.slice(start - nodeStart, edges[i + 1] - nodeStart)
+        const sentenceIndex = indexes[boundaries.findIndex((b, j) => start >= b && start < boundaries[j + 1])]
+
+        if (sentenceIndex === null || sentenceIndex === undefined || !piece.trim()) {
+          fragment.appendChild(document.createTextNode(piece))
+          return
+        }
+
+        const span = document.createElement('span')
+        span.setAttribute(SENTENCE_ATTRIBUTE, String(sentenceIndex))
+        span.className = 'read-along-sentence'
+        span.textContent = piece
+        fragment.appendChild(span)
+      })
+
+      node.replaceWith(fragment)
+    })
+  })
+
+  return { html: container.innerHTML, sentences }
+}
+
+/**
+ * Start time (seconds) of each sentence in the narration.
+ * Sentences found in the transcript anchor the timeline; the rest are interpolated by length.
+ */
+export function alignSentences(sentences: string[], wordTimings: WordTiming[]): number[] {
+  if (sentences.length === 0 || wordTimings.length === 0) return []
+
+  const spoken = wordTimings.map(word => normalizeWord(word.text))
+  const anchors: Array<number | null> = []
+  let cursor = 0
+
+  sentences.forEach(sentence => {
+    const words = sentence.split(/\s+/).map(normalizeWord).filter(Boolean)
+    const probe = words.slice(0, ANCHOR_WORDS)
+    let best = -1
+    let bestScore = 0
+
+    const limit = Math.min(spoken.length, cursor + SEARCH_WINDOW)
+    for (let i = cursor; i < limit && bestScore < probe.length; i++) {
+      const score = probe.filter((word, offset) => spoken[i + offset] === word).length
+      if (score > bestScore) {
+        best = i
+        bestScore = score
+      }
+    }
+
+    // A single matching word is too weak an anchor unless the sentence is that short
+    if (best >= 0 && bestScore >= Math.min(2, probe.length)) {
+      anchors.push(wordTimings[best].start_time)
+      cursor = best + Math.max(1, Math.floor(words.length / 2))
+    } else {
+      anchors.push(null)
+    }
+  })
+
+  // Interpolate unmatched sentences between their neighbours, weighted by length
+  const totalDuration = wordTimings[wordTimings.length - 1].end_time
+  const starts: number[] = []
+  let i = 0
+  while (i < sentences.length) {
+    if (anchors[i] !== null) {
+      starts.push(Math.max(anchors[i]!, starts[i - 1] ?? 0))
+      i++
+      continue
+    }
+
+    let next = i
+    while (next < sentences.length && anchors[next] === null) next++
+
+    const from = starts[i - 1] ?? 0
+    const to = next < sentences.length ? anchors[next]! : totalDuration
+    // The previous sentence also takes up part of the gap
+    const lengths = sentences.slice(Math.max(i - 1, 0), next).map(s => s.length)
+    const total = lengths.reduce((sum, length) => sum + length, 0) || 1
+    let elapsed = i > 0 ? lengths[0] : 0
+
+    for (let j = i; j < next; j++) {
+      starts.push(Math.max(from + ((to - from) * elapsed) / total, starts[j - 1] ?? 0))
+      elapsed += lengths[j - Math.max(i - 1, 0)]
+    }
+    i = next
+  }
+
+  return starts
+}
+
+/**
+ * Index of the sentence being spoken at `time`, or -1 before the first one
+ */
+export function findActiveSentence(starts: number[], time: number): number {
+  let low = 0
+  let high = starts.length - 1
+  let active = -1
+
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (starts[mid] <= time) {
+      active = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+
+  return active
+}
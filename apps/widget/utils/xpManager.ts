@@ -1,6 +1,7 @@
 /**
  * XP Management System
  * Handles experience points, leveling, and progress calculations
+ * XP is awarded by the server - localStorage holds a cache of the learner's total (see learnerSync)
  */
 
 export interface UserXPData {
@@ -141,6 +142,23 @@ export function addXP(amount: number): {
   }
 }
 
+/**
+ * Replace the cached total with the server's authoritative value
+ */
+export function setTotalXP(totalXP: number): UserXPData {
+  const newData: UserXPData = {
+    totalXP,
+    level: calculateLevel(totalXP),
+    lastUpdated: new Date().toISOString(),
+  }
+
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(newData))
+  }
+
+  return newData
+}
+
 /**
  * Get current level
  */
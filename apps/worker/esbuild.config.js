@@ -14,6 +14,7 @@ esbuild.build({
     'fluent-ffmpeg',
     'canvas',
     'sharp',
+    'pdf-parse', // Runs a self-test against a bundled fixture when it is not loaded via require
   ],
   // Resolve .ts files
   resolveExtensions: ['.ts', '.tsx', '.js', '.jsx', '.json'],
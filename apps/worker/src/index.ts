@@ -26,11 +26,22 @@ import { podcastMediaService } from '../../backend/lib/services/media/podcast-me
 import { interactivePodcastMediaService } from '../../backend/lib/services/media/interactive-podcast-media.service';
 // Standalone video service
 import { standaloneVideoService } from '../../backend/lib/services/media/standalone-video.service';
-// Video post-processing service (bumpers, music)
-import { videoPostProcessingService } from '../../backend/lib/services/media/video-postprocessing.service';
+// Video post-processing service (local captions, bumpers, logo watermark, music, renditions)
+import {
+  videoPostProcessingService,
+  watermarkFromCaptionStyle,
+  localCaptionsFromCaptionStyle,
+  renditionOptionsFromRecords,
+  type RenditionResult,
+} from '../../backend/lib/services/media/video-postprocessing.service';
 import { submissionService } from '../../backend/lib/services/submission.service';
 import { queueService } from '../../backend/lib/services/core/queue.service';
 import { timeoutMonitorService } from '../../backend/lib/services/core/timeout-monitor.service';
+import { contentAnalyticsService } from '../../backend/lib/services/analytics/content-analytics.service';
+import { publishingScheduleService } from '../../backend/lib/services/core/publishing-schedule.service';
+import { articleFeedService } from '../../backend/lib/services/core/article-feed.service';
+import { articleImportService } from '../../backend/lib/services/core/article-import.service';
+import { contentPipelineService } from '../../backend/lib/services/core/content-pipeline.service';
 import { prisma } from '../../backend/lib/config/database';
 import { validateConfig } from '../../backend/lib/config/constants';
 import { logger } from '@repo/logging';
@@ -53,6 +64,7 @@ interface ArticleThumbnailJobData {
 interface VideoCompletionJobData {
   heygenVideoId: string;
   videoUrl: string;
+  wordTimings?: Array<{ text: string; start_time: number; end_time: number }>;
 }
 
 // Media-from-script job data interfaces
@@ -92,12 +104,46 @@ interface StandaloneVideoPostProcessingJobData {
   standaloneVideoId: string;
   organizationId: string;
   editedVideoUrl: string;
+  burnCaptions?: boolean;
 }
 
 // VideoOutput post-processing job data interface (for edu videos)
 interface VideoOutputPostProcessingJobData {
   videoOutputId: string;
   editedVideoUrl: string;
+  burnCaptions?: boolean;
+}
+
+// Article feed check job data interface
+interface ArticleFeedCheckJobData {
+  feedId: string;
+}
+
+// Bulk upload item job data interface
+interface ArticleImportItemJobData {
+  itemId: string;
+}
+
+interface ContentPipelineRunJobData {
+  pipelineId: string;
+  triggeredById: string;
+}
+
+/**
+ * Store the outcome of each rendered aspect ratio on the video's renditions
+ */
+async function saveRenditionResults(
+  where: { standaloneVideoId: string } | { videoOutputId: string },
+  results: RenditionResult[]
+) {
+  for (const result of results) {
+    await prisma.videoRendition.updateMany({
+      where: { ...where, aspectRatio: result.aspectRatio },
+      data: result.cloudfrontUrl
+        ? { status: 'COMPLETED', videoUrl: result.cloudfrontUrl, fit: result.fit, width: result.width, height: result.height, error: null }
+        : { status: 'FAILED', error: result.error ?? 'Rendition failed' },
+    });
+  }
 }
 
 /**
@@ -147,11 +193,11 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
       }
 
       case JobTypes.PROCESS_VIDEO_COMPLETION: {
-        const { heygenVideoId, videoUrl } = job.data as VideoCompletionJobData;
-        logger.info('Processing video completion', { heygenVideoId, videoUrl });
+        const { heygenVideoId, videoUrl, wordTimings } = job.data as VideoCompletionJobData;
+        logger.info('Processing video completion', { heygenVideoId, videoUrl, hasWordTimings: !!wordTimings });
 
-        // Process video completion (download, transcribe, generate bubbles)
-        const success = await videoWebhookService.handleVideoCompletion(heygenVideoId, videoUrl);
+        // Process video completion (download, transcribe unless already done, generate bubbles)
+        const success = await videoWebhookService.handleVideoCompletion(heygenVideoId, videoUrl, wordTimings);
 
         if (!success) {
           throw new Error(`Failed to process video completion for ${heygenVideoId}`);
@@ -271,8 +317,8 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
       }
 
       case JobTypes.POST_PROCESS_STANDALONE_VIDEO: {
-        const { standaloneVideoId, organizationId, editedVideoUrl } = job.data as StandaloneVideoPostProcessingJobData;
-        logger.info('Post-processing standalone video', { standaloneVideoId, editedVideoUrl });
+        const { standaloneVideoId, organizationId, editedVideoUrl, burnCaptions } = job.data as StandaloneVideoPostProcessingJobData;
+        logger.info('Post-processing standalone video', { standaloneVideoId, editedVideoUrl, burnCaptions });
 
         // Get the standalone video with bumper and music details
         const standaloneVideo = await prisma.standaloneVideo.findUnique({
@@ -281,6 +327,8 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
             backgroundMusic: true,
             startBumper: true,
             endBumper: true,
+            captionStyle: true,
+            renditions: true,
           },
         });
 
@@ -289,13 +337,23 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
         }
 
         // Check if any post-processing is needed
+        const watermark = watermarkFromCaptionStyle(standaloneVideo.captionStyle);
+        const captions = burnCaptions
+          ? localCaptionsFromCaptionStyle(standaloneVideo.captionStyle, standaloneVideo.language)
+          : undefined;
+        const renditions = renditionOptionsFromRecords(standaloneVideo.renditions);
         const needsPostProcessing =
           standaloneVideo.startBumper ||
           standaloneVideo.endBumper ||
-          standaloneVideo.backgroundMusic;
+          standaloneVideo.backgroundMusic ||
+          watermark ||
+          captions ||
+          renditions.length > 0;
 
         let finalVideoUrl: string;
+        let finalS3Url: string;
         let finalDuration: number;
+        let wordTimings: VideoCompletionJobData['wordTimings'];
 
         if (needsPostProcessing) {
           // Build post-processing params
@@ -303,6 +361,10 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
             videoUrl: editedVideoUrl,
             standaloneVideoId,
             organizationId,
+            watermark,
+            captions,
+            captionedSource: !burnCaptions, // Submagic's edit already has captions
+            renditions,
           };
 
           // Add start bumper if configured
@@ -311,6 +373,7 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
               mediaUrl: standaloneVideo.startBumper.mediaUrl,
               type: standaloneVideo.startBumper.type as 'image' | 'video',
               duration: standaloneVideo.startBumperDuration || standaloneVideo.startBumper.duration || 3,
+              skipWatermark: standaloneVideo.startBumper.skipWatermark,
             };
           }
 
@@ -320,6 +383,7 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
               mediaUrl: standaloneVideo.endBumper.mediaUrl,
               type: standaloneVideo.endBumper.type as 'image' | 'video',
               duration: standaloneVideo.endBumperDuration || standaloneVideo.endBumper.duration || 3,
+              skipWatermark: standaloneVideo.endBumper.skipWatermark,
             };
           }
 
@@ -334,10 +398,13 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
           // Run FFmpeg post-processing
           const result = await videoPostProcessingService.processVideo(postProcessParams);
           finalVideoUrl = result.cloudfrontUrl;
+          finalS3Url = result.s3Url;
           finalDuration = result.duration;
+          wordTimings = result.wordTimings;
+          await saveRenditionResults({ standaloneVideoId }, result.renditions);
         } else {
           // No post-processing needed - just download and re-upload to our S3
-          logger.info('No bumpers/music configured, uploading video directly to S3');
+          logger.info('No bumpers, music or logo configured, uploading video directly to S3');
           const { storageService } = await import('../../backend/lib/services/core/storage.service');
 
           const response = await fetch(editedVideoUrl);
@@ -350,6 +417,7 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
           const uploadResult = await storageService.uploadFile(videoBuffer, filePath, 'video/mp4');
 
           finalVideoUrl = uploadResult.cloudfrontUrl;
+          finalS3Url = uploadResult.s3Url;
           // Estimate duration from the Submagic video (we don't have exact duration without FFprobe)
           finalDuration = 0; // Will be set by player on load
         }
@@ -364,27 +432,33 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
           },
         });
 
+        // Transcript and caption tracks - reuses the burn-in transcription when captions were burned in here
+        await standaloneVideoService.saveTranscript(standaloneVideoId, finalS3Url, wordTimings);
+
         logger.info('Standalone video post-processing completed', {
           standaloneVideoId,
           videoUrl: finalVideoUrl,
           duration: finalDuration,
           hadPostProcessing: needsPostProcessing,
+          renditions: renditions.map((rendition) => rendition.aspectRatio),
         });
         break;
       }
 
       case JobTypes.POST_PROCESS_VIDEO_OUTPUT: {
-        const { videoOutputId, editedVideoUrl } = job.data as VideoOutputPostProcessingJobData;
-        logger.info('Post-processing VideoOutput (edu video)', { videoOutputId, editedVideoUrl });
+        const { videoOutputId, editedVideoUrl, burnCaptions } = job.data as VideoOutputPostProcessingJobData;
+        logger.info('Post-processing VideoOutput (edu video)', { videoOutputId, editedVideoUrl, burnCaptions });
 
         // Get the VideoOutput with bumper and music details
         const videoOutput = await prisma.videoOutput.findUnique({
           where: { id: videoOutputId },
           include: {
-            submission: true,
+            submission: { include: { article: { select: { organizationId: true } } } },
             backgroundMusic: true,
             startBumper: true,
             endBumper: true,
+            captionStyle: true,
+            renditions: true,
           },
         });
 
@@ -393,19 +467,32 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
         }
 
         // Check if any post-processing is needed
+        const watermark = watermarkFromCaptionStyle(videoOutput.captionStyle);
+        const captions = burnCaptions
+          ? localCaptionsFromCaptionStyle(videoOutput.captionStyle, videoOutput.submission.language)
+          : undefined;
+        const renditions = renditionOptionsFromRecords(videoOutput.renditions);
         const needsVideoPostProcessing =
           videoOutput.startBumper ||
           videoOutput.endBumper ||
-          videoOutput.backgroundMusic;
+          videoOutput.backgroundMusic ||
+          watermark ||
+          captions ||
+          renditions.length > 0;
 
         let finalVideoUrl: string;
+        let wordTimings: VideoCompletionJobData['wordTimings'];
 
         if (needsVideoPostProcessing) {
           // Build post-processing params
           const postProcessParams: Parameters<typeof videoPostProcessingService.processVideo>[0] = {
             videoUrl: editedVideoUrl,
             videoOutputId,
-            organizationId: videoOutput.submission.organizationId,
+            organizationId: videoOutput.submission.article.organizationId,
+            watermark,
+            captions,
+            captionedSource: !burnCaptions, // Submagic's edit already has captions
+            renditions,
           };
 
           // Add start bumper if configured
@@ -414,6 +501,7 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
               mediaUrl: videoOutput.startBumper.mediaUrl,
               type: videoOutput.startBumper.type as 'image' | 'video',
               duration: videoOutput.startBumperDuration || videoOutput.startBumper.duration || 3,
+              skipWatermark: videoOutput.startBumper.skipWatermark,
             };
           }
 
@@ -423,6 +511,7 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
               mediaUrl: videoOutput.endBumper.mediaUrl,
               type: videoOutput.endBumper.type as 'image' | 'video',
               duration: videoOutput.endBumperDuration || videoOutput.endBumper.duration || 3,
+              skipWatermark: videoOutput.endBumper.skipWatermark,
             };
           }
 
@@ -437,6 +526,8 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
           // Run FFmpeg post-processing
           const result = await videoPostProcessingService.processVideo(postProcessParams);
           finalVideoUrl = result.cloudfrontUrl;
+          wordTimings = result.wordTimings;
+          await saveRenditionResults({ videoOutputId }, result.renditions);
         } else {
           // No post-processing needed - use the edited video URL directly
           finalVideoUrl = editedVideoUrl;
@@ -446,16 +537,39 @@ const processMediaJob = async (job: Job<MediaJobData | ArticleThumbnailJobData |
         await queueService.addVideoCompletionJob({
           heygenVideoId: videoOutput.heygenVideoId!,
           videoUrl: finalVideoUrl,
+          wordTimings,
         });
 
         logger.info('VideoOutput post-processing completed, queued video completion', {
           videoOutputId,
           videoUrl: finalVideoUrl,
           hadPostProcessing: needsVideoPostProcessing,
+          renditions: renditions.map((rendition) => rendition.aspectRatio),
         });
         break;
       }
 
+      case JobTypes.CHECK_ARTICLE_FEED: {
+        const { feedId } = job.data as unknown as ArticleFeedCheckJobData;
+        const imported = await articleFeedService.checkFeed(feedId);
+        logger.info('Article feed check job completed', { feedId, imported });
+        break;
+      }
+
+      case JobTypes.EXTRACT_ARTICLE_IMPORT_ITEM: {
+        const { itemId } = job.data as unknown as ArticleImportItemJobData;
+        await articleImportService.processItem(itemId);
+        logger.info('Article import item job completed', { itemId });
+        break;
+      }
+
+      case JobTypes.RUN_CONTENT_PIPELINE: {
+        const { pipelineId, triggeredById } = job.data as unknown as ContentPipelineRunJobData;
+        const run = await contentPipelineService.runPipeline(pipelineId, 'MANUAL', triggeredById);
+        logger.info('Content pipeline run job completed', { pipelineId, runId: run?.id });
+        break;
+      }
+
       default:
         throw new Error(`Unknown job type: ${job.name}`);
     }
@@ -528,10 +642,84 @@ async function main() {
     }
   }, TIMEOUT_CHECK_INTERVAL);
 
+  // Nightly widget analytics rollup - checked hourly, rolls up the finished UTC days not yet rolled up
+  const ANALYTICS_ROLLUP_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+  let lastAnalyticsRollupDay: string | null = null;
+
+  const runAnalyticsRollup = async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    if (lastAnalyticsRollupDay === today) return;
+
+    try {
+      await contentAnalyticsService.rollupPendingDays();
+      lastAnalyticsRollupDay = today;
+    } catch (error) {
+      logger.error('Analytics rollup error', { error: error instanceof Error ? error.message : 'Unknown error' });
+      // Retried on the next check
+    }
+  };
+
+  runAnalyticsRollup();
+  const analyticsRollupInterval = setInterval(runAnalyticsRollup, ANALYTICS_ROLLUP_CHECK_INTERVAL);
+
+  // Unpublish expired content (publishAt needs no job - the widget filters on it)
+  const PUBLISHING_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  const runPublishingCheck = async () => {
+    try {
+      await publishingScheduleService.unpublishExpiredContent();
+    } catch (error) {
+      logger.error('Publishing schedule check error', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  };
+
+  runPublishingCheck();
+  const publishingCheckInterval = setInterval(runPublishingCheck, PUBLISHING_CHECK_INTERVAL);
+
+  // RSS / Atom subscriptions - each feed is due hourly, polled in one pass so feeds don't run in parallel
+  const FEED_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  let feedCheckRunning = false;
+  const runFeedCheck = async () => {
+    if (feedCheckRunning) return;
+    feedCheckRunning = true;
+    try {
+      await articleFeedService.checkDueFeeds();
+    } catch (error) {
+      logger.error('Article feed check error', { error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      feedCheckRunning = false;
+    }
+  };
+
+  runFeedCheck();
+  const feedCheckInterval = setInterval(runFeedCheck, FEED_CHECK_INTERVAL);
+
+  // Content pipelines - start runs whose cron schedule is due, then move running ones forward
+  const PIPELINE_CHECK_INTERVAL = 60 * 1000; // 1 minute - the finest cron granularity
+  let pipelineCheckRunning = false;
+  const runPipelineCheck = async () => {
+    if (pipelineCheckRunning) return;
+    pipelineCheckRunning = true;
+    try {
+      await contentPipelineService.runDuePipelines();
+      await contentPipelineService.advanceRuns();
+    } catch (error) {
+      logger.error('Content pipeline check error', { error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      pipelineCheckRunning = false;
+    }
+  };
+
+  runPipelineCheck();
+  const pipelineCheckInterval = setInterval(runPipelineCheck, PIPELINE_CHECK_INTERVAL);
+
   // Graceful shutdown
   process.on('SIGTERM', async () => {
     logger.info('Shutting down worker', { signal: 'SIGTERM' });
     clearInterval(timeoutMonitorInterval);
+    clearInterval(analyticsRollupInterval);
+    clearInterval(publishingCheckInterval);
+    clearInterval(feedCheckInterval);
+    clearInterval(pipelineCheckInterval);
     await mediaGenerationWorker.close();
     process.exit(0);
   });
@@ -539,6 +727,10 @@ async function main() {
   process.on('SIGINT', async () => {
     logger.info('Shutting down worker', { signal: 'SIGINT' });
     clearInterval(timeoutMonitorInterval);
+    clearInterval(analyticsRollupInterval);
+    clearInterval(publishingCheckInterval);
+    clearInterval(feedCheckInterval);
+    clearInterval(pipelineCheckInterval);
     await mediaGenerationWorker.close();
     process.exit(0);
   });
@@ -2,11 +2,14 @@
 // Merged from frontend-lib/api/types.ts and frontend-lib/types.ts
 // Updated for normalized schema (VideoBubble and QuizQuestion as separate tables)
 
+import type { ArticleDocument } from '@repo/article-content';
+
 // ============================================================================
 // ENUMS & STATUS TYPES
 // ============================================================================
 
-export type Language = 'ENGLISH' | 'MARATHI' | 'HINDI' | 'BENGALI' | 'GUJARATI';
+// Language.code from the language registry, e.g. 'ENGLISH' or 'TAMIL'
+export type Language = string;
 export type ContentCategory = 'EVERGREEN' | 'PERIODIC_UPDATES' | 'MARKET_UPDATES';
 
 export type SubmissionStatus =
@@ -67,13 +70,18 @@ export interface Article {
   id: string;
   title: string;
   content: string;
+  contentDocument?: ArticleDocument | null; // Set for articles written in the editor
   category: ContentCategory;
   thumbnailUrl?: string;
   createdAt: string;
   updatedAt: string;
   isApproved?: boolean;
   approvedAt?: string | null;
+  publishAt?: string | null;
+  expiresAt?: string | null;
   approvedBy?: string | null;
+  sourceUrl?: string | null; // Page the article was imported from
+  feedId?: string | null;
 }
 
 export interface Submission {
@@ -171,8 +179,12 @@ export interface AudioOutput {
   audioFileUrl?: string;
   voiceId?: string;
   duration?: number;
+  wordTimings?: Array<{ text: string; start_time: number; end_time: number }> | null; // Seconds, from AWS Transcribe
+  reviewStatus?: ReviewStatus;
   isApproved?: boolean;
   approvedAt?: string;
+  publishAt?: string | null;
+  expiresAt?: string | null;
   approvedBy?: string;
   error?: string;
   createdAt: string;
@@ -205,8 +217,13 @@ export interface PodcastOutput {
   segments?: any;
   wordTimings?: any;
   duration?: number;
+  captionsVttUrl?: string | null; // WebVTT / SRT caption sidecars
+  captionsSrtUrl?: string | null;
+  reviewStatus?: ReviewStatus;
   isApproved?: boolean;
   approvedAt?: string;
+  publishAt?: string | null;
+  expiresAt?: string | null;
   approvedBy?: string;
   error?: string;
   createdAt: string;
@@ -235,6 +252,25 @@ export interface VideoBubble {
   updatedAt: Date;
 }
 
+// Videos render in portrait; square and landscape renditions are optional extras
+export type VideoAspectRatio = 'PORTRAIT' | 'SQUARE' | 'LANDSCAPE';
+export type RenditionFit = 'pad' | 'crop'; // pad: blurred background, crop: fill the frame
+
+export interface VideoRendition {
+  id: string;
+  standaloneVideoId?: string | null;
+  videoOutputId?: string | null;
+  aspectRatio: VideoAspectRatio;
+  fit: RenditionFit;
+  status: OutputStatus;
+  videoUrl?: string | null;
+  width?: number | null;
+  height?: number | null;
+  error?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 /**
  * VideoOutput with normalized bubbles relation
  */
@@ -250,8 +286,14 @@ export interface VideoOutput {
   duration?: number;
   transcript?: string;
   bubbles?: VideoBubble[]; // Relation to VideoBubble table (not JSON)
+  captionsVttUrl?: string | null; // WebVTT / SRT caption sidecars
+  captionsSrtUrl?: string | null;
+  renditions?: VideoRendition[];
+  reviewStatus?: ReviewStatus;
   isApproved?: boolean;
   approvedAt?: string;
+  publishAt?: string | null;
+  expiresAt?: string | null;
   approvedBy?: string;
   error?: string;
   createdAt: string;
@@ -321,8 +363,11 @@ export interface QuizOutput {
   submissionId: string;
   status: OutputStatus;
   questions?: QuizQuestion[]; // Relation to QuizQuestion table (not JSON)
+  reviewStatus?: ReviewStatus;
   isApproved?: boolean;
   approvedAt?: string;
+  publishAt?: string | null;
+  expiresAt?: string | null;
   approvedBy?: string;
   error?: string;
   createdAt: string;
@@ -358,8 +403,13 @@ export interface InteractivePodcastOutput {
   audioFileUrl?: string;
   duration?: number;
   segments?: any; // TranscriptSegment[] with interactive questions
+  captionsVttUrl?: string | null; // WebVTT / SRT caption sidecars
+  captionsSrtUrl?: string | null;
+  reviewStatus?: ReviewStatus;
   isApproved?: boolean;
   approvedAt?: string;
+  publishAt?: string | null;
+  expiresAt?: string | null;
   approvedBy?: string;
   error?: string;
   createdAt: string;
@@ -373,7 +423,14 @@ export interface InteractivePodcastOutput {
 
 export interface CreateArticleRequest {
   title: string;
-  content: string;
+  content?: string; // Free-form text - or send a structured document instead
+  document?: ArticleDocument;
+  category?: ContentCategory;
+}
+
+export interface ImportArticleRequest {
+  url: string;
+  category?: ContentCategory;
 }
 
 export interface VideoCustomizationConfig {
@@ -391,6 +448,9 @@ export interface VideoCustomizationConfig {
   startBumperDuration?: number | null; // seconds, for image bumpers
   endBumperId?: string | null;
   endBumperDuration?: number | null; // seconds, for image bumpers
+  // Extra formats rendered alongside the portrait original
+  aspectRatios?: Exclude<VideoAspectRatio, 'PORTRAIT'>[];
+  renditionFit?: RenditionFit;
 }
 
 export interface CreateSubmissionRequest {
@@ -457,11 +517,15 @@ export interface VideoBumper {
   mediaUrl: string;
   thumbnailUrl?: string | null;
   duration?: number | null;
+  skipWatermark: boolean; // Caption style's logo isn't burned into this bumper
   organizationId: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// 'local' burns captions in with ffmpeg instead of sending the video to Submagic
+export type CaptionRenderer = 'submagic' | 'local';
+
 export interface CaptionStyle {
   id: string;
   name: string;
@@ -469,11 +533,40 @@ export interface CaptionStyle {
   previewImageUrl?: string | null;
   logoUrl?: string | null;
   logoPosition?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | null;
+  logoOpacity: number; // 0-1
+  logoMargin: number; // Pixels from the video edges
+  logoScale: number; // Logo width as a fraction of the video width
+  renderer: CaptionRenderer;
+  // Used by the local renderer only; Submagic styles come from the template
+  fontName: string;
+  textColor: string; // #RRGGBB
+  highlightColor: string; // #RRGGBB, the word being spoken
   organizationId: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CaptionStyleRequest {
+  name: string;
+  submagicTemplate: string;
+  previewImageUrl?: string | null;
+  logoUrl?: string | null;
+  logoPosition?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | null;
+  logoOpacity?: number;
+  logoMargin?: number;
+  logoScale?: number;
+  renderer?: CaptionRenderer;
+  fontName?: string;
+  textColor?: string;
+  highlightColor?: string;
+}
+
+// Organization-wide Submagic settings, shared by all caption styles
+export interface CaptionSettings {
+  submagicThemeId: string | null; // Used when a video's caption style has no template
+  submagicDictionary: string[];
+}
+
 export interface StandaloneVideo {
   id: string;
   organizationId: string;
@@ -507,15 +600,536 @@ export interface StandaloneVideo {
   endBumperDuration?: number | null;
   heygenVideoId?: string | null;
   submagicProjectId?: string | null;
+  sourceVideoUrl?: string | null; // HeyGen render before captions
   elevenlabsAudioUrl?: string | null;
   videoUrl?: string | null;
   thumbnailUrl?: string | null;
   duration?: number | null;
+  renditions?: VideoRendition[];
+  transcript?: string | null;
+  captionsVttUrl?: string | null; // WebVTT / SRT caption sidecars
+  captionsSrtUrl?: string | null;
   error?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// ============================================================================
+// PUBLISHING SCHEDULE TYPES
+// ============================================================================
+
+export type ScheduledContentType = 'article' | 'audio' | 'podcast' | 'video' | 'quiz' | 'interactive-podcast';
+
+export interface UpdatePublishScheduleRequest {
+  contentType: ScheduledContentType;
+  id: string;
+  publishAt: string | null; // ISO date-time
+  expiresAt: string | null;
+}
+
+// ============================================================================
+// REVIEW WORKFLOW TYPES
+// ============================================================================
+
+export type ReviewStatus = 'DRAFT' | 'IN_REVIEW' | 'CHANGES_REQUESTED' | 'APPROVED' | 'PUBLISHED';
+
+export type ReviewAction = 'submit' | 'withdraw' | 'request_changes' | 'approve' | 'publish' | 'unpublish';
+
+// URL segment of the review routes
+export type ReviewableOutputType = Exclude<ScheduledContentType, 'article'>;
+
+export type ReviewAnchor =
+  | { type: 'SCRIPT_LINE'; line: number }
+  | { type: 'VIDEO_TIMESTAMP'; timestamp: number }
+  | { type: 'QUIZ_QUESTION'; questionId: string };
+
+export interface ReviewProfile {
+  id: string;
+  fullName: string | null;
+  email: string;
+}
+
+export interface ReviewComment {
+  id: string;
+  authorId: string;
+  author: ReviewProfile;
+  body: string;
+  parentId: string | null;
+  anchorType: ReviewAnchor['type'] | null;
+  anchorLine: number | null;
+  anchorTimestamp: number | null;
+  anchorQuestionId: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  createdAt: string;
+  replies?: ReviewComment[];
+}
+
+export interface ReviewActivity {
+  id: string;
+  actor: ReviewProfile | null; // null for system actions (e.g. expiry)
+  action: 'STATUS_CHANGED' | 'REVIEWER_ASSIGNED' | 'REVIEWER_UNASSIGNED' | 'COMMENTED' | 'COMMENT_RESOLVED';
+  fromStatus: ReviewStatus | null;
+  toStatus: ReviewStatus | null;
+  metadata: { note?: string; reviewerId?: string; commentId?: string; glossaryIssues?: string[] } | null;
+  createdAt: string;
+}
+
+export interface OutputReview {
+  status: ReviewStatus;
+  reviewers: Array<ReviewProfile & { assignedAt: string }>;
+  comments: ReviewComment[];
+  activity: ReviewActivity[];
+  availableReviewers: Array<ReviewProfile & { role: 'OWNER' | 'ADMIN' | 'MEMBER' }>;
+  glossaryIssues: GlossaryIssue[]; // Approving needs acknowledgeGlossary while this isn't empty
+}
+
+export interface CreateReviewCommentRequest {
+  body: string;
+  parentId?: string;
+  anchor?: ReviewAnchor;
+}
+
+// One language of a content family - the article's newest output of the type in that language
+export interface ContentFamilyMember {
+  outputId: string;
+  submissionId: string;
+  language: Language;
+  languageName: string;
+  direction: TextDirection;
+  title: string | null;
+  status: ReviewStatus;
+  paragraphs: string[]; // Script split on blank lines, transcript segments or quiz questions
+  glossaryIssues: GlossaryIssue[];
+  createdAt: string;
+}
+
+export interface ContentFamily {
+  article: { id: string; title: string };
+  outputType: ReviewableOutputType;
+  source: ContentFamilyMember | null; // English, null when the article only has translations
+  translations: ContentFamilyMember[];
+  rowCount: number; // Longest paragraph count across languages
+}
+
+export interface BackTranslation {
+  outputId: string;
+  paragraphs: string[]; // English, aligned with the member's paragraphs
+}
+
+export type FamilyReviewAction = Extract<ReviewAction, 'approve' | 'request_changes'>;
+
+export interface FamilyTransitionRequest {
+  action: FamilyReviewAction;
+  note?: string;
+  acknowledgeGlossary?: boolean;
+  outputIds?: string[]; // Defaults to every language
+}
+
+export interface FamilyTransitionResult {
+  outputId: string;
+  language: Language;
+  status?: ReviewStatus; // Set when the transition went through
+  skipped?: boolean; // The output's status doesn't allow the action
+  error?: string;
+  glossaryIssues?: GlossaryIssue[]; // Approval blocked until acknowledged
+}
+
+// ============================================================================
+// SCRIPT REVISION TYPES
+// ============================================================================
+
+// URL segment of the revision routes - outputs with an editable script
+export type RevisionOutputType = Extract<ReviewableOutputType, 'video' | 'podcast' | 'interactive-podcast'>;
+
+export type RevisionSource = 'MANUAL' | 'AI_REGENERATE' | 'AI_IMPROVE' | 'RESTORE';
+
+export interface ScriptRevision {
+  id: string;
+  version: number;
+  title: string | null;
+  content: string; // Video script, podcast transcript (JSON segments) or interactive podcast script
+  source: RevisionSource;
+  author: ReviewProfile | null; // null for worker generation
+  note: string | null; // Prompt guidance for AI_IMPROVE
+  restoredFromId: string | null;
+  createdAt: string;
+}
+
+export interface RestoreRevisionResponse {
+  submissionId: string;
+  revision: ScriptRevision | null; // null when the restored content matches the current script
+  regeneratingMedia: boolean;
+}
+
+// ============================================================================
+// PERMISSION TYPES
+// ============================================================================
+
+export type OrgPermission =
+  | 'content.create'
+  | 'content.approve'
+  | 'content.delete'
+  | 'brand.manage'
+  | 'members.manage'
+  | 'settings.manage'
+  | 'billing.view';
+
+// Current user's effective permissions in an organization
+export interface MemberPermissions {
+  role: 'OWNER' | 'ADMIN' | 'MEMBER';
+  customRole: { id: string; name: string } | null; // Replaces the built-in role's permissions
+  permissions: OrgPermission[];
+}
+
+// ============================================================================
+// LANGUAGE TYPES
+// ============================================================================
+
+export type TextDirection = 'LTR' | 'RTL';
+
+export interface LanguageInfo {
+  code: Language;
+  name: string; // English name, e.g. "Tamil"
+  nativeName: string | null; // e.g. "தமிழ்"
+  isoCode: string;
+  direction: TextDirection;
+  enabled: boolean; // Offered in this organization's create forms
+}
+
+// ============================================================================
+// GLOSSARY TYPES
+// ============================================================================
+
+export interface GlossaryTerm {
+  id: string;
+  term: string; // English source term
+  translations: Partial<Record<Language, string>>; // Ignored when doNotTranslate
+  doNotTranslate: boolean;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GlossaryTermRequest {
+  term: string;
+  translations?: Partial<Record<Language, string>>;
+  doNotTranslate?: boolean;
+  notes?: string | null;
+}
+
+// A glossary term used in the source that the output doesn't render as required
+export interface GlossaryIssue {
+  term: string;
+  expected: string;
+  reason: 'DO_NOT_TRANSLATE' | 'TRANSLATION';
+}
+
+// ============================================================================
+// PRONUNCIATION TYPES
+// ============================================================================
+
+export interface PronunciationEntry {
+  id: string;
+  term: string; // As written in scripts
+  language: Language | null; // null = every language
+  respelling: string; // Spoken form sent to TTS
+  phoneme: string | null; // IPA, used on voice models that support SSML phoneme tags
+  caseSensitive: boolean;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PronunciationLexicon {
+  entries: PronunciationEntry[];
+  phonemesSupported: boolean; // The configured voice model uses IPA phonemes - respellings otherwise
+}
+
+export interface PronunciationEntryRequest {
+  term: string;
+  language?: Language | null;
+  respelling: string;
+  phoneme?: string | null;
+  caseSensitive?: boolean;
+  notes?: string | null;
+}
+
+export interface PronunciationPreviewRequest {
+  text: string;
+  language?: Language;
+  voiceId?: string; // ElevenLabs voice id, defaults to the language's narration voice
+}
+
+export interface PronunciationPreview {
+  spokenText: string; // Text after the lexicon was applied
+  audio: string; // Base64 MP3
+}
+
+// ============================================================================
+// AUDIT LOG TYPES
+// ============================================================================
+
+export interface AuditEvent {
+  id: string;
+  action: string; // "<targetType>.<verb>", e.g. "member.role_change"
+  targetType: string;
+  targetId: string | null;
+  metadata: Record<string, unknown> | null;
+  actorId: string | null;
+  actorEmail: string | null; // Kept when the actor's profile is deleted
+  actor: ReviewProfile | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  actorId?: string;
+  targetType?: string;
+  action?: string; // Substring match
+  from?: string; // ISO date-time
+  to?: string;
+}
+
+// ============================================================================
+// ARTICLE FEED TYPES
+// ============================================================================
+
+export interface ArticleFeed {
+  id: string;
+  url: string;
+  title: string;
+  category: ContentCategory;
+  isActive: boolean;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  _count: { articles: number };
+  articles: Array<{
+    id: string;
+    title: string;
+    createdAt: string;
+    _count: { submissions: number }; // 0 = still a draft
+  }>; // Latest imports
+}
+
+export interface CreateArticleFeedRequest {
+  url: string;
+  category?: ContentCategory;
+}
+
+export interface UpdateArticleFeedRequest {
+  isActive?: boolean;
+  category?: ContentCategory;
+}
+
+// ============================================================================
+// BULK ARTICLE IMPORT TYPES
+// ============================================================================
+
+export type ArticleImportStatus = 'PENDING' | 'EXTRACTING' | 'SUBMITTED' | 'FAILED';
+
+export interface ArticleImportSettings {
+  category: ContentCategory; // Unless a manifest row sets one
+  languages: Language[];
+  generateAudio: boolean;
+  generatePodcast: boolean;
+  generateVideo: boolean;
+  generateQuiz: boolean;
+  generateInteractivePodcast: boolean;
+}
+
+type ImportOutputStatus = OutputStatus | 'SCRIPT_READY';
+
+export interface ArticleImportItem {
+  id: string;
+  position: number;
+  fileName: string; // Name inside the upload, or the manifest URL
+  sourceUrl: string | null;
+  title: string | null; // Manifest override
+  category: ContentCategory | null;
+  status: ArticleImportStatus;
+  error: string | null;
+  attempts: number;
+  article: {
+    id: string;
+    title: string;
+    submissions: Array<{
+      id: string;
+      language: Language;
+      status: SubmissionStatus;
+      audioOutputs: Array<{ status: ImportOutputStatus }>;
+      podcastOutputs: Array<{ status: ImportOutputStatus }>;
+      videoOutputs: Array<{ status: ImportOutputStatus }>;
+      quizOutputs: Array<{ status: ImportOutputStatus }>;
+      interactivePodcastOutputs: Array<{ status: ImportOutputStatus }>;
+    }>;
+  } | null;
+  updatedAt: string;
+}
+
+export interface ArticleImportBatch<Item = ArticleImportItem> extends ArticleImportSettings {
+  id: string;
+  createdBy: { id: string; fullName: string | null; email: string };
+  createdAt: string;
+  items: Item[];
+}
+
+// Lists only carry the item statuses
+export type ArticleImportBatchSummary = ArticleImportBatch<Pick<ArticleImportItem, 'status'>>;
+
+export interface CreateArticleImportRequest {
+  files: File[]; // Documents and/or ZIP archives
+  manifest?: File; // CSV with url / file / title / category columns
+  settings: Partial<ArticleImportSettings> & Pick<ArticleImportSettings, 'languages'>;
+}
+
+export interface CreateArticleImportResponse {
+  id: string;
+  items: number;
+  skipped: string[]; // Unsupported files in the upload
+}
+
+export interface RetryArticleImportResponse {
+  items: number; // Extractions queued again
+  outputs: number; // Outputs restarted
+}
+
+// ============================================================================
+// CONTENT PIPELINE TYPES
+// ============================================================================
+
+export type PipelineApprovalPolicy = 'MANUAL' | 'SUBMIT_FOR_REVIEW' | 'PUBLISH';
+export type PipelineRunStatus = 'RUNNING' | 'COMPLETED' | 'PARTIAL' | 'FAILED' | 'SKIPPED';
+
+export interface PipelineRun {
+  id: string;
+  pipelineId: string;
+  trigger: 'SCHEDULE' | 'MANUAL';
+  triggeredBy: { id: string; fullName: string | null; email: string } | null;
+  status: PipelineRunStatus;
+  error: string | null; // Failure reason, or why outputs were left for review
+  submissions: Array<{
+    id: string;
+    language: Language;
+    status: SubmissionStatus;
+    article: { id: string; title: string };
+  }>;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface ContentPipelineSettings {
+  name: string;
+  isActive: boolean;
+  feedId: string | null; // null = drafts from any source
+  category: ContentCategory | null;
+  maxArticlesPerRun: number;
+  schedule: string; // Cron expression
+  timezone: string;
+  languages: Language[];
+  generateAudio: boolean;
+  generatePodcast: boolean;
+  generateVideo: boolean;
+  generateQuiz: boolean;
+  generateInteractivePodcast: boolean;
+  autoGenerateMedia: boolean;
+  characterId: string | null;
+  captionStyleId: string | null;
+  backgroundMusicId: string | null;
+  backgroundMusicVolume: number;
+  startBumperId: string | null;
+  startBumperDuration: number | null;
+  endBumperId: string | null;
+  endBumperDuration: number | null;
+  approvalPolicy: PipelineApprovalPolicy;
+}
+
+export interface ContentPipeline extends ContentPipelineSettings {
+  id: string;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  createdAt: string;
+  feed: { id: string; title: string } | null;
+  character: { id: string; name: string } | null;
+  captionStyle: { id: string; name: string } | null;
+  runs: PipelineRun[]; // Latest run in lists, recent history for a single pipeline
+  _count: { runs: number };
+}
+
+export type CreateContentPipelineRequest = Partial<ContentPipelineSettings> &
+  Pick<ContentPipelineSettings, 'name' | 'schedule' | 'languages'>;
+
+export type UpdateContentPipelineRequest = Partial<ContentPipelineSettings>;
+
+// ============================================================================
+// ANALYTICS TYPES
+// ============================================================================
+
+export type AnalyticsContentType = 'VIDEO' | 'QUIZ' | 'INTERACTIVE_PODCAST';
+
+export interface ContentItemAnalytics {
+  itemId: string;
+  label: string;
+  answers: number;
+  correct: number;
+  correctRate: number | null; // 0-100, null when unanswered
+  optionCounts: Record<string, number>;
+}
+
+export interface ContentAnalytics {
+  contentType: AnalyticsContentType;
+  contentId: string;
+  title: string;
+  views: number;
+  completions: number;
+  completionRate: number | null; // 0-100
+  averageWatchPercent: number | null; // 0-100, null for quizzes
+  items: ContentItemAnalytics[];
+}
+
+export interface OrganizationAnalytics {
+  from: string;
+  to: string;
+  totals: {
+    views: number;
+    completions: number;
+    completionRate: number | null;
+    averageWatchPercent: number | null;
+  };
+  content: ContentAnalytics[];
+}
+
+export type ItemAnalysisFlag = 'TOO_EASY' | 'TOO_HARD' | 'UNUSED_DISTRACTOR';
+
+export interface OptionPickStats {
+  key: string; // Selected option as sent by the widget (option index, 'true'/'false' or typed text)
+  label: string;
+  picks: number;
+  pickRate: number | null; // 0-100
+  isCorrect: boolean;
+}
+
+export interface ItemAnalysis {
+  itemId: string;
+  label: string;
+  answers: number;
+  difficulty: number | null; // Percent correct, 0-100
+  discrimination: number | null; // Upper-lower index, -1 to 1
+  options: OptionPickStats[];
+  flags: ItemAnalysisFlag[];
+}
+
+export interface QuizItemAnalysis {
+  questions: ItemAnalysis[];
+  videos: Array<{
+    videoOutputId: string;
+    title: string | null;
+    bubbles: ItemAnalysis[];
+  }>;
+}
+
 // ============================================================================
 // API RESPONSE WRAPPERS
 // ============================================================================
@@ -8,8 +8,22 @@ import type {
   BackgroundMusic,
   VideoBumper,
   CaptionStyle,
+  CaptionStyleRequest,
+  CaptionSettings,
   StandaloneVideo,
   CreateArticleRequest,
+  ImportArticleRequest,
+  ArticleFeed,
+  CreateArticleFeedRequest,
+  UpdateArticleFeedRequest,
+  ArticleImportBatch,
+  ArticleImportBatchSummary,
+  CreateArticleImportRequest,
+  CreateArticleImportResponse,
+  RetryArticleImportResponse,
+  ContentPipeline,
+  CreateContentPipelineRequest,
+  UpdateContentPipelineRequest,
   CreateSubmissionRequest,
   CreateTagRequest,
   UpdateTagRequest,
@@ -22,6 +36,36 @@ import type {
   QuizOutputTag,
   InteractivePodcastOutputTag,
   Language,
+  LanguageInfo,
+  GlossaryTerm,
+  GlossaryTermRequest,
+  PronunciationEntry,
+  PronunciationEntryRequest,
+  PronunciationLexicon,
+  PronunciationPreview,
+  PronunciationPreviewRequest,
+  GlossaryIssue,
+  OrganizationAnalytics,
+  QuizItemAnalysis,
+  UpdatePublishScheduleRequest,
+  OutputReview,
+  ContentFamily,
+  BackTranslation,
+  FamilyTransitionRequest,
+  FamilyTransitionResult,
+  ReviewAction,
+  ReviewableOutputType,
+  ReviewComment,
+  ReviewStatus,
+  CreateReviewCommentRequest,
+  RevisionOutputType,
+  ScriptRevision,
+  RestoreRevisionResponse,
+  AuditEvent,
+  AuditEventFilters,
+  MemberPermissions,
+  VideoAspectRatio,
+  RenditionFit,
 } from '../api.types';
 
 export const apiClient = axios.create({
@@ -83,6 +127,12 @@ export const articlesApi = {
     return data.data;
   },
 
+  importFromUrl: async (orgSlug: string, payload: ImportArticleRequest): Promise<Article> => {
+    const { data } = await apiClient.post<ApiResponse<Article>>(`/api/org/${orgSlug}/articles/import`, payload);
+    if (!data.data) throw new Error('Failed to import article');
+    return data.data;
+  },
+
   regenerateThumbnail: async (orgSlug: string, id: string, prompt: string) => {
     const { data } = await apiClient.post<ApiResponse<{ thumbnailUrl: string }>>(`/api/org/${orgSlug}/articles/${id}/regenerate-thumbnail`, { prompt });
     return data.data;
@@ -210,58 +260,6 @@ export const submissionsApi = {
     return data.data;
   },
 
-  // Approval Methods
-  approveAudio: async (orgSlug: string, submissionId: string, audioId: string) => {
-    const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/audio/${audioId}/approve`);
-    return data.data;
-  },
-
-  approvePodcast: async (orgSlug: string, submissionId: string, podcastId: string) => {
-    const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/podcast/${podcastId}/approve`);
-    return data.data;
-  },
-
-  approveVideo: async (orgSlug: string, submissionId: string, videoId: string) => {
-    const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/video/${videoId}/approve`);
-    return data.data;
-  },
-
-  approveQuiz: async (orgSlug: string, submissionId: string, quizId: string) => {
-    const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/quiz/${quizId}/approve`);
-    return data.data;
-  },
-
-  approveInteractivePodcast: async (orgSlug: string, submissionId: string, ipId: string) => {
-    const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/interactive-podcast/${ipId}/approve`);
-    return data.data;
-  },
-
-  // Unapproval Methods
-  unapproveAudio: async (orgSlug: string, submissionId: string, audioId: string) => {
-    const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/audio/${audioId}/unapprove`);
-    return data.data;
-  },
-
-  unapprovePodcast: async (orgSlug: string, submissionId: string, podcastId: string) => {
-    const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/podcast/${podcastId}/unapprove`);
-    return data.data;
-  },
-
-  unapproveVideo: async (orgSlug: string, submissionId: string, videoId: string) => {
-    const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/video/${videoId}/unapprove`);
-    return data.data;
-  },
-
-  unapproveQuiz: async (orgSlug: string, submissionId: string, quizId: string) => {
-    const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/quiz/${quizId}/unapprove`);
-    return data.data;
-  },
-
-  unapproveInteractivePodcast: async (orgSlug: string, submissionId: string, ipId: string) => {
-    const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/interactive-podcast/${ipId}/unapprove`);
-    return data.data;
-  },
-
   // Script Updates
   updatePodcastScript: async (orgSlug: string, submissionId: string, podcastId: string, transcript: string) => {
     const { data } = await apiClient.patch<ApiResponse<any>>(`/api/org/${orgSlug}/submissions/${submissionId}/podcast/${podcastId}/script`, { transcript });
@@ -558,6 +556,350 @@ export const featureFlagsApi = {
   },
 };
 
+// Publishing Schedule API - Organization-scoped
+export const scheduleApi = {
+  update: async (orgSlug: string, payload: UpdatePublishScheduleRequest) => {
+    const { data } = await apiClient.patch<ApiResponse<{ publishAt: string | null; expiresAt: string | null }>>(
+      `/api/org/${orgSlug}/schedule`,
+      payload,
+    );
+    return data.data;
+  },
+};
+
+// Review API - Organization-scoped review workflow for outputs
+export const reviewApi = {
+  get: async (orgSlug: string, outputType: ReviewableOutputType, outputId: string): Promise<OutputReview> => {
+    const { data } = await apiClient.get<ApiResponse<OutputReview>>(`/api/org/${orgSlug}/review/${outputType}/${outputId}`);
+    if (!data.data) throw new Error('Failed to fetch review');
+    return data.data;
+  },
+
+  transition: async (
+    orgSlug: string,
+    outputType: ReviewableOutputType,
+    outputId: string,
+    payload: { action: ReviewAction; note?: string; acknowledgeGlossary?: boolean },
+  ): Promise<{ status: ReviewStatus }> => {
+    const { data } = await apiClient.post<ApiResponse<{ status: ReviewStatus }>>(
+      `/api/org/${orgSlug}/review/${outputType}/${outputId}/transition`,
+      payload,
+    );
+    if (!data.data) throw new Error('Failed to update review status');
+    return data.data;
+  },
+
+  assignReviewer: async (orgSlug: string, outputType: ReviewableOutputType, outputId: string, reviewerId: string) => {
+    const { data } = await apiClient.post<ApiResponse<any>>(`/api/org/${orgSlug}/review/${outputType}/${outputId}/reviewers`, {
+      reviewerId,
+    });
+    return data.data;
+  },
+
+  unassignReviewer: async (orgSlug: string, outputType: ReviewableOutputType, outputId: string, reviewerId: string): Promise<void> => {
+    await apiClient.delete(`/api/org/${orgSlug}/review/${outputType}/${outputId}/reviewers/${reviewerId}`);
+  },
+
+  addComment: async (
+    orgSlug: string,
+    outputType: ReviewableOutputType,
+    outputId: string,
+    payload: CreateReviewCommentRequest,
+  ): Promise<ReviewComment> => {
+    const { data } = await apiClient.post<ApiResponse<ReviewComment>>(
+      `/api/org/${orgSlug}/review/${outputType}/${outputId}/comments`,
+      payload,
+    );
+    if (!data.data) throw new Error('Failed to add comment');
+    return data.data;
+  },
+
+  setCommentResolved: async (
+    orgSlug: string,
+    outputType: ReviewableOutputType,
+    outputId: string,
+    commentId: string,
+    resolved: boolean,
+  ): Promise<void> => {
+    await apiClient.patch(`/api/org/${orgSlug}/review/${outputType}/${outputId}/comments/${commentId}`, { resolved });
+  },
+
+  // Content family - one article's output across all its languages
+  getFamily: async (orgSlug: string, articleId: string, outputType: ReviewableOutputType): Promise<ContentFamily> => {
+    const { data } = await apiClient.get<ApiResponse<ContentFamily>>(`/api/org/${orgSlug}/articles/${articleId}/family/${outputType}`);
+    if (!data.data) throw new Error('Failed to fetch content family');
+    return data.data;
+  },
+
+  backTranslate: async (
+    orgSlug: string,
+    articleId: string,
+    outputType: ReviewableOutputType,
+    outputId: string,
+  ): Promise<BackTranslation> => {
+    const { data } = await apiClient.post<ApiResponse<BackTranslation>>(
+      `/api/org/${orgSlug}/articles/${articleId}/family/${outputType}/back-translate`,
+      { outputId },
+    );
+    if (!data.data) throw new Error('Failed to back-translate');
+    return data.data;
+  },
+
+  transitionFamily: async (
+    orgSlug: string,
+    articleId: string,
+    outputType: ReviewableOutputType,
+    payload: FamilyTransitionRequest,
+  ): Promise<FamilyTransitionResult[]> => {
+    const { data } = await apiClient.post<ApiResponse<{ results: FamilyTransitionResult[] }>>(
+      `/api/org/${orgSlug}/articles/${articleId}/family/${outputType}/transition`,
+      payload,
+    );
+    if (!data.data) throw new Error('Failed to update review status');
+    return data.data.results;
+  },
+};
+
+// Script Revisions API - Organization-scoped
+export const revisionsApi = {
+  list: async (orgSlug: string, outputType: RevisionOutputType, outputId: string): Promise<ScriptRevision[]> => {
+    const { data } = await apiClient.get<ApiResponse<ScriptRevision[]>>(`/api/org/${orgSlug}/revisions/${outputType}/${outputId}`);
+    return data.data || [];
+  },
+
+  restore: async (
+    orgSlug: string,
+    outputType: RevisionOutputType,
+    outputId: string,
+    revisionId: string,
+    regenerateMedia: boolean,
+  ): Promise<RestoreRevisionResponse> => {
+    const { data } = await apiClient.post<ApiResponse<RestoreRevisionResponse>>(
+      `/api/org/${orgSlug}/revisions/${outputType}/${outputId}/${revisionId}/restore`,
+      { regenerateMedia },
+    );
+    if (!data.data) throw new Error('Failed to restore revision');
+    return data.data;
+  },
+};
+
+// Permissions API - Organization-scoped
+export const permissionsApi = {
+  getMine: async (orgSlug: string): Promise<MemberPermissions> => {
+    const { data } = await apiClient.get<ApiResponse<MemberPermissions>>(`/api/org/${orgSlug}/permissions`);
+    if (!data.data) throw new Error('Failed to fetch permissions');
+    return data.data;
+  },
+};
+
+// Article Feeds API - Organization-scoped RSS / Atom subscriptions
+export const articleFeedsApi = {
+  getAll: async (orgSlug: string): Promise<ArticleFeed[]> => {
+    const { data } = await apiClient.get<ApiResponse<ArticleFeed[]>>(`/api/org/${orgSlug}/article-feeds`);
+    return data.data || [];
+  },
+
+  create: async (orgSlug: string, payload: CreateArticleFeedRequest): Promise<ArticleFeed> => {
+    const { data } = await apiClient.post<ApiResponse<ArticleFeed>>(`/api/org/${orgSlug}/article-feeds`, payload);
+    if (!data.data) throw new Error('Failed to add feed');
+    return data.data;
+  },
+
+  update: async (orgSlug: string, id: string, payload: UpdateArticleFeedRequest): Promise<ArticleFeed> => {
+    const { data } = await apiClient.patch<ApiResponse<ArticleFeed>>(`/api/org/${orgSlug}/article-feeds/${id}`, payload);
+    if (!data.data) throw new Error('Failed to update feed');
+    return data.data;
+  },
+
+  delete: async (orgSlug: string, id: string): Promise<void> => {
+    await apiClient.delete(`/api/org/${orgSlug}/article-feeds/${id}`);
+  },
+
+  check: async (orgSlug: string, id: string): Promise<void> => {
+    await apiClient.post(`/api/org/${orgSlug}/article-feeds/${id}/check`);
+  },
+};
+
+// Bulk article uploads - extracted and submitted by the worker
+export const articleImportsApi = {
+  getAll: async (orgSlug: string): Promise<ArticleImportBatchSummary[]> => {
+    const { data } = await apiClient.get<ApiResponse<ArticleImportBatchSummary[]>>(`/api/org/${orgSlug}/articles/imports`);
+    return data.data || [];
+  },
+
+  getById: async (orgSlug: string, id: string): Promise<ArticleImportBatch> => {
+    const { data } = await apiClient.get<ApiResponse<ArticleImportBatch>>(`/api/org/${orgSlug}/articles/imports/${id}`);
+    if (!data.data) throw new Error('Import not found');
+    return data.data;
+  },
+
+  create: async (orgSlug: string, payload: CreateArticleImportRequest): Promise<CreateArticleImportResponse> => {
+    const formData = new FormData();
+    payload.files.forEach((file) => formData.append('files', file));
+    if (payload.manifest) formData.append('manifest', payload.manifest);
+    formData.append('settings', JSON.stringify(payload.settings));
+
+    const { data } = await apiClient.post<ApiResponse<CreateArticleImportResponse>>(`/api/org/${orgSlug}/articles/imports`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    if (!data.data) throw new Error('Failed to start import');
+    return data.data;
+  },
+
+  retry: async (orgSlug: string, id: string, itemIds?: string[]): Promise<RetryArticleImportResponse> => {
+    const { data } = await apiClient.post<ApiResponse<RetryArticleImportResponse>>(`/api/org/${orgSlug}/articles/imports/${id}/retry`, { itemIds });
+    if (!data.data) throw new Error('Failed to retry import');
+    return data.data;
+  },
+};
+
+// Content Pipelines API - Organization-scoped
+export const pipelinesApi = {
+  getAll: async (orgSlug: string): Promise<ContentPipeline[]> => {
+    const { data } = await apiClient.get<ApiResponse<ContentPipeline[]>>(`/api/org/${orgSlug}/pipelines`);
+    return data.data || [];
+  },
+
+  getById: async (orgSlug: string, id: string): Promise<ContentPipeline> => {
+    const { data } = await apiClient.get<ApiResponse<ContentPipeline>>(`/api/org/${orgSlug}/pipelines/${id}`);
+    if (!data.data) throw new Error('Pipeline not found');
+    return data.data;
+  },
+
+  create: async (orgSlug: string, payload: CreateContentPipelineRequest): Promise<ContentPipeline> => {
+    const { data } = await apiClient.post<ApiResponse<ContentPipeline>>(`/api/org/${orgSlug}/pipelines`, payload);
+    if (!data.data) throw new Error('Failed to create pipeline');
+    return data.data;
+  },
+
+  update: async (orgSlug: string, id: string, payload: UpdateContentPipelineRequest): Promise<ContentPipeline> => {
+    const { data } = await apiClient.patch<ApiResponse<ContentPipeline>>(`/api/org/${orgSlug}/pipelines/${id}`, payload);
+    if (!data.data) throw new Error('Failed to update pipeline');
+    return data.data;
+  },
+
+  delete: async (orgSlug: string, id: string): Promise<void> => {
+    await apiClient.delete(`/api/org/${orgSlug}/pipelines/${id}`);
+  },
+
+  run: async (orgSlug: string, id: string): Promise<void> => {
+    await apiClient.post(`/api/org/${orgSlug}/pipelines/${id}/run`);
+  },
+};
+
+const auditQuery = (filters: AuditEventFilters) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  return params;
+};
+
+// Languages API - Organization-scoped
+export const languagesApi = {
+  getAll: async (orgSlug: string): Promise<LanguageInfo[]> => {
+    const { data } = await apiClient.get<ApiResponse<{ languages: LanguageInfo[] }>>(`/api/org/${orgSlug}/languages`);
+    return data.data?.languages || [];
+  },
+
+  // Replaces the enabled set - requires settings.manage
+  setEnabled: async (orgSlug: string, languages: Language[]): Promise<LanguageInfo[]> => {
+    const { data } = await apiClient.put<ApiResponse<{ languages: LanguageInfo[] }>>(`/api/org/${orgSlug}/languages`, { languages });
+    if (!data.data) throw new Error('Failed to update languages');
+    return data.data.languages;
+  },
+};
+
+// Glossary API - Organization term base, changes require settings.manage
+export const glossaryApi = {
+  getAll: async (orgSlug: string): Promise<GlossaryTerm[]> => {
+    const { data } = await apiClient.get<ApiResponse<{ terms: GlossaryTerm[] }>>(`/api/org/${orgSlug}/glossary`);
+    return data.data?.terms || [];
+  },
+
+  create: async (orgSlug: string, payload: GlossaryTermRequest): Promise<GlossaryTerm> => {
+    const { data } = await apiClient.post<ApiResponse<GlossaryTerm>>(`/api/org/${orgSlug}/glossary`, payload);
+    if (!data.data) throw new Error('Failed to create glossary term');
+    return data.data;
+  },
+
+  update: async (orgSlug: string, id: string, payload: Partial<GlossaryTermRequest>): Promise<GlossaryTerm> => {
+    const { data } = await apiClient.patch<ApiResponse<GlossaryTerm>>(`/api/org/${orgSlug}/glossary/${id}`, payload);
+    if (!data.data) throw new Error('Failed to update glossary term');
+    return data.data;
+  },
+
+  delete: async (orgSlug: string, id: string): Promise<void> => {
+    await apiClient.delete(`/api/org/${orgSlug}/glossary/${id}`);
+  },
+};
+
+// Pronunciation Lexicon API - Organization-scoped
+export const pronunciationsApi = {
+  getAll: async (orgSlug: string): Promise<PronunciationLexicon> => {
+    const { data } = await apiClient.get<ApiResponse<PronunciationLexicon>>(`/api/org/${orgSlug}/pronunciations`);
+    return data.data || { entries: [], phonemesSupported: false };
+  },
+
+  create: async (orgSlug: string, payload: PronunciationEntryRequest): Promise<PronunciationEntry> => {
+    const { data } = await apiClient.post<ApiResponse<PronunciationEntry>>(`/api/org/${orgSlug}/pronunciations`, payload);
+    if (!data.data) throw new Error('Failed to create pronunciation entry');
+    return data.data;
+  },
+
+  update: async (orgSlug: string, id: string, payload: Partial<PronunciationEntryRequest>): Promise<PronunciationEntry> => {
+    const { data } = await apiClient.patch<ApiResponse<PronunciationEntry>>(`/api/org/${orgSlug}/pronunciations/${id}`, payload);
+    if (!data.data) throw new Error('Failed to update pronunciation entry');
+    return data.data;
+  },
+
+  delete: async (orgSlug: string, id: string): Promise<void> => {
+    await apiClient.delete(`/api/org/${orgSlug}/pronunciations/${id}`);
+  },
+
+  preview: async (orgSlug: string, payload: PronunciationPreviewRequest): Promise<PronunciationPreview> => {
+    const { data } = await apiClient.post<ApiResponse<PronunciationPreview>>(`/api/org/${orgSlug}/pronunciations/preview`, payload);
+    if (!data.data) throw new Error('Failed to generate preview');
+    return data.data;
+  },
+};
+
+// Audit Log API - Organization-scoped, admins only
+export const auditApi = {
+  list: async (orgSlug: string, filters: AuditEventFilters, page: number = 1, limit: number = 50): Promise<PaginatedResponse<AuditEvent>> => {
+    const params = auditQuery(filters);
+    params.set('page', String(page));
+    params.set('limit', String(limit));
+    const { data } = await apiClient.get<PaginatedResponse<AuditEvent>>(`/api/org/${orgSlug}/audit?${params}`);
+    return data;
+  },
+
+  // Plain link target - the browser downloads the CSV with the session cookie
+  exportUrl: (orgSlug: string, filters: AuditEventFilters): string => {
+    const params = auditQuery(filters).toString();
+    return `/api/org/${orgSlug}/audit/export${params ? `?${params}` : ''}`;
+  },
+};
+
+// Analytics API - Organization-scoped
+export const analyticsApi = {
+  getContentAnalytics: async (orgSlug: string, days: number): Promise<OrganizationAnalytics> => {
+    const { data } = await apiClient.get<ApiResponse<OrganizationAnalytics>>(`/api/org/${orgSlug}/analytics?days=${days}`);
+    if (!data.data) throw new Error('Failed to fetch analytics');
+    return data.data;
+  },
+
+  getQuizItemAnalysis: async (orgSlug: string, submissionId: string, quizId: string): Promise<QuizItemAnalysis> => {
+    const { data } = await apiClient.get<ApiResponse<QuizItemAnalysis>>(
+      `/api/org/${orgSlug}/submissions/${submissionId}/quiz/${quizId}/item-analysis`,
+    );
+    if (!data.data) throw new Error('Failed to fetch item analysis');
+    return data.data;
+  },
+};
+
 // Background Music API - Organization-scoped
 export const backgroundMusicApi = {
   getAll: async (orgSlug: string): Promise<BackgroundMusic[]> => {
@@ -583,6 +925,30 @@ export const captionStylesApi = {
     const { data } = await apiClient.get<ApiResponse<{ captionStyles: CaptionStyle[]; total: number }>>(`/api/org/${orgSlug}/caption-styles`);
     return data.data?.captionStyles || [];
   },
+
+  create: async (orgSlug: string, payload: CaptionStyleRequest): Promise<CaptionStyle> => {
+    const { data } = await apiClient.post<ApiResponse<CaptionStyle>>(`/api/org/${orgSlug}/caption-styles`, payload);
+    if (!data.data) throw new Error('Failed to create caption style');
+    return data.data;
+  },
+
+  update: async (orgSlug: string, id: string, payload: Partial<CaptionStyleRequest>): Promise<CaptionStyle> => {
+    const { data } = await apiClient.patch<ApiResponse<CaptionStyle>>(`/api/org/${orgSlug}/caption-styles/${id}`, payload);
+    if (!data.data) throw new Error('Failed to update caption style');
+    return data.data;
+  },
+
+  getSettings: async (orgSlug: string): Promise<CaptionSettings> => {
+    const { data } = await apiClient.get<ApiResponse<CaptionSettings>>(`/api/org/${orgSlug}/caption-styles/settings`);
+    if (!data.data) throw new Error('Failed to fetch caption settings');
+    return data.data;
+  },
+
+  updateSettings: async (orgSlug: string, payload: Partial<CaptionSettings>): Promise<CaptionSettings> => {
+    const { data } = await apiClient.patch<ApiResponse<CaptionSettings>>(`/api/org/${orgSlug}/caption-styles/settings`, payload);
+    if (!data.data) throw new Error('Failed to update caption settings');
+    return data.data;
+  },
 };
 
 // Standalone Video Create API - Organization-scoped
@@ -609,6 +975,9 @@ export interface CreateStandaloneVideoRequest {
   startBumperDuration?: number | null;
   endBumperId?: string | null;
   endBumperDuration?: number | null;
+  // Extra formats rendered alongside the portrait original
+  aspectRatios?: Exclude<VideoAspectRatio, 'PORTRAIT'>[];
+  renditionFit?: RenditionFit;
 }
 
 export interface CreateStandaloneVideoResponse {
@@ -631,6 +1000,7 @@ export interface TranslateScriptRequest {
 export interface TranslateScriptResponse {
   translatedScript: string;
   translatedTitle: string;
+  glossaryIssues: GlossaryIssue[];
 }
 
 export const standaloneVideoApi = {
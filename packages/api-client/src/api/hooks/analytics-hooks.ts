@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { analyticsApi } from '../client';
+
+// Query Keys
+export const analyticsQueryKeys = {
+  content: (orgSlug: string, days: number) => ['analytics', orgSlug, 'content', days] as const,
+  quizItems: (orgSlug: string, quizId: string) => ['analytics', orgSlug, 'quiz-items', quizId] as const,
+};
+
+/**
+ * Fetch widget consumption analytics for an organization
+ * Data is rolled up nightly, so it changes at most once a day.
+ *
+ * @example
+ * ```tsx
+ * const { data: analytics } = useContentAnalytics(orgSlug, 30);
+ * ```
+ */
+export function useContentAnalytics(orgSlug: string, days: number) {
+  return useQuery({
+    queryKey: analyticsQueryKeys.content(orgSlug, days),
+    queryFn: () => analyticsApi.getContentAnalytics(orgSlug, days),
+    enabled: !!orgSlug,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+/**
+ * Fetch item analysis (difficulty, discrimination, option picks) for a quiz's questions
+ * and the video bubbles of the same submission
+ *
+ * @example
+ * ```tsx
+ * const { data: itemAnalysis } = useQuizItemAnalysis(orgSlug, submissionId, quizId);
+ * ```
+ */
+export function useQuizItemAnalysis(orgSlug: string, submissionId: string, quizId: string) {
+  return useQuery({
+    queryKey: analyticsQueryKeys.quizItems(orgSlug, quizId),
+    queryFn: () => analyticsApi.getQuizItemAnalysis(orgSlug, submissionId, quizId),
+    enabled: !!orgSlug && !!submissionId && !!quizId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
@@ -1,308 +1,82 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { submissionsApi } from '../client';
+import { reviewApi } from '../client';
+import { reviewQueryKeys } from './review-hooks';
+import type { ReviewAction, ReviewableOutputType, ReviewStatus } from '../../api.types';
 
 // Query Keys
 const submissionQueryKey = (orgSlug: string, id: string) => ['submissions', orgSlug, id] as const;
 
-// Approval Hooks
-
-export function useApproveAudio(orgSlug: string) {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: ({ submissionId, audioId }: { submissionId: string; audioId: string }) =>
-      submissionsApi.approveAudio(orgSlug, submissionId, audioId),
-    onMutate: async (variables) => {
-      await queryClient.cancelQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-      const previousSubmission = queryClient.getQueryData(submissionQueryKey(orgSlug, variables.submissionId));
-
-      queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), (old: any) => {
-        if (!old) return old;
-        return {
-          ...old,
-          audioOutputs: old.audioOutputs?.map((ao: any) => (ao.id === variables.audioId ? { ...ao, isApproved: true, approvedAt: new Date().toISOString() } : ao)),
-        };
-      });
-
-      return { previousSubmission };
-    },
-    onError: (err, variables, context: any) => {
-      if (context?.previousSubmission) {
-        queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), context.previousSubmission);
-      }
-    },
-    onSettled: (_, __, variables) => {
-      queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-    },
-  });
-}
-
-export function useUnapproveAudio(orgSlug: string) {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: ({ submissionId, audioId }: { submissionId: string; audioId: string }) =>
-      submissionsApi.unapproveAudio(orgSlug, submissionId, audioId),
-    onMutate: async (variables) => {
-      await queryClient.cancelQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-      const previousSubmission = queryClient.getQueryData(submissionQueryKey(orgSlug, variables.submissionId));
-
-      queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), (old: any) => {
-        if (!old) return old;
-        return {
-          ...old,
-          audioOutputs: old.audioOutputs?.map((ao: any) => (ao.id === variables.audioId ? { ...ao, isApproved: false, approvedAt: null } : ao)),
-        };
-      });
-
-      return { previousSubmission };
-    },
-    onError: (err, variables, context: any) => {
-      if (context?.previousSubmission) {
-        queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), context.previousSubmission);
-      }
-    },
-    onSettled: (_, __, variables) => {
-      queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-    },
-  });
-}
-
-export function useApprovePodcast(orgSlug: string) {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: ({ submissionId, podcastId }: { submissionId: string; podcastId: string }) =>
-      submissionsApi.approvePodcast(orgSlug, submissionId, podcastId),
-    onMutate: async (variables) => {
-      await queryClient.cancelQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-      const previousSubmission = queryClient.getQueryData(submissionQueryKey(orgSlug, variables.submissionId));
-
-      queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), (old: any) => {
-        if (!old) return old;
-        return {
-          ...old,
-          podcastOutputs: old.podcastOutputs?.map((po: any) => (po.id === variables.podcastId ? { ...po, isApproved: true, approvedAt: new Date().toISOString() } : po)),
-        };
-      });
-
-      return { previousSubmission };
-    },
-    onError: (err, variables, context: any) => {
-      if (context?.previousSubmission) {
-        queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), context.previousSubmission);
-      }
-    },
-    onSettled: (_, __, variables) => {
-      queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-    },
-  });
-}
-
-export function useUnapprovePodcast(orgSlug: string) {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: ({ submissionId, podcastId }: { submissionId: string; podcastId: string }) =>
-      submissionsApi.unapprovePodcast(orgSlug, submissionId, podcastId),
-    onMutate: async (variables) => {
-      await queryClient.cancelQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-      const previousSubmission = queryClient.getQueryData(submissionQueryKey(orgSlug, variables.submissionId));
-
-      queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), (old: any) => {
-        if (!old) return old;
-        return {
-          ...old,
-          podcastOutputs: old.podcastOutputs?.map((po: any) => (po.id === variables.podcastId ? { ...po, isApproved: false, approvedAt: null } : po)),
-        };
-      });
-
-      return { previousSubmission };
-    },
-    onError: (err, variables, context: any) => {
-      if (context?.previousSubmission) {
-        queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), context.previousSubmission);
-      }
-    },
-    onSettled: (_, __, variables) => {
-      queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-    },
-  });
-}
-
-export function useApproveVideo(orgSlug: string) {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: ({ submissionId, videoId }: { submissionId: string; videoId: string }) =>
-      submissionsApi.approveVideo(orgSlug, submissionId, videoId),
-    onMutate: async (variables) => {
-      await queryClient.cancelQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-      const previousSubmission = queryClient.getQueryData(submissionQueryKey(orgSlug, variables.submissionId));
-
-      queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), (old: any) => {
-        if (!old) return old;
-        return {
-          ...old,
-          videoOutputs: old.videoOutputs?.map((vo: any) => (vo.id === variables.videoId ? { ...vo, isApproved: true, approvedAt: new Date().toISOString() } : vo)),
-        };
-      });
-
-      return { previousSubmission };
-    },
-    onError: (err, variables, context: any) => {
-      if (context?.previousSubmission) {
-        queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), context.previousSubmission);
-      }
-    },
-    onSettled: (_, __, variables) => {
-      queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-    },
-  });
-}
-
-export function useUnapproveVideo(orgSlug: string) {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: ({ submissionId, videoId }: { submissionId: string; videoId: string }) =>
-      submissionsApi.unapproveVideo(orgSlug, submissionId, videoId),
-    onMutate: async (variables) => {
-      await queryClient.cancelQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-      const previousSubmission = queryClient.getQueryData(submissionQueryKey(orgSlug, variables.submissionId));
-
-      queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), (old: any) => {
-        if (!old) return old;
-        return {
-          ...old,
-          videoOutputs: old.videoOutputs?.map((vo: any) => (vo.id === variables.videoId ? { ...vo, isApproved: false, approvedAt: null } : vo)),
-        };
-      });
-
-      return { previousSubmission };
-    },
-    onError: (err, variables, context: any) => {
-      if (context?.previousSubmission) {
-        queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), context.previousSubmission);
-      }
-    },
-    onSettled: (_, __, variables) => {
-      queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-    },
-  });
-}
-
-export function useApproveQuiz(orgSlug: string) {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: ({ submissionId, quizId }: { submissionId: string; quizId: string }) =>
-      submissionsApi.approveQuiz(orgSlug, submissionId, quizId),
-    onMutate: async (variables) => {
-      await queryClient.cancelQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-      const previousSubmission = queryClient.getQueryData(submissionQueryKey(orgSlug, variables.submissionId));
-
-      queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), (old: any) => {
-        if (!old) return old;
-        return {
-          ...old,
-          quizOutputs: old.quizOutputs?.map((qo: any) => (qo.id === variables.quizId ? { ...qo, isApproved: true, approvedAt: new Date().toISOString() } : qo)),
-        };
-      });
-
-      return { previousSubmission };
-    },
-    onError: (err, variables, context: any) => {
-      if (context?.previousSubmission) {
-        queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), context.previousSubmission);
-      }
-    },
-    onSettled: (_, __, variables) => {
-      queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-    },
-  });
+// Submission field holding each output type (for optimistic updates)
+const OUTPUT_LIST_KEYS: Record<ReviewableOutputType, string> = {
+  audio: 'audioOutputs',
+  podcast: 'podcastOutputs',
+  video: 'videoOutputs',
+  quiz: 'quizOutputs',
+  'interactive-podcast': 'interactivePodcastOutputs',
+};
+
+/**
+ * Review state machine - mirrors the server (review.service.ts).
+ * `reviewerOnly` actions need an assigned reviewer or an org admin/owner.
+ */
+export const REVIEW_TRANSITIONS: Record<ReviewAction, { from: ReviewStatus[]; to: ReviewStatus; reviewerOnly: boolean; label: string }> = {
+  submit: { from: ['DRAFT', 'CHANGES_REQUESTED'], to: 'IN_REVIEW', reviewerOnly: false, label: 'Submit for review' },
+  withdraw: { from: ['IN_REVIEW'], to: 'DRAFT', reviewerOnly: false, label: 'Withdraw' },
+  request_changes: { from: ['IN_REVIEW', 'APPROVED'], to: 'CHANGES_REQUESTED', reviewerOnly: true, label: 'Request changes' },
+  approve: { from: ['IN_REVIEW'], to: 'APPROVED', reviewerOnly: true, label: 'Approve' },
+  publish: { from: ['APPROVED'], to: 'PUBLISHED', reviewerOnly: true, label: 'Publish' },
+  unpublish: { from: ['PUBLISHED'], to: 'APPROVED', reviewerOnly: true, label: 'Unpublish' },
+};
+
+/**
+ * Actions available from a review status
+ */
+export function getAvailableReviewActions(status: ReviewStatus): ReviewAction[] {
+  return (Object.keys(REVIEW_TRANSITIONS) as ReviewAction[]).filter((action) => REVIEW_TRANSITIONS[action].from.includes(status));
 }
 
-export function useUnapproveQuiz(orgSlug: string) {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: ({ submissionId, quizId }: { submissionId: string; quizId: string }) =>
-      submissionsApi.unapproveQuiz(orgSlug, submissionId, quizId),
-    onMutate: async (variables) => {
-      await queryClient.cancelQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-      const previousSubmission = queryClient.getQueryData(submissionQueryKey(orgSlug, variables.submissionId));
-
-      queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), (old: any) => {
-        if (!old) return old;
-        return {
-          ...old,
-          quizOutputs: old.quizOutputs?.map((qo: any) => (qo.id === variables.quizId ? { ...qo, isApproved: false, approvedAt: null } : qo)),
-        };
-      });
-
-      return { previousSubmission };
-    },
-    onError: (err, variables, context: any) => {
-      if (context?.previousSubmission) {
-        queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), context.previousSubmission);
-      }
-    },
-    onSettled: (_, __, variables) => {
-      queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-    },
-  });
-}
-
-export function useApproveInteractivePodcast(orgSlug: string) {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: ({ submissionId, ipId }: { submissionId: string; ipId: string }) =>
-      submissionsApi.approveInteractivePodcast(orgSlug, submissionId, ipId),
-    onMutate: async (variables) => {
-      await queryClient.cancelQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-      const previousSubmission = queryClient.getQueryData(submissionQueryKey(orgSlug, variables.submissionId));
-
-      queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), (old: any) => {
-        if (!old) return old;
-        return {
-          ...old,
-          interactivePodcastOutputs: old.interactivePodcastOutputs?.map((ipo: any) =>
-            ipo.id === variables.ipId ? { ...ipo, isApproved: true, approvedAt: new Date().toISOString() } : ipo,
-          ),
-        };
-      });
-
-      return { previousSubmission };
-    },
-    onError: (err, variables, context: any) => {
-      if (context?.previousSubmission) {
-        queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), context.previousSubmission);
-      }
-    },
-    onSettled: (_, __, variables) => {
-      queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
-    },
-  });
-}
+// Approval Hooks
 
-export function useUnapproveInteractivePodcast(orgSlug: string) {
+/**
+ * Move an audio, podcast, video, quiz or interactive podcast output through the review workflow
+ *
+ * @example
+ * ```tsx
+ * const transition = useReviewTransition(orgSlug);
+ * transition.mutate({ submissionId, outputType: 'video', outputId: videoId, action: 'submit' });
+ * transition.mutate({ submissionId, outputType: 'video', outputId: videoId, action: 'request_changes', note: 'Fix the intro' });
+ * ```
+ */
+export function useReviewTransition(orgSlug: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ submissionId, ipId }: { submissionId: string; ipId: string }) =>
-      submissionsApi.unapproveInteractivePodcast(orgSlug, submissionId, ipId),
+    mutationFn: ({
+      outputType,
+      outputId,
+      action,
+      note,
+      acknowledgeGlossary,
+    }: {
+      submissionId: string;
+      outputType: ReviewableOutputType;
+      outputId: string;
+      action: ReviewAction;
+      note?: string;
+      acknowledgeGlossary?: boolean; // Approve despite the glossary issues the server flagged
+    }) => reviewApi.transition(orgSlug, outputType, outputId, { action, note, acknowledgeGlossary }),
     onMutate: async (variables) => {
       await queryClient.cancelQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
       const previousSubmission = queryClient.getQueryData(submissionQueryKey(orgSlug, variables.submissionId));
 
+      const reviewStatus = REVIEW_TRANSITIONS[variables.action].to;
+      const listKey = OUTPUT_LIST_KEYS[variables.outputType];
       queryClient.setQueryData(submissionQueryKey(orgSlug, variables.submissionId), (old: any) => {
         if (!old) return old;
         return {
           ...old,
-          interactivePodcastOutputs: old.interactivePodcastOutputs?.map((ipo: any) =>
-            ipo.id === variables.ipId ? { ...ipo, isApproved: false, approvedAt: null } : ipo,
+          [listKey]: old[listKey]?.map((output: any) =>
+            output.id === variables.outputId ? { ...output, reviewStatus, isApproved: reviewStatus === 'PUBLISHED' } : output,
           ),
         };
       });
@@ -316,6 +90,7 @@ export function useUnapproveInteractivePodcast(orgSlug: string) {
     },
     onSettled: (_, __, variables) => {
       queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
+      queryClient.invalidateQueries({ queryKey: reviewQueryKeys.review(orgSlug, variables.outputType, variables.outputId) });
     },
   });
 }
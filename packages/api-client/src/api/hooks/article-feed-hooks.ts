@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { articleFeedsApi } from '../client';
+import type { CreateArticleFeedRequest, UpdateArticleFeedRequest } from '../../api.types';
+
+// Query Keys
+export const articleFeedQueryKeys = {
+  feeds: (orgSlug: string) => ['article-feeds', orgSlug] as const,
+};
+
+/**
+ * RSS / Atom subscriptions of an organization with their latest imported articles
+ *
+ * @example
+ * ```tsx
+ * const { data: feeds } = useArticleFeeds(orgSlug);
+ * ```
+ */
+export function useArticleFeeds(orgSlug: string) {
+  return useQuery({
+    queryKey: articleFeedQueryKeys.feeds(orgSlug),
+    queryFn: () => articleFeedsApi.getAll(orgSlug),
+    enabled: !!orgSlug,
+  });
+}
+
+export function useCreateArticleFeed(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateArticleFeedRequest) => articleFeedsApi.create(orgSlug, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: articleFeedQueryKeys.feeds(orgSlug) });
+    },
+  });
+}
+
+export function useUpdateArticleFeed(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: UpdateArticleFeedRequest & { id: string }) => articleFeedsApi.update(orgSlug, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: articleFeedQueryKeys.feeds(orgSlug) });
+    },
+  });
+}
+
+export function useDeleteArticleFeed(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => articleFeedsApi.delete(orgSlug, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: articleFeedQueryKeys.feeds(orgSlug) });
+    },
+  });
+}
+
+/**
+ * Queue an immediate check - new articles appear once the worker has run it
+ */
+export function useCheckArticleFeed(orgSlug: string) {
+  return useMutation({
+    mutationFn: (id: string) => articleFeedsApi.check(orgSlug, id),
+  });
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { articlesApi } from '../client';
-import type { CreateArticleRequest } from '../../api.types';
+import type { CreateArticleRequest, ImportArticleRequest } from '../../api.types';
 
 // Query Keys
 export const articleQueryKeys = {
@@ -38,6 +38,17 @@ export function useCreateArticle(orgSlug: string) {
   });
 }
 
+export function useImportArticle(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ImportArticleRequest) => articlesApi.importFromUrl(orgSlug, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: articleQueryKeys.articles(orgSlug) });
+    },
+  });
+}
+
 // Article approval hooks
 export function useApproveArticle(orgSlug: string) {
   const queryClient = useQueryClient();
@@ -0,0 +1,91 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { articleImportsApi } from '../client';
+import type { ArticleImportBatch, CreateArticleImportRequest } from '../../api.types';
+
+// Query Keys
+export const articleImportQueryKeys = {
+  all: (orgSlug: string) => ['article-imports', orgSlug] as const,
+  detail: (orgSlug: string, id: string) => ['article-imports', orgSlug, id] as const,
+};
+
+// Extraction and generation run in the worker - poll while anything is still moving
+const IN_PROGRESS_POLL_INTERVAL = 5000;
+
+const isExtracting = (status: string) => status === 'PENDING' || status === 'EXTRACTING';
+
+const isGenerating = (batch: ArticleImportBatch) =>
+  batch.items.some((item) =>
+    item.article?.submissions.some((submission) =>
+      [
+        ...submission.audioOutputs,
+        ...submission.podcastOutputs,
+        ...submission.videoOutputs,
+        ...submission.quizOutputs,
+        ...submission.interactivePodcastOutputs,
+      ].some((output) => output.status === 'PENDING' || output.status === 'PROCESSING')
+    )
+  );
+
+/**
+ * Recent bulk uploads of an organization
+ *
+ * @example
+ * ```tsx
+ * const { data: batches } = useArticleImports(orgSlug);
+ * ```
+ */
+export function useArticleImports(orgSlug: string) {
+  return useQuery({
+    queryKey: articleImportQueryKeys.all(orgSlug),
+    queryFn: () => articleImportsApi.getAll(orgSlug),
+    enabled: !!orgSlug,
+    refetchInterval: (query) =>
+      query.state.data?.some((batch) => batch.items.some((item) => isExtracting(item.status)))
+        ? IN_PROGRESS_POLL_INTERVAL
+        : false,
+  });
+}
+
+/**
+ * One bulk upload with per-item extraction and generation status
+ */
+export function useArticleImport(orgSlug: string, id: string) {
+  return useQuery({
+    queryKey: articleImportQueryKeys.detail(orgSlug, id),
+    queryFn: () => articleImportsApi.getById(orgSlug, id),
+    enabled: !!orgSlug && !!id,
+    refetchInterval: (query) => {
+      const batch = query.state.data;
+      if (!batch) return false;
+      return batch.items.some((item) => isExtracting(item.status)) || isGenerating(batch)
+        ? IN_PROGRESS_POLL_INTERVAL
+        : false;
+    },
+  });
+}
+
+export function useCreateArticleImport(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateArticleImportRequest) => articleImportsApi.create(orgSlug, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: articleImportQueryKeys.all(orgSlug) });
+    },
+  });
+}
+
+/**
+ * Retry the failures of a batch - all of them, or only the given items
+ */
+export function useRetryArticleImport(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, itemIds }: { id: string; itemIds?: string[] }) => articleImportsApi.retry(orgSlug, id, itemIds),
+    onSuccess: () => {
+      // Also covers the detail query
+      queryClient.invalidateQueries({ queryKey: articleImportQueryKeys.all(orgSlug) });
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { auditApi } from '../client';
+import type { AuditEventFilters } from '../../api.types';
+
+// Query Keys
+export const auditQueryKeys = {
+  events: (orgSlug: string, filters: AuditEventFilters, page: number) => ['audit', orgSlug, filters, page] as const,
+};
+
+/**
+ * Page of the organization audit log, newest first (admins only)
+ *
+ * @example
+ * ```tsx
+ * const { data } = useAuditEvents(orgSlug, { targetType: 'member' }, page);
+ * ```
+ */
+export function useAuditEvents(orgSlug: string, filters: AuditEventFilters, page: number = 1, enabled: boolean = true) {
+  return useQuery({
+    queryKey: auditQueryKeys.events(orgSlug, filters, page),
+    queryFn: () => auditApi.list(orgSlug, filters, page),
+    enabled: !!orgSlug && enabled,
+    placeholderData: keepPreviousData,
+  });
+}
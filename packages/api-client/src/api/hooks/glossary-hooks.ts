@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { glossaryApi } from '../client';
+import type { GlossaryTermRequest } from '../../api.types';
+
+// Query Keys
+export const glossaryQueryKeys = {
+  terms: (orgSlug: string) => ['glossary', orgSlug] as const,
+};
+
+/**
+ * The organization's glossary, sorted by term
+ *
+ * @example
+ * ```tsx
+ * const { data: terms = [] } = useGlossary(orgSlug);
+ * ```
+ */
+export function useGlossary(orgSlug: string) {
+  return useQuery({
+    queryKey: glossaryQueryKeys.terms(orgSlug),
+    queryFn: () => glossaryApi.getAll(orgSlug),
+    enabled: !!orgSlug,
+  });
+}
+
+/**
+ * Term changes also change the glossary check shown in open reviews
+ */
+function useInvalidateGlossary(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: glossaryQueryKeys.terms(orgSlug) });
+    queryClient.invalidateQueries({ queryKey: ['review', orgSlug] });
+  };
+}
+
+export function useCreateGlossaryTerm(orgSlug: string) {
+  const invalidate = useInvalidateGlossary(orgSlug);
+
+  return useMutation({
+    mutationFn: (payload: GlossaryTermRequest) => glossaryApi.create(orgSlug, payload),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateGlossaryTerm(orgSlug: string) {
+  const invalidate = useInvalidateGlossary(orgSlug);
+
+  return useMutation({
+    mutationFn: ({ id, ...payload }: Partial<GlossaryTermRequest> & { id: string }) =>
+      glossaryApi.update(orgSlug, id, payload),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteGlossaryTerm(orgSlug: string) {
+  const invalidate = useInvalidateGlossary(orgSlug);
+
+  return useMutation({
+    mutationFn: (id: string) => glossaryApi.delete(orgSlug, id),
+    onSuccess: invalidate,
+  });
+}
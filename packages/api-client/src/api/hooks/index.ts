@@ -3,9 +3,18 @@
 // Article hooks
 export * from './article-hooks';
 
+// Article feed (RSS / Atom) hooks
+export * from './article-feed-hooks';
+
+// Bulk article import hooks
+export * from './article-import-hooks';
+
 // Submission hooks
 export * from './submission-hooks';
 
+// Content pipeline hooks
+export * from './pipeline-hooks';
+
 // Tag hooks
 export * from './tag-hooks';
 
@@ -24,9 +33,12 @@ export * from './interactive-podcast-tag-hooks';
 // Quiz tag hooks
 export * from './quiz-tag-hooks';
 
-// Approval hooks
+// Approval (review workflow transition) hooks
 export * from './approval-hooks';
 
+// Review reviewer / comment / activity hooks
+export * from './review-hooks';
+
 // Video hooks
 export * from './video-hooks';
 
@@ -36,6 +48,20 @@ export * from './podcast-hooks';
 // Script hooks
 export * from './script-hooks';
 
+// Script revision history hooks
+export * from './revision-hooks';
+
+// Audit log hooks
+export * from './audit-hooks';
+
+// Permission hooks
+export * from './permission-hooks';
+
+// Language registry hooks
+export * from './language-hooks';
+export * from './glossary-hooks';
+export * from './pronunciation-hooks';
+
 // Media hooks
 export * from './media-hooks';
 
@@ -51,6 +77,12 @@ export * from './feature-flags-hooks';
 // Video Create hooks (background music, bumpers, caption styles)
 export * from './video-create-hooks';
 
+// Publishing schedule hooks
+export * from './schedule-hooks';
+
+// Analytics hooks
+export * from './analytics-hooks';
+
 // Query Keys
 export const queryKeys = {
   articles: ['articles'] as const,
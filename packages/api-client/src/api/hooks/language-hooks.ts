@@ -0,0 +1,65 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { languagesApi } from '../client';
+import { formatLanguageCode } from '../../utils';
+import type { Language } from '../../api.types';
+
+// Query Keys
+export const languageQueryKeys = {
+  languages: (orgSlug: string) => ['languages', orgSlug] as const,
+};
+
+/**
+ * Active languages of the registry, each flagged with whether the organization has enabled it.
+ * Create forms only offer the enabled ones; labels use the whole list so older content still reads well.
+ *
+ * @example
+ * ```tsx
+ * const { data: languages = [] } = useLanguages(orgSlug);
+ * const options = languages.filter((language) => language.enabled);
+ * ```
+ */
+export function useLanguages(orgSlug: string) {
+  return useQuery({
+    queryKey: languageQueryKeys.languages(orgSlug),
+    queryFn: () => languagesApi.getAll(orgSlug),
+    enabled: !!orgSlug,
+    staleTime: 5 * 60 * 1000, // Changes only from organization settings
+  });
+}
+
+/**
+ * Display name and text direction lookup for Language.codes shown in lists
+ *
+ * @example
+ * ```tsx
+ * const { getLabel, getDirection } = useLanguageLabels(orgSlug);
+ * <span>{getLabel(submission.language)}</span>
+ * ```
+ */
+export function useLanguageLabels(orgSlug: string) {
+  const { data: languages } = useLanguages(orgSlug);
+
+  const getLabel = useCallback(
+    (code: Language) => languages?.find((language) => language.code === code)?.name ?? formatLanguageCode(code),
+    [languages]
+  );
+  const getDirection = useCallback(
+    (code: Language): 'ltr' | 'rtl' =>
+      languages?.find((language) => language.code === code)?.direction === 'RTL' ? 'rtl' : 'ltr',
+    [languages]
+  );
+
+  return { getLabel, getDirection };
+}
+
+export function useUpdateEnabledLanguages(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (languages: Language[]) => languagesApi.setEnabled(orgSlug, languages),
+    onSuccess: (languages) => {
+      queryClient.setQueryData(languageQueryKeys.languages(orgSlug), languages);
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { permissionsApi } from '../client';
+import type { OrgPermission } from '../../api.types';
+
+// Query Keys
+export const permissionQueryKeys = {
+  mine: (orgSlug: string) => ['permissions', orgSlug] as const,
+};
+
+/**
+ * Current user's role and effective permissions in the organization
+ *
+ * @example
+ * ```tsx
+ * const { data } = useOrgPermissions(orgSlug);
+ * ```
+ */
+export function useOrgPermissions(orgSlug: string) {
+  return useQuery({
+    queryKey: permissionQueryKeys.mine(orgSlug),
+    queryFn: () => permissionsApi.getMine(orgSlug),
+    enabled: !!orgSlug,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+/**
+ * Whether the current user holds a permission (false until permissions have loaded).
+ * Only hides controls - the API enforces permissions itself.
+ *
+ * @example
+ * ```tsx
+ * const canApprove = useHasPermission(orgSlug, 'content.approve');
+ * ```
+ */
+export function useHasPermission(orgSlug: string, permission: OrgPermission): boolean {
+  const { data } = useOrgPermissions(orgSlug);
+  return data?.permissions.includes(permission) ?? false;
+}
@@ -0,0 +1,93 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { pipelinesApi } from '../client';
+import type { CreateContentPipelineRequest, UpdateContentPipelineRequest } from '../../api.types';
+
+// Query Keys
+export const pipelineQueryKeys = {
+  all: (orgSlug: string) => ['pipelines', orgSlug] as const,
+  detail: (orgSlug: string, id: string) => ['pipelines', orgSlug, id] as const,
+};
+
+// Runs advance in the worker - poll while any is still generating
+const RUNNING_POLL_INTERVAL = 15000;
+
+/**
+ * Content pipelines of an organization with their latest run
+ *
+ * @example
+ * ```tsx
+ * const { data: pipelines } = usePipelines(orgSlug);
+ * ```
+ */
+export function usePipelines(orgSlug: string) {
+  return useQuery({
+    queryKey: pipelineQueryKeys.all(orgSlug),
+    queryFn: () => pipelinesApi.getAll(orgSlug),
+    enabled: !!orgSlug,
+    refetchInterval: (query) =>
+      query.state.data?.some((pipeline) => pipeline.runs[0]?.status === 'RUNNING') ? RUNNING_POLL_INTERVAL : false,
+  });
+}
+
+/**
+ * One pipeline with its recent run history
+ */
+export function usePipeline(orgSlug: string, id: string) {
+  return useQuery({
+    queryKey: pipelineQueryKeys.detail(orgSlug, id),
+    queryFn: () => pipelinesApi.getById(orgSlug, id),
+    enabled: !!orgSlug && !!id,
+    refetchInterval: (query) =>
+      query.state.data?.runs.some((run) => run.status === 'RUNNING') ? RUNNING_POLL_INTERVAL : false,
+  });
+}
+
+export function useCreatePipeline(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateContentPipelineRequest) => pipelinesApi.create(orgSlug, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: pipelineQueryKeys.all(orgSlug) });
+    },
+  });
+}
+
+export function useUpdatePipeline(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: UpdateContentPipelineRequest & { id: string }) => pipelinesApi.update(orgSlug, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: pipelineQueryKeys.all(orgSlug) });
+    },
+  });
+}
+
+export function useDeletePipeline(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => pipelinesApi.delete(orgSlug, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: pipelineQueryKeys.all(orgSlug) });
+    },
+  });
+}
+
+/**
+ * Queue a run outside the schedule - it appears in the history once the worker starts it
+ */
+export function useRunPipeline(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => pipelinesApi.run(orgSlug, id),
+    onSuccess: () => {
+      // Give the worker a moment to create the run before refetching (also covers the detail queries)
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: pipelineQueryKeys.all(orgSlug) });
+      }, 3000);
+    },
+  });
+}
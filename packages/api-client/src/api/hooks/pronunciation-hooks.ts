@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { pronunciationsApi } from '../client';
+import type { PronunciationEntryRequest, PronunciationPreviewRequest } from '../../api.types';
+
+// Query Keys
+export const pronunciationQueryKeys = {
+  entries: (orgSlug: string) => ['pronunciations', orgSlug] as const,
+};
+
+/**
+ * The organization's pronunciation lexicon, sorted by term, and whether phonemes are used
+ *
+ * @example
+ * ```tsx
+ * const { data: lexicon } = usePronunciations(orgSlug);
+ * const entries = lexicon?.entries ?? [];
+ * ```
+ */
+export function usePronunciations(orgSlug: string) {
+  return useQuery({
+    queryKey: pronunciationQueryKeys.entries(orgSlug),
+    queryFn: () => pronunciationsApi.getAll(orgSlug),
+    enabled: !!orgSlug,
+  });
+}
+
+export function useCreatePronunciation(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: PronunciationEntryRequest) => pronunciationsApi.create(orgSlug, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: pronunciationQueryKeys.entries(orgSlug) });
+    },
+  });
+}
+
+export function useUpdatePronunciation(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...payload }: Partial<PronunciationEntryRequest> & { id: string }) =>
+      pronunciationsApi.update(orgSlug, id, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: pronunciationQueryKeys.entries(orgSlug) });
+    },
+  });
+}
+
+export function useDeletePronunciation(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => pronunciationsApi.delete(orgSlug, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: pronunciationQueryKeys.entries(orgSlug) });
+    },
+  });
+}
+
+/**
+ * Speak sample text with the lexicon applied
+ *
+ * @example
+ * ```tsx
+ * const preview = usePronunciationPreview(orgSlug);
+ * preview.mutate({ text: 'NIFTY closed higher', language: 'ENGLISH' }, {
+ *   onSuccess: ({ audio }) => new Audio(`data:audio/mpeg;base64,${audio}`).play(),
+ * });
+ * ```
+ */
+export function usePronunciationPreview(orgSlug: string) {
+  return useMutation({
+    mutationFn: (payload: PronunciationPreviewRequest) => pronunciationsApi.preview(orgSlug, payload),
+  });
+}
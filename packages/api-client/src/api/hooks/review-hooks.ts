@@ -0,0 +1,158 @@
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
+import { reviewApi } from '../client';
+import type { CreateReviewCommentRequest, FamilyTransitionRequest, ReviewableOutputType } from '../../api.types';
+
+// Query Keys
+export const reviewQueryKeys = {
+  review: (orgSlug: string, outputType: ReviewableOutputType, outputId: string) => ['review', orgSlug, outputType, outputId] as const,
+  family: (orgSlug: string, articleId: string, outputType: ReviewableOutputType) =>
+    ['review', orgSlug, 'family', articleId, outputType] as const,
+  // Outside ['review', ...] so glossary / review invalidations don't re-run the translation
+  backTranslation: (orgSlug: string, outputId: string) => ['back-translation', orgSlug, outputId] as const,
+};
+
+/**
+ * Review status, reviewers, comment threads and activity history of an output
+ *
+ * @example
+ * ```tsx
+ * const { data: review } = useOutputReview(orgSlug, 'video', videoId);
+ * review?.comments.filter((c) => c.anchorType === 'VIDEO_TIMESTAMP');
+ * ```
+ */
+export function useOutputReview(orgSlug: string, outputType: ReviewableOutputType, outputId: string) {
+  return useQuery({
+    queryKey: reviewQueryKeys.review(orgSlug, outputType, outputId),
+    queryFn: () => reviewApi.get(orgSlug, outputType, outputId),
+    enabled: !!orgSlug && !!outputId,
+  });
+}
+
+/**
+ * Assign an organization member as reviewer
+ */
+export function useAssignReviewer(orgSlug: string, outputType: ReviewableOutputType, outputId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (reviewerId: string) => reviewApi.assignReviewer(orgSlug, outputType, outputId, reviewerId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewQueryKeys.review(orgSlug, outputType, outputId) });
+    },
+  });
+}
+
+/**
+ * Remove a reviewer
+ */
+export function useUnassignReviewer(orgSlug: string, outputType: ReviewableOutputType, outputId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (reviewerId: string) => reviewApi.unassignReviewer(orgSlug, outputType, outputId, reviewerId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewQueryKeys.review(orgSlug, outputType, outputId) });
+    },
+  });
+}
+
+/**
+ * Add a comment or reply
+ *
+ * @example
+ * ```tsx
+ * const addComment = useAddReviewComment(orgSlug, 'video', videoId);
+ * addComment.mutate({ body: 'Caption is out of sync', anchor: { type: 'VIDEO_TIMESTAMP', timestamp: 42.5 } });
+ * addComment.mutate({ body: 'Fixed', parentId: comment.id });
+ * ```
+ */
+export function useAddReviewComment(orgSlug: string, outputType: ReviewableOutputType, outputId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: CreateReviewCommentRequest) => reviewApi.addComment(orgSlug, outputType, outputId, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewQueryKeys.review(orgSlug, outputType, outputId) });
+    },
+  });
+}
+
+/**
+ * Resolve or reopen a comment thread
+ */
+export function useResolveReviewComment(orgSlug: string, outputType: ReviewableOutputType, outputId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ commentId, resolved }: { commentId: string; resolved: boolean }) =>
+      reviewApi.setCommentResolved(orgSlug, outputType, outputId, commentId, resolved),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewQueryKeys.review(orgSlug, outputType, outputId) });
+    },
+  });
+}
+
+/**
+ * An article's output of one type in every language, split into paragraphs for side-by-side review
+ *
+ * @example
+ * ```tsx
+ * const { data: family } = useContentFamily(orgSlug, articleId, 'video');
+ * family?.translations.map((member) => member.paragraphs[row]);
+ * ```
+ */
+export function useContentFamily(orgSlug: string, articleId: string, outputType: ReviewableOutputType) {
+  return useQuery({
+    queryKey: reviewQueryKeys.family(orgSlug, articleId, outputType),
+    queryFn: () => reviewApi.getFamily(orgSlug, articleId, outputType),
+    enabled: !!orgSlug && !!articleId,
+  });
+}
+
+/**
+ * English back-translations of the given outputs - LLM calls, so only fetched while enabled
+ * and kept until the page is left
+ *
+ * @example
+ * ```tsx
+ * const backTranslations = useBackTranslations(orgSlug, articleId, 'video', outputIds, showBackTranslation);
+ * backTranslations[0].data?.paragraphs[row];
+ * ```
+ */
+export function useBackTranslations(
+  orgSlug: string,
+  articleId: string,
+  outputType: ReviewableOutputType,
+  outputIds: string[],
+  enabled: boolean,
+) {
+  return useQueries({
+    queries: outputIds.map((outputId) => ({
+      queryKey: reviewQueryKeys.backTranslation(orgSlug, outputId),
+      queryFn: () => reviewApi.backTranslate(orgSlug, articleId, outputType, outputId),
+      enabled: enabled && !!orgSlug,
+      staleTime: Infinity,
+    })),
+  });
+}
+
+/**
+ * Approve or request changes on every language of a content family at once
+ *
+ * @example
+ * ```tsx
+ * const transitionFamily = useFamilyTransition(orgSlug, articleId, 'video');
+ * transitionFamily.mutate({ action: 'approve' });
+ * ```
+ */
+export function useFamilyTransition(orgSlug: string, articleId: string, outputType: ReviewableOutputType) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: FamilyTransitionRequest) => reviewApi.transitionFamily(orgSlug, articleId, outputType, payload),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: reviewQueryKeys.family(orgSlug, articleId, outputType) });
+      queryClient.invalidateQueries({ queryKey: ['submissions', orgSlug] });
+    },
+  });
+}
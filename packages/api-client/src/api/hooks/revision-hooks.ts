@@ -0,0 +1,46 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { revisionsApi } from '../client';
+import type { RevisionOutputType } from '../../api.types';
+
+// Query Keys
+export const revisionQueryKeys = {
+  revisions: (orgSlug: string, outputType: RevisionOutputType, outputId: string) => ['revisions', orgSlug, outputType, outputId] as const,
+};
+
+/**
+ * Script / transcript revision history of an output, newest first
+ *
+ * @example
+ * ```tsx
+ * const { data: revisions = [] } = useScriptRevisions(orgSlug, 'podcast', podcastId);
+ * ```
+ */
+export function useScriptRevisions(orgSlug: string, outputType: RevisionOutputType, outputId: string) {
+  return useQuery({
+    queryKey: revisionQueryKeys.revisions(orgSlug, outputType, outputId),
+    queryFn: () => revisionsApi.list(orgSlug, outputType, outputId),
+    enabled: !!orgSlug && !!outputId,
+  });
+}
+
+/**
+ * Restore an earlier revision, optionally re-queueing media generation
+ *
+ * @example
+ * ```tsx
+ * const restore = useRestoreRevision(orgSlug, 'video', videoId, submissionId);
+ * restore.mutate({ revisionId: revision.id, regenerateMedia: true });
+ * ```
+ */
+export function useRestoreRevision(orgSlug: string, outputType: RevisionOutputType, outputId: string, submissionId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ revisionId, regenerateMedia }: { revisionId: string; regenerateMedia: boolean }) =>
+      revisionsApi.restore(orgSlug, outputType, outputId, revisionId, regenerateMedia),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: revisionQueryKeys.revisions(orgSlug, outputType, outputId) });
+      queryClient.invalidateQueries({ queryKey: ['submissions', orgSlug, submissionId] });
+    },
+  });
+}
@@ -0,0 +1,27 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { scheduleApi } from '../client';
+import type { UpdatePublishScheduleRequest } from '../../api.types';
+
+/**
+ * Set the publish / expiry dates of an article or output
+ *
+ * @example
+ * ```tsx
+ * const updateSchedule = useUpdatePublishSchedule(orgSlug);
+ * updateSchedule.mutate({ contentType: 'video', id: videoId, publishAt: '2025-01-01T09:00:00.000Z', expiresAt: null });
+ * ```
+ */
+export function useUpdatePublishSchedule(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: UpdatePublishScheduleRequest) => scheduleApi.update(orgSlug, payload),
+    onSuccess: (_, variables) => {
+      // Articles and outputs are both read through these queries (library, edit pages)
+      queryClient.invalidateQueries({ queryKey: ['articles', orgSlug] });
+      if (variables.contentType !== 'article') {
+        queryClient.invalidateQueries({ queryKey: ['submissions', orgSlug] });
+      }
+    },
+  });
+}
@@ -14,6 +14,7 @@ export function useUpdateVideoScript(orgSlug: string) {
       submissionsApi.updateVideoOutput(orgSlug, submissionId, videoId, { script }),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
+      queryClient.invalidateQueries({ queryKey: ['revisions', orgSlug] });
     },
   });
 }
@@ -26,6 +27,7 @@ export function useUpdatePodcastScript(orgSlug: string) {
       submissionsApi.updatePodcastScript(orgSlug, submissionId, podcastId, transcript),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
+      queryClient.invalidateQueries({ queryKey: ['revisions', orgSlug] });
     },
   });
 }
@@ -38,6 +40,7 @@ export function useUpdateInteractivePodcastScript(orgSlug: string) {
       submissionsApi.updateInteractivePodcastScript(orgSlug, submissionId, ipId, script),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
+      queryClient.invalidateQueries({ queryKey: ['revisions', orgSlug] });
     },
   });
 }
@@ -52,6 +55,7 @@ export function useRegenerateVideoScript(orgSlug: string) {
       submissionsApi.regenerateVideoScript(orgSlug, submissionId, videoId, promptGuidance),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
+      queryClient.invalidateQueries({ queryKey: ['revisions', orgSlug] });
     },
   });
 }
@@ -64,6 +68,7 @@ export function useRegeneratePodcastScript(orgSlug: string) {
       submissionsApi.regeneratePodcastScript(orgSlug, submissionId, podcastId, promptGuidance),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
+      queryClient.invalidateQueries({ queryKey: ['revisions', orgSlug] });
     },
   });
 }
@@ -76,6 +81,7 @@ export function useRegenerateInteractivePodcastScript(orgSlug: string) {
       submissionsApi.regenerateInteractivePodcastScript(orgSlug, submissionId, ipId, promptGuidance),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
+      queryClient.invalidateQueries({ queryKey: ['revisions', orgSlug] });
     },
   });
 }
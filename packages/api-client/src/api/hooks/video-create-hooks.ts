@@ -1,7 +1,7 @@
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { backgroundMusicApi, videoBumpersApi, captionStylesApi, standaloneVideoApi } from '../client';
 import type { CreateStandaloneVideoRequest, CreateStandaloneVideoResponse, TranslateScriptRequest, TranslateScriptResponse } from '../client';
-import type { BackgroundMusic, VideoBumper, CaptionStyle, StandaloneVideo } from '../../api.types';
+import type { BackgroundMusic, VideoBumper, CaptionStyle, CaptionStyleRequest, CaptionSettings, StandaloneVideo } from '../../api.types';
 
 /**
  * Query keys for video create resources
@@ -11,6 +11,7 @@ export const videoCreateQueryKeys = {
   videoBumpers: (orgSlug: string) => ['video-bumpers', orgSlug] as const,
   videoBumpersFiltered: (orgSlug: string, position: string) => ['video-bumpers', orgSlug, position] as const,
   captionStyles: (orgSlug: string) => ['caption-styles', orgSlug] as const,
+  captionSettings: (orgSlug: string) => ['caption-settings', orgSlug] as const,
   standaloneVideos: (orgSlug: string) => ['standalone-videos', orgSlug] as const,
 };
 
@@ -63,6 +64,71 @@ export function useCaptionStyles(orgSlug: string) {
   });
 }
 
+/**
+ * Hook to create a caption style
+ *
+ * @param orgSlug - Organization slug
+ * @returns React Query mutation for creating a caption style
+ */
+export function useCreateCaptionStyle(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<CaptionStyle, Error, CaptionStyleRequest>({
+    mutationFn: (payload) => captionStylesApi.create(orgSlug, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: videoCreateQueryKeys.captionStyles(orgSlug) });
+    },
+  });
+}
+
+/**
+ * Hook to update a caption style's template, preview or logo watermark
+ *
+ * @param orgSlug - Organization slug
+ * @returns React Query mutation for updating a caption style
+ */
+export function useUpdateCaptionStyle(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<CaptionStyle, Error, { id: string } & Partial<CaptionStyleRequest>>({
+    mutationFn: ({ id, ...payload }) => captionStylesApi.update(orgSlug, id, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: videoCreateQueryKeys.captionStyles(orgSlug) });
+    },
+  });
+}
+
+/**
+ * Hook to fetch the organization's Submagic theme and dictionary
+ *
+ * @param orgSlug - Organization slug
+ * @returns React Query result with caption settings
+ */
+export function useCaptionSettings(orgSlug: string) {
+  return useQuery<CaptionSettings>({
+    queryKey: videoCreateQueryKeys.captionSettings(orgSlug),
+    queryFn: () => captionStylesApi.getSettings(orgSlug),
+    enabled: !!orgSlug,
+  });
+}
+
+/**
+ * Hook to update the organization's Submagic theme and dictionary
+ *
+ * @param orgSlug - Organization slug
+ * @returns React Query mutation for updating caption settings
+ */
+export function useUpdateCaptionSettings(orgSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<CaptionSettings, Error, Partial<CaptionSettings>>({
+    mutationFn: (payload) => captionStylesApi.updateSettings(orgSlug, payload),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(videoCreateQueryKeys.captionSettings(orgSlug), settings);
+    },
+  });
+}
+
 /**
  * Hook to create a standalone video
  *
@@ -14,6 +14,7 @@ export function useUpdateVideoOutput(orgSlug: string) {
       submissionsApi.updateVideoOutput(orgSlug, submissionId, videoId, payload),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: submissionQueryKey(orgSlug, variables.submissionId) });
+      queryClient.invalidateQueries({ queryKey: ['revisions', orgSlug] });
     },
   });
 }
@@ -4,10 +4,18 @@
 export {
   apiClient,
   articlesApi,
+  articleFeedsApi,
+  articleImportsApi,
+  pipelinesApi,
   submissionsApi,
   heygenApi,
   submagicApi,
   tagsApi,
+  auditApi,
+  languagesApi,
+  glossaryApi,
+  pronunciationsApi,
+  captionStylesApi,
 } from './api/client';
 
 // Re-export all hooks
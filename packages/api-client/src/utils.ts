@@ -20,3 +20,10 @@ export function formatDuration(seconds: number): string {
   const remainingSeconds = seconds % 60;
   return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
 }
+
+/**
+ * Readable fallback for a Language.code the registry doesn't list ("TAMIL" → "Tamil")
+ */
+export function formatLanguageCode(code: string): string {
+  return code.charAt(0) + code.slice(1).toLowerCase();
+}
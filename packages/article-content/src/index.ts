@@ -0,0 +1,17 @@
+/**
+ * @repo/article-content
+ * Structured article documents shared by the backend and the widget
+ *
+ * - types: the block/inline document model stored in `Article.contentDocument`
+ * - render: safe HTML output for the widget and the backend preview
+ * - text: the text version kept in `Article.content` and the heading outline
+ * - legacy: conversion of free-form content into a document
+ *
+ * The sanitizer is server-only and imported from `@repo/article-content/sanitize`.
+ */
+
+export * from './types';
+export * from './inline';
+export * from './render';
+export * from './text';
+export * from './legacy';
@@ -0,0 +1,111 @@
+/**
+ * Inline Content Helpers
+ *
+ * The editor lets authors type inline formatting as a small markdown subset:
+ * **bold**, *italic* and [link text](https://example.com). These helpers convert
+ * between that syntax and the structured text nodes stored in the document.
+ */
+
+import type { InlineContent, InlineMark, TextNode } from './types';
+
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+const SAFE_IMAGE_PROTOCOLS = ['https:'];
+
+/**
+ * Whether a URL may be used as a link (or, with `image`, as an image source).
+ * Relative URLs and javascript:/data: URLs are rejected.
+ */
+export function isSafeUrl(url: string, kind: 'link' | 'image' = 'link'): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return (kind === 'image' ? SAFE_IMAGE_PROTOCOLS : SAFE_LINK_PROTOCOLS).includes(protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Longest tokens first so ** is not read as two single *
+const INLINE_TOKEN = /\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/**
+ * Parse the editor's inline markdown subset into text nodes.
+ * Links with an unsafe URL keep their text and lose the link.
+ */
+export function parseInlineMarkdown(source: string, marks: InlineMark[] = []): InlineContent {
+  const nodes: InlineContent = [];
+  let lastIndex = 0;
+
+  const pushText = (text: string, nodeMarks: InlineMark[], href?: string) => {
+    if (!text) return;
+    nodes.push({
+      type: 'text',
+      text,
+      ...(nodeMarks.length > 0 ? { marks: nodeMarks } : {}),
+      ...(href ? { href } : {}),
+    });
+  };
+
+  for (const match of source.matchAll(INLINE_TOKEN)) {
+    pushText(source.slice(lastIndex, match.index), marks);
+    lastIndex = match.index! + match[0].length;
+
+    const [, bold, italic, linkText, linkUrl] = match;
+    if (bold !== undefined) {
+      nodes.push(...parseInlineMarkdown(bold, addMark(marks, 'bold')));
+    } else if (italic !== undefined) {
+      nodes.push(...parseInlineMarkdown(italic, addMark(marks, 'italic')));
+    } else {
+      pushText(linkText, marks, isSafeUrl(linkUrl) ? linkUrl : undefined);
+    }
+  }
+
+  pushText(source.slice(lastIndex), marks);
+  return mergeAdjacent(nodes);
+}
+
+/**
+ * Convert text nodes back to the editor's inline markdown subset
+ */
+export function inlineToMarkdown(content: InlineContent): string {
+  return content
+    .map((node) => {
+      let text = node.text;
+      if (node.marks?.includes('italic')) text = `*${text}*`;
+      if (node.marks?.includes('bold')) text = `**${text}**`;
+      if (node.href) text = `[${text}](${node.href})`;
+      return text;
+    })
+    .join('');
+}
+
+/**
+ * Plain text of inline content, without formatting or link targets
+ */
+export function inlineToText(content: InlineContent): string {
+  return content.map((node) => node.text).join('');
+}
+
+function addMark(marks: InlineMark[], mark: InlineMark): InlineMark[] {
+  return marks.includes(mark) ? marks : [...marks, mark];
+}
+
+function sameFormatting(a: TextNode, b: TextNode): boolean {
+  const marksA = [...(a.marks ?? [])].sort().join();
+  const marksB = [...(b.marks ?? [])].sort().join();
+  return marksA === marksB && a.href === b.href;
+}
+
+/**
+ * Join neighbouring nodes that carry the same formatting
+ */
+export function mergeAdjacent(nodes: InlineContent): InlineContent {
+  return nodes.reduce<InlineContent>((merged, node) => {
+    const previous = merged[merged.length - 1];
+    if (previous && sameFormatting(previous, node)) {
+      merged[merged.length - 1] = { ...previous, text: previous.text + node.text };
+    } else {
+      merged.push(node);
+    }
+    return merged;
+  }, []);
+}
@@ -0,0 +1,180 @@
+/**
+ * Legacy Content Conversion
+ *
+ * Articles uploaded from files (and everything created before the editor) only have the
+ * free-form `Article.content` string - plain text, light markdown or loosely structured HTML.
+ * This converts it into a document so it goes through the same renderer, instead of being
+ * injected as-is.
+ */
+
+import { parseInlineMarkdown } from './inline';
+import { ARTICLE_DOCUMENT_VERSION, type ArticleBlock, type ArticleDocument, type HeadingLevel } from './types';
+
+const HTML_BLOCK = /<(h[1-6]|p|li|blockquote)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+const LOOKS_LIKE_HTML = /<(p|h[1-6]|ul|ol|li|blockquote|div|br)\b[^>]*>/i;
+
+// Block syntax written by documentToText (and by Markdown files)
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+)$/;
+const MARKDOWN_LIST_ITEM = /^(?:[-*+]|(\d{1,3})[.)])\s+(.+)$/;
+const MARKDOWN_QUOTE = /^>\s?(.*)$/;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Out-of-range values and lone surrogates aren't characters (fromCodePoint throws on the former)
+      const isCodePoint = !Number.isNaN(value) && value <= 0x10ffff && !(value >= 0xd800 && value <= 0xdfff);
+      return isCodePoint ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Turn inline HTML into the inline markdown subset (bold, italic, links) and drop every other tag
+ */
+function htmlToInlineMarkdown(html: string): string {
+  const markdown = html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, '*$2*')
+    .replace(/<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(markdown).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split text into sentences on . ! ? followed by a capital letter
+ */
+function splitIntoSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+(?=[A-Z])/).filter((sentence) => sentence.trim());
+}
+
+/**
+ * Long paragraphs (4+ sentences) are broken into paragraphs of 2-3 sentences for readability.
+ * Paragraphs with inline formatting are left whole so markup is never split apart.
+ */
+function toParagraphs(text: string): ArticleBlock[] {
+  const sentences = /[*[]/.test(text) ? [text] : splitIntoSentences(text);
+  if (sentences.length < 4) {
+    return [{ type: 'paragraph', content: parseInlineMarkdown(text) }];
+  }
+
+  const chunks: string[] = [];
+  for (let i = 0; i < sentences.length; ) {
+    // Take 3 when exactly 3 remain (or more than 4), otherwise 2 - avoids a lone trailing sentence
+    const remaining = sentences.length - i;
+    const size = remaining === 3 || remaining > 4 ? 3 : 2;
+    chunks.push(sentences.slice(i, i + size).join(' '));
+    i += size;
+  }
+
+  return chunks.map((chunk) => ({ type: 'paragraph', content: parseInlineMarkdown(chunk) }));
+}
+
+function htmlToBlocks(html: string): ArticleBlock[] {
+  const blocks: ArticleBlock[] = [];
+  let currentListStart = -1;
+
+  for (const match of html.matchAll(HTML_BLOCK)) {
+    const tag = match[1].toLowerCase();
+    const text = htmlToInlineMarkdown(match[2]);
+    if (!text) continue;
+
+    if (tag === 'li') {
+      // Consecutive items of the same <ul>/<ol> join one list
+      const before = html.slice(0, match.index);
+      const listStart = Math.max(before.lastIndexOf('<ul'), before.lastIndexOf('<ol'));
+      const ordered = listStart >= 0 && before.slice(listStart, listStart + 3) === '<ol';
+      const previous = blocks[blocks.length - 1];
+
+      if (previous?.type === 'list' && listStart === currentListStart) {
+        previous.items.push(parseInlineMarkdown(text));
+      } else {
+        blocks.push({ type: 'list', ordered, items: [parseInlineMarkdown(text)] });
+        currentListStart = listStart;
+      }
+      continue;
+    }
+
+    if (tag === 'blockquote') {
+      blocks.push({ type: 'quote', content: parseInlineMarkdown(text) });
+    } else if (tag === 'p') {
+      blocks.push(...toParagraphs(text));
+    } else {
+      // h1 becomes h2 - the article title is the page's h1
+      const level = Math.min(Math.max(Number(tag[1]), 2), 4) as HeadingLevel;
+      blocks.push({ type: 'heading', level, content: parseInlineMarkdown(text) });
+    }
+  }
+
+  return blocks;
+}
+
+function markdownChunkToBlocks(lines: string[]): ArticleBlock[] {
+  const heading = lines[0].match(MARKDOWN_HEADING);
+  if (heading) {
+    const level = Math.min(Math.max(heading[1].length, 2), 4) as HeadingLevel;
+    const rest = lines.slice(1).join(' ');
+    return [{ type: 'heading', level, content: parseInlineMarkdown(heading[2]) }, ...(rest ? toParagraphs(rest) : [])];
+  }
+
+  if (lines.every((line) => MARKDOWN_LIST_ITEM.test(line))) {
+    const items = lines.map((line) => parseInlineMarkdown(line.match(MARKDOWN_LIST_ITEM)![2]));
+    return [{ type: 'list', ordered: MARKDOWN_LIST_ITEM.exec(lines[0])![1] !== undefined, items }];
+  }
+
+  if (lines.every((line) => MARKDOWN_QUOTE.test(line))) {
+    const quoted = lines.map((line) => line.replace(MARKDOWN_QUOTE, '$1').trim());
+    // A closing "> - Name" line is the attribution
+    const last = quoted[quoted.length - 1];
+    const attribution = quoted.length > 1 && last.startsWith('- ') ? last.slice(2).trim() : '';
+    const text = (attribution ? quoted.slice(0, -1) : quoted).join(' ');
+    return [{ type: 'quote', content: parseInlineMarkdown(text), ...(attribution ? { attribution } : {}) }];
+  }
+
+  return toParagraphs(lines.join(' '));
+}
+
+function textToBlocks(text: string): ArticleBlock[] {
+  return text.split(/\n\s*\n/).flatMap((chunk) => {
+    const lines = chunk
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    return lines.length > 0 ? markdownChunkToBlocks(lines) : [];
+  });
+}
+
+/**
+ * Convert a free-form content string into a document
+ */
+export function legacyContentToDocument(content: string): ArticleDocument {
+  let blocks = LOOKS_LIKE_HTML.test(content) ? htmlToBlocks(content) : [];
+
+  // Not HTML, or HTML without recognisable blocks - treat as text
+  if (blocks.length === 0) {
+    blocks = textToBlocks(decodeEntities(content.replace(/<[^>]+>/g, '')));
+  }
+
+  return { version: ARTICLE_DOCUMENT_VERSION, blocks };
+}
+
+/**
+ * The document to render for an article: the stored one when it was written in the editor,
+ * otherwise a conversion of its free-form content
+ */
+export function resolveArticleDocument(article: { content: string; contentDocument?: unknown }): ArticleDocument {
+  const stored = article.contentDocument as ArticleDocument | null | undefined;
+  return stored?.blocks ? stored : legacyContentToDocument(article.content);
+}
@@ -0,0 +1,123 @@
+/**
+ * Article HTML Renderer
+ *
+ * Builds HTML from a document block by block. All text is escaped and URLs are re-checked here,
+ * so the output is safe to inject even if a document somehow skipped the sanitizer.
+ */
+
+import { isSafeUrl } from './inline';
+import {
+  ARTICLE_MEDIA_LABELS,
+  HEADING_LEVELS,
+  type ArticleBlock,
+  type ArticleDocument,
+  type InlineContent,
+  type MediaBlock,
+} from './types';
+
+export interface RenderOptions {
+  /**
+   * Where an embedded media reference links to. Without it (or when it returns null)
+   * media is shown as a labelled card without a link.
+   */
+  mediaHref?: (block: MediaBlock) => string | null;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function renderInline(content: InlineContent): string {
+  return content
+    .map((node) => {
+      let html = escapeHtml(node.text);
+      if (node.marks?.includes('italic')) html = `<em>${html}</em>`;
+      if (node.marks?.includes('bold')) html = `<strong>${html}</strong>`;
+      if (node.href && isSafeUrl(node.href)) {
+        html = `<a href="${escapeHtml(node.href)}" target="_blank" rel="noopener noreferrer">${html}</a>`;
+      }
+      return html;
+    })
+    .join('');
+}
+
+function renderMedia(block: MediaBlock, options: RenderOptions): string {
+  const label = ARTICLE_MEDIA_LABELS[block.mediaType] ?? 'Media';
+  const body =
+    `<span class="article-media-label">${escapeHtml(label)}</span>` +
+    (block.title ? `<span class="article-media-title">${escapeHtml(block.title)}</span>` : '');
+  const attributes =
+    `class="article-media article-media--${escapeHtml(block.mediaType)}" ` +
+    `data-media-type="${escapeHtml(block.mediaType)}" data-media-id="${escapeHtml(block.mediaId)}"`;
+
+  const href = options.mediaHref?.(block);
+  return href
+    ? `<figure ${attributes}><a class="article-media-body" href="${escapeHtml(href)}">${body}</a></figure>`
+    : `<figure ${attributes}><span class="article-media-body">${body}</span></figure>`;
+}
+
+function renderBlock(block: ArticleBlock, options: RenderOptions): string {
+  switch (block.type) {
+    case 'heading': {
+      // The level becomes part of the tag name - same fallback as the sanitizer
+      const level = HEADING_LEVELS.find((l) => l === block.level) ?? 2;
+      return `<h${level}>${renderInline(block.content)}</h${level}>`;
+    }
+
+    case 'paragraph':
+      return `<p>${renderInline(block.content)}</p>`;
+
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const items = block.items.map((item) => `<li>${renderInline(item)}</li>`).join('');
+      return `<${tag}>${items}</${tag}>`;
+    }
+
+    case 'callout':
+      return `<aside class="article-callout article-callout--${escapeHtml(block.tone)}"><p>${renderInline(block.content)}</p></aside>`;
+
+    case 'quote': {
+      const attribution = block.attribution ? `<cite>${escapeHtml(block.attribution)}</cite>` : '';
+      return `<blockquote><p>${renderInline(block.content)}</p>${attribution}</blockquote>`;
+    }
+
+    case 'table': {
+      const [first, ...rest] = block.rows;
+      if (!first) return '';
+
+      const row = (cells: InlineContent[], cellTag: 'th' | 'td') =>
+        `<tr>${cells.map((cell) => `<${cellTag}>${renderInline(cell)}</${cellTag}>`).join('')}</tr>`;
+
+      const head = block.hasHeaderRow ? `<thead>${row(first, 'th')}</thead>` : '';
+      const bodyRows = (block.hasHeaderRow ? rest : block.rows).map((cells) => row(cells, 'td')).join('');
+      return `<div class="article-table"><table>${head}<tbody>${bodyRows}</tbody></table></div>`;
+    }
+
+    case 'image': {
+      if (!isSafeUrl(block.src, 'image')) return '';
+      const caption = block.caption ? `<figcaption>${escapeHtml(block.caption)}</figcaption>` : '';
+      return `<figure class="article-figure"><img src="${escapeHtml(block.src)}" alt="${escapeHtml(block.alt)}" loading="lazy" />${caption}</figure>`;
+    }
+
+    case 'media':
+      return renderMedia(block, options);
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Render a document to HTML
+ */
+export function renderArticleHtml(document: ArticleDocument, options: RenderOptions = {}): string {
+  return document.blocks.map((block) => renderBlock(block, options)).join('\n');
+}
@@ -0,0 +1,173 @@
+/**
+ * Article Document Sanitizer
+ *
+ * Runs on the server for every document sent by a client before it is stored.
+ * Unknown block types and fields are dropped, text is trimmed to sane lengths and
+ * only http(s)/mailto links and https images survive.
+ */
+
+import { isSafeUrl, mergeAdjacent } from './inline';
+import {
+  ARTICLE_DOCUMENT_VERSION,
+  ARTICLE_MEDIA_TYPES,
+  CALLOUT_TONES,
+  HEADING_LEVELS,
+  type ArticleBlock,
+  type ArticleDocument,
+  type InlineContent,
+  type InlineMark,
+  type TextNode,
+} from './types';
+
+export const ARTICLE_DOCUMENT_LIMITS = {
+  MAX_BLOCKS: 500,
+  MAX_TEXT_LENGTH: 10000, // Per text node
+  MAX_LIST_ITEMS: 100,
+  MAX_TABLE_ROWS: 50,
+  MAX_TABLE_COLUMNS: 10,
+  MAX_URL_LENGTH: 2048,
+} as const;
+
+export class ArticleDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArticleDocumentError';
+  }
+}
+
+const MARKS: InlineMark[] = ['bold', 'italic'];
+const MEDIA_ID = /^[\w-]{1,64}$/;
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function cleanText(value: unknown, maxLength: number = ARTICLE_DOCUMENT_LIMITS.MAX_TEXT_LENGTH): string {
+  if (typeof value !== 'string') return '';
+  // Control characters other than tab/newline have no place in article text
+  return value.replace(/[\u0000-\u0008\u000B-\u001F\u007F]/g, '').slice(0, maxLength);
+}
+
+function cleanUrl(value: unknown, kind: 'link' | 'image'): string | undefined {
+  const url = cleanText(value, ARTICLE_DOCUMENT_LIMITS.MAX_URL_LENGTH).trim();
+  return url && isSafeUrl(url, kind) ? url : undefined;
+}
+
+function sanitizeInline(value: unknown): InlineContent {
+  if (!Array.isArray(value)) return [];
+
+  const nodes = value.flatMap((node): TextNode[] => {
+    if (!isRecord(node) || node.type !== 'text') return [];
+
+    const text = cleanText(node.text);
+    if (!text) return [];
+
+    const rawMarks = node.marks;
+    const marks = Array.isArray(rawMarks) ? MARKS.filter((mark) => rawMarks.includes(mark)) : [];
+    const href = cleanUrl(node.href, 'link');
+
+    return [{ type: 'text', text, ...(marks.length > 0 ? { marks } : {}), ...(href ? { href } : {}) }];
+  });
+
+  return mergeAdjacent(nodes);
+}
+
+function hasText(content: InlineContent): boolean {
+  return content.some((node) => node.text.trim());
+}
+
+function sanitizeBlock(block: unknown): ArticleBlock | null {
+  if (!isRecord(block)) return null;
+
+  switch (block.type) {
+    case 'heading': {
+      const content = sanitizeInline(block.content);
+      const level = HEADING_LEVELS.find((l) => l === block.level) ?? 2;
+      return hasText(content) ? { type: 'heading', level, content } : null;
+    }
+
+    case 'paragraph': {
+      const content = sanitizeInline(block.content);
+      return hasText(content) ? { type: 'paragraph', content } : null;
+    }
+
+    case 'list': {
+      const items = (Array.isArray(block.items) ? block.items : [])
+        .slice(0, ARTICLE_DOCUMENT_LIMITS.MAX_LIST_ITEMS)
+        .map(sanitizeInline)
+        .filter(hasText);
+      return items.length > 0 ? { type: 'list', ordered: block.ordered === true, items } : null;
+    }
+
+    case 'callout': {
+      const content = sanitizeInline(block.content);
+      const tone = CALLOUT_TONES.find((t) => t === block.tone) ?? 'info';
+      return hasText(content) ? { type: 'callout', tone, content } : null;
+    }
+
+    case 'quote': {
+      const content = sanitizeInline(block.content);
+      const attribution = cleanText(block.attribution, 200).trim();
+      return hasText(content)
+        ? { type: 'quote', content, ...(attribution ? { attribution } : {}) }
+        : null;
+    }
+
+    case 'table': {
+      const rows = (Array.isArray(block.rows) ? block.rows : [])
+        .slice(0, ARTICLE_DOCUMENT_LIMITS.MAX_TABLE_ROWS)
+        .filter(Array.isArray)
+        .map((cells: unknown[]) => cells.slice(0, ARTICLE_DOCUMENT_LIMITS.MAX_TABLE_COLUMNS).map(sanitizeInline))
+        .filter((cells) => cells.some(hasText));
+      if (rows.length === 0) return null;
+
+      // Pad ragged rows so every row has the same number of cells
+      const columns = Math.max(...rows.map((cells) => cells.length));
+      const padded = rows.map((cells) => [...cells, ...Array.from({ length: columns - cells.length }, () => [])]);
+      return { type: 'table', hasHeaderRow: block.hasHeaderRow === true, rows: padded };
+    }
+
+    case 'image': {
+      const src = cleanUrl(block.src, 'image');
+      const caption = cleanText(block.caption, 500).trim();
+      return src
+        ? { type: 'image', src, alt: cleanText(block.alt, 500).trim(), ...(caption ? { caption } : {}) }
+        : null;
+    }
+
+    case 'media': {
+      const mediaType = ARTICLE_MEDIA_TYPES.find((t) => t === block.mediaType);
+      const mediaId = cleanText(block.mediaId, 64);
+      const title = cleanText(block.title, 300).trim();
+      return mediaType && MEDIA_ID.test(mediaId)
+        ? { type: 'media', mediaType, mediaId, ...(title ? { title } : {}) }
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate and clean a document received from a client.
+ * Throws ArticleDocumentError when the input isn't a document or has no content left.
+ */
+export function sanitizeArticleDocument(input: unknown): ArticleDocument {
+  if (!isRecord(input) || !Array.isArray(input.blocks)) {
+    throw new ArticleDocumentError('Article document must be an object with a blocks array');
+  }
+
+  if (input.blocks.length > ARTICLE_DOCUMENT_LIMITS.MAX_BLOCKS) {
+    throw new ArticleDocumentError(`Article document can have at most ${ARTICLE_DOCUMENT_LIMITS.MAX_BLOCKS} blocks`);
+  }
+
+  const blocks = input.blocks.map(sanitizeBlock).filter((block): block is ArticleBlock => block !== null);
+  if (blocks.length === 0) {
+    throw new ArticleDocumentError('Article document has no content');
+  }
+
+  return { version: ARTICLE_DOCUMENT_VERSION, blocks };
+}
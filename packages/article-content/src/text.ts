@@ -0,0 +1,84 @@
+/**
+ * Text Output
+ *
+ * `Article.content` keeps a text version of every structured article, written as light markdown
+ * so AI prompts (scripts, quizzes, narration) still see the section structure.
+ */
+
+import { inlineToText } from './inline';
+import type { ArticleBlock, ArticleDocument, ArticleHeading, CalloutTone } from './types';
+
+const CALLOUT_PREFIXES: Record<CalloutTone, string> = {
+  info: 'Note',
+  tip: 'Tip',
+  warning: 'Warning',
+};
+
+function blockToText(block: ArticleBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${inlineToText(block.content)}`;
+
+    case 'paragraph':
+      return inlineToText(block.content);
+
+    case 'list':
+      return block.items
+        .map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${inlineToText(item)}`)
+        .join('\n');
+
+    case 'callout':
+      return `${CALLOUT_PREFIXES[block.tone]}: ${inlineToText(block.content)}`;
+
+    case 'quote':
+      return `> ${inlineToText(block.content)}${block.attribution ? `\n> - ${block.attribution}` : ''}`;
+
+    case 'table': {
+      const rows = block.rows.map((cells) => `| ${cells.map(inlineToText).join(' | ')} |`);
+      if (block.hasHeaderRow && rows.length > 0) {
+        const separator = `| ${block.rows[0].map(() => '---').join(' | ')} |`;
+        rows.splice(1, 0, separator);
+      }
+      return rows.join('\n');
+    }
+
+    case 'image':
+      return block.caption ? `[Image: ${block.caption}]` : '';
+
+    // Embedded media isn't part of the article's text
+    case 'media':
+      return '';
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Text version of a document, stored in `Article.content`
+ */
+export function documentToText(document: ArticleDocument): string {
+  return document.blocks
+    .map(blockToText)
+    .filter((text) => text.trim())
+    .join('\n\n');
+}
+
+/**
+ * Section headings in document order
+ */
+export function getArticleHeadings(document: ArticleDocument): ArticleHeading[] {
+  return document.blocks.flatMap((block) =>
+    block.type === 'heading' ? [{ level: block.level, text: inlineToText(block.content) }] : []
+  );
+}
+
+/**
+ * Headings as an indented outline - given to the script prompts so scripts can follow the
+ * article's sections. Empty when the article has no headings.
+ */
+export function formatArticleOutline(document: ArticleDocument): string {
+  return getArticleHeadings(document)
+    .map((heading) => `${'  '.repeat(heading.level - 2)}- ${heading.text}`)
+    .join('\n');
+}
@@ -0,0 +1,115 @@
+/**
+ * Article Document Model
+ *
+ * Articles written in the editor are stored as a list of typed blocks instead of free-form HTML.
+ * Every renderer (widget, backend preview, script generators) works from this structure, so
+ * nothing user-supplied is ever injected into a page as markup.
+ */
+
+export const ARTICLE_DOCUMENT_VERSION = 1;
+
+// ============================================
+// INLINE CONTENT
+// ============================================
+
+export type InlineMark = 'bold' | 'italic';
+
+export interface TextNode {
+  type: 'text';
+  text: string;
+  marks?: InlineMark[];
+  href?: string; // Set when the text is a link (http, https or mailto only)
+}
+
+export type InlineContent = TextNode[];
+
+// ============================================
+// BLOCKS
+// ============================================
+
+export const HEADING_LEVELS = [2, 3, 4] as const;
+export type HeadingLevel = (typeof HEADING_LEVELS)[number];
+
+export const CALLOUT_TONES = ['info', 'tip', 'warning'] as const;
+export type CalloutTone = (typeof CALLOUT_TONES)[number];
+
+// Media the platform generated, referenced by output id
+export const ARTICLE_MEDIA_TYPES = ['video', 'podcast', 'interactive_podcast'] as const;
+export type ArticleMediaType = (typeof ARTICLE_MEDIA_TYPES)[number];
+
+export const ARTICLE_MEDIA_LABELS: Record<ArticleMediaType, string> = {
+  video: 'Video',
+  podcast: 'Podcast',
+  interactive_podcast: 'Interactive podcast',
+};
+
+export interface HeadingBlock {
+  type: 'heading';
+  level: HeadingLevel;
+  content: InlineContent;
+}
+
+export interface ParagraphBlock {
+  type: 'paragraph';
+  content: InlineContent;
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  items: InlineContent[];
+}
+
+export interface CalloutBlock {
+  type: 'callout';
+  tone: CalloutTone;
+  content: InlineContent;
+}
+
+export interface QuoteBlock {
+  type: 'quote';
+  content: InlineContent;
+  attribution?: string;
+}
+
+export interface TableBlock {
+  type: 'table';
+  hasHeaderRow: boolean;
+  rows: InlineContent[][]; // rows[row][cell]
+}
+
+export interface ImageBlock {
+  type: 'image';
+  src: string;
+  alt: string;
+  caption?: string;
+}
+
+export interface MediaBlock {
+  type: 'media';
+  mediaType: ArticleMediaType;
+  mediaId: string;
+  title?: string;
+}
+
+export type ArticleBlock =
+  | HeadingBlock
+  | ParagraphBlock
+  | ListBlock
+  | CalloutBlock
+  | QuoteBlock
+  | TableBlock
+  | ImageBlock
+  | MediaBlock;
+
+export type ArticleBlockType = ArticleBlock['type'];
+
+export interface ArticleDocument {
+  version: typeof ARTICLE_DOCUMENT_VERSION;
+  blocks: ArticleBlock[];
+}
+
+export interface ArticleHeading {
+  level: HeadingLevel;
+  text: string;
+}
@@ -122,42 +122,6 @@ export const AWS_TRANSCRIBE_CONFIG = {
   secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
 } as const;
 
-/**
- * Language codes for different services
- */
-export const LANGUAGE_CODES = {
-  ENGLISH: {
-    name: 'English',
-    code: 'en',
-    awsTranscribe: 'en-US',
-    elevenlabs: 'en',
-  },
-  MARATHI: {
-    name: 'Marathi',
-    code: 'mr',
-    awsTranscribe: 'mr-IN',
-    elevenlabs: 'mr',
-  },
-  HINDI: {
-    name: 'Hindi',
-    code: 'hi',
-    awsTranscribe: 'hi-IN',
-    elevenlabs: 'hi',
-  },
-  BENGALI: {
-    name: 'Bengali',
-    code: 'bn',
-    awsTranscribe: 'bn-IN',
-    elevenlabs: 'bn',
-  },
-  GUJARATI: {
-    name: 'Gujarati',
-    code: 'gu',
-    awsTranscribe: 'gu-IN',
-    elevenlabs: 'gu',
-  },
-} as const;
-
 /**
  * Supabase configuration
  */
@@ -246,8 +246,8 @@ export const LANGUAGE_ADJUSTMENTS = {
 /**
  * Get adjusted limit for a specific language
  */
-export function getAdjustedLimit(baseLimit: number, language: keyof typeof LANGUAGE_ADJUSTMENTS): number {
-  const adjustment = LANGUAGE_ADJUSTMENTS[language] || 1.0;
+export function getAdjustedLimit(baseLimit: number, language: string): number {
+  const adjustment = LANGUAGE_ADJUSTMENTS[language as keyof typeof LANGUAGE_ADJUSTMENTS] || 1.0;
   return Math.floor(baseLimit * adjustment);
 }
 
@@ -0,0 +1,49 @@
+/**
+ * Data Migration Script: Backfill Review Status
+ *
+ * Outputs approved before the review workflow existed still have
+ * reviewStatus = DRAFT (the column default) while isApproved = true.
+ * This moves them to PUBLISHED so the state machine matches what
+ * learners already see.
+ *
+ * Usage:
+ * 1. Run `prisma db push` to add the review columns/tables
+ * 2. Run: npx tsx migrations/backfill-review-status.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log('=================================================');
+  console.log('  Data Migration: isApproved → reviewStatus');
+  console.log('=================================================\n');
+
+  const where = { isApproved: true, reviewStatus: { not: 'PUBLISHED' as const } };
+  const data = { reviewStatus: 'PUBLISHED' as const };
+
+  try {
+    const results = await prisma.$transaction([
+      prisma.audioOutput.updateMany({ where, data }),
+      prisma.podcastOutput.updateMany({ where, data }),
+      prisma.videoOutput.updateMany({ where, data }),
+      prisma.quizOutput.updateMany({ where, data }),
+      prisma.interactivePodcastOutput.updateMany({ where, data }),
+    ]);
+
+    const labels = ['Audio', 'Podcast', 'Video', 'Quiz', 'Interactive podcast'];
+    results.forEach((result, i) => {
+      console.log(`  ${labels[i]} outputs marked PUBLISHED: ${result.count}`);
+    });
+
+    console.log('\n✓ Migration completed successfully!');
+  } catch (error) {
+    console.error('\n✗ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
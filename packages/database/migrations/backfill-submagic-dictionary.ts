@@ -0,0 +1,59 @@
+/**
+ * Data Migration Script: Backfill Submagic Dictionary
+ *
+ * The Submagic dictionary used to be hard-coded and sent for every
+ * organization's videos. It is now an organization setting. The words were
+ * one customer's terms, so only the organizations named on the command line
+ * get the old word list to keep their captions unchanged; every other
+ * organization starts with an empty dictionary.
+ * Organizations that already have a dictionary are left alone.
+ *
+ * Usage:
+ * 1. Run `prisma db push` to add the organization caption settings
+ * 2. Run: npx tsx migrations/backfill-submagic-dictionary.ts <org-slug> [<org-slug> ...]
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const PREVIOUS_DICTIONARY = ['Jio BlackRock', 'SEBI', 'wealth check-up', 'wealth check-ups', 'KYC'];
+
+async function main() {
+  console.log('=================================================');
+  console.log('  Data Migration: Submagic dictionary → organizations');
+  console.log('=================================================\n');
+
+  const slugs = process.argv.slice(2);
+  if (slugs.length === 0) {
+    console.error('Usage: npx tsx migrations/backfill-submagic-dictionary.ts <org-slug> [<org-slug> ...]');
+    console.error('Pass the organization(s) the old dictionary words belong to.');
+    process.exit(1);
+  }
+
+  try {
+    const organizations = await prisma.organization.findMany({
+      where: { slug: { in: slugs } },
+      select: { slug: true },
+    });
+    const missing = slugs.filter((slug) => !organizations.some((org) => org.slug === slug));
+    if (missing.length > 0) {
+      throw new Error(`Unknown organization slug(s): ${missing.join(', ')}`);
+    }
+
+    const result = await prisma.organization.updateMany({
+      where: { slug: { in: slugs }, submagicDictionary: { isEmpty: true } },
+      data: { submagicDictionary: PREVIOUS_DICTIONARY },
+    });
+
+    console.log(`  Organizations updated: ${result.count} of ${slugs.length}`);
+    console.log('\n✓ Migration completed successfully!');
+  } catch (error) {
+    console.error('\n✗ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "TextDirection" AS ENUM ('LTR', 'RTL');
+
+-- CreateTable: Platform-wide language registry (replaces the "Language" enum)
+CREATE TABLE "languages" (
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "nativeName" TEXT,
+    "isoCode" TEXT NOT NULL,
+    "direction" "TextDirection" NOT NULL DEFAULT 'LTR',
+    "narrationVoiceId" TEXT,
+    "interviewerVoiceId" TEXT,
+    "guestVoiceId" TEXT,
+    "transcribeLocale" TEXT,
+    "submagicCode" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "enabledByDefault" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "languages_pkey" PRIMARY KEY ("code")
+);
+
+-- CreateTable: Languages an organization offers in its create forms
+CREATE TABLE "organization_languages" (
+    "organizationId" TEXT NOT NULL,
+    "languageCode" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_languages_pkey" PRIMARY KEY ("organizationId", "languageCode")
+);
+
+CREATE INDEX "organization_languages_languageCode_idx" ON "organization_languages"("languageCode");
+
+ALTER TABLE "organization_languages" ADD CONSTRAINT "organization_languages_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "organization_languages" ADD CONSTRAINT "organization_languages_languageCode_fkey" FOREIGN KEY ("languageCode") REFERENCES "languages"("code") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the five former enum values with the mappings that used to be hard-coded
+INSERT INTO "languages" ("code", "name", "nativeName", "isoCode", "transcribeLocale", "submagicCode", "enabledByDefault", "sortOrder", "updatedAt") VALUES
+    ('ENGLISH',  'English',  'English',  'en', 'en-US', 'en', true, 0, CURRENT_TIMESTAMP),
+    ('MARATHI',  'Marathi',  'मराठी',    'mr', 'hi-IN', 'hi', true, 1, CURRENT_TIMESTAMP),
+    ('HINDI',    'Hindi',    'हिन्दी',    'hi', 'hi-IN', 'hi', true, 2, CURRENT_TIMESTAMP),
+    ('BENGALI',  'Bengali',  'বাংলা',    'bn', 'bn-IN', 'hi', true, 3, CURRENT_TIMESTAMP),
+    ('GUJARATI', 'Gujarati', 'ગુજરાતી',  'gu', 'gu-IN', 'hi', true, 4, CURRENT_TIMESTAMP);
+
+-- Existing organizations keep all five
+INSERT INTO "organization_languages" ("organizationId", "languageCode")
+SELECT o."id", l."code" FROM "organizations" o CROSS JOIN "languages" l;
+
+-- AlterTable: Language columns store Language.code
+ALTER TABLE "submissions" ALTER COLUMN "language" DROP DEFAULT;
+ALTER TABLE "submissions" ALTER COLUMN "language" TYPE TEXT USING "language"::TEXT;
+ALTER TABLE "submissions" ALTER COLUMN "language" SET DEFAULT 'ENGLISH';
+
+ALTER TABLE "standalone_videos" ALTER COLUMN "language" DROP DEFAULT;
+ALTER TABLE "standalone_videos" ALTER COLUMN "language" TYPE TEXT USING "language"::TEXT;
+ALTER TABLE "standalone_videos" ALTER COLUMN "language" SET DEFAULT 'ENGLISH';
+
+ALTER TABLE "content_pipelines" ALTER COLUMN "languages" DROP DEFAULT;
+ALTER TABLE "content_pipelines" ALTER COLUMN "languages" TYPE TEXT[] USING "languages"::TEXT[];
+ALTER TABLE "content_pipelines" ALTER COLUMN "languages" SET DEFAULT ARRAY['ENGLISH']::TEXT[];
+
+ALTER TABLE "article_import_batches" ALTER COLUMN "languages" DROP DEFAULT;
+ALTER TABLE "article_import_batches" ALTER COLUMN "languages" TYPE TEXT[] USING "languages"::TEXT[];
+ALTER TABLE "article_import_batches" ALTER COLUMN "languages" SET DEFAULT ARRAY['ENGLISH']::TEXT[];
+
+-- DropEnum
+DROP TYPE "Language";
@@ -41,6 +41,22 @@ const DEFAULT_CAPTION_STYLES = [
   },
 ];
 
+// Language registry. The first five replace the former `Language` enum and are enabled for
+// new organizations; the rest are available to enable from organization settings.
+// Existing rows are left untouched so voice / locale changes made in the database survive a re-seed.
+const LANGUAGES = [
+  { code: 'ENGLISH', name: 'English', nativeName: 'English', isoCode: 'en', transcribeLocale: 'en-US', submagicCode: 'en', enabledByDefault: true },
+  { code: 'MARATHI', name: 'Marathi', nativeName: 'मराठी', isoCode: 'mr', transcribeLocale: 'hi-IN', submagicCode: 'hi', enabledByDefault: true },
+  { code: 'HINDI', name: 'Hindi', nativeName: 'हिन्दी', isoCode: 'hi', transcribeLocale: 'hi-IN', submagicCode: 'hi', enabledByDefault: true },
+  { code: 'BENGALI', name: 'Bengali', nativeName: 'বাংলা', isoCode: 'bn', transcribeLocale: 'bn-IN', submagicCode: 'hi', enabledByDefault: true },
+  { code: 'GUJARATI', name: 'Gujarati', nativeName: 'ગુજરાતી', isoCode: 'gu', transcribeLocale: 'gu-IN', submagicCode: 'hi', enabledByDefault: true },
+  { code: 'TAMIL', name: 'Tamil', nativeName: 'தமிழ்', isoCode: 'ta', transcribeLocale: 'ta-IN', submagicCode: 'ta', enabledByDefault: false },
+  { code: 'TELUGU', name: 'Telugu', nativeName: 'తెలుగు', isoCode: 'te', transcribeLocale: 'te-IN', submagicCode: 'te', enabledByDefault: false },
+  { code: 'KANNADA', name: 'Kannada', nativeName: 'ಕನ್ನಡ', isoCode: 'kn', transcribeLocale: 'kn-IN', submagicCode: 'kn', enabledByDefault: false },
+  { code: 'SPANISH', name: 'Spanish', nativeName: 'Español', isoCode: 'es', transcribeLocale: 'es-ES', submagicCode: 'es', enabledByDefault: false },
+  { code: 'ARABIC', name: 'Arabic', nativeName: 'العربية', isoCode: 'ar', transcribeLocale: 'ar-SA', submagicCode: 'ar', enabledByDefault: false, direction: 'RTL' as const },
+];
+
 async function seedCaptionStylesForOrg(organizationId: string, orgName: string) {
   console.log(`  Seeding caption styles for org: ${orgName}`);
 
@@ -91,12 +107,34 @@ async function main() {
     console.log(`  - ${flag.key}: ${flag.enabled}`);
   }
 
+  console.log('\nSeeding languages...');
+  for (const [sortOrder, language] of LANGUAGES.entries()) {
+    await prisma.language.upsert({
+      where: { code: language.code },
+      update: {},
+      create: { ...language, sortOrder },
+    });
+    console.log(`  - ${language.code}`);
+  }
+
   // Seed caption styles for all organizations
   console.log('\nSeeding caption styles for organizations...');
   const organizations = await prisma.organization.findMany({
     select: { id: true, name: true },
   });
 
+  // Organizations without any language (created before the registry existed) get the defaults
+  const defaultLanguages = LANGUAGES.filter((language) => language.enabledByDefault);
+  const withoutLanguages = await prisma.organization.findMany({
+    where: { languages: { none: {} } },
+    select: { id: true },
+  });
+  for (const org of withoutLanguages) {
+    await prisma.organizationLanguage.createMany({
+      data: defaultLanguages.map((language) => ({ organizationId: org.id, languageCode: language.code })),
+    });
+  }
+
   if (organizations.length === 0) {
     console.log('  No organizations found, skipping caption styles seed.');
   } else {
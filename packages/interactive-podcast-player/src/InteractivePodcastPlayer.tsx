@@ -3,14 +3,18 @@
 import { useState, useRef, useEffect } from 'react'
 import TranscriptDisplay from './TranscriptDisplay'
 import PodcastCompletionModal from './PodcastCompletionModal'
-import type { PodcastData } from './types'
+import type { PodcastData, PromptAnswer } from './types'
 import './InteractivePodcastPlayer.css'
 
+// Report listen progress every 10% of the episode
+const LISTEN_PROGRESS_STEP = 10
+
 interface InteractivePodcastPlayerProps {
   podcastData: PodcastData
   onBack?: () => void
   onComplete?: () => void
-  onPromptAnswer?: (isCorrect: boolean) => void
+  onPromptAnswer?: (isCorrect: boolean, prompt: PromptAnswer) => void
+  onListenProgress?: (listenPercent: number) => void // Furthest point reached, in LISTEN_PROGRESS_STEP steps
   showBackButton?: boolean
   showHeader?: boolean
 }
@@ -20,6 +24,7 @@ function InteractivePodcastPlayer({
   onBack,
   onComplete,
   onPromptAnswer,
+  onListenProgress,
   showBackButton = true,
   showHeader = true
 }: InteractivePodcastPlayerProps) {
@@ -33,6 +38,7 @@ function InteractivePodcastPlayer({
   const [showCompletionModal, setShowCompletionModal] = useState(false)
   const [allPromptsCompleted, setAllPromptsCompleted] = useState(false)
   const audioRef = useRef<HTMLAudioElement>(null)
+  const maxListenPercentRef = useRef(0)
 
   useEffect(() => {
     const prompts = podcastData.segments.filter(s => s.interactive).length
@@ -52,6 +58,15 @@ function InteractivePodcastPlayer({
       const newTime = audio.currentTime
       setCurrentTime(newTime)
 
+      // Report each new listen progress step reached
+      if (audio.duration) {
+        const listenStep = Math.floor((newTime / audio.duration) * 100 / LISTEN_PROGRESS_STEP) * LISTEN_PROGRESS_STEP
+        if (listenStep > maxListenPercentRef.current) {
+          maxListenPercentRef.current = listenStep
+          onListenProgress?.(listenStep)
+        }
+      }
+
       // Check if we've reached the end of a segment with unanswered interactions
       const segmentWithUnansweredInteraction = podcastData.segments.find(s =>
         s.interactive &&
@@ -90,6 +105,11 @@ function InteractivePodcastPlayer({
       setIsPlaying(false)
       setCurrentTime(0)
 
+      if (maxListenPercentRef.current < 100) {
+        maxListenPercentRef.current = 100
+        onListenProgress?.(100)
+      }
+
       // Show completion modal if all prompts have been completed
       if (allPromptsCompleted) {
         setShowCompletionModal(true)
@@ -107,7 +127,7 @@ function InteractivePodcastPlayer({
       audio.removeEventListener('error', handleError)
       audio.removeEventListener('canplay', handleCanPlay)
     }
-  }, [podcastData, completedPrompts, isPausedForInteraction, allPromptsCompleted])
+  }, [podcastData, completedPrompts, isPausedForInteraction, allPromptsCompleted, onListenProgress])
 
   const handleStartPlayback = () => {
     const audio = audioRef.current
@@ -140,7 +160,7 @@ function InteractivePodcastPlayer({
   }
 
 
-  const handlePromptAnswer = (isCorrect: boolean, triggerTime: number) => {
+  const handlePromptAnswer = (isCorrect: boolean, triggerTime: number, selectedOption: string) => {
     if (isCorrect) {
       setScore(prev => prev + 1)
     }
@@ -150,7 +170,11 @@ function InteractivePodcastPlayer({
 
     // Call the external callback if provided
     if (onPromptAnswer) {
-      onPromptAnswer(isCorrect)
+      const segment = podcastData.segments.find(s => s.interactive?.triggerTime === triggerTime)
+      onPromptAnswer(isCorrect, {
+        segmentId: segment?.id ?? String(triggerTime),
+        selectedOption
+      })
     }
 
     // Check if all prompts have been completed
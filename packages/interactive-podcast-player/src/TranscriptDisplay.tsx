@@ -9,7 +9,7 @@ interface TranscriptDisplayProps {
   segments: TranscriptSegment[]
   currentTime: number
   isPlaying: boolean
-  onInteractiveAnswer: (isCorrect: boolean, triggerTime: number) => void
+  onInteractiveAnswer: (isCorrect: boolean, triggerTime: number, selectedOption: string) => void
   completedPrompts: Set<number>
   isPausedForInteraction: boolean
 }
@@ -297,7 +297,7 @@ function TranscriptDisplay({ segments, currentTime, isPlaying, onInteractiveAnsw
 
                                       // Wait for feedback to be visible, then proceed
                                       setTimeout(() => {
-                                        onInteractiveAnswer(isCorrect, triggerTime)
+                                        onInteractiveAnswer(isCorrect, triggerTime, option)
                                       }, 500)
                                     }
                                   }}
@@ -33,3 +33,11 @@ export interface PodcastData {
   duration: number
   segments: TranscriptSegment[]
 }
+
+/**
+ * Details of an answered interactive prompt
+ */
+export interface PromptAnswer {
+  segmentId: string
+  selectedOption: string
+}
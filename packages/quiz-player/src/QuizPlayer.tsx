@@ -8,11 +8,20 @@ import './QuizPlayer.css'
 interface QuizPlayerProps {
   questions: Question[]
   onClose?: () => void
+  onAnswer?: (question: Question, selectedAnswer: string | number | boolean, isCorrect: boolean) => void
+  onComplete?: (score: number, totalQuestions: number) => void
   showCloseButton?: boolean
   disableOverlay?: boolean
 }
 
-function QuizPlayer({ questions, onClose, showCloseButton = true, disableOverlay = false }: QuizPlayerProps) {
+function QuizPlayer({
+  questions,
+  onClose,
+  onAnswer,
+  onComplete,
+  showCloseButton = true,
+  disableOverlay = false
+}: QuizPlayerProps) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
   const [userAnswers, setUserAnswers] = useState<Record<number, UserAnswer>>({})
   const [isCompleted, setIsCompleted] = useState(false)
@@ -26,17 +35,21 @@ function QuizPlayer({ questions, onClose, showCloseButton = true, disableOverlay
 
   // Check if quiz is completed
   useEffect(() => {
-    if (Object.keys(userAnswers).length === questions.length) {
+    if (Object.keys(userAnswers).length === questions.length && !isCompleted) {
       setIsCompleted(true)
+      onComplete?.(score, questions.length)
       setShowCelebration(true)
       setTimeout(() => setShowCelebration(false), 3000)
     }
-  }, [userAnswers, questions.length])
+  }, [userAnswers, questions.length, isCompleted, score, onComplete])
 
-  const handleAnswerSelect = (selectedAnswer: string | number | boolean) => {
+  const handleAnswerSelect = (
+    selectedAnswer: string | number | boolean,
+    isCorrect: boolean = selectedAnswer === currentQuestion.correctAnswer
+  ) => {
     if (currentAnswer) return // Already answered
 
-    const isCorrect = selectedAnswer === currentQuestion.correctAnswer
+    onAnswer?.(currentQuestion, selectedAnswer, isCorrect)
 
     setUserAnswers(prev => ({
       ...prev,
@@ -170,7 +183,7 @@ function QuizPlayer({ questions, onClose, showCloseButton = true, disableOverlay
                     const isCorrect = acceptable.some(
                       answer => String(answer).toLowerCase() === value.toLowerCase()
                     )
-                    handleAnswerSelect(value)
+                    handleAnswerSelect(value, isCorrect)
                   }
                 }
               }}
@@ -8,7 +8,7 @@
 // ENUMS & BASE TYPES
 // ============================================
 
-export type Language = 'ENGLISH' | 'MARATHI' | 'HINDI' | 'BENGALI' | 'GUJARATI';
+export type Language = string; // Language.code from the language registry, e.g. 'ENGLISH'
 export type ContentCategory = 'EVERGREEN' | 'PERIODIC_UPDATES' | 'MARKET_UPDATES';
 export type OutputStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
 export type SubmissionStatus =
@@ -35,6 +35,7 @@ export interface Article {
   id: string;
   title: string;
   content: string;
+  contentDocument?: unknown; // Structured blocks from @repo/article-content, when written in the editor
   category: ContentCategory;
   thumbnailUrl?: string;
   createdAt: string | Date;
@@ -146,6 +147,7 @@ export interface AudioOutput {
   audioFileUrl?: string | null;
   voiceId?: string | null;
   duration?: number | null;
+  wordTimings?: Word[] | null; // Read-along timings (seconds) from AWS Transcribe
   isApproved: boolean;
   approvedAt?: string | Date | null;
   approvedBy?: string | null;
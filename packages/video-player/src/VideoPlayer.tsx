@@ -18,6 +18,9 @@ import BubbleOverlay from './overlays/BubbleOverlay'
 import type { Bubble, Video } from './types'
 import './VideoPlayer.css'
 
+// Report watch progress every 10% of the video
+const WATCH_PROGRESS_STEP = 10
+
 interface VideoPlayerProps {
   video: Video
   bubbles?: Bubble[]
@@ -29,7 +32,8 @@ interface VideoPlayerProps {
   onLike?: (videoId: string) => void
   onBookmark?: (videoId: string) => void
   onShare?: (videoId: string) => void
-  onBubbleAnswer?: (bubbleId: string, isCorrect: boolean) => void
+  onBubbleAnswer?: (bubbleId: string, isCorrect: boolean, selectedOption: number) => void
+  onWatchProgress?: (videoId: string, watchPercent: number) => void // Furthest point reached, in WATCH_PROGRESS_STEP steps
   correctSoundUrl?: string
   incorrectSoundUrl?: string
 }
@@ -46,6 +50,7 @@ function VideoPlayer({
   onBookmark,
   onShare,
   onBubbleAnswer,
+  onWatchProgress,
   correctSoundUrl,
   incorrectSoundUrl
 }: VideoPlayerProps) {
@@ -69,6 +74,11 @@ function VideoPlayer({
   const [bubbleQueue, setBubbleQueue] = useState<Bubble[]>([])
   const [isProcessingQueue, setIsProcessingQueue] = useState(false)
   const [metadataLoaded, setMetadataLoaded] = useState(false)
+  const maxWatchPercentRef = useRef(0)
+
+  // Off by default - most videos already have captions burned in
+  const [captionsOn, setCaptionsOn] = useState(false)
+  const captionTracks = video.captionTracks ?? []
 
 
 
@@ -87,6 +97,15 @@ function VideoPlayer({
     }
   }, [isActive, isPlaying])
 
+  // Show the first caption track while captions are on
+  useEffect(() => {
+    const textTracks = videoRef.current?.textTracks
+    if (!textTracks) return
+    for (let i = 0; i < textTracks.length; i++) {
+      textTracks[i].mode = captionsOn && i === 0 ? 'showing' : 'hidden'
+    }
+  }, [captionsOn, captionTracks.length])
+
   useEffect(() => {
     // Auto-play when video becomes active
     if (isActive && autoPlay) {
@@ -115,6 +134,7 @@ function VideoPlayer({
       setIsProcessingQueue(false)
       setIsCompleted(false)
       setMetadataLoaded(false)
+      maxWatchPercentRef.current = 0
     }
   }, [isActive, video, bubbles, bubblesInitialized])
 
@@ -146,6 +166,13 @@ function VideoPlayer({
       const progress = (videoRef.current.currentTime / videoRef.current.duration) * 100
       setProgress(progress)
 
+      // Report each new watch progress step reached
+      const watchStep = Math.floor(progress / WATCH_PROGRESS_STEP) * WATCH_PROGRESS_STEP
+      if (watchStep > maxWatchPercentRef.current) {
+        maxWatchPercentRef.current = watchStep
+        onWatchProgress?.(video.id, watchStep)
+      }
+
       // Detect time skip (jump forward by more than 1 second)
       const timeSkipped = currentTimeMs - previousTimeMs > 1500 && previousTimeMs > 0
 
@@ -220,6 +247,11 @@ function VideoPlayer({
       setIsProcessingQueue(false)
     }
 
+    if (maxWatchPercentRef.current < 100) {
+      maxWatchPercentRef.current = 100
+      onWatchProgress?.(video.id, 100)
+    }
+
     // Mark as completed if not already
     if (!isCompleted) {
       setIsCompleted(true)
@@ -252,19 +284,19 @@ function VideoPlayer({
     }
   }
 
-  const handleBubbleCorrect = () => {
+  const handleBubbleCorrect = (selectedOption: number) => {
     console.log('[VideoPlayer] Bubble answered correctly!')
     if (activeBubble && onBubbleAnswer) {
       const bubbleId = activeBubble.id || `bubble-${activeBubble.question}`
-      onBubbleAnswer(bubbleId, true)
+      onBubbleAnswer(bubbleId, true, selectedOption)
     }
   }
 
-  const handleBubbleIncorrect = () => {
+  const handleBubbleIncorrect = (selectedOption: number) => {
     console.log('[VideoPlayer] Bubble answered incorrectly!')
     if (activeBubble && onBubbleAnswer) {
       const bubbleId = activeBubble.id || `bubble-${activeBubble.question}`
-      onBubbleAnswer(bubbleId, false)
+      onBubbleAnswer(bubbleId, false, selectedOption)
     }
   }
 
@@ -290,7 +322,17 @@ function VideoPlayer({
           width: '100%',
           height: '100%'
         }}
-      />
+      >
+        {captionTracks.map(track => (
+          <track
+            key={track.srclang}
+            kind="captions"
+            src={track.vttUrl}
+            srcLang={track.srclang}
+            label={track.label}
+          />
+        ))}
+      </video>
 
       {/* Play icon overlay - visible when paused */}
       <div
@@ -336,6 +378,17 @@ function VideoPlayer({
               <ShareIcon />
             </button>
           )}
+
+          {captionTracks.length > 0 && (
+            <button
+              className={`vs-player__icon-btn ${captionsOn ? 'vs-player__icon-btn--active' : ''}`}
+              onClick={() => setCaptionsOn(!captionsOn)}
+              aria-label={captionsOn ? 'Hide captions' : 'Show captions'}
+              aria-pressed={captionsOn}
+            >
+              <span className="vs-player__cc-label">CC</span>
+            </button>
+          )}
         </div>
       )}
 
@@ -14,8 +14,8 @@ import './BubbleOverlay.css'
 interface BubbleOverlayProps {
   bubble: Bubble
   onClose: () => void
-  onCorrect: () => void
-  onIncorrect: () => void
+  onCorrect: (selectedOption: number) => void // Index of the option dragged onto the statement
+  onIncorrect: (selectedOption: number) => void
   correctSoundUrl?: string
   incorrectSoundUrl?: string
 }
@@ -119,13 +119,13 @@ function BubbleOverlay({
       if (isCorrect) {
         // Animate to center of statement bubble
         setTimeout(() => {
-          onCorrect()
+          onCorrect(draggedIndex)
           setTimeout(onClose, 400) // Close after animation
         }, 100)
       } else {
         // Flash red and close
         setTimeout(() => {
-          onIncorrect()
+          onIncorrect(draggedIndex)
           setTimeout(onClose, 600) // Close after flash animation
         }, 100)
       }
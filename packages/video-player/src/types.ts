@@ -20,6 +20,18 @@ export interface Bubble {
   updatedAt?: Date
 }
 
+/**
+ * Caption sidecar for one language - rendered as a <track> the viewer can toggle
+ * vttUrl must be same-origin: the <video> isn't in CORS mode, so tracks from other origins don't load
+ */
+export interface CaptionTrack {
+  language: string         // Language.code
+  srclang: string          // ISO 639-1
+  label: string
+  vttUrl: string
+  srtUrl: string | null
+}
+
 /**
  * Video type - updated to use Bubble array instead of JSON
  */
@@ -32,6 +44,7 @@ export interface Video {
   duration?: number
   transcript?: string
   bubbles?: Bubble[]       // Array of VideoBubble objects, not JSON
+  captionTracks?: CaptionTrack[]
 }
 
 /**
@@ -0,0 +1,94 @@
+import { prisma, type AnalyticsContentType, type WidgetEventType } from '@repo/database';
+
+// Upper bound on events accepted per trackEvents call
+export const MAX_EVENTS_PER_BATCH = 100;
+
+// Events with client timestamps further out than this are clamped to the server time
+const MAX_CLOCK_DRIFT_MS = 24 * 60 * 60 * 1000;
+
+export interface WidgetEventInput {
+  eventType: WidgetEventType;
+  contentType: AnalyticsContentType;
+  contentId: string;
+  sessionId: string;
+  itemId?: string;
+  selectedOption?: string;
+  isCorrect?: boolean;
+  watchPercent?: number;
+  occurredAt?: number; // Epoch milliseconds
+}
+
+/**
+ * `${contentType}:${contentId}` for each of the events' content that belongs to the organization
+ */
+async function getOwnedContentKeys(organizationId: string, events: WidgetEventInput[]): Promise<Set<string>> {
+  const idsOf = (contentType: AnalyticsContentType) => [
+    ...new Set(events.filter((event) => event.contentType === contentType).map((event) => event.contentId)),
+  ];
+  const whereOwned = (ids: string[]) => ({ id: { in: ids }, submission: { article: { organizationId } } });
+
+  const videoIds = idsOf('VIDEO');
+  const quizIds = idsOf('QUIZ');
+  const podcastIds = idsOf('INTERACTIVE_PODCAST');
+
+  const [videos, quizzes, podcasts] = await Promise.all([
+    videoIds.length > 0 ? prisma.videoOutput.findMany({ where: whereOwned(videoIds), select: { id: true } }) : [],
+    quizIds.length > 0 ? prisma.quizOutput.findMany({ where: whereOwned(quizIds), select: { id: true } }) : [],
+    podcastIds.length > 0
+      ? prisma.interactivePodcastOutput.findMany({ where: whereOwned(podcastIds), select: { id: true } })
+      : [],
+  ]);
+
+  return new Set([
+    ...videos.map((video) => `VIDEO:${video.id}`),
+    ...quizzes.map((quiz) => `QUIZ:${quiz.id}`),
+    ...podcasts.map((podcast) => `INTERACTIVE_PODCAST:${podcast.id}`),
+  ]);
+}
+
+/**
+ * Store a batch of widget consumption events
+ * Events for content outside the organization are dropped, so one API key can't skew another
+ * organization's analytics. Rollups (views, completion rate, watch %, correctness) are computed
+ * nightly by the worker.
+ */
+export async function recordWidgetEvents(
+  organizationId: string,
+  learnerId: string | null,
+  events: WidgetEventInput[],
+): Promise<number> {
+  if (events.length === 0) {
+    return 0;
+  }
+
+  const ownedContent = await getOwnedContentKeys(organizationId, events);
+  const ownedEvents = events.filter((event) => ownedContent.has(`${event.contentType}:${event.contentId}`));
+  if (ownedEvents.length === 0) {
+    return 0;
+  }
+
+  const now = Date.now();
+
+  const { count } = await prisma.widgetEvent.createMany({
+    data: ownedEvents.map((event) => {
+      const occurredAt =
+        event.occurredAt && Math.abs(now - event.occurredAt) <= MAX_CLOCK_DRIFT_MS ? event.occurredAt : now;
+
+      return {
+        organizationId,
+        learnerId,
+        sessionId: event.sessionId,
+        eventType: event.eventType,
+        contentType: event.contentType,
+        contentId: event.contentId,
+        itemId: event.itemId ?? null,
+        selectedOption: event.selectedOption ?? null,
+        isCorrect: event.isCorrect ?? null,
+        watchPercent: event.watchPercent ?? null,
+        occurredAt: new Date(occurredAt),
+      };
+    }),
+  });
+
+  return count;
+}
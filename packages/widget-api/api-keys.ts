@@ -0,0 +1,29 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Prefix makes widget keys recognisable in logs and secret scanners
+const WIDGET_API_KEY_PREFIX = 'wk_';
+
+// Number of characters stored in plain text so admins can tell keys apart
+const DISPLAY_PREFIX_LENGTH = 10;
+
+/**
+ * Hash a raw widget API key for storage / lookup.
+ * Only the hash is persisted - the raw key is shown to the admin once.
+ */
+export function hashWidgetApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Generate a new widget API key
+ * @returns The raw key (return to the caller once), its display prefix and hash
+ */
+export function generateWidgetApiKey(): { apiKey: string; keyPrefix: string; keyHash: string } {
+  const apiKey = `${WIDGET_API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+  return {
+    apiKey,
+    keyPrefix: apiKey.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashWidgetApiKey(apiKey),
+  };
+}
@@ -0,0 +1,46 @@
+import { prisma } from '@repo/database';
+
+// A caption sidecar for one language - the VTT feeds the player's <track>, the SRT is for download
+export interface CaptionTrack {
+  language: string; // Language.code
+  srclang: string; // ISO 639-1
+  label: string;
+  vttUrl: string;
+  srtUrl: string | null;
+}
+
+interface CaptionedOutput {
+  captionsVttUrl: string | null;
+  captionsSrtUrl: string | null;
+  language: string;
+}
+
+/**
+ * Caption tracks for outputs, keyed by the output's position in `outputs`
+ * Languages are looked up once for the whole batch.
+ */
+export async function getCaptionTracks(outputs: CaptionedOutput[]): Promise<CaptionTrack[][]> {
+  const codes = [...new Set(outputs.filter((output) => output.captionsVttUrl).map((output) => output.language))];
+  const languages =
+    codes.length > 0
+      ? await prisma.language.findMany({
+          where: { code: { in: codes } },
+          select: { code: true, isoCode: true, name: true, nativeName: true },
+        })
+      : [];
+
+  return outputs.map((output) => {
+    if (!output.captionsVttUrl) return [];
+
+    const language = languages.find((entry) => entry.code === output.language);
+    return [
+      {
+        language: output.language,
+        srclang: language?.isoCode ?? 'en',
+        label: language?.nativeName || language?.name || output.language,
+        vttUrl: output.captionsVttUrl,
+        srtUrl: output.captionsSrtUrl,
+      },
+    ];
+  });
+}
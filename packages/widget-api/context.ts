@@ -0,0 +1,172 @@
+import { prisma } from '@repo/database';
+import { hashWidgetApiKey } from './api-keys';
+import { LearnerTokenError, verifyLearnerToken, type LearnerIdentity } from './learner-token';
+
+// Header / query param / cookie names the widget API key can be passed in
+export const WIDGET_API_KEY_HEADER = 'x-widget-api-key';
+export const WIDGET_API_KEY_QUERY_PARAM = 'apiKey';
+export const WIDGET_API_KEY_COOKIE = 'widget_api_key';
+
+// Header / query param / cookie names the signed learner token can be passed in
+export const WIDGET_LEARNER_TOKEN_HEADER = 'x-widget-learner-token';
+export const WIDGET_LEARNER_TOKEN_QUERY_PARAM = 'learnerToken';
+export const WIDGET_LEARNER_TOKEN_COOKIE = 'widget_learner_token';
+
+export interface WidgetContext {
+  // Organization resolved from the widget API key (null if missing/invalid/revoked)
+  organization: {
+    id: string;
+    slug: string;
+    name: string;
+  } | null;
+  // Learner identified by a verified learner token (null for anonymous sessions)
+  learner: LearnerIdentity | null;
+  // Why the supplied learner token was rejected (expired, tampered, ...)
+  learnerTokenError: string | null;
+}
+
+/**
+ * Look up an active widget API key with its organization and learner token secret
+ */
+async function findActiveWidgetApiKey(apiKey: string) {
+  const key = await prisma.widgetApiKey.findUnique({
+    where: { keyHash: hashWidgetApiKey(apiKey) },
+    include: {
+      organization: {
+        select: {
+          id: true,
+          slug: true,
+          name: true,
+          widgetLearnerSecret: { select: { secret: true } },
+        },
+      },
+    },
+  });
+
+  if (!key || key.revokedAt) {
+    return null;
+  }
+
+  // Best-effort usage tracking - never block the request on it
+  prisma.widgetApiKey
+    .update({ where: { id: key.id }, data: { lastUsedAt: new Date() } })
+    .catch((error) => console.error('Failed to update widget API key usage:', error));
+
+  return key;
+}
+
+/**
+ * Resolve a widget API key to its organization
+ * Revoked and unknown keys resolve to null.
+ */
+export async function resolveWidgetApiKey(apiKey: string | null | undefined): Promise<WidgetContext['organization']> {
+  if (!apiKey) {
+    return null;
+  }
+
+  const key = await findActiveWidgetApiKey(apiKey);
+  if (!key) {
+    return null;
+  }
+
+  const { widgetLearnerSecret: _secret, ...organization } = key.organization;
+  return organization;
+}
+
+/**
+ * Create the tRPC context for a widget request from a raw API key and learner token
+ * The learner token is verified with the API key's organization secret; rejected tokens
+ * leave the session anonymous and record the reason in learnerTokenError.
+ */
+export async function createWidgetContext(
+  apiKey: string | null | undefined,
+  learnerToken?: string | null,
+): Promise<WidgetContext> {
+  const key = apiKey ? await findActiveWidgetApiKey(apiKey) : null;
+
+  if (!key) {
+    return { organization: null, learner: null, learnerTokenError: null };
+  }
+
+  const { widgetLearnerSecret, ...organization } = key.organization;
+  let learner: LearnerIdentity | null = null;
+  let learnerTokenError: string | null = null;
+
+  if (learnerToken) {
+    if (!widgetLearnerSecret) {
+      learnerTokenError = 'Learner tokens are not enabled for this organization';
+    } else {
+      try {
+        learner = verifyLearnerToken(learnerToken, widgetLearnerSecret.secret);
+      } catch (error) {
+        if (!(error instanceof LearnerTokenError)) {
+          throw error;
+        }
+        learnerTokenError = error.message;
+      }
+    }
+  }
+
+  return { organization, learner, learnerTokenError };
+}
+
+/**
+ * Read a value from an incoming request
+ * Checks the header first, then the query string, then the cookie set by the widget app.
+ */
+function getRequestValue(req: Request, header: string, queryParam: string, cookie: string): string | null {
+  const headerValue = req.headers.get(header);
+  if (headerValue) {
+    return headerValue;
+  }
+
+  const queryValue = new URL(req.url).searchParams.get(queryParam);
+  if (queryValue) {
+    return queryValue;
+  }
+
+  const cookieHeader = req.headers.get('cookie');
+  if (cookieHeader) {
+    const match = cookieHeader
+      .split(';')
+      .map((part) => part.trim())
+      .find((part) => part.startsWith(`${cookie}=`));
+
+    if (match) {
+      try {
+        return decodeURIComponent(match.slice(cookie.length + 1));
+      } catch {
+        return null; // Malformed escape sequence - treat as missing rather than failing every request
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extract the widget API key from an incoming request
+ */
+export function getWidgetApiKeyFromRequest(req: Request): string | null {
+  return getRequestValue(req, WIDGET_API_KEY_HEADER, WIDGET_API_KEY_QUERY_PARAM, WIDGET_API_KEY_COOKIE);
+}
+
+/**
+ * Extract the signed learner token from an incoming request
+ * Also accepts a standard "Authorization: Bearer <token>" header.
+ */
+export function getWidgetLearnerTokenFromRequest(req: Request): string | null {
+  const authorization = req.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  return getRequestValue(req, WIDGET_LEARNER_TOKEN_HEADER, WIDGET_LEARNER_TOKEN_QUERY_PARAM, WIDGET_LEARNER_TOKEN_COOKIE);
+}
+
+/**
+ * Create the tRPC context for a fetch-adapter request
+ */
+export async function createWidgetContextFromRequest(req: Request): Promise<WidgetContext> {
+  return createWidgetContext(getWidgetApiKeyFromRequest(req), getWidgetLearnerTokenFromRequest(req));
+}
@@ -1,3 +1,22 @@
 export { widgetRouter, createCaller } from './router';
 export type { WidgetRouter } from './router';
-export { router, publicProcedure } from './trpc';
+export { router, publicProcedure, orgProcedure, learnerProcedure } from './trpc';
+export {
+  createWidgetContext,
+  createWidgetContextFromRequest,
+  getWidgetApiKeyFromRequest,
+  getWidgetLearnerTokenFromRequest,
+  resolveWidgetApiKey,
+  WIDGET_API_KEY_HEADER,
+  WIDGET_API_KEY_QUERY_PARAM,
+  WIDGET_API_KEY_COOKIE,
+  WIDGET_LEARNER_TOKEN_HEADER,
+  WIDGET_LEARNER_TOKEN_QUERY_PARAM,
+  WIDGET_LEARNER_TOKEN_COOKIE,
+} from './context';
+export type { WidgetContext } from './context';
+export { generateWidgetApiKey, hashWidgetApiKey } from './api-keys';
+export { LEARNER_XP_REWARDS } from './learner-progress';
+export { generateLearnerTokenSecret, verifyLearnerToken, LearnerTokenError } from './learner-token';
+export type { LearnerIdentity } from './learner-token';
+export type { CaptionTrack } from './captions';
@@ -0,0 +1,308 @@
+import { TRPCError } from '@trpc/server';
+import { prisma, Prisma, type Learner, type LearnerAnswerType, type LearnerContentType } from '@repo/database';
+import type { LearnerIdentity } from './learner-token';
+
+// XP awarded by the server - clients never send XP amounts
+export const LEARNER_XP_REWARDS: Record<LearnerContentType, number> = {
+  VIDEO: 200,
+  INTERACTIVE_PODCAST: 100,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the learner's local calendar day as a UTC-midnight Date (matches @db.Date columns)
+ * Falls back to UTC for missing or unknown time zones.
+ */
+function getLearnerDay(date: Date, timeZone?: string): Date {
+  let day: string;
+
+  try {
+    // en-CA formats as YYYY-MM-DD
+    day = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timeZone || 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(date);
+  } catch {
+    day = date.toISOString().slice(0, 10);
+  }
+
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+/**
+ * Streak as of today - a streak survives until the learner misses a full day
+ */
+export function getActiveStreak(learner: Learner, timeZone?: string): number {
+  if (!learner.lastActiveDate) {
+    return 0;
+  }
+
+  const today = getLearnerDay(new Date(), timeZone);
+  return daysBetween(learner.lastActiveDate, today) <= 1 ? learner.currentStreak : 0;
+}
+
+/**
+ * Find or create the learner for a host app user
+ * Keeps the display name in sync with the latest learner token.
+ */
+export async function getOrCreateLearner(organizationId: string, identity: LearnerIdentity): Promise<Learner> {
+  return prisma.learner.upsert({
+    where: {
+      organizationId_externalId: { organizationId, externalId: identity.externalId },
+    },
+    create: {
+      organizationId,
+      externalId: identity.externalId,
+      displayName: identity.displayName,
+    },
+    update: identity.displayName ? { displayName: identity.displayName } : {},
+  });
+}
+
+/**
+ * Record that the learner was active today and extend / reset their streak
+ */
+async function recordLearnerActivity(learner: Learner, timeZone?: string): Promise<Learner> {
+  const today = getLearnerDay(new Date(), timeZone);
+  const daysSinceActive = learner.lastActiveDate ? daysBetween(learner.lastActiveDate, today) : null;
+
+  // Already counted today
+  if (daysSinceActive !== null && daysSinceActive <= 0) {
+    return learner;
+  }
+
+  const currentStreak = daysSinceActive === 1 ? learner.currentStreak + 1 : 1;
+
+  return prisma.learner.update({
+    where: { id: learner.id },
+    data: {
+      currentStreak,
+      longestStreak: Math.max(learner.longestStreak, currentStreak),
+      lastActiveDate: today,
+    },
+  });
+}
+
+/**
+ * Check the completed content exists and belongs to the learner's organization
+ */
+async function assertContentInOrganization(
+  organizationId: string,
+  contentType: LearnerContentType,
+  contentId: string,
+): Promise<void> {
+  const where = {
+    id: contentId,
+    submission: { article: { organizationId } },
+  };
+
+  const content =
+    contentType === 'VIDEO'
+      ? await prisma.videoOutput.findFirst({ where, select: { id: true } })
+      : await prisma.interactivePodcastOutput.findFirst({ where, select: { id: true } });
+
+  if (!content) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Content not found' });
+  }
+}
+
+/**
+ * Check the answered item exists and belongs to the learner's organization -
+ * bubbles belong to the video, question indexes are within the quiz
+ */
+async function assertAnswerInOrganization(
+  organizationId: string,
+  input: { contentId: string; answerType: LearnerAnswerType; itemKey: string },
+): Promise<void> {
+  const notFound = () => new TRPCError({ code: 'NOT_FOUND', message: 'Question not found' });
+  const inOrganization = { submission: { article: { organizationId } } };
+
+  switch (input.answerType) {
+    case 'VIDEO_BUBBLE': {
+      const bubble = await prisma.videoBubble.findFirst({
+        where: { id: input.itemKey, videoOutputId: input.contentId, videoOutput: inOrganization },
+        select: { id: true },
+      });
+      if (!bubble) throw notFound();
+      return;
+    }
+    case 'QUIZ_QUESTION': {
+      const quiz = await prisma.quizOutput.findFirst({
+        where: { id: input.contentId, ...inOrganization },
+        select: { _count: { select: { questions: true } } },
+      });
+      const index = Number(input.itemKey);
+      if (!quiz || !Number.isInteger(index) || index < 0 || index >= quiz._count.questions) throw notFound();
+      return;
+    }
+    case 'INTERACTIVE_PROMPT':
+      await assertContentInOrganization(organizationId, 'INTERACTIVE_PODCAST', input.contentId);
+      return;
+  }
+}
+
+/**
+ * Mark content as completed and award its XP (once per learner)
+ */
+export async function recordLearnerCompletion(
+  learner: Learner,
+  input: {
+    contentType: LearnerContentType;
+    contentId: string;
+    allCorrect: boolean;
+    timeZone?: string;
+  },
+) {
+  await assertContentInOrganization(learner.organizationId, input.contentType, input.contentId);
+
+  const existing = await prisma.learnerCompletion.findUnique({
+    where: {
+      learnerId_contentId: { learnerId: learner.id, contentId: input.contentId },
+    },
+  });
+
+  let alreadyCompleted = !!existing;
+  let xpAwarded = 0;
+  let updatedLearner = learner;
+
+  if (!alreadyCompleted) {
+    const reward = LEARNER_XP_REWARDS[input.contentType];
+    try {
+      const [, , learnerWithXP] = await prisma.$transaction([
+        prisma.learnerCompletion.create({
+          data: {
+            learnerId: learner.id,
+            contentType: input.contentType,
+            contentId: input.contentId,
+            xpEarned: reward,
+            allCorrect: input.allCorrect,
+          },
+        }),
+        prisma.learnerXPEvent.create({
+          data: {
+            learnerId: learner.id,
+            amount: reward,
+            reason: `${input.contentType}_COMPLETE`,
+            contentId: input.contentId,
+          },
+        }),
+        prisma.learner.update({
+          where: { id: learner.id },
+          data: { totalXP: { increment: reward } },
+        }),
+      ]);
+
+      xpAwarded = reward;
+      updatedLearner = learnerWithXP;
+    } catch (error) {
+      // A concurrent call recorded the completion first - its XP already counts
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+      alreadyCompleted = true;
+    }
+  }
+
+  updatedLearner = await recordLearnerActivity(updatedLearner, input.timeZone);
+
+  return {
+    alreadyCompleted,
+    xpAwarded,
+    totalXP: updatedLearner.totalXP,
+    streak: getActiveStreak(updatedLearner, input.timeZone),
+  };
+}
+
+/**
+ * Store the learner's latest answer for an interactive element
+ */
+export async function recordLearnerAnswer(
+  learner: Learner,
+  input: {
+    contentId: string;
+    answerType: LearnerAnswerType;
+    itemKey: string;
+    isCorrect: boolean;
+    timeZone?: string;
+  },
+) {
+  await assertAnswerInOrganization(learner.organizationId, input);
+
+  await prisma.learnerAnswer.upsert({
+    where: {
+      learnerId_contentId_answerType_itemKey: {
+        learnerId: learner.id,
+        contentId: input.contentId,
+        answerType: input.answerType,
+        itemKey: input.itemKey,
+      },
+    },
+    create: {
+      learnerId: learner.id,
+      contentId: input.contentId,
+      answerType: input.answerType,
+      itemKey: input.itemKey,
+      isCorrect: input.isCorrect,
+    },
+    update: {
+      isCorrect: input.isCorrect,
+      answeredAt: new Date(),
+    },
+  });
+
+  const updatedLearner = await recordLearnerActivity(learner, input.timeZone);
+
+  return {
+    streak: getActiveStreak(updatedLearner, input.timeZone),
+  };
+}
+
+/**
+ * Full learner state used to hydrate the widget's local cache
+ */
+export async function getLearnerState(learner: Learner, timeZone?: string) {
+  const [completions, answers] = await Promise.all([
+    prisma.learnerCompletion.findMany({
+      where: { learnerId: learner.id },
+      select: {
+        contentType: true,
+        contentId: true,
+        xpEarned: true,
+        allCorrect: true,
+        completedAt: true,
+      },
+      orderBy: { completedAt: 'asc' },
+    }),
+    prisma.learnerAnswer.findMany({
+      where: { learnerId: learner.id },
+      select: {
+        contentId: true,
+        answerType: true,
+        itemKey: true,
+        isCorrect: true,
+      },
+    }),
+  ]);
+
+  return {
+    learner: {
+      externalId: learner.externalId,
+      displayName: learner.displayName,
+    },
+    totalXP: learner.totalXP,
+    streak: {
+      current: getActiveStreak(learner, timeZone),
+      longest: learner.longestStreak,
+      lastActiveDate: learner.lastActiveDate,
+    },
+    completions,
+    answers,
+  };
+}
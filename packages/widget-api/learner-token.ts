@@ -0,0 +1,98 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Prefix makes learner token secrets recognisable in logs and secret scanners
+const LEARNER_SECRET_PREFIX = 'wls_';
+
+// Allowed clock drift between the host app and us when checking exp / nbf
+const CLOCK_SKEW_SECONDS = 30;
+
+export interface LearnerIdentity {
+  externalId: string;
+  displayName: string | null;
+}
+
+/**
+ * Thrown when a learner token can't be trusted (malformed, bad signature, expired)
+ */
+export class LearnerTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LearnerTokenError';
+  }
+}
+
+/**
+ * Generate a new per-organization secret host apps sign learner tokens with
+ */
+export function generateLearnerTokenSecret(): string {
+  return `${LEARNER_SECRET_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (!decoded || typeof decoded !== 'object') {
+      throw new Error('Not an object');
+    }
+    return decoded;
+  } catch {
+    throw new LearnerTokenError('Malformed learner token');
+  }
+}
+
+/**
+ * Verify a learner token issued by the host app
+ * Tokens are HS256 JWTs signed with the organization's learner token secret:
+ *   sub  - the host app's learner ID (required)
+ *   name - display name (optional)
+ *   exp  - expiry, seconds since epoch (required)
+ * @throws LearnerTokenError if the token is malformed, tampered with or expired
+ */
+export function verifyLearnerToken(token: string, secret: string): LearnerIdentity {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new LearnerTokenError('Malformed learner token');
+  }
+
+  const [encodedHeader, encodedPayload, signature] = segments;
+  const header = decodeSegment(encodedHeader);
+
+  // Only accept the algorithm we sign with - never "none" or asymmetric algorithms
+  if (header.alg !== 'HS256') {
+    throw new LearnerTokenError('Unsupported learner token algorithm');
+  }
+
+  const expectedSignature = createHmac('sha256', secret).update(`${encodedHeader}.${encodedPayload}`).digest();
+  const providedSignature = Buffer.from(signature, 'base64url');
+
+  if (
+    providedSignature.length !== expectedSignature.length ||
+    !timingSafeEqual(providedSignature, expectedSignature)
+  ) {
+    throw new LearnerTokenError('Invalid learner token signature');
+  }
+
+  const payload = decodeSegment(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.exp !== 'number') {
+    throw new LearnerTokenError('Learner token must have an expiry');
+  }
+
+  if (payload.exp + CLOCK_SKEW_SECONDS <= now) {
+    throw new LearnerTokenError('Learner token has expired');
+  }
+
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new LearnerTokenError('Learner token is not valid yet');
+  }
+
+  if (typeof payload.sub !== 'string' || !payload.sub) {
+    throw new LearnerTokenError('Learner token is missing the learner ID (sub)');
+  }
+
+  return {
+    externalId: payload.sub,
+    displayName: typeof payload.name === 'string' && payload.name ? payload.name : null,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Prisma `where` fragment for content inside its publishing window
+ * Content is visible from `publishAt` (if set) until `expiresAt` (if set). Spread it into
+ * an Article / output model `where` - approval is checked separately.
+ */
+export function publishingWindowFilter(now: Date = new Date()) {
+  return {
+    AND: [
+      { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+      { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+    ],
+  };
+}
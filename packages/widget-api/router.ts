@@ -1,11 +1,23 @@
 import { z } from 'zod';
 import { prisma } from '@repo/database';
-import { router, publicProcedure, createCallerFactory } from './trpc';
+import { router, publicProcedure, orgProcedure, learnerProcedure, createCallerFactory } from './trpc';
+import { getLearnerState, getOrCreateLearner, recordLearnerAnswer, recordLearnerCompletion } from './learner-progress';
+import { MAX_EVENTS_PER_BATCH, recordWidgetEvents } from './analytics';
+import { publishingWindowFilter } from './publishing';
+import { getCaptionTracks } from './captions';
+
+// Learner's IANA time zone (e.g. "Asia/Kolkata") - streak days follow the learner's calendar
+const timeZoneInput = z.string().max(64).optional();
 
 export const widgetRouter = router({
   // Query to get test submission (similar to test/page.tsx)
-  getTestSubmission: publicProcedure.query(async () => {
+  getTestSubmission: orgProcedure.query(async ({ ctx }) => {
     const submissions = await prisma.submission.findMany({
+      where: {
+        article: {
+          organizationId: ctx.organization.id,
+        },
+      },
       include: {
         article: true,
       },
@@ -45,14 +57,20 @@ export const widgetRouter = router({
     }),
 
   // Query to get all learning hub content
-  getLearningHubContent: publicProcedure.query(async () => {
-    console.log('=== getLearningHubContent called ===', new Date().toISOString());
-    // Fetch all approved content from the database
+  getLearningHubContent: orgProcedure.query(async ({ ctx }) => {
+    console.log('=== getLearningHubContent called ===', ctx.organization.slug, new Date().toISOString());
+    // Fetch all approved content for the widget's organization that is inside its publishing window
+    const organizationId = ctx.organization.id;
+    const published = publishingWindowFilter();
 
     const videos = await prisma.videoOutput.findMany({
       where: {
         status: 'COMPLETED',
         isApproved: true,
+        ...published,
+        submission: {
+          article: { organizationId },
+        },
       },
       select: {
         id: true,
@@ -76,6 +94,10 @@ export const widgetRouter = router({
       where: {
         status: 'COMPLETED',
         isApproved: true,
+        ...published,
+        submission: {
+          article: { organizationId },
+        },
       },
       select: {
         id: true,
@@ -83,6 +105,9 @@ export const widgetRouter = router({
         title: true,
         thumbnailUrl: true,
         createdAt: true,
+        captionsVttUrl: true,
+        captionsSrtUrl: true,
+        submission: { select: { language: true } },
         tags: {
           include: {
             tag: true,
@@ -98,6 +123,10 @@ export const widgetRouter = router({
       where: {
         status: 'COMPLETED',
         isApproved: true,
+        ...published,
+        submission: {
+          article: { organizationId },
+        },
       },
       select: {
         id: true,
@@ -127,15 +156,24 @@ export const widgetRouter = router({
       },
       where: {
         isApproved: true,
+        ...published,
+        organizationId,
       },
       orderBy: {
         createdAt: 'desc',
       },
     });
 
+    const podcastCaptions = await getCaptionTracks(
+      podcasts.map((podcast) => ({ ...podcast, language: podcast.submission.language })),
+    );
+
     return {
       videos,
-      podcasts,
+      podcasts: podcasts.map(({ submission, captionsVttUrl, captionsSrtUrl, ...podcast }, index) => ({
+        ...podcast,
+        captionTracks: podcastCaptions[index],
+      })),
       interactivePodcasts,
       articles,
       fetchTime: new Date(),
@@ -143,10 +181,12 @@ export const widgetRouter = router({
   }),
 
   // Query to get a single article by ID
-  getArticle: publicProcedure.input(z.object({ id: z.string() })).query(async ({ input }) => {
-    const article = await prisma.article.findUnique({
+  getArticle: orgProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
+    const article = await prisma.article.findFirst({
       where: {
         id: input.id,
+        organizationId: ctx.organization.id,
+        ...publishingWindowFilter(),
       },
     });
 
@@ -158,14 +198,16 @@ export const widgetRouter = router({
   }),
 
   // Query to get audio reading for an article
-  getArticleAudio: publicProcedure.input(z.object({ articleId: z.string() })).query(async ({ input }) => {
+  getArticleAudio: orgProcedure.input(z.object({ articleId: z.string() })).query(async ({ ctx, input }) => {
     // Find the audio output linked to this article via submission
     const audioOutput = await prisma.audioOutput.findFirst({
       where: {
         submission: {
           articleId: input.articleId,
+          article: { organizationId: ctx.organization.id },
         },
         status: 'COMPLETED',
+        ...publishingWindowFilter(),
       },
       orderBy: {
         createdAt: 'desc', // Get the most recent one if multiple exist
@@ -179,18 +221,22 @@ export const widgetRouter = router({
     return {
       audioUrl: audioOutput.audioFileUrl,
       duration: audioOutput.duration,
+      // Word-level timings for the read-along (null for audio generated before timings existed)
+      wordTimings: (audioOutput.wordTimings as Array<{ text: string; start_time: number; end_time: number }> | null) ?? null,
     };
   }),
 
   // Query to get quiz questions for an article
-  getArticleQuiz: publicProcedure.input(z.object({ articleId: z.string() })).query(async ({ input }) => {
+  getArticleQuiz: orgProcedure.input(z.object({ articleId: z.string() })).query(async ({ ctx, input }) => {
     // Find the quiz output linked to this article via submission
     const quizOutput = await prisma.quizOutput.findFirst({
       where: {
         submission: {
           articleId: input.articleId,
+          article: { organizationId: ctx.organization.id },
         },
         status: 'COMPLETED',
+        ...publishingWindowFilter(),
       },
       include: {
         questions: {
@@ -212,10 +258,14 @@ export const widgetRouter = router({
   }),
 
   // Query to get full interactive podcast details
-  getInteractivePodcast: publicProcedure.input(z.object({ id: z.string() })).query(async ({ input }) => {
-    const interactivePodcast = await prisma.interactivePodcastOutput.findUnique({
+  getInteractivePodcast: orgProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
+    const interactivePodcast = await prisma.interactivePodcastOutput.findFirst({
       where: {
         id: input.id,
+        submission: {
+          article: { organizationId: ctx.organization.id },
+        },
+        ...publishingWindowFilter(),
       },
       select: {
         id: true,
@@ -225,6 +275,9 @@ export const widgetRouter = router({
         duration: true,
         segments: true,
         createdAt: true,
+        captionsVttUrl: true,
+        captionsSrtUrl: true,
+        submission: { select: { language: true } },
       },
     });
 
@@ -236,6 +289,10 @@ export const widgetRouter = router({
       throw new Error('Interactive podcast audio not available');
     }
 
+    const [captionTracks] = await getCaptionTracks([
+      { ...interactivePodcast, language: interactivePodcast.submission.language },
+    ]);
+
     return {
       id: interactivePodcast.id,
       title: interactivePodcast.title,
@@ -243,19 +300,26 @@ export const widgetRouter = router({
       audioFileUrl: interactivePodcast.audioFileUrl,
       duration: interactivePodcast.duration,
       segments: interactivePodcast.segments as any,
+      captionTracks,
     };
   }),
 
   // Query to get a specific video with bubbles from database
-  getVideoWithBubbles: publicProcedure
+  getVideoWithBubbles: orgProcedure
     .input(
       z.object({
         videoOutputId: z.string(),
       }),
     )
-    .query(async ({ input }) => {
-      const videoOutput = await prisma.videoOutput.findUnique({
-        where: { id: input.videoOutputId },
+    .query(async ({ ctx, input }) => {
+      const videoOutput = await prisma.videoOutput.findFirst({
+        where: {
+          id: input.videoOutputId,
+          submission: {
+            article: { organizationId: ctx.organization.id },
+          },
+          ...publishingWindowFilter(),
+        },
         include: {
           submission: {
             include: {
@@ -272,6 +336,10 @@ export const widgetRouter = router({
         throw new Error('Video not found');
       }
 
+      const [captionTracks] = await getCaptionTracks([
+        { ...videoOutput, language: videoOutput.submission.language },
+      ]);
+
       // VideoOutput now represents a single video directly
       return {
         id: videoOutput.id,
@@ -282,8 +350,82 @@ export const widgetRouter = router({
         duration: videoOutput.duration,
         transcript: videoOutput.transcript,
         bubbles: videoOutput.bubbles || [],
+        captionTracks,
       };
     }),
+
+  // Query to get the learner identified by the learner token (null if missing / rejected)
+  getCurrentLearner: orgProcedure.query(({ ctx }) => {
+    return {
+      learner: ctx.learner,
+      error: ctx.learnerTokenError,
+    };
+  }),
+
+  // Query to get the current learner's XP, streak, completions and answers
+  getLearnerState: learnerProcedure
+    .input(z.object({ timeZone: timeZoneInput }).optional())
+    .query(async ({ ctx, input }) => {
+      return getLearnerState(ctx.learner, input?.timeZone);
+    }),
+
+  // Mutation to mark a video / interactive podcast as completed (XP is awarded once)
+  recordCompletion: learnerProcedure
+    .input(
+      z.object({
+        contentType: z.enum(['VIDEO', 'INTERACTIVE_PODCAST']),
+        contentId: z.string(),
+        allCorrect: z.boolean().default(true),
+        timeZone: timeZoneInput,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return recordLearnerCompletion(ctx.learner, input);
+    }),
+
+  // Mutation to record an answer to a video bubble, quiz question or podcast prompt
+  recordAnswer: learnerProcedure
+    .input(
+      z.object({
+        contentId: z.string(),
+        answerType: z.enum(['VIDEO_BUBBLE', 'QUIZ_QUESTION', 'INTERACTIVE_PROMPT']),
+        itemKey: z.string(),
+        isCorrect: z.boolean(),
+        timeZone: timeZoneInput,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return recordLearnerAnswer(ctx.learner, input);
+    }),
+
+  // Mutation to record a batch of consumption events (views, watch progress, completions, answers)
+  trackEvents: orgProcedure
+    .input(
+      z.object({
+        events: z
+          .array(
+            z.object({
+              eventType: z.enum(['VIEW', 'PROGRESS', 'COMPLETE', 'ANSWER']),
+              contentType: z.enum(['VIDEO', 'QUIZ', 'INTERACTIVE_PODCAST']),
+              contentId: z.string(),
+              sessionId: z.string().max(64),
+              itemId: z.string().optional(),
+              selectedOption: z.string().max(500).optional(),
+              isCorrect: z.boolean().optional(),
+              watchPercent: z.number().min(0).max(100).optional(),
+              occurredAt: z.number().optional(),
+            }),
+          )
+          .max(MAX_EVENTS_PER_BATCH),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Anonymous sessions are tracked too - events are only linked to a learner when one is signed in
+      const learner = ctx.learner ? await getOrCreateLearner(ctx.organization.id, ctx.learner) : null;
+      const recorded = await recordWidgetEvents(ctx.organization.id, learner?.id ?? null, input.events);
+
+      return { recorded };
+    }),
 });
 
 // Export type definition of API
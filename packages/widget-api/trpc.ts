@@ -1,9 +1,51 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
+import type { WidgetContext } from './context';
+import { getOrCreateLearner } from './learner-progress';
 
 // Initialize tRPC
-const t = initTRPC.create();
+const t = initTRPC.context<WidgetContext>().create();
 
 // Export reusable router and procedure helpers
 export const router = t.router;
 export const publicProcedure = t.procedure;
 export const createCallerFactory = t.createCallerFactory;
+
+/**
+ * Procedure that requires a valid widget API key
+ * Narrows ctx.organization to non-null so queries can always scope by organizationId
+ */
+export const orgProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.organization) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'A valid widget API key is required',
+    });
+  }
+
+  return next({
+    ctx: {
+      organization: ctx.organization,
+    },
+  });
+});
+
+/**
+ * Procedure that additionally requires a verified learner token
+ * Replaces ctx.learner with the learner record (created on first use) in the widget's organization.
+ */
+export const learnerProcedure = orgProcedure.use(async ({ ctx, next }) => {
+  if (!ctx.learner) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: ctx.learnerTokenError || 'A learner token is required',
+    });
+  }
+
+  const learner = await getOrCreateLearner(ctx.organization.id, ctx.learner);
+
+  return next({
+    ctx: {
+      learner,
+    },
+  });
+});